@@ -0,0 +1,55 @@
+-- Migration: Create Quiz Session Tables for QuizMaker Application
+-- This migration groups quiz attempts into multi-question quiz sessions
+
+-- ============================================
+-- Quiz Sessions Table
+-- ============================================
+-- One row per quiz a student starts; questions are drawn up front
+CREATE TABLE IF NOT EXISTS quiz_sessions (
+  id TEXT PRIMARY KEY,
+  student_id TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'in_progress' CHECK(status IN ('in_progress', 'completed')),
+  question_count INTEGER NOT NULL,
+  category TEXT,
+  difficulty TEXT CHECK(difficulty IN ('easy', 'medium', 'hard')),
+  correct_count INTEGER NOT NULL DEFAULT 0,
+  score INTEGER NOT NULL DEFAULT 0,
+  max_score INTEGER NOT NULL DEFAULT 0,
+  started_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  completed_at DATETIME,
+  FOREIGN KEY (student_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+-- Index for a student's quiz history
+CREATE INDEX IF NOT EXISTS idx_quiz_sessions_student_id ON quiz_sessions(student_id);
+
+-- Index for filtering sessions by status
+CREATE INDEX IF NOT EXISTS idx_quiz_sessions_status ON quiz_sessions(status);
+
+-- ============================================
+-- Quiz Session Questions Table
+-- ============================================
+-- The ordered list of questions drawn for a session and the attempt that answered each one
+CREATE TABLE IF NOT EXISTS quiz_session_questions (
+  session_id TEXT NOT NULL,
+  question_id TEXT NOT NULL,
+  position INTEGER NOT NULL,
+  attempt_id TEXT,
+  PRIMARY KEY (session_id, position),
+  FOREIGN KEY (session_id) REFERENCES quiz_sessions(id) ON DELETE CASCADE,
+  FOREIGN KEY (question_id) REFERENCES questions(id) ON DELETE CASCADE,
+  FOREIGN KEY (attempt_id) REFERENCES quiz_attempts(id) ON DELETE SET NULL
+);
+
+-- Index for looking up sessions that contain a question
+CREATE INDEX IF NOT EXISTS idx_quiz_session_questions_question_id ON quiz_session_questions(question_id);
+
+-- ============================================
+-- Quiz Attempts: session grouping
+-- ============================================
+-- Attempts made inside a session reference it; standalone attempts keep NULL
+ALTER TABLE quiz_attempts ADD COLUMN session_id TEXT REFERENCES quiz_sessions(id) ON DELETE SET NULL;
+
+-- Index for per-session scoring; a question is answered at most once per session,
+-- so a concurrent second answer fails instead of being recorded
+CREATE UNIQUE INDEX IF NOT EXISTS idx_quiz_attempts_session_question ON quiz_attempts(session_id, question_id);
@@ -0,0 +1,46 @@
+-- Migration: Create Quiz Tables for QuizMaker Application
+-- This migration adds instructor-authored quizzes (named, ordered question sets)
+
+-- ============================================
+-- Quizzes Table
+-- ============================================
+-- Named question sets owned by an instructor; students only see published quizzes
+CREATE TABLE IF NOT EXISTS quizzes (
+  id TEXT PRIMARY KEY,
+  instructor_id TEXT NOT NULL,
+  title TEXT NOT NULL,
+  description TEXT,
+  status TEXT NOT NULL DEFAULT 'draft' CHECK(status IN ('draft', 'published')),
+  published_at DATETIME,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (instructor_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+-- Index for faster lookups by instructor
+CREATE INDEX IF NOT EXISTS idx_quizzes_instructor_id ON quizzes(instructor_id);
+
+-- Index for listing published quizzes to students
+CREATE INDEX IF NOT EXISTS idx_quizzes_status ON quizzes(status);
+
+-- ============================================
+-- Quiz Questions Table
+-- ============================================
+-- Ordered membership of questions in a quiz
+CREATE TABLE IF NOT EXISTS quiz_questions (
+  quiz_id TEXT NOT NULL,
+  question_id TEXT NOT NULL,
+  position INTEGER NOT NULL,
+  PRIMARY KEY (quiz_id, question_id),
+  FOREIGN KEY (quiz_id) REFERENCES quizzes(id) ON DELETE CASCADE,
+  FOREIGN KEY (question_id) REFERENCES questions(id) ON DELETE CASCADE
+);
+
+-- Index for finding the quizzes a question belongs to
+CREATE INDEX IF NOT EXISTS idx_quiz_questions_question_id ON quiz_questions(question_id);
+
+-- ============================================
+-- Quiz Sessions: authored quiz reference
+-- ============================================
+-- Sessions started from an authored quiz reference it; random quizzes keep NULL
+ALTER TABLE quiz_sessions ADD COLUMN quiz_id TEXT REFERENCES quizzes(id) ON DELETE SET NULL;
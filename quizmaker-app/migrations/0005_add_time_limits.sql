@@ -0,0 +1,41 @@
+-- Migration: Add Server-Enforced Time Limits for QuizMaker Application
+-- This migration stores time limits on questions and quizzes and records when
+-- each question was served, so answer timing no longer comes from the client
+
+-- ============================================
+-- Time Limit Columns
+-- ============================================
+-- Per-question limit in seconds; NULL means untimed
+ALTER TABLE questions ADD COLUMN time_limit_seconds INTEGER;
+
+-- Whole-quiz limit in seconds for authored quizzes; NULL means untimed
+ALTER TABLE quizzes ADD COLUMN time_limit_seconds INTEGER;
+
+-- Absolute deadline of a timed quiz session, fixed when the session starts
+ALTER TABLE quiz_sessions ADD COLUMN deadline_at DATETIME;
+
+-- Answers that arrived after their deadline are kept but scored zero
+ALTER TABLE quiz_attempts ADD COLUMN is_late INTEGER NOT NULL DEFAULT 0;
+
+-- ============================================
+-- Question Issues Table
+-- ============================================
+-- One row each time a question is served to a student; consumed by the answer
+CREATE TABLE IF NOT EXISTS question_issues (
+  id TEXT PRIMARY KEY,
+  student_id TEXT NOT NULL,
+  question_id TEXT NOT NULL,
+  session_id TEXT,
+  issued_at DATETIME NOT NULL,
+  deadline_at DATETIME,
+  consumed_at DATETIME,
+  FOREIGN KEY (student_id) REFERENCES users(id) ON DELETE CASCADE,
+  FOREIGN KEY (question_id) REFERENCES questions(id) ON DELETE CASCADE,
+  FOREIGN KEY (session_id) REFERENCES quiz_sessions(id) ON DELETE CASCADE
+);
+
+-- Index for finding a student's open issue of a question
+CREATE INDEX IF NOT EXISTS idx_question_issues_student_question ON question_issues(student_id, question_id);
+
+-- Index for session cleanup and lookups
+CREATE INDEX IF NOT EXISTS idx_question_issues_session_id ON question_issues(session_id);
@@ -0,0 +1,33 @@
+-- Migration: Add Multi-Select Questions for QuizMaker Application
+-- This migration adds a question type, configurable scoring and
+-- records every option a student selected in an attempt
+
+-- ============================================
+-- Question Type & Scoring Columns
+-- ============================================
+-- Values are validated in QuestionService rather than with a CHECK constraint,
+-- since widening a CHECK in SQLite means rebuilding the table
+ALTER TABLE questions ADD COLUMN question_type TEXT NOT NULL DEFAULT 'single_choice';
+
+-- 'all_or_nothing' or 'partial'; only affects multi-select questions
+ALTER TABLE questions ADD COLUMN scoring_mode TEXT NOT NULL DEFAULT 'all_or_nothing';
+
+-- ============================================
+-- Quiz Attempt Selections Table
+-- ============================================
+-- One row per option selected in an attempt; quiz_attempts.selected_option_id
+-- is still filled for single-choice answers
+CREATE TABLE IF NOT EXISTS quiz_attempt_selections (
+  attempt_id TEXT NOT NULL,
+  option_id TEXT NOT NULL,
+  PRIMARY KEY (attempt_id, option_id),
+  FOREIGN KEY (attempt_id) REFERENCES quiz_attempts(id) ON DELETE CASCADE,
+  FOREIGN KEY (option_id) REFERENCES options(id) ON DELETE CASCADE
+);
+
+-- Index for option distribution statistics
+CREATE INDEX IF NOT EXISTS idx_quiz_attempt_selections_option_id ON quiz_attempt_selections(option_id);
+
+-- Backfill selections for existing single-choice attempts
+INSERT OR IGNORE INTO quiz_attempt_selections (attempt_id, option_id)
+SELECT id, selected_option_id FROM quiz_attempts WHERE selected_option_id IS NOT NULL;
@@ -0,0 +1,34 @@
+-- Migration: Add True/False, Numeric and Short-Text Questions for QuizMaker Application
+-- This migration stores answer keys for questions that are not answered by
+-- picking from 4 or 6 options, and keeps the typed response of each attempt.
+-- True/false questions reuse the options table with exactly 2 rows
+
+-- ============================================
+-- Numeric Answer Columns
+-- ============================================
+-- Correct value of a numeric question; NULL for every other question type
+ALTER TABLE questions ADD COLUMN numeric_answer REAL;
+
+-- Allowed absolute difference from numeric_answer
+ALTER TABLE questions ADD COLUMN numeric_tolerance REAL;
+
+-- ============================================
+-- Accepted Answers Table
+-- ============================================
+-- Accepted responses of a short-text question, compared case- and whitespace-insensitively
+CREATE TABLE IF NOT EXISTS question_accepted_answers (
+  id TEXT PRIMARY KEY,
+  question_id TEXT NOT NULL,
+  answer_text TEXT NOT NULL,
+  answer_order INTEGER NOT NULL,
+  FOREIGN KEY (question_id) REFERENCES questions(id) ON DELETE CASCADE
+);
+
+-- Index for loading a question's accepted answers
+CREATE INDEX IF NOT EXISTS idx_question_accepted_answers_question_id ON question_accepted_answers(question_id);
+
+-- ============================================
+-- Attempt Response Column
+-- ============================================
+-- Typed response for numeric and short-text attempts, exactly as submitted
+ALTER TABLE quiz_attempts ADD COLUMN response_text TEXT;
@@ -0,0 +1,24 @@
+-- Migration: Create Password Reset Tokens for QuizMaker Application
+-- This migration stores password reset requests. Only a SHA-256 hash of each
+-- token is stored; the token itself is sent to the user by email
+
+-- ============================================
+-- Password Reset Tokens Table
+-- ============================================
+CREATE TABLE IF NOT EXISTS password_reset_tokens (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  token_hash TEXT UNIQUE NOT NULL,
+  expires_at DATETIME NOT NULL,
+  -- Set when the token is redeemed; a token works at most once, and a newer
+  -- request deletes the user's unused tokens
+  used_at DATETIME,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+-- Index for redeeming a token
+CREATE INDEX IF NOT EXISTS idx_password_reset_tokens_token_hash ON password_reset_tokens(token_hash);
+
+-- Index for invalidating a user's outstanding tokens
+CREATE INDEX IF NOT EXISTS idx_password_reset_tokens_user_id ON password_reset_tokens(user_id);
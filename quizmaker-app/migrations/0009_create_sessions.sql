@@ -0,0 +1,25 @@
+-- Migration: Create Sessions for QuizMaker Application
+-- This migration adds a server-side registry of login sessions. Every JWT carries
+-- the id of its session in the jti claim, and a token is only accepted while its
+-- session exists, has not expired and has not been revoked
+
+-- ============================================
+-- Sessions Table
+-- ============================================
+CREATE TABLE IF NOT EXISTS sessions (
+  -- Same value as the token's jti claim
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  user_agent TEXT,
+  ip_address TEXT,
+  created_at DATETIME NOT NULL,
+  -- Refreshed at most every few minutes while the session is in use
+  last_seen_at DATETIME NOT NULL,
+  expires_at DATETIME NOT NULL,
+  -- Set on logout, "log out everywhere" and password reset
+  revoked_at DATETIME,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+-- Index for listing and revoking a user's sessions
+CREATE INDEX IF NOT EXISTS idx_sessions_user_id ON sessions(user_id);
@@ -0,0 +1,25 @@
+-- Migration: Create Refresh Tokens for QuizMaker Application
+-- This migration backs short-lived access tokens with rotating refresh tokens.
+-- Each session is one token family: every refresh replaces the family's token,
+-- and presenting an already-rotated token revokes the whole session.
+-- Only a SHA-256 hash of each token is stored
+
+-- ============================================
+-- Refresh Tokens Table
+-- ============================================
+CREATE TABLE IF NOT EXISTS refresh_tokens (
+  id TEXT PRIMARY KEY,
+  -- Token family
+  session_id TEXT NOT NULL,
+  token_hash TEXT UNIQUE NOT NULL,
+  created_at DATETIME NOT NULL,
+  -- Set when the token is rotated; a rotated token must not be presented again
+  used_at DATETIME,
+  FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE
+);
+
+-- Index for redeeming a token
+CREATE INDEX IF NOT EXISTS idx_refresh_tokens_token_hash ON refresh_tokens(token_hash);
+
+-- Index for cleaning up a session's tokens
+CREATE INDEX IF NOT EXISTS idx_refresh_tokens_session_id ON refresh_tokens(session_id);
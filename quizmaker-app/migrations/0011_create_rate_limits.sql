@@ -0,0 +1,20 @@
+-- Migration: Create Rate Limits for QuizMaker Application
+-- This migration stores attempt counters for login and signup rate limiting.
+-- One row per limited key (e.g. "login:email:<address>" or "login:ip:<address>")
+
+-- ============================================
+-- Rate Limits Table
+-- ============================================
+CREATE TABLE IF NOT EXISTS rate_limits (
+  key TEXT PRIMARY KEY,
+  -- Attempts counted in the current window
+  count INTEGER NOT NULL DEFAULT 0,
+  window_start DATETIME NOT NULL,
+  -- Further attempts are refused until this time (backoff or lockout)
+  locked_until DATETIME,
+  -- When the row stops mattering and may be purged
+  expires_at DATETIME NOT NULL
+);
+
+-- Index for purging stale counters
+CREATE INDEX IF NOT EXISTS idx_rate_limits_expires_at ON rate_limits(expires_at);
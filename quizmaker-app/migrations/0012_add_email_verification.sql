@@ -0,0 +1,11 @@
+-- Migration: Add Email Verification for QuizMaker Application
+-- This migration records when a user confirmed their email address. New accounts
+-- start unverified; unverified students cannot answer questions or use the leaderboard
+
+-- ============================================
+-- Email Verification Column
+-- ============================================
+ALTER TABLE users ADD COLUMN email_verified_at DATETIME;
+
+-- Accounts created before verification existed are treated as verified
+UPDATE users SET email_verified_at = COALESCE(created_at, CURRENT_TIMESTAMP) WHERE email_verified_at IS NULL;
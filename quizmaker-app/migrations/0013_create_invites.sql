@@ -0,0 +1,29 @@
+-- Migration: Create Invites for QuizMaker Application
+-- Instructor accounts are created only by redeeming a single-use invite code.
+-- Only a SHA-256 hash of each code is stored; the code is shown once to the
+-- instructor who generated it
+
+-- ============================================
+-- Invites Table
+-- ============================================
+CREATE TABLE IF NOT EXISTS invites (
+  id TEXT PRIMARY KEY,
+  code_hash TEXT UNIQUE NOT NULL,
+  -- Role granted to the account that redeems the invite
+  role TEXT NOT NULL CHECK(role IN ('instructor')),
+  created_by TEXT NOT NULL,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  expires_at DATETIME NOT NULL,
+  -- Set when the invite is redeemed; an invite works at most once
+  used_at DATETIME,
+  used_by TEXT,
+  revoked_at DATETIME,
+  FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE CASCADE,
+  FOREIGN KEY (used_by) REFERENCES users(id) ON DELETE SET NULL
+);
+
+-- Index for redeeming a code
+CREATE INDEX IF NOT EXISTS idx_invites_code_hash ON invites(code_hash);
+
+-- Index for listing an instructor's invites
+CREATE INDEX IF NOT EXISTS idx_invites_created_by ON invites(created_by);
@@ -0,0 +1,39 @@
+-- Migration: Add Admin Role for QuizMaker Application
+-- This migration allows the 'admin' role and adds the columns used by the user
+-- management console: disabled accounts and administrator-forced password resets.
+--
+-- The role CHECK constraint is dropped rather than widened: widening it means
+-- rebuilding the users table, and on D1 (which always enforces foreign keys)
+-- dropping either copy of the table cascade-deletes every row that references
+-- users. Roles are validated in code instead (isUserRole in src/lib/roles.ts)
+
+-- ============================================
+-- Role Column Without CHECK
+-- ============================================
+-- A column can be dropped together with its own CHECK, but not while it is indexed.
+-- Moving the values through a new column leaves every users row, and every row
+-- that references one, untouched
+DROP INDEX IF EXISTS idx_users_role;
+
+ALTER TABLE users RENAME COLUMN role TO role_checked;
+
+-- 'student', 'instructor' or 'admin'
+ALTER TABLE users ADD COLUMN role TEXT NOT NULL DEFAULT 'student';
+
+UPDATE users SET role = role_checked;
+
+ALTER TABLE users DROP COLUMN role_checked;
+
+CREATE INDEX IF NOT EXISTS idx_users_role ON users(role);
+
+-- ============================================
+-- User Management Columns
+-- ============================================
+-- Disabled accounts cannot log in or refresh their sessions
+ALTER TABLE users ADD COLUMN disabled_at DATETIME;
+
+-- Set by an administrator; login is refused until the password is reset
+ALTER TABLE users ADD COLUMN password_reset_required_at DATETIME;
+
+-- The first administrator is promoted by hand, e.g.:
+--   UPDATE users SET role = 'admin' WHERE email = 'you@example.com';
@@ -0,0 +1,30 @@
+-- Migration: Create Audit Events for QuizMaker Application
+-- An append-only record of sensitive actions, starting with every read through
+-- the admin data explorer
+
+-- ============================================
+-- Audit Events Table
+-- ============================================
+CREATE TABLE IF NOT EXISTS audit_events (
+  id TEXT PRIMARY KEY,
+  -- NULL once the acting user has been deleted; the event itself is kept
+  actor_id TEXT,
+  -- Dotted verb, e.g. 'data.read'
+  action TEXT NOT NULL,
+  target_type TEXT,
+  target_id TEXT,
+  -- JSON object with action-specific details (filters, row counts, ...)
+  metadata TEXT,
+  ip_address TEXT,
+  created_at DATETIME NOT NULL,
+  FOREIGN KEY (actor_id) REFERENCES users(id) ON DELETE SET NULL
+);
+
+-- Index for listing one user's actions
+CREATE INDEX IF NOT EXISTS idx_audit_events_actor_id ON audit_events(actor_id);
+
+-- Index for the history of one resource
+CREATE INDEX IF NOT EXISTS idx_audit_events_target ON audit_events(target_type, target_id);
+
+-- Index for listing recent events
+CREATE INDEX IF NOT EXISTS idx_audit_events_created_at ON audit_events(created_at);
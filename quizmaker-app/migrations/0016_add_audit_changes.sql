@@ -0,0 +1,13 @@
+-- Migration: Add Changes and Owners to Audit Events
+-- Question edits and deletions, auth events and account changes are now audited.
+-- changes holds a before/after diff of the fields that changed; owner_id is the
+-- user whose resource was acted on, so instructors can review events on their
+-- own questions
+
+ALTER TABLE audit_events ADD COLUMN owner_id TEXT REFERENCES users(id) ON DELETE SET NULL;
+
+-- JSON object: { "<field>": { "before": ..., "after": ... } }
+ALTER TABLE audit_events ADD COLUMN changes TEXT;
+
+-- Index for an instructor's view of the audit log
+CREATE INDEX IF NOT EXISTS idx_audit_events_owner_id ON audit_events(owner_id);
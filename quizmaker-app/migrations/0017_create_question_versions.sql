@@ -0,0 +1,86 @@
+-- Migration: Create Question Versions for QuizMaker Application
+-- Every create, edit and rollback of a question stores an immutable version.
+-- Attempts reference the version that was answered, so editing a question no
+-- longer rewrites the history of past attempts
+
+-- ============================================
+-- Question Versions Table
+-- ============================================
+CREATE TABLE IF NOT EXISTS question_versions (
+  id TEXT PRIMARY KEY,
+  question_id TEXT NOT NULL,
+  -- 1 for the question as created, incremented by every edit
+  version_number INTEGER NOT NULL,
+  -- JSON object with the question's fields, options (with ids) and answer key
+  snapshot TEXT NOT NULL,
+  created_by TEXT,
+  -- Version number this version was rolled back to, if any
+  restored_from INTEGER,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (question_id, version_number),
+  FOREIGN KEY (question_id) REFERENCES questions(id) ON DELETE CASCADE,
+  FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE SET NULL
+);
+
+-- ============================================
+-- Version References
+-- ============================================
+-- Version currently served to students
+ALTER TABLE questions ADD COLUMN current_version_id TEXT;
+
+-- Version the student answered
+ALTER TABLE quiz_attempts ADD COLUMN version_id TEXT REFERENCES question_versions(id) ON DELETE SET NULL;
+
+-- Options replaced by an edit are retired instead of deleted, so the selections
+-- of past attempts keep pointing at the option that was chosen
+ALTER TABLE options ADD COLUMN retired_at DATETIME;
+
+-- Index for a question's version history
+CREATE INDEX IF NOT EXISTS idx_question_versions_question_id ON question_versions(question_id);
+
+-- ============================================
+-- Backfill
+-- ============================================
+-- Version 1 of every existing question is its current state
+INSERT INTO question_versions (id, question_id, version_number, snapshot, created_by, created_at)
+SELECT
+  lower(hex(randomblob(16))),
+  q.id,
+  1,
+  json_object(
+    'questionType', q.question_type,
+    'scoringMode', q.scoring_mode,
+    'questionText', q.question_text,
+    'category', q.category,
+    'difficulty', q.difficulty,
+    'points', q.points,
+    'timeLimitSeconds', q.time_limit_seconds,
+    'options', json((
+      SELECT json_group_array(json_object(
+        'id', o.id,
+        'optionText', o.option_text,
+        'isCorrect', json(CASE WHEN o.is_correct = 1 THEN 'true' ELSE 'false' END),
+        'optionOrder', o.option_order
+      ))
+      FROM (SELECT * FROM options WHERE question_id = q.id ORDER BY option_order) o
+    )),
+    'numericAnswer', q.numeric_answer,
+    'numericTolerance', q.numeric_tolerance,
+    'acceptedAnswers', json((
+      SELECT json_group_array(a.answer_text)
+      FROM (SELECT * FROM question_accepted_answers WHERE question_id = q.id ORDER BY answer_order) a
+    ))
+  ),
+  q.instructor_id,
+  q.updated_at
+FROM questions q;
+
+UPDATE questions SET current_version_id = (
+  SELECT id FROM question_versions WHERE question_id = questions.id AND version_number = 1
+);
+
+-- Attempts made before versioning are attached to version 1; their options are
+-- the ones still stored for the question
+UPDATE quiz_attempts SET version_id = (
+  SELECT current_version_id FROM questions WHERE questions.id = quiz_attempts.question_id
+);
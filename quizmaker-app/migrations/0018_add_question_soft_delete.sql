@@ -0,0 +1,11 @@
+-- Migration: Add Soft Delete for Questions
+-- Deleting a question moves it to the trash instead of removing it, so the
+-- attempts answering it (and the leaderboard totals built from them) are kept.
+-- Trashed questions can be restored, or purged once the retention window
+-- in QuestionService has passed
+
+-- Set when the question is moved to the trash; NULL for active questions
+ALTER TABLE questions ADD COLUMN deleted_at DATETIME;
+
+-- Index for an instructor's question list and trash
+CREATE INDEX IF NOT EXISTS idx_questions_instructor_deleted ON questions(instructor_id, deleted_at);
@@ -0,0 +1,102 @@
+-- Migration: Create Courses for QuizMaker Application
+-- Instructors group students into courses. Students join with a course's join
+-- code and only draw questions from the pools of the courses they belong to;
+-- published quizzes, leaderboards and statistics are scoped the same way
+
+-- ============================================
+-- Courses Table
+-- ============================================
+CREATE TABLE IF NOT EXISTS courses (
+  id TEXT PRIMARY KEY,
+  instructor_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  description TEXT,
+  -- Short code students enter to join; instructors can regenerate it
+  join_code TEXT UNIQUE NOT NULL,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (instructor_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+-- Index for listing an instructor's courses
+CREATE INDEX IF NOT EXISTS idx_courses_instructor_id ON courses(instructor_id);
+
+-- ============================================
+-- Course Enrollments Table
+-- ============================================
+CREATE TABLE IF NOT EXISTS course_enrollments (
+  course_id TEXT NOT NULL,
+  student_id TEXT NOT NULL,
+  enrolled_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (course_id, student_id),
+  FOREIGN KEY (course_id) REFERENCES courses(id) ON DELETE CASCADE,
+  FOREIGN KEY (student_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+-- Index for finding a student's courses
+CREATE INDEX IF NOT EXISTS idx_course_enrollments_student_id ON course_enrollments(student_id);
+
+-- ============================================
+-- Course Questions Table
+-- ============================================
+-- The question pool of a course; a question can be in several of its owner's courses
+CREATE TABLE IF NOT EXISTS course_questions (
+  course_id TEXT NOT NULL,
+  question_id TEXT NOT NULL,
+  added_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (course_id, question_id),
+  FOREIGN KEY (course_id) REFERENCES courses(id) ON DELETE CASCADE,
+  FOREIGN KEY (question_id) REFERENCES questions(id) ON DELETE CASCADE
+);
+
+-- Index for finding the courses a question belongs to
+CREATE INDEX IF NOT EXISTS idx_course_questions_question_id ON course_questions(question_id);
+
+-- ============================================
+-- Course References
+-- ============================================
+-- Course whose students can take a published quiz
+ALTER TABLE quizzes ADD COLUMN course_id TEXT REFERENCES courses(id) ON DELETE SET NULL;
+
+-- Course a quiz session was drawn from (null for sessions across all of a student's courses)
+ALTER TABLE quiz_sessions ADD COLUMN course_id TEXT REFERENCES courses(id) ON DELETE SET NULL;
+
+-- ============================================
+-- Backfill
+-- ============================================
+-- Every instructor with questions or quizzes gets a "General" course holding all
+-- of their questions and quizzes. Students who have answered any of those
+-- questions are enrolled, so existing history and leaderboards carry over
+INSERT INTO courses (id, instructor_id, name, description, join_code, created_at, updated_at)
+SELECT
+  lower(hex(randomblob(16))),
+  u.id,
+  'General',
+  'Created automatically for existing questions and quizzes',
+  upper(hex(randomblob(4))),
+  CURRENT_TIMESTAMP,
+  CURRENT_TIMESTAMP
+FROM users u
+WHERE EXISTS (SELECT 1 FROM questions q WHERE q.instructor_id = u.id)
+   OR EXISTS (SELECT 1 FROM quizzes z WHERE z.instructor_id = u.id);
+
+INSERT INTO course_questions (course_id, question_id)
+SELECT c.id, q.id
+FROM questions q
+JOIN courses c ON c.instructor_id = q.instructor_id;
+
+INSERT INTO course_enrollments (course_id, student_id)
+SELECT DISTINCT c.id, qa.student_id
+FROM quiz_attempts qa
+JOIN questions q ON q.id = qa.question_id
+JOIN courses c ON c.instructor_id = q.instructor_id
+JOIN users u ON u.id = qa.student_id AND u.role = 'student';
+
+UPDATE quizzes SET course_id = (
+  SELECT id FROM courses WHERE courses.instructor_id = quizzes.instructor_id
+);
+
+UPDATE quiz_sessions SET course_id = (
+  SELECT course_id FROM quizzes WHERE quizzes.id = quiz_sessions.quiz_id
+)
+WHERE quiz_id IS NOT NULL;
@@ -0,0 +1,12 @@
+-- Migration: Add Leaderboard Privacy
+-- Students choose whether leaderboards show their real name, a pseudonym, or leave
+-- them off entirely. Instructors can require pseudonyms or hide everyone for a
+-- course; the most private of the two settings applies
+
+-- shown | pseudonym | hidden; existing students keep appearing under their name
+ALTER TABLE users ADD COLUMN leaderboard_visibility TEXT NOT NULL DEFAULT 'shown'
+  CHECK (leaderboard_visibility IN ('shown', 'pseudonym', 'hidden'));
+
+-- student_choice | pseudonym | hidden
+ALTER TABLE courses ADD COLUMN leaderboard_policy TEXT NOT NULL DEFAULT 'student_choice'
+  CHECK (leaderboard_policy IN ('student_choice', 'pseudonym', 'hidden'));
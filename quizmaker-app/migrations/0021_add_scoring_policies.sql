@@ -0,0 +1,60 @@
+-- Migration: Add Scoring Policies
+-- Re-answering a question used to earn its full points every time, so leaderboards
+-- rewarded grinding easy questions. Each attempt now records which answer to the
+-- question it was for the student, and the points it adds to their totals under
+-- the scoring policy. Statistics, leaderboards and attempt history sum awarded_score;
+-- score stays the grade the answer itself earned
+
+-- ============================================
+-- Attempt Columns
+-- ============================================
+-- 1 for a student's first answer to a question, 2 for the second, ...
+ALTER TABLE quiz_attempts ADD COLUMN attempt_number INTEGER NOT NULL DEFAULT 1;
+
+-- Points the attempt counts for in totals under the scoring policy
+ALTER TABLE quiz_attempts ADD COLUMN awarded_score INTEGER NOT NULL DEFAULT 0;
+
+-- Index for finding a student's earlier answers to a question
+CREATE INDEX IF NOT EXISTS idx_quiz_attempts_student_question ON quiz_attempts(student_id, question_id, attempt_date);
+
+-- ============================================
+-- Scoring Settings Table
+-- ============================================
+-- A single row holding the policy for the whole application:
+--   every_attempt: every answer counts in full (the old behaviour)
+--   first_attempt: only the first answer to a question counts
+--   best_attempt: a question counts once, at the best score reached
+--   diminishing: repeats count for 1/2, then 1/4, then nothing
+CREATE TABLE IF NOT EXISTS scoring_settings (
+  id INTEGER PRIMARY KEY CHECK (id = 1),
+  policy TEXT NOT NULL DEFAULT 'best_attempt'
+    CHECK (policy IN ('every_attempt', 'first_attempt', 'best_attempt', 'diminishing')),
+  updated_by TEXT,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (updated_by) REFERENCES users(id) ON DELETE SET NULL
+);
+
+INSERT OR IGNORE INTO scoring_settings (id, policy) VALUES (1, 'best_attempt');
+
+-- ============================================
+-- Backfill
+-- ============================================
+-- Number existing attempts and award them under best_attempt: each answer adds
+-- what it improved on the student's best earlier score for the question.
+-- ScoringService.recompute runs the same update for whichever policy is chosen later
+WITH ordered AS (
+  SELECT
+    id,
+    score,
+    ROW_NUMBER() OVER (PARTITION BY student_id, question_id ORDER BY attempt_date, id) as attempt_number,
+    MAX(score) OVER (
+      PARTITION BY student_id, question_id ORDER BY attempt_date, id
+      ROWS BETWEEN UNBOUNDED PRECEDING AND 1 PRECEDING
+    ) as previous_best
+  FROM quiz_attempts
+)
+UPDATE quiz_attempts
+SET attempt_number = ordered.attempt_number,
+    awarded_score = MAX(0, ordered.score - COALESCE(ordered.previous_best, 0))
+FROM ordered
+WHERE ordered.id = quiz_attempts.id;
@@ -0,0 +1,255 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  ArrowLeft,
+  MonitorSmartphone,
+  LogOut,
+} from 'lucide-react';
+import { getHomePath } from '@/lib/roles';
+
+interface Session {
+  id: string;
+  device: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastSeenAt: string;
+  expiresAt: string;
+  current: boolean;
+}
+
+export default function SessionsPage() {
+  const router = useRouter();
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [homeUrl, setHomeUrl] = useState('/');
+  const [loading, setLoading] = useState(true);
+  const [revoking, setRevoking] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    fetchSessions();
+    fetchHomeUrl();
+  }, []);
+
+  const fetchSessions = async () => {
+    try {
+      const response = await fetch('/api/account/sessions');
+      const data = await response.json() as { success: boolean; message?: string; sessions: Session[] };
+
+      if (data.success) {
+        setSessions(data.sessions);
+      } else {
+        setError(data.message || 'Failed to load sessions');
+      }
+    } catch (error) {
+      console.error('Failed to fetch sessions:', error);
+      setError('Failed to load sessions');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchHomeUrl = async () => {
+    try {
+      const response = await fetch('/api/auth/me');
+      const data = await response.json() as { success: boolean; user: { role: string } };
+
+      if (data.success) {
+        setHomeUrl(getHomePath(data.user.role));
+      }
+    } catch (error) {
+      console.error('Failed to fetch user:', error);
+    }
+  };
+
+  const revokeSession = async (session: Session) => {
+    setRevoking(session.id);
+    setError('');
+
+    try {
+      const response = await fetch(`/api/account/sessions/${session.id}`, { method: 'DELETE' });
+      const data = await response.json() as { success: boolean; message?: string };
+
+      if (!data.success) {
+        setError(data.message || 'Failed to revoke session');
+        return;
+      }
+
+      if (session.current) {
+        router.push('/login');
+        return;
+      }
+
+      setSessions((prev) => prev.filter((s) => s.id !== session.id));
+    } catch (error) {
+      console.error('Failed to revoke session:', error);
+      setError('Failed to revoke session');
+    } finally {
+      setRevoking(null);
+    }
+  };
+
+  const revokeAll = async (keepCurrent: boolean) => {
+    setRevoking(keepCurrent ? 'others' : 'all');
+    setError('');
+
+    try {
+      const response = await fetch(`/api/account/sessions${keepCurrent ? '?keepCurrent=true' : ''}`, {
+        method: 'DELETE',
+      });
+      const data = await response.json() as { success: boolean; message?: string };
+
+      if (!data.success) {
+        setError(data.message || 'Failed to revoke sessions');
+        return;
+      }
+
+      if (!keepCurrent) {
+        router.push('/login');
+        return;
+      }
+
+      setSessions((prev) => prev.filter((s) => s.current));
+    } catch (error) {
+      console.error('Failed to revoke sessions:', error);
+      setError('Failed to revoke sessions');
+    } finally {
+      setRevoking(null);
+    }
+  };
+
+  const formatDate = (value: string) => new Date(value).toLocaleString();
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900">
+      {/* Header */}
+      <nav className="border-b border-slate-700 bg-slate-800/50 backdrop-blur-sm sticky top-0 z-50">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center gap-3">
+            <Link href={homeUrl}>
+              <Button variant="ghost" size="icon" className="text-slate-400 hover:text-slate-100">
+                <ArrowLeft className="h-5 w-5" />
+              </Button>
+            </Link>
+            <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-slate-500/10">
+              <MonitorSmartphone className="h-5 w-5 text-slate-300" />
+            </div>
+            <h1 className="text-xl font-bold text-slate-100">Active Sessions</h1>
+          </div>
+        </div>
+      </nav>
+
+      <div className="container mx-auto px-4 py-8 max-w-4xl">
+        <Card className="border-slate-700 bg-slate-800/50">
+          <CardHeader className="flex flex-col gap-4 md:flex-row md:items-start md:justify-between">
+            <div className="space-y-1.5">
+              <CardTitle className="text-slate-100">Where you&apos;re signed in</CardTitle>
+              <CardDescription className="text-slate-400">
+                Sign out of any device you don&apos;t recognise. Revoked sessions stop working within a minute.
+              </CardDescription>
+            </div>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                onClick={() => revokeAll(true)}
+                disabled={loading || revoking !== null || sessions.length <= 1}
+                className="border-slate-600 text-slate-200 hover:bg-slate-700"
+              >
+                Sign out others
+              </Button>
+              <Button
+                onClick={() => revokeAll(false)}
+                disabled={loading || revoking !== null}
+                className="bg-red-600 hover:bg-red-700 text-white"
+              >
+                <LogOut className="h-4 w-4 mr-2" />
+                Log out everywhere
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="p-0">
+            {error && (
+              <p className="px-6 pb-4 text-sm text-red-400">{error}</p>
+            )}
+            <Table>
+              <TableHeader>
+                <TableRow className="border-slate-700 hover:bg-transparent">
+                  <TableHead className="text-slate-400">Device</TableHead>
+                  <TableHead className="text-slate-400 hidden md:table-cell">IP Address</TableHead>
+                  <TableHead className="text-slate-400">Last Seen</TableHead>
+                  <TableHead className="text-slate-400 hidden md:table-cell">Signed In</TableHead>
+                  <TableHead className="text-slate-400 w-24" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {loading ? (
+                  Array.from({ length: 3 }).map((_, i) => (
+                    <TableRow key={i} className="border-slate-700">
+                      <TableCell><Skeleton className="h-4 w-32" /></TableCell>
+                      <TableCell className="hidden md:table-cell"><Skeleton className="h-4 w-24" /></TableCell>
+                      <TableCell><Skeleton className="h-4 w-28" /></TableCell>
+                      <TableCell className="hidden md:table-cell"><Skeleton className="h-4 w-28" /></TableCell>
+                      <TableCell><Skeleton className="h-8 w-16" /></TableCell>
+                    </TableRow>
+                  ))
+                ) : sessions.length === 0 ? (
+                  <TableRow className="border-slate-700">
+                    <TableCell colSpan={5} className="text-center py-8 text-slate-400">
+                      No active sessions
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  sessions.map((session) => (
+                    <TableRow key={session.id} className="border-slate-700 hover:bg-slate-700/30">
+                      <TableCell className="text-slate-200">
+                        <div className="flex items-center gap-2" title={session.userAgent ?? undefined}>
+                          {session.device}
+                          {session.current && (
+                            <Badge variant="outline" className="border-emerald-500/30 text-emerald-400">
+                              This device
+                            </Badge>
+                          )}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-slate-400 font-mono text-sm hidden md:table-cell">
+                        {session.ipAddress ?? 'Unknown'}
+                      </TableCell>
+                      <TableCell className="text-slate-400">{formatDate(session.lastSeenAt)}</TableCell>
+                      <TableCell className="text-slate-400 hidden md:table-cell">{formatDate(session.createdAt)}</TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => revokeSession(session)}
+                          disabled={revoking !== null}
+                          className="text-red-400 hover:text-red-300 hover:bg-red-500/10"
+                        >
+                          {session.current ? 'Log out' : 'Revoke'}
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
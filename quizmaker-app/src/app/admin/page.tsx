@@ -0,0 +1,679 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  ShieldCheck,
+  Search,
+  MoreHorizontal,
+  ChevronLeft,
+  ChevronRight,
+  ChevronDown,
+  User,
+  UserCog,
+  Ban,
+  CircleCheck,
+  KeyRound,
+  Trash2,
+  LogOut,
+  MonitorSmartphone,
+  BookOpen,
+  ScrollText,
+  Scale,
+  RefreshCw,
+} from 'lucide-react';
+
+type UserRole = 'student' | 'instructor' | 'admin';
+
+interface ManagedUser {
+  id: string;
+  name: string;
+  email: string;
+  role: UserRole;
+  emailVerified: boolean;
+  disabled: boolean;
+  passwordResetRequired: boolean;
+  createdAt: string;
+  lastSeenAt: string | null;
+}
+
+interface PaginatedResult {
+  data: ManagedUser[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+type PendingAction =
+  | { kind: 'role'; user: ManagedUser; role: UserRole }
+  | { kind: 'disable' | 'enable' | 'reset' | 'delete'; user: ManagedUser };
+
+type ScoringPolicy = 'every_attempt' | 'first_attempt' | 'best_attempt' | 'diminishing';
+
+const SCORING_POLICY_LABELS: Record<ScoringPolicy, { label: string; description: string }> = {
+  every_attempt: { label: 'Every attempt', description: 'Every answer counts in full, including repeats' },
+  first_attempt: { label: 'First attempt only', description: 'Only the first answer to each question counts' },
+  best_attempt: { label: 'Best attempt', description: 'Each question counts once, at the best score reached' },
+  diminishing: { label: 'Diminishing returns', description: 'Repeats count for half, then a quarter, then nothing' },
+};
+
+const ROLES: UserRole[] = ['student', 'instructor', 'admin'];
+const PAGE_SIZE = 20;
+
+export default function AdminConsolePage() {
+  const router = useRouter();
+  const [currentUser, setCurrentUser] = useState<{ id: string; name: string; email: string } | null>(null);
+  const [users, setUsers] = useState<ManagedUser[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState('');
+  const [role, setRole] = useState('all');
+  const [status, setStatus] = useState('all');
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [total, setTotal] = useState(0);
+  const [pending, setPending] = useState<PendingAction | null>(null);
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+  const [scoringPolicy, setScoringPolicy] = useState<ScoringPolicy | null>(null);
+  const [savedScoringPolicy, setSavedScoringPolicy] = useState<ScoringPolicy | null>(null);
+  const [scoringWorking, setScoringWorking] = useState(false);
+
+  const fetchUsers = useCallback(async () => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({
+        page: page.toString(),
+        limit: PAGE_SIZE.toString(),
+      });
+      if (search) params.append('search', search);
+      if (role !== 'all') params.append('role', role);
+      if (status !== 'all') params.append('status', status);
+
+      const response = await fetch(`/api/admin/users?${params}`);
+      const data = await response.json() as PaginatedResult & { success: boolean; message?: string };
+
+      if (data.success) {
+        setUsers(data.data);
+        setTotalPages(data.totalPages);
+        setTotal(data.total);
+      } else {
+        setError(data.message || 'Failed to load users');
+      }
+    } catch (error) {
+      console.error('Failed to fetch users:', error);
+      setError('Failed to load users');
+    } finally {
+      setLoading(false);
+    }
+  }, [page, search, role, status]);
+
+  const fetchCurrentUser = async () => {
+    try {
+      const response = await fetch('/api/auth/me');
+      const data = await response.json() as { success: boolean; user: { id: string; name: string; email: string } };
+      if (data.success) {
+        setCurrentUser(data.user);
+      }
+    } catch (error) {
+      console.error('Failed to fetch user:', error);
+    }
+  };
+
+  const fetchScoring = async () => {
+    try {
+      const response = await fetch('/api/admin/scoring');
+      const data = await response.json() as { success: boolean; policy?: ScoringPolicy };
+      if (data.success && data.policy) {
+        setScoringPolicy(data.policy);
+        setSavedScoringPolicy(data.policy);
+      }
+    } catch (error) {
+      console.error('Failed to fetch scoring policy:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchUsers();
+  }, [fetchUsers]);
+
+  useEffect(() => {
+    fetchCurrentUser();
+    fetchScoring();
+  }, []);
+
+  // Changing the policy and recomputing both rewrite every attempt's awarded score
+  const runScoringAction = async (request: Promise<Response>) => {
+    setScoringWorking(true);
+    setError('');
+    setNotice('');
+    try {
+      const response = await request;
+      const data = await response.json() as { success: boolean; message: string; policy?: ScoringPolicy };
+
+      if (!data.success) {
+        setError(data.message || 'Action failed');
+        return;
+      }
+
+      setNotice(data.message);
+      if (data.policy) {
+        setScoringPolicy(data.policy);
+        setSavedScoringPolicy(data.policy);
+      }
+    } catch (error) {
+      console.error('Scoring action failed:', error);
+      setError('Action failed');
+    } finally {
+      setScoringWorking(false);
+    }
+  };
+
+  const runPendingAction = async () => {
+    if (!pending) return;
+
+    setWorking(true);
+    setError('');
+    setNotice('');
+
+    const userUrl = `/api/admin/users/${pending.user.id}`;
+    let request: Promise<Response>;
+    switch (pending.kind) {
+      case 'role':
+        request = fetch(userUrl, {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ role: pending.role }),
+        });
+        break;
+      case 'disable':
+      case 'enable':
+        request = fetch(userUrl, {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ disabled: pending.kind === 'disable' }),
+        });
+        break;
+      case 'reset':
+        request = fetch(`${userUrl}/password-reset`, { method: 'POST' });
+        break;
+      case 'delete':
+        request = fetch(userUrl, { method: 'DELETE' });
+        break;
+    }
+
+    try {
+      const response = await request;
+      const data = await response.json() as { success: boolean; message: string };
+
+      if (!data.success) {
+        setError(data.message || 'Action failed');
+        return;
+      }
+
+      setNotice(data.message);
+      setPending(null);
+      fetchUsers();
+    } catch (error) {
+      console.error('Admin action failed:', error);
+      setError('Action failed');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleLogout = async () => {
+    await fetch('/api/auth/logout', { method: 'POST' });
+    router.push('/login');
+  };
+
+  const describePending = (action: PendingAction): { title: string; description: string; confirm: string } => {
+    const name = `${action.user.name} (${action.user.email})`;
+    switch (action.kind) {
+      case 'role':
+        return {
+          title: 'Change Role',
+          description: `Make ${name} ${action.role === 'admin' ? 'an' : 'a'} ${action.role}? They will be signed out and get the new role at their next login.`,
+          confirm: 'Change Role',
+        };
+      case 'disable':
+        return {
+          title: 'Disable Account',
+          description: `Disable ${name}? They will be signed out everywhere and cannot log in until re-enabled.`,
+          confirm: 'Disable',
+        };
+      case 'enable':
+        return {
+          title: 'Enable Account',
+          description: `Allow ${name} to log in again?`,
+          confirm: 'Enable',
+        };
+      case 'reset':
+        return {
+          title: 'Force Password Reset',
+          description: `Sign ${name} out everywhere and email them a reset link? They cannot log in until they choose a new password.`,
+          confirm: 'Force Reset',
+        };
+      case 'delete':
+        return {
+          title: 'Delete User',
+          description: `Permanently delete ${name}? Their questions, quizzes and quiz attempts are deleted too. This action cannot be undone. Users whose questions or courses students have answered cannot be deleted; disable them instead.`,
+          confirm: 'Delete',
+        };
+    }
+  };
+
+  const getRoleColor = (value: UserRole) => {
+    switch (value) {
+      case 'admin':
+        return 'border-violet-500/30 text-violet-400';
+      case 'instructor':
+        return 'border-emerald-500/30 text-emerald-400';
+      default:
+        return 'border-blue-500/30 text-blue-400';
+    }
+  };
+
+  const formatDate = (value: string | null) => (value ? new Date(value).toLocaleString() : 'Never');
+
+  const pendingText = pending ? describePending(pending) : null;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900">
+      {/* Navigation */}
+      <nav className="border-b border-slate-700 bg-slate-800/50 backdrop-blur-sm sticky top-0 z-50">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex justify-between items-center">
+            <div className="flex items-center gap-3">
+              <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-violet-500/10">
+                <ShieldCheck className="h-5 w-5 text-violet-500" />
+              </div>
+              <h1 className="text-xl font-bold text-slate-100">QuizMaker</h1>
+              <Badge variant="outline" className="border-violet-500/30 text-violet-400 ml-2">
+                Admin
+              </Badge>
+            </div>
+
+            <div className="flex items-center gap-4">
+              <Link href="/instructor/dashboard" className="hidden md:block">
+                <Button variant="ghost" size="sm" className="text-slate-400 hover:text-slate-100">
+                  <BookOpen className="h-4 w-4 mr-2" />
+                  Instructor View
+                </Button>
+              </Link>
+
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="ghost" className="text-slate-300 hover:text-slate-100 hover:bg-slate-700">
+                    <User className="h-4 w-4 mr-2" />
+                    {currentUser?.name || <Skeleton className="h-4 w-20" />}
+                    <ChevronDown className="h-4 w-4 ml-2" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end" className="w-56 bg-slate-800 border-slate-700">
+                  <div className="px-2 py-1.5">
+                    <p className="text-sm font-medium text-slate-100">{currentUser?.name}</p>
+                    <p className="text-xs text-slate-400">{currentUser?.email}</p>
+                  </div>
+                  <DropdownMenuSeparator className="bg-slate-700" />
+                  <DropdownMenuItem asChild className="md:hidden">
+                    <Link href="/instructor/dashboard" className="text-slate-200 focus:bg-slate-700 cursor-pointer">
+                      <BookOpen className="h-4 w-4 mr-2" />
+                      Instructor View
+                    </Link>
+                  </DropdownMenuItem>
+                  <DropdownMenuItem asChild>
+                    <Link href="/instructor/audit" className="text-slate-200 focus:bg-slate-700 cursor-pointer">
+                      <ScrollText className="h-4 w-4 mr-2" />
+                      Audit Log
+                    </Link>
+                  </DropdownMenuItem>
+                  <DropdownMenuItem asChild>
+                    <Link href="/account/sessions" className="text-slate-200 focus:bg-slate-700 cursor-pointer">
+                      <MonitorSmartphone className="h-4 w-4 mr-2" />
+                      Active Sessions
+                    </Link>
+                  </DropdownMenuItem>
+                  <DropdownMenuSeparator className="bg-slate-700" />
+                  <DropdownMenuItem
+                    onClick={handleLogout}
+                    className="text-red-400 focus:text-red-400 focus:bg-red-500/10 cursor-pointer"
+                  >
+                    <LogOut className="h-4 w-4 mr-2" />
+                    Logout
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            </div>
+          </div>
+        </div>
+      </nav>
+
+      <div className="container mx-auto px-4 py-8">
+        {/* Scoring Policy */}
+        {scoringPolicy && (
+          <Card className="border-slate-700 bg-slate-800/50 mb-6">
+            <CardHeader>
+              <CardTitle className="text-slate-100 text-lg flex items-center gap-2">
+                <Scale className="h-5 w-5 text-violet-400" />
+                Scoring
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="flex flex-col md:flex-row md:items-center gap-4">
+                <div className="flex-1">
+                  <p className="text-sm text-slate-300">How repeated answers to the same question count in totals and leaderboards</p>
+                  <p className="text-xs text-slate-500">{SCORING_POLICY_LABELS[scoringPolicy].description}</p>
+                </div>
+                <Select value={scoringPolicy} onValueChange={(v) => setScoringPolicy(v as ScoringPolicy)}>
+                  <SelectTrigger className="w-full md:w-52 border-slate-600 bg-slate-700/50 text-slate-100">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-slate-800 border-slate-700">
+                    {(Object.keys(SCORING_POLICY_LABELS) as ScoringPolicy[]).map((value) => (
+                      <SelectItem key={value} value={value} className="text-slate-100">
+                        {SCORING_POLICY_LABELS[value].label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  disabled={scoringWorking || scoringPolicy === savedScoringPolicy}
+                  onClick={() => runScoringAction(fetch('/api/admin/scoring', {
+                    method: 'PUT',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({ policy: scoringPolicy }),
+                  }))}
+                  className="bg-violet-600 hover:bg-violet-700 text-white"
+                >
+                  Apply
+                </Button>
+                <Button
+                  variant="outline"
+                  disabled={scoringWorking}
+                  onClick={() => runScoringAction(fetch('/api/admin/scoring/recompute', { method: 'POST' }))}
+                  className="border-slate-600 text-slate-300 hover:bg-slate-700"
+                >
+                  <RefreshCw className="h-4 w-4 mr-2" />
+                  Recompute
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Filters */}
+        <Card className="border-slate-700 bg-slate-800/50 mb-6">
+          <CardHeader>
+            <CardTitle className="text-slate-100 text-lg">Users</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="flex flex-col md:flex-row gap-4">
+              <div className="flex-1 relative">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-slate-400" />
+                <Input
+                  placeholder="Search by name or email..."
+                  value={search}
+                  onChange={(e) => {
+                    setSearch(e.target.value);
+                    setPage(1);
+                  }}
+                  className="pl-10 border-slate-600 bg-slate-700/50 text-slate-100 placeholder:text-slate-500"
+                />
+              </div>
+              <Select value={role} onValueChange={(v) => { setRole(v); setPage(1); }}>
+                <SelectTrigger className="w-full md:w-40 border-slate-600 bg-slate-700/50 text-slate-100">
+                  <SelectValue placeholder="Role" />
+                </SelectTrigger>
+                <SelectContent className="bg-slate-800 border-slate-700">
+                  <SelectItem value="all" className="text-slate-100">All Roles</SelectItem>
+                  <SelectItem value="student" className="text-slate-100">Students</SelectItem>
+                  <SelectItem value="instructor" className="text-slate-100">Instructors</SelectItem>
+                  <SelectItem value="admin" className="text-slate-100">Admins</SelectItem>
+                </SelectContent>
+              </Select>
+              <Select value={status} onValueChange={(v) => { setStatus(v); setPage(1); }}>
+                <SelectTrigger className="w-full md:w-40 border-slate-600 bg-slate-700/50 text-slate-100">
+                  <SelectValue placeholder="Status" />
+                </SelectTrigger>
+                <SelectContent className="bg-slate-800 border-slate-700">
+                  <SelectItem value="all" className="text-slate-100">All Statuses</SelectItem>
+                  <SelectItem value="active" className="text-slate-100">Active</SelectItem>
+                  <SelectItem value="disabled" className="text-slate-100">Disabled</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </CardContent>
+        </Card>
+
+        {error && (
+          <div className="mb-4 rounded-md bg-red-500/10 border border-red-500/20 p-3 text-sm text-red-400">
+            {error}
+          </div>
+        )}
+        {notice && (
+          <div className="mb-4 rounded-md bg-emerald-500/10 border border-emerald-500/20 p-3 text-sm text-emerald-400">
+            {notice}
+          </div>
+        )}
+
+        {/* Users Table */}
+        <Card className="border-slate-700 bg-slate-800/50">
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader>
+                <TableRow className="border-slate-700 hover:bg-transparent">
+                  <TableHead className="text-slate-400">User</TableHead>
+                  <TableHead className="text-slate-400">Role</TableHead>
+                  <TableHead className="text-slate-400">Status</TableHead>
+                  <TableHead className="text-slate-400 hidden md:table-cell">Last Seen</TableHead>
+                  <TableHead className="text-slate-400 hidden md:table-cell">Joined</TableHead>
+                  <TableHead className="text-slate-400 text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {loading ? (
+                  Array.from({ length: 5 }).map((_, i) => (
+                    <TableRow key={i} className="border-slate-700">
+                      <TableCell><Skeleton className="h-4 w-48" /></TableCell>
+                      <TableCell><Skeleton className="h-5 w-20" /></TableCell>
+                      <TableCell><Skeleton className="h-5 w-16" /></TableCell>
+                      <TableCell className="hidden md:table-cell"><Skeleton className="h-4 w-28" /></TableCell>
+                      <TableCell className="hidden md:table-cell"><Skeleton className="h-4 w-28" /></TableCell>
+                      <TableCell><Skeleton className="h-4 w-8 ml-auto" /></TableCell>
+                    </TableRow>
+                  ))
+                ) : users.length === 0 ? (
+                  <TableRow className="border-slate-700">
+                    <TableCell colSpan={6} className="text-center py-8 text-slate-400">
+                      No users found
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  users.map((user) => (
+                    <TableRow key={user.id} className="border-slate-700 hover:bg-slate-700/30">
+                      <TableCell>
+                        <p className="text-slate-200">{user.name}</p>
+                        <p className="text-xs text-slate-400">{user.email}</p>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className={`capitalize ${getRoleColor(user.role)}`}>
+                          {user.role}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {user.disabled ? (
+                            <Badge variant="outline" className="border-red-500/30 text-red-400">Disabled</Badge>
+                          ) : (
+                            <Badge variant="outline" className="border-slate-600 text-slate-300">Active</Badge>
+                          )}
+                          {user.passwordResetRequired && (
+                            <Badge variant="outline" className="border-amber-500/30 text-amber-400">Reset required</Badge>
+                          )}
+                          {!user.emailVerified && (
+                            <Badge variant="outline" className="border-slate-600 text-slate-400">Unverified</Badge>
+                          )}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-slate-400 hidden md:table-cell">{formatDate(user.lastSeenAt)}</TableCell>
+                      <TableCell className="text-slate-400 hidden md:table-cell">{formatDate(user.createdAt)}</TableCell>
+                      <TableCell className="text-right">
+                        {user.id !== currentUser?.id && (
+                          <DropdownMenu>
+                            <DropdownMenuTrigger asChild>
+                              <Button variant="ghost" size="icon" className="text-slate-400 hover:text-slate-100">
+                                <MoreHorizontal className="h-4 w-4" />
+                              </Button>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent align="end" className="bg-slate-800 border-slate-700">
+                              {ROLES.filter((r) => r !== user.role).map((r) => (
+                                <DropdownMenuItem
+                                  key={r}
+                                  onClick={() => setPending({ kind: 'role', user, role: r })}
+                                  className="text-slate-200 focus:bg-slate-700 cursor-pointer"
+                                >
+                                  <UserCog className="h-4 w-4 mr-2" />
+                                  Make {r}
+                                </DropdownMenuItem>
+                              ))}
+                              <DropdownMenuSeparator className="bg-slate-700" />
+                              <DropdownMenuItem
+                                onClick={() => setPending({ kind: user.disabled ? 'enable' : 'disable', user })}
+                                className="text-slate-200 focus:bg-slate-700 cursor-pointer"
+                              >
+                                {user.disabled ? (
+                                  <CircleCheck className="h-4 w-4 mr-2" />
+                                ) : (
+                                  <Ban className="h-4 w-4 mr-2" />
+                                )}
+                                {user.disabled ? 'Enable' : 'Disable'}
+                              </DropdownMenuItem>
+                              <DropdownMenuItem
+                                onClick={() => setPending({ kind: 'reset', user })}
+                                className="text-slate-200 focus:bg-slate-700 cursor-pointer"
+                              >
+                                <KeyRound className="h-4 w-4 mr-2" />
+                                Force password reset
+                              </DropdownMenuItem>
+                              <DropdownMenuItem
+                                onClick={() => setPending({ kind: 'delete', user })}
+                                className="text-red-400 focus:text-red-400 focus:bg-red-500/10 cursor-pointer"
+                              >
+                                <Trash2 className="h-4 w-4 mr-2" />
+                                Delete
+                              </DropdownMenuItem>
+                            </DropdownMenuContent>
+                          </DropdownMenu>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+
+          {/* Pagination */}
+          {totalPages > 1 && (
+            <div className="flex items-center justify-between px-6 py-4 border-t border-slate-700">
+              <p className="text-sm text-slate-400">
+                Showing {((page - 1) * PAGE_SIZE) + 1} to {Math.min(page * PAGE_SIZE, total)} of {total} users
+              </p>
+              <div className="flex items-center gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPage(p => Math.max(1, p - 1))}
+                  disabled={page === 1}
+                  className="border-slate-600 text-slate-300 hover:bg-slate-700 disabled:opacity-50"
+                >
+                  <ChevronLeft className="h-4 w-4" />
+                </Button>
+                <span className="text-sm text-slate-400">
+                  Page {page} of {totalPages}
+                </span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPage(p => Math.min(totalPages, p + 1))}
+                  disabled={page === totalPages}
+                  className="border-slate-600 text-slate-300 hover:bg-slate-700 disabled:opacity-50"
+                >
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          )}
+        </Card>
+      </div>
+
+      {/* Confirm Dialog */}
+      <Dialog open={pending !== null} onOpenChange={(open) => { if (!open) setPending(null); }}>
+        <DialogContent className="bg-slate-800 border-slate-700">
+          <DialogHeader>
+            <DialogTitle className="text-slate-100">{pendingText?.title}</DialogTitle>
+            <DialogDescription className="text-slate-400">
+              {pendingText?.description}
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setPending(null)}
+              className="border-slate-600 text-slate-300 hover:bg-slate-700"
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={runPendingAction}
+              disabled={working}
+              className={pending?.kind === 'delete' || pending?.kind === 'disable'
+                ? 'bg-red-600 hover:bg-red-700 text-white'
+                : 'bg-violet-600 hover:bg-violet-700 text-white'}
+            >
+              {working ? 'Working...' : pendingText?.confirm}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { QuizService } from '@/lib/services/quiz-service';
+import { requireAuth } from '@/lib/auth-utils';
+import { LeaderboardVisibility } from '@/lib/leaderboard-privacy';
+
+/**
+ * GET /api/account/leaderboard-privacy
+ * The current user's leaderboard visibility (shown, pseudonym, hidden) and pseudonym
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = requireAuth(request);
+
+    const privacy = await QuizService.getLeaderboardPrivacy(user.userId);
+
+    return NextResponse.json(
+      {
+        success: true,
+        ...privacy,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to get leaderboard privacy';
+    let status = 400;
+    if (errorMessage.includes('authenticated')) {
+      status = 401;
+    } else if (errorMessage.includes('not found')) {
+      status = 404;
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        message: errorMessage,
+      },
+      { status }
+    );
+  }
+}
+
+/**
+ * PUT /api/account/leaderboard-privacy
+ * Change how the current user appears on leaderboards
+ * A course's leaderboard policy can still require more privacy
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const user = requireAuth(request);
+    const body = await request.json() as { visibility?: LeaderboardVisibility };
+
+    const privacy = await QuizService.updateLeaderboardVisibility(
+      user.userId,
+      body.visibility as LeaderboardVisibility
+    );
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: 'Leaderboard privacy updated',
+        ...privacy,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to update leaderboard privacy';
+    let status = 400;
+    if (errorMessage.includes('authenticated')) {
+      status = 401;
+    } else if (errorMessage.includes('not found')) {
+      status = 404;
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        message: errorMessage,
+      },
+      { status }
+    );
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SessionService } from '@/lib/services/session-service';
+import { requireAuth, clearAuthCookies } from '@/lib/auth-utils';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * DELETE /api/account/sessions/[id]
+ * Revoke one of the current user's sessions
+ */
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  try {
+    const user = requireAuth(request);
+    const { id } = await context.params;
+
+    await SessionService.revokeSession(user.userId, id);
+
+    const response = NextResponse.json(
+      {
+        success: true,
+        message: 'Session revoked',
+      },
+      { status: 200 }
+    );
+
+    // Revoking the current session is a logout
+    if (id === user.sessionId) {
+      clearAuthCookies(response);
+    }
+
+    return response;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to revoke session';
+    const status = errorMessage.includes('not found') ? 404 : 400;
+
+    return NextResponse.json(
+      {
+        success: false,
+        message: errorMessage,
+      },
+      { status }
+    );
+  }
+}
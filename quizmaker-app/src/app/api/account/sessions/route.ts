@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SessionService } from '@/lib/services/session-service';
+import { requireAuth, clearAuthCookies } from '@/lib/auth-utils';
+
+/**
+ * GET /api/account/sessions
+ * List the current user's active sessions (device, IP, last seen)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = requireAuth(request);
+
+    const sessions = await SessionService.listSessions(user.userId, user.sessionId);
+
+    return NextResponse.json(
+      {
+        success: true,
+        sessions,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to list sessions';
+
+    return NextResponse.json(
+      {
+        success: false,
+        message: errorMessage,
+      },
+      { status: 400 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/account/sessions
+ * Log out everywhere. With ?keepCurrent=true the requesting session stays signed in
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const user = requireAuth(request);
+    const keepCurrent = request.nextUrl.searchParams.get('keepCurrent') === 'true';
+
+    const revokedCount = await SessionService.revokeAllSessions(
+      user.userId,
+      keepCurrent ? user.sessionId : undefined
+    );
+
+    const response = NextResponse.json(
+      {
+        success: true,
+        message: keepCurrent ? 'Signed out of all other sessions' : 'Signed out of all sessions',
+        revokedCount,
+      },
+      { status: 200 }
+    );
+
+    if (!keepCurrent) {
+      clearAuthCookies(response);
+    }
+
+    return response;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to revoke sessions';
+
+    return NextResponse.json(
+      {
+        success: false,
+        message: errorMessage,
+      },
+      { status: 400 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthService } from '@/lib/services/auth-service';
+import { getAppUrl, requireAuth } from '@/lib/auth-utils';
+import { RateLimitError } from '@/lib/rate-limit';
+
+/**
+ * POST /api/account/verification
+ * Send the current user another email verification link
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = requireAuth(request);
+
+    await AuthService.sendVerificationEmail(user.userId, getAppUrl(request));
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: 'Verification email sent',
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    if (error instanceof RateLimitError) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: error.message,
+          retryAfter: error.retryAfterSeconds,
+        },
+        { status: 429, headers: { 'Retry-After': String(error.retryAfterSeconds) } }
+      );
+    }
+
+    const errorMessage = error instanceof Error ? error.message : 'Failed to send verification email';
+
+    return NextResponse.json(
+      {
+        success: false,
+        message: errorMessage,
+      },
+      { status: 400 }
+    );
+  }
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DataExplorerService } from '@/lib/services/data-explorer-service';
+import { requireRole, getClientContext } from '@/lib/auth-utils';
+
+interface RouteContext {
+  params: Promise<{ table: string }>;
+}
+
+// Query params that are not column filters
+const RESERVED_PARAMS = ['cursor', 'limit', 'from', 'to'];
+
+/**
+ * GET /api/admin/data/[table]
+ * Read a page of rows from one table, allowlisted columns only (admin only, audited)
+ * Query params:
+ *   - cursor: nextCursor from the previous page
+ *   - limit: number (default 50, max 200)
+ *   - from, to: date range on the table's date column (to is exclusive)
+ *   - any other param filters a column by equality, e.g. ?role=student
+ */
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const admin = requireRole(request, 'admin');
+    const { table } = await context.params;
+
+    const searchParams = request.nextUrl.searchParams;
+    const filters: Record<string, string> = {};
+    searchParams.forEach((value, key) => {
+      if (!RESERVED_PARAMS.includes(key)) {
+        filters[key] = value;
+      }
+    });
+
+    const page = await DataExplorerService.queryTable(
+      { userId: admin.userId, ipAddress: getClientContext(request).ipAddress },
+      table,
+      {
+        cursor: searchParams.get('cursor'),
+        limit: parseInt(searchParams.get('limit') || '50', 10),
+        filters,
+        from: searchParams.get('from'),
+        to: searchParams.get('to'),
+      }
+    );
+
+    return NextResponse.json(
+      {
+        success: true,
+        ...page,
+        count: page.data.length,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to read table';
+    let status = 400;
+    if (errorMessage.includes('Access denied')) {
+      status = 403;
+    } else if (errorMessage.includes('not found')) {
+      status = 404;
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        message: errorMessage,
+      },
+      { status }
+    );
+  }
+}
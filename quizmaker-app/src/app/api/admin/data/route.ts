@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DataExplorerService } from '@/lib/services/data-explorer-service';
+import { requireRole, getClientContext } from '@/lib/auth-utils';
+
+/**
+ * GET /api/admin/data
+ * List the tables available in the data explorer with their columns, filters
+ * and row counts (admin only, audited)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const admin = requireRole(request, 'admin');
+
+    const tables = await DataExplorerService.listTables({
+      userId: admin.userId,
+      ipAddress: getClientContext(request).ipAddress,
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        tables,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to list tables';
+    const status = errorMessage.includes('Access denied') ? 403 : 400;
+
+    return NextResponse.json(
+      {
+        success: false,
+        message: errorMessage,
+      },
+      { status }
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ScoringService } from '@/lib/services/scoring-service';
+import { requireRole } from '@/lib/auth-utils';
+
+/**
+ * POST /api/admin/scoring/recompute
+ * Renumber every attempt and recompute its awarded score under the current
+ * policy (admin only), e.g. after attempts were imported outside the app
+ */
+export async function POST(request: NextRequest) {
+  try {
+    requireRole(request, 'admin');
+
+    const result = await ScoringService.recompute();
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: `Recomputed ${result.updated} attempts`,
+        ...result,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to recompute scores';
+    const status = errorMessage.includes('Access denied') ? 403 : 400;
+
+    return NextResponse.json(
+      {
+        success: false,
+        message: errorMessage,
+      },
+      { status }
+    );
+  }
+}
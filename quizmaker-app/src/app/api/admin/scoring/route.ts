@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ScoringService, ScoringPolicy } from '@/lib/services/scoring-service';
+import { requireRole, getClientContext } from '@/lib/auth-utils';
+
+/**
+ * GET /api/admin/scoring
+ * Get the scoring policy for repeated answers (admin only)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    requireRole(request, 'admin');
+
+    const settings = await ScoringService.getSettings();
+
+    return NextResponse.json(
+      {
+        success: true,
+        ...settings,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to get scoring policy';
+    const status = errorMessage.includes('Access denied') ? 403 : 400;
+
+    return NextResponse.json(
+      {
+        success: false,
+        message: errorMessage,
+      },
+      { status }
+    );
+  }
+}
+
+/**
+ * PUT /api/admin/scoring
+ * Change the scoring policy and recompute every attempt's awarded score (admin only)
+ * Body:
+ *   - policy: 'every_attempt' | 'first_attempt' | 'best_attempt' | 'diminishing'
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const admin = requireRole(request, 'admin');
+    const body = await request.json() as { policy?: ScoringPolicy };
+
+    const settings = await ScoringService.updatePolicy(
+      admin.userId,
+      body.policy as ScoringPolicy,
+      getClientContext(request)
+    );
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: 'Scoring policy updated and scores recomputed',
+        ...settings,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to update scoring policy';
+    const status = errorMessage.includes('Access denied') ? 403 : 400;
+
+    return NextResponse.json(
+      {
+        success: false,
+        message: errorMessage,
+      },
+      { status }
+    );
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AdminUserService } from '@/lib/services/admin-user-service';
+import { requireRole, getAppUrl, getClientContext } from '@/lib/auth-utils';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * POST /api/admin/users/[id]/password-reset
+ * Force a user to reset their password (admin only)
+ * Signs the user out everywhere and emails them a reset link
+ */
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const admin = requireRole(request, 'admin');
+    const { id } = await context.params;
+
+    const user = await AdminUserService.forcePasswordReset(
+      admin.userId,
+      id,
+      getAppUrl(request),
+      getClientContext(request)
+    );
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: 'Password reset required. A reset link has been emailed to the user.',
+        user,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to force password reset';
+    let status = 400;
+    if (errorMessage.includes('Access denied')) {
+      status = 403;
+    } else if (errorMessage.includes('not found')) {
+      status = 404;
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        message: errorMessage,
+      },
+      { status }
+    );
+  }
+}
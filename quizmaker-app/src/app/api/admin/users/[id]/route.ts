@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AdminUserService } from '@/lib/services/admin-user-service';
+import { requireRole, getClientContext } from '@/lib/auth-utils';
+import { UserRole } from '@/lib/roles';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+interface UpdateUserBody {
+  role?: UserRole;
+  disabled?: boolean;
+}
+
+/**
+ * Map a service error to an HTTP status
+ */
+function getErrorStatus(errorMessage: string): number {
+  if (errorMessage.includes('Access denied')) {
+    return 403;
+  }
+  if (errorMessage.includes('not found')) {
+    return 404;
+  }
+  return 400;
+}
+
+/**
+ * GET /api/admin/users/[id]
+ * Get one user (admin only)
+ */
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    requireRole(request, 'admin');
+    const { id } = await context.params;
+
+    const user = await AdminUserService.getUser(id);
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        user,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to get user';
+
+    return NextResponse.json(
+      {
+        success: false,
+        message: errorMessage,
+      },
+      { status: getErrorStatus(errorMessage) }
+    );
+  }
+}
+
+/**
+ * PATCH /api/admin/users/[id]
+ * Change a user's role and/or disable or re-enable the account (admin only)
+ * Body:
+ *   - role?: 'student' | 'instructor' | 'admin'
+ *   - disabled?: boolean
+ */
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  try {
+    const admin = requireRole(request, 'admin');
+    const { id } = await context.params;
+    const body = await request.json() as UpdateUserBody;
+
+    if (body.role === undefined && body.disabled === undefined) {
+      throw new Error('Nothing to update');
+    }
+
+    let user = body.role !== undefined
+      ? await AdminUserService.changeRole(admin.userId, id, body.role, getClientContext(request))
+      : null;
+    if (body.disabled !== undefined) {
+      user = await AdminUserService.setDisabled(admin.userId, id, body.disabled, getClientContext(request));
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: 'User updated',
+        user,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to update user';
+
+    return NextResponse.json(
+      {
+        success: false,
+        message: errorMessage,
+      },
+      { status: getErrorStatus(errorMessage) }
+    );
+  }
+}
+
+/**
+ * DELETE /api/admin/users/[id]
+ * Permanently delete a user and their content (admin only)
+ */
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  try {
+    const admin = requireRole(request, 'admin');
+    const { id } = await context.params;
+
+    await AdminUserService.deleteUser(admin.userId, id, getClientContext(request));
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: 'User deleted',
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to delete user';
+
+    return NextResponse.json(
+      {
+        success: false,
+        message: errorMessage,
+      },
+      { status: getErrorStatus(errorMessage) }
+    );
+  }
+}
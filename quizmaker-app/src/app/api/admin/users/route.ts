@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AdminUserService, UserStatus } from '@/lib/services/admin-user-service';
+import { requireRole } from '@/lib/auth-utils';
+import { UserRole } from '@/lib/roles';
+
+/**
+ * GET /api/admin/users
+ * List and search users (admin only, paginated)
+ * Query params:
+ *   - search: string (name or email)
+ *   - role: 'student' | 'instructor' | 'admin'
+ *   - status: 'active' | 'disabled'
+ *   - page: number (default 1)
+ *   - limit: number (default 20, max 100)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    requireRole(request, 'admin');
+
+    const searchParams = request.nextUrl.searchParams;
+    const result = await AdminUserService.listUsers({
+      search: searchParams.get('search') || undefined,
+      role: (searchParams.get('role') || undefined) as UserRole | undefined,
+      status: (searchParams.get('status') || undefined) as UserStatus | undefined,
+      page: parseInt(searchParams.get('page') || '1', 10),
+      limit: parseInt(searchParams.get('limit') || '20', 10),
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        ...result,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to list users';
+    const status = errorMessage.includes('Access denied') ? 403 : 400;
+
+    return NextResponse.json(
+      {
+        success: false,
+        message: errorMessage,
+      },
+      { status }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AuditService } from '@/lib/services/audit-service';
+import { requireRole } from '@/lib/auth-utils';
+
+/**
+ * GET /api/audit-events
+ * List audit events, newest first (instructor or admin, paginated)
+ * Instructors see events on resources they own; admins see every event
+ * Query params:
+ *   - action: exact action ('question.update') or group ('question')
+ *   - actorId, targetType, targetId: string
+ *   - from, to: date range (to is exclusive)
+ *   - page: number (default 1)
+ *   - limit: number (default 50, max 100)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = requireRole(request, 'instructor');
+
+    const searchParams = request.nextUrl.searchParams;
+    const result = await AuditService.listEvents(
+      { userId: user.userId, role: user.role },
+      {
+        action: searchParams.get('action') || undefined,
+        actorId: searchParams.get('actorId') || undefined,
+        targetType: searchParams.get('targetType') || undefined,
+        targetId: searchParams.get('targetId') || undefined,
+        from: searchParams.get('from') || undefined,
+        to: searchParams.get('to') || undefined,
+        page: parseInt(searchParams.get('page') || '1', 10),
+        limit: parseInt(searchParams.get('limit') || '50', 10),
+      }
+    );
+
+    return NextResponse.json(
+      {
+        success: true,
+        ...result,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to list audit events';
+    const status = errorMessage.includes('permission') || errorMessage.includes('role') ? 403 : 400;
+
+    return NextResponse.json(
+      {
+        success: false,
+        message: errorMessage,
+      },
+      { status }
+    );
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthService } from '@/lib/services/auth-service';
+import { getAppUrl, getClientContext } from '@/lib/auth-utils';
+import { RateLimitError } from '@/lib/rate-limit';
+
+interface ForgotPasswordBody {
+  email: string;
+}
+
+/**
+ * POST /api/auth/forgot-password
+ * Email a password reset link (public)
+ * Body:
+ *   - email: string
+ * Responds the same way whether or not the email has an account; requests are
+ * rate limited per email address and per IP address
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json() as ForgotPasswordBody;
+
+    await AuthService.requestPasswordReset(body.email, getAppUrl(request), getClientContext(request));
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: 'If an account exists for that email, a reset link has been sent',
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    if (error instanceof RateLimitError) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: error.message,
+          retryAfter: error.retryAfterSeconds,
+        },
+        { status: 429, headers: { 'Retry-After': String(error.retryAfterSeconds) } }
+      );
+    }
+
+    const errorMessage = error instanceof Error ? error.message : 'Failed to request password reset';
+
+    return NextResponse.json(
+      {
+        success: false,
+        message: errorMessage,
+      },
+      { status: 400 }
+    );
+  }
+}
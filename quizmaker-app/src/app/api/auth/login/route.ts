@@ -1,12 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { AuthService } from '@/lib/services/auth-service';
+import { getClientContext, setAuthCookies } from '@/lib/auth-utils';
+import { RateLimitError } from '@/lib/rate-limit';
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
     const { email, password } = body;
 
-    const result = await AuthService.login({ email, password });
+    const result = await AuthService.login({ email, password }, getClientContext(request));
 
     // Set token as HTTP-only cookie
     const response = NextResponse.json(
@@ -19,19 +21,29 @@ export async function POST(request: NextRequest) {
       { status: 200 }
     );
 
-    // Set cookie with JWT token (HTTP-only for security)
-    response.cookies.set('auth_token', result.token, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'lax',
-      maxAge: 60 * 60 * 24, // 24 hours
-      path: '/',
-    });
+    // Set access and refresh token cookies (HTTP-only for security)
+    setAuthCookies(response, { accessToken: result.token, refreshToken: result.refreshToken });
 
     return response;
   } catch (error) {
+    if (error instanceof RateLimitError) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: error.message,
+          retryAfter: error.retryAfterSeconds,
+        },
+        { status: 429, headers: { 'Retry-After': String(error.retryAfterSeconds) } }
+      );
+    }
+
     const errorMessage = error instanceof Error ? error.message : 'Login failed';
-    const status = errorMessage.includes('Invalid') ? 401 : 400;
+    let status = 400;
+    if (errorMessage.includes('Invalid')) {
+      status = 401;
+    } else if (errorMessage.includes('disabled') || errorMessage.includes('reset is required')) {
+      status = 403;
+    }
     
     return NextResponse.json(
       {
@@ -1,6 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { AuthService } from '@/lib/services/auth-service';
+import { ACCESS_TOKEN_COOKIE, REFRESH_TOKEN_COOKIE, clearAuthCookies, getClientContext } from '@/lib/auth-utils';
 
 export async function POST(request: NextRequest) {
+  // Revoke the server-side session so the token stops working even if it was copied
+  await AuthService.logout(
+    request.cookies.get(ACCESS_TOKEN_COOKIE)?.value,
+    request.cookies.get(REFRESH_TOKEN_COOKIE)?.value,
+    getClientContext(request)
+  );
+
   const response = NextResponse.json(
     {
       success: true,
@@ -9,9 +18,8 @@ export async function POST(request: NextRequest) {
     { status: 200 }
   );
 
-  // Clear the auth token cookie
-  response.cookies.delete('auth_token');
+  // Clear the auth token cookies
+  clearAuthCookies(response);
 
   return response;
 }
-
@@ -1,11 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { AuthService } from '@/lib/services/auth-service';
+import {
+  ACCESS_TOKEN_COOKIE,
+  REFRESH_TOKEN_COOKIE,
+  getClientContext,
+  setAuthCookies,
+} from '@/lib/auth-utils';
 
 export async function GET(request: NextRequest) {
   try {
-    const token = request.cookies.get('auth_token')?.value;
+    const token = request.cookies.get(ACCESS_TOKEN_COOKIE)?.value;
+    const refreshToken = request.cookies.get(REFRESH_TOKEN_COOKIE)?.value;
 
-    if (!token) {
+    if (!token && !refreshToken) {
       return NextResponse.json(
         {
           success: false,
@@ -15,7 +22,12 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    const decoded = await AuthService.verifyToken(token);
+    // Auth routes bypass the middleware, so renew an expired access token here
+    const { payload: decoded, tokens } = await AuthService.authenticate(
+      token,
+      refreshToken,
+      getClientContext(request)
+    );
     const user = await AuthService.getUserById(decoded.userId);
 
     if (!user) {
@@ -28,13 +40,21 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    return NextResponse.json(
+    const response = NextResponse.json(
       {
         success: true,
         user,
+        // False while verification emails cannot be delivered
+        emailVerificationRequired: AuthService.isEmailVerificationRequired(),
       },
       { status: 200 }
     );
+
+    if (tokens) {
+      setAuthCookies(response, tokens);
+    }
+
+    return response;
   } catch (error) {
     return NextResponse.json(
       {
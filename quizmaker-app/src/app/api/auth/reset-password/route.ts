@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthService, ResetPasswordInput } from '@/lib/services/auth-service';
+import { clearAuthCookies, getClientContext } from '@/lib/auth-utils';
+
+/**
+ * POST /api/auth/reset-password
+ * Set a new password with a token from a reset email (public)
+ * Body:
+ *   - token: string
+ *   - password: string (at least 8 characters)
+ * Signs the user out of every existing session
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json() as ResetPasswordInput;
+    const { token, password } = body;
+
+    await AuthService.resetPassword({ token, password }, getClientContext(request));
+
+    const response = NextResponse.json(
+      {
+        success: true,
+        message: 'Password has been reset. Please log in with your new password.',
+      },
+      { status: 200 }
+    );
+
+    // The old session on this browser is no longer valid
+    clearAuthCookies(response);
+
+    return response;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to reset password';
+
+    return NextResponse.json(
+      {
+        success: false,
+        message: errorMessage,
+      },
+      { status: 400 }
+    );
+  }
+}
@@ -1,22 +1,25 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { AuthService } from '@/lib/services/auth-service';
+import { getAppUrl, getClientContext } from '@/lib/auth-utils';
+import { RateLimitError } from '@/lib/rate-limit';
 
 interface SignupBody {
   name: string;
   email: string;
   password: string;
-  role: 'student' | 'instructor';
+  // Instructor accounts need a single-use invite code; any requested role is ignored
+  inviteCode?: string;
 }
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json() as SignupBody;
-    const { name, email, password, role } = body;
+    const { name, email, password, inviteCode } = body;
 
     console.log('📝 Signup request received:', { 
       name, 
       email, 
-      role,
+      hasInviteCode: !!inviteCode,
       hasPassword: !!password 
     });
 
@@ -24,20 +27,60 @@ export async function POST(request: NextRequest) {
       name,
       email,
       password,
-      role,
-    });
+      inviteCode,
+    }, getClientContext(request));
+
+    console.log('✅ User registered successfully:', result.userId, result.role);
 
-    console.log('✅ User registered successfully:', result.userId);
+    if (!AuthService.isEmailVerificationRequired()) {
+      return NextResponse.json(
+        {
+          success: true,
+          message: 'User created successfully',
+          userId: result.userId,
+          role: result.role,
+        },
+        { status: 201 }
+      );
+    }
+
+    try {
+      await AuthService.sendVerificationEmail(result.userId, getAppUrl(request));
+    } catch (error) {
+      // The account exists, so report the failure without hiding it behind a success
+      console.error('❌ Failed to send verification email:', error);
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Your account was created, but the verification email could not be sent. Log in to request a new link.',
+          userId: result.userId,
+          role: result.role,
+        },
+        { status: 502 }
+      );
+    }
 
     return NextResponse.json(
       {
         success: true,
-        message: 'User created successfully',
+        message: 'User created successfully. Check your email to verify your address.',
         userId: result.userId,
+        role: result.role,
       },
       { status: 201 }
     );
   } catch (error) {
+    if (error instanceof RateLimitError) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: error.message,
+          retryAfter: error.retryAfterSeconds,
+        },
+        { status: 429, headers: { 'Retry-After': String(error.retryAfterSeconds) } }
+      );
+    }
+
     const errorMessage = error instanceof Error ? error.message : 'Failed to create user';
     const errorStack = error instanceof Error ? error.stack : undefined;
     
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthService } from '@/lib/services/auth-service';
+
+interface VerifyEmailBody {
+  token: string;
+}
+
+/**
+ * POST /api/auth/verify-email
+ * Confirm an email address with the token from a verification link (public)
+ * Body:
+ *   - token: string
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json() as VerifyEmailBody;
+
+    await AuthService.verifyEmail(body.token);
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: 'Your email address has been verified',
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to verify email address';
+
+    return NextResponse.json(
+      {
+        success: false,
+        message: errorMessage,
+      },
+      { status: 400 }
+    );
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CourseService } from '@/lib/services/course-service';
+import { requireRole } from '@/lib/auth-utils';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * DELETE /api/courses/[id]/enrollment
+ * Leave a course (student); past attempts are kept
+ */
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  try {
+    const user = requireRole(request, 'student');
+    const { id } = await context.params;
+
+    await CourseService.leaveCourse(id, user.userId);
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: 'You left the course',
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to leave course';
+    let status = 400;
+    if (errorMessage.includes('role')) {
+      status = 403;
+    } else if (errorMessage.includes('not found')) {
+      status = 404;
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        message: errorMessage,
+      },
+      { status }
+    );
+  }
+}
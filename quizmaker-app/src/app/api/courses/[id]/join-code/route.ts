@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CourseService } from '@/lib/services/course-service';
+import { requireRole } from '@/lib/auth-utils';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * POST /api/courses/[id]/join-code
+ * Replace the course's join code; the old code stops working (instructor only)
+ */
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const user = requireRole(request, 'instructor');
+    const { id } = await context.params;
+
+    const course = await CourseService.regenerateJoinCode(id, user.userId);
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: 'Join code regenerated',
+        course,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to regenerate join code';
+    let status = 400;
+    if (errorMessage.includes('permission') || errorMessage.includes('role')) {
+      status = 403;
+    } else if (errorMessage.includes('not found')) {
+      status = 404;
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        message: errorMessage,
+      },
+      { status }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CourseService } from '@/lib/services/course-service';
+import { requireRole } from '@/lib/auth-utils';
+
+interface RouteContext {
+  params: Promise<{ id: string; questionId: string }>;
+}
+
+/**
+ * DELETE /api/courses/[id]/questions/[questionId]
+ * Remove a question from a course's pool (instructor only)
+ * The question itself is kept
+ */
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  try {
+    const user = requireRole(request, 'instructor');
+    const { id, questionId } = await context.params;
+
+    await CourseService.removeQuestion(id, user.userId, questionId);
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: 'Question removed from the course',
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to remove question';
+    let status = 400;
+    if (errorMessage.includes('permission') || errorMessage.includes('role')) {
+      status = 403;
+    } else if (errorMessage.includes('not found')) {
+      status = 404;
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        message: errorMessage,
+      },
+      { status }
+    );
+  }
+}
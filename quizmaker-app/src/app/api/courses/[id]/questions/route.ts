@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CourseService } from '@/lib/services/course-service';
+import { requireRole } from '@/lib/auth-utils';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * POST /api/courses/[id]/questions
+ * Add questions to a course's pool (instructor only)
+ * Request body:
+ *   - questionIds: string[] - the instructor's questions; ones already in the pool are skipped
+ *
+ * The pool itself is listed with GET /api/questions?courseId=...
+ */
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const user = requireRole(request, 'instructor');
+    const { id } = await context.params;
+    const body = await request.json() as { questionIds?: string[] };
+
+    const result = await CourseService.addQuestions(id, user.userId, body.questionIds ?? []);
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: `Added ${result.added} ${result.added === 1 ? 'question' : 'questions'} to the course`,
+        ...result,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to add questions';
+    let status = 400;
+    if (errorMessage.includes('permission') || errorMessage.includes('role')) {
+      status = 403;
+    } else if (errorMessage.includes('not found')) {
+      status = 404;
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        message: errorMessage,
+      },
+      { status }
+    );
+  }
+}
@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CourseService, UpdateCourseInput } from '@/lib/services/course-service';
+import { requireAuth, requireRole } from '@/lib/auth-utils';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/courses/[id]
+ * Get a course the user teaches or is enrolled in
+ * The join code is only included for the course's instructor
+ */
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const user = requireAuth(request);
+    const { id } = await context.params;
+
+    const course = await CourseService.getCourse(id, user.userId, user.role);
+
+    return NextResponse.json(
+      {
+        success: true,
+        course,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to get course';
+    let status = 400;
+    if (errorMessage.includes('authenticated')) {
+      status = 401;
+    } else if (errorMessage.includes('permission')) {
+      status = 403;
+    } else if (errorMessage.includes('not found')) {
+      status = 404;
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        message: errorMessage,
+      },
+      { status }
+    );
+  }
+}
+
+/**
+ * PUT /api/courses/[id]
+ * Update a course's name, description or leaderboard policy (instructor only)
+ */
+export async function PUT(request: NextRequest, context: RouteContext) {
+  try {
+    const user = requireRole(request, 'instructor');
+    const { id } = await context.params;
+    const body = await request.json() as UpdateCourseInput;
+
+    const course = await CourseService.updateCourse(id, user.userId, {
+      name: body.name,
+      description: body.description,
+      leaderboardPolicy: body.leaderboardPolicy,
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: 'Course updated successfully',
+        course,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to update course';
+    let status = 400;
+    if (errorMessage.includes('permission') || errorMessage.includes('role')) {
+      status = 403;
+    } else if (errorMessage.includes('not found')) {
+      status = 404;
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        message: errorMessage,
+      },
+      { status }
+    );
+  }
+}
+
+/**
+ * DELETE /api/courses/[id]
+ * Delete a course (instructor only)
+ * Its questions, quizzes and attempts are kept
+ */
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  try {
+    const user = requireRole(request, 'instructor');
+    const { id } = await context.params;
+
+    const result = await CourseService.deleteCourse(id, user.userId);
+
+    return NextResponse.json(
+      {
+        success: true,
+        ...result,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to delete course';
+    let status = 400;
+    if (errorMessage.includes('permission') || errorMessage.includes('role')) {
+      status = 403;
+    } else if (errorMessage.includes('not found')) {
+      status = 404;
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        message: errorMessage,
+      },
+      { status }
+    );
+  }
+}
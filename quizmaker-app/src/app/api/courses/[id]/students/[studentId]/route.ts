@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CourseService } from '@/lib/services/course-service';
+import { requireRole } from '@/lib/auth-utils';
+
+interface RouteContext {
+  params: Promise<{ id: string; studentId: string }>;
+}
+
+/**
+ * DELETE /api/courses/[id]/students/[studentId]
+ * Remove a student from a course (instructor only); their attempts are kept
+ */
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  try {
+    const user = requireRole(request, 'instructor');
+    const { id, studentId } = await context.params;
+
+    await CourseService.removeStudent(id, user.userId, studentId);
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: 'Student removed from the course',
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to remove student';
+    let status = 400;
+    if (errorMessage.includes('permission') || errorMessage.includes('role')) {
+      status = 403;
+    } else if (errorMessage.includes('not found')) {
+      status = 404;
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        message: errorMessage,
+      },
+      { status }
+    );
+  }
+}
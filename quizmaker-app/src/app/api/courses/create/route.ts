@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CourseService, CreateCourseInput } from '@/lib/services/course-service';
+import { requireRole } from '@/lib/auth-utils';
+
+/**
+ * POST /api/courses/create
+ * Create a course with a fresh join code (instructor only)
+ * Request body:
+ *   - name: string (3-100 characters)
+ *   - description: string (optional)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = requireRole(request, 'instructor');
+    const body = await request.json() as CreateCourseInput;
+
+    const course = await CourseService.createCourse(user.userId, {
+      name: body.name,
+      description: body.description,
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: 'Course created successfully',
+        course,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to create course';
+    const status = errorMessage.includes('permission') || errorMessage.includes('role') ? 403 : 400;
+
+    return NextResponse.json(
+      {
+        success: false,
+        message: errorMessage,
+      },
+      { status }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CourseService } from '@/lib/services/course-service';
+import { requireRole } from '@/lib/auth-utils';
+import { RateLimitError } from '@/lib/rate-limit';
+
+/**
+ * POST /api/courses/join
+ * Enroll the student in the course with the given join code
+ * Request body:
+ *   - joinCode: string (case, spaces and dashes are ignored)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = requireRole(request, 'student');
+    const body = await request.json() as { joinCode?: string };
+
+    const course = await CourseService.joinCourse(user.userId, body.joinCode ?? '');
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: `Joined ${course.name}`,
+        course,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    if (error instanceof RateLimitError) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: error.message,
+          retryAfter: error.retryAfterSeconds,
+        },
+        { status: 429, headers: { 'Retry-After': String(error.retryAfterSeconds) } }
+      );
+    }
+
+    const errorMessage = error instanceof Error ? error.message : 'Failed to join course';
+    const status = errorMessage.includes('role') ? 403 : 400;
+
+    return NextResponse.json(
+      {
+        success: false,
+        message: errorMessage,
+      },
+      { status }
+    );
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CourseService } from '@/lib/services/course-service';
+import { requireAuth } from '@/lib/auth-utils';
+
+/**
+ * GET /api/courses
+ * List the courses the user teaches (instructors), is enrolled in (students)
+ * or every course (admins)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = requireAuth(request);
+
+    const courses = await CourseService.listCourses(user.userId, user.role);
+
+    return NextResponse.json(
+      {
+        success: true,
+        courses,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to list courses';
+    const status = errorMessage.includes('authenticated') ? 401 : 400;
+
+    return NextResponse.json(
+      {
+        success: false,
+        message: errorMessage,
+      },
+      { status }
+    );
+  }
+}
@@ -41,7 +41,7 @@ export async function GET(request: NextRequest) {
         },
         environment: {
           runtime: 'cloudflare-workers',
-          hasJWT: !!process.env.JWT_SECRET,
+          hasJWT: !!(process.env.JWT_KEYS || process.env.JWT_SECRET),
         },
       },
       { status: 200 }
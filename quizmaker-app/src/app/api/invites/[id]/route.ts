@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { InviteService } from '@/lib/services/invite-service';
+import { requireRole } from '@/lib/auth-utils';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * DELETE /api/invites/[id]
+ * Revoke one of the authenticated instructor's unused invites
+ */
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  try {
+    const user = requireRole(request, 'instructor');
+    const { id } = await context.params;
+
+    await InviteService.revokeInvite(user.userId, id);
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: 'Invite revoked',
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to revoke invite';
+    let status = 400;
+    if (errorMessage.includes('permission') || errorMessage.includes('role')) {
+      status = 403;
+    } else if (errorMessage.includes('not found')) {
+      status = 404;
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        message: errorMessage,
+      },
+      { status }
+    );
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { InviteService } from '@/lib/services/invite-service';
+import { AuthService } from '@/lib/services/auth-service';
+import { requireAuth, getClientContext, setAuthCookies, REFRESH_TOKEN_COOKIE } from '@/lib/auth-utils';
+
+interface RedeemInviteBody {
+  code: string;
+}
+
+/**
+ * POST /api/invites/redeem
+ * Promote the current student account with an instructor invite code
+ * Body:
+ *   - code: string
+ * Responds with fresh auth cookies so the new role applies immediately
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = requireAuth(request);
+    const body = await request.json() as RedeemInviteBody;
+
+    const role = await InviteService.redeemInvite(user.userId, body.code, getClientContext(request));
+
+    const response = NextResponse.json(
+      {
+        success: true,
+        message: 'Invite redeemed. Your account now has the instructor role.',
+        role,
+      },
+      { status: 200 }
+    );
+
+    // Refreshing reads the user's current role into a new access token
+    const refreshToken = request.cookies.get(REFRESH_TOKEN_COOKIE)?.value;
+    if (refreshToken) {
+      try {
+        const { tokens } = await AuthService.refresh(refreshToken, getClientContext(request));
+        setAuthCookies(response, tokens);
+      } catch (error) {
+        console.error('⚠️ Failed to refresh tokens after redeeming invite:', error);
+      }
+    }
+
+    return response;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to redeem invite';
+    const status = errorMessage.includes('Only student') ? 403 : 400;
+
+    return NextResponse.json(
+      {
+        success: false,
+        message: errorMessage,
+      },
+      { status }
+    );
+  }
+}
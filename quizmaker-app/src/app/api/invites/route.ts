@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { InviteService, CreateInviteInput } from '@/lib/services/invite-service';
+import { requireRole } from '@/lib/auth-utils';
+
+/**
+ * GET /api/invites
+ * List the invites created by the authenticated instructor
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = requireRole(request, 'instructor');
+
+    const invites = await InviteService.listInvites(user.userId);
+
+    return NextResponse.json(
+      {
+        success: true,
+        invites,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to list invites';
+    const status = errorMessage.includes('permission') || errorMessage.includes('role') ? 403 : 400;
+
+    return NextResponse.json(
+      {
+        success: false,
+        message: errorMessage,
+      },
+      { status }
+    );
+  }
+}
+
+/**
+ * POST /api/invites
+ * Create a single-use instructor invite code
+ * Body:
+ *   - expiresInDays?: number (default 7, max 30)
+ * The code is only returned here; it cannot be retrieved later
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = requireRole(request, 'instructor');
+    const body = await request.json().catch(() => ({})) as CreateInviteInput;
+
+    const { invite, code } = await InviteService.createInvite(user.userId, {
+      expiresInDays: body.expiresInDays,
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: 'Invite created',
+        invite,
+        code,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to create invite';
+    const status = errorMessage.includes('permission') || errorMessage.includes('role') ? 403 : 400;
+
+    return NextResponse.json(
+      {
+        success: false,
+        message: errorMessage,
+      },
+      { status }
+    );
+  }
+}
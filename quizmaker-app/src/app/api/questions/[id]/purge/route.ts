@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { QuestionService } from '@/lib/services/question-service';
+import { requireRole, getClientContext } from '@/lib/auth-utils';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * DELETE /api/questions/[id]/purge
+ * Permanently delete a trashed question once its retention window has passed (instructor only)
+ */
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  try {
+    const user = requireRole(request, 'instructor');
+    const { id } = await context.params;
+
+    const result = await QuestionService.purgeQuestion(id, user.userId, getClientContext(request));
+
+    return NextResponse.json(
+      {
+        success: true,
+        ...result,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to purge question';
+    let status = 400;
+    if (errorMessage.includes('permission') || errorMessage.includes('role')) {
+      status = 403;
+    } else if (errorMessage.includes('not found')) {
+      status = 404;
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        message: errorMessage,
+      },
+      { status }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { QuestionService } from '@/lib/services/question-service';
+import { requireRole, getClientContext } from '@/lib/auth-utils';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * POST /api/questions/[id]/restore
+ * Restore a question from the trash (instructor only)
+ */
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const user = requireRole(request, 'instructor');
+    const { id } = await context.params;
+
+    const question = await QuestionService.restoreQuestion(id, user.userId, getClientContext(request));
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: 'Question restored successfully',
+        question,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to restore question';
+    let status = 400;
+    if (errorMessage.includes('permission') || errorMessage.includes('role')) {
+      status = 403;
+    } else if (errorMessage.includes('not found')) {
+      status = 404;
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        message: errorMessage,
+      },
+      { status }
+    );
+  }
+}
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { QuestionService } from '@/lib/services/question-service';
-import { requireRole } from '@/lib/auth-utils';
+import { QuestionService, UpdateQuestionInput } from '@/lib/services/question-service';
+import { requireRole, getClientContext } from '@/lib/auth-utils';
 
 interface RouteContext {
   params: Promise<{ id: string }>;
@@ -67,17 +67,35 @@ export async function PUT(request: NextRequest, context: RouteContext) {
   try {
     const user = requireRole(request, 'instructor');
     const { id } = await context.params;
-    const body = await request.json();
+    const body = await request.json() as UpdateQuestionInput;
 
-    const { questionText, category, difficulty, points, options } = body;
+    const {
+      questionType,
+      scoringMode,
+      questionText,
+      category,
+      difficulty,
+      points,
+      timeLimitSeconds,
+      options,
+      numericAnswer,
+      numericTolerance,
+      acceptedAnswers,
+    } = body;
 
     const question = await QuestionService.updateQuestion(id, user.userId, {
+      questionType,
+      scoringMode,
       questionText,
       category,
       difficulty,
       points,
+      timeLimitSeconds,
       options,
-    });
+      numericAnswer,
+      numericTolerance,
+      acceptedAnswers,
+    }, getClientContext(request));
 
     return NextResponse.json(
       {
@@ -108,17 +126,15 @@ export async function PUT(request: NextRequest, context: RouteContext) {
 
 /**
  * DELETE /api/questions/[id]
- * Delete a question (instructor only)
- * Query param: ?force=true to force delete with attempts
+ * Move a question to the trash (instructor only)
+ * Its attempts are kept; see /restore and /purge
  */
 export async function DELETE(request: NextRequest, context: RouteContext) {
   try {
     const user = requireRole(request, 'instructor');
     const { id } = await context.params;
 
-    const force = request.nextUrl.searchParams.get('force') === 'true';
-
-    const result = await QuestionService.deleteQuestion(id, user.userId, force);
+    const result = await QuestionService.deleteQuestion(id, user.userId, getClientContext(request));
 
     return NextResponse.json(
       {
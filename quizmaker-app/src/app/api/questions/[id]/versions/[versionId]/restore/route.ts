@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { QuestionService } from '@/lib/services/question-service';
+import { requireRole, getClientContext } from '@/lib/auth-utils';
+
+interface RouteContext {
+  params: Promise<{ id: string; versionId: string }>;
+}
+
+/**
+ * POST /api/questions/[id]/versions/[versionId]/restore
+ * Roll a question back to an earlier version, stored as a new version (instructor only)
+ */
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const user = requireRole(request, 'instructor');
+    const { id, versionId } = await context.params;
+
+    const question = await QuestionService.restoreVersion(
+      id,
+      versionId,
+      user.userId,
+      getClientContext(request)
+    );
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: 'Question restored successfully',
+        question,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to restore version';
+    let status = 400;
+    if (errorMessage.includes('permission') || errorMessage.includes('role')) {
+      status = 403;
+    } else if (errorMessage.includes('not found')) {
+      status = 404;
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        message: errorMessage,
+      },
+      { status }
+    );
+  }
+}
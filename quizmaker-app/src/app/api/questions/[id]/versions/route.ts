@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { QuestionVersionService } from '@/lib/services/question-version-service';
+import { requireRole } from '@/lib/auth-utils';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/questions/[id]/versions
+ * Get a question's version history, newest first (instructor only)
+ */
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const user = requireRole(request, 'instructor');
+    const { id } = await context.params;
+
+    const versions = await QuestionVersionService.listVersions(id, user.userId);
+
+    return NextResponse.json(
+      {
+        success: true,
+        versions,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to get versions';
+    let status = 400;
+    if (errorMessage.includes('permission') || errorMessage.includes('role')) {
+      status = 403;
+    } else if (errorMessage.includes('not found')) {
+      status = 404;
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        message: errorMessage,
+      },
+      { status }
+    );
+  }
+}
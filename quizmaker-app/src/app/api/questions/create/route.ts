@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { QuestionService } from '@/lib/services/question-service';
+import { QuestionService, CreateQuestionInput } from '@/lib/services/question-service';
 import { requireRole } from '@/lib/auth-utils';
 
 /**
@@ -9,16 +9,34 @@ import { requireRole } from '@/lib/auth-utils';
 export async function POST(request: NextRequest) {
   try {
     const user = requireRole(request, 'instructor');
-    const body = await request.json();
+    const body = await request.json() as CreateQuestionInput;
 
-    const { questionText, category, difficulty, points, options } = body;
+    const {
+      questionType,
+      scoringMode,
+      questionText,
+      category,
+      difficulty,
+      points,
+      timeLimitSeconds,
+      options,
+      numericAnswer,
+      numericTolerance,
+      acceptedAnswers,
+    } = body;
 
     const question = await QuestionService.createQuestion(user.userId, {
+      questionType,
+      scoringMode,
       questionText,
       category,
       difficulty,
       points,
+      timeLimitSeconds,
       options,
+      numericAnswer,
+      numericTolerance,
+      acceptedAnswers,
     });
 
     return NextResponse.json(
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { QuestionExportService, ExportFormat } from '@/lib/services/question-export-service';
+import { requireRole } from '@/lib/auth-utils';
+
+/**
+ * GET /api/questions/export
+ * Download the authenticated instructor's questions as a file
+ * Query parameters:
+ *   - format: 'json' | 'csv' | 'moodle_xml' | 'gift' (default json)
+ *   - search, category, difficulty: same filters as GET /api/questions
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = requireRole(request, 'instructor');
+
+    // Parse query parameters
+    const searchParams = request.nextUrl.searchParams;
+    const format = (searchParams.get('format') || 'json') as ExportFormat;
+    const search = searchParams.get('search') || undefined;
+    const category = searchParams.get('category') || undefined;
+    const difficulty = (searchParams.get('difficulty') || undefined) as
+      | 'easy'
+      | 'medium'
+      | 'hard'
+      | undefined;
+
+    const file = await QuestionExportService.exportQuestions(
+      {
+        instructorId: user.userId,
+        search,
+        category,
+        difficulty,
+      },
+      format
+    );
+
+    return new NextResponse(file.content, {
+      status: 200,
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Disposition': `attachment; filename="${file.filename}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to export questions';
+    const status = errorMessage.includes('permission') || errorMessage.includes('role') ? 403 : 400;
+
+    return NextResponse.json(
+      {
+        success: false,
+        message: errorMessage,
+      },
+      { status }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { QuestionImportService, ImportQuestionsInput } from '@/lib/services/question-import-service';
+import { requireRole } from '@/lib/auth-utils';
+
+/**
+ * POST /api/questions/import
+ * Bulk-import questions from a CSV, JSON, GIFT or Moodle XML file (instructor only)
+ * Body:
+ *   - format: 'csv' | 'json' | 'gift' | 'moodle_xml'
+ *   - content: string (file contents)
+ *   - dryRun: boolean (optional; validate only)
+ * Nothing is imported unless every row is valid; the response lists errors per row.
+ * Unsupported GIFT/Moodle constructs are listed as warnings and do not block the import
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = requireRole(request, 'instructor');
+    const body = await request.json() as ImportQuestionsInput;
+
+    const { format, content, dryRun } = body;
+
+    const result = await QuestionImportService.importQuestions(user.userId, {
+      format,
+      content,
+      dryRun,
+    });
+
+    const hasErrors = result.errors.length > 0;
+    const nothingToImport = !hasErrors && result.validRows === 0;
+    const skipped = result.skippedRows > 0 ? `; ${result.skippedRows} unsupported skipped` : '';
+
+    return NextResponse.json(
+      {
+        success: !hasErrors && !nothingToImport,
+        message: hasErrors
+          ? `${result.errors.length} of ${result.totalRows} rows have errors; nothing was imported`
+          : nothingToImport
+            ? 'The file contains no supported questions; nothing was imported'
+            : result.dryRun
+              ? `All ${result.validRows}${skipped ? ' supported' : ''} rows are valid${skipped}`
+              : `${result.importedCount} questions imported successfully${skipped}`,
+        ...result,
+      },
+      { status: hasErrors || nothingToImport ? 400 : result.dryRun ? 200 : 201 }
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to import questions';
+    const status = errorMessage.includes('permission') || errorMessage.includes('role') ? 403 : 400;
+
+    return NextResponse.json(
+      {
+        success: false,
+        message: errorMessage,
+      },
+      { status }
+    );
+  }
+}
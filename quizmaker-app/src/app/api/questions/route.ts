@@ -5,6 +5,8 @@ import { requireRole } from '@/lib/auth-utils';
 /**
  * GET /api/questions
  * List questions for the authenticated instructor (paginated, searchable, filterable)
+ * Query param: ?trash=true to list trashed questions instead
+ * Query param: ?courseId=... to list only the questions in a course's pool
  */
 export async function GET(request: NextRequest) {
   try {
@@ -17,6 +19,8 @@ export async function GET(request: NextRequest) {
     const search = searchParams.get('search') || undefined;
     const category = searchParams.get('category') || undefined;
     const difficulty = searchParams.get('difficulty') as 'easy' | 'medium' | 'hard' | undefined;
+    const deleted = searchParams.get('trash') === 'true';
+    const courseId = searchParams.get('courseId') || undefined;
 
     const result = await QuestionService.listQuestions({
       instructorId: user.userId,
@@ -25,6 +29,8 @@ export async function GET(request: NextRequest) {
       search,
       category,
       difficulty,
+      deleted,
+      courseId,
     });
 
     return NextResponse.json(
@@ -4,11 +4,12 @@ import { requireRole } from '@/lib/auth-utils';
 
 /**
  * GET /api/quiz/available-count
- * Get count of available questions for the student
+ * Get count of available questions for the student (from the pools of their courses)
  * Query params:
  *   - excludeAttempted: boolean (default false)
  *   - category: string
  *   - difficulty: 'easy' | 'medium' | 'hard'
+ *   - courseId: string
  */
 export async function GET(request: NextRequest) {
   try {
@@ -18,12 +19,14 @@ export async function GET(request: NextRequest) {
     const excludeAttempted = searchParams.get('excludeAttempted') === 'true';
     const category = searchParams.get('category') || undefined;
     const difficulty = searchParams.get('difficulty') as 'easy' | 'medium' | 'hard' | undefined;
+    const courseId = searchParams.get('courseId') || undefined;
 
     const count = await QuizService.getAvailableQuestionCount(
       user.userId,
       excludeAttempted,
       category,
-      difficulty
+      difficulty,
+      courseId
     );
 
     return NextResponse.json(
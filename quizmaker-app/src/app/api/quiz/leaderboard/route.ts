@@ -1,35 +1,89 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { QuizService } from '@/lib/services/quiz-service';
+import { QuizService, LeaderboardPeriod, LeaderboardRanking } from '@/lib/services/quiz-service';
+import { AuthService } from '@/lib/services/auth-service';
+import { CourseService } from '@/lib/services/course-service';
 import { requireAuth } from '@/lib/auth-utils';
 
 /**
  * GET /api/quiz/leaderboard
- * Get the leaderboard of top students
+ * Get the leaderboard of top students, and the requesting student's own rank
  * Query params:
  *   - limit: number (default 10, max 100)
+ *   - courseId: string (optional) - rank one course only
+ *   - category: string (optional)
+ *   - difficulty: 'easy' | 'medium' | 'hard' (optional)
+ *   - period: 'all' | 'week' | 'month' | 'custom' (default 'all')
+ *   - from, to: dates for the custom period (to includes that day)
+ *   - ranking: 'competition' | 'dense' (default 'competition') - how tied scores are numbered
  * 
- * Note: This endpoint is accessible by both students and instructors
+ * Note: This endpoint is accessible by both students and instructors; students
+ * must have verified their email address. Students are ranked within the courses
+ * they are enrolled in and instructors see the courses they teach.
+ * Everyone sees the same names: students shown under a pseudonym have no studentId
+ * and hidden students are left out, apart from a hidden student's own rank
  */
 export async function GET(request: NextRequest) {
   try {
     // Both students and instructors can view the leaderboard
-    requireAuth(request);
+    const user = requireAuth(request);
+
+    if (
+      user.role === 'student' &&
+      AuthService.isEmailVerificationRequired() &&
+      !(await AuthService.isEmailVerified(user.userId))
+    ) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Please verify your email address to view the leaderboard',
+        },
+        { status: 403 }
+      );
+    }
 
     const searchParams = request.nextUrl.searchParams;
     const limit = parseInt(searchParams.get('limit') || '10', 10);
+    const courseId = searchParams.get('courseId') || undefined;
 
-    const leaderboard = await QuizService.getLeaderboard(limit);
+    const courseIds = await CourseService.resolveCourseScope(user.userId, user.role, courseId);
+    const result = await QuizService.getLeaderboard({
+      limit,
+      courseIds,
+      category: searchParams.get('category') || undefined,
+      difficulty: (searchParams.get('difficulty') || undefined) as 'easy' | 'medium' | 'hard' | undefined,
+      period: (searchParams.get('period') || undefined) as LeaderboardPeriod | undefined,
+      from: searchParams.get('from') || undefined,
+      to: searchParams.get('to') || undefined,
+      ranking: (searchParams.get('ranking') || undefined) as LeaderboardRanking | undefined,
+      studentId: user.role === 'student' ? user.userId : undefined,
+    });
+    const categories = await QuizService.getLeaderboardCategories(courseIds);
 
     return NextResponse.json(
       {
         success: true,
-        leaderboard,
+        leaderboard: result.entries,
+        currentStudent: result.currentStudent,
+        totalRanked: result.totalRanked,
+        period: result.period,
+        ranking: result.ranking,
+        from: result.from,
+        to: result.to,
+        currentVisibility: result.currentVisibility,
+        categories,
       },
       { status: 200 }
     );
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Failed to get leaderboard';
-    const status = errorMessage.includes('authenticated') ? 401 : 400;
+    let status = 400;
+    if (errorMessage.includes('authenticated')) {
+      status = 401;
+    } else if (errorMessage.includes('permission')) {
+      status = 403;
+    } else if (errorMessage.includes('not found')) {
+      status = 404;
+    }
 
     return NextResponse.json(
       {
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { QuizAuthoringService } from '@/lib/services/quiz-authoring-service';
+import { requireRole } from '@/lib/auth-utils';
+
+/**
+ * GET /api/quiz/published
+ * List the quizzes published in the student's courses
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = requireRole(request, 'student');
+
+    const quizzes = await QuizAuthoringService.listPublishedQuizzes(user.userId);
+
+    return NextResponse.json(
+      {
+        success: true,
+        quizzes,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to list quizzes';
+    const status = errorMessage.includes('permission') || errorMessage.includes('role') ? 403 : 400;
+
+    return NextResponse.json(
+      {
+        success: false,
+        message: errorMessage,
+      },
+      { status }
+    );
+  }
+}
@@ -4,11 +4,13 @@ import { requireRole } from '@/lib/auth-utils';
 
 /**
  * GET /api/quiz/random
- * Get a random question for the student to answer
+ * Get a random question for the student to answer, from the pools of their courses
  * Query params:
  *   - excludeAttempted: boolean (default false) - exclude already attempted questions
  *   - category: string - filter by category
  *   - difficulty: 'easy' | 'medium' | 'hard' - filter by difficulty
+ *   - courseId: string - only questions of this course
+ * The question's issuedAt and deadlineAt are stamped server-side; answers are timed from issuedAt
  */
 export async function GET(request: NextRequest) {
   try {
@@ -18,12 +20,14 @@ export async function GET(request: NextRequest) {
     const excludeAttempted = searchParams.get('excludeAttempted') === 'true';
     const category = searchParams.get('category') || undefined;
     const difficulty = searchParams.get('difficulty') as 'easy' | 'medium' | 'hard' | undefined;
+    const courseId = searchParams.get('courseId') || undefined;
 
     const question = await QuestionService.getRandomQuestion(
       user.userId,
       excludeAttempted,
       category,
-      difficulty
+      difficulty,
+      courseId
     );
 
     if (!question) {
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { QuizSessionService } from '@/lib/services/quiz-session-service';
+import { requireRole } from '@/lib/auth-utils';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * POST /api/quiz/sessions/[id]/finish
+ * Finish a quiz session and record its final score
+ */
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const user = requireRole(request, 'student');
+    const { id } = await context.params;
+
+    const session = await QuizSessionService.finishSession(id, user.userId);
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: 'Quiz completed',
+        session,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to finish quiz session';
+    let status = 400;
+    if (errorMessage.includes('permission') || errorMessage.includes('role')) {
+      status = 403;
+    } else if (errorMessage.includes('not found')) {
+      status = 404;
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        message: errorMessage,
+      },
+      { status }
+    );
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { QuizSessionService } from '@/lib/services/quiz-session-service';
+import { requireRole } from '@/lib/auth-utils';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/quiz/sessions/[id]/next
+ * Get the next unanswered question of a quiz session
+ * Responds with `completed: true` once every question has been answered
+ */
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const user = requireRole(request, 'student');
+    const { id } = await context.params;
+
+    const next = await QuizSessionService.getNextQuestion(id, user.userId);
+
+    if (!next) {
+      return NextResponse.json(
+        {
+          success: true,
+          completed: true,
+        },
+        { status: 200 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        completed: false,
+        ...next,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to get next question';
+    let status = 400;
+    if (errorMessage.includes('permission') || errorMessage.includes('role')) {
+      status = 403;
+    } else if (errorMessage.includes('not found')) {
+      status = 404;
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        message: errorMessage,
+      },
+      { status }
+    );
+  }
+}
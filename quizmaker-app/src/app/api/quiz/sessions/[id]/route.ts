@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { QuizSessionService } from '@/lib/services/quiz-session-service';
+import { requireRole } from '@/lib/auth-utils';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/quiz/sessions/[id]
+ * Get a quiz session's progress and score
+ */
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const user = requireRole(request, 'student');
+    const { id } = await context.params;
+
+    const session = await QuizSessionService.getSession(id, user.userId);
+
+    if (!session) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Quiz session not found',
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        session,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to get quiz session';
+    const status = errorMessage.includes('permission') || errorMessage.includes('role') ? 403 : 400;
+
+    return NextResponse.json(
+      {
+        success: false,
+        message: errorMessage,
+      },
+      { status }
+    );
+  }
+}
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { QuizSessionService } from '@/lib/services/quiz-session-service';
+import { requireRole } from '@/lib/auth-utils';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+interface SubmitSessionAnswerBody {
+  questionId: string;
+  selectedOptionId?: string;
+  selectedOptionIds?: string[];
+  responseText?: string;
+}
+
+/**
+ * POST /api/quiz/sessions/[id]/submit
+ * Submit an answer for a question in the quiz session
+ * Body:
+ *   - questionId: string
+ *   - selectedOptionId: string (single-choice and true/false questions)
+ *   - selectedOptionIds: string[] (multi-select questions)
+ *   - responseText: string (numeric and short-text questions)
+ * Time taken is measured server-side from when the question was served;
+ * answers after the deadline are recorded with zero score (isLate: true)
+ */
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const user = requireRole(request, 'student');
+    const { id } = await context.params;
+    const body = await request.json() as SubmitSessionAnswerBody;
+
+    const { questionId, selectedOptionId, selectedOptionIds, responseText } = body;
+
+    if (!questionId || (!selectedOptionId && !selectedOptionIds?.length && !responseText?.trim())) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Question ID and an answer are required',
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await QuizSessionService.submitAnswer(id, user.userId, {
+      questionId,
+      selectedOptionId,
+      selectedOptionIds,
+      responseText,
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: result.isCorrect ? 'Correct answer!' : 'Incorrect answer',
+        ...result,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to submit answer';
+    let status = 400;
+    if (errorMessage.includes('permission') || errorMessage.includes('role')) {
+      status = 403;
+    } else if (errorMessage.includes('not found')) {
+      status = 404;
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        message: errorMessage,
+      },
+      { status }
+    );
+  }
+}
@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { QuizSessionService } from '@/lib/services/quiz-session-service';
+import { requireRole } from '@/lib/auth-utils';
+
+interface StartSessionBody {
+  quizId?: string;
+  courseId?: string;
+  questionCount?: number;
+  category?: string;
+  difficulty?: 'easy' | 'medium' | 'hard';
+  excludeAttempted?: boolean;
+}
+
+/**
+ * GET /api/quiz/sessions
+ * List the authenticated student's quiz sessions (paginated)
+ * Query params:
+ *   - page: number (default 1)
+ *   - limit: number (default 20, max 100)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = requireRole(request, 'student');
+
+    const searchParams = request.nextUrl.searchParams;
+    const page = parseInt(searchParams.get('page') || '1', 10);
+    const limit = parseInt(searchParams.get('limit') || '20', 10);
+
+    const result = await QuizSessionService.listSessions(user.userId, page, limit);
+
+    return NextResponse.json(
+      {
+        success: true,
+        ...result,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to list quiz sessions';
+    const status = errorMessage.includes('permission') || errorMessage.includes('role') ? 403 : 400;
+
+    return NextResponse.json(
+      {
+        success: false,
+        message: errorMessage,
+      },
+      { status }
+    );
+  }
+}
+
+/**
+ * POST /api/quiz/sessions
+ * Start a new multi-question quiz session
+ * Body:
+ *   - quizId: string (optional) - start a published instructor quiz; other fields are ignored
+ *   - courseId: string (optional) - draw from this course only; defaults to all of the student's courses
+ *   - questionCount: number (default 10, max 50)
+ *   - category: string (optional)
+ *   - difficulty: 'easy' | 'medium' | 'hard' (optional)
+ *   - excludeAttempted: boolean (optional)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = requireRole(request, 'student');
+    const body = await request.json() as StartSessionBody;
+
+    const session = await QuizSessionService.startSession(user.userId, {
+      quizId: body.quizId || undefined,
+      courseId: body.courseId || undefined,
+      questionCount: body.questionCount ?? 10,
+      category: body.category || undefined,
+      difficulty: body.difficulty || undefined,
+      excludeAttempted: body.excludeAttempted === true,
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: 'Quiz session started',
+        session,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to start quiz session';
+    let status = 400;
+    if (errorMessage.includes('permission') || errorMessage.includes('role')) {
+      status = 403;
+    } else if (errorMessage.includes('No questions available') || errorMessage.includes('not found')) {
+      status = 404;
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        message: errorMessage,
+        noQuestions: errorMessage.includes('No questions available') ? true : undefined,
+      },
+      { status }
+    );
+  }
+}
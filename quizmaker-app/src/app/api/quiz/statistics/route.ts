@@ -1,16 +1,25 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { QuizService } from '@/lib/services/quiz-service';
+import { CourseService } from '@/lib/services/course-service';
 import { requireRole } from '@/lib/auth-utils';
 
 /**
  * GET /api/quiz/statistics
  * Get comprehensive statistics for the authenticated student
+ * Query params:
+ *   - courseId: string (optional) - only attempts and quizzes in this course
  */
 export async function GET(request: NextRequest) {
   try {
     const user = requireRole(request, 'student');
 
-    const statistics = await QuizService.getStudentStatistics(user.userId);
+    const courseId = request.nextUrl.searchParams.get('courseId') || undefined;
+    if (courseId) {
+      // Throws unless the student is enrolled in the course
+      await CourseService.getCourse(courseId, user.userId, 'student');
+    }
+
+    const statistics = await QuizService.getStudentStatistics(user.userId, courseId);
 
     return NextResponse.json(
       {
@@ -21,7 +30,12 @@ export async function GET(request: NextRequest) {
     );
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Failed to get statistics';
-    const status = errorMessage.includes('permission') || errorMessage.includes('role') ? 403 : 400;
+    let status = 400;
+    if (errorMessage.includes('permission') || errorMessage.includes('role')) {
+      status = 403;
+    } else if (errorMessage.includes('not found')) {
+      status = 404;
+    }
 
     return NextResponse.json(
       {
@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { QuizService } from '@/lib/services/quiz-service';
+import { QuizService, SubmitAnswerInput } from '@/lib/services/quiz-service';
 import { requireRole } from '@/lib/auth-utils';
 
 /**
@@ -7,21 +7,24 @@ import { requireRole } from '@/lib/auth-utils';
  * Submit an answer for a question
  * Body:
  *   - questionId: string
- *   - selectedOptionId: string
- *   - timeTakenSeconds: number (optional)
+ *   - selectedOptionId: string (single-choice and true/false questions)
+ *   - selectedOptionIds: string[] (multi-select questions)
+ *   - responseText: string (numeric and short-text questions)
+ * Time taken is measured server-side from when /api/quiz/random served the question;
+ * answers after the deadline are recorded with zero score (isLate: true)
  */
 export async function POST(request: NextRequest) {
   try {
     const user = requireRole(request, 'student');
-    const body = await request.json();
+    const body = await request.json() as SubmitAnswerInput;
 
-    const { questionId, selectedOptionId, timeTakenSeconds } = body;
+    const { questionId, selectedOptionId, selectedOptionIds, responseText } = body;
 
-    if (!questionId || !selectedOptionId) {
+    if (!questionId || (!selectedOptionId && !selectedOptionIds?.length && !responseText?.trim())) {
       return NextResponse.json(
         {
           success: false,
-          message: 'Question ID and selected option are required',
+          message: 'Question ID and an answer are required',
         },
         { status: 400 }
       );
@@ -30,7 +33,8 @@ export async function POST(request: NextRequest) {
     const result = await QuizService.submitAnswer(user.userId, {
       questionId,
       selectedOptionId,
-      timeTakenSeconds,
+      selectedOptionIds,
+      responseText,
     });
 
     return NextResponse.json(
@@ -44,7 +48,7 @@ export async function POST(request: NextRequest) {
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Failed to submit answer';
     let status = 400;
-    if (errorMessage.includes('permission') || errorMessage.includes('role')) {
+    if (errorMessage.includes('permission') || errorMessage.includes('role') || errorMessage.includes('verify')) {
       status = 403;
     } else if (errorMessage.includes('not found')) {
       status = 404;
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { QuizAuthoringService } from '@/lib/services/quiz-authoring-service';
+import { requireRole } from '@/lib/auth-utils';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+interface PublishBody {
+  published: boolean;
+}
+
+/**
+ * POST /api/quizzes/[id]/publish
+ * Publish or unpublish a quiz (instructor only)
+ * Body:
+ *   - published: boolean
+ */
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const user = requireRole(request, 'instructor');
+    const { id } = await context.params;
+    const body = await request.json() as PublishBody;
+
+    if (typeof body.published !== 'boolean') {
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Published flag is required',
+        },
+        { status: 400 }
+      );
+    }
+
+    const quiz = await QuizAuthoringService.setPublished(id, user.userId, body.published);
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: body.published ? 'Quiz published' : 'Quiz unpublished',
+        quiz,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to change quiz status';
+    let status = 400;
+    if (errorMessage.includes('permission') || errorMessage.includes('role')) {
+      status = 403;
+    } else if (errorMessage.includes('not found')) {
+      status = 404;
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        message: errorMessage,
+      },
+      { status }
+    );
+  }
+}
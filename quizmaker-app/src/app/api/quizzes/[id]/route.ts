@@ -0,0 +1,133 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { QuizAuthoringService, UpdateQuizInput } from '@/lib/services/quiz-authoring-service';
+import { requireRole } from '@/lib/auth-utils';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/quizzes/[id]
+ * Get a quiz with its ordered questions (instructor only)
+ */
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const user = requireRole(request, 'instructor');
+    const { id } = await context.params;
+
+    const quiz = await QuizAuthoringService.getQuizById(id, user.userId);
+
+    if (!quiz) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Quiz not found',
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        quiz,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to get quiz';
+    const status = errorMessage.includes('permission') || errorMessage.includes('role') ? 403 : 400;
+
+    return NextResponse.json(
+      {
+        success: false,
+        message: errorMessage,
+      },
+      { status }
+    );
+  }
+}
+
+/**
+ * PUT /api/quizzes/[id]
+ * Update a quiz's title, description, course, time limit or ordered question list (instructor only)
+ */
+export async function PUT(request: NextRequest, context: RouteContext) {
+  try {
+    const user = requireRole(request, 'instructor');
+    const { id } = await context.params;
+    const body = await request.json() as UpdateQuizInput;
+
+    const { title, description, courseId, timeLimitSeconds, questionIds } = body;
+
+    const quiz = await QuizAuthoringService.updateQuiz(id, user.userId, {
+      title,
+      description,
+      courseId,
+      timeLimitSeconds,
+      questionIds,
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: 'Quiz updated successfully',
+        quiz,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to update quiz';
+    let status = 400;
+    if (errorMessage.includes('permission') || errorMessage.includes('role')) {
+      status = 403;
+    } else if (errorMessage.includes('not found')) {
+      status = 404;
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        message: errorMessage,
+      },
+      { status }
+    );
+  }
+}
+
+/**
+ * DELETE /api/quizzes/[id]
+ * Delete a quiz (instructor only); its questions are kept
+ */
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  try {
+    const user = requireRole(request, 'instructor');
+    const { id } = await context.params;
+
+    const result = await QuizAuthoringService.deleteQuiz(id, user.userId);
+
+    return NextResponse.json(
+      {
+        success: true,
+        ...result,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to delete quiz';
+    let status = 400;
+    if (errorMessage.includes('permission') || errorMessage.includes('role')) {
+      status = 403;
+    } else if (errorMessage.includes('not found')) {
+      status = 404;
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        message: errorMessage,
+      },
+      { status }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { QuizAuthoringService, CreateQuizInput } from '@/lib/services/quiz-authoring-service';
+import { requireRole } from '@/lib/auth-utils';
+
+/**
+ * POST /api/quizzes/create
+ * Create a new draft quiz from the instructor's questions (instructor only)
+ * Body:
+ *   - title: string
+ *   - description: string (optional)
+ *   - courseId: string (optional) - course whose students can take the quiz; required to publish
+ *   - timeLimitSeconds: number | null (optional) - whole-quiz limit, 60 to 14400
+ *   - questionIds: string[] (ordered)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = requireRole(request, 'instructor');
+    const body = await request.json() as CreateQuizInput;
+
+    const { title, description, courseId, timeLimitSeconds, questionIds } = body;
+
+    const quiz = await QuizAuthoringService.createQuiz(user.userId, {
+      title,
+      description,
+      courseId,
+      timeLimitSeconds,
+      questionIds: questionIds ?? [],
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: 'Quiz created successfully',
+        quiz,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to create quiz';
+    const status = errorMessage.includes('permission') || errorMessage.includes('role') ? 403 : 400;
+
+    return NextResponse.json(
+      {
+        success: false,
+        message: errorMessage,
+      },
+      { status }
+    );
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { QuizAuthoringService, QuizStatus } from '@/lib/services/quiz-authoring-service';
+import { requireRole } from '@/lib/auth-utils';
+
+/**
+ * GET /api/quizzes
+ * List quizzes for the authenticated instructor (paginated)
+ * Query params:
+ *   - page: number (default 1)
+ *   - limit: number (default 20, max 100)
+ *   - status: 'draft' | 'published'
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = requireRole(request, 'instructor');
+
+    const searchParams = request.nextUrl.searchParams;
+    const page = parseInt(searchParams.get('page') || '1', 10);
+    const limit = parseInt(searchParams.get('limit') || '20', 10);
+    const status = (searchParams.get('status') || undefined) as QuizStatus | undefined;
+
+    const result = await QuizAuthoringService.listQuizzes({
+      instructorId: user.userId,
+      page,
+      limit,
+      status,
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        ...result,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to list quizzes';
+    const status = errorMessage.includes('permission') || errorMessage.includes('role') ? 403 : 400;
+
+    return NextResponse.json(
+      {
+        success: false,
+        message: errorMessage,
+      },
+      { status }
+    );
+  }
+}
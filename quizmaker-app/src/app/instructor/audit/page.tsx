@@ -0,0 +1,346 @@
+'use client';
+
+import { Fragment, useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  ArrowLeft,
+  ScrollText,
+  Search,
+  ChevronLeft,
+  ChevronRight,
+  ChevronDown,
+  ChevronUp,
+} from 'lucide-react';
+
+interface AuditEvent {
+  id: string;
+  actorId: string | null;
+  actorName: string | null;
+  action: string;
+  targetType: string | null;
+  targetId: string | null;
+  ownerId: string | null;
+  metadata: Record<string, unknown> | null;
+  changes: Record<string, { before: unknown; after: unknown }> | null;
+  ipAddress: string | null;
+  createdAt: string;
+}
+
+interface PaginatedResult {
+  data: AuditEvent[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+const ACTION_GROUPS = [
+  { value: 'all', label: 'All Actions' },
+  { value: 'question', label: 'Questions' },
+  { value: 'user', label: 'Accounts' },
+  { value: 'auth', label: 'Sign-ins' },
+  { value: 'data', label: 'Data Explorer' },
+];
+
+const PAGE_SIZE = 50;
+
+export default function AuditLogPage() {
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [action, setAction] = useState('all');
+  const [targetId, setTargetId] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [total, setTotal] = useState(0);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  const fetchEvents = useCallback(async () => {
+    setLoading(true);
+    setError('');
+    try {
+      const params = new URLSearchParams({
+        page: page.toString(),
+        limit: PAGE_SIZE.toString(),
+      });
+      if (action !== 'all') params.append('action', action);
+      if (targetId) params.append('targetId', targetId.trim());
+      if (from) params.append('from', from);
+      if (to) params.append('to', to);
+
+      const response = await fetch(`/api/audit-events?${params}`);
+      const data = await response.json() as PaginatedResult & { success: boolean; message?: string };
+
+      if (data.success) {
+        setEvents(data.data);
+        setTotalPages(data.totalPages);
+        setTotal(data.total);
+      } else {
+        setError(data.message || 'Failed to load audit log');
+      }
+    } catch (error) {
+      console.error('Failed to fetch audit events:', error);
+      setError('Failed to load audit log');
+    } finally {
+      setLoading(false);
+    }
+  }, [page, action, targetId, from, to]);
+
+  useEffect(() => {
+    fetchEvents();
+  }, [fetchEvents]);
+
+  const formatDate = (value: string) => new Date(value).toLocaleString();
+
+  const formatValue = (value: unknown) => {
+    if (value === null || value === undefined) {
+      return '—';
+    }
+    return typeof value === 'string' ? value : JSON.stringify(value);
+  };
+
+  const getActionColor = (value: string) => {
+    if (value.endsWith('.delete') || value === 'question.purge' || value === 'user.disable') {
+      return 'border-red-500/30 text-red-400';
+    }
+    if (value.startsWith('question.')) {
+      return 'border-emerald-500/30 text-emerald-400';
+    }
+    if (value.startsWith('user.')) {
+      return 'border-amber-500/30 text-amber-400';
+    }
+    return 'border-slate-500/30 text-slate-300';
+  };
+
+  const hasDetails = (event: AuditEvent) =>
+    (event.changes && Object.keys(event.changes).length > 0) ||
+    (event.metadata && Object.keys(event.metadata).length > 0);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900">
+      {/* Header */}
+      <nav className="border-b border-slate-700 bg-slate-800/50 backdrop-blur-sm sticky top-0 z-50">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center gap-3">
+            <Link href="/instructor/dashboard">
+              <Button variant="ghost" size="icon" className="text-slate-400 hover:text-slate-100">
+                <ArrowLeft className="h-5 w-5" />
+              </Button>
+            </Link>
+            <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-emerald-500/10">
+              <ScrollText className="h-5 w-5 text-emerald-500" />
+            </div>
+            <h1 className="text-xl font-bold text-slate-100">Audit Log</h1>
+          </div>
+        </div>
+      </nav>
+
+      <div className="container mx-auto px-4 py-8 space-y-6">
+        {/* Filters */}
+        <Card className="border-slate-700 bg-slate-800/50">
+          <CardHeader>
+            <CardTitle className="text-slate-100 text-lg">Filters</CardTitle>
+            <CardDescription className="text-slate-400">
+              Changes to your questions and account. Admins see every event.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="flex flex-col md:flex-row gap-4">
+              <Select value={action} onValueChange={(v) => { setAction(v); setPage(1); }}>
+                <SelectTrigger className="w-full md:w-44 border-slate-600 bg-slate-700/50 text-slate-100">
+                  <SelectValue placeholder="Action" />
+                </SelectTrigger>
+                <SelectContent className="bg-slate-800 border-slate-700">
+                  {ACTION_GROUPS.map((group) => (
+                    <SelectItem key={group.value} value={group.value} className="text-slate-100">
+                      {group.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <div className="flex-1 relative">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-slate-400" />
+                <Input
+                  placeholder="Target ID (question or user)..."
+                  value={targetId}
+                  onChange={(e) => {
+                    setTargetId(e.target.value);
+                    setPage(1);
+                  }}
+                  className="pl-10 border-slate-600 bg-slate-700/50 text-slate-100 placeholder:text-slate-500"
+                />
+              </div>
+              <Input
+                type="date"
+                aria-label="From"
+                value={from}
+                onChange={(e) => { setFrom(e.target.value); setPage(1); }}
+                className="w-full md:w-44 border-slate-600 bg-slate-700/50 text-slate-100"
+              />
+              <Input
+                type="date"
+                aria-label="To"
+                value={to}
+                onChange={(e) => { setTo(e.target.value); setPage(1); }}
+                className="w-full md:w-44 border-slate-600 bg-slate-700/50 text-slate-100"
+              />
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Events Table */}
+        <Card className="border-slate-700 bg-slate-800/50">
+          <CardContent className="p-0">
+            {error && (
+              <p className="px-6 py-4 text-sm text-red-400">{error}</p>
+            )}
+            <Table>
+              <TableHeader>
+                <TableRow className="border-slate-700 hover:bg-transparent">
+                  <TableHead className="text-slate-400">When</TableHead>
+                  <TableHead className="text-slate-400">Who</TableHead>
+                  <TableHead className="text-slate-400">Action</TableHead>
+                  <TableHead className="text-slate-400 hidden md:table-cell">Target</TableHead>
+                  <TableHead className="text-slate-400 hidden md:table-cell">IP Address</TableHead>
+                  <TableHead className="text-slate-400 w-12" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {loading ? (
+                  Array.from({ length: 5 }).map((_, i) => (
+                    <TableRow key={i} className="border-slate-700">
+                      <TableCell><Skeleton className="h-4 w-32" /></TableCell>
+                      <TableCell><Skeleton className="h-4 w-24" /></TableCell>
+                      <TableCell><Skeleton className="h-5 w-28" /></TableCell>
+                      <TableCell className="hidden md:table-cell"><Skeleton className="h-4 w-40" /></TableCell>
+                      <TableCell className="hidden md:table-cell"><Skeleton className="h-4 w-24" /></TableCell>
+                      <TableCell />
+                    </TableRow>
+                  ))
+                ) : events.length === 0 ? (
+                  <TableRow className="border-slate-700">
+                    <TableCell colSpan={6} className="text-center py-8 text-slate-400">
+                      No audit events found
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  events.map((event) => (
+                    <Fragment key={event.id}>
+                      <TableRow className="border-slate-700 hover:bg-slate-700/30">
+                        <TableCell className="text-slate-400">{formatDate(event.createdAt)}</TableCell>
+                        <TableCell className="text-slate-200">{event.actorName ?? 'Deleted user'}</TableCell>
+                        <TableCell>
+                          <Badge variant="outline" className={getActionColor(event.action)}>
+                            {event.action}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-slate-400 hidden md:table-cell">
+                          {event.targetType ? (
+                            <span>
+                              {event.targetType} <code className="text-xs text-slate-500">{event.targetId}</code>
+                            </span>
+                          ) : '—'}
+                        </TableCell>
+                        <TableCell className="text-slate-400 hidden md:table-cell">{event.ipAddress ?? '—'}</TableCell>
+                        <TableCell className="text-right">
+                          {hasDetails(event) && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => setExpanded(expanded === event.id ? null : event.id)}
+                              className="text-slate-400 hover:text-slate-100"
+                            >
+                              {expanded === event.id ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                      {expanded === event.id && (
+                        <TableRow className="border-slate-700 bg-slate-900/40 hover:bg-slate-900/40">
+                          <TableCell colSpan={6} className="space-y-3 py-4">
+                            {event.changes && Object.keys(event.changes).length > 0 && (
+                              <div className="space-y-1">
+                                {Object.entries(event.changes).map(([field, change]) => (
+                                  <div key={field} className="grid grid-cols-1 md:grid-cols-[10rem_1fr_1fr] gap-2 text-sm">
+                                    <span className="font-medium text-slate-300">{field}</span>
+                                    <span className="text-red-400 break-all line-through decoration-red-400/50">
+                                      {formatValue(change.before)}
+                                    </span>
+                                    <span className="text-emerald-400 break-all">{formatValue(change.after)}</span>
+                                  </div>
+                                ))}
+                              </div>
+                            )}
+                            {event.metadata && Object.keys(event.metadata).length > 0 && (
+                              <pre className="text-xs text-slate-500 whitespace-pre-wrap break-all">
+                                {JSON.stringify(event.metadata, null, 2)}
+                              </pre>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </Fragment>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+
+          {/* Pagination */}
+          {totalPages > 1 && (
+            <div className="flex items-center justify-between px-6 py-4 border-t border-slate-700">
+              <p className="text-sm text-slate-400">
+                Showing {((page - 1) * PAGE_SIZE) + 1} to {Math.min(page * PAGE_SIZE, total)} of {total} events
+              </p>
+              <div className="flex items-center gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPage(p => Math.max(1, p - 1))}
+                  disabled={page === 1}
+                  className="border-slate-600 text-slate-300 hover:bg-slate-700 disabled:opacity-50"
+                >
+                  <ChevronLeft className="h-4 w-4" />
+                </Button>
+                <span className="text-sm text-slate-400">
+                  Page {page} of {totalPages}
+                </span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPage(p => Math.min(totalPages, p + 1))}
+                  disabled={page === totalPages}
+                  className="border-slate-600 text-slate-300 hover:bg-slate-700 disabled:opacity-50"
+                >
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+}
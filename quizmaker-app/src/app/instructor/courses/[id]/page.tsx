@@ -0,0 +1,623 @@
+'use client';
+
+import { useState, useEffect, use, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  ArrowLeft,
+  GraduationCap,
+  Copy,
+  Check,
+  RefreshCw,
+  Plus,
+  Trash2,
+  Search,
+} from 'lucide-react';
+import { CourseLeaderboardPolicy } from '@/lib/leaderboard-privacy';
+
+interface Course {
+  id: string;
+  name: string;
+  description: string | null;
+  joinCode: string | null;
+  leaderboardPolicy: CourseLeaderboardPolicy;
+  studentCount: number;
+  questionCount: number;
+}
+
+interface CourseStudent {
+  studentId: string;
+  studentName: string;
+  email: string;
+  enrolledAt: string;
+  totalAttempts: number;
+  correctAttempts: number;
+  totalScore: number;
+}
+
+const POLICY_LABELS: Record<CourseLeaderboardPolicy, string> = {
+  student_choice: 'Students choose',
+  pseudonym: 'Pseudonyms only',
+  hidden: 'Hide all students',
+};
+
+interface PoolQuestion {
+  id: string;
+  questionText: string;
+  category: string | null;
+  difficulty: 'easy' | 'medium' | 'hard';
+}
+
+export default function CourseDetailPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = use(params);
+  const router = useRouter();
+  const [course, setCourse] = useState<Course | null>(null);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [leaderboardPolicy, setLeaderboardPolicy] = useState<CourseLeaderboardPolicy>('student_choice');
+  const [students, setStudents] = useState<CourseStudent[]>([]);
+  const [pool, setPool] = useState<PoolQuestion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+  const [addOpen, setAddOpen] = useState(false);
+  const [bank, setBank] = useState<PoolQuestion[]>([]);
+  const [bankLoading, setBankLoading] = useState(false);
+  const [search, setSearch] = useState('');
+  const [picked, setPicked] = useState<string[]>([]);
+  const [deleteOpen, setDeleteOpen] = useState(false);
+
+  const fetchCourse = useCallback(async () => {
+    try {
+      const [courseRes, studentsRes, poolRes] = await Promise.all([
+        fetch(`/api/courses/${id}`),
+        fetch(`/api/courses/${id}/students`),
+        fetch(`/api/questions?courseId=${id}&limit=100`),
+      ]);
+      const courseData = await courseRes.json() as { success: boolean; course?: Course; message?: string };
+      const studentsData = await studentsRes.json() as { success: boolean; students?: CourseStudent[] };
+      const poolData = await poolRes.json() as { success?: boolean; data?: PoolQuestion[] };
+
+      if (!courseData.success || !courseData.course) {
+        setError(courseData.message || 'Course not found');
+        return;
+      }
+
+      setCourse(courseData.course);
+      setName(courseData.course.name);
+      setDescription(courseData.course.description || '');
+      setLeaderboardPolicy(courseData.course.leaderboardPolicy);
+      setStudents(studentsData.students ?? []);
+      setPool(poolData.data ?? []);
+    } catch {
+      setError('Failed to load course');
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    fetchCourse();
+  }, [fetchCourse]);
+
+  const fetchBank = useCallback(async () => {
+    setBankLoading(true);
+    try {
+      const params = new URLSearchParams({ page: '1', limit: '100' });
+      if (search) params.append('search', search);
+
+      const response = await fetch(`/api/questions?${params}`);
+      const data = await response.json() as { success?: boolean; data?: PoolQuestion[] };
+
+      if (data.success && data.data) {
+        setBank(data.data);
+      }
+    } catch (error) {
+      console.error('Failed to fetch questions:', error);
+    } finally {
+      setBankLoading(false);
+    }
+  }, [search]);
+
+  useEffect(() => {
+    if (addOpen) {
+      fetchBank();
+    }
+  }, [addOpen, fetchBank]);
+
+  const runAction = async (request: Promise<Response>, fallback: string) => {
+    setError('');
+    setNotice('');
+    try {
+      const response = await request;
+      const data = await response.json() as { success: boolean; message?: string; course?: Course };
+
+      if (!data.success) {
+        setError(data.message || fallback);
+        return null;
+      }
+      return data;
+    } catch {
+      setError(fallback);
+      return null;
+    }
+  };
+
+  const saveDetails = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    const data = await runAction(
+      fetch(`/api/courses/${id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, description, leaderboardPolicy }),
+      }),
+      'Failed to update course'
+    );
+    if (data?.course) {
+      setCourse(data.course);
+      setNotice('Course updated');
+    }
+    setSaving(false);
+  };
+
+  const regenerateCode = async () => {
+    const data = await runAction(
+      fetch(`/api/courses/${id}/join-code`, { method: 'POST' }),
+      'Failed to regenerate join code'
+    );
+    if (data?.course) {
+      setCourse(data.course);
+      setCopied(false);
+      setNotice('New join code created; the old code no longer works');
+    }
+  };
+
+  const copyCode = async () => {
+    if (!course?.joinCode) return;
+    await navigator.clipboard.writeText(course.joinCode);
+    setCopied(true);
+  };
+
+  const removeStudent = async (student: CourseStudent) => {
+    const data = await runAction(
+      fetch(`/api/courses/${id}/students/${student.studentId}`, { method: 'DELETE' }),
+      'Failed to remove student'
+    );
+    if (data) {
+      setStudents((prev) => prev.filter((s) => s.studentId !== student.studentId));
+    }
+  };
+
+  const removeQuestion = async (question: PoolQuestion) => {
+    const data = await runAction(
+      fetch(`/api/courses/${id}/questions/${question.id}`, { method: 'DELETE' }),
+      'Failed to remove question'
+    );
+    if (data) {
+      setPool((prev) => prev.filter((q) => q.id !== question.id));
+    }
+  };
+
+  const addQuestions = async () => {
+    const data = await runAction(
+      fetch(`/api/courses/${id}/questions`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ questionIds: picked }),
+      }),
+      'Failed to add questions'
+    );
+    setAddOpen(false);
+    setPicked([]);
+    if (data) {
+      setNotice(data.message || 'Questions added');
+      await fetchCourse();
+    }
+  };
+
+  const deleteCourse = async () => {
+    const data = await runAction(
+      fetch(`/api/courses/${id}`, { method: 'DELETE' }),
+      'Failed to delete course'
+    );
+    setDeleteOpen(false);
+    if (data) {
+      router.push('/instructor/courses');
+    }
+  };
+
+  const togglePicked = (questionId: string) => {
+    setPicked((prev) =>
+      prev.includes(questionId) ? prev.filter((q) => q !== questionId) : [...prev, questionId]
+    );
+  };
+
+  const available = bank.filter((q) => !pool.some((p) => p.id === q.id));
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900">
+        <div className="container mx-auto px-4 py-8 max-w-4xl space-y-4">
+          <Skeleton className="h-10 w-64" />
+          <Skeleton className="h-48 w-full rounded-lg" />
+          <Skeleton className="h-48 w-full rounded-lg" />
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900">
+      {/* Header */}
+      <nav className="border-b border-slate-700 bg-slate-800/50 backdrop-blur-sm sticky top-0 z-50">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <Link href="/instructor/courses">
+                <Button variant="ghost" size="icon" className="text-slate-400 hover:text-slate-100">
+                  <ArrowLeft className="h-5 w-5" />
+                </Button>
+              </Link>
+              <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-emerald-500/10">
+                <GraduationCap className="h-5 w-5 text-emerald-500" />
+              </div>
+              <h1 className="text-xl font-bold text-slate-100">{course?.name ?? 'Course'}</h1>
+            </div>
+            {course && (
+              <Button
+                variant="ghost"
+                onClick={() => setDeleteOpen(true)}
+                className="text-red-400 hover:text-red-300 hover:bg-red-500/10"
+              >
+                <Trash2 className="h-4 w-4 mr-2" />
+                Delete Course
+              </Button>
+            )}
+          </div>
+        </div>
+      </nav>
+
+      <div className="container mx-auto px-4 py-8 max-w-4xl space-y-6">
+        {error && (
+          <div className="rounded-md bg-red-500/10 border border-red-500/20 p-4 text-sm text-red-400">
+            {error}
+          </div>
+        )}
+        {notice && (
+          <div className="rounded-md bg-emerald-500/10 border border-emerald-500/20 p-4 text-sm text-emerald-400">
+            {notice}
+          </div>
+        )}
+
+        {course && (
+          <>
+            {/* Details & Join Code */}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              <Card className="border-slate-700 bg-slate-800/50 md:col-span-2">
+                <CardHeader>
+                  <CardTitle className="text-slate-100">Details</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <form onSubmit={saveDetails} className="space-y-4">
+                    <div className="space-y-2">
+                      <Label className="text-slate-200">Name</Label>
+                      <Input
+                        value={name}
+                        onChange={(e) => setName(e.target.value)}
+                        required
+                        minLength={3}
+                        maxLength={100}
+                        className="border-slate-600 bg-slate-700/50 text-slate-100 focus-visible:ring-emerald-500"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label className="text-slate-200">Description (Optional)</Label>
+                      <Textarea
+                        value={description}
+                        onChange={(e) => setDescription(e.target.value)}
+                        maxLength={1000}
+                        rows={2}
+                        className="border-slate-600 bg-slate-700/50 text-slate-100 focus-visible:ring-emerald-500"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label className="text-slate-200">Leaderboard Privacy</Label>
+                      <Select
+                        value={leaderboardPolicy}
+                        onValueChange={(value) => setLeaderboardPolicy(value as CourseLeaderboardPolicy)}
+                      >
+                        <SelectTrigger className="border-slate-600 bg-slate-700/50 text-slate-100">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent className="bg-slate-800 border-slate-700">
+                          {(Object.keys(POLICY_LABELS) as CourseLeaderboardPolicy[]).map((value) => (
+                            <SelectItem key={value} value={value} className="text-slate-100">
+                              {POLICY_LABELS[value]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <p className="text-xs text-slate-500">
+                        Applies to this course&apos;s leaderboard. Students can always choose more privacy
+                      </p>
+                    </div>
+                    <Button
+                      type="submit"
+                      disabled={saving}
+                      className="bg-emerald-600 hover:bg-emerald-700 text-white"
+                    >
+                      {saving ? 'Saving...' : 'Save Changes'}
+                    </Button>
+                  </form>
+                </CardContent>
+              </Card>
+
+              <Card className="border-slate-700 bg-slate-800/50">
+                <CardHeader>
+                  <CardTitle className="text-slate-100">Join Code</CardTitle>
+                  <CardDescription className="text-slate-400">
+                    Students enter this code to join the course
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  <div className="flex items-center justify-between gap-3 rounded-md border border-emerald-500/20 bg-emerald-500/10 p-3">
+                    <code className="font-mono text-lg tracking-widest text-emerald-300">{course.joinCode}</code>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={copyCode}
+                      className="text-emerald-300 hover:text-emerald-200 hover:bg-emerald-500/10"
+                    >
+                      {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+                    </Button>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={regenerateCode}
+                    className="w-full border-slate-600 text-slate-300 hover:bg-slate-700"
+                  >
+                    <RefreshCw className="h-4 w-4 mr-2" />
+                    Regenerate
+                  </Button>
+                  <p className="text-xs text-slate-500">
+                    Enrolled students stay enrolled when the code changes
+                  </p>
+                </CardContent>
+              </Card>
+            </div>
+
+            {/* Students */}
+            <Card className="border-slate-700 bg-slate-800/50">
+              <CardHeader>
+                <CardTitle className="text-slate-100">Students</CardTitle>
+                <CardDescription className="text-slate-400">
+                  {students.length} enrolled · results count answers to this course&apos;s questions
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="p-0">
+                <Table>
+                  <TableHeader>
+                    <TableRow className="border-slate-700 hover:bg-transparent">
+                      <TableHead className="text-slate-400">Student</TableHead>
+                      <TableHead className="text-slate-400 hidden md:table-cell">Joined</TableHead>
+                      <TableHead className="text-slate-400">Correct</TableHead>
+                      <TableHead className="text-slate-400">Score</TableHead>
+                      <TableHead className="text-slate-400 w-24" />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {students.length === 0 ? (
+                      <TableRow className="border-slate-700">
+                        <TableCell colSpan={5} className="text-center py-8 text-slate-400">
+                          No students yet. Share the join code to get started.
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      students.map((student) => (
+                        <TableRow key={student.studentId} className="border-slate-700 hover:bg-slate-700/30">
+                          <TableCell>
+                            <p className="text-slate-200">{student.studentName}</p>
+                            <p className="text-xs text-slate-500">{student.email}</p>
+                          </TableCell>
+                          <TableCell className="text-slate-400 hidden md:table-cell">
+                            {new Date(student.enrolledAt).toLocaleDateString()}
+                          </TableCell>
+                          <TableCell className="text-slate-300">
+                            {student.correctAttempts}/{student.totalAttempts}
+                          </TableCell>
+                          <TableCell className="text-slate-300">{student.totalScore}</TableCell>
+                          <TableCell className="text-right">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => removeStudent(student)}
+                              className="text-red-400 hover:text-red-300 hover:bg-red-500/10"
+                            >
+                              Remove
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+
+            {/* Question Pool */}
+            <Card className="border-slate-700 bg-slate-800/50">
+              <CardHeader className="flex flex-row items-start justify-between gap-4">
+                <div className="space-y-1.5">
+                  <CardTitle className="text-slate-100">Question Pool</CardTitle>
+                  <CardDescription className="text-slate-400">
+                    Random questions for this course&apos;s students are drawn from these questions
+                  </CardDescription>
+                </div>
+                <Button
+                  onClick={() => setAddOpen(true)}
+                  className="bg-emerald-600 hover:bg-emerald-700 text-white"
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Questions
+                </Button>
+              </CardHeader>
+              <CardContent>
+                {pool.length === 0 ? (
+                  <p className="text-sm text-slate-500">No questions in this course yet.</p>
+                ) : (
+                  <div className="space-y-2">
+                    {pool.map((question) => (
+                      <div key={question.id} className="flex items-center gap-3 rounded-md border border-slate-700 p-3">
+                        <p className="flex-1 text-sm text-slate-200 truncate">{question.questionText}</p>
+                        <Badge variant="outline" className="border-slate-600 text-slate-300">
+                          {question.difficulty}
+                        </Badge>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => removeQuestion(question)}
+                          className="text-slate-400 hover:text-red-400"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+
+      {/* Add Questions Dialog */}
+      <Dialog open={addOpen} onOpenChange={(open) => { setAddOpen(open); if (!open) setPicked([]); }}>
+        <DialogContent className="bg-slate-800 border-slate-700 max-w-2xl">
+          <DialogHeader>
+            <DialogTitle className="text-slate-100">Add questions</DialogTitle>
+            <DialogDescription className="text-slate-400">
+              Pick from your question bank. A question can belong to several of your courses.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-slate-400" />
+            <Input
+              placeholder="Search questions..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="pl-10 border-slate-600 bg-slate-700/50 text-slate-100 placeholder:text-slate-500"
+            />
+          </div>
+          <div className="space-y-2 max-h-80 overflow-y-auto">
+            {bankLoading ? (
+              Array.from({ length: 3 }).map((_, i) => <Skeleton key={i} className="h-10 w-full" />)
+            ) : available.length === 0 ? (
+              <p className="text-sm text-slate-500">No more questions to add.</p>
+            ) : (
+              available.map((question) => (
+                <button
+                  key={question.id}
+                  type="button"
+                  onClick={() => togglePicked(question.id)}
+                  className={`flex w-full items-center gap-3 rounded-md border p-3 text-left ${
+                    picked.includes(question.id)
+                      ? 'border-emerald-500/50 bg-emerald-500/10'
+                      : 'border-slate-700 hover:bg-slate-700/30'
+                  }`}
+                >
+                  {picked.includes(question.id) ? (
+                    <Check className="h-4 w-4 text-emerald-400" />
+                  ) : (
+                    <Plus className="h-4 w-4 text-slate-500" />
+                  )}
+                  <span className="flex-1 text-sm text-slate-200 truncate">{question.questionText}</span>
+                  <Badge variant="outline" className="border-slate-600 text-slate-300">
+                    {question.difficulty}
+                  </Badge>
+                </button>
+              ))
+            )}
+          </div>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setAddOpen(false)}
+              className="border-slate-600 text-slate-300 hover:bg-slate-700"
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={addQuestions}
+              disabled={picked.length === 0}
+              className="bg-emerald-600 hover:bg-emerald-700 text-white"
+            >
+              Add {picked.length > 0 ? picked.length : ''} {picked.length === 1 ? 'Question' : 'Questions'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation Dialog */}
+      <Dialog open={deleteOpen} onOpenChange={setDeleteOpen}>
+        <DialogContent className="bg-slate-800 border-slate-700">
+          <DialogHeader>
+            <DialogTitle className="text-slate-100">Delete {course?.name}?</DialogTitle>
+            <DialogDescription className="text-slate-400">
+              Students are unenrolled and the course&apos;s quizzes stop being delivered until you assign
+              them to another course. Questions and past attempts are kept.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setDeleteOpen(false)}
+              className="border-slate-600 text-slate-300 hover:bg-slate-700"
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={deleteCourse}
+              className="bg-red-600 hover:bg-red-700 text-white"
+            >
+              Delete
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
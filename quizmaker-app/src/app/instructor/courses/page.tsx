@@ -0,0 +1,213 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { ArrowLeft, GraduationCap, Plus } from 'lucide-react';
+
+interface Course {
+  id: string;
+  name: string;
+  description: string | null;
+  joinCode: string | null;
+  studentCount: number;
+  questionCount: number;
+  createdAt: string;
+}
+
+export default function CoursesPage() {
+  const [courses, setCourses] = useState<Course[]>([]);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [creating, setCreating] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    fetchCourses();
+  }, []);
+
+  const fetchCourses = async () => {
+    try {
+      const response = await fetch('/api/courses');
+      const data = await response.json() as { success: boolean; message?: string; courses: Course[] };
+
+      if (data.success) {
+        setCourses(data.courses);
+      } else {
+        setError(data.message || 'Failed to load courses');
+      }
+    } catch (error) {
+      console.error('Failed to fetch courses:', error);
+      setError('Failed to load courses');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const createCourse = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setCreating(true);
+    setError('');
+
+    try {
+      const response = await fetch('/api/courses/create', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, description: description || undefined }),
+      });
+      const data = await response.json() as { success: boolean; message?: string; course: Course };
+
+      if (!data.success) {
+        setError(data.message || 'Failed to create course');
+        return;
+      }
+
+      setCourses((prev) => [...prev, data.course].sort((a, b) => a.name.localeCompare(b.name)));
+      setName('');
+      setDescription('');
+    } catch (error) {
+      console.error('Failed to create course:', error);
+      setError('Failed to create course');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900">
+      {/* Header */}
+      <nav className="border-b border-slate-700 bg-slate-800/50 backdrop-blur-sm sticky top-0 z-50">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center gap-3">
+            <Link href="/instructor/dashboard">
+              <Button variant="ghost" size="icon" className="text-slate-400 hover:text-slate-100">
+                <ArrowLeft className="h-5 w-5" />
+              </Button>
+            </Link>
+            <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-emerald-500/10">
+              <GraduationCap className="h-5 w-5 text-emerald-500" />
+            </div>
+            <h1 className="text-xl font-bold text-slate-100">Courses</h1>
+          </div>
+        </div>
+      </nav>
+
+      <div className="container mx-auto px-4 py-8 max-w-4xl space-y-6">
+        <Card className="border-slate-700 bg-slate-800/50">
+          <CardHeader>
+            <CardTitle className="text-slate-100">Create a course</CardTitle>
+            <CardDescription className="text-slate-400">
+              Students join with the course&apos;s join code and only practise the questions you add to it
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={createCourse} className="space-y-4">
+              <div className="space-y-2">
+                <Label className="text-slate-200">Name</Label>
+                <Input
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  required
+                  minLength={3}
+                  maxLength={100}
+                  className="border-slate-600 bg-slate-700/50 text-slate-100 placeholder:text-slate-500 focus-visible:ring-emerald-500"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label className="text-slate-200">Description (Optional)</Label>
+                <Textarea
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                  maxLength={1000}
+                  rows={2}
+                  className="border-slate-600 bg-slate-700/50 text-slate-100 placeholder:text-slate-500 focus-visible:ring-emerald-500"
+                />
+              </div>
+              <Button
+                type="submit"
+                disabled={creating}
+                className="bg-emerald-600 hover:bg-emerald-700 text-white"
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                {creating ? 'Creating...' : 'Create Course'}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        <Card className="border-slate-700 bg-slate-800/50">
+          <CardHeader>
+            <CardTitle className="text-slate-100">Your courses</CardTitle>
+          </CardHeader>
+          <CardContent className="p-0">
+            {error && (
+              <p className="px-6 pb-4 text-sm text-red-400">{error}</p>
+            )}
+            <Table>
+              <TableHeader>
+                <TableRow className="border-slate-700 hover:bg-transparent">
+                  <TableHead className="text-slate-400">Name</TableHead>
+                  <TableHead className="text-slate-400">Join Code</TableHead>
+                  <TableHead className="text-slate-400">Students</TableHead>
+                  <TableHead className="text-slate-400">Questions</TableHead>
+                  <TableHead className="text-slate-400 w-24" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {loading ? (
+                  Array.from({ length: 3 }).map((_, i) => (
+                    <TableRow key={i} className="border-slate-700">
+                      <TableCell><Skeleton className="h-4 w-40" /></TableCell>
+                      <TableCell><Skeleton className="h-4 w-20" /></TableCell>
+                      <TableCell><Skeleton className="h-4 w-8" /></TableCell>
+                      <TableCell><Skeleton className="h-4 w-8" /></TableCell>
+                      <TableCell><Skeleton className="h-8 w-16" /></TableCell>
+                    </TableRow>
+                  ))
+                ) : courses.length === 0 ? (
+                  <TableRow className="border-slate-700">
+                    <TableCell colSpan={5} className="text-center py-8 text-slate-400">
+                      No courses yet. Create your first course!
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  courses.map((course) => (
+                    <TableRow key={course.id} className="border-slate-700 hover:bg-slate-700/30">
+                      <TableCell className="text-slate-200 max-w-xs truncate">{course.name}</TableCell>
+                      <TableCell>
+                        <code className="font-mono text-sm text-emerald-300">{course.joinCode ?? '—'}</code>
+                      </TableCell>
+                      <TableCell className="text-slate-300">{course.studentCount}</TableCell>
+                      <TableCell className="text-slate-300">{course.questionCount}</TableCell>
+                      <TableCell className="text-right">
+                        <Link href={`/instructor/courses/${course.id}`}>
+                          <Button variant="ghost" size="sm" className="text-slate-300 hover:text-slate-100 hover:bg-slate-700">
+                            Manage
+                          </Button>
+                        </Link>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
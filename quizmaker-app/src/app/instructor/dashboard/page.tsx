@@ -23,6 +23,12 @@ import {
   User,
   ChevronDown,
   FileQuestion,
+  ClipboardList,
+  MonitorSmartphone,
+  Ticket,
+  ShieldCheck,
+  ScrollText,
+  GraduationCap,
 } from 'lucide-react';
 
 interface User {
@@ -112,6 +118,32 @@ export default function InstructorDashboard() {
                   <p className="text-xs text-slate-400">{user?.email}</p>
                 </div>
                 <DropdownMenuSeparator className="bg-slate-700" />
+                {user?.role === 'admin' && (
+                  <DropdownMenuItem asChild>
+                    <Link href="/admin" className="text-slate-200 focus:bg-slate-700 cursor-pointer">
+                      <ShieldCheck className="h-4 w-4 mr-2" />
+                      Admin Console
+                    </Link>
+                  </DropdownMenuItem>
+                )}
+                <DropdownMenuItem asChild>
+                  <Link href="/instructor/invites" className="text-slate-200 focus:bg-slate-700 cursor-pointer">
+                    <Ticket className="h-4 w-4 mr-2" />
+                    Instructor Invites
+                  </Link>
+                </DropdownMenuItem>
+                <DropdownMenuItem asChild>
+                  <Link href="/instructor/audit" className="text-slate-200 focus:bg-slate-700 cursor-pointer">
+                    <ScrollText className="h-4 w-4 mr-2" />
+                    Audit Log
+                  </Link>
+                </DropdownMenuItem>
+                <DropdownMenuItem asChild>
+                  <Link href="/account/sessions" className="text-slate-200 focus:bg-slate-700 cursor-pointer">
+                    <MonitorSmartphone className="h-4 w-4 mr-2" />
+                    Active Sessions
+                  </Link>
+                </DropdownMenuItem>
                 <DropdownMenuItem 
                   onClick={handleLogout}
                   className="text-red-400 focus:text-red-400 focus:bg-red-500/10 cursor-pointer"
@@ -222,6 +254,44 @@ export default function InstructorDashboard() {
               </Link>
             </CardContent>
           </Card>
+
+          <Card className="border-slate-700 bg-slate-800/50">
+            <CardHeader>
+              <CardTitle className="text-slate-100 flex items-center gap-2">
+                <GraduationCap className="h-5 w-5 text-emerald-500" />
+                Courses
+              </CardTitle>
+              <CardDescription className="text-slate-400">
+                Share join codes with your students and choose the questions each course draws from
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Link href="/instructor/courses">
+                <Button variant="outline" className="w-full border-slate-600 text-slate-300 hover:bg-slate-700">
+                  Manage Courses
+                </Button>
+              </Link>
+            </CardContent>
+          </Card>
+
+          <Card className="border-slate-700 bg-slate-800/50">
+            <CardHeader>
+              <CardTitle className="text-slate-100 flex items-center gap-2">
+                <ClipboardList className="h-5 w-5 text-amber-500" />
+                Quizzes
+              </CardTitle>
+              <CardDescription className="text-slate-400">
+                Assemble your questions into ordered quizzes and publish them to students
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Link href="/instructor/quizzes">
+                <Button variant="outline" className="w-full border-slate-600 text-slate-300 hover:bg-slate-700">
+                  Manage Quizzes
+                </Button>
+              </Link>
+            </CardContent>
+          </Card>
         </div>
 
         {/* Categories List */}
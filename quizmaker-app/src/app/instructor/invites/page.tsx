@@ -0,0 +1,284 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  ArrowLeft,
+  Copy,
+  Check,
+  Ticket,
+  Plus,
+} from 'lucide-react';
+
+interface Invite {
+  id: string;
+  role: 'instructor';
+  status: 'active' | 'used' | 'expired' | 'revoked';
+  createdAt: string;
+  expiresAt: string;
+  usedAt: string | null;
+  usedByName: string | null;
+}
+
+const LIFETIME_CHOICES = ['1', '7', '14', '30'];
+
+export default function InvitesPage() {
+  const [invites, setInvites] = useState<Invite[]>([]);
+  const [expiresInDays, setExpiresInDays] = useState('7');
+  const [newCode, setNewCode] = useState('');
+  const [copied, setCopied] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [creating, setCreating] = useState(false);
+  const [revoking, setRevoking] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    fetchInvites();
+  }, []);
+
+  const fetchInvites = async () => {
+    try {
+      const response = await fetch('/api/invites');
+      const data = await response.json() as { success: boolean; message?: string; invites: Invite[] };
+
+      if (data.success) {
+        setInvites(data.invites);
+      } else {
+        setError(data.message || 'Failed to load invites');
+      }
+    } catch (error) {
+      console.error('Failed to fetch invites:', error);
+      setError('Failed to load invites');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const createInvite = async () => {
+    setCreating(true);
+    setError('');
+    setCopied(false);
+
+    try {
+      const response = await fetch('/api/invites', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ expiresInDays: parseInt(expiresInDays, 10) }),
+      });
+      const data = await response.json() as { success: boolean; message?: string; invite: Invite; code: string };
+
+      if (!data.success) {
+        setError(data.message || 'Failed to create invite');
+        return;
+      }
+
+      setNewCode(data.code);
+      setInvites((prev) => [data.invite, ...prev]);
+    } catch (error) {
+      console.error('Failed to create invite:', error);
+      setError('Failed to create invite');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const revokeInvite = async (invite: Invite) => {
+    setRevoking(invite.id);
+    setError('');
+
+    try {
+      const response = await fetch(`/api/invites/${invite.id}`, { method: 'DELETE' });
+      const data = await response.json() as { success: boolean; message?: string };
+
+      if (!data.success) {
+        setError(data.message || 'Failed to revoke invite');
+        return;
+      }
+
+      setInvites((prev) => prev.map((i) => (i.id === invite.id ? { ...i, status: 'revoked' } : i)));
+    } catch (error) {
+      console.error('Failed to revoke invite:', error);
+      setError('Failed to revoke invite');
+    } finally {
+      setRevoking(null);
+    }
+  };
+
+  const copyCode = async () => {
+    await navigator.clipboard.writeText(newCode);
+    setCopied(true);
+  };
+
+  const formatDate = (value: string) => new Date(value).toLocaleString();
+
+  const getStatusColor = (status: Invite['status']) => {
+    switch (status) {
+      case 'active':
+        return 'border-emerald-500/30 text-emerald-400';
+      case 'used':
+        return 'border-blue-500/30 text-blue-400';
+      default:
+        return 'border-slate-500/30 text-slate-400';
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900">
+      {/* Header */}
+      <nav className="border-b border-slate-700 bg-slate-800/50 backdrop-blur-sm sticky top-0 z-50">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center gap-3">
+            <Link href="/instructor/dashboard">
+              <Button variant="ghost" size="icon" className="text-slate-400 hover:text-slate-100">
+                <ArrowLeft className="h-5 w-5" />
+              </Button>
+            </Link>
+            <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-emerald-500/10">
+              <Ticket className="h-5 w-5 text-emerald-500" />
+            </div>
+            <h1 className="text-xl font-bold text-slate-100">Instructor Invites</h1>
+          </div>
+        </div>
+      </nav>
+
+      <div className="container mx-auto px-4 py-8 max-w-4xl space-y-6">
+        <Card className="border-slate-700 bg-slate-800/50">
+          <CardHeader className="flex flex-col gap-4 md:flex-row md:items-start md:justify-between">
+            <div className="space-y-1.5">
+              <CardTitle className="text-slate-100">Invite an instructor</CardTitle>
+              <CardDescription className="text-slate-400">
+                Each code creates one instructor account, or upgrades one student account. Codes are shown only once.
+              </CardDescription>
+            </div>
+            <div className="flex gap-2">
+              <Select value={expiresInDays} onValueChange={setExpiresInDays}>
+                <SelectTrigger className="w-32 border-slate-600 bg-slate-700/50 text-slate-100 focus:ring-emerald-500">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="border-slate-600 bg-slate-800">
+                  {LIFETIME_CHOICES.map((days) => (
+                    <SelectItem key={days} value={days} className="text-slate-100 focus:bg-slate-700">
+                      {days === '1' ? '1 day' : `${days} days`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                onClick={createInvite}
+                disabled={creating}
+                className="bg-emerald-600 hover:bg-emerald-700 text-white"
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                {creating ? 'Creating...' : 'Create Invite'}
+              </Button>
+            </div>
+          </CardHeader>
+          {newCode && (
+            <CardContent>
+              <div className="flex items-center justify-between gap-3 rounded-md border border-emerald-500/20 bg-emerald-500/10 p-3">
+                <code className="font-mono text-sm text-emerald-300 break-all">{newCode}</code>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={copyCode}
+                  className="text-emerald-300 hover:text-emerald-200 hover:bg-emerald-500/10"
+                >
+                  {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+                </Button>
+              </div>
+              <p className="mt-2 text-xs text-slate-500">
+                Share this code with the new instructor. They enter it on the sign up page.
+              </p>
+            </CardContent>
+          )}
+        </Card>
+
+        <Card className="border-slate-700 bg-slate-800/50">
+          <CardHeader>
+            <CardTitle className="text-slate-100">Your invites</CardTitle>
+          </CardHeader>
+          <CardContent className="p-0">
+            {error && (
+              <p className="px-6 pb-4 text-sm text-red-400">{error}</p>
+            )}
+            <Table>
+              <TableHeader>
+                <TableRow className="border-slate-700 hover:bg-transparent">
+                  <TableHead className="text-slate-400">Status</TableHead>
+                  <TableHead className="text-slate-400">Created</TableHead>
+                  <TableHead className="text-slate-400 hidden md:table-cell">Expires</TableHead>
+                  <TableHead className="text-slate-400">Used By</TableHead>
+                  <TableHead className="text-slate-400 w-24" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {loading ? (
+                  Array.from({ length: 3 }).map((_, i) => (
+                    <TableRow key={i} className="border-slate-700">
+                      <TableCell><Skeleton className="h-5 w-16" /></TableCell>
+                      <TableCell><Skeleton className="h-4 w-28" /></TableCell>
+                      <TableCell className="hidden md:table-cell"><Skeleton className="h-4 w-28" /></TableCell>
+                      <TableCell><Skeleton className="h-4 w-24" /></TableCell>
+                      <TableCell><Skeleton className="h-8 w-16" /></TableCell>
+                    </TableRow>
+                  ))
+                ) : invites.length === 0 ? (
+                  <TableRow className="border-slate-700">
+                    <TableCell colSpan={5} className="text-center py-8 text-slate-400">
+                      No invites yet
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  invites.map((invite) => (
+                    <TableRow key={invite.id} className="border-slate-700 hover:bg-slate-700/30">
+                      <TableCell>
+                        <Badge variant="outline" className={`capitalize ${getStatusColor(invite.status)}`}>
+                          {invite.status}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-slate-400">{formatDate(invite.createdAt)}</TableCell>
+                      <TableCell className="text-slate-400 hidden md:table-cell">{formatDate(invite.expiresAt)}</TableCell>
+                      <TableCell className="text-slate-200">{invite.usedByName ?? '—'}</TableCell>
+                      <TableCell className="text-right">
+                        {invite.status === 'active' && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => revokeInvite(invite)}
+                            disabled={revoking !== null}
+                            className="text-red-400 hover:text-red-300 hover:bg-red-500/10"
+                          >
+                            Revoke
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
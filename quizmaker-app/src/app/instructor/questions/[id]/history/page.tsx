@@ -0,0 +1,344 @@
+'use client';
+
+import { useState, useEffect, use, useCallback } from 'react';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  ArrowLeft,
+  History,
+  RotateCcw,
+  ChevronDown,
+  ChevronUp,
+  CheckCircle2,
+  Circle,
+} from 'lucide-react';
+
+interface VersionSnapshot {
+  questionType: string;
+  scoringMode: string;
+  questionText: string;
+  category: string | null;
+  difficulty: 'easy' | 'medium' | 'hard';
+  points: number;
+  timeLimitSeconds: number | null;
+  options: Array<{
+    id: string;
+    optionText: string;
+    isCorrect: boolean;
+    optionOrder: number;
+  }>;
+  numericAnswer: number | null;
+  numericTolerance: number | null;
+  acceptedAnswers: string[];
+}
+
+interface QuestionVersion {
+  id: string;
+  versionNumber: number;
+  snapshot: VersionSnapshot;
+  createdByName: string | null;
+  restoredFrom: number | null;
+  createdAt: string;
+  isCurrent: boolean;
+  changes: Record<string, { before: unknown; after: unknown }>;
+}
+
+export default function QuestionHistoryPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = use(params);
+  const [versions, setVersions] = useState<QuestionVersion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [restoreTarget, setRestoreTarget] = useState<QuestionVersion | null>(null);
+  const [restoring, setRestoring] = useState(false);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+
+  const fetchVersions = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/questions/${id}/versions`);
+      const data = await response.json() as { success: boolean; versions?: QuestionVersion[]; message?: string };
+
+      if (data.success && data.versions) {
+        setVersions(data.versions);
+      } else {
+        setError(data.message || 'Failed to load version history');
+      }
+    } catch {
+      setError('Failed to load version history');
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    fetchVersions();
+  }, [fetchVersions]);
+
+  const handleRestore = async () => {
+    if (!restoreTarget) return;
+
+    setRestoring(true);
+    setError('');
+    setNotice('');
+    try {
+      const response = await fetch(`/api/questions/${id}/versions/${restoreTarget.id}/restore`, {
+        method: 'POST',
+      });
+      const data = await response.json() as { success: boolean; message?: string };
+
+      if (data.success) {
+        setNotice(`Restored version ${restoreTarget.versionNumber}`);
+        await fetchVersions();
+      } else {
+        setError(data.message || 'Failed to restore version');
+      }
+    } catch {
+      setError('Failed to restore version');
+    } finally {
+      setRestoring(false);
+      setRestoreTarget(null);
+    }
+  };
+
+  const formatDate = (value: string) => new Date(value).toLocaleString();
+
+  const formatValue = (value: unknown) => {
+    if (value === null || value === undefined) {
+      return '—';
+    }
+    if (Array.isArray(value)) {
+      return value
+        .map((item) =>
+          typeof item === 'object' && item !== null && 'optionText' in item
+            ? `${(item as { optionText: string }).optionText}${(item as { isCorrect: boolean }).isCorrect ? ' ✓' : ''}`
+            : String(item)
+        )
+        .join(', ') || '—';
+    }
+    return typeof value === 'string' ? value : JSON.stringify(value);
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900">
+        <nav className="border-b border-slate-700 bg-slate-800/50 backdrop-blur-sm">
+          <div className="container mx-auto px-4 py-4">
+            <div className="flex items-center gap-3">
+              <Skeleton className="h-10 w-10 rounded-lg" />
+              <Skeleton className="h-6 w-48" />
+            </div>
+          </div>
+        </nav>
+        <div className="container mx-auto px-4 py-8 max-w-3xl space-y-4">
+          <Skeleton className="h-40 w-full rounded-lg" />
+          <Skeleton className="h-40 w-full rounded-lg" />
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900">
+      {/* Header */}
+      <nav className="border-b border-slate-700 bg-slate-800/50 backdrop-blur-sm sticky top-0 z-50">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center gap-3">
+            <Link href={`/instructor/questions/${id}`}>
+              <Button variant="ghost" size="icon" className="text-slate-400 hover:text-slate-100">
+                <ArrowLeft className="h-5 w-5" />
+              </Button>
+            </Link>
+            <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-emerald-500/10">
+              <History className="h-5 w-5 text-emerald-500" />
+            </div>
+            <h1 className="text-xl font-bold text-slate-100">Version History</h1>
+          </div>
+        </div>
+      </nav>
+
+      <div className="container mx-auto px-4 py-8 max-w-3xl space-y-4">
+        <p className="text-sm text-slate-400">
+          Every edit stores a new version. Past attempts keep showing the version that was answered.
+          Restoring an earlier version saves it as a new version.
+        </p>
+
+        {error && (
+          <div className="rounded-md bg-red-500/10 border border-red-500/20 p-4 text-sm text-red-400">
+            {error}
+          </div>
+        )}
+        {notice && (
+          <div className="rounded-md bg-emerald-500/10 border border-emerald-500/20 p-4 text-sm text-emerald-400">
+            {notice}
+          </div>
+        )}
+
+        {versions.map((version) => {
+          const changedFields = Object.entries(version.changes);
+          const isFirst = version.versionNumber === 1;
+
+          return (
+            <Card key={version.id} className="border-slate-700 bg-slate-800/50">
+              <CardHeader>
+                <div className="flex items-start justify-between gap-4">
+                  <div className="space-y-1">
+                    <CardTitle className="text-slate-100 flex items-center gap-2">
+                      Version {version.versionNumber}
+                      {version.isCurrent && (
+                        <Badge variant="outline" className="border-emerald-500/30 text-emerald-400">
+                          Current
+                        </Badge>
+                      )}
+                      {version.restoredFrom !== null && (
+                        <Badge variant="outline" className="border-amber-500/30 text-amber-400">
+                          Restored from v{version.restoredFrom}
+                        </Badge>
+                      )}
+                    </CardTitle>
+                    <CardDescription className="text-slate-400">
+                      {isFirst ? 'Created' : 'Edited'} by {version.createdByName ?? 'Deleted user'} on{' '}
+                      {formatDate(version.createdAt)}
+                    </CardDescription>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {!version.isCurrent && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setRestoreTarget(version)}
+                        className="border-slate-600 text-slate-300 hover:bg-slate-700"
+                      >
+                        <RotateCcw className="h-4 w-4 mr-2" />
+                        Restore
+                      </Button>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setExpanded(expanded === version.id ? null : version.id)}
+                      className="text-slate-400 hover:text-slate-100"
+                    >
+                      {expanded === version.id ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                    </Button>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {/* Diff from the previous version */}
+                {!isFirst && (
+                  changedFields.length > 0 ? (
+                    <div className="space-y-1">
+                      {changedFields.map(([field, change]) => (
+                        <div key={field} className="grid grid-cols-1 md:grid-cols-[10rem_1fr_1fr] gap-2 text-sm">
+                          <span className="font-medium text-slate-300">{field}</span>
+                          <span className="text-red-400 break-all line-through decoration-red-400/50">
+                            {formatValue(change.before)}
+                          </span>
+                          <span className="text-emerald-400 break-all">{formatValue(change.after)}</span>
+                        </div>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-sm text-slate-500">No changes from the previous version</p>
+                  )
+                )}
+
+                {/* Full question as of this version */}
+                {(isFirst || expanded === version.id) && (
+                  <div className="rounded-md border border-slate-700 bg-slate-900/40 p-4 space-y-3">
+                    <p className="text-slate-200">{version.snapshot.questionText}</p>
+                    <div className="flex flex-wrap gap-2 text-xs">
+                      <Badge variant="outline" className="border-slate-600 text-slate-300">
+                        {version.snapshot.questionType.replace('_', ' ')}
+                      </Badge>
+                      <Badge variant="outline" className="border-slate-600 text-slate-300">
+                        {version.snapshot.difficulty}
+                      </Badge>
+                      <Badge variant="outline" className="border-slate-600 text-slate-300">
+                        {version.snapshot.points} {version.snapshot.points === 1 ? 'point' : 'points'}
+                      </Badge>
+                      {version.snapshot.category && (
+                        <Badge variant="outline" className="border-slate-600 text-slate-300">
+                          {version.snapshot.category}
+                        </Badge>
+                      )}
+                    </div>
+                    {version.snapshot.options.length > 0 && (
+                      <ul className="space-y-1">
+                        {version.snapshot.options.map((option) => (
+                          <li key={option.id} className="flex items-center gap-2 text-sm">
+                            {option.isCorrect ? (
+                              <CheckCircle2 className="h-4 w-4 text-emerald-500" />
+                            ) : (
+                              <Circle className="h-4 w-4 text-slate-600" />
+                            )}
+                            <span className={option.isCorrect ? 'text-emerald-400' : 'text-slate-300'}>
+                              {option.optionText}
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                    {version.snapshot.questionType === 'numeric' && (
+                      <p className="text-sm text-slate-300">
+                        Answer: {version.snapshot.numericAnswer}
+                        {version.snapshot.numericTolerance ? ` (± ${version.snapshot.numericTolerance})` : ''}
+                      </p>
+                    )}
+                    {version.snapshot.questionType === 'short_text' && (
+                      <p className="text-sm text-slate-300">
+                        Accepted: {version.snapshot.acceptedAnswers.join(' / ')}
+                      </p>
+                    )}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+
+      {/* Restore Confirmation Dialog */}
+      <Dialog open={restoreTarget !== null} onOpenChange={(open) => { if (!open) setRestoreTarget(null); }}>
+        <DialogContent className="bg-slate-800 border-slate-700">
+          <DialogHeader>
+            <DialogTitle className="text-slate-100">
+              Restore version {restoreTarget?.versionNumber}?
+            </DialogTitle>
+            <DialogDescription className="text-slate-400">
+              The question will be saved as a new version with this version&apos;s content.
+              Students answer the restored version from now on; past attempts are unchanged.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setRestoreTarget(null)}
+              className="border-slate-600 text-slate-300 hover:bg-slate-700"
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={handleRestore}
+              disabled={restoring}
+              className="bg-emerald-600 hover:bg-emerald-700 text-white"
+            >
+              {restoring ? 'Restoring...' : 'Restore'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -20,8 +20,10 @@ import {
 
 interface QuestionStatistics {
   questionId: string;
+  questionType: 'single_choice' | 'multi_select';
   totalAttempts: number;
   correctAttempts: number;
+  partialCreditAttempts: number;
   successRate: number;
   averageTimeSeconds: number | null;
   optionDistribution: Array<{
@@ -189,6 +191,11 @@ export default function QuestionStatisticsPage({ params }: { params: Promise<{ i
                 </CardHeader>
                 <CardContent>
                   <div className="text-2xl font-bold text-green-400">{stats.correctAttempts}</div>
+                  {stats.partialCreditAttempts > 0 && (
+                    <p className="text-xs text-slate-500 mt-1">
+                      +{stats.partialCreditAttempts} partial credit
+                    </p>
+                  )}
                 </CardContent>
               </Card>
 
@@ -230,7 +237,9 @@ export default function QuestionStatisticsPage({ params }: { params: Promise<{ i
               <CardHeader>
                 <CardTitle className="text-slate-100">Answer Distribution</CardTitle>
                 <CardDescription className="text-slate-400">
-                  How students answered this question
+                  {stats.questionType === 'multi_select'
+                    ? 'How often each option was selected (students may pick several, so totals can exceed 100%)'
+                    : 'How students answered this question'}
                 </CardDescription>
               </CardHeader>
               <CardContent>
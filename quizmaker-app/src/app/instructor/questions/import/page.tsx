@@ -0,0 +1,352 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Upload, ArrowLeft, CheckCircle2, XCircle, FileCheck, AlertTriangle } from 'lucide-react';
+
+type ImportFormat = 'csv' | 'json' | 'gift' | 'moodle_xml';
+
+interface ImportResponse {
+  success: boolean;
+  message: string;
+  dryRun?: boolean;
+  totalRows?: number;
+  validRows?: number;
+  skippedRows?: number;
+  importedCount?: number;
+  errors?: Array<{ row: number; message: string }>;
+  warnings?: Array<{ row: number; message: string }>;
+}
+
+// What the row number in errors and warnings refers to
+const ROW_LABELS: Record<ImportFormat, string> = {
+  csv: 'Row',
+  json: 'Row',
+  gift: 'Line',
+  moodle_xml: 'Question',
+};
+
+const FORMAT_DESCRIPTIONS: Record<ImportFormat, string> = {
+  csv: 'A header row is required. correct_options lists option numbers (or true/false); separate multiple values with |. Row 2 is the first question.',
+  json: 'An array of questions, or an object with a "questions" array, using the same fields as the create question API. Rows are numbered from 1.',
+  gift: 'Moodle GIFT text. $CATEGORY lines set the category; %weights% make a multi-select question. Essay, matching and description items are skipped with a warning. Questions are numbered by the line they start on.',
+  moodle_xml: 'A Moodle XML export. Multiple choice, true/false, numerical and short answer questions are imported; other types are skipped with a warning. defaultgrade becomes points.',
+};
+
+const CSV_EXAMPLE = `question_text,question_type,category,difficulty,points,option_1,option_2,option_3,option_4,correct_options,numeric_answer,numeric_tolerance,accepted_answers
+What is the capital of France?,single_choice,Geography,easy,1,London,Paris,Berlin,Madrid,2,,,
+Which of these are prime numbers?,multi_select,Math,medium,2,2,4,5,9,1|3,,,
+The Earth orbits the Sun.,true_false,Science,easy,1,,,,,true,,,
+What is the value of pi to two decimals?,numeric,Math,easy,1,,,,,,3.14,0.005,
+Name the largest ocean on Earth.,short_text,Geography,medium,1,,,,,,,,Pacific|Pacific Ocean`;
+
+const JSON_EXAMPLE = `{
+  "questions": [
+    {
+      "questionText": "What is the capital of France?",
+      "questionType": "single_choice",
+      "category": "Geography",
+      "difficulty": "easy",
+      "points": 1,
+      "options": [
+        { "optionText": "London", "isCorrect": false },
+        { "optionText": "Paris", "isCorrect": true },
+        { "optionText": "Berlin", "isCorrect": false },
+        { "optionText": "Madrid", "isCorrect": false }
+      ]
+    }
+  ]
+}`;
+
+const GIFT_EXAMPLE = `$CATEGORY: $course$/top/Geography
+
+::Capital of France:: What is the capital of France? {
+  ~London
+  =Paris
+  ~Berlin
+  ~Madrid
+}
+
+::Primes:: Which of these are prime numbers? {
+  ~%50%2
+  ~%-50%4
+  ~%50%5
+  ~%-50%9
+}
+
+The Earth orbits the Sun. {T}
+
+What is the value of pi to two decimals? {#3.14:0.005}
+
+Name the largest ocean on Earth. {=Pacific =Pacific Ocean}`;
+
+const MOODLE_XML_EXAMPLE = `<?xml version="1.0" encoding="UTF-8"?>
+<quiz>
+  <question type="category">
+    <category><text>$course$/top/Geography</text></category>
+  </question>
+  <question type="multichoice">
+    <name><text>Capital of France</text></name>
+    <questiontext format="html"><text><![CDATA[<p>What is the capital of France?</p>]]></text></questiontext>
+    <defaultgrade>1</defaultgrade>
+    <single>true</single>
+    <answer fraction="0"><text>London</text></answer>
+    <answer fraction="100"><text>Paris</text></answer>
+    <answer fraction="0"><text>Berlin</text></answer>
+    <answer fraction="0"><text>Madrid</text></answer>
+  </question>
+</quiz>`;
+
+const FORMAT_EXAMPLES: Record<ImportFormat, string> = {
+  csv: CSV_EXAMPLE,
+  json: JSON_EXAMPLE,
+  gift: GIFT_EXAMPLE,
+  moodle_xml: MOODLE_XML_EXAMPLE,
+};
+
+export default function ImportQuestionsPage() {
+  const [format, setFormat] = useState<ImportFormat>('csv');
+  const [fileName, setFileName] = useState('');
+  const [content, setContent] = useState('');
+  const [result, setResult] = useState<ImportResponse | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    setResult(null);
+    if (!file) {
+      setFileName('');
+      setContent('');
+      return;
+    }
+
+    setFileName(file.name);
+    const name = file.name.toLowerCase();
+    if (name.endsWith('.json')) {
+      setFormat('json');
+    } else if (name.endsWith('.csv')) {
+      setFormat('csv');
+    } else if (name.endsWith('.xml')) {
+      setFormat('moodle_xml');
+    } else if (name.endsWith('.gift') || name.endsWith('.txt')) {
+      setFormat('gift');
+    }
+    setContent(await file.text());
+  };
+
+  const runImport = async (dryRun: boolean) => {
+    if (!content) return;
+
+    setSubmitting(true);
+    setResult(null);
+
+    try {
+      const response = await fetch('/api/questions/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ format, content, dryRun }),
+      });
+
+      const data = await response.json() as ImportResponse;
+      setResult(data);
+    } catch {
+      setResult({ success: false, message: 'An error occurred. Please try again.' });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900">
+      {/* Header */}
+      <nav className="border-b border-slate-700 bg-slate-800/50 backdrop-blur-sm sticky top-0 z-50">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center gap-3">
+            <Link href="/instructor/questions">
+              <Button variant="ghost" size="icon" className="text-slate-400 hover:text-slate-100">
+                <ArrowLeft className="h-5 w-5" />
+              </Button>
+            </Link>
+            <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-emerald-500/10">
+              <Upload className="h-5 w-5 text-emerald-500" />
+            </div>
+            <h1 className="text-xl font-bold text-slate-100">Import Questions</h1>
+          </div>
+        </div>
+      </nav>
+
+      <div className="container mx-auto px-4 py-8 max-w-4xl">
+        {/* Upload */}
+        <Card className="border-slate-700 bg-slate-800/50 mb-6">
+          <CardHeader>
+            <CardTitle className="text-slate-100">Upload File</CardTitle>
+            <CardDescription className="text-slate-400">
+              Up to 500 questions per file. Nothing is imported unless every row is valid.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2 md:col-span-2">
+                <Label htmlFor="import-file" className="text-slate-200">File</Label>
+                <Input
+                  id="import-file"
+                  type="file"
+                  accept=".csv,.json,.gift,.txt,.xml,text/csv,application/json,text/plain,application/xml,text/xml"
+                  onChange={handleFileChange}
+                  className="border-slate-600 bg-slate-700/50 text-slate-100 file:text-slate-300"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label className="text-slate-200">Format</Label>
+                <Select value={format} onValueChange={(v: ImportFormat) => setFormat(v)}>
+                  <SelectTrigger className="border-slate-600 bg-slate-700/50 text-slate-100">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-slate-800 border-slate-700">
+                    <SelectItem value="csv" className="text-slate-100">CSV</SelectItem>
+                    <SelectItem value="json" className="text-slate-100">JSON</SelectItem>
+                    <SelectItem value="gift" className="text-slate-100">GIFT (Moodle)</SelectItem>
+                    <SelectItem value="moodle_xml" className="text-slate-100">Moodle XML</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="flex gap-3 mt-6">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => runImport(true)}
+                disabled={!content || submitting}
+                className="border-slate-600 text-slate-300 hover:bg-slate-700"
+              >
+                <FileCheck className="h-4 w-4 mr-2" />
+                Validate Only
+              </Button>
+              <Button
+                type="button"
+                onClick={() => runImport(false)}
+                disabled={!content || submitting}
+                className="bg-emerald-600 hover:bg-emerald-700 text-white"
+              >
+                <Upload className="h-4 w-4 mr-2" />
+                {submitting ? 'Working...' : 'Import'}
+              </Button>
+            </div>
+            {fileName && (
+              <p className="text-xs text-slate-500 mt-3">Selected: {fileName}</p>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Result */}
+        {result && (
+          <Card className="border-slate-700 bg-slate-800/50 mb-6">
+            <CardContent className="pt-6">
+              <div
+                className={`rounded-md p-4 flex items-center gap-3 ${
+                  result.success
+                    ? 'bg-emerald-500/10 border border-emerald-500/20 text-emerald-400'
+                    : 'bg-red-500/10 border border-red-500/20 text-red-400'
+                }`}
+              >
+                {result.success ? (
+                  <CheckCircle2 className="h-5 w-5" />
+                ) : (
+                  <XCircle className="h-5 w-5" />
+                )}
+                <span className="text-sm">{result.message}</span>
+              </div>
+
+              {result.success && !result.dryRun && (
+                <Link href="/instructor/questions">
+                  <Button variant="outline" className="mt-4 border-slate-600 text-slate-300 hover:bg-slate-700">
+                    View Questions
+                  </Button>
+                </Link>
+              )}
+
+              {result.errors && result.errors.length > 0 && (
+                <Table className="mt-4">
+                  <TableHeader>
+                    <TableRow className="border-slate-700">
+                      <TableHead className="text-slate-400 w-24">{ROW_LABELS[format]}</TableHead>
+                      <TableHead className="text-slate-400">Error</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {result.errors.map((rowError) => (
+                      <TableRow key={rowError.row} className="border-slate-700">
+                        <TableCell className="text-slate-300">{rowError.row}</TableCell>
+                        <TableCell className="text-red-400">{rowError.message}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+
+              {result.warnings && result.warnings.length > 0 && (
+                <>
+                  <div className="flex items-center gap-2 mt-6 text-sm text-amber-400">
+                    <AlertTriangle className="h-4 w-4" />
+                    Not imported as-is
+                  </div>
+                  <Table className="mt-2">
+                    <TableHeader>
+                      <TableRow className="border-slate-700">
+                        <TableHead className="text-slate-400 w-24">{ROW_LABELS[format]}</TableHead>
+                        <TableHead className="text-slate-400">Warning</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {result.warnings.map((warning, index) => (
+                        <TableRow key={`${warning.row}-${index}`} className="border-slate-700">
+                          <TableCell className="text-slate-300">{warning.row}</TableCell>
+                          <TableCell className="text-amber-400">{warning.message}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Format Reference */}
+        <Card className="border-slate-700 bg-slate-800/50">
+          <CardHeader>
+            <CardTitle className="text-slate-100">File Format</CardTitle>
+            <CardDescription className="text-slate-400">
+              {FORMAT_DESCRIPTIONS[format]}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <pre className="overflow-x-auto rounded-md bg-slate-900/60 p-4 text-xs text-slate-300">
+              {FORMAT_EXAMPLES[format]}
+            </pre>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
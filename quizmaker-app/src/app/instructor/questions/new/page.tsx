@@ -18,23 +18,38 @@ import {
 } from '@/components/ui/select';
 import { BookOpen, ArrowLeft, Plus, Trash2, Check } from 'lucide-react';
 
+type QuestionType = 'single_choice' | 'multi_select' | 'true_false' | 'numeric' | 'short_text';
+
 interface OptionInput {
   optionText: string;
   isCorrect: boolean;
 }
 
+const BLANK_OPTIONS: OptionInput[] = [
+  { optionText: '', isCorrect: true },
+  { optionText: '', isCorrect: false },
+  { optionText: '', isCorrect: false },
+  { optionText: '', isCorrect: false },
+];
+
+const TRUE_FALSE_OPTIONS: OptionInput[] = [
+  { optionText: 'True', isCorrect: true },
+  { optionText: 'False', isCorrect: false },
+];
+
 export default function NewQuestionPage() {
   const router = useRouter();
   const [questionText, setQuestionText] = useState('');
   const [category, setCategory] = useState('');
   const [difficulty, setDifficulty] = useState<'easy' | 'medium' | 'hard'>('medium');
   const [points, setPoints] = useState(1);
-  const [options, setOptions] = useState<OptionInput[]>([
-    { optionText: '', isCorrect: true },
-    { optionText: '', isCorrect: false },
-    { optionText: '', isCorrect: false },
-    { optionText: '', isCorrect: false },
-  ]);
+  const [timeLimit, setTimeLimit] = useState('');
+  const [questionType, setQuestionType] = useState<QuestionType>('single_choice');
+  const [scoringMode, setScoringMode] = useState<'all_or_nothing' | 'partial'>('all_or_nothing');
+  const [options, setOptions] = useState<OptionInput[]>(BLANK_OPTIONS);
+  const [numericAnswer, setNumericAnswer] = useState('');
+  const [numericTolerance, setNumericTolerance] = useState('0');
+  const [acceptedAnswers, setAcceptedAnswers] = useState<string[]>(['']);
   const [error, setError] = useState('');
   const [loading, setLoading] = useState(false);
 
@@ -52,6 +67,45 @@ export default function NewQuestionPage() {
     setOptions(newOptions);
   };
 
+  const handleCorrectToggle = (index: number) => {
+    const newOptions = options.map((opt, i) =>
+      i === index ? { ...opt, isCorrect: !opt.isCorrect } : opt
+    );
+    setOptions(newOptions);
+  };
+
+  const handleQuestionTypeChange = (value: QuestionType) => {
+    setQuestionType(value);
+    if (value === 'true_false') {
+      setOptions(TRUE_FALSE_OPTIONS);
+    } else if (value === 'single_choice' || value === 'multi_select') {
+      if (options.length !== 4 && options.length !== 6) {
+        // Coming from true/false (or a typed-answer question) starts from blank options
+        setOptions(BLANK_OPTIONS);
+      } else if (value === 'single_choice') {
+        // Single choice keeps only the first correct option
+        const firstCorrect = Math.max(0, options.findIndex((opt) => opt.isCorrect));
+        handleCorrectChange(firstCorrect.toString());
+      }
+    }
+  };
+
+  const handleAcceptedAnswerChange = (index: number, text: string) => {
+    setAcceptedAnswers(acceptedAnswers.map((answer, i) => (i === index ? text : answer)));
+  };
+
+  const addAcceptedAnswer = () => {
+    if (acceptedAnswers.length < 20) {
+      setAcceptedAnswers([...acceptedAnswers, '']);
+    }
+  };
+
+  const removeAcceptedAnswer = (index: number) => {
+    if (acceptedAnswers.length > 1) {
+      setAcceptedAnswers(acceptedAnswers.filter((_, i) => i !== index));
+    }
+  };
+
   const addOption = () => {
     if (options.length < 6) {
       setOptions([...options, { optionText: '', isCorrect: false }]);
@@ -61,8 +115,8 @@ export default function NewQuestionPage() {
   const removeOption = (index: number) => {
     if (options.length > 4) {
       const newOptions = options.filter((_, i) => i !== index);
-      // If removed option was correct, make first option correct
-      if (options[index].isCorrect && newOptions.length > 0) {
+      // If no correct option remains, make first option correct
+      if (!newOptions.some((opt) => opt.isCorrect) && newOptions.length > 0) {
         newOptions[0].isCorrect = true;
       }
       setOptions(newOptions);
@@ -83,7 +137,17 @@ export default function NewQuestionPage() {
           category: category || undefined,
           difficulty,
           points,
-          options,
+          timeLimitSeconds: timeLimit ? parseInt(timeLimit, 10) : null,
+          questionType,
+          scoringMode,
+          ...(isChoice ? { options } : {}),
+          ...(questionType === 'numeric'
+            ? {
+                numericAnswer: numericAnswer.trim() === '' ? undefined : Number(numericAnswer),
+                numericTolerance: numericTolerance.trim() === '' ? 0 : Number(numericTolerance),
+              }
+            : {}),
+          ...(questionType === 'short_text' ? { acceptedAnswers } : {}),
         }),
       });
 
@@ -103,6 +167,8 @@ export default function NewQuestionPage() {
   };
 
   const correctIndex = options.findIndex((opt) => opt.isCorrect).toString();
+  const isChoice =
+    questionType === 'single_choice' || questionType === 'multi_select' || questionType === 'true_false';
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900">
@@ -159,63 +225,202 @@ export default function NewQuestionPage() {
           {/* Options */}
           <Card className="border-slate-700 bg-slate-800/50 mb-6">
             <CardHeader>
-              <CardTitle className="text-slate-100">Answer Options</CardTitle>
+              <CardTitle className="text-slate-100">Answer</CardTitle>
               <CardDescription className="text-slate-400">
-                Add 4-6 options and select the correct answer
+                {questionType === 'true_false'
+                  ? 'Choose whether the statement is true or false'
+                  : questionType === 'numeric'
+                    ? 'Enter the correct value and how far off an answer may be'
+                    : questionType === 'short_text'
+                      ? 'List every answer that should be accepted'
+                      : 'Add 4-6 options and mark the correct answer(s)'}
               </CardDescription>
             </CardHeader>
             <CardContent>
-              <RadioGroup value={correctIndex} onValueChange={handleCorrectChange}>
-                <div className="space-y-3">
-                  {options.map((option, index) => (
-                    <div key={index} className="flex items-center gap-3">
-                      <RadioGroupItem
-                        value={index.toString()}
-                        id={`option-${index}`}
-                        className="border-slate-500 text-emerald-500"
-                      />
-                      <Input
-                        value={option.optionText}
-                        onChange={(e) => handleOptionChange(index, e.target.value)}
-                        placeholder={`Option ${index + 1}`}
-                        required
-                        maxLength={500}
-                        className="flex-1 border-slate-600 bg-slate-700/50 text-slate-100 placeholder:text-slate-500 focus-visible:ring-emerald-500"
-                      />
-                      {option.isCorrect && (
-                        <Check className="h-5 w-5 text-emerald-500" />
-                      )}
-                      {options.length > 4 && (
-                        <Button
-                          type="button"
-                          variant="ghost"
-                          size="icon"
-                          onClick={() => removeOption(index)}
-                          className="text-slate-400 hover:text-red-400"
-                        >
-                          <Trash2 className="h-4 w-4" />
-                        </Button>
-                      )}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+                <div className="space-y-2">
+                  <Label className="text-slate-200">Question Type</Label>
+                  <Select value={questionType} onValueChange={handleQuestionTypeChange}>
+                    <SelectTrigger className="border-slate-600 bg-slate-700/50 text-slate-100">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-slate-800 border-slate-700">
+                      <SelectItem value="single_choice" className="text-slate-100">Single Choice</SelectItem>
+                      <SelectItem value="multi_select" className="text-slate-100">Multi-Select</SelectItem>
+                      <SelectItem value="true_false" className="text-slate-100">True / False</SelectItem>
+                      <SelectItem value="numeric" className="text-slate-100">Numeric</SelectItem>
+                      <SelectItem value="short_text" className="text-slate-100">Short Text</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {questionType === 'multi_select' && (
+                  <div className="space-y-2">
+                    <Label className="text-slate-200">Scoring</Label>
+                    <Select value={scoringMode} onValueChange={(v: 'all_or_nothing' | 'partial') => setScoringMode(v)}>
+                      <SelectTrigger className="border-slate-600 bg-slate-700/50 text-slate-100">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent className="bg-slate-800 border-slate-700">
+                        <SelectItem value="all_or_nothing" className="text-slate-100">All or Nothing</SelectItem>
+                        <SelectItem value="partial" className="text-slate-100">Partial Credit</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+              </div>
+
+              {isChoice && (
+                <>
+                  <RadioGroup value={correctIndex} onValueChange={handleCorrectChange}>
+                    <div className="space-y-3">
+                      {options.map((option, index) => (
+                        <div key={index} className="flex items-center gap-3">
+                          {questionType === 'multi_select' ? (
+                            <input
+                              type="checkbox"
+                              id={`option-${index}`}
+                              checked={option.isCorrect}
+                              onChange={() => handleCorrectToggle(index)}
+                              className="h-4 w-4 accent-emerald-500"
+                            />
+                          ) : (
+                            <RadioGroupItem
+                              value={index.toString()}
+                              id={`option-${index}`}
+                              className="border-slate-500 text-emerald-500"
+                            />
+                          )}
+                          {questionType === 'true_false' ? (
+                            <Label htmlFor={`option-${index}`} className="flex-1 text-slate-200">
+                              {option.optionText}
+                            </Label>
+                          ) : (
+                            <Input
+                              value={option.optionText}
+                              onChange={(e) => handleOptionChange(index, e.target.value)}
+                              placeholder={`Option ${index + 1}`}
+                              required
+                              maxLength={500}
+                              className="flex-1 border-slate-600 bg-slate-700/50 text-slate-100 placeholder:text-slate-500 focus-visible:ring-emerald-500"
+                            />
+                          )}
+                          {option.isCorrect && (
+                            <Check className="h-5 w-5 text-emerald-500" />
+                          )}
+                          {options.length > 4 && (
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => removeOption(index)}
+                              className="text-slate-400 hover:text-red-400"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </div>
+                      ))}
                     </div>
-                  ))}
+                  </RadioGroup>
+
+                  {questionType !== 'true_false' && options.length < 6 && (
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={addOption}
+                      className="mt-4 border-slate-600 text-slate-300 hover:bg-slate-700"
+                    >
+                      <Plus className="h-4 w-4 mr-2" />
+                      Add Option
+                    </Button>
+                  )}
+
+                  <p className="text-xs text-slate-500 mt-3">
+                    {questionType === 'multi_select'
+                      ? 'Tick every correct answer; partial credit subtracts one share per wrong selection'
+                      : questionType === 'true_false'
+                        ? 'Select the correct answer'
+                        : 'Select the radio button next to the correct answer'}
+                  </p>
+                </>
+              )}
+
+              {questionType === 'numeric' && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label className="text-slate-200">Correct Answer</Label>
+                    <Input
+                      type="number"
+                      step="any"
+                      value={numericAnswer}
+                      onChange={(e) => setNumericAnswer(e.target.value)}
+                      required
+                      className="border-slate-600 bg-slate-700/50 text-slate-100"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label className="text-slate-200">Tolerance (±)</Label>
+                    <Input
+                      type="number"
+                      step="any"
+                      min={0}
+                      value={numericTolerance}
+                      onChange={(e) => setNumericTolerance(e.target.value)}
+                      className="border-slate-600 bg-slate-700/50 text-slate-100"
+                    />
+                  </div>
+                  <p className="text-xs text-slate-500 md:col-span-2">
+                    Answers within the tolerance of the correct value earn full points
+                  </p>
                 </div>
-              </RadioGroup>
-              
-              {options.length < 6 && (
-                <Button
-                  type="button"
-                  variant="outline"
-                  onClick={addOption}
-                  className="mt-4 border-slate-600 text-slate-300 hover:bg-slate-700"
-                >
-                  <Plus className="h-4 w-4 mr-2" />
-                  Add Option
-                </Button>
               )}
-              
-              <p className="text-xs text-slate-500 mt-3">
-                Select the radio button next to the correct answer
-              </p>
+
+              {questionType === 'short_text' && (
+                <>
+                  <div className="space-y-3">
+                    {acceptedAnswers.map((answer, index) => (
+                      <div key={index} className="flex items-center gap-3">
+                        <Input
+                          value={answer}
+                          onChange={(e) => handleAcceptedAnswerChange(index, e.target.value)}
+                          placeholder={`Accepted answer ${index + 1}`}
+                          required
+                          maxLength={200}
+                          className="flex-1 border-slate-600 bg-slate-700/50 text-slate-100 placeholder:text-slate-500 focus-visible:ring-emerald-500"
+                        />
+                        {acceptedAnswers.length > 1 && (
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => removeAcceptedAnswer(index)}
+                            className="text-slate-400 hover:text-red-400"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+
+                  {acceptedAnswers.length < 20 && (
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={addAcceptedAnswer}
+                      className="mt-4 border-slate-600 text-slate-300 hover:bg-slate-700"
+                    >
+                      <Plus className="h-4 w-4 mr-2" />
+                      Add Accepted Answer
+                    </Button>
+                  )}
+
+                  <p className="text-xs text-slate-500 mt-3">
+                    Matching ignores letter case and extra spaces
+                  </p>
+                </>
+              )}
             </CardContent>
           </Card>
 
@@ -224,11 +429,11 @@ export default function NewQuestionPage() {
             <CardHeader>
               <CardTitle className="text-slate-100">Settings</CardTitle>
               <CardDescription className="text-slate-400">
-                Configure difficulty, category, and points
+                Configure difficulty, category, points, and an optional time limit
               </CardDescription>
             </CardHeader>
             <CardContent>
-              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
                 <div className="space-y-2">
                   <Label className="text-slate-200">Difficulty</Label>
                   <Select value={difficulty} onValueChange={(v: 'easy' | 'medium' | 'hard') => setDifficulty(v)}>
@@ -263,6 +468,19 @@ export default function NewQuestionPage() {
                     className="border-slate-600 bg-slate-700/50 text-slate-100"
                   />
                 </div>
+
+                <div className="space-y-2">
+                  <Label className="text-slate-200">Time Limit (sec)</Label>
+                  <Input
+                    type="number"
+                    value={timeLimit}
+                    onChange={(e) => setTimeLimit(e.target.value)}
+                    placeholder="None"
+                    min={5}
+                    max={3600}
+                    className="border-slate-600 bg-slate-700/50 text-slate-100 placeholder:text-slate-500"
+                  />
+                </div>
               </div>
             </CardContent>
           </Card>
@@ -45,9 +45,13 @@ import {
   Pencil,
   Trash2,
   BarChart3,
+  History,
+  RotateCcw,
   ArrowLeft,
   ChevronLeft,
   ChevronRight,
+  Upload,
+  Download,
 } from 'lucide-react';
 
 interface Question {
@@ -57,6 +61,8 @@ interface Question {
   difficulty: 'easy' | 'medium' | 'hard';
   points: number;
   createdAt: string;
+  deletedAt?: string;
+  purgeableAt?: string;
 }
 
 interface PaginatedResult {
@@ -83,6 +89,22 @@ export default function QuestionsListPage() {
     question: null,
   });
   const [deleting, setDeleting] = useState(false);
+  const [view, setView] = useState<'active' | 'trash'>('active');
+  const [purgeDialog, setPurgeDialog] = useState<{ open: boolean; question: Question | null }>({
+    open: false,
+    question: null,
+  });
+  const [purging, setPurging] = useState(false);
+  const [actionError, setActionError] = useState('');
+
+  const exportQuestions = (format: 'json' | 'csv' | 'moodle_xml' | 'gift') => {
+    // Export honors the current filters; the download starts from the attachment response
+    const params = new URLSearchParams({ format });
+    if (search) params.append('search', search);
+    if (difficulty !== 'all') params.append('difficulty', difficulty);
+    if (category !== 'all') params.append('category', category);
+    window.location.href = `/api/questions/export?${params}`;
+  };
 
   const fetchQuestions = useCallback(async () => {
     setLoading(true);
@@ -94,6 +116,7 @@ export default function QuestionsListPage() {
       if (search) params.append('search', search);
       if (difficulty !== 'all') params.append('difficulty', difficulty);
       if (category !== 'all') params.append('category', category);
+      if (view === 'trash') params.append('trash', 'true');
 
       const response = await fetch(`/api/questions?${params}`);
       const data: PaginatedResult & { success: boolean } = await response.json();
@@ -108,7 +131,7 @@ export default function QuestionsListPage() {
     } finally {
       setLoading(false);
     }
-  }, [page, search, difficulty, category]);
+  }, [page, search, difficulty, category, view]);
 
   const fetchCategories = async () => {
     try {
@@ -135,7 +158,7 @@ export default function QuestionsListPage() {
     
     setDeleting(true);
     try {
-      const response = await fetch(`/api/questions/${deleteDialog.question.id}?force=true`, {
+      const response = await fetch(`/api/questions/${deleteDialog.question.id}`, {
         method: 'DELETE',
       });
       const data = await response.json();
@@ -151,6 +174,59 @@ export default function QuestionsListPage() {
     }
   };
 
+  const handleRestore = async (question: Question) => {
+    setActionError('');
+    try {
+      const response = await fetch(`/api/questions/${question.id}/restore`, {
+        method: 'POST',
+      });
+      const data = await response.json() as { success: boolean; message?: string };
+
+      if (data.success) {
+        fetchQuestions();
+      } else {
+        setActionError(data.message || 'Failed to restore question');
+      }
+    } catch (error) {
+      console.error('Failed to restore question:', error);
+    }
+  };
+
+  const handlePurge = async () => {
+    if (!purgeDialog.question) return;
+
+    setPurging(true);
+    setActionError('');
+    try {
+      const response = await fetch(`/api/questions/${purgeDialog.question.id}/purge`, {
+        method: 'DELETE',
+      });
+      const data = await response.json() as { success: boolean; message?: string };
+
+      if (data.success) {
+        fetchQuestions();
+      } else {
+        setActionError(data.message || 'Failed to purge question');
+      }
+    } catch (error) {
+      console.error('Failed to purge question:', error);
+    } finally {
+      setPurging(false);
+      setPurgeDialog({ open: false, question: null });
+    }
+  };
+
+  const switchView = (next: 'active' | 'trash') => {
+    setView(next);
+    setPage(1);
+    setActionError('');
+  };
+
+  const isPurgeable = (question: Question) =>
+    question.purgeableAt !== undefined && new Date(question.purgeableAt) <= new Date();
+
+  const formatDate = (value?: string) => (value ? new Date(value).toLocaleDateString() : '—');
+
   const getDifficultyColor = (diff: string) => {
     switch (diff) {
       case 'easy':
@@ -181,12 +257,54 @@ export default function QuestionsListPage() {
               </div>
               <h1 className="text-xl font-bold text-slate-100">My Questions</h1>
             </div>
-            <Link href="/instructor/questions/new">
-              <Button className="bg-emerald-600 hover:bg-emerald-700 text-white">
-                <Plus className="h-4 w-4 mr-2" />
-                New Question
-              </Button>
-            </Link>
+            <div className="flex items-center gap-2">
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" className="border-slate-600 text-slate-300 hover:bg-slate-700">
+                    <Download className="h-4 w-4 mr-2" />
+                    Export
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end" className="bg-slate-800 border-slate-700">
+                  <DropdownMenuItem
+                    onClick={() => exportQuestions('json')}
+                    className="text-slate-200 focus:bg-slate-700 cursor-pointer"
+                  >
+                    JSON
+                  </DropdownMenuItem>
+                  <DropdownMenuItem
+                    onClick={() => exportQuestions('csv')}
+                    className="text-slate-200 focus:bg-slate-700 cursor-pointer"
+                  >
+                    CSV
+                  </DropdownMenuItem>
+                  <DropdownMenuItem
+                    onClick={() => exportQuestions('moodle_xml')}
+                    className="text-slate-200 focus:bg-slate-700 cursor-pointer"
+                  >
+                    Moodle XML
+                  </DropdownMenuItem>
+                  <DropdownMenuItem
+                    onClick={() => exportQuestions('gift')}
+                    className="text-slate-200 focus:bg-slate-700 cursor-pointer"
+                  >
+                    GIFT
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+              <Link href="/instructor/questions/import">
+                <Button variant="outline" className="border-slate-600 text-slate-300 hover:bg-slate-700">
+                  <Upload className="h-4 w-4 mr-2" />
+                  Import
+                </Button>
+              </Link>
+              <Link href="/instructor/questions/new">
+                <Button className="bg-emerald-600 hover:bg-emerald-700 text-white">
+                  <Plus className="h-4 w-4 mr-2" />
+                  New Question
+                </Button>
+              </Link>
+            </div>
           </div>
         </div>
       </nav>
@@ -237,6 +355,43 @@ export default function QuestionsListPage() {
           </CardContent>
         </Card>
 
+        {/* Active / Trash */}
+        <div className="flex items-center gap-2 mb-4">
+          <Button
+            variant={view === 'active' ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => switchView('active')}
+            className={view === 'active'
+              ? 'bg-emerald-600 hover:bg-emerald-700 text-white'
+              : 'border-slate-600 text-slate-300 hover:bg-slate-700'}
+          >
+            <BookOpen className="h-4 w-4 mr-2" />
+            Active
+          </Button>
+          <Button
+            variant={view === 'trash' ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => switchView('trash')}
+            className={view === 'trash'
+              ? 'bg-emerald-600 hover:bg-emerald-700 text-white'
+              : 'border-slate-600 text-slate-300 hover:bg-slate-700'}
+          >
+            <Trash2 className="h-4 w-4 mr-2" />
+            Trash
+          </Button>
+          {view === 'trash' && (
+            <p className="text-sm text-slate-400 ml-2">
+              Trashed questions are hidden from quizzes. They can be purged 30 days after deletion if no student has answered them.
+            </p>
+          )}
+        </div>
+
+        {actionError && (
+          <div className="rounded-md bg-red-500/10 border border-red-500/20 p-4 mb-4 text-sm text-red-400">
+            {actionError}
+          </div>
+        )}
+
         {/* Questions Table */}
         <Card className="border-slate-700 bg-slate-800/50">
           <CardContent className="p-0">
@@ -246,7 +401,7 @@ export default function QuestionsListPage() {
                   <TableHead className="text-slate-400">Question</TableHead>
                   <TableHead className="text-slate-400">Category</TableHead>
                   <TableHead className="text-slate-400">Difficulty</TableHead>
-                  <TableHead className="text-slate-400">Points</TableHead>
+                  <TableHead className="text-slate-400">{view === 'trash' ? 'Deleted' : 'Points'}</TableHead>
                   <TableHead className="text-slate-400 text-right">Actions</TableHead>
                 </TableRow>
               </TableHeader>
@@ -264,7 +419,7 @@ export default function QuestionsListPage() {
                 ) : questions.length === 0 ? (
                   <TableRow className="border-slate-700">
                     <TableCell colSpan={5} className="text-center py-8 text-slate-400">
-                      No questions found. Create your first question!
+                      {view === 'trash' ? 'The trash is empty' : 'No questions found. Create your first question!'}
                     </TableCell>
                   </TableRow>
                 ) : (
@@ -287,38 +442,72 @@ export default function QuestionsListPage() {
                           {question.difficulty}
                         </Badge>
                       </TableCell>
-                      <TableCell className="text-slate-300">{question.points}</TableCell>
+                      <TableCell className="text-slate-300">
+                        {view === 'trash' ? formatDate(question.deletedAt) : question.points}
+                      </TableCell>
                       <TableCell className="text-right">
-                        <DropdownMenu>
-                          <DropdownMenuTrigger asChild>
-                            <Button variant="ghost" size="icon" className="text-slate-400 hover:text-slate-100">
-                              <MoreHorizontal className="h-4 w-4" />
-                            </Button>
-                          </DropdownMenuTrigger>
-                          <DropdownMenuContent align="end" className="bg-slate-800 border-slate-700">
-                            <DropdownMenuItem
-                              onClick={() => router.push(`/instructor/questions/${question.id}`)}
-                              className="text-slate-200 focus:bg-slate-700 cursor-pointer"
-                            >
-                              <Pencil className="h-4 w-4 mr-2" />
-                              Edit
-                            </DropdownMenuItem>
-                            <DropdownMenuItem
-                              onClick={() => router.push(`/instructor/questions/${question.id}/statistics`)}
-                              className="text-slate-200 focus:bg-slate-700 cursor-pointer"
+                        {view === 'trash' ? (
+                          <div className="flex items-center justify-end gap-2">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleRestore(question)}
+                              className="border-slate-600 text-slate-300 hover:bg-slate-700"
                             >
-                              <BarChart3 className="h-4 w-4 mr-2" />
-                              Statistics
-                            </DropdownMenuItem>
-                            <DropdownMenuItem
-                              onClick={() => setDeleteDialog({ open: true, question })}
-                              className="text-red-400 focus:text-red-400 focus:bg-red-500/10 cursor-pointer"
+                              <RotateCcw className="h-4 w-4 mr-2" />
+                              Restore
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setPurgeDialog({ open: true, question })}
+                              disabled={!isPurgeable(question)}
+                              title={isPurgeable(question) ? undefined : `Can be purged from ${formatDate(question.purgeableAt)}`}
+                              className="border-red-500/30 text-red-400 hover:bg-red-500/10 disabled:opacity-50"
                             >
                               <Trash2 className="h-4 w-4 mr-2" />
-                              Delete
-                            </DropdownMenuItem>
-                          </DropdownMenuContent>
-                        </DropdownMenu>
+                              Purge
+                            </Button>
+                          </div>
+                        ) : (
+                          <DropdownMenu>
+                            <DropdownMenuTrigger asChild>
+                              <Button variant="ghost" size="icon" className="text-slate-400 hover:text-slate-100">
+                                <MoreHorizontal className="h-4 w-4" />
+                              </Button>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent align="end" className="bg-slate-800 border-slate-700">
+                              <DropdownMenuItem
+                                onClick={() => router.push(`/instructor/questions/${question.id}`)}
+                                className="text-slate-200 focus:bg-slate-700 cursor-pointer"
+                              >
+                                <Pencil className="h-4 w-4 mr-2" />
+                                Edit
+                              </DropdownMenuItem>
+                              <DropdownMenuItem
+                                onClick={() => router.push(`/instructor/questions/${question.id}/statistics`)}
+                                className="text-slate-200 focus:bg-slate-700 cursor-pointer"
+                              >
+                                <BarChart3 className="h-4 w-4 mr-2" />
+                                Statistics
+                              </DropdownMenuItem>
+                              <DropdownMenuItem
+                                onClick={() => router.push(`/instructor/questions/${question.id}/history`)}
+                                className="text-slate-200 focus:bg-slate-700 cursor-pointer"
+                              >
+                                <History className="h-4 w-4 mr-2" />
+                                Version History
+                              </DropdownMenuItem>
+                              <DropdownMenuItem
+                                onClick={() => setDeleteDialog({ open: true, question })}
+                                className="text-red-400 focus:text-red-400 focus:bg-red-500/10 cursor-pointer"
+                              >
+                                <Trash2 className="h-4 w-4 mr-2" />
+                                Delete
+                              </DropdownMenuItem>
+                            </DropdownMenuContent>
+                          </DropdownMenu>
+                        )}
                       </TableCell>
                     </TableRow>
                   ))
@@ -367,7 +556,7 @@ export default function QuestionsListPage() {
           <DialogHeader>
             <DialogTitle className="text-slate-100">Delete Question</DialogTitle>
             <DialogDescription className="text-slate-400">
-              Are you sure you want to delete this question? This will also delete all associated quiz attempts. This action cannot be undone.
+              The question will be moved to the trash and no longer served in quizzes. Past attempts and scores are kept, and you can restore it from the trash.
             </DialogDescription>
           </DialogHeader>
           <div className="bg-slate-700/50 rounded-md p-3 my-4">
@@ -387,7 +576,39 @@ export default function QuestionsListPage() {
               disabled={deleting}
               className="bg-red-600 hover:bg-red-700"
             >
-              {deleting ? 'Deleting...' : 'Delete'}
+              {deleting ? 'Deleting...' : 'Move to Trash'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Purge Dialog */}
+      <Dialog open={purgeDialog.open} onOpenChange={(open) => setPurgeDialog({ open, question: null })}>
+        <DialogContent className="bg-slate-800 border-slate-700">
+          <DialogHeader>
+            <DialogTitle className="text-slate-100">Permanently Delete Question</DialogTitle>
+            <DialogDescription className="text-slate-400">
+              The question and its version history will be deleted. This action cannot be undone.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="bg-slate-700/50 rounded-md p-3 my-4">
+            <p className="text-slate-200 text-sm">{purgeDialog.question?.questionText}</p>
+          </div>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setPurgeDialog({ open: false, question: null })}
+              className="border-slate-600 text-slate-300 hover:bg-slate-700"
+            >
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handlePurge}
+              disabled={purging}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              {purging ? 'Purging...' : 'Purge'}
             </Button>
           </DialogFooter>
         </DialogContent>
@@ -0,0 +1,362 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ClipboardList, ArrowLeft, Plus, Trash2, ArrowUp, ArrowDown, Search } from 'lucide-react';
+
+interface BankQuestion {
+  id: string;
+  questionText: string;
+  category: string | null;
+  difficulty: 'easy' | 'medium' | 'hard';
+  points: number;
+}
+
+interface CourseOption {
+  id: string;
+  name: string;
+}
+
+export default function NewQuizPage() {
+  const router = useRouter();
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [timeLimit, setTimeLimit] = useState('');
+  const [courseId, setCourseId] = useState('none');
+  const [courses, setCourses] = useState<CourseOption[]>([]);
+  const [selected, setSelected] = useState<BankQuestion[]>([]);
+  const [bank, setBank] = useState<BankQuestion[]>([]);
+  const [bankLoading, setBankLoading] = useState(true);
+  const [search, setSearch] = useState('');
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const fetchBank = useCallback(async () => {
+    setBankLoading(true);
+    try {
+      const params = new URLSearchParams({ page: '1', limit: '100' });
+      if (search) params.append('search', search);
+
+      const response = await fetch(`/api/questions?${params}`);
+      const data = await response.json() as { success?: boolean; data?: BankQuestion[] };
+
+      if (data.success && data.data) {
+        setBank(data.data);
+      }
+    } catch (error) {
+      console.error('Failed to fetch questions:', error);
+    } finally {
+      setBankLoading(false);
+    }
+  }, [search]);
+
+  useEffect(() => {
+    fetchBank();
+  }, [fetchBank]);
+
+  useEffect(() => {
+    fetch('/api/courses')
+      .then((response) => response.json() as Promise<{ success: boolean; courses?: CourseOption[] }>)
+      .then((data) => {
+        if (data.success && data.courses) {
+          setCourses(data.courses);
+        }
+      })
+      .catch((error) => console.error('Failed to fetch courses:', error));
+  }, []);
+
+  const addQuestion = (question: BankQuestion) => {
+    if (!selected.some((q) => q.id === question.id)) {
+      setSelected([...selected, question]);
+    }
+  };
+
+  const removeQuestion = (index: number) => {
+    setSelected(selected.filter((_, i) => i !== index));
+  };
+
+  const moveQuestion = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= selected.length) return;
+    const reordered = [...selected];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setSelected(reordered);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setLoading(true);
+
+    try {
+      const response = await fetch('/api/quizzes/create', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          title,
+          description: description || undefined,
+          courseId: courseId === 'none' ? null : courseId,
+          timeLimitSeconds: timeLimit ? parseInt(timeLimit, 10) * 60 : null,
+          questionIds: selected.map((q) => q.id),
+        }),
+      });
+
+      const data = await response.json() as { message?: string };
+
+      if (!response.ok) {
+        setError(data.message || 'Failed to create quiz');
+        setLoading(false);
+        return;
+      }
+
+      router.push('/instructor/quizzes');
+    } catch {
+      setError('An error occurred. Please try again.');
+      setLoading(false);
+    }
+  };
+
+  const totalPoints = selected.reduce((sum, q) => sum + q.points, 0);
+  const available = bank.filter((q) => !selected.some((s) => s.id === q.id));
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900">
+      {/* Header */}
+      <nav className="border-b border-slate-700 bg-slate-800/50 backdrop-blur-sm sticky top-0 z-50">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center gap-3">
+            <Link href="/instructor/quizzes">
+              <Button variant="ghost" size="icon" className="text-slate-400 hover:text-slate-100">
+                <ArrowLeft className="h-5 w-5" />
+              </Button>
+            </Link>
+            <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-emerald-500/10">
+              <ClipboardList className="h-5 w-5 text-emerald-500" />
+            </div>
+            <h1 className="text-xl font-bold text-slate-100">Create Quiz</h1>
+          </div>
+        </div>
+      </nav>
+
+      <div className="container mx-auto px-4 py-8 max-w-3xl">
+        <form onSubmit={handleSubmit}>
+          {error && (
+            <div className="mb-6 rounded-md bg-red-500/10 border border-red-500/20 p-4 text-sm text-red-400">
+              {error}
+            </div>
+          )}
+
+          {/* Details */}
+          <Card className="border-slate-700 bg-slate-800/50 mb-6">
+            <CardHeader>
+              <CardTitle className="text-slate-100">Details</CardTitle>
+              <CardDescription className="text-slate-400">
+                New quizzes are saved as drafts until you publish them
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label className="text-slate-200">Title</Label>
+                <Input
+                  value={title}
+                  onChange={(e) => setTitle(e.target.value)}
+                  required
+                  minLength={3}
+                  maxLength={200}
+                  className="border-slate-600 bg-slate-700/50 text-slate-100 placeholder:text-slate-500 focus-visible:ring-emerald-500"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label className="text-slate-200">Description (Optional)</Label>
+                <Textarea
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                  maxLength={1000}
+                  rows={3}
+                  className="border-slate-600 bg-slate-700/50 text-slate-100 placeholder:text-slate-500 focus-visible:ring-emerald-500"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label className="text-slate-200">Course</Label>
+                <Select value={courseId} onValueChange={setCourseId}>
+                  <SelectTrigger className="border-slate-600 bg-slate-700/50 text-slate-100 focus:ring-emerald-500">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="border-slate-600 bg-slate-800">
+                    <SelectItem value="none" className="text-slate-100 focus:bg-slate-700">
+                      No course yet
+                    </SelectItem>
+                    {courses.map((course) => (
+                      <SelectItem key={course.id} value={course.id} className="text-slate-100 focus:bg-slate-700">
+                        {course.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-slate-500">
+                  Only students enrolled in the course can take the quiz; a course is required to publish
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <Label className="text-slate-200">Time Limit (minutes, optional)</Label>
+                <Input
+                  type="number"
+                  value={timeLimit}
+                  onChange={(e) => setTimeLimit(e.target.value)}
+                  placeholder="None"
+                  min={1}
+                  max={240}
+                  className="border-slate-600 bg-slate-700/50 text-slate-100 placeholder:text-slate-500 focus-visible:ring-emerald-500"
+                />
+                <p className="text-xs text-slate-500">
+                  The clock starts when a student begins the quiz and is enforced by the server
+                </p>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Selected Questions */}
+          <Card className="border-slate-700 bg-slate-800/50 mb-6">
+            <CardHeader>
+              <CardTitle className="text-slate-100">Quiz Questions</CardTitle>
+              <CardDescription className="text-slate-400">
+                {selected.length} question{selected.length === 1 ? '' : 's'} · {totalPoints} point{totalPoints === 1 ? '' : 's'} — students see them in this order
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {selected.length === 0 ? (
+                <p className="text-sm text-slate-500">Add questions from your question bank below.</p>
+              ) : (
+                <div className="space-y-2">
+                  {selected.map((question, index) => (
+                    <div key={question.id} className="flex items-center gap-3 rounded-md bg-slate-700/30 p-3">
+                      <span className="text-sm font-medium text-slate-400 w-6">{index + 1}.</span>
+                      <p className="flex-1 text-sm text-slate-200 truncate">{question.questionText}</p>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => moveQuestion(index, -1)}
+                        disabled={index === 0}
+                        className="text-slate-400 hover:text-slate-100"
+                      >
+                        <ArrowUp className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => moveQuestion(index, 1)}
+                        disabled={index === selected.length - 1}
+                        className="text-slate-400 hover:text-slate-100"
+                      >
+                        <ArrowDown className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => removeQuestion(index)}
+                        className="text-slate-400 hover:text-red-400"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Question Bank */}
+          <Card className="border-slate-700 bg-slate-800/50 mb-6">
+            <CardHeader>
+              <CardTitle className="text-slate-100">Question Bank</CardTitle>
+              <CardDescription className="text-slate-400">
+                Pick from the questions you have created
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="relative mb-4">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-slate-400" />
+                <Input
+                  placeholder="Search questions..."
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  className="pl-10 border-slate-600 bg-slate-700/50 text-slate-100 placeholder:text-slate-500"
+                />
+              </div>
+              {bankLoading ? (
+                <div className="space-y-2">
+                  {Array.from({ length: 3 }).map((_, i) => (
+                    <Skeleton key={i} className="h-10 w-full" />
+                  ))}
+                </div>
+              ) : available.length === 0 ? (
+                <p className="text-sm text-slate-500">No more questions to add.</p>
+              ) : (
+                <div className="space-y-2 max-h-96 overflow-y-auto">
+                  {available.map((question) => (
+                    <div key={question.id} className="flex items-center gap-3 rounded-md border border-slate-700 p-3">
+                      <p className="flex-1 text-sm text-slate-200 truncate">{question.questionText}</p>
+                      <Badge variant="outline" className="border-slate-600 text-slate-300">
+                        {question.difficulty}
+                      </Badge>
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={() => addQuestion(question)}
+                        className="border-slate-600 text-slate-300 hover:bg-slate-700"
+                      >
+                        <Plus className="h-4 w-4 mr-1" />
+                        Add
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Submit */}
+          <div className="flex gap-4">
+            <Link href="/instructor/quizzes" className="flex-1">
+              <Button
+                type="button"
+                variant="outline"
+                className="w-full border-slate-600 text-slate-300 hover:bg-slate-700"
+              >
+                Cancel
+              </Button>
+            </Link>
+            <Button
+              type="submit"
+              disabled={loading}
+              className="flex-1 bg-emerald-600 hover:bg-emerald-700 text-white"
+            >
+              {loading ? 'Creating...' : 'Create Quiz'}
+            </Button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
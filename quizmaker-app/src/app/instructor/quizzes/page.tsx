@@ -0,0 +1,347 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  ClipboardList,
+  Plus,
+  MoreHorizontal,
+  Pencil,
+  Trash2,
+  ArrowLeft,
+  Eye,
+  EyeOff,
+  ChevronLeft,
+  ChevronRight,
+} from 'lucide-react';
+
+interface Quiz {
+  id: string;
+  title: string;
+  description: string | null;
+  courseName: string | null;
+  status: 'draft' | 'published';
+  publishedAt: string | null;
+  questionCount: number;
+  updatedAt: string;
+}
+
+interface PaginatedResult {
+  data: Quiz[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+export default function QuizzesListPage() {
+  const router = useRouter();
+  const [quizzes, setQuizzes] = useState<Quiz[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [total, setTotal] = useState(0);
+  const [error, setError] = useState('');
+  const [deleteDialog, setDeleteDialog] = useState<{ open: boolean; quiz: Quiz | null }>({
+    open: false,
+    quiz: null,
+  });
+  const [deleting, setDeleting] = useState(false);
+
+  const fetchQuizzes = useCallback(async () => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({
+        page: page.toString(),
+        limit: '10',
+      });
+
+      const response = await fetch(`/api/quizzes?${params}`);
+      const data = await response.json() as PaginatedResult & { success: boolean };
+
+      if (data.success) {
+        setQuizzes(data.data);
+        setTotalPages(data.totalPages);
+        setTotal(data.total);
+      }
+    } catch (error) {
+      console.error('Failed to fetch quizzes:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [page]);
+
+  useEffect(() => {
+    fetchQuizzes();
+  }, [fetchQuizzes]);
+
+  const handleTogglePublished = async (quiz: Quiz) => {
+    setError('');
+    try {
+      const response = await fetch(`/api/quizzes/${quiz.id}/publish`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ published: quiz.status !== 'published' }),
+      });
+      const data = await response.json() as { success?: boolean; message?: string };
+
+      if (data.success) {
+        fetchQuizzes();
+      } else {
+        setError(data.message || 'Failed to change quiz status');
+      }
+    } catch (error) {
+      console.error('Failed to change quiz status:', error);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleteDialog.quiz) return;
+
+    setDeleting(true);
+    try {
+      const response = await fetch(`/api/quizzes/${deleteDialog.quiz.id}`, {
+        method: 'DELETE',
+      });
+      const data = await response.json() as { success?: boolean };
+
+      if (data.success) {
+        setDeleteDialog({ open: false, quiz: null });
+        fetchQuizzes();
+      }
+    } catch (error) {
+      console.error('Failed to delete quiz:', error);
+    } finally {
+      setDeleting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900">
+      {/* Header */}
+      <nav className="border-b border-slate-700 bg-slate-800/50 backdrop-blur-sm sticky top-0 z-50">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex justify-between items-center">
+            <div className="flex items-center gap-3">
+              <Link href="/instructor/dashboard">
+                <Button variant="ghost" size="icon" className="text-slate-400 hover:text-slate-100">
+                  <ArrowLeft className="h-5 w-5" />
+                </Button>
+              </Link>
+              <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-emerald-500/10">
+                <ClipboardList className="h-5 w-5 text-emerald-500" />
+              </div>
+              <h1 className="text-xl font-bold text-slate-100">My Quizzes</h1>
+            </div>
+            <Link href="/instructor/quizzes/new">
+              <Button className="bg-emerald-600 hover:bg-emerald-700 text-white">
+                <Plus className="h-4 w-4 mr-2" />
+                New Quiz
+              </Button>
+            </Link>
+          </div>
+        </div>
+      </nav>
+
+      <div className="container mx-auto px-4 py-8">
+        {error && (
+          <div className="mb-6 rounded-md bg-red-500/10 border border-red-500/20 p-4 text-sm text-red-400">
+            {error}
+          </div>
+        )}
+
+        {/* Quizzes Table */}
+        <Card className="border-slate-700 bg-slate-800/50">
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader>
+                <TableRow className="border-slate-700 hover:bg-transparent">
+                  <TableHead className="text-slate-400">Title</TableHead>
+                  <TableHead className="text-slate-400">Questions</TableHead>
+                  <TableHead className="text-slate-400">Status</TableHead>
+                  <TableHead className="text-slate-400">Last Updated</TableHead>
+                  <TableHead className="text-slate-400 text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {loading ? (
+                  Array.from({ length: 5 }).map((_, i) => (
+                    <TableRow key={i} className="border-slate-700">
+                      <TableCell><Skeleton className="h-4 w-full max-w-md" /></TableCell>
+                      <TableCell><Skeleton className="h-4 w-8" /></TableCell>
+                      <TableCell><Skeleton className="h-4 w-16" /></TableCell>
+                      <TableCell><Skeleton className="h-4 w-24" /></TableCell>
+                      <TableCell><Skeleton className="h-4 w-8 ml-auto" /></TableCell>
+                    </TableRow>
+                  ))
+                ) : quizzes.length === 0 ? (
+                  <TableRow className="border-slate-700">
+                    <TableCell colSpan={5} className="text-center py-8 text-slate-400">
+                      No quizzes yet. Create your first quiz!
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  quizzes.map((quiz) => (
+                    <TableRow key={quiz.id} className="border-slate-700 hover:bg-slate-700/30">
+                      <TableCell className="text-slate-200 max-w-md truncate">
+                        {quiz.title}
+                        <p className="text-xs text-slate-500">{quiz.courseName ?? 'No course'}</p>
+                      </TableCell>
+                      <TableCell className="text-slate-300">{quiz.questionCount}</TableCell>
+                      <TableCell>
+                        {quiz.status === 'published' ? (
+                          <Badge variant="outline" className="bg-emerald-500/10 text-emerald-400 border-emerald-500/30">
+                            published
+                          </Badge>
+                        ) : (
+                          <Badge variant="outline" className="border-slate-600 text-slate-400">
+                            draft
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-slate-400">
+                        {new Date(quiz.updatedAt).toLocaleDateString()}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <DropdownMenu>
+                          <DropdownMenuTrigger asChild>
+                            <Button variant="ghost" size="icon" className="text-slate-400 hover:text-slate-100">
+                              <MoreHorizontal className="h-4 w-4" />
+                            </Button>
+                          </DropdownMenuTrigger>
+                          <DropdownMenuContent align="end" className="bg-slate-800 border-slate-700">
+                            <DropdownMenuItem
+                              onClick={() => router.push(`/instructor/quizzes/${quiz.id}`)}
+                              className="text-slate-200 focus:bg-slate-700 cursor-pointer"
+                            >
+                              <Pencil className="h-4 w-4 mr-2" />
+                              Edit
+                            </DropdownMenuItem>
+                            <DropdownMenuItem
+                              onClick={() => handleTogglePublished(quiz)}
+                              className="text-slate-200 focus:bg-slate-700 cursor-pointer"
+                            >
+                              {quiz.status === 'published' ? (
+                                <>
+                                  <EyeOff className="h-4 w-4 mr-2" />
+                                  Unpublish
+                                </>
+                              ) : (
+                                <>
+                                  <Eye className="h-4 w-4 mr-2" />
+                                  Publish
+                                </>
+                              )}
+                            </DropdownMenuItem>
+                            <DropdownMenuItem
+                              onClick={() => setDeleteDialog({ open: true, quiz })}
+                              className="text-red-400 focus:text-red-400 focus:bg-red-500/10 cursor-pointer"
+                            >
+                              <Trash2 className="h-4 w-4 mr-2" />
+                              Delete
+                            </DropdownMenuItem>
+                          </DropdownMenuContent>
+                        </DropdownMenu>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+
+          {/* Pagination */}
+          {totalPages > 1 && (
+            <div className="flex items-center justify-between px-6 py-4 border-t border-slate-700">
+              <p className="text-sm text-slate-400">
+                Showing {((page - 1) * 10) + 1} to {Math.min(page * 10, total)} of {total} quizzes
+              </p>
+              <div className="flex items-center gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPage(p => Math.max(1, p - 1))}
+                  disabled={page === 1}
+                  className="border-slate-600 text-slate-300 hover:bg-slate-700 disabled:opacity-50"
+                >
+                  <ChevronLeft className="h-4 w-4" />
+                </Button>
+                <span className="text-sm text-slate-400">
+                  Page {page} of {totalPages}
+                </span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPage(p => Math.min(totalPages, p + 1))}
+                  disabled={page === totalPages}
+                  className="border-slate-600 text-slate-300 hover:bg-slate-700 disabled:opacity-50"
+                >
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          )}
+        </Card>
+      </div>
+
+      {/* Delete Dialog */}
+      <Dialog open={deleteDialog.open} onOpenChange={(open) => setDeleteDialog({ open, quiz: null })}>
+        <DialogContent className="bg-slate-800 border-slate-700">
+          <DialogHeader>
+            <DialogTitle className="text-slate-100">Delete Quiz</DialogTitle>
+            <DialogDescription className="text-slate-400">
+              Are you sure you want to delete this quiz? Its questions stay in your question bank and past results are kept. This action cannot be undone.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="bg-slate-700/50 rounded-md p-3 my-4">
+            <p className="text-slate-200 text-sm">{deleteDialog.quiz?.title}</p>
+          </div>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setDeleteDialog({ open: false, quiz: null })}
+              className="border-slate-600 text-slate-300 hover:bg-slate-700"
+            >
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleDelete}
+              disabled={deleting}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              {deleting ? 'Deleting...' : 'Delete'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
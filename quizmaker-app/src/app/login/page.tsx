@@ -8,6 +8,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { LogIn } from 'lucide-react';
+import { getHomePath } from '@/lib/roles';
 
 export default function LoginPage() {
   const router = useRouter();
@@ -37,11 +38,7 @@ export default function LoginPage() {
       }
 
       // Redirect based on role
-      if (data.user.role === 'instructor') {
-        router.push('/instructor/dashboard');
-      } else {
-        router.push('/student/quiz');
-      }
+      router.push(getHomePath(data.user.role));
     } catch {
       setError('An error occurred. Please try again.');
       setLoading(false);
@@ -82,7 +79,12 @@ export default function LoginPage() {
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="password" className="text-slate-200">Password</Label>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="password" className="text-slate-200">Password</Label>
+                <Link href="/forgot-password" className="text-xs text-emerald-400 hover:text-emerald-300 hover:underline">
+                  Forgot password?
+                </Link>
+              </div>
               <Input
                 id="password"
                 type="password"
@@ -0,0 +1,154 @@
+'use client';
+
+import { Suspense, useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { KeyRound } from 'lucide-react';
+
+function ResetPasswordForm() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const token = searchParams.get('token') || '';
+
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (password !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      const response = await fetch('/api/auth/reset-password', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token, password }),
+      });
+
+      const data = await response.json() as { success: boolean; message: string };
+
+      if (!response.ok) {
+        setError(data.message || 'Password reset failed');
+        setLoading(false);
+        return;
+      }
+
+      setMessage(data.message);
+      setTimeout(() => router.push('/login'), 2000);
+    } catch {
+      setError('An error occurred. Please try again.');
+      setLoading(false);
+    }
+  };
+
+  if (!token) {
+    return (
+      <div className="space-y-4">
+        <div className="rounded-md bg-red-500/10 border border-red-500/20 p-3 text-sm text-red-400">
+          This reset link is missing its token. Please use the link from your email.
+        </div>
+        <p className="text-center text-sm text-slate-400">
+          <Link href="/forgot-password" className="text-emerald-400 hover:text-emerald-300 hover:underline">
+            Request a new link
+          </Link>
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {error && (
+        <div className="rounded-md bg-red-500/10 border border-red-500/20 p-3 text-sm text-red-400">
+          {error}
+        </div>
+      )}
+
+      {message && (
+        <div className="rounded-md bg-emerald-500/10 border border-emerald-500/20 p-3 text-sm text-emerald-400">
+          {message}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor="password" className="text-slate-200">New Password</Label>
+        <Input
+          id="password"
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          required
+          minLength={8}
+          placeholder="••••••••"
+          className="border-slate-600 bg-slate-700/50 text-slate-100 placeholder:text-slate-500 focus-visible:ring-emerald-500"
+        />
+        <p className="text-xs text-slate-500">Must be at least 8 characters</p>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="confirmPassword" className="text-slate-200">Confirm New Password</Label>
+        <Input
+          id="confirmPassword"
+          type="password"
+          value={confirmPassword}
+          onChange={(e) => setConfirmPassword(e.target.value)}
+          required
+          minLength={8}
+          placeholder="••••••••"
+          className="border-slate-600 bg-slate-700/50 text-slate-100 placeholder:text-slate-500 focus-visible:ring-emerald-500"
+        />
+      </div>
+
+      <Button
+        type="submit"
+        className="w-full bg-emerald-600 hover:bg-emerald-700 text-white"
+        disabled={loading || !!message}
+      >
+        {loading ? 'Resetting...' : 'Reset Password'}
+      </Button>
+
+      <p className="text-center text-sm text-slate-400">
+        Link expired?{' '}
+        <Link href="/forgot-password" className="text-emerald-400 hover:text-emerald-300 hover:underline">
+          Request a new one
+        </Link>
+      </p>
+    </form>
+  );
+}
+
+export default function ResetPasswordPage() {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 p-4">
+      <Card className="w-full max-w-md border-slate-700 bg-slate-800/50 backdrop-blur-sm">
+        <CardHeader className="space-y-1 text-center">
+          <div className="mx-auto mb-4 flex h-12 w-12 items-center justify-center rounded-full bg-emerald-500/10">
+            <KeyRound className="h-6 w-6 text-emerald-500" />
+          </div>
+          <CardTitle className="text-2xl font-bold text-slate-100">Reset Password</CardTitle>
+          <CardDescription className="text-slate-400">
+            Choose a new password for your account
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Suspense fallback={<p className="text-center text-sm text-slate-400">Loading...</p>}>
+            <ResetPasswordForm />
+          </Suspense>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -7,7 +7,6 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { UserPlus } from 'lucide-react';
 
 export default function SignupPage() {
@@ -15,8 +14,9 @@ export default function SignupPage() {
   const [name, setName] = useState('');
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
-  const [role, setRole] = useState<'student' | 'instructor'>('student');
+  const [inviteCode, setInviteCode] = useState('');
   const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
   const [loading, setLoading] = useState(false);
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -28,10 +28,10 @@ export default function SignupPage() {
       const response = await fetch('/api/auth/signup', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ name, email, password, role }),
+        body: JSON.stringify({ name, email, password, inviteCode: inviteCode.trim() || undefined }),
       });
 
-      const data = await response.json();
+      const data = await response.json() as { success: boolean; message: string };
 
       if (!response.ok) {
         const errorMsg = data?.message || 'Signup failed';
@@ -40,8 +40,9 @@ export default function SignupPage() {
         return;
       }
 
-      // Redirect to login after successful signup
-      router.push('/login?registered=true');
+      // Give the user a moment to read the verification notice, then go to login
+      setMessage(data.message);
+      setTimeout(() => router.push('/login?registered=true'), 4000);
     } catch {
       setError('An error occurred. Please try again.');
       setLoading(false);
@@ -68,6 +69,12 @@ export default function SignupPage() {
               </div>
             )}
 
+            {message && (
+              <div className="rounded-md bg-emerald-500/10 border border-emerald-500/20 p-3 text-sm text-emerald-400">
+                {message}
+              </div>
+            )}
+
             <div className="space-y-2">
               <Label htmlFor="name" className="text-slate-200">Full Name</Label>
               <Input
@@ -114,22 +121,25 @@ export default function SignupPage() {
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="role" className="text-slate-200">I am a...</Label>
-              <Select value={role} onValueChange={(value: 'student' | 'instructor') => setRole(value)}>
-                <SelectTrigger className="border-slate-600 bg-slate-700/50 text-slate-100 focus:ring-emerald-500">
-                  <SelectValue placeholder="Select your role" />
-                </SelectTrigger>
-                <SelectContent className="border-slate-600 bg-slate-800">
-                  <SelectItem value="student" className="text-slate-100 focus:bg-slate-700">Student</SelectItem>
-                  <SelectItem value="instructor" className="text-slate-100 focus:bg-slate-700">Instructor</SelectItem>
-                </SelectContent>
-              </Select>
+              <Label htmlFor="inviteCode" className="text-slate-200">Instructor Invite Code (optional)</Label>
+              <Input
+                id="inviteCode"
+                type="text"
+                value={inviteCode}
+                onChange={(e) => setInviteCode(e.target.value)}
+                autoComplete="off"
+                placeholder="Leave blank to sign up as a student"
+                className="border-slate-600 bg-slate-700/50 text-slate-100 placeholder:text-slate-500 focus-visible:ring-emerald-500"
+              />
+              <p className="text-xs text-slate-500">
+                Instructor accounts need an invite from an existing instructor
+              </p>
             </div>
 
             <Button 
               type="submit" 
               className="w-full bg-emerald-600 hover:bg-emerald-700 text-white" 
-              disabled={loading}
+              disabled={loading || !!message}
             >
               {loading ? 'Creating account...' : 'Sign Up'}
             </Button>
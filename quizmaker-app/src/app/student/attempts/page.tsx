@@ -29,8 +29,25 @@ interface Attempt {
   questionId: string;
   isCorrect: boolean;
   score: number;
+  awardedScore: number;
+  attemptNumber: number;
   timeTakenSeconds: number | null;
+  isLate: boolean;
   attemptDate: string;
+  sessionId: string | null;
+}
+
+interface QuizSession {
+  id: string;
+  quizTitle: string | null;
+  status: 'in_progress' | 'completed';
+  questionCount: number;
+  answeredCount: number;
+  correctCount: number;
+  score: number;
+  maxScore: number;
+  startedAt: string;
+  completedAt: string | null;
 }
 
 export default function AttemptsPage() {
@@ -39,6 +56,8 @@ export default function AttemptsPage() {
   const [page, setPage] = useState(1);
   const [totalPages, setTotalPages] = useState(1);
   const [total, setTotal] = useState(0);
+  const [sessions, setSessions] = useState<QuizSession[]>([]);
+  const [sessionsLoading, setSessionsLoading] = useState(true);
 
   const fetchAttempts = useCallback(async () => {
     setLoading(true);
@@ -58,10 +77,29 @@ export default function AttemptsPage() {
     }
   }, [page]);
 
+  const fetchSessions = async () => {
+    try {
+      const response = await fetch('/api/quiz/sessions?limit=10');
+      const data = await response.json() as { success: boolean; data: QuizSession[] };
+
+      if (data.success) {
+        setSessions(data.data);
+      }
+    } catch (error) {
+      console.error('Failed to fetch quiz sessions:', error);
+    } finally {
+      setSessionsLoading(false);
+    }
+  };
+
   useEffect(() => {
     fetchAttempts();
   }, [fetchAttempts]);
 
+  useEffect(() => {
+    fetchSessions();
+  }, []);
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-US', {
       month: 'short',
@@ -139,13 +177,84 @@ export default function AttemptsPage() {
                 <Skeleton className="h-8 w-16" />
               ) : (
                 <div className="text-2xl font-bold text-blue-400">
-                  {attempts.reduce((sum, a) => sum + a.score, 0)}
+                  {attempts.reduce((sum, a) => sum + a.awardedScore, 0)}
                 </div>
               )}
             </CardContent>
           </Card>
         </div>
 
+        {/* Quiz Results */}
+        <Card className="border-slate-700 bg-slate-800/50 mb-6">
+          <CardHeader>
+            <CardTitle className="text-slate-100">Quiz Results</CardTitle>
+          </CardHeader>
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader>
+                <TableRow className="border-slate-700 hover:bg-transparent">
+                  <TableHead className="text-slate-400">Quiz</TableHead>
+                  <TableHead className="text-slate-400">Quiz Score</TableHead>
+                  <TableHead className="text-slate-400">Correct</TableHead>
+                  <TableHead className="text-slate-400">Points</TableHead>
+                  <TableHead className="text-slate-400">Date</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sessionsLoading ? (
+                  Array.from({ length: 3 }).map((_, i) => (
+                    <TableRow key={i} className="border-slate-700">
+                      <TableCell><Skeleton className="h-4 w-32" /></TableCell>
+                      <TableCell><Skeleton className="h-6 w-20" /></TableCell>
+                      <TableCell><Skeleton className="h-4 w-12" /></TableCell>
+                      <TableCell><Skeleton className="h-4 w-16" /></TableCell>
+                      <TableCell><Skeleton className="h-4 w-32" /></TableCell>
+                    </TableRow>
+                  ))
+                ) : sessions.length === 0 ? (
+                  <TableRow className="border-slate-700">
+                    <TableCell colSpan={5} className="text-center py-8 text-slate-400">
+                      No quizzes yet. Start a quiz to see your results!
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  sessions.map((session) => (
+                    <TableRow key={session.id} className="border-slate-700 hover:bg-slate-700/30">
+                      <TableCell className="text-slate-200 max-w-xs truncate">
+                        {session.quizTitle ?? 'Random quiz'}
+                      </TableCell>
+                      <TableCell>
+                        {session.status === 'completed' ? (
+                          <Badge className="bg-blue-500/10 text-blue-400 border-blue-500/30">
+                            {session.maxScore > 0
+                              ? Math.round((session.score / session.maxScore) * 100)
+                              : 0}%
+                          </Badge>
+                        ) : (
+                          <Badge className="bg-amber-500/10 text-amber-400 border-amber-500/30">
+                            In progress
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-slate-200">
+                        {session.status === 'completed'
+                          ? `${session.correctCount}/${session.questionCount}`
+                          : `${session.answeredCount}/${session.questionCount} answered`}
+                      </TableCell>
+                      <TableCell className="text-slate-200 font-medium">
+                        {session.status === 'completed' ? `${session.score}/${session.maxScore}` : '—'}
+                      </TableCell>
+                      <TableCell className="text-slate-400">
+                        {formatDate(session.completedAt ?? session.startedAt)}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+
         {/* Attempts Table */}
         <Card className="border-slate-700 bg-slate-800/50">
           <CardContent className="p-0">
@@ -191,12 +300,22 @@ export default function AttemptsPage() {
                         )}
                       </TableCell>
                       <TableCell className="text-slate-200 font-medium">
-                        +{attempt.score}
+                        +{attempt.awardedScore}
+                        {attempt.awardedScore < attempt.score && (
+                          <span className="ml-1 text-xs font-normal text-slate-500">
+                            of {attempt.score} · answer #{attempt.attemptNumber}
+                          </span>
+                        )}
                       </TableCell>
                       <TableCell className="text-slate-400">
                         <div className="flex items-center gap-1">
                           <Clock className="h-3 w-3" />
                           {formatTime(attempt.timeTakenSeconds)}
+                          {attempt.isLate && (
+                            <Badge className="ml-1 bg-red-500/10 text-red-400 border-red-500/30">
+                              Late
+                            </Badge>
+                          )}
                         </div>
                       </TableCell>
                       <TableCell className="text-slate-400">
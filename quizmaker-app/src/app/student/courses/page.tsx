@@ -0,0 +1,242 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { ArrowLeft, BookOpen, LogIn } from 'lucide-react';
+
+interface Course {
+  id: string;
+  name: string;
+  description: string | null;
+  instructorName: string;
+  questionCount: number;
+  enrolledAt?: string;
+}
+
+export default function StudentCoursesPage() {
+  const [courses, setCourses] = useState<Course[]>([]);
+  const [joinCode, setJoinCode] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [joining, setJoining] = useState(false);
+  const [leaveTarget, setLeaveTarget] = useState<Course | null>(null);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+
+  useEffect(() => {
+    fetchCourses();
+  }, []);
+
+  const fetchCourses = async () => {
+    try {
+      const response = await fetch('/api/courses');
+      const data = await response.json() as { success: boolean; message?: string; courses: Course[] };
+
+      if (data.success) {
+        setCourses(data.courses);
+      } else {
+        setError(data.message || 'Failed to load courses');
+      }
+    } catch (error) {
+      console.error('Failed to fetch courses:', error);
+      setError('Failed to load courses');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const joinCourse = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setJoining(true);
+    setError('');
+    setNotice('');
+
+    try {
+      const response = await fetch('/api/courses/join', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ joinCode }),
+      });
+      const data = await response.json() as { success: boolean; message?: string; course?: Course };
+
+      if (!data.success || !data.course) {
+        setError(data.message || 'Failed to join course');
+        return;
+      }
+
+      setCourses((prev) => [...prev, data.course as Course].sort((a, b) => a.name.localeCompare(b.name)));
+      setJoinCode('');
+      setNotice(data.message || 'Joined course');
+    } catch (error) {
+      console.error('Failed to join course:', error);
+      setError('Failed to join course');
+    } finally {
+      setJoining(false);
+    }
+  };
+
+  const leaveCourse = async () => {
+    if (!leaveTarget) return;
+
+    setError('');
+    setNotice('');
+    try {
+      const response = await fetch(`/api/courses/${leaveTarget.id}/enrollment`, { method: 'DELETE' });
+      const data = await response.json() as { success: boolean; message?: string };
+
+      if (data.success) {
+        setCourses((prev) => prev.filter((c) => c.id !== leaveTarget.id));
+      } else {
+        setError(data.message || 'Failed to leave course');
+      }
+    } catch (error) {
+      console.error('Failed to leave course:', error);
+      setError('Failed to leave course');
+    } finally {
+      setLeaveTarget(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900">
+      {/* Header */}
+      <nav className="border-b border-slate-700 bg-slate-800/50 backdrop-blur-sm sticky top-0 z-50">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center gap-3">
+            <Link href="/student/quiz">
+              <Button variant="ghost" size="icon" className="text-slate-400 hover:text-slate-100">
+                <ArrowLeft className="h-5 w-5" />
+              </Button>
+            </Link>
+            <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-blue-500/10">
+              <BookOpen className="h-5 w-5 text-blue-500" />
+            </div>
+            <h1 className="text-xl font-bold text-slate-100">My Courses</h1>
+          </div>
+        </div>
+      </nav>
+
+      <div className="container mx-auto px-4 py-8 max-w-3xl space-y-6">
+        <Card className="border-slate-700 bg-slate-800/50">
+          <CardHeader>
+            <CardTitle className="text-slate-100">Join a course</CardTitle>
+            <CardDescription className="text-slate-400">
+              Enter the join code your instructor shared with you
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={joinCourse} className="flex gap-2">
+              <Input
+                value={joinCode}
+                onChange={(e) => setJoinCode(e.target.value)}
+                placeholder="e.g. K7PX2M9Q"
+                required
+                maxLength={20}
+                className="font-mono uppercase tracking-widest border-slate-600 bg-slate-700/50 text-slate-100 placeholder:text-slate-500 focus-visible:ring-blue-500"
+              />
+              <Button
+                type="submit"
+                disabled={joining}
+                className="bg-blue-600 hover:bg-blue-700 text-white"
+              >
+                <LogIn className="h-4 w-4 mr-2" />
+                {joining ? 'Joining...' : 'Join'}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        {error && (
+          <div className="rounded-md bg-red-500/10 border border-red-500/20 p-4 text-sm text-red-400">
+            {error}
+          </div>
+        )}
+        {notice && (
+          <div className="rounded-md bg-blue-500/10 border border-blue-500/20 p-4 text-sm text-blue-400">
+            {notice}
+          </div>
+        )}
+
+        {loading ? (
+          <div className="space-y-3">
+            {Array.from({ length: 2 }).map((_, i) => (
+              <Skeleton key={i} className="h-24 w-full rounded-lg" />
+            ))}
+          </div>
+        ) : courses.length === 0 ? (
+          <Card className="border-slate-700 bg-slate-800/50">
+            <CardContent className="py-12 text-center text-slate-400">
+              You are not enrolled in any courses yet.
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-3">
+            {courses.map((course) => (
+              <Card key={course.id} className="border-slate-700 bg-slate-800/50">
+                <CardContent className="flex items-center justify-between gap-4 p-4">
+                  <div className="min-w-0">
+                    <p className="font-medium text-slate-100 truncate">{course.name}</p>
+                    {course.description && (
+                      <p className="text-sm text-slate-400 truncate">{course.description}</p>
+                    )}
+                    <p className="text-xs text-slate-500 mt-1">
+                      {course.instructorName} &middot; {course.questionCount} questions
+                      {course.enrolledAt && ` · joined ${new Date(course.enrolledAt).toLocaleDateString()}`}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setLeaveTarget(course)}
+                    className="text-red-400 hover:text-red-300 hover:bg-red-500/10"
+                  >
+                    Leave
+                  </Button>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Leave Confirmation Dialog */}
+      <Dialog open={leaveTarget !== null} onOpenChange={(open) => { if (!open) setLeaveTarget(null); }}>
+        <DialogContent className="bg-slate-800 border-slate-700">
+          <DialogHeader>
+            <DialogTitle className="text-slate-100">Leave {leaveTarget?.name}?</DialogTitle>
+            <DialogDescription className="text-slate-400">
+              You will no longer get this course&apos;s questions or quizzes. Your past attempts are kept,
+              and you can rejoin with the join code.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setLeaveTarget(null)}
+              className="border-slate-600 text-slate-300 hover:bg-slate-700"
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={leaveCourse}
+              className="bg-red-600 hover:bg-red-700 text-white"
+            >
+              Leave Course
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
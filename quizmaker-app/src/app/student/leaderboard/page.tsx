@@ -1,11 +1,19 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import Link from 'next/link';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
 import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import {
   Table,
   TableBody,
@@ -20,39 +28,155 @@ import {
   Trophy,
   Medal,
   Award,
+  EyeOff,
 } from 'lucide-react';
+import { LeaderboardVisibility } from '@/lib/leaderboard-privacy';
 
 interface LeaderboardEntry {
   rank: number;
-  studentId: string;
+  studentId: string | null;
   studentName: string;
+  isCurrentStudent: boolean;
   totalScore: number;
   totalAttempts: number;
   correctAttempts: number;
   successRate: number;
 }
 
+interface CourseOption {
+  id: string;
+  name: string;
+}
+
+type Period = 'all' | 'week' | 'month' | 'custom';
+type Ranking = 'competition' | 'dense';
+
+const PERIOD_LABELS: Record<Period, string> = {
+  all: 'All time',
+  week: 'This week',
+  month: 'This month',
+  custom: 'Custom range',
+};
+
+const VISIBILITY_LABELS: Record<LeaderboardVisibility, string> = {
+  shown: 'Show my name',
+  pseudonym: 'Use a pseudonym',
+  hidden: 'Hide me',
+};
+
 export default function LeaderboardPage() {
   const [leaderboard, setLeaderboard] = useState<LeaderboardEntry[]>([]);
+  const [currentStudent, setCurrentStudent] = useState<LeaderboardEntry | null>(null);
+  const [totalRanked, setTotalRanked] = useState(0);
+  const [categories, setCategories] = useState<string[]>([]);
   const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [courses, setCourses] = useState<CourseOption[]>([]);
+  const [courseId, setCourseId] = useState('all');
+  const [period, setPeriod] = useState<Period>('all');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [category, setCategory] = useState('all');
+  const [difficulty, setDifficulty] = useState('all');
+  const [ranking, setRanking] = useState<Ranking>('competition');
+  const [visibility, setVisibility] = useState<LeaderboardVisibility | null>(null);
+  const [pseudonym, setPseudonym] = useState('');
+  const [currentVisibility, setCurrentVisibility] = useState<LeaderboardVisibility | null>(null);
 
   useEffect(() => {
-    fetchLeaderboard();
+    fetch('/api/account/leaderboard-privacy')
+      .then((response) => response.json() as Promise<{
+        success: boolean;
+        visibility?: LeaderboardVisibility;
+        pseudonym?: string;
+      }>)
+      .then((data) => {
+        if (data.success && data.visibility) {
+          setVisibility(data.visibility);
+          setPseudonym(data.pseudonym || '');
+        }
+      })
+      .catch((error) => console.error('Failed to fetch leaderboard privacy:', error));
+
+    fetch('/api/courses')
+      .then((response) => response.json() as Promise<{ success: boolean; courses?: CourseOption[] }>)
+      .then((data) => {
+        if (data.success && data.courses) {
+          setCourses(data.courses);
+        }
+      })
+      .catch((error) => console.error('Failed to fetch courses:', error));
   }, []);
 
-  const fetchLeaderboard = async () => {
+  const fetchLeaderboard = useCallback(async () => {
+    // Wait for at least one end of a custom range
+    if (period === 'custom' && !from && !to) {
+      return;
+    }
+
+    setLoading(true);
+    setError('');
     try {
-      const response = await fetch('/api/quiz/leaderboard?limit=20');
-      const data = await response.json();
+      const params = new URLSearchParams({ limit: '20', period, ranking });
+      if (courseId !== 'all') params.append('courseId', courseId);
+      if (category !== 'all') params.append('category', category);
+      if (difficulty !== 'all') params.append('difficulty', difficulty);
+      if (period === 'custom') {
+        if (from) params.append('from', from);
+        if (to) params.append('to', to);
+      }
+
+      const response = await fetch(`/api/quiz/leaderboard?${params}`);
+      const data = await response.json() as {
+        success: boolean;
+        message?: string;
+        leaderboard: LeaderboardEntry[];
+        currentStudent: LeaderboardEntry | null;
+        currentVisibility: LeaderboardVisibility | null;
+        totalRanked: number;
+        categories: string[];
+      };
 
       if (data.success) {
         setLeaderboard(data.leaderboard);
+        setCurrentStudent(data.currentStudent);
+        setCurrentVisibility(data.currentVisibility);
+        setTotalRanked(data.totalRanked);
+        setCategories(data.categories);
+      } else {
+        setError(data.message || 'Failed to load leaderboard');
       }
     } catch (error) {
       console.error('Failed to fetch leaderboard:', error);
     } finally {
       setLoading(false);
     }
+  }, [courseId, period, from, to, category, difficulty, ranking]);
+
+  useEffect(() => {
+    fetchLeaderboard();
+  }, [fetchLeaderboard]);
+
+  const updateVisibility = async (value: LeaderboardVisibility) => {
+    setError('');
+    try {
+      const response = await fetch('/api/account/leaderboard-privacy', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ visibility: value }),
+      });
+      const data = await response.json() as { success: boolean; message?: string; visibility?: LeaderboardVisibility };
+
+      if (data.success && data.visibility) {
+        setVisibility(data.visibility);
+        fetchLeaderboard();
+      } else {
+        setError(data.message || 'Failed to update leaderboard privacy');
+      }
+    } catch (error) {
+      console.error('Failed to update leaderboard privacy:', error);
+      setError('Failed to update leaderboard privacy');
+    }
   };
 
   const getRankIcon = (rank: number) => {
@@ -81,6 +205,72 @@ export default function LeaderboardPage() {
     }
   };
 
+  const ownEntryShown = leaderboard.some((entry) => entry.isCurrentStudent);
+
+  // Pseudonymous entries have no student id
+  const renderRow = (entry: LeaderboardEntry, index: number) => (
+    <TableRow
+      key={entry.studentId ?? `pseudonym-${index}`}
+      className={`border-slate-700 hover:bg-slate-700/30 ${
+        entry.isCurrentStudent ? 'bg-blue-500/10 border-blue-500/30' : getRankStyle(entry.rank)
+      }`}
+    >
+      <TableCell className="font-medium">
+        <div className="flex items-center justify-center w-8 h-8">
+          {getRankIcon(entry.rank)}
+        </div>
+      </TableCell>
+      <TableCell>
+        <div className="flex items-center gap-2">
+          <div className="h-8 w-8 rounded-full bg-slate-700 flex items-center justify-center">
+            <GraduationCap className="h-4 w-4 text-slate-400" />
+          </div>
+          <span className="text-slate-200 font-medium">{entry.studentName}</span>
+          {entry.isCurrentStudent && (
+            <Badge variant="outline" className="border-blue-500/30 text-blue-400">
+              You
+            </Badge>
+          )}
+          {entry.isCurrentStudent && currentVisibility && currentVisibility !== 'shown' && (
+            <span className="text-xs text-slate-500">
+              {currentVisibility === 'hidden' ? 'hidden from others' : `others see ${pseudonym}`}
+            </span>
+          )}
+        </div>
+      </TableCell>
+      <TableCell className="text-right">
+        <Badge
+          variant="outline"
+          className={
+            entry.rank <= 3
+              ? 'bg-amber-500/10 text-amber-400 border-amber-500/30'
+              : 'bg-slate-700 text-slate-300 border-slate-600'
+          }
+        >
+          {entry.totalScore} pts
+        </Badge>
+      </TableCell>
+      <TableCell className="text-right hidden md:table-cell text-slate-400">
+        {entry.totalAttempts}
+      </TableCell>
+      <TableCell className="text-right hidden md:table-cell">
+        <span
+          className={
+            entry.successRate >= 80
+              ? 'text-green-400'
+              : entry.successRate >= 60
+              ? 'text-amber-400'
+              : 'text-slate-400'
+          }
+        >
+          {entry.successRate}%
+        </span>
+      </TableCell>
+    </TableRow>
+  );
+
+  const filterTriggerClass = 'border-slate-600 bg-slate-700/50 text-slate-100';
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900">
       {/* Header */}
@@ -100,7 +290,138 @@ export default function LeaderboardPage() {
         </div>
       </nav>
 
-      <div className="container mx-auto px-4 py-8 max-w-4xl">
+      <div className="container mx-auto px-4 py-8 max-w-4xl space-y-6">
+        {/* Filters */}
+        <Card className="border-slate-700 bg-slate-800/50">
+          <CardContent className="pt-6 space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              <Select value={period} onValueChange={(value) => setPeriod(value as Period)}>
+                <SelectTrigger className={filterTriggerClass}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-slate-800 border-slate-700">
+                  {(Object.keys(PERIOD_LABELS) as Period[]).map((value) => (
+                    <SelectItem key={value} value={value} className="text-slate-100">
+                      {PERIOD_LABELS[value]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              <Select value={courseId} onValueChange={setCourseId}>
+                <SelectTrigger className={filterTriggerClass}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-slate-800 border-slate-700">
+                  <SelectItem value="all" className="text-slate-100">
+                    All my courses
+                  </SelectItem>
+                  {courses.map((course) => (
+                    <SelectItem key={course.id} value={course.id} className="text-slate-100">
+                      {course.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              <Select value={category} onValueChange={setCategory}>
+                <SelectTrigger className={filterTriggerClass}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-slate-800 border-slate-700">
+                  <SelectItem value="all" className="text-slate-100">
+                    All categories
+                  </SelectItem>
+                  {categories.map((value) => (
+                    <SelectItem key={value} value={value} className="text-slate-100">
+                      {value}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              <Select value={difficulty} onValueChange={setDifficulty}>
+                <SelectTrigger className={filterTriggerClass}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-slate-800 border-slate-700">
+                  <SelectItem value="all" className="text-slate-100">All difficulties</SelectItem>
+                  <SelectItem value="easy" className="text-slate-100">Easy</SelectItem>
+                  <SelectItem value="medium" className="text-slate-100">Medium</SelectItem>
+                  <SelectItem value="hard" className="text-slate-100">Hard</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="flex flex-col md:flex-row md:items-center gap-3">
+              {period === 'custom' && (
+                <div className="flex items-center gap-2">
+                  <Input
+                    type="date"
+                    value={from}
+                    onChange={(e) => setFrom(e.target.value)}
+                    className="border-slate-600 bg-slate-700/50 text-slate-100"
+                  />
+                  <span className="text-slate-500">to</span>
+                  <Input
+                    type="date"
+                    value={to}
+                    onChange={(e) => setTo(e.target.value)}
+                    className="border-slate-600 bg-slate-700/50 text-slate-100"
+                  />
+                </div>
+              )}
+              <div className="flex items-center gap-2 md:ml-auto">
+                <span className="text-sm text-slate-400">Ties</span>
+                <Select value={ranking} onValueChange={(value) => setRanking(value as Ranking)}>
+                  <SelectTrigger className={`w-44 ${filterTriggerClass}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-slate-800 border-slate-700">
+                    <SelectItem value="competition" className="text-slate-100">Skip ranks (1, 2, 2, 4)</SelectItem>
+                    <SelectItem value="dense" className="text-slate-100">Dense (1, 2, 2, 3)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Privacy */}
+        {visibility && (
+          <Card className="border-slate-700 bg-slate-800/50">
+            <CardContent className="pt-6 flex flex-col md:flex-row md:items-center gap-3">
+              <div className="flex items-center gap-3 flex-1">
+                <EyeOff className="h-5 w-5 text-slate-400 shrink-0" />
+                <div>
+                  <p className="text-sm font-medium text-slate-200">How other students see you</p>
+                  <p className="text-xs text-slate-400">
+                    {visibility === 'pseudonym'
+                      ? `You appear as ${pseudonym}.`
+                      : visibility === 'hidden'
+                      ? 'You are left off other students\' leaderboards; only you see your rank.'
+                      : 'You appear under your name.'}
+                    {currentVisibility && currentVisibility !== visibility &&
+                      ' Your instructor requires more privacy on this leaderboard.'}
+                  </p>
+                </div>
+              </div>
+              <Select value={visibility} onValueChange={(value) => updateVisibility(value as LeaderboardVisibility)}>
+                <SelectTrigger className={`md:w-48 ${filterTriggerClass}`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-slate-800 border-slate-700">
+                  {(Object.keys(VISIBILITY_LABELS) as LeaderboardVisibility[]).map((value) => (
+                    <SelectItem key={value} value={value} className="text-slate-100">
+                      {VISIBILITY_LABELS[value]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </CardContent>
+          </Card>
+        )}
+
         <Card className="border-slate-700 bg-slate-800/50">
           <CardHeader>
             <CardTitle className="text-slate-100 flex items-center gap-2">
@@ -108,7 +429,8 @@ export default function LeaderboardPage() {
               Top Students
             </CardTitle>
             <CardDescription className="text-slate-400">
-              Rankings based on total quiz scores
+              Rankings based on total quiz scores among the students of your courses
+              {!loading && totalRanked > 0 && ` · ${totalRanked} ranked`}
             </CardDescription>
           </CardHeader>
           <CardContent className="p-0">
@@ -133,61 +455,35 @@ export default function LeaderboardPage() {
                       <TableCell className="hidden md:table-cell"><Skeleton className="h-4 w-12 ml-auto" /></TableCell>
                     </TableRow>
                   ))
+                ) : error ? (
+                  <TableRow className="border-slate-700">
+                    <TableCell colSpan={5} className="text-center py-8 text-amber-400">
+                      {error}
+                    </TableCell>
+                  </TableRow>
                 ) : leaderboard.length === 0 ? (
                   <TableRow className="border-slate-700">
                     <TableCell colSpan={5} className="text-center py-8 text-slate-400">
-                      No rankings yet. Be the first to take a quiz!
+                      {period === 'all' && category === 'all' && difficulty === 'all'
+                        ? 'No rankings yet. Be the first to take a quiz!'
+                        : 'No attempts match these filters.'}
                     </TableCell>
                   </TableRow>
                 ) : (
-                  leaderboard.map((entry) => (
-                    <TableRow
-                      key={entry.studentId}
-                      className={`border-slate-700 hover:bg-slate-700/30 ${getRankStyle(entry.rank)}`}
-                    >
-                      <TableCell className="font-medium">
-                        <div className="flex items-center justify-center w-8 h-8">
-                          {getRankIcon(entry.rank)}
-                        </div>
-                      </TableCell>
-                      <TableCell>
-                        <div className="flex items-center gap-2">
-                          <div className="h-8 w-8 rounded-full bg-slate-700 flex items-center justify-center">
-                            <GraduationCap className="h-4 w-4 text-slate-400" />
-                          </div>
-                          <span className="text-slate-200 font-medium">{entry.studentName}</span>
-                        </div>
-                      </TableCell>
-                      <TableCell className="text-right">
-                        <Badge
-                          variant="outline"
-                          className={
-                            entry.rank <= 3
-                              ? 'bg-amber-500/10 text-amber-400 border-amber-500/30'
-                              : 'bg-slate-700 text-slate-300 border-slate-600'
-                          }
-                        >
-                          {entry.totalScore} pts
-                        </Badge>
-                      </TableCell>
-                      <TableCell className="text-right hidden md:table-cell text-slate-400">
-                        {entry.totalAttempts}
-                      </TableCell>
-                      <TableCell className="text-right hidden md:table-cell">
-                        <span
-                          className={
-                            entry.successRate >= 80
-                              ? 'text-green-400'
-                              : entry.successRate >= 60
-                              ? 'text-amber-400'
-                              : 'text-slate-400'
-                          }
-                        >
-                          {entry.successRate}%
-                        </span>
-                      </TableCell>
-                    </TableRow>
-                  ))
+                  <>
+                    {leaderboard.map(renderRow)}
+                    {/* The student's own rank when it is outside the top list */}
+                    {currentStudent && !ownEntryShown && (
+                      <>
+                        <TableRow className="border-slate-700 hover:bg-transparent">
+                          <TableCell colSpan={5} className="py-1 text-center text-slate-600">
+                            ⋯
+                          </TableCell>
+                        </TableRow>
+                        {renderRow(currentStudent, leaderboard.length)}
+                      </>
+                    )}
+                  </>
                 )}
               </TableBody>
             </Table>
@@ -197,4 +493,3 @@ export default function LeaderboardPage() {
     </div>
   );
 }
-
@@ -9,6 +9,14 @@ import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -27,6 +35,11 @@ import {
   Trophy,
   History,
   BarChart3,
+  ClipboardList,
+  Timer,
+  MonitorSmartphone,
+  MailWarning,
+  BookOpen,
 } from 'lucide-react';
 
 interface Question {
@@ -35,6 +48,8 @@ interface Question {
   category: string | null;
   difficulty: 'easy' | 'medium' | 'hard';
   points: number;
+  questionType: 'single_choice' | 'multi_select' | 'true_false' | 'numeric' | 'short_text';
+  deadlineAt?: string | null;
   options: Array<{
     id: string;
     optionText: string;
@@ -45,93 +60,299 @@ interface Question {
 interface SubmitResult {
   isCorrect: boolean;
   score: number;
+  awardedScore: number;
+  attemptNumber: number;
   correctOptionId: string;
+  correctOptionIds: string[];
   correctOptionText: string;
+  isLate: boolean;
+  isLastQuestion: boolean;
+}
+
+interface QuizSession {
+  id: string;
+  quizId: string | null;
+  quizTitle: string | null;
+  status: 'in_progress' | 'completed';
+  questionCount: number;
+  answeredCount: number;
+  correctCount: number;
+  score: number;
+  maxScore: number;
+}
+
+interface PublishedQuiz {
+  id: string;
+  title: string;
+  description: string | null;
+  instructorName: string;
+  courseName: string;
+  questionCount: number;
+  totalPoints: number;
+  timeLimitSeconds: number | null;
+}
+
+interface CourseOption {
+  id: string;
+  name: string;
 }
 
 interface UserData {
   id: string;
   name: string;
   email: string;
+  emailVerified: boolean;
 }
 
+const QUESTION_COUNT_CHOICES = ['5', '10', '20'];
+
 export default function StudentQuizPage() {
   const router = useRouter();
   const [user, setUser] = useState<UserData | null>(null);
+  const [session, setSession] = useState<QuizSession | null>(null);
+  const [questionCount, setQuestionCount] = useState('10');
+  const [courses, setCourses] = useState<CourseOption[]>([]);
+  const [courseId, setCourseId] = useState('all');
+  const [publishedQuizzes, setPublishedQuizzes] = useState<PublishedQuiz[]>([]);
   const [question, setQuestion] = useState<Question | null>(null);
+  const [position, setPosition] = useState(0);
   const [selectedOption, setSelectedOption] = useState<string>('');
+  const [selectedOptions, setSelectedOptions] = useState<string[]>([]);
+  const [responseText, setResponseText] = useState('');
   const [loading, setLoading] = useState(true);
   const [submitting, setSubmitting] = useState(false);
   const [result, setResult] = useState<SubmitResult | null>(null);
   const [noQuestions, setNoQuestions] = useState(false);
-  const [startTime, setStartTime] = useState<number>(0);
+  const [secondsLeft, setSecondsLeft] = useState<number | null>(null);
+  const [verificationRequired, setVerificationRequired] = useState(true);
+  const [verificationMessage, setVerificationMessage] = useState('');
+  const [sendingVerification, setSendingVerification] = useState(false);
 
   const fetchUser = async () => {
     try {
       const response = await fetch('/api/auth/me');
-      const data = await response.json();
+      const data = await response.json() as {
+        success: boolean;
+        user: UserData;
+        emailVerificationRequired?: boolean;
+      };
       if (data.success) {
         setUser(data.user);
+        setVerificationRequired(data.emailVerificationRequired ?? true);
       }
     } catch (error) {
       console.error('Failed to fetch user:', error);
     }
   };
 
-  const fetchQuestion = useCallback(async () => {
+  const fetchCourses = async () => {
+    try {
+      const response = await fetch('/api/courses');
+      const data = await response.json() as { success: boolean; courses: CourseOption[] };
+      if (data.success) {
+        setCourses(data.courses);
+      }
+    } catch (error) {
+      console.error('Failed to fetch courses:', error);
+    }
+  };
+
+  const fetchPublishedQuizzes = async () => {
+    try {
+      const response = await fetch('/api/quiz/published');
+      const data = await response.json() as { success: boolean; quizzes: PublishedQuiz[] };
+      if (data.success) {
+        setPublishedQuizzes(data.quizzes);
+      }
+    } catch (error) {
+      console.error('Failed to fetch quizzes:', error);
+    }
+  };
+
+  const finishSession = useCallback(async (sessionId: string) => {
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/quiz/sessions/${sessionId}/finish`, { method: 'POST' });
+      const data = await response.json() as { success: boolean; session: QuizSession };
+
+      if (data.success) {
+        setSession(data.session);
+        setQuestion(null);
+      }
+    } catch (error) {
+      console.error('Failed to finish quiz:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const fetchNextQuestion = useCallback(async (sessionId: string) => {
     setLoading(true);
     setResult(null);
     setSelectedOption('');
-    setNoQuestions(false);
+    setSelectedOptions([]);
+    setResponseText('');
 
     try {
-      const response = await fetch('/api/quiz/random');
-      const data = await response.json();
+      const response = await fetch(`/api/quiz/sessions/${sessionId}/next`);
+      const data = await response.json() as {
+        success: boolean;
+        completed?: boolean;
+        position?: number;
+        question?: Question;
+      };
+
+      if (data.success && data.completed) {
+        await finishSession(sessionId);
+        return;
+      }
 
       if (data.success && data.question) {
         setQuestion(data.question);
-        setStartTime(Date.now());
-      } else if (data.noQuestions) {
-        setNoQuestions(true);
-        setQuestion(null);
+        setPosition(data.position ?? 0);
       }
     } catch (error) {
       console.error('Failed to fetch question:', error);
     } finally {
       setLoading(false);
     }
-  }, []);
+  }, [finishSession]);
+
+  // Resume the latest quiz if it was left in progress
+  const resumeSession = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await fetch('/api/quiz/sessions?limit=1');
+      const data = await response.json() as { success: boolean; data: QuizSession[] };
+
+      const latest = data.success ? data.data[0] : undefined;
+      if (latest && latest.status === 'in_progress') {
+        setSession(latest);
+        await fetchNextQuestion(latest.id);
+        return;
+      }
+    } catch (error) {
+      console.error('Failed to load quiz sessions:', error);
+    }
+    setLoading(false);
+  }, [fetchNextQuestion]);
+
+  // Count down to the deadline the server stamped when it served the question
+  useEffect(() => {
+    const deadlineAt = question?.deadlineAt;
+    if (!deadlineAt || result) {
+      setSecondsLeft(null);
+      return;
+    }
+
+    const tick = () => {
+      setSecondsLeft(Math.max(0, Math.ceil((new Date(deadlineAt).getTime() - Date.now()) / 1000)));
+    };
+    tick();
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [question, result]);
 
   useEffect(() => {
     fetchUser();
-    fetchQuestion();
-  }, [fetchQuestion]);
+    fetchCourses();
+    fetchPublishedQuizzes();
+    resumeSession();
+  }, [resumeSession]);
+
+  // Start a random quiz, or the given published quiz when quizId is set
+  const startSession = async (quizId?: string) => {
+    setLoading(true);
+    setNoQuestions(false);
+
+    try {
+      const response = await fetch('/api/quiz/sessions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(
+          quizId
+            ? { quizId }
+            : {
+                questionCount: parseInt(questionCount, 10),
+                courseId: courseId === 'all' ? undefined : courseId,
+              }
+        ),
+      });
+      const data = await response.json() as {
+        success: boolean;
+        session?: QuizSession;
+        noQuestions?: boolean;
+      };
+
+      if (data.success && data.session) {
+        setSession(data.session);
+        await fetchNextQuestion(data.session.id);
+        return;
+      }
+
+      if (data.noQuestions) {
+        setNoQuestions(true);
+      }
+    } catch (error) {
+      console.error('Failed to start quiz:', error);
+    }
+    setLoading(false);
+  };
+
+  const resetQuiz = () => {
+    setSession(null);
+    setQuestion(null);
+    setResult(null);
+    setNoQuestions(false);
+  };
+
+  const toggleOption = (optionId: string) => {
+    setSelectedOptions((prev) =>
+      prev.includes(optionId) ? prev.filter((id) => id !== optionId) : [...prev, optionId]
+    );
+  };
+
+  const isMultiSelect = question?.questionType === 'multi_select';
+  const isTypedAnswer =
+    question?.questionType === 'numeric' || question?.questionType === 'short_text';
+  const hasSelection = isTypedAnswer
+    ? responseText.trim().length > 0
+    : isMultiSelect
+      ? selectedOptions.length > 0
+      : !!selectedOption;
 
   const handleSubmit = async () => {
-    if (!selectedOption || !question) return;
+    if (!hasSelection || !question || !session) return;
 
     setSubmitting(true);
-    const timeTaken = Math.round((Date.now() - startTime) / 1000);
 
     try {
-      const response = await fetch('/api/quiz/submit', {
+      const response = await fetch(`/api/quiz/sessions/${session.id}/submit`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           questionId: question.id,
-          selectedOptionId: selectedOption,
-          timeTakenSeconds: timeTaken,
+          ...(isTypedAnswer
+            ? { responseText }
+            : isMultiSelect
+              ? { selectedOptionIds: selectedOptions }
+              : { selectedOptionId: selectedOption }),
         }),
       });
 
-      const data = await response.json();
+      const data = await response.json() as SubmitResult & { success: boolean };
 
       if (data.success) {
         setResult({
           isCorrect: data.isCorrect,
           score: data.score,
+          awardedScore: data.awardedScore,
+          attemptNumber: data.attemptNumber,
           correctOptionId: data.correctOptionId,
+          correctOptionIds: data.correctOptionIds,
           correctOptionText: data.correctOptionText,
+          isLate: data.isLate,
+          isLastQuestion: data.isLastQuestion,
         });
       }
     } catch (error) {
@@ -141,6 +362,19 @@ export default function StudentQuizPage() {
     }
   };
 
+  const resendVerification = async () => {
+    setSendingVerification(true);
+    try {
+      const response = await fetch('/api/account/verification', { method: 'POST' });
+      const data = await response.json() as { success: boolean; message: string };
+      setVerificationMessage(data.success ? 'Verification email sent. Check your inbox.' : data.message);
+    } catch {
+      setVerificationMessage('Failed to send verification email. Please try again.');
+    } finally {
+      setSendingVerification(false);
+    }
+  };
+
   const handleLogout = async () => {
     await fetch('/api/auth/logout', { method: 'POST' });
     router.push('/login');
@@ -177,6 +411,12 @@ export default function StudentQuizPage() {
 
             <div className="flex items-center gap-4">
               <div className="hidden md:flex items-center gap-2">
+                <Link href="/student/courses">
+                  <Button variant="ghost" size="sm" className="text-slate-400 hover:text-slate-100">
+                    <BookOpen className="h-4 w-4 mr-2" />
+                    Courses
+                  </Button>
+                </Link>
                 <Link href="/student/attempts">
                   <Button variant="ghost" size="sm" className="text-slate-400 hover:text-slate-100">
                     <History className="h-4 w-4 mr-2" />
@@ -205,6 +445,12 @@ export default function StudentQuizPage() {
                     <p className="text-xs text-slate-400">{user?.email}</p>
                   </div>
                   <DropdownMenuSeparator className="bg-slate-700" />
+                  <DropdownMenuItem asChild className="md:hidden">
+                    <Link href="/student/courses" className="text-slate-200 focus:bg-slate-700 cursor-pointer">
+                      <BookOpen className="h-4 w-4 mr-2" />
+                      Courses
+                    </Link>
+                  </DropdownMenuItem>
                   <DropdownMenuItem asChild className="md:hidden">
                     <Link href="/student/attempts" className="text-slate-200 focus:bg-slate-700 cursor-pointer">
                       <History className="h-4 w-4 mr-2" />
@@ -223,6 +469,12 @@ export default function StudentQuizPage() {
                       Leaderboard
                     </Link>
                   </DropdownMenuItem>
+                  <DropdownMenuItem asChild>
+                    <Link href="/account/sessions" className="text-slate-200 focus:bg-slate-700 cursor-pointer">
+                      <MonitorSmartphone className="h-4 w-4 mr-2" />
+                      Active Sessions
+                    </Link>
+                  </DropdownMenuItem>
                   <DropdownMenuSeparator className="bg-slate-700" />
                   <DropdownMenuItem
                     onClick={handleLogout}
@@ -240,6 +492,29 @@ export default function StudentQuizPage() {
 
       {/* Main Content */}
       <div className="container mx-auto px-4 py-8 max-w-3xl">
+        {user && verificationRequired && !user.emailVerified && (
+          <div className="mb-6 flex flex-col gap-3 rounded-md border border-amber-500/20 bg-amber-500/10 p-4 sm:flex-row sm:items-center sm:justify-between">
+            <div className="flex items-start gap-3">
+              <MailWarning className="h-5 w-5 shrink-0 text-amber-400" />
+              <div className="text-sm">
+                <p className="font-medium text-amber-300">Verify your email address</p>
+                <p className="text-amber-400/80">
+                  {verificationMessage || `Check ${user.email} for a verification link to answer questions and join the leaderboard.`}
+                </p>
+              </div>
+            </div>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={resendVerification}
+              disabled={sendingVerification}
+              className="border-amber-500/30 text-amber-300 hover:bg-amber-500/10"
+            >
+              {sendingVerification ? 'Sending...' : 'Resend Email'}
+            </Button>
+          </div>
+        )}
+
         {loading ? (
           <Card className="border-slate-700 bg-slate-800/50">
             <CardHeader>
@@ -263,23 +538,180 @@ export default function StudentQuizPage() {
               </div>
               <h2 className="text-xl font-semibold text-slate-100 mb-2">No Questions Available</h2>
               <p className="text-slate-400 mb-6">
-                There are no quiz questions available at the moment. Please check back later!
+                {courses.length === 0
+                  ? 'Join a course with the code from your instructor to start practising.'
+                  : 'There are no quiz questions available at the moment. Please check back later!'}
               </p>
-              <Button
-                onClick={fetchQuestion}
-                variant="outline"
-                className="border-slate-600 text-slate-300 hover:bg-slate-700"
-              >
-                Try Again
-              </Button>
+              <div className="flex flex-col sm:flex-row gap-3 justify-center">
+                {courses.length === 0 && (
+                  <Link href="/student/courses">
+                    <Button className="w-full bg-blue-600 hover:bg-blue-700 text-white">
+                      <BookOpen className="h-4 w-4 mr-2" />
+                      Join a Course
+                    </Button>
+                  </Link>
+                )}
+                <Button
+                  onClick={resetQuiz}
+                  variant="outline"
+                  className="border-slate-600 text-slate-300 hover:bg-slate-700"
+                >
+                  Try Again
+                </Button>
+              </div>
             </CardContent>
           </Card>
+        ) : session?.status === 'completed' ? (
+          <Card className="border-slate-700 bg-slate-800/50">
+            <CardContent className="py-12 text-center">
+              <div className="mx-auto mb-4 flex h-16 w-16 items-center justify-center rounded-full bg-blue-500/10">
+                <Trophy className="h-8 w-8 text-blue-400" />
+              </div>
+              <h2 className="text-xl font-semibold text-slate-100 mb-2">Quiz Complete!</h2>
+              {session.quizTitle && (
+                <p className="text-slate-300 mb-2">{session.quizTitle}</p>
+              )}
+              <p className="text-4xl font-bold text-blue-400 mb-2">
+                {session.maxScore > 0 ? Math.round((session.score / session.maxScore) * 100) : 0}%
+              </p>
+              <p className="text-slate-400 mb-6">
+                {session.correctCount} of {session.questionCount} correct &middot; {session.score}/{session.maxScore} points
+              </p>
+              <div className="flex flex-col sm:flex-row gap-3 justify-center">
+                <Button
+                  onClick={resetQuiz}
+                  className="bg-blue-600 hover:bg-blue-700 text-white"
+                >
+                  Start New Quiz
+                </Button>
+                <Link href="/student/attempts">
+                  <Button
+                    variant="outline"
+                    className="w-full border-slate-600 text-slate-300 hover:bg-slate-700"
+                  >
+                    <History className="h-4 w-4 mr-2" />
+                    View History
+                  </Button>
+                </Link>
+              </div>
+            </CardContent>
+          </Card>
+        ) : !session ? (
+          <div className="space-y-6">
+            <Card className="border-slate-700 bg-slate-800/50">
+              <CardHeader>
+                <CardTitle className="text-slate-100">Start a Quiz</CardTitle>
+                <CardDescription className="text-slate-400">
+                  Questions are drawn at random when the quiz starts
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {courses.length > 1 && (
+                  <div className="space-y-2 mb-4">
+                    <Label className="text-slate-200">Course</Label>
+                    <Select value={courseId} onValueChange={setCourseId}>
+                      <SelectTrigger className="border-slate-600 bg-slate-700/50 text-slate-100">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent className="bg-slate-800 border-slate-700">
+                        <SelectItem value="all" className="text-slate-100">
+                          All my courses
+                        </SelectItem>
+                        {courses.map((course) => (
+                          <SelectItem key={course.id} value={course.id} className="text-slate-100">
+                            {course.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+                <div className="space-y-2 mb-6">
+                  <Label className="text-slate-200">Number of questions</Label>
+                  <Select value={questionCount} onValueChange={setQuestionCount}>
+                    <SelectTrigger className="border-slate-600 bg-slate-700/50 text-slate-100">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-slate-800 border-slate-700">
+                      {QUESTION_COUNT_CHOICES.map((count) => (
+                        <SelectItem key={count} value={count} className="text-slate-100">
+                          {count} questions
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Button
+                  onClick={() => startSession()}
+                  className="w-full bg-blue-600 hover:bg-blue-700 text-white"
+                >
+                  Start Quiz
+                  <ArrowRight className="h-4 w-4 ml-2" />
+                </Button>
+              </CardContent>
+            </Card>
+
+            {publishedQuizzes.length > 0 && (
+              <Card className="border-slate-700 bg-slate-800/50">
+                <CardHeader>
+                  <CardTitle className="text-slate-100 flex items-center gap-2">
+                    <ClipboardList className="h-5 w-5 text-blue-500" />
+                    Instructor Quizzes
+                  </CardTitle>
+                  <CardDescription className="text-slate-400">
+                    Fixed quizzes published by your instructors
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {publishedQuizzes.map((quiz) => (
+                    <div
+                      key={quiz.id}
+                      className="flex items-center justify-between gap-4 rounded-lg border border-slate-700 p-4"
+                    >
+                      <div className="min-w-0">
+                        <p className="font-medium text-slate-100 truncate">{quiz.title}</p>
+                        {quiz.description && (
+                          <p className="text-sm text-slate-400 truncate">{quiz.description}</p>
+                        )}
+                        <p className="text-xs text-slate-500 mt-1">
+                          {quiz.courseName} &middot; {quiz.instructorName} &middot; {quiz.questionCount} questions &middot; {quiz.totalPoints} pts
+                          {quiz.timeLimitSeconds && ` · ${Math.round(quiz.timeLimitSeconds / 60)} min limit`}
+                        </p>
+                      </div>
+                      <Button
+                        onClick={() => startSession(quiz.id)}
+                        variant="outline"
+                        className="border-blue-500/30 text-blue-400 hover:bg-blue-500/10"
+                      >
+                        Start
+                      </Button>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+          </div>
         ) : question ? (
           <Card className="border-slate-700 bg-slate-800/50">
             <CardHeader>
               <div className="flex items-center justify-between mb-2">
-                <CardTitle className="text-slate-100">Quiz Question</CardTitle>
+                <CardTitle className="text-slate-100">
+                  Question {position} of {session.questionCount}
+                </CardTitle>
                 <div className="flex items-center gap-2">
+                  {secondsLeft !== null && (
+                    <Badge
+                      variant="outline"
+                      className={
+                        secondsLeft <= 10
+                          ? 'bg-red-500/10 text-red-400 border-red-500/30'
+                          : 'border-slate-600 text-slate-300'
+                      }
+                    >
+                      <Timer className="h-3 w-3 mr-1" />
+                      {Math.floor(secondsLeft / 60)}:{(secondsLeft % 60).toString().padStart(2, '0')}
+                    </Badge>
+                  )}
                   <Badge variant="outline" className={getDifficultyColor(question.difficulty)}>
                     {question.difficulty}
                   </Badge>
@@ -303,43 +735,107 @@ export default function StudentQuizPage() {
               {/* Options */}
               {!result ? (
                 <>
-                  <RadioGroup
-                    value={selectedOption}
-                    onValueChange={setSelectedOption}
-                    className="space-y-3"
-                  >
-                    {question.options.map((option) => (
-                      <div
-                        key={option.id}
-                        className={`flex items-center space-x-3 rounded-lg border p-4 cursor-pointer transition-colors ${
-                          selectedOption === option.id
-                            ? 'border-blue-500 bg-blue-500/10'
-                            : 'border-slate-600 hover:border-slate-500 hover:bg-slate-700/30'
-                        }`}
-                        onClick={() => setSelectedOption(option.id)}
-                      >
-                        <RadioGroupItem
-                          value={option.id}
-                          id={option.id}
-                          className="border-slate-500 text-blue-500"
-                        />
-                        <Label
-                          htmlFor={option.id}
-                          className="flex-1 cursor-pointer text-slate-200"
+                  {isTypedAnswer ? (
+                    <div className="space-y-2">
+                      <Label htmlFor="response" className="text-slate-200">
+                        {question.questionType === 'numeric' ? 'Your answer (number)' : 'Your answer'}
+                      </Label>
+                      <Input
+                        id="response"
+                        value={responseText}
+                        onChange={(e) => setResponseText(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') handleSubmit();
+                        }}
+                        inputMode={question.questionType === 'numeric' ? 'decimal' : 'text'}
+                        maxLength={500}
+                        autoComplete="off"
+                        className="border-slate-600 bg-slate-700/50 text-slate-100 focus-visible:ring-blue-500"
+                      />
+                    </div>
+                  ) : isMultiSelect ? (
+                    <div className="space-y-3">
+                      <p className="text-sm text-slate-400">Select all that apply</p>
+                      {question.options.map((option) => (
+                        <div
+                          key={option.id}
+                          className={`flex items-center space-x-3 rounded-lg border p-4 cursor-pointer transition-colors ${
+                            selectedOptions.includes(option.id)
+                              ? 'border-blue-500 bg-blue-500/10'
+                              : 'border-slate-600 hover:border-slate-500 hover:bg-slate-700/30'
+                          }`}
+                          onClick={() => toggleOption(option.id)}
                         >
-                          {option.optionText}
-                        </Label>
-                      </div>
-                    ))}
-                  </RadioGroup>
+                          <input
+                            type="checkbox"
+                            id={option.id}
+                            checked={selectedOptions.includes(option.id)}
+                            onChange={() => toggleOption(option.id)}
+                            onClick={(e) => e.stopPropagation()}
+                            className="h-4 w-4 accent-blue-500"
+                          />
+                          <Label
+                            htmlFor={option.id}
+                            onClick={(e) => e.stopPropagation()}
+                            className="flex-1 cursor-pointer text-slate-200"
+                          >
+                            {option.optionText}
+                          </Label>
+                        </div>
+                      ))}
+                    </div>
+                  ) : (
+                    <RadioGroup
+                      value={selectedOption}
+                      onValueChange={setSelectedOption}
+                      className="space-y-3"
+                    >
+                      {question.options.map((option) => (
+                        <div
+                          key={option.id}
+                          className={`flex items-center space-x-3 rounded-lg border p-4 cursor-pointer transition-colors ${
+                            selectedOption === option.id
+                              ? 'border-blue-500 bg-blue-500/10'
+                              : 'border-slate-600 hover:border-slate-500 hover:bg-slate-700/30'
+                          }`}
+                          onClick={() => setSelectedOption(option.id)}
+                        >
+                          <RadioGroupItem
+                            value={option.id}
+                            id={option.id}
+                            className="border-slate-500 text-blue-500"
+                          />
+                          <Label
+                            htmlFor={option.id}
+                            className="flex-1 cursor-pointer text-slate-200"
+                          >
+                            {option.optionText}
+                          </Label>
+                        </div>
+                      ))}
+                    </RadioGroup>
+                  )}
+
+                  {secondsLeft === 0 && (
+                    <p className="mt-4 text-sm text-red-400">
+                      Time&apos;s up — answers submitted now are recorded with no points.
+                    </p>
+                  )}
 
                   <Button
                     onClick={handleSubmit}
-                    disabled={!selectedOption || submitting}
+                    disabled={!hasSelection || submitting}
                     className="w-full mt-6 bg-blue-600 hover:bg-blue-700 text-white"
                   >
                     {submitting ? 'Submitting...' : 'Submit Answer'}
                   </Button>
+                  <Button
+                    onClick={() => finishSession(session.id)}
+                    variant="ghost"
+                    className="w-full mt-2 text-slate-400 hover:text-slate-100"
+                  >
+                    End Quiz
+                  </Button>
                 </>
               ) : (
                 <>
@@ -362,21 +858,42 @@ export default function StudentQuizPage() {
                           result.isCorrect ? 'text-green-400' : 'text-red-400'
                         }`}
                       >
-                        {result.isCorrect ? 'Correct!' : 'Incorrect'}
+                        {result.isLate ? "Time's up" : result.isCorrect ? 'Correct!' : 'Incorrect'}
                       </p>
                       <p className="text-sm text-slate-400">
                         {result.isCorrect
                           ? `You earned ${result.score} points!`
-                          : `The correct answer was: ${result.correctOptionText}`}
+                          : result.score > 0
+                            ? `Partly correct: you earned ${result.score} points. The correct answers were: ${result.correctOptionText}`
+                            : `The correct answer was: ${result.correctOptionText}`}
                       </p>
+                      {result.attemptNumber > 1 && result.awardedScore < result.score && (
+                        <p className="text-xs text-amber-400 mt-1">
+                          You have answered this question before, so {result.awardedScore} of these points
+                          count towards your total.
+                        </p>
+                      )}
                     </div>
                   </div>
 
+                  {isTypedAnswer && (
+                    <div
+                      className={`rounded-lg border p-4 mb-6 ${
+                        result.isCorrect ? 'border-green-500 bg-green-500/10' : 'border-red-500 bg-red-500/10'
+                      }`}
+                    >
+                      <p className="text-xs text-slate-400">Your answer</p>
+                      <p className="text-slate-200">{responseText}</p>
+                    </div>
+                  )}
+
                   {/* Show options with correct answer highlighted */}
                   <div className="space-y-3 mb-6">
                     {question.options.map((option) => {
-                      const isCorrect = option.id === result.correctOptionId;
-                      const wasSelected = option.id === selectedOption;
+                      const isCorrect = result.correctOptionIds.includes(option.id);
+                      const wasSelected = isMultiSelect
+                        ? selectedOptions.includes(option.id)
+                        : option.id === selectedOption;
                       let borderClass = 'border-slate-600';
                       let bgClass = '';
 
@@ -402,13 +919,23 @@ export default function StudentQuizPage() {
                     })}
                   </div>
 
-                  <Button
-                    onClick={fetchQuestion}
-                    className="w-full bg-blue-600 hover:bg-blue-700 text-white"
-                  >
-                    Next Question
-                    <ArrowRight className="h-4 w-4 ml-2" />
-                  </Button>
+                  {result.isLastQuestion ? (
+                    <Button
+                      onClick={() => finishSession(session.id)}
+                      className="w-full bg-blue-600 hover:bg-blue-700 text-white"
+                    >
+                      Finish Quiz
+                      <Trophy className="h-4 w-4 ml-2" />
+                    </Button>
+                  ) : (
+                    <Button
+                      onClick={() => fetchNextQuestion(session.id)}
+                      className="w-full bg-blue-600 hover:bg-blue-700 text-white"
+                    >
+                      Next Question
+                      <ArrowRight className="h-4 w-4 ml-2" />
+                    </Button>
+                  )}
                 </>
               )}
             </CardContent>
@@ -1,12 +1,19 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import Link from 'next/link';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Separator } from '@/components/ui/separator';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import {
   GraduationCap,
   ArrowLeft,
@@ -35,19 +42,46 @@ interface Statistics {
     correct: number;
     successRate: number;
   }>;
+  quizzesCompleted: number;
+  averageQuizPercentage: number;
+  recentQuizzes: Array<{
+    sessionId: string;
+    questionCount: number;
+    correctCount: number;
+    score: number;
+    maxScore: number;
+    percentage: number;
+    completedAt: string;
+  }>;
+}
+
+interface CourseOption {
+  id: string;
+  name: string;
 }
 
 export default function StatisticsPage() {
   const [stats, setStats] = useState<Statistics | null>(null);
   const [loading, setLoading] = useState(true);
+  const [courses, setCourses] = useState<CourseOption[]>([]);
+  const [courseId, setCourseId] = useState('all');
 
   useEffect(() => {
-    fetchStatistics();
+    fetch('/api/courses')
+      .then((response) => response.json() as Promise<{ success: boolean; courses?: CourseOption[] }>)
+      .then((data) => {
+        if (data.success && data.courses) {
+          setCourses(data.courses);
+        }
+      })
+      .catch((error) => console.error('Failed to fetch courses:', error));
   }, []);
 
-  const fetchStatistics = async () => {
+  const fetchStatistics = useCallback(async () => {
+    setLoading(true);
     try {
-      const response = await fetch('/api/quiz/statistics');
+      const query = courseId === 'all' ? '' : `?courseId=${courseId}`;
+      const response = await fetch(`/api/quiz/statistics${query}`);
       const data = await response.json();
 
       if (data.success) {
@@ -58,7 +92,11 @@ export default function StatisticsPage() {
     } finally {
       setLoading(false);
     }
-  };
+  }, [courseId]);
+
+  useEffect(() => {
+    fetchStatistics();
+  }, [fetchStatistics]);
 
   const getDifficultyColor = (diff: string) => {
     switch (diff) {
@@ -84,16 +122,35 @@ export default function StatisticsPage() {
       {/* Header */}
       <nav className="border-b border-slate-700 bg-slate-800/50 backdrop-blur-sm sticky top-0 z-50">
         <div className="container mx-auto px-4 py-4">
-          <div className="flex items-center gap-3">
-            <Link href="/student/quiz">
-              <Button variant="ghost" size="icon" className="text-slate-400 hover:text-slate-100">
-                <ArrowLeft className="h-5 w-5" />
-              </Button>
-            </Link>
-            <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-blue-500/10">
-              <GraduationCap className="h-5 w-5 text-blue-500" />
+          <div className="flex items-center justify-between gap-3">
+            <div className="flex items-center gap-3">
+              <Link href="/student/quiz">
+                <Button variant="ghost" size="icon" className="text-slate-400 hover:text-slate-100">
+                  <ArrowLeft className="h-5 w-5" />
+                </Button>
+              </Link>
+              <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-blue-500/10">
+                <GraduationCap className="h-5 w-5 text-blue-500" />
+              </div>
+              <h1 className="text-xl font-bold text-slate-100">Your Statistics</h1>
             </div>
-            <h1 className="text-xl font-bold text-slate-100">Your Statistics</h1>
+            {courses.length > 1 && (
+              <Select value={courseId} onValueChange={setCourseId}>
+                <SelectTrigger className="w-48 border-slate-600 bg-slate-700/50 text-slate-100">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-slate-800 border-slate-700">
+                  <SelectItem value="all" className="text-slate-100">
+                    All my courses
+                  </SelectItem>
+                  {courses.map((course) => (
+                    <SelectItem key={course.id} value={course.id} className="text-slate-100">
+                      {course.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
           </div>
         </div>
       </nav>
@@ -189,6 +246,53 @@ export default function StatisticsPage() {
               </Card>
             </div>
 
+            {/* Quiz Results */}
+            <Card className="border-slate-700 bg-slate-800/50 mb-6">
+              <CardHeader>
+                <CardTitle className="text-slate-100">Quiz Results</CardTitle>
+                <CardDescription className="text-slate-400">
+                  {stats.quizzesCompleted} quizzes completed &middot; {stats.averageQuizPercentage}% average
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {stats.recentQuizzes.length === 0 ? (
+                  <p className="text-slate-500 text-center py-4">No completed quizzes yet</p>
+                ) : (
+                  <div className="space-y-4">
+                    {stats.recentQuizzes.map((quiz) => (
+                      <div key={quiz.sessionId}>
+                        <div className="flex items-center justify-between mb-2">
+                          <span className="text-sm text-slate-400">
+                            {new Date(quiz.completedAt).toLocaleDateString('en-US', {
+                              month: 'short',
+                              day: 'numeric',
+                              year: 'numeric',
+                            })}
+                            {' '}&middot; {quiz.correctCount}/{quiz.questionCount} correct &middot; {quiz.score}/{quiz.maxScore} pts
+                          </span>
+                          <span className={`font-semibold ${getSuccessRateColor(quiz.percentage)}`}>
+                            {quiz.percentage}%
+                          </span>
+                        </div>
+                        <div className="h-2 bg-slate-700 rounded-full overflow-hidden">
+                          <div
+                            className={`h-full rounded-full transition-all ${
+                              quiz.percentage >= 80
+                                ? 'bg-green-500'
+                                : quiz.percentage >= 60
+                                ? 'bg-amber-500'
+                                : 'bg-red-500'
+                            }`}
+                            style={{ width: `${quiz.percentage}%` }}
+                          />
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
             {/* Difficulty Breakdown */}
             <Card className="border-slate-700 bg-slate-800/50 mb-6">
               <CardHeader>
@@ -0,0 +1,106 @@
+'use client';
+
+import { Suspense, useEffect, useState } from 'react';
+import { useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { MailCheck } from 'lucide-react';
+
+function VerifyEmailStatus() {
+  const searchParams = useSearchParams();
+  const token = searchParams.get('token') || '';
+
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  useEffect(() => {
+    if (!token) {
+      return;
+    }
+
+    const verify = async () => {
+      try {
+        const response = await fetch('/api/auth/verify-email', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ token }),
+        });
+
+        const data = await response.json() as { success: boolean; message: string };
+
+        if (!response.ok) {
+          setError(data.message || 'Email verification failed');
+          return;
+        }
+
+        setMessage(data.message);
+      } catch {
+        setError('An error occurred. Please try again.');
+      }
+    };
+
+    verify();
+  }, [token]);
+
+  if (!token) {
+    return (
+      <div className="rounded-md bg-red-500/10 border border-red-500/20 p-3 text-sm text-red-400">
+        This verification link is missing its token. Please use the link from your email.
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="space-y-4">
+        <div className="rounded-md bg-red-500/10 border border-red-500/20 p-3 text-sm text-red-400">
+          {error}
+        </div>
+        <p className="text-center text-sm text-slate-400">
+          Log in to request a new verification link.
+        </p>
+      </div>
+    );
+  }
+
+  if (!message) {
+    return <p className="text-center text-sm text-slate-400">Verifying your email address...</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="rounded-md bg-emerald-500/10 border border-emerald-500/20 p-3 text-sm text-emerald-400">
+        {message}
+      </div>
+      <Link href="/login">
+        <Button className="w-full bg-emerald-600 hover:bg-emerald-700 text-white">
+          Continue to Login
+        </Button>
+      </Link>
+    </div>
+  );
+}
+
+export default function VerifyEmailPage() {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 p-4">
+      <Card className="w-full max-w-md border-slate-700 bg-slate-800/50 backdrop-blur-sm">
+        <CardHeader className="space-y-1 text-center">
+          <div className="mx-auto mb-4 flex h-12 w-12 items-center justify-center rounded-full bg-emerald-500/10">
+            <MailCheck className="h-6 w-6 text-emerald-500" />
+          </div>
+          <CardTitle className="text-2xl font-bold text-slate-100">Verify Email</CardTitle>
+          <CardDescription className="text-slate-400">
+            Confirming your QuizMaker email address
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Suspense fallback={<p className="text-center text-sm text-slate-400">Loading...</p>}>
+            <VerifyEmailStatus />
+          </Suspense>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,11 @@
+/**
+ * Instrumentation
+ * Runs once when a server instance starts
+ */
+
+import { createMailer, setMailer } from '@/lib/mailer';
+
+export function register(): void {
+  // Outgoing email goes through the provider configured in the environment
+  setMailer(createMailer());
+}
@@ -4,11 +4,19 @@
  * (set by middleware after token verification)
  */
 
-import { NextRequest } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { ACCESS_TOKEN_TTL_SECONDS, AuthTokens } from '@/lib/services/auth-service';
+import { SESSION_TTL_MS, SessionContext } from '@/lib/services/session-service';
+import { UserRole, hasRole } from '@/lib/roles';
+
+export const ACCESS_TOKEN_COOKIE = 'auth_token';
+export const REFRESH_TOKEN_COOKIE = 'refresh_token';
 
 export interface AuthenticatedUser {
   userId: string;
-  role: 'student' | 'instructor';
+  role: UserRole;
+  // Session behind the request's token (see SessionService)
+  sessionId?: string;
 }
 
 /**
@@ -17,13 +25,28 @@ export interface AuthenticatedUser {
  */
 export function getAuthenticatedUser(request: NextRequest): AuthenticatedUser | null {
   const userId = request.headers.get('x-user-id');
-  const role = request.headers.get('x-user-role') as 'student' | 'instructor' | null;
+  const role = request.headers.get('x-user-role') as UserRole | null;
+
+  const sessionId = request.headers.get('x-session-id') || undefined;
 
   if (!userId || !role) {
     return null;
   }
 
-  return { userId, role };
+  return { userId, role, sessionId };
+}
+
+/**
+ * Client details recorded with a session: user agent and IP address
+ * The IP comes from Cloudflare's header, falling back to the first X-Forwarded-For hop
+ */
+export function getClientContext(request: NextRequest): SessionContext {
+  const forwardedFor = request.headers.get('x-forwarded-for')?.split(',')[0].trim();
+
+  return {
+    userAgent: request.headers.get('user-agent'),
+    ipAddress: request.headers.get('cf-connecting-ip') || forwardedFor || null,
+  };
 }
 
 /**
@@ -38,16 +61,63 @@ export function requireAuth(request: NextRequest): AuthenticatedUser {
 }
 
 /**
- * Require specific role, throw if not authorized
+ * Require a role or one above it in the hierarchy, throw if not authorized
  */
 export function requireRole(
   request: NextRequest,
-  requiredRole: 'student' | 'instructor'
+  requiredRole: UserRole
 ): AuthenticatedUser {
   const user = requireAuth(request);
-  if (user.role !== requiredRole) {
+  if (!hasRole(user.role, requiredRole)) {
     throw new Error(`Access denied. Required role: ${requiredRole}`);
   }
   return user;
 }
 
+/**
+ * Set the access token cookie, and the refresh token cookie when it was rotated
+ * Both are HTTP-only; the refresh cookie lives as long as the session
+ */
+export function setAuthCookies(response: NextResponse, tokens: AuthTokens): void {
+  const options = {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax' as const,
+    path: '/',
+  };
+
+  response.cookies.set(ACCESS_TOKEN_COOKIE, tokens.accessToken, {
+    ...options,
+    maxAge: ACCESS_TOKEN_TTL_SECONDS,
+  });
+
+  if (tokens.refreshToken) {
+    response.cookies.set(REFRESH_TOKEN_COOKIE, tokens.refreshToken, {
+      ...options,
+      maxAge: SESSION_TTL_MS / 1000,
+    });
+  }
+}
+
+/**
+ * Delete both auth cookies
+ */
+export function clearAuthCookies(response: NextResponse): void {
+  response.cookies.delete(ACCESS_TOKEN_COOKIE);
+  response.cookies.delete(REFRESH_TOKEN_COOKIE);
+}
+
+/**
+ * Public base URL for emailed links
+ * Comes from APP_URL, never from the request, whose Host header the client controls;
+ * the request origin is only used in development
+ */
+export function getAppUrl(request: NextRequest): string {
+  if (process.env.APP_URL) {
+    return process.env.APP_URL;
+  }
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('APP_URL is not configured');
+  }
+  return request.nextUrl.origin;
+}
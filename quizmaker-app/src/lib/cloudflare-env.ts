@@ -5,6 +5,18 @@
 
 export interface CloudflareEnv {
   quizmaker_app_database: D1Database;
+  // Single signing secret, used as kid "default" when JWT_KEYS is not set
   JWT_SECRET?: string;
+  // Rotating signing keys as "kid:secret" pairs, comma separated; the first one signs
+  JWT_KEYS?: string;
+  // Expected iss and aud claims (default "quizmaker" and "quizmaker-app")
+  JWT_ISSUER?: string;
+  JWT_AUDIENCE?: string;
+  // Public base URL used in emailed links, e.g. https://quizmaker.example.com
+  APP_URL?: string;
+  // Outgoing email through Resend; without a key messages are only logged (development)
+  RESEND_API_KEY?: string;
+  // Sender address, e.g. "QuizMaker <no-reply@quizmaker.example.com>"; required with RESEND_API_KEY
+  EMAIL_FROM?: string;
 }
 
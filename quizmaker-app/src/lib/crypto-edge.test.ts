@@ -0,0 +1,47 @@
+/**
+ * Password Hashing Unit Tests
+ *
+ * Tests the PBKDF2 hash format, legacy SHA-256 compatibility and rehash detection.
+ *
+ * @fileoverview Unit tests for src/lib/crypto-edge.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import { hash, compare, needsRehash, timingSafeEqual, PBKDF2_ITERATIONS } from './crypto-edge';
+
+// SHA-256 of "password123", as stored before PBKDF2
+const LEGACY_HASH = 'ef92b778bafe771e89245b89ecbc08a44a4e166c06659911881f383d4473e94f';
+
+describe('crypto-edge', () => {
+  it('should write a self-describing salted hash', async () => {
+    const first = await hash('password123');
+    const second = await hash('password123');
+
+    expect(first).toMatch(new RegExp(`^pbkdf2_sha256\\$${PBKDF2_ITERATIONS}\\$[A-Za-z0-9+/=]+\\$[A-Za-z0-9+/=]+$`));
+    expect(first).not.toBe(second);
+  });
+
+  it('should verify the right password only', async () => {
+    const stored = await hash('password123');
+
+    expect(await compare('password123', stored)).toBe(true);
+    expect(await compare('password124', stored)).toBe(false);
+    expect(await compare('password123', 'pbkdf2_sha256$abc$$')).toBe(false);
+  });
+
+  it('should accept legacy SHA-256 hashes and flag them for rehash', async () => {
+    expect(await compare('password123', LEGACY_HASH)).toBe(true);
+    expect(await compare('wrong-password', LEGACY_HASH)).toBe(false);
+
+    expect(needsRehash(LEGACY_HASH)).toBe(true);
+    expect(needsRehash(await hash('password123'))).toBe(false);
+    expect(needsRehash('pbkdf2_sha256$1000$c2FsdA==$aGFzaA==')).toBe(true);
+  });
+
+  it('should compare bytes of different lengths as unequal', () => {
+    expect(timingSafeEqual(new Uint8Array([1, 2, 3]), new Uint8Array([1, 2, 3]))).toBe(true);
+    expect(timingSafeEqual(new Uint8Array([1, 2, 3]), new Uint8Array([1, 2, 4]))).toBe(false);
+    expect(timingSafeEqual(new Uint8Array([1, 2]), new Uint8Array([1, 2, 1]))).toBe(false);
+    expect(timingSafeEqual(new Uint8Array([]), new Uint8Array([0]))).toBe(false);
+  });
+});
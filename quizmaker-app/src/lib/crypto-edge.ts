@@ -1,25 +1,176 @@
 /**
- * Simple password hashing for demo/learning purposes
- * Uses Web Crypto API SHA-256 (works in edge runtime)
- * 
- * NOTE: For production, use a proper password hashing library like bcrypt or argon2
+ * Password and token hashing for the edge runtime
+ * Uses Web Crypto API PBKDF2-SHA256 with a random salt per password
+ *
+ * Hashes are self-describing so parameters can change without a reset:
+ *   pbkdf2_sha256$<iterations>$<salt, base64>$<hash, base64>
+ * Legacy unsalted SHA-256 hex hashes are still accepted by compare() and are
+ * upgraded on the next successful login (see needsRehash)
  */
 
+// ============================================
+// Constants
+// ============================================
+
+const ALGORITHM = 'pbkdf2_sha256';
+
+// Cloudflare Workers reject PBKDF2 with more than 100,000 iterations
+export const PBKDF2_ITERATIONS = 100_000;
+
+const SALT_BYTES = 16;
+const HASH_BYTES = 32;
+
+const LEGACY_SHA256_PATTERN = /^[0-9a-f]{64}$/;
+
+// ============================================
+// Password Hashing
+// ============================================
+
 /**
- * Hash a password using SHA-256
+ * Hash a password with PBKDF2-SHA256 and a random salt
  */
 export async function hash(password: string): Promise<string> {
-  const encoder = new TextEncoder();
-  const data = encoder.encode(password);
-  const hashBuffer = await crypto.subtle.digest('SHA-256', data);
-  const hashArray = Array.from(new Uint8Array(hashBuffer));
-  return hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const derived = await pbkdf2(password, salt, PBKDF2_ITERATIONS);
+  return [ALGORITHM, PBKDF2_ITERATIONS, toBase64(salt), toBase64(derived)].join('$');
 }
 
 /**
- * Compare a password with a stored hash
+ * Compare a password with a stored hash in constant time
+ * Accepts PBKDF2 hashes in any iteration count and legacy SHA-256 hex hashes
  */
 export async function compare(password: string, storedHash: string): Promise<boolean> {
-  const hashedPassword = await hash(password);
-  return hashedPassword === storedHash;
+  if (LEGACY_SHA256_PATTERN.test(storedHash)) {
+    const digest = new Uint8Array(
+      await crypto.subtle.digest('SHA-256', new TextEncoder().encode(password))
+    );
+    return timingSafeEqual(digest, fromHex(storedHash));
+  }
+
+  const parsed = parseHash(storedHash);
+  if (!parsed) {
+    return false;
+  }
+
+  const derived = await pbkdf2(password, parsed.salt, parsed.iterations, parsed.hash.length);
+  return timingSafeEqual(derived, parsed.hash);
+}
+
+/**
+ * Whether a stored hash should be replaced with one using the current parameters
+ */
+export function needsRehash(storedHash: string): boolean {
+  const parsed = parseHash(storedHash);
+  return !parsed || parsed.iterations < PBKDF2_ITERATIONS;
+}
+
+/**
+ * Compare two byte arrays without returning early on the first difference
+ */
+export function timingSafeEqual(a: Uint8Array, b: Uint8Array): boolean {
+  let diff = a.length ^ b.length;
+  const length = Math.max(a.length, b.length);
+  for (let i = 0; i < length; i++) {
+    diff |= (a[i % a.length] ?? 0) ^ (b[i % b.length] ?? 0);
+  }
+  return diff === 0;
+}
+
+// ============================================
+// Opaque Tokens
+// ============================================
+
+/**
+ * Generate a random URL-safe token (for emailed links and similar secrets)
+ */
+export function generateToken(bytes = 32): string {
+  return toBase64(crypto.getRandomValues(new Uint8Array(bytes)))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=/g, '');
+}
+
+/**
+ * SHA-256 hex digest of a token, for storing tokens without keeping them usable
+ * Tokens are long and random, so a fast unsalted hash is sufficient here
+ */
+export async function hashToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+// ============================================
+// Internal Helpers
+// ============================================
+
+/**
+ * Derive key bytes with PBKDF2-SHA256
+ */
+async function pbkdf2(
+  password: string,
+  salt: Uint8Array<ArrayBuffer>,
+  iterations: number,
+  length = HASH_BYTES
+): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(password),
+    'PBKDF2',
+    false,
+    ['deriveBits']
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    key,
+    length * 8
+  );
+  return new Uint8Array(bits);
+}
+
+/**
+ * Split a pbkdf2_sha256$... hash into its parts, or null if it is not one
+ */
+function parseHash(
+  storedHash: string
+): { iterations: number; salt: Uint8Array<ArrayBuffer>; hash: Uint8Array } | null {
+  const parts = storedHash.split('$');
+  if (parts.length !== 4 || parts[0] !== ALGORITHM) {
+    return null;
+  }
+
+  const iterations = Number(parts[1]);
+  if (!Number.isInteger(iterations) || iterations < 1) {
+    return null;
+  }
+
+  try {
+    const salt = fromBase64(parts[2]);
+    const hash = fromBase64(parts[3]);
+    return salt.length > 0 && hash.length > 0 ? { iterations, salt, hash } : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Base64 encode bytes
+ */
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+/**
+ * Base64 decode to bytes
+ */
+function fromBase64(value: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+}
+
+/**
+ * Convert a hex string to bytes
+ */
+function fromHex(value: string): Uint8Array {
+  return Uint8Array.from(value.match(/../g) ?? [], (pair) => parseInt(pair, 16));
 }
@@ -0,0 +1,91 @@
+/**
+ * CSV Utilities
+ * Minimal RFC 4180 parsing and formatting for question bank files
+ */
+
+// ============================================
+// Parsing
+// ============================================
+
+/**
+ * Parse CSV text into rows of fields
+ * Supports quoted fields with embedded commas, quotes ("") and line breaks,
+ * CRLF or LF line endings and a leading byte-order mark. Blank lines are skipped
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0].trim() !== '') {
+      rows.push(row);
+    }
+    row = [];
+    field = '';
+  };
+
+  for (; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error('CSV has an unterminated quoted field');
+  }
+
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+}
+
+// ============================================
+// Formatting
+// ============================================
+
+/**
+ * Quote a field when it contains a comma, quote, line break or edge whitespace
+ */
+function formatCsvField(value: string): string {
+  if (/[",\r\n]/.test(value) || value !== value.trim()) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+}
+
+/**
+ * Format rows of fields as CSV text with CRLF line endings
+ */
+export function formatCsv(rows: string[][]): string {
+  return rows.map((row) => row.map(formatCsvField).join(',')).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,200 @@
+/**
+ * GIFT Utilities
+ * Reads Moodle's GIFT text format into raw question blocks. Mapping the blocks onto
+ * QuizMaker question types is left to the import service
+ */
+
+// ============================================
+// Types & Interfaces
+// ============================================
+
+export interface GiftQuestion {
+  // 1-based line on which the question starts
+  line: number;
+  // Path from the most recent $CATEGORY line, e.g. "$course$/top/Geography"
+  category: string | null;
+  title: string | null;
+  // Text format from a [html] / [markdown] / [plain] / [moodle] prefix
+  format: string | null;
+  // Question text (unescaped); text after the answer block is kept separately
+  text: string;
+  textAfter: string;
+  // Raw answer block between { and } (still escaped), or null when there is none
+  answer: string | null;
+  // Syntax problem with this block; the other fields are then incomplete
+  error?: string;
+}
+
+export interface GiftAnswer {
+  prefix: '=' | '~';
+  // Percentage from a %n% weight, or null when no weight was given
+  weight: number | null;
+  text: string;
+  feedback: string | null;
+}
+
+// ============================================
+// Parsing
+// ============================================
+
+/**
+ * Split GIFT text into question blocks
+ * Questions are separated by blank lines; // comment lines are ignored and $CATEGORY
+ * lines apply to every question that follows
+ */
+export function parseGift(text: string): GiftQuestion[] {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+  const questions: GiftQuestion[] = [];
+  let category: string | null = null;
+  let block: string[] = [];
+  let blockStart = 0;
+
+  const endBlock = () => {
+    if (block.length > 0) {
+      questions.push(parseBlock(block.join('\n'), blockStart, category));
+    }
+    block = [];
+  };
+
+  lines.forEach((line, index) => {
+    const trimmed = line.trim();
+
+    if (trimmed.startsWith('//')) {
+      return;
+    }
+    if (trimmed === '') {
+      endBlock();
+      return;
+    }
+    if (block.length === 0 && /^\$CATEGORY:/i.test(trimmed)) {
+      category = trimmed.replace(/^\$CATEGORY:/i, '').trim() || null;
+      return;
+    }
+
+    if (block.length === 0) {
+      blockStart = index + 1;
+    }
+    block.push(line);
+  });
+  endBlock();
+
+  return questions;
+}
+
+/**
+ * Split the inside of a choice, short-answer or numeric answer block into answers
+ * Each answer starts with an unescaped = or ~ and may carry a %weight% and #feedback
+ */
+export function splitGiftAnswers(block: string): GiftAnswer[] {
+  const answers: GiftAnswer[] = [];
+  let current: { prefix: '=' | '~'; raw: string } | null = null;
+
+  for (let i = 0; i < block.length; i++) {
+    const char = block[i];
+    if (char === '\\' && i + 1 < block.length) {
+      if (current) current.raw += char + block[i + 1];
+      i++;
+    } else if (char === '=' || char === '~') {
+      if (current) answers.push(toAnswer(current.prefix, current.raw));
+      current = { prefix: char, raw: '' };
+    } else if (current) {
+      current.raw += char;
+    }
+  }
+  if (current) answers.push(toAnswer(current.prefix, current.raw));
+
+  return answers;
+}
+
+/**
+ * Index of the first unescaped occurrence of a marker, or -1
+ */
+export function indexOfUnescaped(text: string, marker: string, from = 0): number {
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+    } else if (text.startsWith(marker, i)) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Remove GIFT escapes (\~ \= \# \{ \} \: \\) and turn \n into a line break
+ */
+export function unescapeGift(text: string): string {
+  return text.replace(/\\(.)/g, (_, char: string) => (char === 'n' ? '\n' : char));
+}
+
+// ============================================
+// Internal Helpers
+// ============================================
+
+/**
+ * Parse one question block into title, text and raw answer block
+ */
+function parseBlock(source: string, line: number, category: string | null): GiftQuestion {
+  const question: GiftQuestion = {
+    line,
+    category,
+    title: null,
+    format: null,
+    text: '',
+    textAfter: '',
+    answer: null,
+  };
+
+  let rest = source.trim();
+
+  if (rest.startsWith('::')) {
+    const end = indexOfUnescaped(rest, '::', 2);
+    if (end === -1) {
+      return { ...question, error: 'Question title is missing its closing ::' };
+    }
+    question.title = unescapeGift(rest.slice(2, end)).trim();
+    rest = rest.slice(end + 2).trim();
+  }
+
+  const formatMatch = rest.match(/^\[(html|markdown|plain|moodle)\]/i);
+  if (formatMatch) {
+    question.format = formatMatch[1].toLowerCase();
+    rest = rest.slice(formatMatch[0].length);
+  }
+
+  const open = indexOfUnescaped(rest, '{');
+  if (open === -1) {
+    question.text = unescapeGift(rest).trim();
+    return question;
+  }
+
+  const close = indexOfUnescaped(rest, '}', open + 1);
+  if (close === -1) {
+    return { ...question, error: 'Answer block is missing its closing }' };
+  }
+
+  question.text = unescapeGift(rest.slice(0, open)).trim();
+  question.answer = rest.slice(open + 1, close).trim();
+  question.textAfter = unescapeGift(rest.slice(close + 1)).trim();
+  return question;
+}
+
+/**
+ * Split one raw answer into weight, text and feedback
+ */
+function toAnswer(prefix: '=' | '~', raw: string): GiftAnswer {
+  let body = raw.trim();
+  let weight: number | null = null;
+
+  const weightMatch = body.match(/^%(-?\d+(?:\.\d+)?)%/);
+  if (weightMatch) {
+    weight = Number(weightMatch[1]);
+    body = body.slice(weightMatch[0].length);
+  }
+
+  const hash = indexOfUnescaped(body, '#');
+  const feedback = hash === -1 ? null : unescapeGift(body.slice(hash + 1)).trim();
+  const text = unescapeGift(hash === -1 ? body : body.slice(0, hash)).trim();
+
+  return { prefix, weight, text, feedback };
+}
@@ -0,0 +1,89 @@
+/**
+ * JWT Unit Tests
+ *
+ * Tests kid-based key rotation, header and claim validation, and the production
+ * requirement for a configured secret.
+ *
+ * @fileoverview Unit tests for src/lib/jwt-edge.ts
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { signToken, verifyToken } from './jwt-edge';
+
+const PAYLOAD = { userId: 'user-123', email: 'student@example.com', role: 'student', jti: 'session-1' };
+
+// Re-encode one segment of a token as JSON
+function replaceSegment(token: string, index: number, value: object): string {
+  const parts = token.split('.');
+  parts[index] = btoa(JSON.stringify(value)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=/g, '');
+  return parts.join('.');
+}
+
+function decodeSegment(token: string, index: number): Record<string, unknown> {
+  const segment = token.split('.')[index].replace(/-/g, '+').replace(/_/g, '/');
+  return JSON.parse(atob(segment.padEnd(segment.length + ((4 - (segment.length % 4)) % 4), '=')));
+}
+
+describe('jwt-edge', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.useRealTimers();
+  });
+
+  it('should sign with the first key and keep verifying older keys', async () => {
+    vi.stubEnv('JWT_KEYS', 'k1:first-secret');
+    const oldToken = await signToken(PAYLOAD, '15m');
+
+    vi.stubEnv('JWT_KEYS', 'k2:second-secret,k1:first-secret');
+    const newToken = await signToken(PAYLOAD, '15m');
+
+    expect(decodeSegment(oldToken, 0)).toEqual({ alg: 'HS256', typ: 'JWT', kid: 'k1' });
+    expect(decodeSegment(newToken, 0)).toMatchObject({ kid: 'k2' });
+    await expect(verifyToken(oldToken)).resolves.toMatchObject({ userId: 'user-123', jti: 'session-1' });
+    await expect(verifyToken(newToken)).resolves.toMatchObject({ iss: 'quizmaker', aud: 'quizmaker-app' });
+
+    // Once the old key is retired its tokens stop verifying
+    vi.stubEnv('JWT_KEYS', 'k2:second-secret');
+    await expect(verifyToken(oldToken)).rejects.toThrow('Invalid or expired token');
+  });
+
+  it('should reject tampered headers and signatures', async () => {
+    vi.stubEnv('JWT_KEYS', 'k1:first-secret');
+    const token = await signToken(PAYLOAD, '15m');
+    const [, , signature] = token.split('.');
+
+    await expect(verifyToken(replaceSegment(token, 0, { alg: 'none', typ: 'JWT', kid: 'k1' }))).rejects.toThrow();
+    await expect(verifyToken(replaceSegment(token, 0, { alg: 'HS256', typ: 'JWE', kid: 'k1' }))).rejects.toThrow();
+    await expect(verifyToken(replaceSegment(token, 0, { alg: 'HS256', typ: 'JWT', kid: 'k9' }))).rejects.toThrow();
+    await expect(
+      verifyToken(replaceSegment(token, 1, { ...decodeSegment(token, 1), role: 'instructor' }))
+    ).rejects.toThrow('Invalid or expired token');
+    await expect(verifyToken(`${token.slice(0, -signature.length)}${signature.slice(1)}`)).rejects.toThrow();
+  });
+
+  it('should enforce issuer, audience and the validity window', async () => {
+    vi.stubEnv('JWT_KEYS', 'k1:first-secret');
+    vi.useFakeTimers();
+    const token = await signToken(PAYLOAD, '15m');
+
+    vi.stubEnv('JWT_AUDIENCE', 'another-app');
+    await expect(verifyToken(token)).rejects.toThrow('Invalid or expired token');
+    vi.unstubAllEnvs();
+    vi.stubEnv('JWT_KEYS', 'k1:first-secret');
+
+    vi.setSystemTime(Date.now() - 5 * 60 * 1000);
+    await expect(verifyToken(token)).rejects.toThrow('Invalid or expired token');
+
+    vi.setSystemTime(Date.now() + 21 * 60 * 1000);
+    await expect(verifyToken(token)).rejects.toThrow('Invalid or expired token');
+  });
+
+  it('should refuse to run without a secret in production', async () => {
+    vi.stubEnv('NODE_ENV', 'production');
+    vi.stubEnv('JWT_KEYS', '');
+    vi.stubEnv('JWT_SECRET', '');
+
+    await expect(signToken(PAYLOAD, '15m')).rejects.toThrow('JWT signing key is not configured');
+    await expect(verifyToken('a.b.c')).rejects.toThrow('JWT signing key is not configured');
+  });
+});
@@ -1,17 +1,58 @@
 /**
  * Edge-compatible JWT utilities using Web Crypto API
  * This works in Edge Runtime (Cloudflare Workers, Vercel Edge, etc.)
+ *
+ * Signing keys are identified by the `kid` header so secrets can be rotated:
+ * JWT_KEYS holds `kid:secret` pairs separated by commas. The first key signs new
+ * tokens and every listed key verifies. A single JWT_SECRET is used as kid
+ * "default" when JWT_KEYS is not set.
  */
 
+import { timingSafeEqual } from '@/lib/crypto-edge';
+
 export interface JWTPayload {
   userId: string;
   email: string;
   role: string;
+  // Session id (see SessionService)
+  jti?: string;
   iat?: number;
+  nbf?: number;
   exp?: number;
+  iss?: string;
+  aud?: string | string[];
+}
+
+export interface TokenOptions {
+  // Tokens for other purposes (e.g. email verification links) carry the audience
+  // "<audience>:<purpose>", so they are never accepted as access tokens
+  purpose?: string;
+}
+
+interface JWTHeader {
+  alg: string;
+  typ: string;
+  kid: string;
 }
 
-const JWT_SECRET = process.env.JWT_SECRET || 'default-secret-key-change-in-production';
+interface SigningKey {
+  kid: string;
+  secret: string;
+}
+
+const ALGORITHM = 'HS256';
+const TOKEN_TYPE = 'JWT';
+
+const DEFAULT_KEY_ID = 'default';
+const DEVELOPMENT_SECRET = 'default-secret-key-change-in-production';
+
+const DEFAULT_ISSUER = 'quizmaker';
+const DEFAULT_AUDIENCE = 'quizmaker-app';
+
+// Tolerated clock difference between workers when checking nbf and exp
+const CLOCK_SKEW_SECONDS = 30;
+
+let warnedAboutDevelopmentSecret = false;
 
 /**
  * Base64 URL encode
@@ -51,6 +92,65 @@ function uint8ArrayToHex(arr: Uint8Array): string {
     .join('');
 }
 
+/**
+ * Read the configured signing keys, first key first
+ * Throws in production when no secret is configured; elsewhere falls back to a
+ * development secret with a warning
+ */
+function getSigningKeys(): SigningKey[] {
+  const keys: SigningKey[] = [];
+
+  for (const entry of (process.env.JWT_KEYS || '').split(',')) {
+    const separator = entry.indexOf(':');
+    const kid = entry.slice(0, separator).trim();
+    const secret = entry.slice(separator + 1).trim();
+    if (separator > 0 && kid && secret) {
+      keys.push({ kid, secret });
+    }
+  }
+
+  if (keys.length === 0 && process.env.JWT_SECRET) {
+    keys.push({ kid: DEFAULT_KEY_ID, secret: process.env.JWT_SECRET });
+  }
+
+  if (keys.length === 0) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('JWT signing key is not configured: set JWT_KEYS or JWT_SECRET');
+    }
+    if (!warnedAboutDevelopmentSecret) {
+      console.warn('⚠️ JWT_SECRET is not set; using the development secret');
+      warnedAboutDevelopmentSecret = true;
+    }
+    keys.push({ kid: DEFAULT_KEY_ID, secret: DEVELOPMENT_SECRET });
+  }
+
+  return keys;
+}
+
+/**
+ * Expected issuer and audience claims
+ */
+function getClaimSettings(options: TokenOptions): { issuer: string; audience: string } {
+  const audience = process.env.JWT_AUDIENCE || DEFAULT_AUDIENCE;
+  return {
+    issuer: process.env.JWT_ISSUER || DEFAULT_ISSUER,
+    audience: options.purpose ? `${audience}:${options.purpose}` : audience,
+  };
+}
+
+/**
+ * Parse a duration such as "15m", "24h" or "7d" into seconds
+ */
+function parseDuration(expiresIn: string): number {
+  const match = /^(\d+)([mhd])$/.exec(expiresIn);
+  if (!match) {
+    throw new Error(`Invalid token lifetime: ${expiresIn}`);
+  }
+
+  const units = { m: 60, h: 3600, d: 86400 } as const;
+  return parseInt(match[1], 10) * units[match[2] as keyof typeof units];
+}
+
 /**
  * Create HMAC signature using Web Crypto API
  */
@@ -58,7 +158,7 @@ async function createSignature(data: string, secret: string): Promise<string> {
   const encoder = new TextEncoder();
   const keyData = encoder.encode(secret);
   const algorithm = { name: 'HMAC', hash: 'SHA-256' };
-  
+
   const key = await crypto.subtle.importKey(
     'raw',
     keyData,
@@ -66,84 +166,122 @@ async function createSignature(data: string, secret: string): Promise<string> {
     false,
     ['sign']
   );
-  
+
   const signature = await crypto.subtle.sign(
     algorithm.name,
     key,
     encoder.encode(data)
   );
-  
+
   const signatureArray = new Uint8Array(signature);
   const signatureHex = uint8ArrayToHex(signatureArray);
   return base64UrlEncode(signatureHex);
 }
 
 /**
- * Sign a JWT token
+ * Decode a token segment as a JSON object
  */
-export async function signToken(payload: Omit<JWTPayload, 'iat' | 'exp'>, expiresIn: string = '24h'): Promise<string> {
-  const now = Math.floor(Date.now() / 1000);
-  
-  // Parse expiresIn (simplified - only handles "24h", "7d", etc.)
-  let expirationSeconds = 86400; // default 24 hours
-  if (expiresIn.endsWith('h')) {
-    expirationSeconds = parseInt(expiresIn) * 3600;
-  } else if (expiresIn.endsWith('d')) {
-    expirationSeconds = parseInt(expiresIn) * 86400;
+function decodeSegment<T>(segment: string): T {
+  const value = JSON.parse(base64UrlDecode(segment)) as unknown;
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('Invalid token segment');
   }
-  
+  return value as T;
+}
+
+/**
+ * Sign a JWT token with the current signing key
+ */
+export async function signToken(
+  payload: Omit<JWTPayload, 'iat' | 'nbf' | 'exp' | 'iss' | 'aud'>,
+  expiresIn: string = '24h',
+  options: TokenOptions = {}
+): Promise<string> {
+  const [signingKey] = getSigningKeys();
+  const { issuer, audience } = getClaimSettings(options);
+  const now = Math.floor(Date.now() / 1000);
+
   const fullPayload: JWTPayload = {
     ...payload,
+    iss: issuer,
+    aud: audience,
     iat: now,
-    exp: now + expirationSeconds,
+    nbf: now,
+    exp: now + parseDuration(expiresIn),
   };
-  
-  const header = {
-    alg: 'HS256',
-    typ: 'JWT',
+
+  const header: JWTHeader = {
+    alg: ALGORITHM,
+    typ: TOKEN_TYPE,
+    kid: signingKey.kid,
   };
-  
+
   const encodedHeader = base64UrlEncode(JSON.stringify(header));
   const encodedPayload = base64UrlEncode(JSON.stringify(fullPayload));
-  
+
   const data = `${encodedHeader}.${encodedPayload}`;
-  const signature = await createSignature(data, JWT_SECRET);
-  
+  const signature = await createSignature(data, signingKey.secret);
+
   return `${data}.${signature}`;
 }
 
 /**
  * Verify and decode a JWT token
+ * Accepts only HS256 JWTs signed with a configured key, within their nbf/exp
+ * window, issued by and for this application
  */
-export async function verifyToken(token: string): Promise<JWTPayload> {
+export async function verifyToken(token: string, options: TokenOptions = {}): Promise<JWTPayload> {
+  // Configuration errors are not token errors; let them surface
+  const keys = getSigningKeys();
+  const { issuer, audience } = getClaimSettings(options);
+
   try {
     const parts = token.split('.');
     if (parts.length !== 3) {
       throw new Error('Invalid token format');
     }
-    
+
     const [encodedHeader, encodedPayload, signature] = parts;
-    
-    // Verify signature
+
+    // Check the header before trusting anything it says
+    const header = decodeSegment<Partial<JWTHeader>>(encodedHeader);
+    if (header.alg !== ALGORITHM || header.typ !== TOKEN_TYPE) {
+      throw new Error('Unsupported token algorithm or type');
+    }
+
+    const key = keys.find((candidate) => candidate.kid === header.kid);
+    if (!key) {
+      throw new Error('Unknown signing key');
+    }
+
+    // Verify signature in constant time
     const data = `${encodedHeader}.${encodedPayload}`;
-    const expectedSignature = await createSignature(data, JWT_SECRET);
-    
-    if (signature !== expectedSignature) {
+    const expectedSignature = await createSignature(data, key.secret);
+
+    if (!timingSafeEqual(stringToUint8Array(signature), stringToUint8Array(expectedSignature))) {
       throw new Error('Invalid signature');
     }
-    
+
     // Decode payload
-    const payloadJson = base64UrlDecode(encodedPayload);
-    const payload = JSON.parse(payloadJson) as JWTPayload;
-    
-    // Check expiration
-    if (payload.exp && payload.exp < Math.floor(Date.now() / 1000)) {
+    const payload = decodeSegment<JWTPayload>(encodedPayload);
+    const now = Math.floor(Date.now() / 1000);
+
+    // Check validity window
+    if (typeof payload.exp !== 'number' || payload.exp + CLOCK_SKEW_SECONDS < now) {
       throw new Error('Token expired');
     }
-    
+    if (typeof payload.nbf === 'number' && payload.nbf - CLOCK_SKEW_SECONDS > now) {
+      throw new Error('Token not yet valid');
+    }
+
+    // Check issuer and audience
+    const audiences = Array.isArray(payload.aud) ? payload.aud : [payload.aud];
+    if (payload.iss !== issuer || !audiences.includes(audience)) {
+      throw new Error('Invalid token issuer or audience');
+    }
+
     return payload;
   } catch (error) {
     throw new Error('Invalid or expired token');
   }
 }
-
@@ -0,0 +1,31 @@
+/**
+ * Leaderboard Privacy
+ * Students choose how they appear on leaderboards and instructors can require more
+ * privacy for a course; the most private of the two applies. Safe to import from
+ * client components; pseudonyms are generated on the server (see leaderboard-pseudonym.ts)
+ */
+
+// shown: real name — pseudonym: a stable generated name — hidden: left off others' leaderboards
+export type LeaderboardVisibility = 'shown' | 'pseudonym' | 'hidden';
+
+// student_choice leaves it to each student; the others are the least privacy students get
+export type CourseLeaderboardPolicy = 'student_choice' | 'pseudonym' | 'hidden';
+
+// Least to most private
+export const LEADERBOARD_VISIBILITIES: LeaderboardVisibility[] = ['shown', 'pseudonym', 'hidden'];
+
+export const COURSE_LEADERBOARD_POLICIES: CourseLeaderboardPolicy[] = ['student_choice', 'pseudonym', 'hidden'];
+
+/**
+ * Whether a value is a known visibility setting
+ */
+export function isLeaderboardVisibility(value: unknown): value is LeaderboardVisibility {
+  return typeof value === 'string' && (LEADERBOARD_VISIBILITIES as string[]).includes(value);
+}
+
+/**
+ * Whether a value is a known course policy
+ */
+export function isCourseLeaderboardPolicy(value: unknown): value is CourseLeaderboardPolicy {
+  return typeof value === 'string' && (COURSE_LEADERBOARD_POLICIES as string[]).includes(value);
+}
@@ -0,0 +1,57 @@
+/**
+ * Leaderboard Pseudonym Unit Tests
+ *
+ * Tests that pseudonyms are stable for a user, distinct across a large class,
+ * depend on the configured secret, and require the secret in production.
+ *
+ * @fileoverview Unit tests for src/lib/leaderboard-pseudonym.ts
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { leaderboardPseudonym } from './leaderboard-pseudonym';
+
+const PSEUDONYM_PATTERN = /^[A-Z][a-z]+ [A-Z][a-z]+ \d{1,4}$/;
+
+describe('leaderboard-pseudonym', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('should give a user the same pseudonym every time', async () => {
+    vi.stubEnv('LEADERBOARD_PSEUDONYM_SECRET', 'first-secret');
+
+    const pseudonym = await leaderboardPseudonym('student-1');
+
+    expect(pseudonym).toMatch(PSEUDONYM_PATTERN);
+    await expect(leaderboardPseudonym('student-1')).resolves.toBe(pseudonym);
+  });
+
+  it('should give the students of a large class distinct pseudonyms', async () => {
+    vi.stubEnv('LEADERBOARD_PSEUDONYM_SECRET', 'first-secret');
+    const userIds = Array.from({ length: 500 }, (_, index) => `student-${index}`);
+
+    const pseudonyms = await Promise.all(userIds.map((userId) => leaderboardPseudonym(userId)));
+
+    expect(new Set(pseudonyms).size).toBe(userIds.length);
+  });
+
+  it('should derive pseudonyms from the secret', async () => {
+    const userIds = Array.from({ length: 8 }, (_, index) => `student-${index}`);
+
+    vi.stubEnv('LEADERBOARD_PSEUDONYM_SECRET', 'first-secret');
+    const first = await Promise.all(userIds.map((userId) => leaderboardPseudonym(userId)));
+    vi.stubEnv('LEADERBOARD_PSEUDONYM_SECRET', 'second-secret');
+    const second = await Promise.all(userIds.map((userId) => leaderboardPseudonym(userId)));
+
+    expect(second).not.toEqual(first);
+  });
+
+  it('should require a secret in production', async () => {
+    vi.stubEnv('NODE_ENV', 'production');
+    vi.stubEnv('LEADERBOARD_PSEUDONYM_SECRET', '');
+
+    await expect(leaderboardPseudonym('student-1')).rejects.toThrow(
+      'Leaderboard pseudonym secret is not configured: set LEADERBOARD_PSEUDONYM_SECRET'
+    );
+  });
+});
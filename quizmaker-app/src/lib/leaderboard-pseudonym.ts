@@ -0,0 +1,75 @@
+/**
+ * Leaderboard Pseudonyms
+ * Generated display names for students who do not show their real name on leaderboards.
+ * Server only: names are keyed with LEADERBOARD_PSEUDONYM_SECRET, so they cannot be
+ * recomputed from a user id without it
+ */
+
+const DEVELOPMENT_SECRET = 'development-leaderboard-pseudonym-secret';
+
+// 64 adjectives × 64 animals × 10,000 numbers: about 41 million names, so two students
+// in one class are very unlikely to share one
+const PSEUDONYM_ADJECTIVES = [
+  'Amber', 'Brave', 'Calm', 'Clever', 'Swift', 'Bright', 'Quiet', 'Lucky',
+  'Bold', 'Gentle', 'Keen', 'Merry', 'Nimble', 'Silver', 'Sunny', 'Witty',
+  'Agile', 'Breezy', 'Cheery', 'Cosmic', 'Crimson', 'Daring', 'Dusky', 'Eager',
+  'Fabled', 'Fearless', 'Frosty', 'Gallant', 'Golden', 'Happy', 'Hardy', 'Honest',
+  'Humble', 'Jolly', 'Jovial', 'Kind', 'Lively', 'Loyal', 'Mellow', 'Mighty',
+  'Misty', 'Noble', 'Patient', 'Plucky', 'Polar', 'Proud', 'Rapid', 'Rustic',
+  'Scarlet', 'Serene', 'Sharp', 'Shy', 'Sleek', 'Smart', 'Snowy', 'Spry',
+  'Steady', 'Stellar', 'Sturdy', 'Tidy', 'Vivid', 'Wise', 'Zesty', 'Radiant',
+];
+
+const PSEUDONYM_ANIMALS = [
+  'Otter', 'Falcon', 'Panda', 'Fox', 'Heron', 'Lynx', 'Koala', 'Badger',
+  'Dolphin', 'Owl', 'Tiger', 'Wombat', 'Raven', 'Gecko', 'Bison', 'Marten',
+  'Alpaca', 'Beaver', 'Bobcat', 'Caribou', 'Cheetah', 'Condor', 'Coyote', 'Crane',
+  'Eagle', 'Egret', 'Ferret', 'Finch', 'Gazelle', 'Gibbon', 'Hare', 'Hawk',
+  'Ibex', 'Jackal', 'Jaguar', 'Kestrel', 'Kingfisher', 'Lemur', 'Leopard', 'Llama',
+  'Magpie', 'Manatee', 'Meerkat', 'Mole', 'Moose', 'Narwhal', 'Ocelot', 'Orca',
+  'Osprey', 'Pelican', 'Penguin', 'Puffin', 'Quokka', 'Robin', 'Salmon', 'Seal',
+  'Sparrow', 'Stork', 'Swan', 'Tapir', 'Toucan', 'Walrus', 'Weasel', 'Yak',
+];
+
+let warnedAboutDevelopmentSecret = false;
+
+/**
+ * Stable display name for a student who does not show their real name, e.g. "Quiet Otter 4821"
+ * An HMAC-SHA256 of the user id, so it is the same on every leaderboard and never changes
+ * while the secret does not
+ */
+export async function leaderboardPseudonym(userId: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(getSecret()),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const digest = new Uint8Array(await crypto.subtle.sign('HMAC', key, encoder.encode(userId)));
+
+  const adjective = PSEUDONYM_ADJECTIVES[digest[0] % PSEUDONYM_ADJECTIVES.length];
+  const animal = PSEUDONYM_ANIMALS[digest[1] % PSEUDONYM_ANIMALS.length];
+  const number = ((digest[2] << 16) | (digest[3] << 8) | digest[4]) % 10000;
+  return `${adjective} ${animal} ${number}`;
+}
+
+/**
+ * Pseudonym key; required in production
+ */
+function getSecret(): string {
+  const secret = process.env.LEADERBOARD_PSEUDONYM_SECRET;
+  if (secret) {
+    return secret;
+  }
+
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('Leaderboard pseudonym secret is not configured: set LEADERBOARD_PSEUDONYM_SECRET');
+  }
+  if (!warnedAboutDevelopmentSecret) {
+    console.warn('⚠️ LEADERBOARD_PSEUDONYM_SECRET is not set; using the development secret');
+    warnedAboutDevelopmentSecret = true;
+  }
+  return DEVELOPMENT_SECRET;
+}
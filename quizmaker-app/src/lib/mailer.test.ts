@@ -0,0 +1,71 @@
+/**
+ * Mailer Unit Tests
+ *
+ * Tests choosing the mailer from the environment, the Resend request and the
+ * production refusal of the console mailer.
+ *
+ * @fileoverview Unit tests for src/lib/mailer.ts
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { ConsoleMailer, ResendMailer, createMailer, getMailer, setMailer } from './mailer';
+
+const MESSAGE = { to: 'student@example.com', subject: 'Hello', text: 'Hi there' };
+
+describe('mailer', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+    setMailer(new ConsoleMailer());
+  });
+
+  it('should use Resend when an API key is configured', () => {
+    vi.stubEnv('RESEND_API_KEY', 're_test');
+    vi.stubEnv('EMAIL_FROM', 'QuizMaker <no-reply@example.com>');
+
+    expect(createMailer()).toBeInstanceOf(ResendMailer);
+  });
+
+  it('should log messages without an API key', () => {
+    vi.stubEnv('RESEND_API_KEY', '');
+
+    expect(createMailer()).toBeInstanceOf(ConsoleMailer);
+  });
+
+  it('should require a sender address with an API key', () => {
+    vi.stubEnv('RESEND_API_KEY', 're_test');
+    vi.stubEnv('EMAIL_FROM', '');
+
+    expect(() => createMailer()).toThrow('EMAIL_FROM is required to send email through Resend');
+  });
+
+  it('should post the message to Resend and fail on an error status', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(new Response('{}', { status: 200 }))
+      .mockResolvedValueOnce(new Response('{}', { status: 422 }));
+    vi.stubGlobal('fetch', fetchMock);
+    const mailer = new ResendMailer('re_test', 'no-reply@example.com');
+
+    await mailer.send(MESSAGE);
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://api.resend.com/emails');
+    expect(init.headers).toMatchObject({ Authorization: 'Bearer re_test' });
+    expect(JSON.parse(init.body)).toEqual({
+      from: 'no-reply@example.com',
+      to: ['student@example.com'],
+      subject: 'Hello',
+      text: 'Hi there',
+    });
+    await expect(mailer.send(MESSAGE)).rejects.toThrow('Email delivery failed with status 422');
+  });
+
+  it('should refuse the console mailer in production', () => {
+    vi.stubEnv('NODE_ENV', 'production');
+
+    expect(() => getMailer()).toThrow('Email delivery is not configured');
+
+    setMailer(new ResendMailer('re_test', 'no-reply@example.com'));
+    expect(getMailer()).toBeInstanceOf(ResendMailer);
+  });
+});
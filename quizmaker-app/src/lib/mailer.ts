@@ -0,0 +1,122 @@
+/**
+ * Mailer
+ * Pluggable outgoing email. The mailer is chosen from the environment and registered
+ * at startup (see src/instrumentation.ts): Resend when RESEND_API_KEY is set, otherwise
+ * the console mailer, which logs messages instead of sending them. The console mailer
+ * is refused in production, where it would write live links to the log
+ */
+
+// ============================================
+// Types & Interfaces
+// ============================================
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
+
+// ============================================
+// Implementations
+// ============================================
+
+const RESEND_API_URL = 'https://api.resend.com/emails';
+
+/**
+ * Development mailer: writes each message to the log
+ */
+export class ConsoleMailer implements Mailer {
+  async send(message: MailMessage): Promise<void> {
+    console.log(`📧 Email to ${message.to}: ${message.subject}\n${message.text}`);
+  }
+}
+
+/**
+ * Sends through the Resend HTTP API
+ */
+export class ResendMailer implements Mailer {
+  constructor(
+    private readonly apiKey: string,
+    private readonly from: string
+  ) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const response = await fetch(RESEND_API_URL, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${this.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        from: this.from,
+        to: [message.to],
+        subject: message.subject,
+        text: message.text,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Email delivery failed with status ${response.status}`);
+    }
+  }
+}
+
+// ============================================
+// Active Mailer
+// ============================================
+
+let activeMailer: Mailer | null = null;
+
+/**
+ * Mailer configured by the environment: Resend with RESEND_API_KEY and EMAIL_FROM,
+ * otherwise the console mailer
+ */
+export function createMailer(): Mailer {
+  const apiKey = process.env.RESEND_API_KEY;
+  if (!apiKey) {
+    return new ConsoleMailer();
+  }
+
+  const from = process.env.EMAIL_FROM;
+  if (!from) {
+    throw new Error('EMAIL_FROM is required to send email through Resend');
+  }
+  return new ResendMailer(apiKey, from);
+}
+
+/**
+ * Mailer used by the services
+ * Falls back to the environment's mailer when none was registered
+ */
+export function getMailer(): Mailer {
+  if (!isEmailDeliveryConfigured()) {
+    throw new Error('Email delivery is not configured');
+  }
+  return resolveMailer();
+}
+
+/**
+ * Whether emails can be delivered: not in production with only the console mailer
+ */
+export function isEmailDeliveryConfigured(): boolean {
+  return !(resolveMailer() instanceof ConsoleMailer && process.env.NODE_ENV === 'production');
+}
+
+/**
+ * Replace the mailer (at startup, or with a stub in tests)
+ */
+export function setMailer(mailer: Mailer): void {
+  activeMailer = mailer;
+}
+
+/**
+ * The registered mailer, or the environment's when none was registered
+ */
+function resolveMailer(): Mailer {
+  activeMailer ??= createMailer();
+  return activeMailer;
+}
@@ -0,0 +1,145 @@
+/**
+ * Question Types
+ * Question type definitions and answer grading shared by the question and quiz services
+ */
+
+// ============================================
+// Types & Interfaces
+// ============================================
+
+export type QuestionType =
+  | 'single_choice'
+  | 'multi_select'
+  | 'true_false'
+  | 'numeric'
+  | 'short_text';
+
+/**
+ * How a multi-select answer is scored:
+ * - all_or_nothing: full points only when exactly the correct options are selected
+ * - partial: each correct selection earns a share of the points, each wrong selection cancels one
+ */
+export type ScoringMode = 'all_or_nothing' | 'partial';
+
+export interface AnswerGrade {
+  isCorrect: boolean;
+  score: number;
+}
+
+export interface ChoiceAnswer {
+  correctOptionIds: string[];
+  selectedOptionIds: string[];
+  points: number;
+  scoringMode: ScoringMode;
+}
+
+export interface NumericAnswer {
+  correctAnswer: number;
+  tolerance: number;
+  response: string;
+  points: number;
+}
+
+export interface TextAnswer {
+  acceptedAnswers: string[];
+  response: string;
+  points: number;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+export const QUESTION_TYPES: QuestionType[] = [
+  'single_choice',
+  'multi_select',
+  'true_false',
+  'numeric',
+  'short_text',
+];
+
+/** Question types answered by picking rows from the options table */
+export const CHOICE_QUESTION_TYPES: QuestionType[] = ['single_choice', 'multi_select', 'true_false'];
+
+export const SCORING_MODES: ScoringMode[] = ['all_or_nothing', 'partial'];
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Whether a question type is answered by selecting options
+ */
+export function isChoiceQuestionType(questionType: QuestionType): boolean {
+  return CHOICE_QUESTION_TYPES.includes(questionType);
+}
+
+/**
+ * Normalize a free-text answer for comparison: trimmed, inner whitespace
+ * collapsed to single spaces and lower-cased
+ */
+export function normalizeTextAnswer(text: string): string {
+  return text.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+// ============================================
+// Grading
+// ============================================
+
+/**
+ * Grade a single-choice or multi-select answer
+ * Partial credit is (correct selections - wrong selections) / correct options,
+ * never below zero and rounded down to whole points
+ */
+export function gradeChoiceAnswer(answer: ChoiceAnswer): AnswerGrade {
+  const correct = new Set(answer.correctOptionIds);
+  const selected = new Set(answer.selectedOptionIds);
+
+  let hits = 0;
+  let misses = 0;
+  for (const optionId of selected) {
+    if (correct.has(optionId)) {
+      hits++;
+    } else {
+      misses++;
+    }
+  }
+
+  const isCorrect = correct.size > 0 && hits === correct.size && misses === 0;
+  if (isCorrect) {
+    return { isCorrect, score: answer.points };
+  }
+
+  if (answer.scoringMode !== 'partial' || correct.size === 0) {
+    return { isCorrect, score: 0 };
+  }
+
+  const fraction = Math.max(0, (hits - misses) / correct.size);
+  return { isCorrect, score: Math.floor(answer.points * fraction) };
+}
+
+/**
+ * Grade a numeric answer; responses within the tolerance of the correct answer earn full points
+ */
+export function gradeNumericAnswer(answer: NumericAnswer): AnswerGrade {
+  const trimmed = answer.response.trim();
+  const value = Number(trimmed);
+  if (trimmed === '' || !Number.isFinite(value)) {
+    return { isCorrect: false, score: 0 };
+  }
+
+  // Small epsilon so e.g. 0.1 + 0.2 still matches 0.3 with zero tolerance
+  const isCorrect = Math.abs(value - answer.correctAnswer) <= answer.tolerance + 1e-9;
+  return { isCorrect, score: isCorrect ? answer.points : 0 };
+}
+
+/**
+ * Grade a short text answer against the accepted answers, ignoring case and whitespace
+ */
+export function gradeTextAnswer(answer: TextAnswer): AnswerGrade {
+  const response = normalizeTextAnswer(answer.response);
+  const isCorrect =
+    response.length > 0 &&
+    answer.acceptedAnswers.some((accepted) => normalizeTextAnswer(accepted) === response);
+  return { isCorrect, score: isCorrect ? answer.points : 0 };
+}
@@ -0,0 +1,101 @@
+/**
+ * Rate Limiter Unit Tests
+ *
+ * Tests progressive backoff, lockout, window expiry and resets against the memory store.
+ *
+ * @fileoverview Unit tests for src/lib/rate-limit.ts
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  RateLimiter,
+  RateLimitError,
+  RateLimitPolicy,
+  MemoryRateLimitStore,
+  setRateLimitStore,
+} from './rate-limit';
+
+const POLICY: RateLimitPolicy = {
+  freeAttempts: 2,
+  maxAttempts: 5,
+  windowMs: 60 * 1000,
+  backoffBaseMs: 1000,
+  lockoutMs: 10 * 60 * 1000,
+};
+
+const KEYS = [{ key: 'login:email:student@example.com', policy: POLICY }];
+
+// Seconds the limiter currently asks the caller to wait, or 0 when allowed
+async function retryAfter(): Promise<number> {
+  try {
+    await RateLimiter.check(KEYS);
+    return 0;
+  } catch (error) {
+    expect(error).toBeInstanceOf(RateLimitError);
+    return (error as RateLimitError).retryAfterSeconds;
+  }
+}
+
+describe('RateLimiter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    setRateLimitStore(new MemoryRateLimitStore());
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should back off progressively and then lock out', async () => {
+    const waits: number[] = [];
+    for (let attempt = 0; attempt < 5; attempt++) {
+      await RateLimiter.hit(KEYS);
+      waits.push(await retryAfter());
+    }
+
+    expect(waits).toEqual([0, 0, 1, 2, 600]);
+  });
+
+  it('should allow attempts again once the backoff passes', async () => {
+    for (let attempt = 0; attempt < 3; attempt++) {
+      await RateLimiter.hit(KEYS);
+    }
+    expect(await retryAfter()).toBe(1);
+
+    vi.advanceTimersByTime(1000);
+    expect(await retryAfter()).toBe(0);
+  });
+
+  it('should start a new window after the window passes', async () => {
+    for (let attempt = 0; attempt < 4; attempt++) {
+      await RateLimiter.hit(KEYS);
+    }
+
+    vi.advanceTimersByTime(POLICY.windowMs);
+    await RateLimiter.hit(KEYS);
+
+    expect(await retryAfter()).toBe(0);
+  });
+
+  it('should clear a key on reset', async () => {
+    for (let attempt = 0; attempt < 5; attempt++) {
+      await RateLimiter.hit(KEYS);
+    }
+
+    await RateLimiter.reset([KEYS[0].key]);
+
+    expect(await retryAfter()).toBe(0);
+  });
+
+  it('should report the longest wait across keys', async () => {
+    const ipKey = { key: 'login:ip:203.0.113.7', policy: { ...POLICY, freeAttempts: 0 } };
+    await RateLimiter.hit([...KEYS, ipKey]);
+
+    await expect(RateLimiter.check([...KEYS, ipKey])).rejects.toMatchObject({
+      retryAfterSeconds: 1,
+      message: 'Too many attempts. Please try again in 1 second.',
+    });
+  });
+});
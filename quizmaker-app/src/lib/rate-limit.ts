@@ -0,0 +1,297 @@
+/**
+ * Rate Limiting
+ * Attempt counters with progressive backoff and temporary lockout. Counters live
+ * in D1 by default; tests and local tools can swap in the memory store with
+ * setRateLimitStore()
+ */
+
+import { executeQueryFirst, executeMutation } from '@/lib/d1-client';
+
+// ============================================
+// Types & Interfaces
+// ============================================
+
+export interface RateLimitRecord {
+  count: number;
+  // Epoch milliseconds
+  windowStart: number;
+  lockedUntil: number | null;
+}
+
+export interface RateLimitStore {
+  get(key: string): Promise<RateLimitRecord | null>;
+  set(key: string, record: RateLimitRecord, expiresAt: number): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+export interface RateLimitPolicy {
+  // Attempts allowed in a window before backoff starts
+  freeAttempts: number;
+  // Attempts in a window that trigger a full lockout
+  maxAttempts: number;
+  windowMs: number;
+  // First backoff delay; doubles with every further attempt
+  backoffBaseMs: number;
+  lockoutMs: number;
+}
+
+export interface RateLimitedKey {
+  key: string;
+  policy: RateLimitPolicy;
+}
+
+/**
+ * Thrown when an attempt is refused; routes answer 429 with Retry-After
+ */
+export class RateLimitError extends Error {
+  constructor(public readonly retryAfterSeconds: number) {
+    super(`Too many attempts. Please try again in ${formatWait(retryAfterSeconds)}.`);
+    this.name = 'RateLimitError';
+  }
+}
+
+// ============================================
+// Policies
+// ============================================
+
+// Failed logins for one account
+export const LOGIN_EMAIL_POLICY: RateLimitPolicy = {
+  freeAttempts: 3,
+  maxAttempts: 10,
+  windowMs: 15 * 60 * 1000,
+  backoffBaseMs: 1000,
+  lockoutMs: 15 * 60 * 1000,
+};
+
+// Failed logins from one IP address, across accounts
+export const LOGIN_IP_POLICY: RateLimitPolicy = {
+  freeAttempts: 20,
+  maxAttempts: 100,
+  windowMs: 15 * 60 * 1000,
+  backoffBaseMs: 1000,
+  lockoutMs: 60 * 60 * 1000,
+};
+
+// Signup attempts for one email address
+export const SIGNUP_EMAIL_POLICY: RateLimitPolicy = {
+  freeAttempts: 5,
+  maxAttempts: 20,
+  windowMs: 60 * 60 * 1000,
+  backoffBaseMs: 10 * 1000,
+  lockoutMs: 60 * 60 * 1000,
+};
+
+// Signup attempts from one IP address, across emails; high enough for a class
+// signing up together behind one address
+export const SIGNUP_IP_POLICY: RateLimitPolicy = {
+  freeAttempts: 100,
+  maxAttempts: 300,
+  windowMs: 60 * 60 * 1000,
+  backoffBaseMs: 1000,
+  lockoutMs: 60 * 60 * 1000,
+};
+
+// Verification emails sent for one account
+export const EMAIL_VERIFICATION_POLICY: RateLimitPolicy = {
+  freeAttempts: 3,
+  maxAttempts: 10,
+  windowMs: 60 * 60 * 1000,
+  backoffBaseMs: 60 * 1000,
+  lockoutMs: 60 * 60 * 1000,
+};
+
+// Password reset emails, per email address and per IP address
+export const PASSWORD_RESET_POLICY: RateLimitPolicy = {
+  freeAttempts: 3,
+  maxAttempts: 10,
+  windowMs: 60 * 60 * 1000,
+  backoffBaseMs: 60 * 1000,
+  lockoutMs: 60 * 60 * 1000,
+};
+
+// Wrong course join codes entered by one student
+export const COURSE_JOIN_POLICY: RateLimitPolicy = {
+  freeAttempts: 5,
+  maxAttempts: 20,
+  windowMs: 60 * 60 * 1000,
+  backoffBaseMs: 5 * 1000,
+  lockoutMs: 60 * 60 * 1000,
+};
+
+// ============================================
+// Stores
+// ============================================
+
+/**
+ * In-memory store for tests and single-process development
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private records = new Map<string, { record: RateLimitRecord; expiresAt: number }>();
+
+  async get(key: string): Promise<RateLimitRecord | null> {
+    const entry = this.records.get(key);
+    if (!entry || entry.expiresAt <= Date.now()) {
+      return null;
+    }
+    return { ...entry.record };
+  }
+
+  async set(key: string, record: RateLimitRecord, expiresAt: number): Promise<void> {
+    this.records.set(key, { record: { ...record }, expiresAt });
+  }
+
+  async delete(key: string): Promise<void> {
+    this.records.delete(key);
+  }
+}
+
+/**
+ * D1-backed store shared by all worker instances
+ * Updates are read-modify-write; concurrent requests may let a few extra attempts
+ * through, which is acceptable for throttling
+ */
+export class D1RateLimitStore implements RateLimitStore {
+  async get(key: string): Promise<RateLimitRecord | null> {
+    const row = await executeQueryFirst<{
+      count: number;
+      window_start: string;
+      locked_until: string | null;
+      expires_at: string;
+    }>(
+      'SELECT count, window_start, locked_until, expires_at FROM rate_limits WHERE key = ?',
+      [key]
+    );
+
+    if (!row || Date.parse(row.expires_at) <= Date.now()) {
+      return null;
+    }
+
+    return {
+      count: row.count,
+      windowStart: Date.parse(row.window_start),
+      lockedUntil: row.locked_until ? Date.parse(row.locked_until) : null,
+    };
+  }
+
+  async set(key: string, record: RateLimitRecord, expiresAt: number): Promise<void> {
+    await executeMutation(
+      `INSERT INTO rate_limits (key, count, window_start, locked_until, expires_at)
+       VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT(key) DO UPDATE SET
+         count = excluded.count,
+         window_start = excluded.window_start,
+         locked_until = excluded.locked_until,
+         expires_at = excluded.expires_at`,
+      [
+        key,
+        record.count,
+        new Date(record.windowStart).toISOString(),
+        record.lockedUntil ? new Date(record.lockedUntil).toISOString() : null,
+        new Date(expiresAt).toISOString(),
+      ]
+    );
+  }
+
+  async delete(key: string): Promise<void> {
+    // Purge stale counters while we are here
+    await executeMutation(
+      'DELETE FROM rate_limits WHERE key = ? OR expires_at < ?',
+      [key, new Date().toISOString()]
+    );
+  }
+}
+
+// ============================================
+// Active Store
+// ============================================
+
+let activeStore: RateLimitStore = new D1RateLimitStore();
+
+/**
+ * Store used by the rate limiter
+ */
+export function getRateLimitStore(): RateLimitStore {
+  return activeStore;
+}
+
+/**
+ * Replace the store (e.g. with a MemoryRateLimitStore in tests)
+ */
+export function setRateLimitStore(store: RateLimitStore): void {
+  activeStore = store;
+}
+
+// ============================================
+// Rate Limiter
+// ============================================
+
+export class RateLimiter {
+  /**
+   * Refuse the attempt if any key is in backoff or locked out
+   * Throws RateLimitError with the longest remaining wait
+   */
+  static async check(keys: RateLimitedKey[]): Promise<void> {
+    const now = Date.now();
+    let retryAfterMs = 0;
+
+    for (const { key } of keys) {
+      const record = await activeStore.get(key);
+      if (record?.lockedUntil && record.lockedUntil > now) {
+        retryAfterMs = Math.max(retryAfterMs, record.lockedUntil - now);
+      }
+    }
+
+    if (retryAfterMs > 0) {
+      throw new RateLimitError(Math.ceil(retryAfterMs / 1000));
+    }
+  }
+
+  /**
+   * Count an attempt against every key, starting backoff after the policy's free
+   * attempts and locking the key out once it reaches the maximum
+   */
+  static async hit(keys: RateLimitedKey[]): Promise<void> {
+    const now = Date.now();
+
+    for (const { key, policy } of keys) {
+      const existing = await activeStore.get(key);
+      const record: RateLimitRecord =
+        existing && now - existing.windowStart < policy.windowMs
+          ? existing
+          : { count: 0, windowStart: now, lockedUntil: null };
+
+      record.count += 1;
+
+      if (record.count >= policy.maxAttempts) {
+        record.lockedUntil = now + policy.lockoutMs;
+        console.warn('🔒 Rate limit lockout:', key);
+      } else if (record.count > policy.freeAttempts) {
+        const backoffMs = policy.backoffBaseMs * 2 ** (record.count - policy.freeAttempts - 1);
+        record.lockedUntil = now + Math.min(backoffMs, policy.lockoutMs);
+      }
+
+      const expiresAt = Math.max(record.windowStart + policy.windowMs, record.lockedUntil ?? 0);
+      await activeStore.set(key, record, expiresAt);
+    }
+  }
+
+  /**
+   * Clear the counters for keys (e.g. an account after a successful login)
+   */
+  static async reset(keys: string[]): Promise<void> {
+    for (const key of keys) {
+      await activeStore.delete(key);
+    }
+  }
+}
+
+/**
+ * Human-readable wait, e.g. "30 seconds" or "15 minutes"
+ */
+function formatWait(seconds: number): string {
+  if (seconds < 60) {
+    return `${seconds} second${seconds === 1 ? '' : 's'}`;
+  }
+  const minutes = Math.ceil(seconds / 60);
+  return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+}
@@ -0,0 +1,42 @@
+/**
+ * User Roles
+ * Roles form a hierarchy: each role has every permission of the roles below it
+ * (student < instructor < admin). Safe to import from client components
+ */
+
+export type UserRole = 'student' | 'instructor' | 'admin';
+
+// Lowest to highest
+export const USER_ROLES: UserRole[] = ['student', 'instructor', 'admin'];
+
+/**
+ * Whether a value is a known role
+ */
+export function isUserRole(value: unknown): value is UserRole {
+  return typeof value === 'string' && (USER_ROLES as string[]).includes(value);
+}
+
+/**
+ * Whether a role includes the permissions of the required role
+ * Unknown roles have no permissions
+ */
+export function hasRole(role: string | null | undefined, requiredRole: UserRole): boolean {
+  if (!isUserRole(role)) {
+    return false;
+  }
+  return USER_ROLES.indexOf(role) >= USER_ROLES.indexOf(requiredRole);
+}
+
+/**
+ * Landing page for a role after login
+ */
+export function getHomePath(role: string | null | undefined): string {
+  switch (role) {
+    case 'admin':
+      return '/admin';
+    case 'instructor':
+      return '/instructor/dashboard';
+    default:
+      return '/student/quiz';
+  }
+}
@@ -0,0 +1,213 @@
+/**
+ * Admin User Service Unit Tests
+ *
+ * Tests user search filters, role changes, disabling, deletion, forced password
+ * resets, the guards that keep at least one administrator able to log in, and the
+ * audit events each change records.
+ *
+ * @fileoverview Unit tests for src/lib/services/admin-user-service.ts
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { AdminUserService } from './admin-user-service';
+import { AuthService } from './auth-service';
+
+// ============================================
+// Mock Setup for D1 Client
+// ============================================
+
+vi.mock('@/lib/d1-client', () => ({
+  executeQuery: vi.fn(),
+  executeQueryFirst: vi.fn(),
+  executeMutation: vi.fn(),
+  executeBatch: vi.fn(),
+  generateId: vi.fn(() => 'mock-uuid-12345'),
+  toBoolean: vi.fn((value: unknown) => value === 1 || value === true),
+  fromBoolean: vi.fn((value: boolean) => (value ? 1 : 0)),
+}));
+
+import { executeQuery, executeQueryFirst, executeBatch } from '@/lib/d1-client';
+
+// ============================================
+// Test Fixtures
+// ============================================
+
+function createUserRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'user-1',
+    name: 'Test User',
+    email: 'user@example.com',
+    role: 'student',
+    email_verified_at: null,
+    disabled_at: null,
+    password_reset_required_at: null,
+    created_at: '2026-01-07T10:00:00.000Z',
+    last_seen_at: null,
+    ...overrides,
+  };
+}
+
+// ============================================
+// Test Suite
+// ============================================
+
+describe('AdminUserService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('listUsers', () => {
+    it('should filter by search, role and status', async () => {
+      vi.mocked(executeQueryFirst).mockResolvedValue({ count: 1 });
+      vi.mocked(executeQuery).mockResolvedValue([createUserRow({ disabled_at: '2026-01-08T10:00:00.000Z' })]);
+
+      const result = await AdminUserService.listUsers({
+        search: 'User@',
+        role: 'student',
+        status: 'disabled',
+        page: 1,
+        limit: 20,
+      });
+
+      const [sql, params] = vi.mocked(executeQuery).mock.calls[0];
+      expect(sql).toContain('u.role = ?');
+      expect(sql).toContain('u.disabled_at IS NOT NULL');
+      expect(params).toEqual(['%User@%', '%user@%', 'student', 20, 0]);
+      expect(result.total).toBe(1);
+      expect(result.data[0]).toMatchObject({ id: 'user-1', disabled: true, emailVerified: false });
+    });
+
+    it('should reject an unknown role filter', async () => {
+      await expect(
+        AdminUserService.listUsers({ role: 'superuser' as never })
+      ).rejects.toThrow('Role filter must be one of');
+    });
+  });
+
+  describe('changeRole', () => {
+    it('should change the role, revoke the user\'s sessions and audit the change', async () => {
+      vi.mocked(executeQueryFirst).mockResolvedValue(createUserRow());
+      vi.mocked(executeBatch).mockResolvedValue([]);
+
+      const user = await AdminUserService.changeRole('admin-1', 'user-1', 'instructor', { ipAddress: '203.0.113.7' });
+
+      expect(user.role).toBe('instructor');
+      const [updateRole, revokeSessions, audit] = vi.mocked(executeBatch).mock.calls[0][0];
+      expect(updateRole.params).toEqual(['instructor', 'user-1']);
+      expect(revokeSessions.sql).toContain('UPDATE sessions');
+      expect(audit.params).toEqual(
+        expect.arrayContaining(['admin-1', 'user.role_change', 'user-1', '203.0.113.7'])
+      );
+      expect(JSON.parse(audit.params[7] as string)).toEqual({ role: { before: 'student', after: 'instructor' } });
+    });
+
+    it('should refuse to change the acting administrator', async () => {
+      await expect(
+        AdminUserService.changeRole('admin-1', 'admin-1', 'student')
+      ).rejects.toThrow('You cannot change your own account');
+      expect(executeBatch).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to demote the last active administrator', async () => {
+      vi.mocked(executeQueryFirst)
+        .mockResolvedValueOnce(createUserRow({ id: 'admin-2', role: 'admin' }))
+        .mockResolvedValueOnce({ count: 0 });
+
+      await expect(
+        AdminUserService.changeRole('admin-1', 'admin-2', 'student')
+      ).rejects.toThrow('At least one active administrator is required');
+      expect(executeBatch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('setDisabled', () => {
+    it('should revoke sessions when disabling', async () => {
+      vi.mocked(executeQueryFirst).mockResolvedValue(createUserRow());
+      vi.mocked(executeBatch).mockResolvedValue([]);
+
+      const user = await AdminUserService.setDisabled('admin-1', 'user-1', true);
+
+      expect(user.disabled).toBe(true);
+      const [disable, revokeSessions] = vi.mocked(executeBatch).mock.calls[0][0];
+      expect(disable.sql).toContain('disabled_at = ?');
+      expect(revokeSessions.sql).toContain('UPDATE sessions');
+    });
+
+    it('should re-enable without touching sessions', async () => {
+      vi.mocked(executeQueryFirst).mockResolvedValue(createUserRow({ disabled_at: '2026-01-08T10:00:00.000Z' }));
+      vi.mocked(executeBatch).mockResolvedValue([]);
+
+      const user = await AdminUserService.setDisabled('admin-1', 'user-1', false);
+
+      expect(user.disabled).toBe(false);
+      const statements = vi.mocked(executeBatch).mock.calls[0][0];
+      expect(statements.map((statement) => statement.sql)).toEqual([
+        expect.stringContaining('disabled_at = NULL'),
+        expect.stringContaining('INSERT INTO audit_events'),
+      ]);
+      expect(statements[1].params).toContain('user.enable');
+    });
+  });
+
+  describe('deleteUser', () => {
+    it('should delete the user and audit the deletion', async () => {
+      vi.mocked(executeQueryFirst)
+        .mockResolvedValueOnce(createUserRow({ role: 'instructor' }))
+        .mockResolvedValueOnce({ count: 0 });
+      vi.mocked(executeBatch).mockResolvedValue([]);
+
+      await AdminUserService.deleteUser('admin-1', 'user-1');
+
+      const [remove, audit] = vi.mocked(executeBatch).mock.calls[0][0];
+      expect(remove).toEqual({ sql: 'DELETE FROM users WHERE id = ?', params: ['user-1'] });
+      expect(audit.params).toContain('user.delete');
+    });
+
+    it('should refuse to delete an author whose questions or courses students have answered', async () => {
+      vi.mocked(executeQueryFirst)
+        .mockResolvedValueOnce(createUserRow({ role: 'instructor' }))
+        .mockResolvedValueOnce({ count: 3 });
+
+      await expect(AdminUserService.deleteUser('admin-1', 'user-1')).rejects.toThrow(
+        'disable the account instead of deleting it'
+      );
+      expect(executeBatch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('forcePasswordReset', () => {
+    it('should flag the account, revoke sessions and email a reset link', async () => {
+      vi.mocked(executeQueryFirst).mockResolvedValue(createUserRow());
+      vi.mocked(executeBatch).mockResolvedValue([]);
+      const sendLink = vi.spyOn(AuthService, 'sendPasswordResetLink').mockResolvedValue();
+
+      const user = await AdminUserService.forcePasswordReset('admin-1', 'user-1', 'https://quiz.example.com');
+
+      expect(user.passwordResetRequired).toBe(true);
+      const [flag, revokeSessions] = vi.mocked(executeBatch).mock.calls[0][0];
+      expect(flag.sql).toContain('password_reset_required_at = ?');
+      expect(revokeSessions.sql).toContain('UPDATE sessions');
+      expect(sendLink).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'user-1', email: 'user@example.com' }),
+        'https://quiz.example.com',
+        expect.anything()
+      );
+    });
+
+    it('should change nothing when reset links cannot be emailed', async () => {
+      vi.stubEnv('NODE_ENV', 'production');
+      vi.mocked(executeQueryFirst).mockResolvedValue(createUserRow());
+
+      await expect(
+        AdminUserService.forcePasswordReset('admin-1', 'user-1', 'https://quiz.example.com')
+      ).rejects.toThrow('Email delivery is not configured');
+      expect(executeBatch).not.toHaveBeenCalled();
+      vi.unstubAllEnvs();
+    });
+  });
+});
@@ -0,0 +1,387 @@
+/**
+ * Admin User Service
+ * User management for administrators: search, role changes, disabling, deletion
+ * and forced password resets
+ */
+
+import { executeQuery, executeQueryFirst, executeBatch } from '@/lib/d1-client';
+import { AuthService } from '@/lib/services/auth-service';
+import { SessionService, SessionContext } from '@/lib/services/session-service';
+import { AuditService } from '@/lib/services/audit-service';
+import { getMailer } from '@/lib/mailer';
+import { UserRole, USER_ROLES, isUserRole } from '@/lib/roles';
+
+// ============================================
+// Types & Interfaces
+// ============================================
+
+export type UserStatus = 'active' | 'disabled';
+
+export interface ManagedUser {
+  id: string;
+  name: string;
+  email: string;
+  role: UserRole;
+  emailVerified: boolean;
+  disabled: boolean;
+  passwordResetRequired: boolean;
+  createdAt: string;
+  // Most recent activity across the user's sessions
+  lastSeenAt: string | null;
+}
+
+export interface ListUsersParams {
+  // Matches name or email
+  search?: string;
+  role?: UserRole;
+  status?: UserStatus;
+  page?: number;
+  limit?: number;
+}
+
+export interface PaginatedUsers {
+  data: ManagedUser[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+// ============================================
+// Database Row Interfaces (internal)
+// ============================================
+
+interface ManagedUserRow {
+  id: string;
+  name: string;
+  email: string;
+  role: UserRole;
+  email_verified_at: string | null;
+  disabled_at: string | null;
+  password_reset_required_at: string | null;
+  created_at: string;
+  last_seen_at: string | null;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+const MANAGED_USER_SELECT = `
+  SELECT u.id, u.name, u.email, u.role, u.email_verified_at, u.disabled_at,
+         u.password_reset_required_at, u.created_at,
+         (SELECT MAX(s.last_seen_at) FROM sessions s WHERE s.user_id = u.id) as last_seen_at
+  FROM users u`;
+
+// ============================================
+// Admin User Service Class
+// ============================================
+
+export class AdminUserService {
+  /**
+   * List users, newest first (paginated)
+   */
+  static async listUsers(params: ListUsersParams = {}): Promise<PaginatedUsers> {
+    console.log('👥 Listing users');
+
+    const page = Math.max(params.page ?? 1, 1);
+    const limit = Math.min(Math.max(params.limit ?? 20, 1), 100);
+    const offset = (page - 1) * limit;
+
+    const conditions: string[] = [];
+    const queryParams: unknown[] = [];
+
+    if (params.search) {
+      conditions.push('(u.name LIKE ? OR u.email LIKE ?)');
+      queryParams.push(`%${params.search}%`, `%${params.search.toLowerCase()}%`);
+    }
+
+    if (params.role) {
+      if (!isUserRole(params.role)) {
+        throw new Error(`Role filter must be one of: ${USER_ROLES.join(', ')}`);
+      }
+      conditions.push('u.role = ?');
+      queryParams.push(params.role);
+    }
+
+    if (params.status === 'active') {
+      conditions.push('u.disabled_at IS NULL');
+    } else if (params.status === 'disabled') {
+      conditions.push('u.disabled_at IS NOT NULL');
+    }
+
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const countResult = await executeQueryFirst<{ count: number }>(
+      `SELECT COUNT(*) as count FROM users u ${whereClause}`,
+      queryParams
+    );
+    const total = countResult?.count ?? 0;
+
+    const rows = await executeQuery<ManagedUserRow>(
+      `${MANAGED_USER_SELECT}
+       ${whereClause}
+       ORDER BY u.created_at DESC
+       LIMIT ? OFFSET ?`,
+      [...queryParams, limit, offset]
+    );
+
+    console.log('✓ Found', total, 'users');
+
+    return {
+      data: rows.map((row) => this.mapUserRow(row)),
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  /**
+   * Get one user by ID
+   */
+  static async getUser(userId: string): Promise<ManagedUser | null> {
+    const row = await executeQueryFirst<ManagedUserRow>(
+      `${MANAGED_USER_SELECT} WHERE u.id = ?`,
+      [userId]
+    );
+    return row ? this.mapUserRow(row) : null;
+  }
+
+  /**
+   * Change a user's role
+   * The user's sessions are revoked so the new role applies at their next login
+   */
+  static async changeRole(
+    adminId: string,
+    userId: string,
+    role: UserRole,
+    context: SessionContext = {}
+  ): Promise<ManagedUser> {
+    if (!isUserRole(role)) {
+      throw new Error(`Role must be one of: ${USER_ROLES.join(', ')}`);
+    }
+
+    const user = await this.requireOtherUser(adminId, userId);
+    if (user.role === role) {
+      return user;
+    }
+    if (user.role === 'admin') {
+      await this.requireAnotherAdmin(userId);
+    }
+
+    await executeBatch([
+      {
+        sql: 'UPDATE users SET role = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+        params: [role, userId],
+      },
+      SessionService.buildRevokeAllStatement(userId, new Date().toISOString()),
+      AuditService.buildRecordStatement({
+        actorId: adminId,
+        action: 'user.role_change',
+        targetType: 'user',
+        targetId: userId,
+        ownerId: userId,
+        changes: { role: { before: user.role, after: role } },
+        ipAddress: context.ipAddress,
+      }),
+    ]);
+    SessionService.forgetUser(userId);
+
+    console.log('✅ Role changed:', userId, user.role, '→', role);
+
+    return { ...user, role };
+  }
+
+  /**
+   * Disable or re-enable a user
+   * Disabling signs the user out everywhere and blocks login and token refresh
+   */
+  static async setDisabled(
+    adminId: string,
+    userId: string,
+    disabled: boolean,
+    context: SessionContext = {}
+  ): Promise<ManagedUser> {
+    const user = await this.requireOtherUser(adminId, userId);
+    if (user.disabled === disabled) {
+      return user;
+    }
+
+    const now = new Date().toISOString();
+    const auditStatement = AuditService.buildRecordStatement({
+      actorId: adminId,
+      action: disabled ? 'user.disable' : 'user.enable',
+      targetType: 'user',
+      targetId: userId,
+      ownerId: userId,
+      ipAddress: context.ipAddress,
+    });
+
+    if (disabled) {
+      if (user.role === 'admin') {
+        await this.requireAnotherAdmin(userId);
+      }
+      await executeBatch([
+        {
+          sql: 'UPDATE users SET disabled_at = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+          params: [now, userId],
+        },
+        SessionService.buildRevokeAllStatement(userId, now),
+        auditStatement,
+      ]);
+      SessionService.forgetUser(userId);
+    } else {
+      await executeBatch([
+        {
+          sql: 'UPDATE users SET disabled_at = NULL, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+          params: [userId],
+        },
+        auditStatement,
+      ]);
+    }
+
+    console.log(disabled ? '🚫 User disabled:' : '✅ User enabled:', userId);
+
+    return { ...user, disabled };
+  }
+
+  /**
+   * Permanently delete a user and everything they own (questions, quizzes,
+   * attempts, sessions)
+   * Refused while other students have answered the user's questions or taken their
+   * courses' quizzes, since the deletion would take those attempts or their course
+   * with it; such accounts are disabled instead
+   */
+  static async deleteUser(adminId: string, userId: string, context: SessionContext = {}): Promise<void> {
+    const user = await this.requireOtherUser(adminId, userId);
+    if (user.role === 'admin') {
+      await this.requireAnotherAdmin(userId);
+    }
+    await this.requireNoStudentAttempts(userId);
+
+    // No owner: the event must not reference the deleted account
+    await executeBatch([
+      { sql: 'DELETE FROM users WHERE id = ?', params: [userId] },
+      AuditService.buildRecordStatement({
+        actorId: adminId,
+        action: 'user.delete',
+        targetType: 'user',
+        targetId: userId,
+        changes: AuditService.diff({ name: user.name, email: user.email, role: user.role }, null),
+        ipAddress: context.ipAddress,
+      }),
+    ]);
+    SessionService.forgetUser(userId);
+
+    console.log('🗑️ User deleted:', userId);
+  }
+
+  /**
+   * Require a user to choose a new password
+   * Signs the user out everywhere, refuses logins until the reset and emails a
+   * reset link
+   */
+  static async forcePasswordReset(
+    adminId: string,
+    userId: string,
+    appUrl: string,
+    context: SessionContext = {}
+  ): Promise<ManagedUser> {
+    const user = await this.requireOtherUser(adminId, userId);
+    // Before the account is locked: without a mailer the user could never reset
+    const mailer = getMailer();
+
+    const now = new Date().toISOString();
+    await executeBatch([
+      {
+        sql: 'UPDATE users SET password_reset_required_at = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+        params: [now, userId],
+      },
+      SessionService.buildRevokeAllStatement(userId, now),
+      AuditService.buildRecordStatement({
+        actorId: adminId,
+        action: 'user.force_password_reset',
+        targetType: 'user',
+        targetId: userId,
+        ownerId: userId,
+        ipAddress: context.ipAddress,
+      }),
+    ]);
+    SessionService.forgetUser(userId);
+
+    await AuthService.sendPasswordResetLink(user, appUrl, mailer);
+
+    console.log('🔑 Password reset forced for user:', userId);
+
+    return { ...user, passwordResetRequired: true };
+  }
+
+  /**
+   * Load a user other than the acting administrator
+   * Administrators cannot change, disable or delete their own account here, so
+   * they cannot lock themselves out by mistake
+   */
+  private static async requireOtherUser(adminId: string, userId: string): Promise<ManagedUser> {
+    if (adminId === userId) {
+      throw new Error('You cannot change your own account from the admin console');
+    }
+
+    const user = await this.getUser(userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+    return user;
+  }
+
+  /**
+   * Throw unless an active administrator other than the given user exists
+   */
+  private static async requireAnotherAdmin(userId: string): Promise<void> {
+    const result = await executeQueryFirst<{ count: number }>(
+      `SELECT COUNT(*) as count FROM users
+       WHERE role = 'admin' AND disabled_at IS NULL AND id != ?`,
+      [userId]
+    );
+    if ((result?.count ?? 0) === 0) {
+      throw new Error('At least one active administrator is required');
+    }
+  }
+
+  /**
+   * Throw if other students have attempts on questions the user owns or in
+   * courses they teach
+   */
+  private static async requireNoStudentAttempts(userId: string): Promise<void> {
+    const result = await executeQueryFirst<{ count: number }>(
+      `SELECT COUNT(*) as count FROM quiz_attempts a
+       LEFT JOIN questions q ON a.question_id = q.id
+       LEFT JOIN quiz_sessions s ON a.session_id = s.id
+       LEFT JOIN courses c ON s.course_id = c.id
+       WHERE (q.instructor_id = ? OR c.instructor_id = ?) AND a.student_id != ?`,
+      [userId, userId, userId]
+    );
+    if ((result?.count ?? 0) > 0) {
+      throw new Error(
+        'Students have answered this user\'s questions or courses; disable the account instead of deleting it'
+      );
+    }
+  }
+
+  /**
+   * Convert a database row to a ManagedUser
+   */
+  private static mapUserRow(row: ManagedUserRow): ManagedUser {
+    return {
+      id: row.id,
+      name: row.name,
+      email: row.email,
+      role: row.role,
+      emailVerified: !!row.email_verified_at,
+      disabled: !!row.disabled_at,
+      passwordResetRequired: !!row.password_reset_required_at,
+      createdAt: row.created_at,
+      lastSeenAt: row.last_seen_at,
+    };
+  }
+}
@@ -0,0 +1,159 @@
+/**
+ * Audit Service Unit Tests
+ *
+ * Tests recording events, before/after diffs and who can see which events.
+ *
+ * @fileoverview Unit tests for src/lib/services/audit-service.ts
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { AuditService } from './audit-service';
+
+// ============================================
+// Mock Setup for D1 Client
+// ============================================
+
+vi.mock('@/lib/d1-client', () => ({
+  executeQuery: vi.fn(),
+  executeQueryFirst: vi.fn(),
+  executeMutation: vi.fn(),
+  executeBatch: vi.fn(),
+  generateId: vi.fn(() => 'mock-uuid-12345'),
+  toBoolean: vi.fn((value: unknown) => value === 1 || value === true),
+  fromBoolean: vi.fn((value: boolean) => (value ? 1 : 0)),
+}));
+
+import { executeQuery, executeQueryFirst, executeMutation } from '@/lib/d1-client';
+
+// ============================================
+// Test Fixtures
+// ============================================
+
+function createEventRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'event-1',
+    actor_id: 'instructor-1',
+    actor_name: 'Test Instructor',
+    action: 'question.update',
+    target_type: 'question',
+    target_id: 'question-1',
+    owner_id: 'instructor-1',
+    metadata: null,
+    changes: JSON.stringify({ points: { before: 1, after: 2 } }),
+    ip_address: '203.0.113.7',
+    created_at: '2026-01-07T10:00:00.000Z',
+    ...overrides,
+  };
+}
+
+// ============================================
+// Test Suite
+// ============================================
+
+describe('AuditService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('record', () => {
+    it('should store metadata and changes as JSON', async () => {
+      vi.mocked(executeMutation).mockResolvedValue({ success: true, meta: { changes: 1 } });
+
+      await AuditService.record({
+        actorId: 'instructor-1',
+        action: 'question.delete',
+        targetType: 'question',
+        targetId: 'question-1',
+        ownerId: 'instructor-1',
+        metadata: { force: true },
+        changes: { points: { before: 1, after: null } },
+        ipAddress: '203.0.113.7',
+      });
+
+      const [sql, params] = vi.mocked(executeMutation).mock.calls[0];
+      expect(sql).toContain('INSERT INTO audit_events');
+      expect(params).toEqual([
+        'mock-uuid-12345',
+        'instructor-1',
+        'question.delete',
+        'question',
+        'question-1',
+        'instructor-1',
+        '{"force":true}',
+        '{"points":{"before":1,"after":null}}',
+        '203.0.113.7',
+        expect.any(String),
+      ]);
+    });
+  });
+
+  describe('diff', () => {
+    it('should keep only the fields that changed', () => {
+      const changes = AuditService.diff(
+        { questionText: 'Same text', points: 1, options: [{ optionText: 'A', isCorrect: true }] },
+        { questionText: 'Same text', points: 2, options: [{ optionText: 'A', isCorrect: false }] }
+      );
+
+      expect(changes).toEqual({
+        points: { before: 1, after: 2 },
+        options: {
+          before: [{ optionText: 'A', isCorrect: true }],
+          after: [{ optionText: 'A', isCorrect: false }],
+        },
+      });
+    });
+
+    it('should record every field as removed when the resource is deleted', () => {
+      expect(AuditService.diff({ points: 1, category: null }, null)).toEqual({
+        points: { before: 1, after: null },
+      });
+    });
+  });
+
+  describe('listEvents', () => {
+    it('should limit instructors to events on their own resources', async () => {
+      vi.mocked(executeQueryFirst).mockResolvedValue({ count: 1 });
+      vi.mocked(executeQuery).mockResolvedValue([createEventRow()]);
+
+      const result = await AuditService.listEvents(
+        { userId: 'instructor-1', role: 'instructor' },
+        { action: 'question', page: 2, limit: 10 }
+      );
+
+      const [sql, params] = vi.mocked(executeQuery).mock.calls[0];
+      expect(sql).toContain('e.owner_id = ?');
+      expect(sql).toContain('(e.action = ? OR e.action LIKE ?)');
+      expect(params).toEqual(['instructor-1', 'question', 'question.%', 10, 10]);
+      expect(result.data[0]).toMatchObject({
+        actorName: 'Test Instructor',
+        changes: { points: { before: 1, after: 2 } },
+      });
+    });
+
+    it('should show admins every event', async () => {
+      vi.mocked(executeQueryFirst).mockResolvedValue({ count: 0 });
+      vi.mocked(executeQuery).mockResolvedValue([]);
+
+      await AuditService.listEvents({ userId: 'admin-1', role: 'admin' }, { from: '2026-01-01' });
+
+      const [sql, params] = vi.mocked(executeQuery).mock.calls[0];
+      expect(sql).not.toContain('owner_id = ?');
+      expect(params).toEqual(['2026-01-01T00:00:00.000Z', 50, 0]);
+    });
+
+    it('should refuse students and invalid dates', async () => {
+      await expect(
+        AuditService.listEvents({ userId: 'student-1', role: 'student' })
+      ).rejects.toThrow('You do not have permission to view the audit log');
+      await expect(
+        AuditService.listEvents({ userId: 'admin-1', role: 'admin' }, { to: 'yesterday' })
+      ).rejects.toThrow('Filter to must be a date');
+      expect(executeQuery).not.toHaveBeenCalled();
+    });
+  });
+});
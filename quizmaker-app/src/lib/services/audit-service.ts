@@ -0,0 +1,266 @@
+/**
+ * Audit Service
+ * Append-only log of sensitive actions: who did what, to which resource, from where
+ */
+
+import { executeQuery, executeQueryFirst, executeMutation, generateId } from '@/lib/d1-client';
+import { UserRole, hasRole } from '@/lib/roles';
+
+// ============================================
+// Types & Interfaces
+// ============================================
+
+// Fields that changed, with their values before and after
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>;
+
+export interface AuditEventInput {
+  actorId: string | null;
+  // Dotted verb, e.g. 'data.read'
+  action: string;
+  targetType?: string | null;
+  targetId?: string | null;
+  // User whose resource was acted on; they can see the event in their audit log
+  ownerId?: string | null;
+  metadata?: Record<string, unknown> | null;
+  changes?: AuditChanges | null;
+  ipAddress?: string | null;
+}
+
+export interface AuditEvent {
+  id: string;
+  actorId: string | null;
+  actorName: string | null;
+  action: string;
+  targetType: string | null;
+  targetId: string | null;
+  ownerId: string | null;
+  metadata: Record<string, unknown> | null;
+  changes: AuditChanges | null;
+  ipAddress: string | null;
+  createdAt: string;
+}
+
+export interface AuditViewer {
+  userId: string;
+  role: UserRole;
+}
+
+export interface ListAuditEventsParams {
+  // Exact action ('question.update') or every action in a group ('question')
+  action?: string;
+  actorId?: string;
+  targetType?: string;
+  targetId?: string;
+  // Inclusive lower and exclusive upper bound on created_at
+  from?: string;
+  to?: string;
+  page?: number;
+  limit?: number;
+}
+
+export interface PaginatedAuditEvents {
+  data: AuditEvent[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+// ============================================
+// Database Row Interfaces (internal)
+// ============================================
+
+interface AuditEventRow {
+  id: string;
+  actor_id: string | null;
+  actor_name: string | null;
+  action: string;
+  target_type: string | null;
+  target_id: string | null;
+  owner_id: string | null;
+  metadata: string | null;
+  changes: string | null;
+  ip_address: string | null;
+  created_at: string;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 100;
+
+// ============================================
+// Audit Service Class
+// ============================================
+
+export class AuditService {
+  /**
+   * Record an audit event
+   * Callers await this before completing the audited action, so an action is
+   * never served without its record
+   */
+  static async record(event: AuditEventInput): Promise<void> {
+    const statement = this.buildRecordStatement(event);
+    await executeMutation(statement.sql, statement.params);
+
+    console.log('📝 Audit:', event.action, event.targetType ?? '', event.targetId ?? '');
+  }
+
+  /**
+   * Statement recording an audit event, for batching with the audited change
+   */
+  static buildRecordStatement(event: AuditEventInput): { sql: string; params: unknown[] } {
+    return {
+      sql: `INSERT INTO audit_events (id, actor_id, action, target_type, target_id, owner_id, metadata, changes, ip_address, created_at)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      params: [
+        generateId(),
+        event.actorId,
+        event.action,
+        event.targetType ?? null,
+        event.targetId ?? null,
+        event.ownerId ?? null,
+        event.metadata ? JSON.stringify(event.metadata) : null,
+        event.changes ? JSON.stringify(event.changes) : null,
+        event.ipAddress ?? null,
+        new Date().toISOString(),
+      ],
+    };
+  }
+
+  /**
+   * Diff two snapshots of a resource, keeping only the fields that changed
+   * A null snapshot stands for a resource that did not exist (created or deleted)
+   */
+  static diff(
+    before: Record<string, unknown> | null,
+    after: Record<string, unknown> | null
+  ): AuditChanges {
+    const changes: AuditChanges = {};
+    const keys = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+
+    for (const key of keys) {
+      const beforeValue = before?.[key] ?? null;
+      const afterValue = after?.[key] ?? null;
+      if (JSON.stringify(beforeValue) !== JSON.stringify(afterValue)) {
+        changes[key] = { before: beforeValue, after: afterValue };
+      }
+    }
+
+    return changes;
+  }
+
+  /**
+   * List audit events, newest first (paginated)
+   * Admins see every event; instructors see events on resources they own
+   */
+  static async listEvents(
+    viewer: AuditViewer,
+    params: ListAuditEventsParams = {}
+  ): Promise<PaginatedAuditEvents> {
+    if (!hasRole(viewer.role, 'instructor')) {
+      throw new Error('You do not have permission to view the audit log');
+    }
+
+    const page = Math.max(params.page ?? 1, 1);
+    const limit = Math.min(Math.max(params.limit ?? DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+    const offset = (page - 1) * limit;
+
+    const conditions: string[] = [];
+    const queryParams: unknown[] = [];
+
+    if (viewer.role !== 'admin') {
+      conditions.push('e.owner_id = ?');
+      queryParams.push(viewer.userId);
+    }
+
+    if (params.action) {
+      conditions.push('(e.action = ? OR e.action LIKE ?)');
+      queryParams.push(params.action, `${params.action}.%`);
+    }
+
+    if (params.actorId) {
+      conditions.push('e.actor_id = ?');
+      queryParams.push(params.actorId);
+    }
+
+    if (params.targetType) {
+      conditions.push('e.target_type = ?');
+      queryParams.push(params.targetType);
+    }
+
+    if (params.targetId) {
+      conditions.push('e.target_id = ?');
+      queryParams.push(params.targetId);
+    }
+
+    if (params.from) {
+      conditions.push('e.created_at >= ?');
+      queryParams.push(this.parseDateFilter('from', params.from));
+    }
+
+    if (params.to) {
+      conditions.push('e.created_at < ?');
+      queryParams.push(this.parseDateFilter('to', params.to));
+    }
+
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const countResult = await executeQueryFirst<{ count: number }>(
+      `SELECT COUNT(*) as count FROM audit_events e ${whereClause}`,
+      queryParams
+    );
+    const total = countResult?.count ?? 0;
+
+    const rows = await executeQuery<AuditEventRow>(
+      `SELECT e.id, e.actor_id, u.name as actor_name, e.action, e.target_type, e.target_id, e.owner_id,
+              e.metadata, e.changes, e.ip_address, e.created_at
+       FROM audit_events e
+       LEFT JOIN users u ON u.id = e.actor_id
+       ${whereClause}
+       ORDER BY e.created_at DESC
+       LIMIT ? OFFSET ?`,
+      [...queryParams, limit, offset]
+    );
+
+    return {
+      data: rows.map((row) => this.mapEventRow(row)),
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  /**
+   * Validate a from/to date and normalise it to ISO 8601, the format created_at uses
+   */
+  private static parseDateFilter(name: string, value: string): string {
+    const time = Date.parse(value);
+    if (Number.isNaN(time)) {
+      throw new Error(`Filter ${name} must be a date`);
+    }
+    return new Date(time).toISOString();
+  }
+
+  /**
+   * Convert a database row to an AuditEvent
+   */
+  private static mapEventRow(row: AuditEventRow): AuditEvent {
+    return {
+      id: row.id,
+      actorId: row.actor_id,
+      actorName: row.actor_name,
+      action: row.action,
+      targetType: row.target_type,
+      targetId: row.target_id,
+      ownerId: row.owner_id,
+      metadata: row.metadata ? JSON.parse(row.metadata) : null,
+      changes: row.changes ? JSON.parse(row.changes) : null,
+      ipAddress: row.ip_address,
+      createdAt: row.created_at,
+    };
+  }
+}
@@ -0,0 +1,481 @@
+/**
+ * Auth Service Unit Tests
+ *
+ * Tests registration with invite codes, login (including the transparent upgrade of
+ * legacy password hashes), password reset tokens, email verification links,
+ * session-backed token verification, transparent refresh, login rate limiting and
+ * disabled accounts.
+ *
+ * @fileoverview Unit tests for src/lib/services/auth-service.ts
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { AuthService } from './auth-service';
+import { SessionService } from './session-service';
+import { hash, hashToken } from '@/lib/crypto-edge';
+import { signToken, verifyToken } from '@/lib/jwt-edge';
+import { setMailer, ConsoleMailer, MailMessage } from '@/lib/mailer';
+import { setRateLimitStore, MemoryRateLimitStore, RateLimitError } from '@/lib/rate-limit';
+
+// ============================================
+// Mock Setup for D1 Client
+// ============================================
+
+vi.mock('@/lib/d1-client', () => ({
+  executeQuery: vi.fn(),
+  executeQueryFirst: vi.fn(),
+  executeMutation: vi.fn(),
+  executeBatch: vi.fn(),
+  generateId: vi.fn(() => 'mock-uuid-12345'),
+  toBoolean: vi.fn((value: unknown) => value === 1 || value === true),
+  fromBoolean: vi.fn((value: boolean) => (value ? 1 : 0)),
+}));
+
+import { executeQueryFirst, executeMutation, executeBatch } from '@/lib/d1-client';
+
+// ============================================
+// Test Fixtures
+// ============================================
+
+// SHA-256 of "password123", as stored before PBKDF2
+const LEGACY_HASH = 'ef92b778bafe771e89245b89ecbc08a44a4e166c06659911881f383d4473e94f';
+
+function createUserRow(password: string) {
+  return {
+    id: 'user-123',
+    name: 'Test Student',
+    email: 'student@example.com',
+    password,
+    role: 'student',
+    created_at: '2026-01-07T10:00:00Z',
+  };
+}
+
+// ============================================
+// Test Suite
+// ============================================
+
+describe('AuthService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    SessionService.clearCache();
+    setRateLimitStore(new MemoryRateLimitStore());
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    setMailer(new ConsoleMailer());
+  });
+
+  describe('register', () => {
+    const input = { name: 'New User', email: 'New@example.com', password: 'password123' };
+
+    it('should create a student account without an invite code', async () => {
+      vi.mocked(executeQueryFirst).mockResolvedValue(null);
+      vi.mocked(executeBatch).mockResolvedValue([]);
+
+      const result = await AuthService.register({ ...input, role: 'instructor' } as typeof input);
+
+      expect(result.role).toBe('student');
+      const [insertUser] = vi.mocked(executeBatch).mock.calls[0][0];
+      expect(insertUser.params).toEqual([
+        'mock-uuid-12345', 'New User', 'new@example.com', expect.stringMatching(/^pbkdf2_sha256\$/), 'student',
+      ]);
+    });
+
+    it('should create an instructor account with a valid invite code', async () => {
+      vi.mocked(executeQueryFirst)
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce({
+          id: 'invite-1',
+          role: 'instructor',
+          expires_at: new Date(Date.now() + 60_000).toISOString(),
+          used_at: null,
+          revoked_at: null,
+        });
+      vi.mocked(executeMutation).mockResolvedValue({ success: true, meta: { changes: 1 } });
+      vi.mocked(executeBatch).mockResolvedValue([]);
+
+      const result = await AuthService.register({ ...input, inviteCode: 'invite-code' });
+
+      expect(result.role).toBe('instructor');
+      const [insertUser, recordRedemption] = vi.mocked(executeBatch).mock.calls[0][0];
+      expect(insertUser.params[4]).toBe('instructor');
+      expect(recordRedemption.params).toEqual(['mock-uuid-12345', 'invite-1']);
+    });
+
+    it('should refuse an invalid invite code instead of creating a student', async () => {
+      vi.mocked(executeQueryFirst).mockResolvedValue(null);
+
+      await expect(AuthService.register({ ...input, inviteCode: 'wrong-code' })).rejects.toThrow(
+        'Invalid or expired invite code'
+      );
+      expect(executeBatch).not.toHaveBeenCalled();
+    });
+
+    it('should let a class sign up together from one IP address', async () => {
+      vi.mocked(executeQueryFirst).mockResolvedValue(null);
+      vi.mocked(executeBatch).mockResolvedValue([]);
+
+      // More signups than one email may attempt, all behind the same address
+      for (let student = 0; student < 25; student++) {
+        await expect(
+          AuthService.register(
+            { ...input, email: `student${student}@example.com` },
+            { ipAddress: '203.0.113.7' }
+          )
+        ).resolves.toMatchObject({ role: 'student' });
+      }
+    });
+  });
+
+  describe('login', () => {
+    it('should record a session and put its id in the token', async () => {
+      vi.mocked(executeQueryFirst).mockResolvedValue(createUserRow(await hash('password123')));
+      vi.mocked(executeBatch).mockResolvedValue([]);
+
+      const result = await AuthService.login(
+        { email: 'student@example.com', password: 'password123' },
+        { userAgent: 'Mozilla/5.0 (Windows NT 10.0) Chrome/120.0', ipAddress: '203.0.113.7' }
+      );
+
+      const [insertSession, insertRefreshToken] = vi.mocked(executeBatch).mock.calls[0][0];
+      expect(insertSession.sql).toContain('INSERT INTO sessions');
+      expect(insertSession.params).toEqual(expect.arrayContaining(['mock-uuid-12345', 'user-123', '203.0.113.7']));
+      expect(insertRefreshToken.params).toContain(await hashToken(result.refreshToken));
+      await expect(verifyToken(result.token)).resolves.toMatchObject({ jti: 'mock-uuid-12345' });
+      expect(executeMutation).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO audit_events'),
+        expect.arrayContaining(['user-123', 'auth.login', '203.0.113.7'])
+      );
+    });
+
+    it('should upgrade a legacy hash after a successful login', async () => {
+      vi.mocked(executeQueryFirst).mockResolvedValue(createUserRow(LEGACY_HASH));
+      vi.mocked(executeMutation).mockResolvedValue({ success: true, meta: {} } as never);
+
+      const result = await AuthService.login({
+        email: 'Student@example.com',
+        password: 'password123',
+      });
+
+      expect(result.user.id).toBe('user-123');
+      expect(executeMutation).toHaveBeenCalledWith(
+        expect.stringContaining('UPDATE users SET password = ?'),
+        [expect.stringMatching(/^pbkdf2_sha256\$/), 'user-123']
+      );
+    });
+
+    it('should not rehash a current hash', async () => {
+      vi.mocked(executeQueryFirst).mockResolvedValue(createUserRow(await hash('password123')));
+
+      await AuthService.login({ email: 'student@example.com', password: 'password123' });
+
+      expect(executeMutation).not.toHaveBeenCalledWith(
+        expect.stringContaining('UPDATE users SET password'),
+        expect.anything()
+      );
+    });
+
+    it('should reject a wrong password without rehashing', async () => {
+      vi.mocked(executeQueryFirst).mockResolvedValue(createUserRow(LEGACY_HASH));
+
+      await expect(
+        AuthService.login({ email: 'student@example.com', password: 'wrong-password' })
+      ).rejects.toThrow('Invalid email or password');
+      expect(executeMutation).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a disabled account and one awaiting a forced reset', async () => {
+      const row = createUserRow(await hash('password123'));
+
+      vi.mocked(executeQueryFirst).mockResolvedValueOnce({ ...row, disabled_at: '2026-01-08T10:00:00Z' });
+      await expect(
+        AuthService.login({ email: 'student@example.com', password: 'password123' })
+      ).rejects.toThrow('This account has been disabled');
+
+      vi.mocked(executeQueryFirst).mockResolvedValueOnce({ ...row, password_reset_required_at: '2026-01-08T10:00:00Z' });
+      await expect(
+        AuthService.login({ email: 'student@example.com', password: 'password123' })
+      ).rejects.toThrow('A password reset is required');
+
+      expect(executeBatch).not.toHaveBeenCalled();
+    });
+
+    it('should lock an account out after repeated failures and reset on success', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      vi.useFakeTimers();
+      vi.mocked(executeQueryFirst).mockResolvedValue(createUserRow(LEGACY_HASH));
+      vi.mocked(executeMutation).mockResolvedValue({ success: true, meta: {} } as never);
+      vi.mocked(executeBatch).mockResolvedValue([]);
+      const attempt = (password: string) =>
+        AuthService.login({ email: 'student@example.com', password }, { ipAddress: '203.0.113.7' });
+
+      // Three free failures; the fourth starts a one-second backoff
+      for (let failure = 0; failure < 4; failure++) {
+        await expect(attempt('wrong-password')).rejects.toThrow('Invalid email or password');
+      }
+      await expect(attempt('password123')).rejects.toBeInstanceOf(RateLimitError);
+
+      vi.advanceTimersByTime(1000);
+      await expect(attempt('password123')).resolves.toMatchObject({ user: { id: 'user-123' } });
+
+      // The successful login cleared the account's counter
+      await expect(attempt('wrong-password')).rejects.toThrow('Invalid email or password');
+      vi.useRealTimers();
+    });
+  });
+
+  describe('requestPasswordReset', () => {
+    it('should store a hashed token and email the link', async () => {
+      const sent: MailMessage[] = [];
+      setMailer({ send: async (message) => { sent.push(message); } });
+      vi.mocked(executeQueryFirst).mockResolvedValue({
+        id: 'user-123',
+        name: 'Test Student',
+        email: 'student@example.com',
+      });
+      vi.mocked(executeBatch).mockResolvedValue([]);
+
+      await AuthService.requestPasswordReset('Student@example.com', 'https://quiz.example.com/');
+
+      expect(sent).toHaveLength(1);
+      expect(sent[0].to).toBe('student@example.com');
+      const token = decodeURIComponent(
+        sent[0].text.match(/https:\/\/quiz\.example\.com\/reset-password\?token=(\S+)/)![1]
+      );
+
+      // Earlier tokens are replaced, and only the hash of the new one is stored
+      const [replace, insert] = vi.mocked(executeBatch).mock.calls[0][0];
+      expect(replace.sql).toContain('DELETE FROM password_reset_tokens');
+      expect(insert.params).toContain(await hashToken(token));
+      expect(insert.params).not.toContain(token);
+    });
+
+    it('should send nothing for an unknown email', async () => {
+      const send = vi.fn();
+      setMailer({ send });
+      vi.mocked(executeQueryFirst).mockResolvedValue(null);
+
+      await AuthService.requestPasswordReset('nobody@example.com', 'https://quiz.example.com');
+
+      expect(send).not.toHaveBeenCalled();
+      expect(executeBatch).not.toHaveBeenCalled();
+    });
+
+    it('should throttle repeated requests for an email, with or without an account', async () => {
+      setMailer({ send: vi.fn() });
+      vi.mocked(executeQueryFirst).mockResolvedValue(null);
+      const request = () =>
+        AuthService.requestPasswordReset('nobody@example.com', 'https://quiz.example.com', {
+          ipAddress: '203.0.113.7',
+        });
+
+      for (let sent = 0; sent < 4; sent++) {
+        await expect(request()).resolves.toBeUndefined();
+      }
+      await expect(request()).rejects.toBeInstanceOf(RateLimitError);
+    });
+
+    it('should refuse to log reset links with the console mailer in production', async () => {
+      vi.stubEnv('NODE_ENV', 'production');
+
+      await expect(
+        AuthService.requestPasswordReset('student@example.com', 'https://quiz.example.com')
+      ).rejects.toThrow('Email delivery is not configured');
+      expect(executeQueryFirst).not.toHaveBeenCalled();
+      vi.unstubAllEnvs();
+    });
+  });
+
+  describe('resetPassword', () => {
+    const tokenRow = (overrides: Record<string, unknown> = {}) => ({
+      id: 'reset-1',
+      user_id: 'user-123',
+      expires_at: new Date(Date.now() + 60_000).toISOString(),
+      used_at: null,
+      ...overrides,
+    });
+
+    it('should set the password and revoke existing sessions', async () => {
+      vi.mocked(executeQueryFirst).mockResolvedValue(tokenRow());
+      vi.mocked(executeMutation).mockResolvedValue({ success: true, meta: { changes: 1 } });
+      vi.mocked(executeBatch).mockResolvedValue([]);
+
+      await AuthService.resetPassword({ token: 'reset-token', password: 'new-password' });
+
+      expect(executeQueryFirst).toHaveBeenCalledWith(
+        expect.stringContaining('FROM password_reset_tokens WHERE token_hash = ?'),
+        [await hashToken('reset-token')]
+      );
+      const [updateUser, , revokeSessions] = vi.mocked(executeBatch).mock.calls[0][0];
+      expect(updateUser.params[0]).toMatch(/^pbkdf2_sha256\$/);
+      expect(updateUser.params[2]).toBe('user-123');
+      expect(revokeSessions.sql).toContain('UPDATE sessions SET revoked_at');
+      expect(revokeSessions.params).toContain('user-123');
+    });
+
+    it('should reject expired and used tokens', async () => {
+      vi.mocked(executeQueryFirst).mockResolvedValueOnce(
+        tokenRow({ expires_at: new Date(Date.now() - 1000).toISOString() })
+      );
+      await expect(
+        AuthService.resetPassword({ token: 'reset-token', password: 'new-password' })
+      ).rejects.toThrow('Invalid or expired reset token');
+
+      vi.mocked(executeQueryFirst).mockResolvedValueOnce(tokenRow({ used_at: '2026-01-07T10:00:00Z' }));
+      await expect(
+        AuthService.resetPassword({ token: 'reset-token', password: 'new-password' })
+      ).rejects.toThrow('Invalid or expired reset token');
+
+      expect(executeBatch).not.toHaveBeenCalled();
+    });
+
+    it('should reject a token claimed by a concurrent request', async () => {
+      vi.mocked(executeQueryFirst).mockResolvedValue(tokenRow());
+      vi.mocked(executeMutation).mockResolvedValue({ success: true, meta: { changes: 0 } });
+
+      await expect(
+        AuthService.resetPassword({ token: 'reset-token', password: 'new-password' })
+      ).rejects.toThrow('Invalid or expired reset token');
+      expect(executeBatch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('email verification', () => {
+    const unverifiedRow = {
+      id: 'user-123',
+      name: 'Test Student',
+      email: 'student@example.com',
+      role: 'student',
+      email_verified_at: null,
+    };
+
+    async function sendAndCaptureToken(): Promise<string> {
+      const sent: MailMessage[] = [];
+      setMailer({ send: async (message) => { sent.push(message); } });
+      vi.mocked(executeQueryFirst).mockResolvedValueOnce(unverifiedRow);
+
+      await AuthService.sendVerificationEmail('user-123', 'https://quiz.example.com');
+
+      expect(sent).toHaveLength(1);
+      return decodeURIComponent(sent[0].text.match(/https:\/\/quiz\.example\.com\/verify-email\?token=(\S+)/)![1]);
+    }
+
+    it('should email a link that marks the address verified', async () => {
+      const token = await sendAndCaptureToken();
+      vi.mocked(executeQueryFirst).mockResolvedValueOnce({ email: 'student@example.com', email_verified_at: null });
+      vi.mocked(executeMutation).mockResolvedValue({ success: true, meta: { changes: 1 } });
+
+      await AuthService.verifyEmail(token);
+
+      expect(executeMutation).toHaveBeenCalledWith(
+        expect.stringContaining('UPDATE users SET email_verified_at = ?'),
+        [expect.any(String), 'user-123']
+      );
+    });
+
+    it('should not accept the link as an access token or an access token as the link', async () => {
+      const token = await sendAndCaptureToken();
+      await expect(verifyToken(token)).rejects.toThrow('Invalid or expired token');
+
+      const accessToken = await signToken({ userId: 'user-123', email: 'student@example.com', role: 'student' }, '15m');
+      await expect(AuthService.verifyEmail(accessToken)).rejects.toThrow('Invalid or expired verification link');
+    });
+
+    it('should reject the link once the email address has changed', async () => {
+      const token = await sendAndCaptureToken();
+      vi.mocked(executeQueryFirst).mockResolvedValueOnce({ email: 'new@example.com', email_verified_at: null });
+
+      await expect(AuthService.verifyEmail(token)).rejects.toThrow('Invalid or expired verification link');
+      expect(executeMutation).not.toHaveBeenCalled();
+    });
+
+    it('should only require verification while emails can be delivered', () => {
+      vi.stubEnv('NODE_ENV', 'production');
+
+      expect(AuthService.isEmailVerificationRequired()).toBe(false);
+
+      setMailer({ send: vi.fn() });
+      expect(AuthService.isEmailVerificationRequired()).toBe(true);
+      vi.unstubAllEnvs();
+    });
+
+    it('should refuse to send a link for a verified address', async () => {
+      vi.mocked(executeQueryFirst).mockResolvedValue({ ...unverifiedRow, email_verified_at: '2026-01-07T10:00:00Z' });
+
+      await expect(AuthService.sendVerificationEmail('user-123', 'https://quiz.example.com')).rejects.toThrow(
+        'Email address is already verified'
+      );
+    });
+  });
+
+  describe('verifyToken', () => {
+    const sessionRow = (overrides: Record<string, unknown> = {}) => ({
+      id: 'session-1',
+      user_id: 'user-123',
+      last_seen_at: new Date().toISOString(),
+      expires_at: new Date(Date.now() + 60_000).toISOString(),
+      revoked_at: null,
+      ...overrides,
+    });
+
+    it('should accept a token whose session is active', async () => {
+      const token = await signToken({ userId: 'user-123', email: 'student@example.com', role: 'student', jti: 'session-1' });
+      vi.mocked(executeQueryFirst).mockResolvedValue(sessionRow());
+
+      await expect(AuthService.verifyToken(token)).resolves.toMatchObject({ userId: 'user-123' });
+    });
+
+    it('should reject a token whose session was revoked', async () => {
+      const token = await signToken({ userId: 'user-123', email: 'student@example.com', role: 'student', jti: 'session-1' });
+      vi.mocked(executeQueryFirst).mockResolvedValue(sessionRow({ revoked_at: '2026-01-07T10:00:00Z' }));
+
+      await expect(AuthService.verifyToken(token)).rejects.toThrow('Invalid or expired token');
+    });
+
+    it('should reject a token without a session id', async () => {
+      const token = await signToken({ userId: 'user-123', email: 'student@example.com', role: 'student' });
+
+      await expect(AuthService.verifyToken(token)).rejects.toThrow('Invalid or expired token');
+      expect(executeQueryFirst).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('authenticate', () => {
+    it('should refresh an expired access token with the refresh token', async () => {
+      vi.useFakeTimers();
+      const expired = await signToken(
+        { userId: 'user-123', email: 'student@example.com', role: 'student', jti: 'session-1' },
+        '15m'
+      );
+      vi.advanceTimersByTime(16 * 60 * 1000);
+
+      vi.mocked(executeQueryFirst)
+        .mockResolvedValueOnce({
+          id: 'refresh-1',
+          session_id: 'session-1',
+          used_at: null,
+          user_id: 'user-123',
+          expires_at: new Date(Date.now() + 60_000).toISOString(),
+          revoked_at: null,
+        })
+        .mockResolvedValueOnce({ email: 'student@example.com', role: 'student' });
+      vi.mocked(executeMutation).mockResolvedValue({ success: true, meta: { changes: 1 } });
+      vi.mocked(executeBatch).mockResolvedValue([]);
+
+      const { payload, tokens } = await AuthService.authenticate(expired, 'refresh-token');
+
+      expect(payload).toMatchObject({ userId: 'user-123', jti: 'session-1' });
+      expect(tokens?.refreshToken).toEqual(expect.any(String));
+      await expect(verifyToken(tokens!.accessToken)).resolves.toMatchObject({ jti: 'session-1' });
+      vi.useRealTimers();
+    });
+
+    it('should not refresh without a refresh token', async () => {
+      await expect(AuthService.authenticate('not-a-jwt', undefined)).rejects.toThrow('Invalid or expired token');
+      await expect(AuthService.authenticate(undefined, undefined)).rejects.toThrow('Not authenticated');
+    });
+  });
+});
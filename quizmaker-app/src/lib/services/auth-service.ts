@@ -3,17 +3,43 @@
  * Handles user registration, login, and JWT token management
  */
 
-import { hash, compare } from '@/lib/crypto-edge';
+import { hash, compare, needsRehash, generateToken, hashToken } from '@/lib/crypto-edge';
 import { signToken, verifyToken } from '@/lib/jwt-edge';
-import { executeQueryFirst, executeMutation, generateId } from '@/lib/d1-client';
+import { executeQueryFirst, executeMutation, executeBatch, generateId } from '@/lib/d1-client';
+import { getMailer, isEmailDeliveryConfigured, Mailer } from '@/lib/mailer';
+import { SessionService, SessionContext } from '@/lib/services/session-service';
+import { InviteService, ClaimedInvite } from '@/lib/services/invite-service';
+import { AuditService } from '@/lib/services/audit-service';
+import { UserRole } from '@/lib/roles';
+import {
+  RateLimiter,
+  RateLimitedKey,
+  RateLimitPolicy,
+  EMAIL_VERIFICATION_POLICY,
+  LOGIN_EMAIL_POLICY,
+  LOGIN_IP_POLICY,
+  PASSWORD_RESET_POLICY,
+  SIGNUP_EMAIL_POLICY,
+  SIGNUP_IP_POLICY,
+} from '@/lib/rate-limit';
 
-const JWT_EXPIRES_IN = '24h';
+// Access tokens are short-lived; the refresh token cookie renews them
+const ACCESS_TOKEN_EXPIRES_IN = '15m';
+export const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+
+// Password reset links stay valid for one hour
+const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000;
+
+// Email verification links are signed tokens valid for one day
+const EMAIL_VERIFICATION_EXPIRES_IN = '24h';
+const EMAIL_VERIFICATION_PURPOSE = 'email-verification';
 
 export interface User {
   id: string;
   name: string;
   email: string;
-  role: 'student' | 'instructor';
+  role: UserRole;
+  emailVerified: boolean;
   createdAt: string;
 }
 
@@ -21,7 +47,8 @@ export interface CreateUserInput {
   name: string;
   email: string;
   password: string;
-  role: 'student' | 'instructor';
+  // Single-use instructor invite; without one the account is a student
+  inviteCode?: string;
 }
 
 export interface LoginInput {
@@ -33,14 +60,36 @@ export interface JWTPayload {
   userId: string;
   email: string;
   role: string;
+  jti?: string;
+  iat?: number;
+}
+
+export interface AuthTokens {
+  accessToken: string;
+  // Null when the refresh token cookie should be left as it is
+  refreshToken: string | null;
+}
+
+export interface ResetPasswordInput {
+  token: string;
+  password: string;
 }
 
 export class AuthService {
   /**
    * Register a new user
+   * New accounts are students unless a valid invite code grants another role.
+   * Every attempt counts towards the signup rate limit for the email and IP address
    */
-  static async register(input: CreateUserInput): Promise<{ userId: string }> {
+  static async register(
+    input: CreateUserInput,
+    context: SessionContext = {}
+  ): Promise<{ userId: string; role: UserRole }> {
     console.log('🔍 Starting registration process...');
+
+    const rateLimitKeys = this.rateLimitKeys('signup', input.email, context, SIGNUP_EMAIL_POLICY, SIGNUP_IP_POLICY);
+    await RateLimiter.check(rateLimitKeys);
+    await RateLimiter.hit(rateLimitKeys);
     
     // Validate input
     if (!input.name || input.name.length < 2 || input.name.length > 100) {
@@ -51,13 +100,7 @@ export class AuthService {
       throw new Error('Invalid email format');
     }
     
-    if (!input.password || input.password.length < 8) {
-      throw new Error('Password must be at least 8 characters');
-    }
-    
-    if (!['student', 'instructor'].includes(input.role)) {
-      throw new Error('Invalid role');
-    }
+    this.validatePassword(input.password);
 
     console.log('✓ Input validation passed');
 
@@ -83,37 +126,66 @@ export class AuthService {
     const userId = generateId();
     console.log('✓ User ID generated:', userId);
 
+    // Claim the invite last so validation failures do not use it up
+    let invite: ClaimedInvite | null = null;
+    if (input.inviteCode) {
+      invite = await InviteService.claimInvite(input.inviteCode);
+      console.log('✓ Invite code accepted');
+    }
+    const role = invite?.role ?? 'student';
+
     // Insert user into database
     console.log('💾 Inserting user into database...');
-    await executeMutation(
-      `INSERT INTO users (id, name, email, password, role) 
-       VALUES (?, ?, ?, ?, ?)`,
-      [userId, input.name, input.email.toLowerCase(), hashedPassword, input.role]
-    );
+    const insertUser = {
+      sql: `INSERT INTO users (id, name, email, password, role) 
+            VALUES (?, ?, ?, ?, ?)`,
+      params: [userId, input.name, input.email.toLowerCase(), hashedPassword, role],
+    };
+
+    try {
+      await executeBatch(
+        invite ? [insertUser, InviteService.buildRecordRedemptionStatement(invite.id, userId)] : [insertUser]
+      );
+    } catch (error) {
+      if (invite) {
+        await InviteService.releaseInvite(invite.id);
+      }
+      throw error;
+    }
 
     console.log('✅ User successfully inserted into database');
 
-    return { userId };
+    return { userId, role };
   }
 
   /**
-   * Login user and generate JWT token
+   * Login user, record a session and generate an access token carrying its id
+   * plus the session's first refresh token
+   * Failed attempts are rate limited per email and per IP address
    */
-  static async login(input: LoginInput): Promise<{ token: string; user: User }> {
+  static async login(
+    input: LoginInput,
+    context: SessionContext = {}
+  ): Promise<{ token: string; refreshToken: string; user: User }> {
     if (!input.email || !input.password) {
       throw new Error('Email and password are required');
     }
 
     console.log('🔐 Login attempt for:', input.email);
 
+    const rateLimitKeys = this.rateLimitKeys('login', input.email, context, LOGIN_EMAIL_POLICY, LOGIN_IP_POLICY);
+    await RateLimiter.check(rateLimitKeys);
+
     // Fetch user from database
     const userRow = await executeQueryFirst<any>(
-      'SELECT id, name, email, password, role, created_at FROM users WHERE email = ?',
+      `SELECT id, name, email, password, role, email_verified_at, disabled_at, password_reset_required_at, created_at
+       FROM users WHERE email = ?`,
       [input.email.toLowerCase()]
     );
 
     if (!userRow) {
       console.log('❌ User not found');
+      await RateLimiter.hit(rateLimitKeys);
       throw new Error('Invalid email or password');
     }
 
@@ -126,19 +198,49 @@ export class AuthService {
     
     if (!isPasswordValid) {
       console.log('❌ Password mismatch');
+      await RateLimiter.hit(rateLimitKeys);
       throw new Error('Invalid email or password');
     }
     
     console.log('✓ Password verified successfully');
 
-    // Generate JWT token
+    // A successful login clears the account's failures (the IP counter keeps running)
+    await RateLimiter.reset([rateLimitKeys[0].key]);
+
+    // Only reported once the password is known to be right
+    if (userRow.disabled_at) {
+      throw new Error('This account has been disabled');
+    }
+    if (userRow.password_reset_required_at) {
+      throw new Error('A password reset is required. Check your email for a reset link.');
+    }
+
+    // Upgrade legacy or weaker hashes now that the plain password is known
+    if (needsRehash(userRow.password as string)) {
+      await this.rehashPassword(userRow.id as string, input.password);
+    }
+
+    const { sessionId, refreshToken } = await SessionService.createSession(userRow.id as string, context);
+
+    await AuditService.record({
+      actorId: userRow.id as string,
+      action: 'auth.login',
+      targetType: 'user',
+      targetId: userRow.id as string,
+      ownerId: userRow.id as string,
+      metadata: { sessionId },
+      ipAddress: context.ipAddress,
+    });
+
+    // Generate JWT access token
     const token = await signToken(
       {
         userId: userRow.id as string,
         email: userRow.email as string,
         role: userRow.role as string,
+        jti: sessionId,
       },
-      JWT_EXPIRES_IN
+      ACCESS_TOKEN_EXPIRES_IN
     );
 
     // Return user info (without password)
@@ -146,18 +248,374 @@ export class AuthService {
       id: userRow.id as string,
       name: userRow.name as string,
       email: userRow.email as string,
-      role: userRow.role as 'student' | 'instructor',
+      role: userRow.role as UserRole,
+      emailVerified: !!userRow.email_verified_at,
       createdAt: userRow.created_at as string,
     };
 
-    return { token, user };
+    return { token, refreshToken, user };
+  }
+
+  /**
+   * Rotate a refresh token and issue a new access token for its session
+   * The user's current email and role are read so role changes apply on refresh
+   */
+  static async refresh(
+    refreshToken: string,
+    context: SessionContext = {}
+  ): Promise<{ payload: JWTPayload; tokens: AuthTokens }> {
+    const rotated = await SessionService.rotateRefreshToken(refreshToken, context);
+
+    const userRow = await executeQueryFirst<{ email: string; role: string; disabled_at: string | null }>(
+      'SELECT email, role, disabled_at FROM users WHERE id = ?',
+      [rotated.userId]
+    );
+    if (!userRow || userRow.disabled_at) {
+      throw new Error('Invalid or expired refresh token');
+    }
+
+    const payload: JWTPayload = {
+      userId: rotated.userId,
+      email: userRow.email,
+      role: userRow.role,
+      jti: rotated.sessionId,
+    };
+    const accessToken = await signToken(payload, ACCESS_TOKEN_EXPIRES_IN);
+
+    return { payload, tokens: { accessToken, refreshToken: rotated.refreshToken } };
+  }
+
+  /**
+   * Authenticate a request from its access and refresh token cookies
+   * A missing or expired access token is renewed with the refresh token; the new
+   * tokens are returned so the caller can set them as cookies
+   */
+  static async authenticate(
+    accessToken: string | undefined,
+    refreshToken: string | undefined,
+    context: SessionContext = {}
+  ): Promise<{ payload: JWTPayload; tokens?: AuthTokens }> {
+    if (accessToken) {
+      try {
+        return { payload: await this.verifyToken(accessToken, context) };
+      } catch (error) {
+        if (!refreshToken) {
+          throw error;
+        }
+      }
+    }
+
+    if (!refreshToken) {
+      throw new Error('Not authenticated');
+    }
+
+    return this.refresh(refreshToken, context);
+  }
+
+  /**
+   * Verify JWT token and check that its session is still active
+   * Tokens without a session id (issued before sessions were tracked) are rejected
+   */
+  static async verifyToken(token: string, context: SessionContext = {}): Promise<JWTPayload> {
+    const payload = await verifyToken(token);
+
+    if (!payload.jti || !(await SessionService.validateSession(payload.jti, payload.userId, context))) {
+      throw new Error('Invalid or expired token');
+    }
+
+    return payload;
+  }
+
+  /**
+   * Revoke the session behind the request's tokens
+   * The refresh token is preferred since it still identifies the session after the
+   * access token expires. Invalid, expired and already revoked tokens are ignored
+   */
+  static async logout(
+    accessToken?: string,
+    refreshToken?: string,
+    context: SessionContext = {}
+  ): Promise<void> {
+    let userId: string | null = null;
+
+    try {
+      if (refreshToken) {
+        userId = await SessionService.revokeSessionByRefreshToken(refreshToken);
+      } else if (accessToken) {
+        const payload = await verifyToken(accessToken);
+        if (payload.jti) {
+          await SessionService.revokeSession(payload.userId, payload.jti);
+          userId = payload.userId;
+        }
+      }
+    } catch {
+      // Nothing to revoke
+    }
+
+    if (userId) {
+      await AuditService.record({
+        actorId: userId,
+        action: 'auth.logout',
+        targetType: 'user',
+        targetId: userId,
+        ownerId: userId,
+        ipAddress: context.ipAddress,
+      });
+    }
+  }
+
+  /**
+   * Email a password reset link if the address belongs to an account
+   * Always resolves the same way so callers cannot probe which emails exist.
+   * Requests are rate limited per email address and per client IP, whether or not
+   * the address has an account
+   */
+  static async requestPasswordReset(
+    email: string,
+    appUrl: string,
+    context: SessionContext = {}
+  ): Promise<void> {
+    if (!email || !this.isValidEmail(email)) {
+      throw new Error('Invalid email format');
+    }
+
+    // Fail before the lookup, so a missing mailer does not reveal which emails exist
+    const mailer = getMailer();
+
+    const rateLimitKeys = this.rateLimitKeys(
+      'password-reset',
+      email,
+      context,
+      PASSWORD_RESET_POLICY,
+      PASSWORD_RESET_POLICY
+    );
+    await RateLimiter.check(rateLimitKeys);
+    await RateLimiter.hit(rateLimitKeys);
+
+    console.log('🔑 Password reset requested');
+
+    const userRow = await executeQueryFirst<{ id: string; name: string; email: string }>(
+      'SELECT id, name, email FROM users WHERE email = ?',
+      [email.toLowerCase()]
+    );
+
+    if (!userRow) {
+      console.log('ℹ️ No account for reset request; nothing sent');
+      return;
+    }
+
+    await this.sendPasswordResetLink(userRow, appUrl, mailer);
+  }
+
+  /**
+   * Store a new reset token for a user and email them its link
+   * Takes the mailer from the caller, which resolves it before changing anything
+   */
+  static async sendPasswordResetLink(
+    userRow: { id: string; name: string; email: string },
+    appUrl: string,
+    mailer: Mailer
+  ): Promise<void> {
+    const token = generateToken();
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + PASSWORD_RESET_TTL_MS);
+
+    // A new link replaces any earlier ones; used_at only ever records a redemption
+    await executeBatch([
+      {
+        sql: 'DELETE FROM password_reset_tokens WHERE user_id = ? AND used_at IS NULL',
+        params: [userRow.id],
+      },
+      {
+        sql: `INSERT INTO password_reset_tokens (id, user_id, token_hash, expires_at, created_at)
+              VALUES (?, ?, ?, ?, ?)`,
+        params: [generateId(), userRow.id, await hashToken(token), expiresAt.toISOString(), now.toISOString()],
+      },
+    ]);
+
+    const resetUrl = `${appUrl.replace(/\/$/, '')}/reset-password?token=${encodeURIComponent(token)}`;
+    await mailer.send({
+      to: userRow.email,
+      subject: 'Reset your QuizMaker password',
+      text: [
+        `Hi ${userRow.name},`,
+        '',
+        'Someone asked to reset the password for your QuizMaker account.',
+        'Open this link within 1 hour to choose a new password:',
+        '',
+        resetUrl,
+        '',
+        'If you did not ask for this, you can ignore this email; your password will not change.',
+      ].join('\n'),
+    });
+
+    console.log('✅ Password reset email sent to user:', userRow.id);
+  }
+
+  /**
+   * Set a new password with a reset token, then sign the user out everywhere
+   * Tokens are single-use: the token is claimed before the password changes
+   */
+  static async resetPassword(input: ResetPasswordInput, context: SessionContext = {}): Promise<void> {
+    if (!input.token) {
+      throw new Error('Reset token is required');
+    }
+    this.validatePassword(input.password);
+
+    const tokenRow = await executeQueryFirst<{
+      id: string;
+      user_id: string;
+      expires_at: string;
+      used_at: string | null;
+    }>(
+      'SELECT id, user_id, expires_at, used_at FROM password_reset_tokens WHERE token_hash = ?',
+      [await hashToken(input.token)]
+    );
+
+    const now = new Date().toISOString();
+    if (!tokenRow || tokenRow.used_at || tokenRow.expires_at <= now) {
+      throw new Error('Invalid or expired reset token');
+    }
+
+    // Claim the token so a concurrent request cannot use it too
+    const claim = await executeMutation(
+      'UPDATE password_reset_tokens SET used_at = ? WHERE id = ? AND used_at IS NULL',
+      [now, tokenRow.id]
+    );
+    if (claim.meta?.changes === 0) {
+      throw new Error('Invalid or expired reset token');
+    }
+
+    const hashedPassword = await hash(input.password);
+    await executeBatch([
+      {
+        sql: 'UPDATE users SET password = ?, password_reset_required_at = NULL, updated_at = ? WHERE id = ?',
+        params: [hashedPassword, now, tokenRow.user_id],
+      },
+      {
+        sql: 'UPDATE password_reset_tokens SET used_at = ? WHERE user_id = ? AND used_at IS NULL',
+        params: [now, tokenRow.user_id],
+      },
+      SessionService.buildRevokeAllStatement(tokenRow.user_id, now),
+      AuditService.buildRecordStatement({
+        actorId: tokenRow.user_id,
+        action: 'auth.password_reset',
+        targetType: 'user',
+        targetId: tokenRow.user_id,
+        ownerId: tokenRow.user_id,
+        ipAddress: context.ipAddress,
+      }),
+    ]);
+    SessionService.forgetUser(tokenRow.user_id);
+
+    console.log('✅ Password reset for user:', tokenRow.user_id);
+  }
+
+  /**
+   * Email a signed link that confirms the user's address
+   * Rate limited per account; throws if the address is already verified
+   */
+  static async sendVerificationEmail(userId: string, appUrl: string): Promise<void> {
+    const userRow = await executeQueryFirst<{
+      id: string;
+      name: string;
+      email: string;
+      role: string;
+      email_verified_at: string | null;
+    }>(
+      'SELECT id, name, email, role, email_verified_at FROM users WHERE id = ?',
+      [userId]
+    );
+
+    if (!userRow) {
+      throw new Error('User not found');
+    }
+    if (userRow.email_verified_at) {
+      throw new Error('Email address is already verified');
+    }
+
+    const rateLimitKeys = [{ key: `verify-email:user:${userId}`, policy: EMAIL_VERIFICATION_POLICY }];
+    await RateLimiter.check(rateLimitKeys);
+    await RateLimiter.hit(rateLimitKeys);
+
+    // The token names the address, so it stops working if the email changes
+    const token = await signToken(
+      { userId: userRow.id, email: userRow.email, role: userRow.role },
+      EMAIL_VERIFICATION_EXPIRES_IN,
+      { purpose: EMAIL_VERIFICATION_PURPOSE }
+    );
+
+    const verifyUrl = `${appUrl.replace(/\/$/, '')}/verify-email?token=${encodeURIComponent(token)}`;
+    await getMailer().send({
+      to: userRow.email,
+      subject: 'Confirm your QuizMaker email address',
+      text: [
+        `Hi ${userRow.name},`,
+        '',
+        'Please confirm your email address by opening this link within 24 hours:',
+        '',
+        verifyUrl,
+        '',
+        'If you did not create a QuizMaker account, you can ignore this email.',
+      ].join('\n'),
+    });
+
+    console.log('✅ Verification email sent to user:', userRow.id);
+  }
+
+  /**
+   * Mark a user's email address verified using a link token
+   * Verifying an already verified address succeeds
+   */
+  static async verifyEmail(token: string): Promise<void> {
+    if (!token) {
+      throw new Error('Verification token is required');
+    }
+
+    let payload: JWTPayload;
+    try {
+      payload = await verifyToken(token, { purpose: EMAIL_VERIFICATION_PURPOSE });
+    } catch {
+      throw new Error('Invalid or expired verification link');
+    }
+
+    const userRow = await executeQueryFirst<{ email: string; email_verified_at: string | null }>(
+      'SELECT email, email_verified_at FROM users WHERE id = ?',
+      [payload.userId]
+    );
+    if (!userRow || userRow.email !== payload.email) {
+      throw new Error('Invalid or expired verification link');
+    }
+    if (userRow.email_verified_at) {
+      return;
+    }
+
+    await executeMutation(
+      'UPDATE users SET email_verified_at = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ? AND email_verified_at IS NULL',
+      [new Date().toISOString(), payload.userId]
+    );
+
+    console.log('✅ Email verified for user:', payload.userId);
+  }
+
+  /**
+   * Whether students must verify their email address to answer questions and be ranked
+   * Only while verification links can be delivered, so that a missing mailer does not
+   * leave every new student unverified
+   */
+  static isEmailVerificationRequired(): boolean {
+    return isEmailDeliveryConfigured();
   }
 
   /**
-   * Verify JWT token
+   * Whether the user has confirmed their email address
    */
-  static async verifyToken(token: string): Promise<JWTPayload> {
-    return await verifyToken(token);
+  static async isEmailVerified(userId: string): Promise<boolean> {
+    const userRow = await executeQueryFirst<{ email_verified_at: string | null }>(
+      'SELECT email_verified_at FROM users WHERE id = ?',
+      [userId]
+    );
+    return !!userRow?.email_verified_at;
   }
 
   /**
@@ -165,7 +623,7 @@ export class AuthService {
    */
   static async getUserById(userId: string): Promise<User | null> {
     const userRow = await executeQueryFirst<any>(
-      'SELECT id, name, email, role, created_at FROM users WHERE id = ?',
+      'SELECT id, name, email, role, email_verified_at, created_at FROM users WHERE id = ?',
       [userId]
     );
 
@@ -177,11 +635,57 @@ export class AuthService {
       id: userRow.id as string,
       name: userRow.name as string,
       email: userRow.email as string,
-      role: userRow.role as 'student' | 'instructor',
+      role: userRow.role as UserRole,
+      emailVerified: !!userRow.email_verified_at,
       createdAt: userRow.created_at as string,
     };
   }
 
+  /**
+   * Replace a user's stored hash with one using the current parameters
+   * Failures are logged and do not block the login; the next login retries
+   */
+  private static async rehashPassword(userId: string, password: string): Promise<void> {
+    try {
+      const hashedPassword = await hash(password);
+      await executeMutation(
+        'UPDATE users SET password = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+        [hashedPassword, userId]
+      );
+      console.log('🔒 Password hash upgraded for user:', userId);
+    } catch (error) {
+      console.error('⚠️ Failed to upgrade password hash:', error);
+    }
+  }
+
+  /**
+   * Rate limit keys for an action: the email address first, then the client IP when known
+   */
+  private static rateLimitKeys(
+    action: 'login' | 'signup' | 'password-reset',
+    email: string,
+    context: SessionContext,
+    emailPolicy: RateLimitPolicy,
+    ipPolicy: RateLimitPolicy
+  ): RateLimitedKey[] {
+    const keys: RateLimitedKey[] = [
+      { key: `${action}:email:${(email || '').toLowerCase()}`, policy: emailPolicy },
+    ];
+    if (context.ipAddress) {
+      keys.push({ key: `${action}:ip:${context.ipAddress}`, policy: ipPolicy });
+    }
+    return keys;
+  }
+
+  /**
+   * Validate a new password
+   */
+  private static validatePassword(password: string): void {
+    if (!password || password.length < 8) {
+      throw new Error('Password must be at least 8 characters');
+    }
+  }
+
   /**
    * Validate email format
    */
@@ -0,0 +1,226 @@
+/**
+ * Course Service Unit Tests
+ *
+ * Tests joining with a join code (normalisation, rate limiting, duplicate
+ * enrollment), adding questions to a course's pool, and the course scopes and SQL
+ * filters used by quiz delivery, leaderboards and statistics.
+ *
+ * @fileoverview Unit tests for src/lib/services/course-service.ts
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { CourseService } from './course-service';
+import { setRateLimitStore, MemoryRateLimitStore, RateLimitError } from '@/lib/rate-limit';
+
+// ============================================
+// Mock Setup for D1 Client
+// ============================================
+
+vi.mock('@/lib/d1-client', () => ({
+  executeQuery: vi.fn(),
+  executeQueryFirst: vi.fn(),
+  executeMutation: vi.fn(),
+  executeBatch: vi.fn(),
+  generateId: vi.fn(() => 'mock-uuid-12345'),
+  toBoolean: vi.fn((value: unknown) => value === 1 || value === true),
+  fromBoolean: vi.fn((value: boolean) => (value ? 1 : 0)),
+}));
+
+import { executeQuery, executeQueryFirst, executeMutation, executeBatch } from '@/lib/d1-client';
+
+// ============================================
+// Test Fixtures
+// ============================================
+
+function createCourseRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'course-1',
+    instructor_id: 'instructor-1',
+    instructor_name: 'Test Instructor',
+    name: 'Biology 101',
+    description: null,
+    join_code: 'K7PX2M9Q',
+    leaderboard_policy: 'student_choice',
+    student_count: 12,
+    question_count: 40,
+    created_at: '2026-01-07T10:00:00.000Z',
+    updated_at: '2026-01-07T10:00:00.000Z',
+    ...overrides,
+  };
+}
+
+// ============================================
+// Test Suite
+// ============================================
+
+describe('CourseService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    setRateLimitStore(new MemoryRateLimitStore());
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('joinCourse', () => {
+    it('should normalise the code and enroll the student', async () => {
+      vi.mocked(executeQueryFirst)
+        .mockResolvedValueOnce({ id: 'course-1', instructor_id: 'instructor-1' })
+        .mockResolvedValueOnce(createCourseRow())
+        .mockResolvedValueOnce({ enrolled_at: '2026-02-01T10:00:00.000Z' });
+      vi.mocked(executeMutation).mockResolvedValue({ success: true, meta: { changes: 1 } });
+
+      const course = await CourseService.joinCourse('student-1', ' k7px-2m9q ');
+
+      expect(vi.mocked(executeQueryFirst).mock.calls[0][1]).toEqual(['K7PX2M9Q']);
+      expect(vi.mocked(executeMutation).mock.calls[0][1]).toEqual([
+        'course-1',
+        'student-1',
+        expect.any(String),
+      ]);
+      expect(course.name).toBe('Biology 101');
+      expect(course.enrolledAt).toBe('2026-02-01T10:00:00.000Z');
+      // Students never see the join code
+      expect(course.joinCode).toBeNull();
+    });
+
+    it('should reject an unknown code', async () => {
+      vi.mocked(executeQueryFirst).mockResolvedValue(null);
+
+      await expect(CourseService.joinCourse('student-1', 'NOPE1234')).rejects.toThrow('Invalid join code');
+      expect(executeMutation).not.toHaveBeenCalled();
+    });
+
+    it('should rate limit repeated wrong codes', async () => {
+      vi.mocked(executeQueryFirst).mockResolvedValue(null);
+
+      let error: unknown;
+      for (let i = 0; i < 25 && !error; i++) {
+        try {
+          await CourseService.joinCourse('student-1', `WRONG${i}`);
+        } catch (e) {
+          if (e instanceof RateLimitError) error = e;
+        }
+      }
+
+      expect(error).toBeInstanceOf(RateLimitError);
+    });
+
+    it('should reject a student who is already enrolled', async () => {
+      vi.mocked(executeQueryFirst).mockResolvedValueOnce({ id: 'course-1', instructor_id: 'instructor-1' });
+      vi.mocked(executeMutation).mockResolvedValue({ success: true, meta: { changes: 0 } });
+
+      await expect(CourseService.joinCourse('student-1', 'K7PX2M9Q')).rejects.toThrow(
+        'You are already enrolled in this course'
+      );
+    });
+
+    it('should not clear the wrong-code counter when a known code is entered', async () => {
+      const store = new MemoryRateLimitStore();
+      setRateLimitStore(store);
+      vi.mocked(executeQueryFirst)
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce({ id: 'course-1', instructor_id: 'instructor-1' });
+      vi.mocked(executeMutation).mockResolvedValue({ success: true, meta: { changes: 0 } });
+
+      await expect(CourseService.joinCourse('student-1', 'WRONG001')).rejects.toThrow('Invalid join code');
+      await expect(CourseService.joinCourse('student-1', 'WRONG002')).rejects.toThrow('Invalid join code');
+      await expect(CourseService.joinCourse('student-1', 'K7PX2M9Q')).rejects.toThrow(
+        'You are already enrolled in this course'
+      );
+
+      expect((await store.get('course-join:user:student-1'))?.count).toBe(2);
+    });
+
+    it('should require a code', async () => {
+      await expect(CourseService.joinCourse('student-1', '  ')).rejects.toThrow('Join code is required');
+      expect(executeQueryFirst).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('addQuestions', () => {
+    it('should add the instructor\'s questions and count the new ones', async () => {
+      vi.mocked(executeQueryFirst).mockResolvedValue({ instructor_id: 'instructor-1' });
+      vi.mocked(executeQuery).mockResolvedValue([{ id: 'q-1' }, { id: 'q-2' }]);
+      vi.mocked(executeBatch).mockResolvedValue([{ meta: { changes: 1 } }, { meta: { changes: 0 } }]);
+
+      const result = await CourseService.addQuestions('course-1', 'instructor-1', ['q-1', 'q-2', 'q-1']);
+
+      expect(result).toEqual({ added: 1 });
+      expect(vi.mocked(executeBatch).mock.calls[0][0]).toHaveLength(2);
+    });
+
+    it('should reject questions the instructor does not own', async () => {
+      vi.mocked(executeQueryFirst).mockResolvedValue({ instructor_id: 'instructor-1' });
+      vi.mocked(executeQuery).mockResolvedValue([{ id: 'q-1' }]);
+
+      await expect(
+        CourseService.addQuestions('course-1', 'instructor-1', ['q-1', 'q-other'])
+      ).rejects.toThrow('Question not found: q-other');
+      expect(executeBatch).not.toHaveBeenCalled();
+    });
+
+    it('should reject another instructor\'s course', async () => {
+      vi.mocked(executeQueryFirst).mockResolvedValue({ instructor_id: 'instructor-2' });
+
+      await expect(
+        CourseService.addQuestions('course-1', 'instructor-1', ['q-1'])
+      ).rejects.toThrow('You do not have permission to update this course');
+    });
+  });
+
+  describe('updateCourse', () => {
+    it('should reject an unknown leaderboard policy', async () => {
+      vi.mocked(executeQueryFirst).mockResolvedValue({ instructor_id: 'instructor-1' });
+
+      await expect(
+        CourseService.updateCourse('course-1', 'instructor-1', { leaderboardPolicy: 'public' as 'hidden' })
+      ).rejects.toThrow('Leaderboard policy must be one of: student_choice, pseudonym, hidden');
+      expect(executeMutation).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resolveCourseScope', () => {
+    it('should scope students to their enrolled courses', async () => {
+      vi.mocked(executeQuery).mockResolvedValue([{ id: 'course-1' }, { id: 'course-2' }]);
+
+      const scope = await CourseService.resolveCourseScope('student-1', 'student');
+
+      expect(scope).toEqual(['course-1', 'course-2']);
+      expect(vi.mocked(executeQuery).mock.calls[0][0]).toContain('course_enrollments');
+    });
+
+    it('should leave admins unrestricted', async () => {
+      const scope = await CourseService.resolveCourseScope('admin-1', 'admin');
+
+      expect(scope).toBeNull();
+      expect(executeQuery).not.toHaveBeenCalled();
+    });
+
+    it('should reject a course the student is not enrolled in', async () => {
+      vi.mocked(executeQueryFirst)
+        .mockResolvedValueOnce(createCourseRow())
+        .mockResolvedValueOnce(null);
+
+      await expect(
+        CourseService.resolveCourseScope('student-1', 'student', 'course-1')
+      ).rejects.toThrow('You do not have permission to view this course');
+    });
+  });
+
+  describe('buildAttemptFilter', () => {
+    it('should match nothing when the user has no courses', () => {
+      expect(CourseService.buildAttemptFilter([])).toEqual({ sql: '0 = 1', params: [] });
+    });
+
+    it('should bind one placeholder per course', () => {
+      const filter = CourseService.buildAttemptFilter(['course-1', 'course-2']);
+
+      expect(filter.sql).toContain('IN (?, ?)');
+      expect(filter.params).toEqual(['course-1', 'course-2']);
+    });
+  });
+});
@@ -0,0 +1,584 @@
+/**
+ * Course Service
+ * Instructor-owned courses: join codes, student enrollments and the question pool
+ * students of the course draw from. Also builds the SQL filters that scope quiz
+ * delivery, leaderboards and statistics to a student's courses
+ */
+
+import { executeQuery, executeQueryFirst, executeMutation, executeBatch, generateId } from '@/lib/d1-client';
+import { COURSE_JOIN_POLICY, RateLimiter } from '@/lib/rate-limit';
+import { UserRole } from '@/lib/roles';
+import { CourseLeaderboardPolicy, isCourseLeaderboardPolicy, COURSE_LEADERBOARD_POLICIES } from '@/lib/leaderboard-privacy';
+
+// ============================================
+// Types & Interfaces
+// ============================================
+
+export interface Course {
+  id: string;
+  instructorId: string;
+  instructorName: string;
+  name: string;
+  description: string | null;
+  // Only returned to the course's instructor
+  joinCode: string | null;
+  leaderboardPolicy: CourseLeaderboardPolicy;
+  studentCount: number;
+  questionCount: number;
+  createdAt: string;
+  updatedAt: string;
+  // Set for the courses of a student
+  enrolledAt?: string;
+}
+
+export interface CreateCourseInput {
+  name: string;
+  description?: string;
+}
+
+export interface UpdateCourseInput {
+  name?: string;
+  description?: string;
+  leaderboardPolicy?: CourseLeaderboardPolicy;
+}
+
+export interface CourseStudent {
+  studentId: string;
+  studentName: string;
+  email: string;
+  enrolledAt: string;
+  // Attempts on the course's questions
+  totalAttempts: number;
+  correctAttempts: number;
+  totalScore: number;
+}
+
+export interface SqlFilter {
+  sql: string;
+  params: unknown[];
+}
+
+// ============================================
+// Database Row Interfaces (internal)
+// ============================================
+
+interface CourseRow {
+  id: string;
+  instructor_id: string;
+  instructor_name: string;
+  name: string;
+  description: string | null;
+  join_code: string;
+  leaderboard_policy: CourseLeaderboardPolicy;
+  student_count: number;
+  question_count: number;
+  created_at: string;
+  updated_at: string;
+  enrolled_at?: string;
+}
+
+interface CourseStudentRow {
+  student_id: string;
+  student_name: string;
+  email: string;
+  enrolled_at: string;
+  total_attempts: number;
+  correct_attempts: number | null;
+  total_score: number | null;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+// No 0/O or 1/I, so codes read aloud or copied from a board are unambiguous
+const JOIN_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const JOIN_CODE_LENGTH = 8;
+
+export const MAX_COURSE_QUESTIONS_PER_REQUEST = 100;
+
+const COURSE_COLUMNS = `c.id, c.instructor_id, u.name as instructor_name, c.name, c.description, c.join_code,
+         c.leaderboard_policy, c.created_at, c.updated_at,
+         (SELECT COUNT(*) FROM course_enrollments ce WHERE ce.course_id = c.id) as student_count,
+         (SELECT COUNT(*) FROM course_questions cq JOIN questions q ON q.id = cq.question_id
+          WHERE cq.course_id = c.id AND q.deleted_at IS NULL) as question_count`;
+
+const COURSE_SELECT = `SELECT ${COURSE_COLUMNS}
+       FROM courses c
+       JOIN users u ON u.id = c.instructor_id`;
+
+// ============================================
+// Course Service Class
+// ============================================
+
+export class CourseService {
+  /**
+   * Create a course with a fresh join code
+   */
+  static async createCourse(instructorId: string, input: CreateCourseInput): Promise<Course> {
+    console.log('🏫 Creating course...');
+
+    this.validateName(input.name);
+    this.validateDescription(input.description);
+
+    const courseId = generateId();
+    const now = new Date().toISOString();
+
+    await executeMutation(
+      `INSERT INTO courses (id, instructor_id, name, description, join_code, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [courseId, instructorId, input.name.trim(), input.description?.trim() || null, this.generateJoinCode(), now, now]
+    );
+
+    console.log('✅ Course created:', courseId);
+    return this.getCourse(courseId, instructorId, 'instructor');
+  }
+
+  /**
+   * List the courses an instructor teaches or a student is enrolled in
+   * Admins see every course
+   */
+  static async listCourses(userId: string, role: UserRole): Promise<Course[]> {
+    console.log('📚 Listing courses for:', userId);
+
+    if (role === 'student') {
+      const rows = await executeQuery<CourseRow>(
+        `SELECT ${COURSE_COLUMNS}, e.enrolled_at
+         FROM courses c
+         JOIN users u ON u.id = c.instructor_id
+         JOIN course_enrollments e ON e.course_id = c.id AND e.student_id = ?
+         ORDER BY c.name`,
+        [userId]
+      );
+      console.log('✓ Found', rows.length, 'courses');
+      return rows.map((row) => this.mapCourseRow(row, false));
+    }
+
+    const rows = role === 'admin'
+      ? await executeQuery<CourseRow>(`${COURSE_SELECT} ORDER BY c.name`)
+      : await executeQuery<CourseRow>(`${COURSE_SELECT} WHERE c.instructor_id = ? ORDER BY c.name`, [userId]);
+
+    console.log('✓ Found', rows.length, 'courses');
+    return rows.map((row) => this.mapCourseRow(row, row.instructor_id === userId));
+  }
+
+  /**
+   * Get a course its instructor teaches or its student is enrolled in
+   */
+  static async getCourse(courseId: string, userId: string, role: UserRole): Promise<Course> {
+    const row = await executeQueryFirst<CourseRow>(
+      `${COURSE_SELECT}
+       WHERE c.id = ?`,
+      [courseId]
+    );
+
+    if (!row) {
+      throw new Error('Course not found');
+    }
+
+    if (row.instructor_id === userId || role === 'admin') {
+      return this.mapCourseRow(row, row.instructor_id === userId);
+    }
+
+    const enrollment = await executeQueryFirst<{ enrolled_at: string }>(
+      'SELECT enrolled_at FROM course_enrollments WHERE course_id = ? AND student_id = ?',
+      [courseId, userId]
+    );
+
+    if (!enrollment) {
+      throw new Error('You do not have permission to view this course');
+    }
+
+    return this.mapCourseRow({ ...row, enrolled_at: enrollment.enrolled_at }, false);
+  }
+
+  /**
+   * Update a course's name, description and leaderboard policy (owner only)
+   */
+  static async updateCourse(
+    courseId: string,
+    instructorId: string,
+    input: UpdateCourseInput
+  ): Promise<Course> {
+    console.log('✏️ Updating course:', courseId);
+
+    await this.assertCourseOwned(courseId, instructorId, 'update');
+
+    const updates: string[] = [];
+    const updateParams: (string | null)[] = [];
+
+    if (input.name !== undefined) {
+      this.validateName(input.name);
+      updates.push('name = ?');
+      updateParams.push(input.name.trim());
+    }
+
+    if (input.description !== undefined) {
+      this.validateDescription(input.description);
+      updates.push('description = ?');
+      updateParams.push(input.description?.trim() || null);
+    }
+
+    if (input.leaderboardPolicy !== undefined) {
+      if (!isCourseLeaderboardPolicy(input.leaderboardPolicy)) {
+        throw new Error(`Leaderboard policy must be one of: ${COURSE_LEADERBOARD_POLICIES.join(', ')}`);
+      }
+      updates.push('leaderboard_policy = ?');
+      updateParams.push(input.leaderboardPolicy);
+    }
+
+    updates.push('updated_at = ?');
+    updateParams.push(new Date().toISOString());
+
+    await executeMutation(
+      `UPDATE courses SET ${updates.join(', ')} WHERE id = ?`,
+      [...updateParams, courseId]
+    );
+
+    console.log('✅ Course updated');
+    return this.getCourse(courseId, instructorId, 'instructor');
+  }
+
+  /**
+   * Replace a course's join code; the old code stops working (owner only)
+   * Students already enrolled stay enrolled
+   */
+  static async regenerateJoinCode(courseId: string, instructorId: string): Promise<Course> {
+    console.log('🔄 Regenerating join code for course:', courseId);
+
+    await this.assertCourseOwned(courseId, instructorId, 'update');
+
+    await executeMutation(
+      'UPDATE courses SET join_code = ?, updated_at = ? WHERE id = ?',
+      [this.generateJoinCode(), new Date().toISOString(), courseId]
+    );
+
+    return this.getCourse(courseId, instructorId, 'instructor');
+  }
+
+  /**
+   * Delete a course (owner only)
+   * Questions, quizzes and attempts are kept; the course's quizzes are no longer
+   * delivered until they are assigned to another course
+   */
+  static async deleteCourse(
+    courseId: string,
+    instructorId: string
+  ): Promise<{ deleted: boolean; message: string }> {
+    console.log('🗑️ Deleting course:', courseId);
+
+    await this.assertCourseOwned(courseId, instructorId, 'delete');
+
+    await executeMutation('DELETE FROM courses WHERE id = ?', [courseId]);
+
+    console.log('✅ Course deleted');
+    return { deleted: true, message: 'Course deleted successfully' };
+  }
+
+  /**
+   * Enroll a student in the course with the given join code
+   * Wrong codes count towards a per-student rate limit, since codes are short.
+   * Right codes never clear the counter: joining a course the student is already
+   * in (or leaving and rejoining one) would otherwise reset it between guesses
+   */
+  static async joinCourse(studentId: string, joinCode: string): Promise<Course> {
+    console.log('🎟️ Student joining course:', studentId);
+
+    const code = (joinCode ?? '').trim().toUpperCase().replace(/[\s-]/g, '');
+    if (!code) {
+      throw new Error('Join code is required');
+    }
+
+    const rateLimitKeys = [{ key: `course-join:user:${studentId}`, policy: COURSE_JOIN_POLICY }];
+    await RateLimiter.check(rateLimitKeys);
+
+    const course = await executeQueryFirst<{ id: string; instructor_id: string }>(
+      'SELECT id, instructor_id FROM courses WHERE join_code = ?',
+      [code]
+    );
+
+    if (!course) {
+      await RateLimiter.hit(rateLimitKeys);
+      throw new Error('Invalid join code');
+    }
+
+    if (course.instructor_id === studentId) {
+      throw new Error('You cannot join your own course');
+    }
+
+    const result = await executeMutation(
+      `INSERT INTO course_enrollments (course_id, student_id, enrolled_at)
+       VALUES (?, ?, ?)
+       ON CONFLICT(course_id, student_id) DO NOTHING`,
+      [course.id, studentId, new Date().toISOString()]
+    );
+
+    if (!result.meta?.changes) {
+      throw new Error('You are already enrolled in this course');
+    }
+
+    console.log('✅ Student enrolled in course:', course.id);
+    return this.getCourse(course.id, studentId, 'student');
+  }
+
+  /**
+   * Leave a course; past attempts are kept
+   */
+  static async leaveCourse(courseId: string, studentId: string): Promise<void> {
+    console.log('👋 Student leaving course:', courseId);
+
+    const result = await executeMutation(
+      'DELETE FROM course_enrollments WHERE course_id = ? AND student_id = ?',
+      [courseId, studentId]
+    );
+
+    if (!result.meta?.changes) {
+      throw new Error('Enrollment not found');
+    }
+  }
+
+  /**
+   * List a course's students with their results on the course's questions (owner only)
+   */
+  static async listStudents(courseId: string, instructorId: string): Promise<CourseStudent[]> {
+    console.log('👥 Listing students of course:', courseId);
+
+    await this.assertCourseOwned(courseId, instructorId, 'view');
+
+    const rows = await executeQuery<CourseStudentRow>(
+      `SELECT u.id as student_id, u.name as student_name, u.email, e.enrolled_at,
+              COUNT(qa.id) as total_attempts,
+              SUM(CASE WHEN qa.is_correct = 1 THEN 1 ELSE 0 END) as correct_attempts,
+              SUM(qa.awarded_score) as total_score
+       FROM course_enrollments e
+       JOIN users u ON u.id = e.student_id
+       LEFT JOIN quiz_attempts qa ON qa.student_id = e.student_id
+         AND qa.question_id IN (SELECT question_id FROM course_questions WHERE course_id = e.course_id)
+       WHERE e.course_id = ?
+       GROUP BY u.id
+       ORDER BY u.name`,
+      [courseId]
+    );
+
+    console.log('✓ Found', rows.length, 'students');
+
+    return rows.map((row) => ({
+      studentId: row.student_id,
+      studentName: row.student_name,
+      email: row.email,
+      enrolledAt: row.enrolled_at,
+      totalAttempts: row.total_attempts,
+      correctAttempts: row.correct_attempts ?? 0,
+      totalScore: row.total_score ?? 0,
+    }));
+  }
+
+  /**
+   * Remove a student from a course (owner only); their attempts are kept
+   */
+  static async removeStudent(courseId: string, instructorId: string, studentId: string): Promise<void> {
+    console.log('🚪 Removing student from course:', courseId);
+
+    await this.assertCourseOwned(courseId, instructorId, 'update');
+
+    const result = await executeMutation(
+      'DELETE FROM course_enrollments WHERE course_id = ? AND student_id = ?',
+      [courseId, studentId]
+    );
+
+    if (!result.meta?.changes) {
+      throw new Error('Student not found in this course');
+    }
+  }
+
+  /**
+   * Add the instructor's questions to a course's pool (owner only)
+   * Questions already in the pool are skipped
+   */
+  static async addQuestions(
+    courseId: string,
+    instructorId: string,
+    questionIds: string[]
+  ): Promise<{ added: number }> {
+    console.log('➕ Adding questions to course:', courseId);
+
+    await this.assertCourseOwned(courseId, instructorId, 'update');
+
+    if (!Array.isArray(questionIds) || questionIds.length === 0) {
+      throw new Error('Select at least one question');
+    }
+    if (questionIds.length > MAX_COURSE_QUESTIONS_PER_REQUEST) {
+      throw new Error(`Add at most ${MAX_COURSE_QUESTIONS_PER_REQUEST} questions at a time`);
+    }
+
+    const uniqueIds = [...new Set(questionIds)];
+    const placeholders = uniqueIds.map(() => '?').join(', ');
+    const owned = await executeQuery<{ id: string }>(
+      `SELECT id FROM questions
+       WHERE id IN (${placeholders}) AND instructor_id = ? AND deleted_at IS NULL`,
+      [...uniqueIds, instructorId]
+    );
+
+    const ownedIds = new Set(owned.map((row) => row.id));
+    const missing = uniqueIds.find((questionId) => !ownedIds.has(questionId));
+    if (missing) {
+      throw new Error(`Question not found: ${missing}`);
+    }
+
+    const now = new Date().toISOString();
+    const results = await executeBatch(
+      uniqueIds.map((questionId) => ({
+        sql: `INSERT INTO course_questions (course_id, question_id, added_at)
+              VALUES (?, ?, ?)
+              ON CONFLICT(course_id, question_id) DO NOTHING`,
+        params: [courseId, questionId, now],
+      }))
+    );
+
+    const added = results.reduce((sum: number, result) => sum + (result?.meta?.changes ?? 0), 0);
+    console.log('✅ Added', added, 'questions to course');
+    return { added };
+  }
+
+  /**
+   * Remove a question from a course's pool (owner only)
+   */
+  static async removeQuestion(courseId: string, instructorId: string, questionId: string): Promise<void> {
+    console.log('➖ Removing question from course:', courseId);
+
+    await this.assertCourseOwned(courseId, instructorId, 'update');
+
+    const result = await executeMutation(
+      'DELETE FROM course_questions WHERE course_id = ? AND question_id = ?',
+      [courseId, questionId]
+    );
+
+    if (!result.meta?.changes) {
+      throw new Error('Question not found in this course');
+    }
+  }
+
+  /**
+   * Verify that a course exists and belongs to the instructor
+   * Used when other entities (e.g. quizzes) are assigned to a course
+   */
+  static async assertCourseOwned(courseId: string, instructorId: string, action: string = 'use'): Promise<void> {
+    const course = await executeQueryFirst<{ instructor_id: string }>(
+      'SELECT instructor_id FROM courses WHERE id = ?',
+      [courseId]
+    );
+
+    if (!course) {
+      throw new Error('Course not found');
+    }
+
+    if (course.instructor_id !== instructorId) {
+      throw new Error(`You do not have permission to ${action} this course`);
+    }
+  }
+
+  /**
+   * Courses whose results a user may see, optionally narrowed to one course
+   * Students see the courses they are enrolled in and instructors the courses they
+   * teach; admins are unrestricted (null) unless they ask for a course
+   */
+  static async resolveCourseScope(
+    userId: string,
+    role: UserRole,
+    courseId?: string
+  ): Promise<string[] | null> {
+    if (courseId) {
+      // Throws unless the user teaches, is enrolled in, or administers the course
+      await this.getCourse(courseId, userId, role);
+      return [courseId];
+    }
+
+    if (role === 'admin') {
+      return null;
+    }
+
+    const rows = role === 'student'
+      ? await executeQuery<{ id: string }>(
+          'SELECT course_id as id FROM course_enrollments WHERE student_id = ?',
+          [userId]
+        )
+      : await executeQuery<{ id: string }>('SELECT id FROM courses WHERE instructor_id = ?', [userId]);
+
+    return rows.map((row) => row.id);
+  }
+
+  /**
+   * Condition on questions aliased q: the question is in the pool of a course the
+   * student is enrolled in (of the given course only, when set)
+   */
+  static buildStudentQuestionFilter(studentId: string, courseId?: string): SqlFilter {
+    return {
+      sql: `q.id IN (SELECT cq.question_id FROM course_questions cq
+              JOIN course_enrollments ce ON ce.course_id = cq.course_id
+              WHERE ce.student_id = ?${courseId ? ' AND cq.course_id = ?' : ''})`,
+      params: courseId ? [studentId, courseId] : [studentId],
+    };
+  }
+
+  /**
+   * Condition on attempts aliased qa: the attempt answered a question of one of the
+   * courses, and the student is currently enrolled in that course. Enrollment dates
+   * are not checked, so attempts made before joining count too
+   */
+  static buildAttemptFilter(courseIds: string[]): SqlFilter {
+    if (courseIds.length === 0) {
+      return { sql: '0 = 1', params: [] };
+    }
+
+    const placeholders = courseIds.map(() => '?').join(', ');
+    return {
+      sql: `EXISTS (SELECT 1 FROM course_questions cq
+              JOIN course_enrollments ce ON ce.course_id = cq.course_id AND ce.student_id = qa.student_id
+              WHERE cq.question_id = qa.question_id AND cq.course_id IN (${placeholders}))`,
+      params: courseIds,
+    };
+  }
+
+  /**
+   * Random join code from the unambiguous alphabet
+   */
+  private static generateJoinCode(): string {
+    const bytes = crypto.getRandomValues(new Uint8Array(JOIN_CODE_LENGTH));
+    return Array.from(bytes, (byte) => JOIN_CODE_ALPHABET[byte % JOIN_CODE_ALPHABET.length]).join('');
+  }
+
+  private static validateName(name: string): void {
+    if (!name || name.trim().length < 3) {
+      throw new Error('Course name must be at least 3 characters');
+    }
+    if (name.length > 100) {
+      throw new Error('Course name must not exceed 100 characters');
+    }
+  }
+
+  private static validateDescription(description?: string): void {
+    if (description && description.length > 1000) {
+      throw new Error('Course description must not exceed 1000 characters');
+    }
+  }
+
+  /**
+   * Map a database row to a Course; the join code is only kept for the owner
+   */
+  private static mapCourseRow(row: CourseRow, isOwner: boolean): Course {
+    return {
+      id: row.id,
+      instructorId: row.instructor_id,
+      instructorName: row.instructor_name,
+      name: row.name,
+      description: row.description,
+      joinCode: isOwner ? row.join_code : null,
+      leaderboardPolicy: row.leaderboard_policy ?? 'student_choice',
+      studentCount: row.student_count ?? 0,
+      questionCount: row.question_count ?? 0,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      ...(row.enrolled_at ? { enrolledAt: row.enrolled_at } : {}),
+    };
+  }
+}
@@ -0,0 +1,139 @@
+/**
+ * Data Explorer Service Unit Tests
+ *
+ * Tests column allowlists, filters, cursor pagination and the audit record written
+ * for every read.
+ *
+ * @fileoverview Unit tests for src/lib/services/data-explorer-service.ts
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { DataExplorerService } from './data-explorer-service';
+
+// ============================================
+// Mock Setup for D1 Client
+// ============================================
+
+vi.mock('@/lib/d1-client', () => ({
+  executeQuery: vi.fn(),
+  executeQueryFirst: vi.fn(),
+  executeMutation: vi.fn(),
+  executeBatch: vi.fn(),
+  generateId: vi.fn(() => 'mock-uuid-12345'),
+  toBoolean: vi.fn((value: unknown) => value === 1 || value === true),
+  fromBoolean: vi.fn((value: boolean) => (value ? 1 : 0)),
+}));
+
+import { executeQuery, executeQueryFirst, executeMutation } from '@/lib/d1-client';
+
+// ============================================
+// Test Fixtures
+// ============================================
+
+const actor = { userId: 'admin-1', ipAddress: '203.0.113.7' };
+
+function createOptionRows(count: number) {
+  return Array.from({ length: count }, (_, i) => ({
+    id: `option-${i + 1}`,
+    question_id: 'question-1',
+    option_text: `Option ${i + 1}`,
+    is_correct: i === 0 ? 1 : 0,
+    option_order: i,
+  }));
+}
+
+// ============================================
+// Test Suite
+// ============================================
+
+describe('DataExplorerService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.mocked(executeMutation).mockResolvedValue({ success: true, meta: { changes: 1 } });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('queryTable', () => {
+    it('should select only allowlisted columns', async () => {
+      vi.mocked(executeQuery).mockResolvedValue([]);
+
+      const page = await DataExplorerService.queryTable(actor, 'users');
+
+      const [sql] = vi.mocked(executeQuery).mock.calls[0];
+      expect(sql).not.toContain('*');
+      expect(sql).not.toContain('password,');
+      expect(page.columns).not.toContain('password');
+    });
+
+    it('should apply filters and return a cursor when more rows exist', async () => {
+      vi.mocked(executeQuery).mockResolvedValue(createOptionRows(3));
+
+      const page = await DataExplorerService.queryTable(actor, 'options', {
+        limit: 2,
+        cursor: 'option-0',
+        filters: { question_id: 'question-1', is_correct: 'false' },
+      });
+
+      const [sql, params] = vi.mocked(executeQuery).mock.calls[0];
+      expect(sql).toContain('question_id = ? AND is_correct = ? AND id > ?');
+      expect(params).toEqual(['question-1', 0, 'option-0', 3]);
+      expect(page.data).toHaveLength(2);
+      expect(page.nextCursor).toBe('option-2');
+    });
+
+    it('should return no cursor on the last page', async () => {
+      vi.mocked(executeQuery).mockResolvedValue(createOptionRows(2));
+
+      const page = await DataExplorerService.queryTable(actor, 'options', { limit: 2 });
+
+      expect(page.nextCursor).toBeNull();
+    });
+
+    it('should record every read in the audit log', async () => {
+      vi.mocked(executeQuery).mockResolvedValue(createOptionRows(1));
+
+      await DataExplorerService.queryTable(actor, 'options', { filters: { question_id: 'question-1' } });
+
+      const [sql, params] = vi.mocked(executeMutation).mock.calls[0];
+      expect(sql).toContain('INSERT INTO audit_events');
+      expect(params).toEqual(expect.arrayContaining(['admin-1', 'data.read', 'table', 'options', '203.0.113.7']));
+      expect(JSON.parse(params![6] as string)).toMatchObject({ filters: { question_id: 'question-1' }, rowCount: 1 });
+    });
+
+    it('should reject unknown tables and non-allowlisted filters without reading', async () => {
+      await expect(DataExplorerService.queryTable(actor, 'refresh_tokens')).rejects.toThrow('Table not found');
+      await expect(
+        DataExplorerService.queryTable(actor, 'users', { filters: { password: 'x' } })
+      ).rejects.toThrow('Cannot filter users by password');
+      await expect(
+        DataExplorerService.queryTable(actor, 'users', { filters: { constructor: 'x' } })
+      ).rejects.toThrow('Cannot filter users by constructor');
+      await expect(
+        DataExplorerService.queryTable(actor, 'users', { filters: JSON.parse('{"__proto__": "x"}') })
+      ).rejects.toThrow('Cannot filter users by __proto__');
+      await expect(
+        DataExplorerService.queryTable(actor, 'options', { from: '2026-01-01' })
+      ).rejects.toThrow('options has no date column');
+
+      expect(executeQuery).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('listTables', () => {
+    it('should count rows per table and record the access', async () => {
+      vi.mocked(executeQueryFirst).mockResolvedValue({ count: 4 });
+
+      const tables = await DataExplorerService.listTables(actor);
+
+      expect(tables.map((table) => table.name)).toContain('quiz_attempts');
+      expect(tables.every((table) => table.rowCount === 4)).toBe(true);
+      expect(vi.mocked(executeMutation).mock.calls[0][1]).toEqual(
+        expect.arrayContaining(['admin-1', 'data.list_tables'])
+      );
+    });
+  });
+});
@@ -0,0 +1,241 @@
+/**
+ * Data Explorer Service
+ * Read-only, admin-facing view of selected tables. Only allowlisted columns are
+ * returned, and every read is written to the audit log
+ */
+
+import { executeQuery, executeQueryFirst } from '@/lib/d1-client';
+import { AuditService } from '@/lib/services/audit-service';
+
+// ============================================
+// Types & Interfaces
+// ============================================
+
+export type ExplorerTable = 'users' | 'questions' | 'options' | 'quiz_attempts' | 'quizzes' | 'quiz_sessions';
+
+export type ExplorerFilterType = 'text' | 'boolean';
+
+export interface ExplorerTableSummary {
+  name: ExplorerTable;
+  columns: string[];
+  filters: Record<string, ExplorerFilterType>;
+  // Column used by the from/to range filter, if the table has one
+  dateColumn: string | null;
+  rowCount: number;
+}
+
+export interface ExplorerQuery {
+  // nextCursor from the previous page
+  cursor?: string | null;
+  limit?: number;
+  // Equality filters, keyed by column
+  filters?: Record<string, string>;
+  // Inclusive lower and exclusive upper bound on the table's date column
+  from?: string | null;
+  to?: string | null;
+}
+
+export interface ExplorerPage {
+  table: ExplorerTable;
+  columns: string[];
+  data: Record<string, unknown>[];
+  // Null on the last page
+  nextCursor: string | null;
+}
+
+export interface ExplorerActor {
+  userId: string;
+  ipAddress?: string | null;
+}
+
+interface ExplorerTableConfig {
+  columns: string[];
+  filters: Record<string, ExplorerFilterType>;
+  dateColumn: string | null;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+// Secrets (password hashes, token hashes) and tables holding them are never exposed
+const EXPLORER_TABLES: Record<ExplorerTable, ExplorerTableConfig> = {
+  users: {
+    columns: ['id', 'name', 'email', 'role', 'email_verified_at', 'disabled_at', 'password_reset_required_at', 'created_at', 'updated_at'],
+    filters: { role: 'text', email: 'text' },
+    dateColumn: 'created_at',
+  },
+  questions: {
+    columns: ['id', 'instructor_id', 'question_text', 'question_type', 'category', 'difficulty', 'points', 'scoring_mode', 'time_limit_seconds', 'created_at', 'updated_at'],
+    filters: { instructor_id: 'text', question_type: 'text', category: 'text', difficulty: 'text' },
+    dateColumn: 'created_at',
+  },
+  options: {
+    columns: ['id', 'question_id', 'option_text', 'is_correct', 'option_order'],
+    filters: { question_id: 'text', is_correct: 'boolean' },
+    dateColumn: null,
+  },
+  quiz_attempts: {
+    columns: ['id', 'student_id', 'question_id', 'session_id', 'is_correct', 'score', 'awarded_score', 'attempt_number', 'is_late', 'time_taken_seconds', 'attempt_date'],
+    filters: { student_id: 'text', question_id: 'text', session_id: 'text', is_correct: 'boolean', is_late: 'boolean' },
+    dateColumn: 'attempt_date',
+  },
+  quizzes: {
+    columns: ['id', 'instructor_id', 'title', 'status', 'time_limit_seconds', 'published_at', 'created_at', 'updated_at'],
+    filters: { instructor_id: 'text', status: 'text' },
+    dateColumn: 'created_at',
+  },
+  quiz_sessions: {
+    columns: ['id', 'student_id', 'quiz_id', 'status', 'question_count', 'correct_count', 'score', 'max_score', 'started_at', 'completed_at'],
+    filters: { student_id: 'text', quiz_id: 'text', status: 'text' },
+    dateColumn: 'started_at',
+  },
+};
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+// ============================================
+// Data Explorer Service Class
+// ============================================
+
+export class DataExplorerService {
+  /**
+   * Describe the explorable tables with their row counts
+   */
+  static async listTables(actor: ExplorerActor): Promise<ExplorerTableSummary[]> {
+    const summaries: ExplorerTableSummary[] = [];
+
+    for (const [name, config] of Object.entries(EXPLORER_TABLES) as [ExplorerTable, ExplorerTableConfig][]) {
+      const result = await executeQueryFirst<{ count: number }>(`SELECT COUNT(*) as count FROM ${name}`);
+      summaries.push({
+        name,
+        columns: config.columns,
+        filters: config.filters,
+        dateColumn: config.dateColumn,
+        rowCount: result?.count ?? 0,
+      });
+    }
+
+    await AuditService.record({
+      actorId: actor.userId,
+      action: 'data.list_tables',
+      ipAddress: actor.ipAddress,
+    });
+
+    return summaries;
+  }
+
+  /**
+   * Read one page of a table, ordered by id
+   */
+  static async queryTable(actor: ExplorerActor, table: string, query: ExplorerQuery = {}): Promise<ExplorerPage> {
+    if (!this.isExplorerTable(table)) {
+      throw new Error(`Table not found. Available tables: ${Object.keys(EXPLORER_TABLES).join(', ')}`);
+    }
+
+    const config = EXPLORER_TABLES[table];
+    const limit = Math.min(Math.max(query.limit || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    for (const [column, value] of Object.entries(query.filters ?? {})) {
+      // Own keys only: inherited names such as constructor must not reach the SQL
+      const type = Object.hasOwn(config.filters, column) ? config.filters[column] : undefined;
+      if (!type) {
+        throw new Error(`Cannot filter ${table} by ${column}. Filters: ${Object.keys(config.filters).join(', ') || 'none'}`);
+      }
+      conditions.push(`${column} = ?`);
+      params.push(type === 'boolean' ? this.parseBooleanFilter(column, value) : value);
+    }
+
+    if (query.from || query.to) {
+      if (!config.dateColumn) {
+        throw new Error(`${table} has no date column to filter by`);
+      }
+      if (query.from) {
+        conditions.push(`datetime(${config.dateColumn}) >= datetime(?)`);
+        params.push(this.parseDateFilter('from', query.from));
+      }
+      if (query.to) {
+        conditions.push(`datetime(${config.dateColumn}) < datetime(?)`);
+        params.push(this.parseDateFilter('to', query.to));
+      }
+    }
+
+    if (query.cursor) {
+      conditions.push('id > ?');
+      params.push(query.cursor);
+    }
+
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    // One extra row tells us whether there is another page
+    const rows = await executeQuery<Record<string, unknown>>(
+      `SELECT ${config.columns.join(', ')} FROM ${table}
+       ${whereClause}
+       ORDER BY id ASC
+       LIMIT ?`,
+      [...params, limit + 1]
+    );
+
+    const data = rows.slice(0, limit);
+    const nextCursor = rows.length > limit ? String(data[data.length - 1].id) : null;
+
+    await AuditService.record({
+      actorId: actor.userId,
+      action: 'data.read',
+      targetType: 'table',
+      targetId: table,
+      metadata: {
+        filters: query.filters ?? {},
+        from: query.from ?? null,
+        to: query.to ?? null,
+        cursor: query.cursor ?? null,
+        rowCount: data.length,
+      },
+      ipAddress: actor.ipAddress,
+    });
+
+    console.log('🔎 Data explorer read:', table, data.length, 'rows by', actor.userId);
+
+    return {
+      table,
+      columns: config.columns,
+      data,
+      nextCursor,
+    };
+  }
+
+  /**
+   * Whether a name is one of the explorable tables
+   */
+  private static isExplorerTable(name: string): name is ExplorerTable {
+    return Object.hasOwn(EXPLORER_TABLES, name);
+  }
+
+  /**
+   * Convert a boolean filter value to the 0/1 stored in D1
+   */
+  private static parseBooleanFilter(column: string, value: string): number {
+    if (value === 'true' || value === '1') {
+      return 1;
+    }
+    if (value === 'false' || value === '0') {
+      return 0;
+    }
+    throw new Error(`Filter ${column} must be true or false`);
+  }
+
+  /**
+   * Validate a from/to date and normalise it to ISO 8601
+   */
+  private static parseDateFilter(name: string, value: string): string {
+    const time = Date.parse(value);
+    if (Number.isNaN(time)) {
+      throw new Error(`Filter ${name} must be a date`);
+    }
+    return new Date(time).toISOString();
+  }
+}
@@ -0,0 +1,194 @@
+/**
+ * Invite Service Unit Tests
+ *
+ * Tests invite creation, single-use claiming, promotion of student accounts and
+ * revocation.
+ *
+ * @fileoverview Unit tests for src/lib/services/invite-service.ts
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { InviteService } from './invite-service';
+
+// ============================================
+// Mock Setup for D1 Client
+// ============================================
+
+vi.mock('@/lib/d1-client', () => ({
+  executeQuery: vi.fn(),
+  executeQueryFirst: vi.fn(),
+  executeMutation: vi.fn(),
+  executeBatch: vi.fn(),
+  generateId: vi.fn(() => 'mock-uuid-12345'),
+  toBoolean: vi.fn((value: unknown) => value === 1 || value === true),
+  fromBoolean: vi.fn((value: boolean) => (value ? 1 : 0)),
+}));
+
+import { hashToken } from '@/lib/crypto-edge';
+import { executeQuery, executeQueryFirst, executeMutation, executeBatch } from '@/lib/d1-client';
+
+// ============================================
+// Test Fixtures
+// ============================================
+
+function createInviteRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'invite-1',
+    role: 'instructor',
+    created_by: 'instructor-1',
+    created_at: '2026-01-07T10:00:00.000Z',
+    expires_at: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),
+    used_at: null,
+    used_by: null,
+    revoked_at: null,
+    ...overrides,
+  };
+}
+
+// ============================================
+// Test Suite
+// ============================================
+
+describe('InviteService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('createInvite', () => {
+    it('should store only the hash of the returned code', async () => {
+      vi.mocked(executeMutation).mockResolvedValue({ success: true, meta: { changes: 1 } });
+
+      const { invite, code } = await InviteService.createInvite('instructor-1', { expiresInDays: 14 });
+
+      const params = vi.mocked(executeMutation).mock.calls[0][1]!;
+      expect(params).toContain(await hashToken(code));
+      expect(params).not.toContain(code);
+      expect(invite.status).toBe('active');
+      expect(Date.parse(invite.expiresAt) - Date.parse(invite.createdAt)).toBe(14 * 24 * 60 * 60 * 1000);
+    });
+
+    it('should reject lifetimes outside 1 to 30 days', async () => {
+      await expect(InviteService.createInvite('instructor-1', { expiresInDays: 0 })).rejects.toThrow(
+        'Invite lifetime must be between 1 and 30 days'
+      );
+      await expect(InviteService.createInvite('instructor-1', { expiresInDays: 31 })).rejects.toThrow();
+      expect(executeMutation).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('claimInvite', () => {
+    it('should claim an active invite by its code', async () => {
+      vi.mocked(executeQueryFirst).mockResolvedValue(createInviteRow());
+      vi.mocked(executeMutation).mockResolvedValue({ success: true, meta: { changes: 1 } });
+
+      const claimed = await InviteService.claimInvite(' invite-code ');
+
+      expect(claimed).toEqual({ id: 'invite-1', role: 'instructor' });
+      expect(executeQueryFirst).toHaveBeenCalledWith(
+        expect.stringContaining('WHERE code_hash = ?'),
+        [await hashToken('invite-code')]
+      );
+      expect(executeMutation).toHaveBeenCalledWith(
+        expect.stringContaining('AND used_at IS NULL AND revoked_at IS NULL'),
+        [expect.any(String), 'invite-1']
+      );
+    });
+
+    it('should reject used, revoked, expired and unknown codes', async () => {
+      const rows = [
+        createInviteRow({ used_at: '2026-01-07T11:00:00Z' }),
+        createInviteRow({ revoked_at: '2026-01-07T11:00:00Z' }),
+        createInviteRow({ expires_at: new Date(Date.now() - 1000).toISOString() }),
+        null,
+      ];
+
+      for (const row of rows) {
+        vi.mocked(executeQueryFirst).mockResolvedValueOnce(row);
+        await expect(InviteService.claimInvite('invite-code')).rejects.toThrow('Invalid or expired invite code');
+      }
+      expect(executeMutation).not.toHaveBeenCalled();
+    });
+
+    it('should reject a code claimed by a concurrent request', async () => {
+      vi.mocked(executeQueryFirst).mockResolvedValue(createInviteRow());
+      vi.mocked(executeMutation).mockResolvedValue({ success: true, meta: { changes: 0 } });
+
+      await expect(InviteService.claimInvite('invite-code')).rejects.toThrow('Invalid or expired invite code');
+    });
+  });
+
+  describe('redeemInvite', () => {
+    it('should promote a student and record the redemption', async () => {
+      vi.mocked(executeQueryFirst)
+        .mockResolvedValueOnce({ role: 'student' })
+        .mockResolvedValueOnce(createInviteRow());
+      vi.mocked(executeMutation).mockResolvedValue({ success: true, meta: { changes: 1 } });
+      vi.mocked(executeBatch).mockResolvedValue([]);
+
+      const role = await InviteService.redeemInvite('student-1', 'invite-code');
+
+      expect(role).toBe('instructor');
+      const [updateUser, recordRedemption] = vi.mocked(executeBatch).mock.calls[0][0];
+      expect(updateUser.params).toEqual(['instructor', 'student-1']);
+      expect(recordRedemption.params).toEqual(['student-1', 'invite-1']);
+    });
+
+    it('should not spend an invite on an instructor account', async () => {
+      vi.mocked(executeQueryFirst).mockResolvedValueOnce({ role: 'instructor' });
+
+      await expect(InviteService.redeemInvite('instructor-2', 'invite-code')).rejects.toThrow(
+        'Only student accounts can redeem an invite'
+      );
+      expect(executeMutation).not.toHaveBeenCalled();
+    });
+
+    it('should release the invite when the promotion fails', async () => {
+      vi.mocked(executeQueryFirst)
+        .mockResolvedValueOnce({ role: 'student' })
+        .mockResolvedValueOnce(createInviteRow());
+      vi.mocked(executeMutation).mockResolvedValue({ success: true, meta: { changes: 1 } });
+      vi.mocked(executeBatch).mockRejectedValue(new Error('D1 unavailable'));
+
+      await expect(InviteService.redeemInvite('student-1', 'invite-code')).rejects.toThrow('D1 unavailable');
+      expect(executeMutation).toHaveBeenLastCalledWith(
+        expect.stringContaining('SET used_at = NULL'),
+        ['invite-1']
+      );
+    });
+  });
+
+  describe('listInvites', () => {
+    it('should derive each invite\'s status', async () => {
+      vi.mocked(executeQuery).mockResolvedValue([
+        createInviteRow({ id: 'a' }),
+        createInviteRow({ id: 'b', used_at: '2026-01-08T10:00:00Z', used_by: 'user-2', used_by_name: 'New Instructor' }),
+        createInviteRow({ id: 'c', expires_at: '2026-01-08T10:00:00Z' }),
+        createInviteRow({ id: 'd', revoked_at: '2026-01-08T10:00:00Z' }),
+      ]);
+
+      const invites = await InviteService.listInvites('instructor-1');
+
+      expect(invites.map((i) => [i.status, i.usedByName])).toEqual([
+        ['active', null],
+        ['used', 'New Instructor'],
+        ['expired', null],
+        ['revoked', null],
+      ]);
+    });
+  });
+
+  describe('revokeInvite', () => {
+    it('should not revoke another instructor\'s or a used invite', async () => {
+      vi.mocked(executeMutation).mockResolvedValue({ success: true, meta: { changes: 0 } });
+
+      await expect(InviteService.revokeInvite('instructor-2', 'invite-1')).rejects.toThrow(
+        'Invite not found or already used'
+      );
+    });
+  });
+});
@@ -0,0 +1,277 @@
+/**
+ * Invite Service
+ * Single-use invite codes that grant the instructor role at signup, or promote an
+ * existing student account
+ */
+
+import { executeQuery, executeQueryFirst, executeMutation, executeBatch, generateId } from '@/lib/d1-client';
+import { generateToken, hashToken } from '@/lib/crypto-edge';
+import { AuditService } from '@/lib/services/audit-service';
+import { SessionContext } from '@/lib/services/session-service';
+
+// ============================================
+// Types & Interfaces
+// ============================================
+
+export type InviteRole = 'instructor';
+
+export type InviteStatus = 'active' | 'used' | 'expired' | 'revoked';
+
+export interface Invite {
+  id: string;
+  role: InviteRole;
+  status: InviteStatus;
+  createdAt: string;
+  expiresAt: string;
+  usedAt: string | null;
+  usedByName: string | null;
+}
+
+export interface CreateInviteInput {
+  expiresInDays?: number;
+}
+
+export interface ClaimedInvite {
+  id: string;
+  role: InviteRole;
+}
+
+// ============================================
+// Database Row Interfaces (internal)
+// ============================================
+
+interface InviteRow {
+  id: string;
+  role: InviteRole;
+  created_by: string;
+  created_at: string;
+  expires_at: string;
+  used_at: string | null;
+  used_by: string | null;
+  used_by_name?: string | null;
+  revoked_at: string | null;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+// 96 random bits: short enough to paste, too long to guess
+const INVITE_CODE_BYTES = 12;
+
+export const DEFAULT_INVITE_TTL_DAYS = 7;
+export const MAX_INVITE_TTL_DAYS = 30;
+
+const MAX_LISTED_INVITES = 100;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================
+// Invite Service Class
+// ============================================
+
+export class InviteService {
+  /**
+   * Create an instructor invite
+   * The code is returned once; only its hash is stored
+   */
+  static async createInvite(
+    createdBy: string,
+    input: CreateInviteInput = {}
+  ): Promise<{ invite: Invite; code: string }> {
+    const expiresInDays = input.expiresInDays ?? DEFAULT_INVITE_TTL_DAYS;
+    if (!Number.isInteger(expiresInDays) || expiresInDays < 1 || expiresInDays > MAX_INVITE_TTL_DAYS) {
+      throw new Error(`Invite lifetime must be between 1 and ${MAX_INVITE_TTL_DAYS} days`);
+    }
+
+    const id = generateId();
+    const code = generateToken(INVITE_CODE_BYTES);
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + expiresInDays * DAY_MS);
+
+    await executeMutation(
+      `INSERT INTO invites (id, code_hash, role, created_by, created_at, expires_at)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      [id, await hashToken(code), 'instructor', createdBy, now.toISOString(), expiresAt.toISOString()]
+    );
+
+    console.log('✅ Invite created:', id, 'by', createdBy);
+
+    return {
+      invite: {
+        id,
+        role: 'instructor',
+        status: 'active',
+        createdAt: now.toISOString(),
+        expiresAt: expiresAt.toISOString(),
+        usedAt: null,
+        usedByName: null,
+      },
+      code,
+    };
+  }
+
+  /**
+   * List the invites an instructor has created, newest first
+   */
+  static async listInvites(createdBy: string): Promise<Invite[]> {
+    const rows = await executeQuery<InviteRow>(
+      `SELECT i.id, i.role, i.created_by, i.created_at, i.expires_at, i.used_at, i.used_by, i.revoked_at,
+              u.name as used_by_name
+       FROM invites i
+       LEFT JOIN users u ON u.id = i.used_by
+       WHERE i.created_by = ?
+       ORDER BY i.created_at DESC
+       LIMIT ?`,
+      [createdBy, MAX_LISTED_INVITES]
+    );
+
+    return rows.map((row) => this.mapInviteRow(row));
+  }
+
+  /**
+   * Revoke one of the instructor's unused invites
+   */
+  static async revokeInvite(createdBy: string, inviteId: string): Promise<void> {
+    const result = await executeMutation(
+      `UPDATE invites SET revoked_at = ?
+       WHERE id = ? AND created_by = ? AND used_at IS NULL AND revoked_at IS NULL`,
+      [new Date().toISOString(), inviteId, createdBy]
+    );
+
+    if (result.meta?.changes === 0) {
+      throw new Error('Invite not found or already used');
+    }
+
+    console.log('🚫 Invite revoked:', inviteId);
+  }
+
+  /**
+   * Mark an invite used so no other request can redeem it
+   * Callers record who redeemed it with buildRecordRedemptionStatement, or hand
+   * it back with releaseInvite if the redemption fails
+   */
+  static async claimInvite(code: string): Promise<ClaimedInvite> {
+    if (!code) {
+      throw new Error('Invalid or expired invite code');
+    }
+
+    const row = await executeQueryFirst<InviteRow>(
+      `SELECT id, role, created_by, created_at, expires_at, used_at, used_by, revoked_at
+       FROM invites WHERE code_hash = ?`,
+      [await hashToken(code.trim())]
+    );
+
+    if (!row || this.statusOf(row) !== 'active') {
+      throw new Error('Invalid or expired invite code');
+    }
+
+    // Claim the invite; a concurrent redemption may have beaten us to it
+    const claim = await executeMutation(
+      'UPDATE invites SET used_at = ? WHERE id = ? AND used_at IS NULL AND revoked_at IS NULL',
+      [new Date().toISOString(), row.id]
+    );
+    if (claim.meta?.changes === 0) {
+      throw new Error('Invalid or expired invite code');
+    }
+
+    return { id: row.id, role: row.role };
+  }
+
+  /**
+   * Statement recording the account that redeemed a claimed invite
+   */
+  static buildRecordRedemptionStatement(inviteId: string, userId: string): { sql: string; params: unknown[] } {
+    return {
+      sql: 'UPDATE invites SET used_by = ? WHERE id = ?',
+      params: [userId, inviteId],
+    };
+  }
+
+  /**
+   * Make a claimed invite usable again after the redemption failed
+   */
+  static async releaseInvite(inviteId: string): Promise<void> {
+    await executeMutation(
+      'UPDATE invites SET used_at = NULL WHERE id = ? AND used_by IS NULL',
+      [inviteId]
+    );
+  }
+
+  /**
+   * Promote an existing student account with an invite code
+   * Returns the role granted
+   */
+  static async redeemInvite(userId: string, code: string, context: SessionContext = {}): Promise<InviteRole> {
+    const user = await executeQueryFirst<{ role: string }>(
+      'SELECT role FROM users WHERE id = ?',
+      [userId]
+    );
+    if (!user) {
+      throw new Error('User not found');
+    }
+    if (user.role !== 'student') {
+      throw new Error('Only student accounts can redeem an invite');
+    }
+
+    const invite = await this.claimInvite(code);
+
+    try {
+      await executeBatch([
+        {
+          sql: 'UPDATE users SET role = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+          params: [invite.role, userId],
+        },
+        this.buildRecordRedemptionStatement(invite.id, userId),
+        AuditService.buildRecordStatement({
+          actorId: userId,
+          action: 'user.role_change',
+          targetType: 'user',
+          targetId: userId,
+          ownerId: userId,
+          metadata: { inviteId: invite.id },
+          changes: { role: { before: user.role, after: invite.role } },
+          ipAddress: context.ipAddress,
+        }),
+      ]);
+    } catch (error) {
+      await this.releaseInvite(invite.id);
+      throw error;
+    }
+
+    console.log('✅ Invite redeemed:', invite.id, 'by', userId);
+
+    return invite.role;
+  }
+
+  /**
+   * Status of an invite; revocation and use take precedence over expiry
+   */
+  private static statusOf(row: InviteRow): InviteStatus {
+    if (row.revoked_at) {
+      return 'revoked';
+    }
+    if (row.used_at) {
+      return 'used';
+    }
+    if (Date.parse(row.expires_at) <= Date.now()) {
+      return 'expired';
+    }
+    return 'active';
+  }
+
+  /**
+   * Convert a database row to an Invite
+   */
+  private static mapInviteRow(row: InviteRow): Invite {
+    return {
+      id: row.id,
+      role: row.role,
+      status: this.statusOf(row),
+      createdAt: row.created_at,
+      expiresAt: row.expires_at,
+      usedAt: row.used_at,
+      usedByName: row.used_by_name ?? null,
+    };
+  }
+}
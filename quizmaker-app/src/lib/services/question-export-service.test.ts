@@ -0,0 +1,165 @@
+/**
+ * Question Export Service Unit Tests
+ *
+ * Tests the JSON, CSV, Moodle XML and GIFT writers.
+ *
+ * @fileoverview Unit tests for src/lib/services/question-export-service.ts
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { QuestionExportService } from './question-export-service';
+import { QuestionImportService } from './question-import-service';
+import { QuestionService, Question } from './question-service';
+
+// ============================================
+// Mock Setup for D1 Client
+// ============================================
+
+vi.mock('@/lib/d1-client', () => ({
+  executeQuery: vi.fn(),
+  executeQueryFirst: vi.fn(),
+  executeMutation: vi.fn(),
+  executeBatch: vi.fn(),
+  generateId: vi.fn(() => 'mock-uuid-12345'),
+  toBoolean: vi.fn((value: unknown) => value === 1 || value === true),
+  fromBoolean: vi.fn((value: boolean) => (value ? 1 : 0)),
+}));
+
+// ============================================
+// Test Fixtures
+// ============================================
+
+const INSTRUCTOR_ID = 'instructor-456';
+
+function createQuestion(overrides: Partial<Question> = {}): Question {
+  return {
+    id: 'question-123',
+    instructorId: INSTRUCTOR_ID,
+    questionType: 'single_choice',
+    scoringMode: 'all_or_nothing',
+    questionText: 'What is the capital of France?',
+    category: 'Geography',
+    difficulty: 'easy',
+    points: 2,
+    timeLimitSeconds: null,
+    createdAt: '2026-01-07T10:00:00Z',
+    updatedAt: '2026-01-07T10:00:00Z',
+    options: [
+      { id: 'o1', optionText: 'London', isCorrect: false, optionOrder: 1 },
+      { id: 'o2', optionText: 'Paris, France', isCorrect: true, optionOrder: 2 },
+      { id: 'o3', optionText: 'Berlin', isCorrect: false, optionOrder: 3 },
+      { id: 'o4', optionText: 'Madrid', isCorrect: false, optionOrder: 4 },
+    ],
+    numericAnswer: null,
+    numericTolerance: null,
+    acceptedAnswers: [],
+    ...overrides,
+  };
+}
+
+const QUESTIONS: Question[] = [
+  createQuestion(),
+  createQuestion({
+    id: 'question-456',
+    questionType: 'numeric',
+    questionText: 'What is the value of pi to two decimals?',
+    category: 'Math',
+    options: [],
+    numericAnswer: 3.14,
+    numericTolerance: 0.005,
+  }),
+];
+
+// ============================================
+// Test Suite
+// ============================================
+
+describe('QuestionExportService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(QuestionService, 'listQuestionsWithAnswers').mockResolvedValue(QUESTIONS);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should pass the list filters through', async () => {
+    await QuestionExportService.exportQuestions(
+      { instructorId: INSTRUCTOR_ID, category: 'Geography', difficulty: 'easy' },
+      'json'
+    );
+
+    expect(QuestionService.listQuestionsWithAnswers).toHaveBeenCalledWith({
+      instructorId: INSTRUCTOR_ID,
+      category: 'Geography',
+      difficulty: 'easy',
+    });
+  });
+
+  it('should write CSV that the importer accepts', async () => {
+    const file = await QuestionExportService.exportQuestions({ instructorId: INSTRUCTOR_ID }, 'csv');
+
+    expect(file.filename).toMatch(/^questions-\d{4}-\d{2}-\d{2}\.csv$/);
+    expect(file.content).toContain('"Paris, France"');
+
+    const result = await QuestionImportService.importQuestions(INSTRUCTOR_ID, {
+      format: 'csv',
+      content: file.content,
+      dryRun: true,
+    });
+    expect(result.errors).toEqual([]);
+    expect(result.validRows).toBe(2);
+  });
+
+  it('should write Moodle XML with categories and question types', async () => {
+    const file = await QuestionExportService.exportQuestions(
+      { instructorId: INSTRUCTOR_ID },
+      'moodle_xml'
+    );
+
+    expect(file.content).toContain('<text>$course$/top/Geography</text>');
+    expect(file.content).toContain('<question type="multichoice">');
+    expect(file.content).toContain('<question type="numerical">');
+    expect(file.content).toContain('<tolerance>0.005</tolerance>');
+    expect(file.content).toContain('<defaultgrade>2</defaultgrade>');
+  });
+
+  it('should write GIFT with escaped control characters', async () => {
+    vi.mocked(QuestionService.listQuestionsWithAnswers).mockResolvedValue([
+      createQuestion({ questionText: 'What is 2 + 2 = ? {easy}' }),
+    ]);
+
+    const file = await QuestionExportService.exportQuestions({ instructorId: INSTRUCTOR_ID }, 'gift');
+
+    expect(file.content).toContain('$CATEGORY: $course$/top/Geography');
+    expect(file.content).toContain('What is 2 + 2 \\= ? \\{easy\\}');
+    expect(file.content).toContain('=Paris, France');
+    expect(file.content).toContain('~London');
+  });
+
+  it('should write Moodle XML and GIFT that the importer accepts', async () => {
+    for (const format of ['moodle_xml', 'gift'] as const) {
+      const file = await QuestionExportService.exportQuestions({ instructorId: INSTRUCTOR_ID }, format);
+
+      const result = await QuestionImportService.importQuestions(INSTRUCTOR_ID, {
+        format,
+        content: file.content,
+        dryRun: true,
+      });
+      expect(result.errors).toEqual([]);
+      expect(result.warnings).toEqual([]);
+      expect(result.validRows).toBe(2);
+    }
+  });
+
+  it('should reject unknown formats', async () => {
+    await expect(
+      QuestionExportService.exportQuestions(
+        { instructorId: INSTRUCTOR_ID },
+        'pdf' as unknown as 'json'
+      )
+    ).rejects.toThrow('Export format must be one of');
+  });
+});
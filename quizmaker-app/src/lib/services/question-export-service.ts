@@ -0,0 +1,325 @@
+/**
+ * Question Export Service
+ * Exports an instructor's question bank as JSON, CSV, Moodle XML or GIFT
+ */
+
+import { formatCsv } from '@/lib/csv';
+import { QuestionService, Question, ListQuestionsParams } from '@/lib/services/question-service';
+import { CSV_IMPORT_COLUMNS } from '@/lib/services/question-import-service';
+import { isChoiceQuestionType } from '@/lib/question-types';
+
+// ============================================
+// Types & Interfaces
+// ============================================
+
+export type ExportFormat = 'json' | 'csv' | 'moodle_xml' | 'gift';
+
+export interface ExportFile {
+  filename: string;
+  contentType: string;
+  content: string;
+  questionCount: number;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+export const EXPORT_FORMATS: ExportFormat[] = ['json', 'csv', 'moodle_xml', 'gift'];
+
+const FILE_DETAILS: Record<ExportFormat, { extension: string; contentType: string }> = {
+  json: { extension: 'json', contentType: 'application/json; charset=utf-8' },
+  csv: { extension: 'csv', contentType: 'text/csv; charset=utf-8' },
+  moodle_xml: { extension: 'xml', contentType: 'application/xml; charset=utf-8' },
+  gift: { extension: 'gift.txt', contentType: 'text/plain; charset=utf-8' },
+};
+
+// Moodle names questions; titles are cut from the question text
+const MOODLE_NAME_LENGTH = 60;
+
+// ============================================
+// Question Export Service Class
+// ============================================
+
+export class QuestionExportService {
+  /**
+   * Export the instructor's questions matching the list filters
+   * JSON and CSV use the bulk import formats, so exports can be imported again
+   */
+  static async exportQuestions(
+    params: ListQuestionsParams,
+    format: ExportFormat
+  ): Promise<ExportFile> {
+    console.log('📤 Exporting questions for instructor:', params.instructorId, `(${format})`);
+
+    if (!EXPORT_FORMATS.includes(format)) {
+      throw new Error(`Export format must be one of: ${EXPORT_FORMATS.join(', ')}`);
+    }
+
+    const questions = await QuestionService.listQuestionsWithAnswers(params);
+
+    let content: string;
+    switch (format) {
+      case 'json':
+        content = this.toJson(questions);
+        break;
+      case 'csv':
+        content = this.toCsv(questions);
+        break;
+      case 'moodle_xml':
+        content = this.toMoodleXml(questions);
+        break;
+      case 'gift':
+        content = this.toGift(questions);
+        break;
+    }
+
+    const date = new Date().toISOString().slice(0, 10);
+    const details = FILE_DETAILS[format];
+
+    console.log('✅ Exported', questions.length, 'questions');
+    return {
+      filename: `questions-${date}.${details.extension}`,
+      contentType: details.contentType,
+      content,
+      questionCount: questions.length,
+    };
+  }
+
+  /**
+   * JSON in the bulk import schema
+   */
+  private static toJson(questions: Question[]): string {
+    const items = questions.map((question) => {
+      const item: Record<string, unknown> = {
+        questionText: question.questionText,
+        questionType: question.questionType,
+        category: question.category ?? undefined,
+        difficulty: question.difficulty,
+        points: question.points,
+        timeLimitSeconds: question.timeLimitSeconds ?? undefined,
+      };
+
+      if (question.questionType === 'multi_select') {
+        item.scoringMode = question.scoringMode;
+      }
+      if (isChoiceQuestionType(question.questionType)) {
+        item.options = (question.options ?? []).map((opt) => ({
+          optionText: opt.optionText,
+          isCorrect: opt.isCorrect,
+        }));
+      } else if (question.questionType === 'numeric') {
+        item.numericAnswer = question.numericAnswer;
+        item.numericTolerance = question.numericTolerance;
+      } else {
+        item.acceptedAnswers = question.acceptedAnswers;
+      }
+
+      return item;
+    });
+
+    return JSON.stringify({ exportedAt: new Date().toISOString(), questions: items }, null, 2);
+  }
+
+  /**
+   * CSV with the bulk import columns
+   */
+  private static toCsv(questions: Question[]): string {
+    const rows = questions.map((question) => {
+      const options = question.options ?? [];
+      const values: Record<string, string> = {
+        question_text: question.questionText,
+        question_type: question.questionType,
+        category: question.category ?? '',
+        difficulty: question.difficulty,
+        points: String(question.points),
+        time_limit_seconds: question.timeLimitSeconds ? String(question.timeLimitSeconds) : '',
+        scoring_mode: question.questionType === 'multi_select' ? question.scoringMode : '',
+        correct_options: options
+          .map((opt, index) => (opt.isCorrect ? String(index + 1) : null))
+          .filter((value) => value !== null)
+          .join('|'),
+        numeric_answer: question.numericAnswer != null ? String(question.numericAnswer) : '',
+        numeric_tolerance: question.numericTolerance != null ? String(question.numericTolerance) : '',
+        accepted_answers: (question.acceptedAnswers ?? []).join('|'),
+      };
+      options.forEach((opt, index) => {
+        values[`option_${index + 1}`] = opt.optionText;
+      });
+
+      return CSV_IMPORT_COLUMNS.map((column) => values[column] ?? '');
+    });
+
+    return formatCsv([CSV_IMPORT_COLUMNS, ...rows]);
+  }
+
+  /**
+   * Moodle XML, grouped into categories
+   * Multi-select answers give each correct option an equal share and each wrong option
+   * the same share as a penalty; Moodle has no exact all-or-nothing equivalent
+   */
+  private static toMoodleXml(questions: Question[]): string {
+    const lines: string[] = ['<?xml version="1.0" encoding="UTF-8"?>', '<quiz>'];
+    let currentCategory: string | null | undefined;
+
+    for (const question of questions) {
+      if (question.category !== currentCategory) {
+        currentCategory = question.category;
+        lines.push(
+          '  <question type="category">',
+          `    <category><text>${this.escapeXml(`$course$/top/${question.category ?? 'Default'}`)}</text></category>`,
+          '  </question>'
+        );
+      }
+
+      const type = this.moodleType(question);
+      lines.push(
+        `  <question type="${type}">`,
+        `    <name><text>${this.escapeXml(this.questionName(question))}</text></name>`,
+        `    <questiontext format="plain_text"><text>${this.escapeXml(question.questionText)}</text></questiontext>`,
+        `    <defaultgrade>${question.points}</defaultgrade>`
+      );
+
+      if (type === 'multichoice') {
+        const options = question.options ?? [];
+        const correctCount = options.filter((opt) => opt.isCorrect).length || 1;
+        const multiple = question.questionType === 'multi_select';
+        lines.push(
+          `    <single>${multiple ? 'false' : 'true'}</single>`,
+          '    <shuffleanswers>true</shuffleanswers>',
+          '    <answernumbering>abc</answernumbering>'
+        );
+        for (const opt of options) {
+          const fraction = opt.isCorrect
+            ? (multiple ? 100 / correctCount : 100)
+            : (multiple ? -100 / correctCount : 0);
+          lines.push(
+            `    <answer fraction="${this.formatFraction(fraction)}" format="plain_text">`,
+            `      <text>${this.escapeXml(opt.optionText)}</text>`,
+            '    </answer>'
+          );
+        }
+      } else if (type === 'truefalse') {
+        const correct = (question.options ?? []).find((opt) => opt.isCorrect);
+        const answerIsTrue = correct?.optionText.trim().toLowerCase() !== 'false';
+        lines.push(
+          `    <answer fraction="${answerIsTrue ? 100 : 0}"><text>true</text></answer>`,
+          `    <answer fraction="${answerIsTrue ? 0 : 100}"><text>false</text></answer>`
+        );
+      } else if (type === 'numerical') {
+        lines.push(
+          '    <answer fraction="100">',
+          `      <text>${question.numericAnswer ?? ''}</text>`,
+          `      <tolerance>${question.numericTolerance ?? 0}</tolerance>`,
+          '    </answer>'
+        );
+      } else {
+        lines.push('    <usecase>0</usecase>');
+        for (const answer of question.acceptedAnswers ?? []) {
+          lines.push(`    <answer fraction="100"><text>${this.escapeXml(answer)}</text></answer>`);
+        }
+      }
+
+      lines.push('  </question>');
+    }
+
+    lines.push('</quiz>');
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * GIFT text, grouped by $CATEGORY lines
+   * Points, difficulty and time limits have no GIFT equivalent and are not exported
+   */
+  private static toGift(questions: Question[]): string {
+    const blocks: string[] = [];
+    let currentCategory: string | null | undefined;
+
+    for (const question of questions) {
+      if (question.category !== currentCategory) {
+        currentCategory = question.category;
+        blocks.push(`$CATEGORY: $course$/top/${question.category ?? 'Default'}`);
+      }
+
+      const title = `::${this.escapeGift(this.questionName(question))}::`;
+      const text = this.escapeGift(question.questionText);
+      let answer: string;
+
+      if (question.questionType === 'true_false') {
+        const correct = (question.options ?? []).find((opt) => opt.isCorrect);
+        answer = correct?.optionText.trim().toLowerCase() === 'false' ? '{F}' : '{T}';
+      } else if (question.questionType === 'numeric') {
+        answer = `{#${question.numericAnswer ?? ''}:${question.numericTolerance ?? 0}}`;
+      } else if (question.questionType === 'short_text') {
+        answer = `{${(question.acceptedAnswers ?? []).map((a) => `=${this.escapeGift(a)}`).join(' ')}}`;
+      } else if (question.questionType === 'multi_select') {
+        const options = question.options ?? [];
+        const share = 100 / (options.filter((opt) => opt.isCorrect).length || 1);
+        const choices = options.map(
+          (opt) =>
+            `~%${this.formatFraction(opt.isCorrect ? share : -share)}%${this.escapeGift(opt.optionText)}`
+        );
+        answer = `{\n${choices.map((choice) => `  ${choice}`).join('\n')}\n}`;
+      } else {
+        const choices = (question.options ?? []).map(
+          (opt) => `${opt.isCorrect ? '=' : '~'}${this.escapeGift(opt.optionText)}`
+        );
+        answer = `{\n${choices.map((choice) => `  ${choice}`).join('\n')}\n}`;
+      }
+
+      blocks.push(`${title} ${text} ${answer}`);
+    }
+
+    return blocks.join('\n\n') + '\n';
+  }
+
+  /**
+   * Moodle question type for a QuizMaker question type
+   */
+  private static moodleType(question: Question): string {
+    switch (question.questionType) {
+      case 'true_false':
+        return 'truefalse';
+      case 'numeric':
+        return 'numerical';
+      case 'short_text':
+        return 'shortanswer';
+      default:
+        return 'multichoice';
+    }
+  }
+
+  /**
+   * Short question name derived from the question text
+   */
+  private static questionName(question: Question): string {
+    const text = question.questionText.replace(/\s+/g, ' ').trim();
+    return text.length > MOODLE_NAME_LENGTH ? `${text.slice(0, MOODLE_NAME_LENGTH - 3)}...` : text;
+  }
+
+  /**
+   * Format a grade fraction the way Moodle writes them (e.g. 33.33333)
+   */
+  private static formatFraction(value: number): string {
+    return String(Math.round(value * 100000) / 100000);
+  }
+
+  /**
+   * Escape text for XML element content and attributes
+   */
+  private static escapeXml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&apos;');
+  }
+
+  /**
+   * Escape GIFT control characters with a backslash
+   */
+  private static escapeGift(text: string): string {
+    return text.replace(/([~=#{}:\\])/g, '\\$1').replace(/\r?\n/g, '\\n');
+  }
+}
@@ -0,0 +1,258 @@
+/**
+ * Question Import Service Unit Tests
+ *
+ * Tests CSV/JSON/GIFT/Moodle XML parsing, per-row validation reporting, dry runs and
+ * batched inserts.
+ *
+ * @fileoverview Unit tests for src/lib/services/question-import-service.ts
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { QuestionImportService } from './question-import-service';
+
+// ============================================
+// Mock Setup for D1 Client
+// ============================================
+
+vi.mock('@/lib/d1-client', () => ({
+  executeQuery: vi.fn(),
+  executeQueryFirst: vi.fn(),
+  executeMutation: vi.fn(),
+  executeBatch: vi.fn(),
+  generateId: vi.fn(() => 'mock-uuid-12345'),
+  toBoolean: vi.fn((value: unknown) => value === 1 || value === true),
+  fromBoolean: vi.fn((value: boolean) => (value ? 1 : 0)),
+}));
+
+import { executeBatch } from '@/lib/d1-client';
+
+// ============================================
+// Test Fixtures
+// ============================================
+
+const INSTRUCTOR_ID = 'instructor-456';
+
+const CSV_HEADER =
+  'question_text,question_type,category,difficulty,points,option_1,option_2,option_3,option_4,correct_options,accepted_answers';
+
+const VALID_CSV = [
+  CSV_HEADER,
+  'What is the capital of France?,single_choice,Geography,easy,1,London,Paris,Berlin,Madrid,2,',
+  '"Which of these are prime numbers, if any?",multi_select,Math,medium,2,2,4,5,9,1|3,',
+  'Name the largest ocean on Earth.,short_text,Geography,medium,1,,,,,,Pacific|Pacific Ocean',
+].join('\n');
+
+const GIFT_CONTENT = `// Exported from Moodle
+$CATEGORY: $course$/top/Geography
+
+::Capital:: What is the capital of France? {
+  ~London
+  =Paris
+  ~Berlin
+  ~Madrid
+}
+
+::Primes:: Which of these are prime numbers? {~%50%2 ~%-50%4 ~%50%5 ~%-50%9}
+
+$CATEGORY: $course$/top/Science
+
+The Earth orbits the Sun. {T#Correct!}
+
+Water boils at what temperature in Celsius? {#99..101}
+
+Write a short essay about the water cycle. {}
+
+Name the largest ocean \\{on Earth\\}. {=Pacific =Pacific Ocean =%50%Atlantic}`;
+
+const MOODLE_XML_CONTENT = `<?xml version="1.0" encoding="UTF-8"?>
+<quiz>
+  <question type="category">
+    <category><text>$course$/top/Science/Physics</text></category>
+  </question>
+  <question type="multichoice">
+    <name><text>Light</text></name>
+    <questiontext format="html"><text><![CDATA[<p>Which of these travel at the speed of light &amp; in a vacuum?</p>]]></text></questiontext>
+    <defaultgrade>2.0000000</defaultgrade>
+    <single>false</single>
+    <answer fraction="50"><text>Radio waves</text></answer>
+    <answer fraction="-50"><text>Sound</text></answer>
+    <answer fraction="50"><text>X-rays</text><feedback><text>Yes</text></feedback></answer>
+    <answer fraction="-50"><text>Neutrinos</text></answer>
+  </question>
+  <question type="essay">
+    <questiontext format="html"><text>Explain relativity.</text></questiontext>
+  </question>
+  <question type="shortanswer">
+    <questiontext format="plain_text"><text>What is the SI unit of force?</text></questiontext>
+    <usecase>1</usecase>
+    <answer fraction="100"><text>Newton</text></answer>
+    <answer fraction="100"><text>N</text></answer>
+  </question>
+</quiz>`;
+
+// ============================================
+// Test Suite
+// ============================================
+
+describe('QuestionImportService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('importQuestions', () => {
+    it('should insert every CSV row in a single batch', async () => {
+      vi.mocked(executeBatch).mockResolvedValue([]);
+
+      const result = await QuestionImportService.importQuestions(INSTRUCTOR_ID, {
+        format: 'csv',
+        content: VALID_CSV,
+      });
+
+      expect(result.errors).toEqual([]);
+      expect(result.importedCount).toBe(3);
+      expect(executeBatch).toHaveBeenCalledTimes(1);
+
+      // 3 questions + 4 options + 4 options + 2 accepted answers + 3 first versions (2 statements each)
+      const statements = vi.mocked(executeBatch).mock.calls[0][0];
+      expect(statements).toHaveLength(19);
+      expect(statements[0].params).toContain('What is the capital of France?');
+    });
+
+    it('should validate without writing in dry-run mode', async () => {
+      const result = await QuestionImportService.importQuestions(INSTRUCTOR_ID, {
+        format: 'csv',
+        content: VALID_CSV,
+        dryRun: true,
+      });
+
+      expect(result.dryRun).toBe(true);
+      expect(result.validRows).toBe(3);
+      expect(result.importedCount).toBe(0);
+      expect(executeBatch).not.toHaveBeenCalled();
+    });
+
+    it('should report errors per row and import nothing', async () => {
+      const content = [
+        CSV_HEADER,
+        'What is the capital of France?,single_choice,Geography,easy,1,London,Paris,Berlin,Madrid,2,',
+        'Too short,single_choice,Geography,easy,1,A,B,C,D,1,',
+        'Which city is in Italy?,single_choice,Geography,easy,1,Rome,Milan,Paris,Oslo,1|2,',
+      ].join('\n');
+
+      const result = await QuestionImportService.importQuestions(INSTRUCTOR_ID, {
+        format: 'csv',
+        content,
+      });
+
+      expect(result.errors).toEqual([
+        { row: 3, message: 'Question text must be at least 10 characters' },
+        { row: 4, message: 'Question must have exactly one correct answer' },
+      ]);
+      expect(result.importedCount).toBe(0);
+      expect(executeBatch).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown CSV columns', async () => {
+      await expect(
+        QuestionImportService.importQuestions(INSTRUCTOR_ID, {
+          format: 'csv',
+          content: 'question_text,answer\nWhat is two plus two?,4',
+        })
+      ).rejects.toThrow('Unknown CSV column(s): answer');
+    });
+
+    it('should import questions from the documented JSON schema', async () => {
+      vi.mocked(executeBatch).mockResolvedValue([]);
+
+      const content = JSON.stringify({
+        questions: [
+          {
+            questionText: 'What is the boiling point of water in Celsius?',
+            questionType: 'numeric',
+            difficulty: 'easy',
+            numericAnswer: 100,
+            numericTolerance: 0.5,
+          },
+          { questionText: 42 },
+        ],
+      });
+
+      const result = await QuestionImportService.importQuestions(INSTRUCTOR_ID, {
+        format: 'json',
+        content,
+        dryRun: true,
+      });
+
+      expect(result.validRows).toBe(1);
+      expect(result.errors).toEqual([{ row: 2, message: '"questionText" must be a string' }]);
+    });
+
+    it('should map GIFT questions and report unsupported constructs', async () => {
+      vi.mocked(executeBatch).mockResolvedValue([]);
+
+      const result = await QuestionImportService.importQuestions(INSTRUCTOR_ID, {
+        format: 'gift',
+        content: GIFT_CONTENT,
+      });
+
+      expect(result.errors).toEqual([]);
+      expect(result.validRows).toBe(5);
+      expect(result.skippedRows).toBe(1);
+      expect(result.warnings).toEqual([
+        { row: 15, message: 'Feedback is not imported' },
+        { row: 19, message: 'Essay questions are not supported; skipped' },
+        {
+          row: 21,
+          message: '1 partial-credit answer(s) dropped; short-text answers are all-or-nothing',
+        },
+      ]);
+
+      const inserts = vi
+        .mocked(executeBatch)
+        .mock.calls[0][0].filter((statement) => statement.sql.includes('INSERT INTO questions'));
+      expect(inserts.map((statement) => statement.params.slice(2, 6))).toEqual([
+        ['single_choice', 'all_or_nothing', 'What is the capital of France?', 'Geography'],
+        ['multi_select', 'partial', 'Which of these are prime numbers?', 'Geography'],
+        ['true_false', 'all_or_nothing', 'The Earth orbits the Sun.', 'Science'],
+        ['numeric', 'all_or_nothing', 'Water boils at what temperature in Celsius?', 'Science'],
+        ['short_text', 'all_or_nothing', 'Name the largest ocean {on Earth}.', 'Science'],
+      ]);
+      expect(inserts[3].params).toContain(100);
+    });
+
+    it('should map Moodle XML questions and skip unsupported types', async () => {
+      const result = await QuestionImportService.importQuestions(INSTRUCTOR_ID, {
+        format: 'moodle_xml',
+        content: MOODLE_XML_CONTENT,
+        dryRun: true,
+      });
+
+      expect(result.errors).toEqual([]);
+      expect(result.totalRows).toBe(3);
+      expect(result.validRows).toBe(2);
+      expect(result.skippedRows).toBe(1);
+      expect(result.warnings).toEqual([
+        { row: 1, message: 'Feedback is not imported' },
+        { row: 2, message: 'Moodle question type "essay" is not supported; skipped' },
+        {
+          row: 3,
+          message: 'Case-sensitive matching is not supported; answers are matched ignoring case',
+        },
+      ]);
+    });
+
+    it('should reject Moodle XML without a quiz root', async () => {
+      await expect(
+        QuestionImportService.importQuestions(INSTRUCTOR_ID, {
+          format: 'moodle_xml',
+          content: '<questions><question type="essay"/></questions>',
+        })
+      ).rejects.toThrow('Moodle XML must have a <quiz> root element');
+    });
+  });
+});
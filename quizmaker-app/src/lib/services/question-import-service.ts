@@ -0,0 +1,838 @@
+/**
+ * Question Import Service
+ * Bulk-creates questions from CSV, JSON, GIFT or Moodle XML files (instructor functionality)
+ */
+
+import { executeBatch, generateId } from '@/lib/d1-client';
+import { parseCsv } from '@/lib/csv';
+import { parseGift, splitGiftAnswers, indexOfUnescaped, GiftQuestion } from '@/lib/gift';
+import { parseXml, childElement, childElements, textContent, decodeXmlEntities, XmlElement } from '@/lib/xml';
+import { QuestionService, CreateQuestionInput } from '@/lib/services/question-service';
+import { QuestionType, ScoringMode } from '@/lib/question-types';
+
+// ============================================
+// Types & Interfaces
+// ============================================
+
+export type ImportFormat = 'csv' | 'json' | 'gift' | 'moodle_xml';
+
+export interface ImportQuestionsInput {
+  format: ImportFormat;
+  content: string;
+  // Validate every row and report errors without writing anything
+  dryRun?: boolean;
+}
+
+export interface ImportRowError {
+  row: number;
+  message: string;
+}
+
+export interface ImportResult {
+  dryRun: boolean;
+  totalRows: number;
+  validRows: number;
+  // Questions of a type QuizMaker cannot represent (e.g. Moodle essay or matching)
+  skippedRows: number;
+  importedCount: number;
+  questionIds: string[];
+  errors: ImportRowError[];
+  // Unsupported constructs that were skipped or simplified; they do not block the import
+  warnings: ImportRowError[];
+}
+
+interface ParsedRow {
+  row: number;
+  input?: CreateQuestionInput;
+  error?: string;
+  skipped?: boolean;
+  warnings?: string[];
+}
+
+// ============================================
+// Constants
+// ============================================
+
+export const IMPORT_FORMATS: ImportFormat[] = ['csv', 'json', 'gift', 'moodle_xml'];
+
+export const MAX_IMPORT_ROWS = 500;
+export const MAX_IMPORT_CONTENT_LENGTH = 2 * 1024 * 1024;
+
+/** Columns understood in CSV files; only question_text is required in the header */
+export const CSV_IMPORT_COLUMNS = [
+  'question_text',
+  'question_type',
+  'category',
+  'difficulty',
+  'points',
+  'time_limit_seconds',
+  'scoring_mode',
+  'option_1',
+  'option_2',
+  'option_3',
+  'option_4',
+  'option_5',
+  'option_6',
+  'correct_options',
+  'numeric_answer',
+  'numeric_tolerance',
+  'accepted_answers',
+];
+
+// Separator for multiple values inside one CSV cell (correct_options, accepted_answers)
+const CSV_LIST_SEPARATOR = '|';
+
+// GIFT and Moodle XML have no difficulty; imported questions start at this level
+const MOODLE_DEFAULT_DIFFICULTY = 'medium';
+
+// Moodle question types that map onto QuizMaker types; every other type is skipped
+const MOODLE_IMPORT_TYPES = ['multichoice', 'truefalse', 'numerical', 'shortanswer'];
+
+// Moodle elements holding feedback, which QuizMaker does not store
+const MOODLE_FEEDBACK_ELEMENTS = [
+  'generalfeedback',
+  'correctfeedback',
+  'partiallycorrectfeedback',
+  'incorrectfeedback',
+  'hint',
+];
+
+// ============================================
+// Question Import Service Class
+// ============================================
+
+export class QuestionImportService {
+  /**
+   * Validate and import a question bank file
+   * Rows are checked with the same rules as QuestionService.createQuestion. Nothing is
+   * written unless every row is valid, and all rows are then inserted in one batch.
+   * GIFT and Moodle XML questions of unsupported types are skipped and reported as warnings
+   */
+  static async importQuestions(
+    instructorId: string,
+    input: ImportQuestionsInput
+  ): Promise<ImportResult> {
+    console.log('📥 Importing questions for instructor:', instructorId, `(${input.format})`);
+
+    if (!IMPORT_FORMATS.includes(input.format)) {
+      throw new Error(`Import format must be one of: ${IMPORT_FORMATS.join(', ')}`);
+    }
+    if (typeof input.content !== 'string' || input.content.trim() === '') {
+      throw new Error('Import file is empty');
+    }
+    if (input.content.length > MAX_IMPORT_CONTENT_LENGTH) {
+      throw new Error('Import file must not exceed 2 MB');
+    }
+
+    let rows: ParsedRow[];
+    switch (input.format) {
+      case 'csv':
+        rows = this.parseCsvRows(input.content);
+        break;
+      case 'json':
+        rows = this.parseJsonRows(input.content);
+        break;
+      case 'gift':
+        rows = this.parseGiftRows(input.content);
+        break;
+      case 'moodle_xml':
+        rows = this.parseMoodleXmlRows(input.content);
+        break;
+    }
+
+    if (rows.length === 0) {
+      throw new Error('Import file contains no questions');
+    }
+    if (rows.length > MAX_IMPORT_ROWS) {
+      throw new Error(`Import file must not contain more than ${MAX_IMPORT_ROWS} questions`);
+    }
+
+    // Validate every row with the createQuestion rules
+    const errors: ImportRowError[] = [];
+    const warnings: ImportRowError[] = [];
+    const validInputs: CreateQuestionInput[] = [];
+    let skippedRows = 0;
+    for (const parsed of rows) {
+      for (const message of new Set(parsed.warnings ?? [])) {
+        warnings.push({ row: parsed.row, message });
+      }
+      if (parsed.skipped) {
+        skippedRows++;
+        continue;
+      }
+      if (parsed.error || !parsed.input) {
+        errors.push({ row: parsed.row, message: parsed.error ?? 'Invalid row' });
+        continue;
+      }
+
+      try {
+        QuestionService.validateCreateInput(parsed.input);
+        validInputs.push(parsed.input);
+      } catch (error) {
+        errors.push({
+          row: parsed.row,
+          message: error instanceof Error ? error.message : 'Invalid question',
+        });
+      }
+    }
+
+    const result: ImportResult = {
+      dryRun: input.dryRun === true,
+      totalRows: rows.length,
+      validRows: validInputs.length,
+      skippedRows,
+      importedCount: 0,
+      questionIds: [],
+      errors,
+      warnings,
+    };
+
+    if (result.dryRun || errors.length > 0 || validInputs.length === 0) {
+      console.log('✓ Import validated:', validInputs.length, 'valid,', errors.length, 'invalid');
+      return result;
+    }
+
+    // Insert every question and its answers in one batch
+    const now = new Date().toISOString();
+    const statements: Array<{ sql: string; params: unknown[] }> = [];
+    for (const questionInput of validInputs) {
+      const questionId = generateId();
+      statements.push(
+        ...QuestionService.buildCreateStatements(questionId, instructorId, questionInput, now)
+      );
+      result.questionIds.push(questionId);
+    }
+
+    await executeBatch(statements);
+    result.importedCount = result.questionIds.length;
+
+    console.log('✅ Questions imported:', result.importedCount);
+    return result;
+  }
+
+  /**
+   * Parse a CSV file with a header row into question inputs
+   * Row numbers match spreadsheet rows, so the first question is row 2
+   */
+  private static parseCsvRows(content: string): ParsedRow[] {
+    const records = parseCsv(content);
+    if (records.length === 0) {
+      return [];
+    }
+
+    const header = records[0].map((column) => column.trim().toLowerCase());
+    const unknown = header.filter((column) => column && !CSV_IMPORT_COLUMNS.includes(column));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown CSV column(s): ${unknown.join(', ')}`);
+    }
+    if (!header.includes('question_text')) {
+      throw new Error('CSV header must include a question_text column');
+    }
+
+    return records.slice(1).map((record, index) => {
+      const row = index + 2;
+      const cell = (column: string) => {
+        const position = header.indexOf(column);
+        return position >= 0 ? (record[position] ?? '').trim() : '';
+      };
+
+      try {
+        return { row, input: this.mapCsvRecord(cell) };
+      } catch (error) {
+        return { row, error: error instanceof Error ? error.message : 'Invalid row' };
+      }
+    });
+  }
+
+  /**
+   * Map one CSV record onto CreateQuestionInput
+   */
+  private static mapCsvRecord(cell: (column: string) => string): CreateQuestionInput {
+    const questionType = (cell('question_type').toLowerCase() || 'single_choice') as QuestionType;
+    const input: CreateQuestionInput = {
+      questionType,
+      questionText: cell('question_text'),
+      category: cell('category') || undefined,
+      difficulty: cell('difficulty').toLowerCase() as CreateQuestionInput['difficulty'],
+      points: this.parseInteger(cell('points'), 'points'),
+      timeLimitSeconds: this.parseInteger(cell('time_limit_seconds'), 'time_limit_seconds') ?? null,
+    };
+
+    if (cell('scoring_mode')) {
+      input.scoringMode = cell('scoring_mode').toLowerCase() as ScoringMode;
+    }
+
+    if (questionType === 'numeric') {
+      input.numericAnswer = this.parseNumber(cell('numeric_answer'), 'numeric_answer');
+      input.numericTolerance = this.parseNumber(cell('numeric_tolerance'), 'numeric_tolerance');
+      return input;
+    }
+
+    if (questionType === 'short_text') {
+      input.acceptedAnswers = this.splitList(cell('accepted_answers'));
+      return input;
+    }
+
+    // Choice questions: options in order, correct_options lists their numbers (1-based)
+    let optionTexts = [1, 2, 3, 4, 5, 6]
+      .map((n) => cell(`option_${n}`))
+      .filter((text) => text !== '');
+    let correct = this.splitList(cell('correct_options')).map((value) => value.toLowerCase());
+
+    if (questionType === 'true_false' && optionTexts.length === 0) {
+      optionTexts = ['True', 'False'];
+      correct = correct.map((value) => (value === 'true' ? '1' : value === 'false' ? '2' : value));
+    }
+
+    const correctNumbers = correct.map((value) => {
+      const n = Number(value);
+      if (!Number.isInteger(n) || n < 1 || n > optionTexts.length) {
+        throw new Error(`correct_options must list option numbers between 1 and ${optionTexts.length}`);
+      }
+      return n;
+    });
+
+    input.options = optionTexts.map((optionText, index) => ({
+      optionText,
+      isCorrect: correctNumbers.includes(index + 1),
+    }));
+    return input;
+  }
+
+  /**
+   * Parse a JSON file: either an array of questions or { "questions": [...] }
+   * Row numbers are 1-based positions in the questions array
+   */
+  private static parseJsonRows(content: string): ParsedRow[] {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content);
+    } catch {
+      throw new Error('Import file is not valid JSON');
+    }
+
+    const items = Array.isArray(parsed)
+      ? parsed
+      : parsed && typeof parsed === 'object' && Array.isArray((parsed as { questions?: unknown }).questions)
+        ? (parsed as { questions: unknown[] }).questions
+        : null;
+
+    if (!items) {
+      throw new Error('JSON must be an array of questions or an object with a "questions" array');
+    }
+
+    return items.map((item, index) => {
+      const row = index + 1;
+      try {
+        return { row, input: this.mapJsonItem(item) };
+      } catch (error) {
+        return { row, error: error instanceof Error ? error.message : 'Invalid question' };
+      }
+    });
+  }
+
+  /**
+   * Check the shape of one JSON question; the values are validated by QuestionService
+   */
+  private static mapJsonItem(item: unknown): CreateQuestionInput {
+    if (!item || typeof item !== 'object' || Array.isArray(item)) {
+      throw new Error('Each question must be an object');
+    }
+
+    const value = item as Record<string, unknown>;
+    const optionalString = (key: string) => {
+      if (value[key] === undefined || value[key] === null) return undefined;
+      if (typeof value[key] !== 'string') throw new Error(`"${key}" must be a string`);
+      return value[key] as string;
+    };
+    const optionalNumber = (key: string) => {
+      if (value[key] === undefined || value[key] === null) return undefined;
+      if (typeof value[key] !== 'number') throw new Error(`"${key}" must be a number`);
+      return value[key] as number;
+    };
+
+    if (typeof value.questionText !== 'string') {
+      throw new Error('"questionText" must be a string');
+    }
+
+    const input: CreateQuestionInput = {
+      questionType: optionalString('questionType') as QuestionType | undefined,
+      scoringMode: optionalString('scoringMode') as ScoringMode | undefined,
+      questionText: value.questionText,
+      category: optionalString('category'),
+      difficulty: optionalString('difficulty') as CreateQuestionInput['difficulty'],
+      points: optionalNumber('points'),
+      timeLimitSeconds: optionalNumber('timeLimitSeconds') ?? null,
+      numericAnswer: optionalNumber('numericAnswer'),
+      numericTolerance: optionalNumber('numericTolerance'),
+    };
+
+    if (value.options !== undefined) {
+      if (
+        !Array.isArray(value.options) ||
+        !value.options.every(
+          (opt) =>
+            opt &&
+            typeof opt === 'object' &&
+            typeof (opt as Record<string, unknown>).optionText === 'string' &&
+            typeof (opt as Record<string, unknown>).isCorrect === 'boolean'
+        )
+      ) {
+        throw new Error('"options" must be an array of { "optionText": string, "isCorrect": boolean }');
+      }
+      input.options = value.options as CreateQuestionInput['options'];
+    }
+
+    if (value.acceptedAnswers !== undefined) {
+      if (
+        !Array.isArray(value.acceptedAnswers) ||
+        !value.acceptedAnswers.every((answer) => typeof answer === 'string')
+      ) {
+        throw new Error('"acceptedAnswers" must be an array of strings');
+      }
+      input.acceptedAnswers = value.acceptedAnswers as string[];
+    }
+
+    return input;
+  }
+
+  /**
+   * Parse a GIFT file; row numbers are the lines on which questions start
+   */
+  private static parseGiftRows(content: string): ParsedRow[] {
+    return parseGift(content).map((question) => {
+      const row = question.line;
+      if (question.error) {
+        return { row, error: question.error };
+      }
+
+      const warnings: string[] = [];
+      try {
+        const input = this.mapGiftQuestion(question, warnings);
+        return input ? { row, input, warnings } : { row, skipped: true, warnings };
+      } catch (error) {
+        return { row, error: error instanceof Error ? error.message : 'Invalid question', warnings };
+      }
+    });
+  }
+
+  /**
+   * Map one GIFT question onto CreateQuestionInput, or return null to skip it
+   * Supported: multiple choice (= / ~, %weights% make it multi-select), true/false,
+   * short answer (= only), numeric (#value:tolerance, #min..max) and missing word.
+   * GIFT has no points, difficulty or time limits, so the defaults apply
+   */
+  private static mapGiftQuestion(
+    question: GiftQuestion,
+    warnings: string[]
+  ): CreateQuestionInput | null {
+    let questionText = question.format === 'html'
+      ? this.htmlToText(question.text, warnings)
+      : question.text;
+
+    if (question.answer === null) {
+      warnings.push('Description items (no answer block) are not supported; skipped');
+      return null;
+    }
+
+    let body = question.answer;
+    const generalFeedback = indexOfUnescaped(body, '####');
+    if (generalFeedback !== -1) {
+      body = body.slice(0, generalFeedback).trim();
+      warnings.push('Feedback is not imported');
+    }
+
+    if (body === '') {
+      warnings.push('Essay questions are not supported; skipped');
+      return null;
+    }
+    if (indexOfUnescaped(body, '->') !== -1) {
+      warnings.push('Matching questions are not supported; skipped');
+      return null;
+    }
+
+    if (question.textAfter) {
+      questionText = `${questionText} _____ ${question.textAfter}`;
+      warnings.push('Missing-word question imported with the blank shown as _____');
+    }
+
+    const input: CreateQuestionInput = {
+      questionText,
+      category: this.moodleCategory(question.category),
+      difficulty: MOODLE_DEFAULT_DIFFICULTY,
+    };
+
+    const trueFalse = body.match(/^(true|false|t|f)\s*(#.*)?$/is);
+    if (trueFalse) {
+      if (trueFalse[2]) {
+        warnings.push('Feedback is not imported');
+      }
+      const answerIsTrue = trueFalse[1][0].toLowerCase() === 't';
+      input.questionType = 'true_false';
+      input.options = [
+        { optionText: 'True', isCorrect: answerIsTrue },
+        { optionText: 'False', isCorrect: !answerIsTrue },
+      ];
+      return input;
+    }
+
+    if (body.startsWith('#')) {
+      // A single answer may omit the leading =
+      const spec = body.slice(1).trim();
+      const answers = splitGiftAnswers(indexOfUnescaped(spec, '=') === -1 ? `=${spec}` : spec);
+      if (answers.some((answer) => answer.feedback)) {
+        warnings.push('Feedback is not imported');
+      }
+
+      const full = answers.filter((answer) => answer.weight === null || answer.weight === 100);
+      if (full.length === 0) {
+        throw new Error('Numeric question must have a fully correct answer');
+      }
+      if (answers.length > 1) {
+        warnings.push(`Only one fully correct numeric answer is imported; ${answers.length - 1} other answer(s) dropped`);
+      }
+
+      const { answer, tolerance } = this.parseGiftNumeric(full[0].text);
+      input.questionType = 'numeric';
+      input.numericAnswer = answer;
+      input.numericTolerance = tolerance;
+      return input;
+    }
+
+    const answers = splitGiftAnswers(body);
+    if (answers.length === 0) {
+      throw new Error('Answer block has no answers');
+    }
+    if (answers.some((answer) => answer.feedback)) {
+      warnings.push('Feedback is not imported');
+    }
+
+    // Only = answers: short answer
+    if (answers.every((answer) => answer.prefix === '=')) {
+      const accepted = answers.filter((answer) => answer.weight === null || answer.weight === 100);
+      if (accepted.length < answers.length) {
+        warnings.push(`${answers.length - accepted.length} partial-credit answer(s) dropped; short-text answers are all-or-nothing`);
+      }
+      input.questionType = 'short_text';
+      input.acceptedAnswers = accepted.map((answer) => answer.text);
+      return input;
+    }
+
+    // One = answer: single choice; otherwise the positive weights mark the correct options
+    const rightAnswers = answers.filter((answer) => answer.prefix === '=');
+    if (rightAnswers.length === 1) {
+      if (answers.some((answer) => answer.prefix === '~' && (answer.weight ?? 0) > 0)) {
+        warnings.push('Partial-credit answers are not supported for single-answer questions; only the = answer is correct');
+      }
+      input.questionType = 'single_choice';
+      input.options = answers.map((answer) => ({
+        optionText: answer.text,
+        isCorrect: answer.prefix === '=',
+      }));
+      return input;
+    }
+
+    const isCorrect = (answer: { prefix: string; weight: number | null }) =>
+      answer.prefix === '=' || (answer.weight ?? 0) > 0;
+    const weights = new Set(answers.filter(isCorrect).map((answer) => answer.weight));
+    if (weights.size > 1) {
+      warnings.push('Answer weights are not imported; partial credit follows QuizMaker scoring');
+    }
+
+    input.questionType = 'multi_select';
+    input.scoringMode = answers.some((answer) => answer.weight !== null) ? 'partial' : 'all_or_nothing';
+    input.options = answers.map((answer) => ({
+      optionText: answer.text,
+      isCorrect: isCorrect(answer),
+    }));
+    return input;
+  }
+
+  /**
+   * Parse a GIFT numeric answer: value, value:tolerance or min..max
+   */
+  private static parseGiftNumeric(text: string): { answer: number; tolerance: number } {
+    const toNumber = (value: string) => {
+      const n = Number(value.trim());
+      if (value.trim() === '' || !Number.isFinite(n)) {
+        throw new Error(`Numeric answer "${text}" is not a number`);
+      }
+      return n;
+    };
+
+    if (text.includes('..')) {
+      const [min, max] = text.split('..').map(toNumber);
+      return { answer: (min + max) / 2, tolerance: Math.abs(max - min) / 2 };
+    }
+
+    const [answer, tolerance] = text.split(':');
+    return { answer: toNumber(answer), tolerance: tolerance === undefined ? 0 : toNumber(tolerance) };
+  }
+
+  /**
+   * Parse a Moodle XML file; row numbers count questions, not category entries
+   */
+  private static parseMoodleXmlRows(content: string): ParsedRow[] {
+    let root: XmlElement;
+    try {
+      root = parseXml(content);
+    } catch (error) {
+      throw new Error(`Import file is not valid XML: ${error instanceof Error ? error.message : 'parse error'}`);
+    }
+    if (root.name !== 'quiz') {
+      throw new Error('Moodle XML must have a <quiz> root element');
+    }
+
+    const rows: ParsedRow[] = [];
+    let category: string | undefined;
+
+    for (const element of childElements(root, 'question')) {
+      const type = element.attributes.type ?? '';
+      if (type === 'category') {
+        category = this.moodleCategory(textContent(childElement(element, 'category')).trim());
+        continue;
+      }
+
+      const row = rows.length + 1;
+      const warnings: string[] = [];
+      try {
+        const input = this.mapMoodleQuestion(type, element, category, warnings);
+        rows.push(input ? { row, input, warnings } : { row, skipped: true, warnings });
+      } catch (error) {
+        rows.push({ row, error: error instanceof Error ? error.message : 'Invalid question', warnings });
+      }
+    }
+
+    return rows;
+  }
+
+  /**
+   * Map one Moodle <question> onto CreateQuestionInput, or return null to skip it
+   * defaultgrade becomes points; names, tags and penalties are not imported
+   */
+  private static mapMoodleQuestion(
+    type: string,
+    element: XmlElement,
+    category: string | undefined,
+    warnings: string[]
+  ): CreateQuestionInput | null {
+    if (!MOODLE_IMPORT_TYPES.includes(type)) {
+      warnings.push(`Moodle question type "${type}" is not supported; skipped`);
+      return null;
+    }
+
+    const input: CreateQuestionInput = {
+      questionText: this.moodleText(childElement(element, 'questiontext'), warnings),
+      category,
+      difficulty: MOODLE_DEFAULT_DIFFICULTY,
+      points: this.moodleGrade(element, warnings),
+    };
+
+    const answers = childElements(element, 'answer').map((answer) => ({
+      element: answer,
+      fraction: Number(answer.attributes.fraction ?? 0),
+      text: this.moodleText(answer, warnings),
+    }));
+
+    const hasFeedback = [
+      ...MOODLE_FEEDBACK_ELEMENTS.flatMap((name) => childElements(element, name)),
+      ...answers.flatMap((answer) => childElements(answer.element, 'feedback')),
+    ].some((feedback) => textContent(childElement(feedback, 'text')).trim() !== '');
+    if (hasFeedback) {
+      warnings.push('Feedback is not imported');
+    }
+
+    if (type === 'truefalse') {
+      const answerIsTrue = answers.find((answer) => answer.text.toLowerCase() === 'true')?.fraction === 100;
+      input.questionType = 'true_false';
+      input.options = [
+        { optionText: 'True', isCorrect: answerIsTrue },
+        { optionText: 'False', isCorrect: !answerIsTrue },
+      ];
+      return input;
+    }
+
+    if (type === 'numerical') {
+      const full = answers.filter((answer) => answer.fraction === 100 && answer.text !== '*');
+      if (full.length === 0) {
+        throw new Error('Numeric question must have a 100% answer');
+      }
+      if (answers.length > 1) {
+        warnings.push(`Only one 100% numeric answer is imported; ${answers.length - 1} other answer(s) dropped`);
+      }
+      if (childElements(childElement(element, 'units') ?? element, 'unit').length > 0) {
+        warnings.push('Units are not imported');
+      }
+
+      const answer = Number(full[0].text);
+      if (full[0].text === '' || !Number.isFinite(answer)) {
+        throw new Error(`Numeric answer "${full[0].text}" is not a number`);
+      }
+      const tolerance = textContent(childElement(full[0].element, 'tolerance')).trim();
+      input.questionType = 'numeric';
+      input.numericAnswer = answer;
+      input.numericTolerance = tolerance === '' ? 0 : Number(tolerance);
+      return input;
+    }
+
+    if (type === 'shortanswer') {
+      const accepted = answers.filter((answer) => answer.fraction === 100);
+      if (accepted.length < answers.length) {
+        warnings.push(`${answers.length - accepted.length} partial-credit answer(s) dropped; short-text answers are all-or-nothing`);
+      }
+      if (textContent(childElement(element, 'usecase')).trim() === '1') {
+        warnings.push('Case-sensitive matching is not supported; answers are matched ignoring case');
+      }
+      if (accepted.some((answer) => answer.text.includes('*'))) {
+        warnings.push('Moodle * wildcards are not supported and are matched literally');
+      }
+      input.questionType = 'short_text';
+      input.acceptedAnswers = accepted.map((answer) => answer.text);
+      return input;
+    }
+
+    // multichoice
+    const single = !['false', '0'].includes(textContent(childElement(element, 'single')).trim().toLowerCase());
+    if (single) {
+      if (answers.some((answer) => answer.fraction > 0 && answer.fraction < 100)) {
+        warnings.push('Partial-credit answers are not supported for single-answer questions; only 100% answers are correct');
+      }
+      input.questionType = 'single_choice';
+      input.options = answers.map((answer) => ({
+        optionText: answer.text,
+        isCorrect: answer.fraction === 100,
+      }));
+      return input;
+    }
+
+    const weights = new Set(answers.filter((answer) => answer.fraction > 0).map((answer) => answer.fraction));
+    if (weights.size > 1) {
+      warnings.push('Answer weights are not imported; partial credit follows QuizMaker scoring');
+    }
+    input.questionType = 'multi_select';
+    input.scoringMode = 'partial';
+    input.options = answers.map((answer) => ({
+      optionText: answer.text,
+      isCorrect: answer.fraction > 0,
+    }));
+    return input;
+  }
+
+  /**
+   * Text of a Moodle element with a <text> child, converting HTML formats to plain text
+   */
+  private static moodleText(element: XmlElement | undefined, warnings: string[]): string {
+    if (!element) {
+      return '';
+    }
+    if (childElements(element, 'file').length > 0) {
+      warnings.push('Images and attached files are not imported');
+    }
+
+    const text = textContent(childElement(element, 'text'));
+    const format = element.attributes.format ?? 'html';
+    return format === 'html' || format === 'moodle_auto_format'
+      ? this.htmlToText(text, warnings)
+      : text.trim();
+  }
+
+  /**
+   * Whole-number points from <defaultgrade>; Moodle allows fractional grades
+   */
+  private static moodleGrade(element: XmlElement, warnings: string[]): number | undefined {
+    const value = textContent(childElement(element, 'defaultgrade')).trim();
+    if (value === '') {
+      return undefined;
+    }
+
+    const grade = Number(value);
+    if (!Number.isFinite(grade)) {
+      throw new Error('defaultgrade must be a number');
+    }
+    const points = Math.round(grade);
+    if (Math.abs(points - grade) > 1e-6) {
+      warnings.push(`Default grade ${grade} rounded to ${points} points`);
+    }
+    return points;
+  }
+
+  /**
+   * Category name from a Moodle path such as "$course$/top/Science/Physics"
+   * The context prefix and the implicit "top" category are dropped; "Default" means none
+   */
+  private static moodleCategory(path: string | null): string | undefined {
+    if (!path) {
+      return undefined;
+    }
+
+    const parts = path.split('/').map((part) => part.trim()).filter((part) => part !== '');
+    if (parts[0]?.startsWith('$') && parts[0].endsWith('$')) {
+      parts.shift();
+    }
+    if (parts[0] === 'top') {
+      parts.shift();
+    }
+
+    const category = parts.join('/');
+    return category && category !== 'Default' ? category : undefined;
+  }
+
+  /**
+   * Convert HTML question text to plain text
+   */
+  private static htmlToText(html: string, warnings: string[]): string {
+    if (/<img\b|@@PLUGINFILE@@/i.test(html)) {
+      warnings.push('Images and attached files are not imported');
+    }
+
+    const text = html
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/(p|div|li|h[1-6])>/gi, '\n')
+      .replace(/<[^>]*>/g, '')
+      .replace(/&nbsp;/g, ' ');
+
+    return decodeXmlEntities(text)
+      .split('\n')
+      .map((line) => line.replace(/\s+/g, ' ').trim())
+      .filter((line) => line !== '')
+      .join('\n');
+  }
+
+  /**
+   * Parse an optional whole number from a CSV cell
+   */
+  private static parseInteger(value: string, column: string): number | undefined {
+    if (value === '') {
+      return undefined;
+    }
+    const n = Number(value);
+    if (!Number.isInteger(n)) {
+      throw new Error(`${column} must be a whole number`);
+    }
+    return n;
+  }
+
+  /**
+   * Parse an optional number from a CSV cell
+   */
+  private static parseNumber(value: string, column: string): number | undefined {
+    if (value === '') {
+      return undefined;
+    }
+    const n = Number(value);
+    if (!Number.isFinite(n)) {
+      throw new Error(`${column} must be a number`);
+    }
+    return n;
+  }
+
+  /**
+   * Split a multi-value CSV cell on the list separator
+   */
+  private static splitList(value: string): string[] {
+    return value
+      .split(CSV_LIST_SEPARATOR)
+      .map((part) => part.trim())
+      .filter((part) => part !== '');
+  }
+}
@@ -12,7 +12,8 @@
  * - createQuestion: Input validation, option handling, database operations
  * - getQuestionById: Retrieval, authorization, role-based visibility
  * - listQuestions: Pagination, filtering, search
- * - updateQuestion: Ownership verification, partial updates, option replacement
+ * - updateQuestion: Ownership verification, partial updates, option replacement, versions
+ * - restoreVersion: Rollback to an earlier version
  * - deleteQuestion: Soft delete, force delete, attempt checking
  * - getRandomQuestion: Randomization, exclusion logic
  * - getQuestionStatistics: Analytics calculation, permission checking
@@ -31,6 +32,7 @@ import {
   UpdateQuestionInput,
   Question,
   QuestionOption,
+  QUESTION_TRASH_RETENTION_DAYS,
 } from './question-service';
 
 // ============================================
@@ -460,6 +462,219 @@ describe('QuestionService', () => {
       expect(fromBoolean).toHaveBeenCalledWith(false); // For incorrect options
       expect(fromBoolean).toHaveBeenCalledWith(true); // For correct option
     });
+
+    /**
+     * Test: Reject a time limit outside the allowed range
+     *
+     * Verifies:
+     * - Limits below 5 seconds are rejected
+     * - No database writes happen
+     */
+    it('should reject a time limit below the minimum', async () => {
+      const input = createValidQuestionInput({ timeLimitSeconds: 2 });
+
+      await expect(
+        QuestionService.createQuestion(INSTRUCTOR_ID, input)
+      ).rejects.toThrow('Time limit must be between 5 and 3600 seconds');
+      expect(executeMutation).not.toHaveBeenCalled();
+    });
+
+    /**
+     * Test: Store a valid time limit
+     *
+     * Verifies:
+     * - time_limit_seconds is part of the INSERT
+     */
+    it('should store a valid time limit', async () => {
+      // Arrange
+      vi.mocked(executeMutation).mockResolvedValue({ success: true, meta: {} });
+      vi.mocked(executeBatch).mockResolvedValue([]);
+      vi.mocked(executeQueryFirst).mockResolvedValue(
+        createMockQuestionRow({ time_limit_seconds: 30 })
+      );
+      vi.mocked(executeQuery).mockResolvedValue(createMockOptionRows(4));
+
+      // Act
+      const result = await QuestionService.createQuestion(
+        INSTRUCTOR_ID,
+        createValidQuestionInput({ timeLimitSeconds: 30 })
+      );
+
+      // Assert
+      expect(executeMutation).toHaveBeenCalledWith(
+        expect.stringContaining('time_limit_seconds'),
+        expect.arrayContaining([30])
+      );
+      expect(result.timeLimitSeconds).toBe(30);
+    });
+
+    /**
+     * Test: Create a multi-select question with several correct answers
+     *
+     * Verifies:
+     * - More than one correct option is accepted for multi_select
+     * - question_type and scoring_mode are part of the INSERT
+     */
+    it('should create a multi-select question with several correct answers', async () => {
+      // Arrange
+      vi.mocked(executeMutation).mockResolvedValue({ success: true, meta: {} });
+      vi.mocked(executeBatch).mockResolvedValue([]);
+      vi.mocked(executeQueryFirst).mockResolvedValue(
+        createMockQuestionRow({ question_type: 'multi_select', scoring_mode: 'partial' })
+      );
+      vi.mocked(executeQuery).mockResolvedValue(createMockOptionRows(4));
+
+      // Act
+      const result = await QuestionService.createQuestion(
+        INSTRUCTOR_ID,
+        createValidQuestionInput({
+          questionType: 'multi_select',
+          scoringMode: 'partial',
+          options: [
+            { optionText: 'A', isCorrect: true },
+            { optionText: 'B', isCorrect: true },
+            { optionText: 'C', isCorrect: false },
+            { optionText: 'D', isCorrect: false },
+          ],
+        })
+      );
+
+      // Assert
+      expect(executeMutation).toHaveBeenCalledWith(
+        expect.stringContaining('question_type'),
+        expect.arrayContaining(['multi_select', 'partial'])
+      );
+      expect(result.questionType).toBe('multi_select');
+      expect(result.scoringMode).toBe('partial');
+    });
+
+    /**
+     * Test: Reject a multi-select question with no correct answer
+     */
+    it('should reject multi-select question with no correct answer', async () => {
+      const input = createValidQuestionInput({
+        questionType: 'multi_select',
+        options: [
+          { optionText: 'A', isCorrect: false },
+          { optionText: 'B', isCorrect: false },
+          { optionText: 'C', isCorrect: false },
+          { optionText: 'D', isCorrect: false },
+        ],
+      });
+
+      await expect(
+        QuestionService.createQuestion(INSTRUCTOR_ID, input)
+      ).rejects.toThrow('Multi-select question must have at least one correct answer');
+    });
+
+    /**
+     * Test: True/false questions take exactly 2 options
+     */
+    it('should reject true/false question without exactly 2 options', async () => {
+      const input = createValidQuestionInput({ questionType: 'true_false' });
+
+      await expect(
+        QuestionService.createQuestion(INSTRUCTOR_ID, input)
+      ).rejects.toThrow('True/false question must have exactly 2 options');
+    });
+
+    /**
+     * Test: Create a numeric question
+     *
+     * Verifies:
+     * - Options are not required and no option rows are inserted
+     * - numeric_answer and numeric_tolerance are part of the INSERT
+     */
+    it('should create a numeric question with a tolerance', async () => {
+      // Arrange
+      vi.mocked(executeMutation).mockResolvedValue({ success: true, meta: {} });
+      vi.mocked(executeQueryFirst).mockResolvedValue(
+        createMockQuestionRow({ question_type: 'numeric', numeric_answer: 9.81, numeric_tolerance: 0.05 })
+      );
+      vi.mocked(executeQuery).mockResolvedValue([]);
+
+      // Act
+      const result = await QuestionService.createQuestion(
+        INSTRUCTOR_ID,
+        createValidQuestionInput({
+          questionType: 'numeric',
+          options: undefined,
+          numericAnswer: 9.81,
+          numericTolerance: 0.05,
+        })
+      );
+
+      // Assert
+      expect(executeMutation).toHaveBeenCalledWith(
+        expect.stringContaining('numeric_answer'),
+        expect.arrayContaining([9.81, 0.05])
+      );
+      // Only the first version is batched; numeric questions have no options
+      const statements = vi.mocked(executeBatch).mock.calls[0][0];
+      expect(statements.map((statement) => statement.sql)).toEqual([
+        expect.stringContaining('INSERT INTO question_versions'),
+        expect.stringContaining('current_version_id'),
+      ]);
+      expect(result.numericAnswer).toBe(9.81);
+    });
+
+    /**
+     * Test: Reject a numeric question without an answer
+     */
+    it('should reject numeric question without a numeric answer', async () => {
+      const input = createValidQuestionInput({ questionType: 'numeric', options: undefined });
+
+      await expect(
+        QuestionService.createQuestion(INSTRUCTOR_ID, input)
+      ).rejects.toThrow('Numeric question must have a numeric answer');
+    });
+
+    /**
+     * Test: Create a short-text question
+     *
+     * Verifies:
+     * - Accepted answers are trimmed and batch inserted in order
+     */
+    it('should store accepted answers for a short-text question', async () => {
+      // Arrange
+      vi.mocked(executeMutation).mockResolvedValue({ success: true, meta: {} });
+      vi.mocked(executeBatch).mockResolvedValue([]);
+      vi.mocked(executeQueryFirst).mockResolvedValue(
+        createMockQuestionRow({ question_type: 'short_text' })
+      );
+      vi.mocked(executeQuery).mockResolvedValue([]);
+
+      // Act
+      await QuestionService.createQuestion(
+        INSTRUCTOR_ID,
+        createValidQuestionInput({
+          questionType: 'short_text',
+          options: undefined,
+          acceptedAnswers: [' Paris ', 'City of Light'],
+        })
+      );
+
+      // Assert
+      const statements = vi.mocked(executeBatch).mock.calls[0][0];
+      expect(statements).toHaveLength(4);
+      expect(statements[0].sql).toContain('question_accepted_answers');
+      expect(statements[0].params).toEqual(['mock-uuid-12345', 'mock-uuid-12345', 'Paris', 1]);
+    });
+
+    /**
+     * Test: Reject accepted answers that only differ in case or spacing
+     */
+    it('should reject duplicate accepted answers after normalization', async () => {
+      const input = createValidQuestionInput({
+        questionType: 'short_text',
+        options: undefined,
+        acceptedAnswers: ['New York', 'new   york'],
+      });
+
+      await expect(
+        QuestionService.createQuestion(INSTRUCTOR_ID, input)
+      ).rejects.toThrow('Accepted answers must be unique');
+    });
   });
 
   // ============================================
@@ -652,6 +867,33 @@ describe('QuestionService', () => {
       expect(result.limit).toBe(100);
     });
 
+    /**
+     * Test: Trashed questions are listed separately
+     *
+     * Verifies:
+     * - The default list hides trashed questions
+     * - The trash lists them with their purge date, most recently deleted first
+     */
+    it('should hide trashed questions unless the trash is requested', async () => {
+      // Arrange
+      vi.mocked(executeQueryFirst).mockResolvedValue({ count: 1 });
+      vi.mocked(executeQuery).mockResolvedValueOnce([]).mockResolvedValueOnce([
+        createMockQuestionRow({ deleted_at: '2026-01-01T00:00:00.000Z' }),
+      ]);
+
+      // Act
+      await QuestionService.listQuestions({ instructorId: INSTRUCTOR_ID });
+      const trash = await QuestionService.listQuestions({ instructorId: INSTRUCTOR_ID, deleted: true });
+
+      // Assert
+      const [activeSql] = vi.mocked(executeQuery).mock.calls[0];
+      const [trashSql] = vi.mocked(executeQuery).mock.calls[1];
+      expect(activeSql).toContain('q.deleted_at IS NULL');
+      expect(trashSql).toContain('q.deleted_at IS NOT NULL');
+      expect(trashSql).toContain('ORDER BY q.deleted_at DESC');
+      expect(trash.data[0].purgeableAt).toBe('2026-01-31T00:00:00.000Z');
+    });
+
     /**
      * Test: Filter questions by search term
      *
@@ -789,12 +1031,12 @@ describe('QuestionService', () => {
      * - Updated question is returned
      */
     it('should update question text successfully', async () => {
-      // Arrange: Mock ownership check and update
+      // Arrange: Mock the stored question and the next version number
       vi.mocked(executeQueryFirst)
-        .mockResolvedValueOnce({ id: QUESTION_ID, instructor_id: INSTRUCTOR_ID }) // Ownership check
-        .mockResolvedValueOnce(createMockQuestionRow({ question_text: 'Updated text' })); // Get updated
-      vi.mocked(executeMutation).mockResolvedValue({ success: true, meta: {} });
+        .mockResolvedValueOnce(createMockQuestionRow()) // Ownership check
+        .mockResolvedValueOnce({ latest: 1 });
       vi.mocked(executeQuery).mockResolvedValue(createMockOptionRows(4));
+      vi.mocked(executeBatch).mockResolvedValue([]);
 
       const input: UpdateQuestionInput = {
         questionText: 'What is the capital of Germany?',
@@ -808,11 +1050,10 @@ describe('QuestionService', () => {
       );
 
       // Assert
-      expect(executeMutation).toHaveBeenCalledWith(
-        expect.stringContaining('UPDATE questions SET'),
-        expect.any(Array)
-      );
-      expect(result).not.toBeNull();
+      const [update] = vi.mocked(executeBatch).mock.calls[0][0];
+      expect(update.sql).toContain('UPDATE questions SET question_text = ?');
+      expect(result.questionText).toBe('What is the capital of Germany?');
+      expect(result.options).toHaveLength(4);
     });
 
     /**
@@ -843,10 +1084,10 @@ describe('QuestionService', () => {
      */
     it('should throw error if instructor does not own the question', async () => {
       // Arrange: Different instructor owns the question
-      vi.mocked(executeQueryFirst).mockResolvedValue({
-        id: QUESTION_ID,
-        instructor_id: 'different-instructor',
-      });
+      vi.mocked(executeQueryFirst).mockResolvedValue(
+        createMockQuestionRow({ instructor_id: 'different-instructor' })
+      );
+      vi.mocked(executeQuery).mockResolvedValue(createMockOptionRows(4));
 
       // Act & Assert
       await expect(
@@ -860,16 +1101,14 @@ describe('QuestionService', () => {
      * Test: Update options replaces all existing options
      *
      * Verifies:
-     * - DELETE is called for existing options
+     * - Existing options are retired, not deleted, so past selections survive
      * - New options are inserted via batch
-     * - Option replacement is atomic
      */
     it('should replace all options when updating', async () => {
       // Arrange
       vi.mocked(executeQueryFirst)
-        .mockResolvedValueOnce({ id: QUESTION_ID, instructor_id: INSTRUCTOR_ID })
-        .mockResolvedValueOnce(createMockQuestionRow());
-      vi.mocked(executeMutation).mockResolvedValue({ success: true, meta: {} });
+        .mockResolvedValueOnce(createMockQuestionRow())
+        .mockResolvedValueOnce({ latest: 1 });
       vi.mocked(executeBatch).mockResolvedValue([]);
       vi.mocked(executeQuery).mockResolvedValue(createMockOptionRows(4));
 
@@ -885,12 +1124,21 @@ describe('QuestionService', () => {
       // Act
       await QuestionService.updateQuestion(QUESTION_ID, INSTRUCTOR_ID, input);
 
-      // Assert: Old options deleted, new ones inserted
-      expect(executeMutation).toHaveBeenCalledWith(
-        expect.stringContaining('DELETE FROM options'),
-        [QUESTION_ID]
-      );
-      expect(executeBatch).toHaveBeenCalled();
+      // Assert: Old options retired, new ones inserted, all in one batch
+      expect(executeBatch).toHaveBeenCalledTimes(1);
+      const statements = vi.mocked(executeBatch).mock.calls[0][0];
+      expect(statements[1]).toEqual({
+        sql: expect.stringContaining('UPDATE options SET retired_at = ?'),
+        params: [expect.any(String), QUESTION_ID],
+      });
+      expect(statements.map((statement) => statement.params[2]).slice(2, 6)).toEqual([
+        'New A',
+        'New B',
+        'New C',
+        'New D',
+      ]);
+      expect(statements.some((statement) => statement.sql.includes('DELETE FROM options'))).toBe(false);
+      expect(executeMutation).not.toHaveBeenCalled();
     });
 
     /**
@@ -901,10 +1149,8 @@ describe('QuestionService', () => {
      */
     it('should reject update with multiple correct answers in options', async () => {
       // Arrange
-      vi.mocked(executeQueryFirst).mockResolvedValue({
-        id: QUESTION_ID,
-        instructor_id: INSTRUCTOR_ID,
-      });
+      vi.mocked(executeQueryFirst).mockResolvedValue(createMockQuestionRow());
+      vi.mocked(executeQuery).mockResolvedValue(createMockOptionRows(4));
 
       const input: UpdateQuestionInput = {
         options: [
@@ -919,6 +1165,7 @@ describe('QuestionService', () => {
       await expect(
         QuestionService.updateQuestion(QUESTION_ID, INSTRUCTOR_ID, input)
       ).rejects.toThrow('Question must have exactly one correct answer');
+      expect(executeBatch).not.toHaveBeenCalled();
     });
 
     /**
@@ -930,10 +1177,10 @@ describe('QuestionService', () => {
     it('should always update the updated_at timestamp', async () => {
       // Arrange
       vi.mocked(executeQueryFirst)
-        .mockResolvedValueOnce({ id: QUESTION_ID, instructor_id: INSTRUCTOR_ID })
-        .mockResolvedValueOnce(createMockQuestionRow());
-      vi.mocked(executeMutation).mockResolvedValue({ success: true, meta: {} });
+        .mockResolvedValueOnce(createMockQuestionRow())
+        .mockResolvedValueOnce({ latest: 1 });
       vi.mocked(executeQuery).mockResolvedValue(createMockOptionRows(4));
+      vi.mocked(executeBatch).mockResolvedValue([]);
 
       // Act
       await QuestionService.updateQuestion(QUESTION_ID, INSTRUCTOR_ID, {
@@ -941,94 +1188,246 @@ describe('QuestionService', () => {
       });
 
       // Assert: updated_at should be in the update query
-      expect(executeMutation).toHaveBeenCalledWith(
-        expect.stringContaining('updated_at'),
-        expect.any(Array)
-      );
+      const [update] = vi.mocked(executeBatch).mock.calls[0][0];
+      expect(update.sql).toContain('updated_at = ?');
     });
-  });
 
-  // ============================================
-  // deleteQuestion Tests
-  // ============================================
-
-  describe('deleteQuestion', () => {
     /**
-     * Test: Successfully delete a question without attempts
+     * Test: Edits are written to the audit log
      *
      * Verifies:
-     * - Question is deleted when no attempts exist
-     * - Success message returned
+     * - The actor, question, owner and IP are recorded
+     * - Only the fields that changed are in the diff
      */
-    it('should delete a question with no attempts', async () => {
+    it('should record the changed fields in the audit log', async () => {
       // Arrange
       vi.mocked(executeQueryFirst)
-        .mockResolvedValueOnce({ id: QUESTION_ID, instructor_id: INSTRUCTOR_ID }) // Ownership
-        .mockResolvedValueOnce({ count: 0 }); // No attempts
-      vi.mocked(executeMutation).mockResolvedValue({ success: true, meta: {} });
+        .mockResolvedValueOnce(createMockQuestionRow({ difficulty: 'easy' }))
+        .mockResolvedValueOnce({ latest: 1 });
+      vi.mocked(executeQuery).mockResolvedValue(createMockOptionRows(4));
+      vi.mocked(executeBatch).mockResolvedValue([]);
 
       // Act
-      const result = await QuestionService.deleteQuestion(
+      await QuestionService.updateQuestion(
         QUESTION_ID,
         INSTRUCTOR_ID,
-        false
+        { difficulty: 'hard' },
+        { ipAddress: '203.0.113.7' }
       );
 
       // Assert
-      expect(result.deleted).toBe(true);
-      expect(result.message).toBe('Question deleted successfully');
-      expect(executeMutation).toHaveBeenCalledWith(
-        expect.stringContaining('DELETE FROM questions'),
-        [QUESTION_ID]
+      const auditStatement = vi.mocked(executeBatch).mock.calls
+        .flatMap(([statements]) => statements)
+        .find((statement) => statement.sql.includes('INSERT INTO audit_events'));
+      expect(auditStatement?.params).toEqual(
+        expect.arrayContaining([INSTRUCTOR_ID, 'question.update', 'question', QUESTION_ID, '203.0.113.7'])
       );
+      expect(JSON.parse(auditStatement?.params[7] as string)).toEqual({
+        difficulty: { before: 'easy', after: 'hard' },
+      });
     });
 
     /**
-     * Test: Block delete when question has attempts (soft delete protection)
+     * Test: Edits store a new version
      *
      * Verifies:
-     * - Delete is prevented when attempts exist
-     * - Error message includes attempt count
-     * - force=true is suggested
+     * - The version is numbered after the latest one and becomes current
+     * - It is batched with the question update and the audit record
      */
-    it('should block delete when question has attempts and force=false', async () => {
+    it('should store a new version with the audit record', async () => {
       // Arrange
       vi.mocked(executeQueryFirst)
-        .mockResolvedValueOnce({ id: QUESTION_ID, instructor_id: INSTRUCTOR_ID })
-        .mockResolvedValueOnce({ count: 15 }); // Has 15 attempts
+        .mockResolvedValueOnce(createMockQuestionRow({ difficulty: 'easy' }))
+        .mockResolvedValueOnce({ latest: 2 });
+      vi.mocked(executeQuery).mockResolvedValue(createMockOptionRows(4));
+      vi.mocked(executeBatch).mockResolvedValue([]);
+
+      // Act
+      await QuestionService.updateQuestion(QUESTION_ID, INSTRUCTOR_ID, { difficulty: 'hard' });
+
+      // Assert
+      const [update, insertVersion, setCurrent, audit] = vi.mocked(executeBatch).mock.calls[0][0];
+      expect(update.sql).toContain('UPDATE questions SET difficulty = ?');
+      expect(insertVersion.sql).toContain('INSERT INTO question_versions');
+      expect(insertVersion.params[2]).toBe(3);
+      expect(JSON.parse(insertVersion.params[3] as string)).toMatchObject({
+        difficulty: 'hard',
+        options: [expect.objectContaining({ id: 'option-1' }), expect.anything(), expect.anything(), expect.anything()],
+      });
+      expect(setCurrent.sql).toContain('SET current_version_id = ?');
+      expect(JSON.parse(audit.params[6] as string)).toEqual({ versionNumber: 3 });
+    });
+
+    /**
+     * Test: Edits are atomic
+     *
+     * Verifies:
+     * - Nothing is written outside the batch, so a failed batch leaves the question unchanged
+     */
+    it('should write nothing outside the batch when the batch fails', async () => {
+      // Arrange
+      vi.mocked(executeQueryFirst)
+        .mockResolvedValueOnce(createMockQuestionRow({ question_type: 'short_text' }))
+        .mockResolvedValueOnce({ latest: 1 });
+      vi.mocked(executeQuery)
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([{ answer_text: 'Paris' }]);
+      vi.mocked(executeBatch).mockRejectedValue(new Error('D1_ERROR: database is locked'));
 
       // Act & Assert
       await expect(
-        QuestionService.deleteQuestion(QUESTION_ID, INSTRUCTOR_ID, false)
-      ).rejects.toThrow('Cannot delete question with 15 quiz attempts');
+        QuestionService.updateQuestion(QUESTION_ID, INSTRUCTOR_ID, { acceptedAnswers: ['Paris', 'paris, france'] })
+      ).rejects.toThrow('database is locked');
+
+      const statements = vi.mocked(executeBatch).mock.calls[0][0];
+      expect(statements.map((statement) => statement.sql.split(/\s+/).slice(0, 3).join(' '))).toEqual([
+        'UPDATE questions SET',
+        'DELETE FROM question_accepted_answers',
+        'INSERT INTO question_accepted_answers',
+        'INSERT INTO question_accepted_answers',
+        'INSERT INTO question_versions',
+        'UPDATE questions SET',
+        'INSERT INTO audit_events',
+      ]);
+      expect(executeMutation).not.toHaveBeenCalled();
     });
+  });
+
+  // ============================================
+  // restoreVersion Tests
+  // ============================================
+
+  describe('restoreVersion', () => {
+    const VERSION_ROW = {
+      id: 'version-1',
+      question_id: QUESTION_ID,
+      version_number: 1,
+      snapshot: JSON.stringify({
+        questionType: 'single_choice',
+        scoringMode: 'all_or_nothing',
+        questionText: 'What is the capital of France?',
+        category: null,
+        difficulty: 'easy',
+        points: 1,
+        timeLimitSeconds: null,
+        options: [
+          { id: 'old-1', optionText: 'Paris', isCorrect: true, optionOrder: 1 },
+          { id: 'old-2', optionText: 'London', isCorrect: false, optionOrder: 2 },
+          { id: 'old-3', optionText: 'Berlin', isCorrect: false, optionOrder: 3 },
+          { id: 'old-4', optionText: 'Madrid', isCorrect: false, optionOrder: 4 },
+        ],
+        numericAnswer: null,
+        numericTolerance: null,
+        acceptedAnswers: [],
+      }),
+      created_by: INSTRUCTOR_ID,
+      created_by_name: 'Test Instructor',
+      restored_from: null,
+      created_at: '2026-01-07T10:00:00.000Z',
+      is_current: 0,
+    };
 
     /**
-     * Test: Force delete question with attempts
+     * Test: Roll back to an earlier version
      *
      * Verifies:
-     * - force=true bypasses attempt check
-     * - Question is deleted even with attempts
-     * - CASCADE handles options and attempts
+     * - The old content is written back with fresh options
+     * - The new version and audit record name the version restored from
      */
-    it('should force delete question with attempts when force=true', async () => {
+    it('should save the earlier version as a new version', async () => {
       // Arrange
-      vi.mocked(executeQueryFirst).mockResolvedValue({
-        id: QUESTION_ID,
-        instructor_id: INSTRUCTOR_ID,
-      });
-      vi.mocked(executeMutation).mockResolvedValue({ success: true, meta: {} });
+      vi.mocked(executeQueryFirst)
+        .mockResolvedValueOnce(VERSION_ROW)
+        .mockResolvedValueOnce(createMockQuestionRow({ difficulty: 'hard' }))
+        .mockResolvedValueOnce({ latest: 3 });
+      vi.mocked(executeQuery).mockResolvedValue(createMockOptionRows(4));
+      vi.mocked(executeBatch).mockResolvedValue([]);
 
       // Act
-      const result = await QuestionService.deleteQuestion(
-        QUESTION_ID,
-        INSTRUCTOR_ID,
-        true // Force delete
-      );
+      await QuestionService.restoreVersion(QUESTION_ID, 'version-1', INSTRUCTOR_ID);
+
+      // Assert: one batch with the update, fresh options, the version and the audit record
+      const statements = vi.mocked(executeBatch).mock.calls[0][0];
+      const optionStatements = statements.filter((statement) => statement.sql.includes('INSERT INTO options'));
+      expect(optionStatements.map((statement) => statement.params[2])).toEqual(['Paris', 'London', 'Berlin', 'Madrid']);
+
+      const [insertVersion, , audit] = statements.slice(-3);
+      expect(insertVersion.params[2]).toBe(4);
+      expect(insertVersion.params[5]).toBe(1);
+      expect(audit.params).toContain('question.restore');
+      expect(JSON.parse(audit.params[6] as string)).toEqual({ restoredFrom: 1, versionNumber: 4 });
+    });
+
+    /**
+     * Test: Reject versions of other questions and the current version
+     */
+    it('should reject a version of another question or the current version', async () => {
+      vi.mocked(executeQueryFirst).mockResolvedValueOnce({ ...VERSION_ROW, question_id: 'other-question' });
+      await expect(
+        QuestionService.restoreVersion(QUESTION_ID, 'version-1', INSTRUCTOR_ID)
+      ).rejects.toThrow('Version not found');
+
+      vi.mocked(executeQueryFirst).mockResolvedValueOnce({ ...VERSION_ROW, is_current: 1 });
+      await expect(
+        QuestionService.restoreVersion(QUESTION_ID, 'version-1', INSTRUCTOR_ID)
+      ).rejects.toThrow('This version is already the current version');
+    });
+  });
+
+  // ============================================
+  // deleteQuestion Tests
+  // ============================================
+
+  describe('deleteQuestion', () => {
+    /**
+     * Test: Move a question to the trash
+     *
+     * Verifies:
+     * - deleted_at is set instead of deleting the row
+     * - The attempts kept are recorded in the audit log
+     * - The purge date is the end of the retention window
+     */
+    it('should move a question with attempts to the trash', async () => {
+      // Arrange
+      vi.mocked(executeQueryFirst)
+        .mockResolvedValueOnce({ ...createMockQuestionRow(), deleted_at: null }) // Ownership
+        .mockResolvedValueOnce({ count: 15 }); // Attempts are kept
+      vi.mocked(executeBatch).mockResolvedValue([]);
+
+      // Act
+      const result = await QuestionService.deleteQuestion(QUESTION_ID, INSTRUCTOR_ID);
 
       // Assert
       expect(result.deleted).toBe(true);
-      expect(result.message).toBe('Question and associated data deleted successfully');
+      expect(result.message).toBe('Question moved to the trash');
+      const [statements] = vi.mocked(executeBatch).mock.calls[0];
+      expect(statements[0].sql).toContain('UPDATE questions SET deleted_at = ?');
+      expect(statements.some(({ sql }) => sql.includes('DELETE'))).toBe(false);
+      expect(statements[1].params[2]).toBe('question.delete');
+      expect(JSON.parse(statements[1].params[6] as string)).toEqual({ attemptCount: 15 });
+
+      const deletedAt = statements[0].params[0] as string;
+      expect(new Date(result.purgeableAt).getTime() - new Date(deletedAt).getTime()).toBe(
+        QUESTION_TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000
+      );
+    });
+
+    /**
+     * Test: Reject trashing a question twice
+     */
+    it('should throw error if the question is already in the trash', async () => {
+      // Arrange
+      vi.mocked(executeQueryFirst).mockResolvedValueOnce({
+        id: QUESTION_ID,
+        instructor_id: INSTRUCTOR_ID,
+        deleted_at: '2026-01-01T00:00:00.000Z',
+      });
+
+      // Act & Assert
+      await expect(
+        QuestionService.deleteQuestion(QUESTION_ID, INSTRUCTOR_ID)
+      ).rejects.toThrow('Question is already in the trash');
+      expect(executeBatch).not.toHaveBeenCalled();
     });
 
     /**
@@ -1067,6 +1466,108 @@ describe('QuestionService', () => {
     });
   });
 
+  // ============================================
+  // restoreQuestion Tests
+  // ============================================
+
+  describe('restoreQuestion', () => {
+    /**
+     * Test: Restore a trashed question
+     *
+     * Verifies:
+     * - deleted_at is cleared and the restore is audited
+     * - Questions outside the trash are rejected
+     */
+    it('should clear deleted_at and reject questions not in the trash', async () => {
+      // Arrange
+      vi.mocked(executeQueryFirst)
+        .mockResolvedValueOnce({ id: QUESTION_ID, instructor_id: INSTRUCTOR_ID, deleted_at: '2026-01-01T00:00:00.000Z' })
+        .mockResolvedValueOnce(createMockQuestionRow());
+      vi.mocked(executeQuery).mockResolvedValue(createMockOptionRows(4));
+      vi.mocked(executeBatch).mockResolvedValue([]);
+
+      // Act
+      const question = await QuestionService.restoreQuestion(QUESTION_ID, INSTRUCTOR_ID);
+
+      // Assert
+      expect(question.id).toBe(QUESTION_ID);
+      const [statements] = vi.mocked(executeBatch).mock.calls[0];
+      expect(statements[0].sql).toContain('SET deleted_at = NULL');
+      expect(statements[1].params[2]).toBe('question.undelete');
+
+      vi.mocked(executeQueryFirst).mockResolvedValueOnce({ id: QUESTION_ID, instructor_id: INSTRUCTOR_ID, deleted_at: null });
+      await expect(
+        QuestionService.restoreQuestion(QUESTION_ID, INSTRUCTOR_ID)
+      ).rejects.toThrow('Question is not in the trash');
+    });
+  });
+
+  // ============================================
+  // purgeQuestion Tests
+  // ============================================
+
+  describe('purgeQuestion', () => {
+    const EXPIRED = new Date(Date.now() - (QUESTION_TRASH_RETENTION_DAYS + 1) * 24 * 60 * 60 * 1000).toISOString();
+
+    /**
+     * Test: Purge a trashed question after the retention window
+     *
+     * Verifies:
+     * - The row is deleted and the purge is audited with the question's content
+     */
+    it('should permanently delete a question past the retention window', async () => {
+      // Arrange
+      vi.mocked(executeQueryFirst)
+        .mockResolvedValueOnce({ ...createMockQuestionRow(), deleted_at: EXPIRED })
+        .mockResolvedValueOnce({ count: 0 }); // No attempts
+      vi.mocked(executeQuery).mockResolvedValue(createMockOptionRows(4));
+      vi.mocked(executeBatch).mockResolvedValue([]);
+
+      // Act
+      const result = await QuestionService.purgeQuestion(QUESTION_ID, INSTRUCTOR_ID);
+
+      // Assert
+      expect(result.purged).toBe(true);
+      const [statements] = vi.mocked(executeBatch).mock.calls[0];
+      expect(statements[0]).toEqual({ sql: 'DELETE FROM questions WHERE id = ?', params: [QUESTION_ID] });
+      expect(statements[1].params[2]).toBe('question.purge');
+      expect(JSON.parse(statements[1].params[7] as string)).toMatchObject({
+        questionText: { before: 'What is the capital of France?', after: null },
+      });
+    });
+
+    /**
+     * Test: Refuse purges that would lose data or skip the retention window
+     *
+     * Verifies:
+     * - Active questions, recently trashed questions and answered questions are kept
+     */
+    it('should refuse active, recently trashed and answered questions', async () => {
+      vi.mocked(executeQueryFirst).mockResolvedValueOnce({ id: QUESTION_ID, instructor_id: INSTRUCTOR_ID, deleted_at: null });
+      await expect(
+        QuestionService.purgeQuestion(QUESTION_ID, INSTRUCTOR_ID)
+      ).rejects.toThrow('Only questions in the trash can be purged');
+
+      vi.mocked(executeQueryFirst).mockResolvedValueOnce({
+        id: QUESTION_ID,
+        instructor_id: INSTRUCTOR_ID,
+        deleted_at: new Date().toISOString(),
+      });
+      await expect(
+        QuestionService.purgeQuestion(QUESTION_ID, INSTRUCTOR_ID)
+      ).rejects.toThrow(`Questions can be purged ${QUESTION_TRASH_RETENTION_DAYS} days after deletion`);
+
+      vi.mocked(executeQueryFirst)
+        .mockResolvedValueOnce({ id: QUESTION_ID, instructor_id: INSTRUCTOR_ID, deleted_at: EXPIRED })
+        .mockResolvedValueOnce({ count: 2 });
+      await expect(
+        QuestionService.purgeQuestion(QUESTION_ID, INSTRUCTOR_ID)
+      ).rejects.toThrow('Cannot purge a question with 2 quiz attempts');
+
+      expect(executeBatch).not.toHaveBeenCalled();
+    });
+  });
+
   // ============================================
   // getRandomQuestion Tests
   // ============================================
@@ -1196,6 +1697,52 @@ describe('QuestionService', () => {
       // Assert: All options should have isCorrect as false
       expect(result?.options?.every((opt) => opt.isCorrect === false)).toBe(true);
     });
+
+    /**
+     * Test: Stamp the issue time when a question is served
+     *
+     * Verifies:
+     * - A question_issues row is written for server-side timing
+     * - Untimed questions have no deadline
+     */
+    it('should record when the question was issued', async () => {
+      // Arrange
+      vi.mocked(executeQueryFirst).mockResolvedValue(createMockQuestionRow());
+      vi.mocked(executeQuery).mockResolvedValue(createMockOptionRows(4));
+
+      // Act
+      const result = await QuestionService.getRandomQuestion(STUDENT_ID);
+
+      // Assert
+      expect(executeMutation).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO question_issues'),
+        expect.arrayContaining([STUDENT_ID, 'question-123'])
+      );
+      expect(result?.issuedAt).toBeDefined();
+      expect(result?.deadlineAt).toBeNull();
+    });
+
+    /**
+     * Test: Derive the deadline from the question's time limit
+     *
+     * Verifies:
+     * - deadlineAt is issuedAt plus the time limit
+     */
+    it('should set a deadline for timed questions', async () => {
+      // Arrange
+      vi.mocked(executeQueryFirst).mockResolvedValue(
+        createMockQuestionRow({ time_limit_seconds: 30 })
+      );
+      vi.mocked(executeQuery).mockResolvedValue(createMockOptionRows(4));
+
+      // Act
+      const result = await QuestionService.getRandomQuestion(STUDENT_ID);
+
+      // Assert
+      const issuedAt = new Date(result!.issuedAt!).getTime();
+      const deadlineAt = new Date(result!.deadlineAt!).getTime();
+      expect(deadlineAt - issuedAt).toBe(30_000);
+    });
   });
 
   // ============================================
@@ -1311,7 +1858,8 @@ describe('QuestionService', () => {
       // Arrange
       vi.mocked(executeQueryFirst)
         .mockResolvedValueOnce({ id: QUESTION_ID, instructor_id: INSTRUCTOR_ID })
-        .mockResolvedValueOnce({ total_attempts: 100, correct_attempts: 50, avg_time: 30 });
+        .mockResolvedValueOnce({ total_attempts: 100, correct_attempts: 50, avg_time: 30 })
+        .mockResolvedValueOnce({ count: 100 });
       vi.mocked(executeQuery).mockResolvedValue([
         { option_id: 'opt-1', option_text: 'A', is_correct: 0, selection_count: 25 },
         { option_id: 'opt-2', option_text: 'B', is_correct: 1, selection_count: 50 },
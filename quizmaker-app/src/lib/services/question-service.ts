@@ -12,6 +12,23 @@ import {
   toBoolean,
   fromBoolean,
 } from '@/lib/d1-client';
+import { QuizService } from '@/lib/services/quiz-service';
+import { AuditService } from '@/lib/services/audit-service';
+import { CourseService } from '@/lib/services/course-service';
+import {
+  QuestionVersion,
+  QuestionVersionService,
+  QuestionVersionSnapshot,
+} from '@/lib/services/question-version-service';
+import { SessionContext } from '@/lib/services/session-service';
+import {
+  QuestionType,
+  ScoringMode,
+  QUESTION_TYPES,
+  SCORING_MODES,
+  isChoiceQuestionType,
+  normalizeTextAnswer,
+} from '@/lib/question-types';
 
 // ============================================
 // Types & Interfaces
@@ -27,39 +44,71 @@ export interface QuestionOption {
 export interface Question {
   id: string;
   instructorId: string;
+  questionType: QuestionType;
+  scoringMode: ScoringMode;
   questionText: string;
   category: string | null;
   difficulty: 'easy' | 'medium' | 'hard';
   points: number;
+  timeLimitSeconds: number | null;
   createdAt: string;
   updatedAt: string;
+  // Set while the question is in the trash, with the earliest time it can be purged
+  deletedAt?: string | null;
+  purgeableAt?: string | null;
   options?: QuestionOption[];
+  // Answer keys of numeric and short-text questions, never returned to students
+  numericAnswer?: number | null;
+  numericTolerance?: number | null;
+  acceptedAnswers?: string[];
+  // Set when the question is served to a student for answering
+  issuedAt?: string;
+  deadlineAt?: string | null;
 }
 
 export interface CreateQuestionInput {
+  questionType?: QuestionType;
+  scoringMode?: ScoringMode;
   questionText: string;
   category?: string;
   difficulty: 'easy' | 'medium' | 'hard';
   points?: number;
-  options: Array<{
+  timeLimitSeconds?: number | null;
+  // Choice questions (single choice, multi-select, true/false)
+  options?: Array<{
     optionText: string;
     isCorrect: boolean;
   }>;
+  // Numeric questions
+  numericAnswer?: number;
+  numericTolerance?: number;
+  // Short-text questions
+  acceptedAnswers?: string[];
 }
 
 export interface UpdateQuestionInput {
+  questionType?: QuestionType;
+  scoringMode?: ScoringMode;
   questionText?: string;
   category?: string;
   difficulty?: 'easy' | 'medium' | 'hard';
   points?: number;
+  timeLimitSeconds?: number | null;
   options?: Array<{
     optionText: string;
     isCorrect: boolean;
   }>;
+  numericAnswer?: number;
+  numericTolerance?: number;
+  acceptedAnswers?: string[];
 }
 
 export interface ListQuestionsParams {
   instructorId: string;
+  // List the trash instead of active questions
+  deleted?: boolean;
+  // Only questions in this course's pool
+  courseId?: string;
   page?: number;
   limit?: number;
   search?: string;
@@ -77,8 +126,10 @@ export interface PaginatedResult<T> {
 
 export interface QuestionStatistics {
   questionId: string;
+  questionType: QuestionType;
   totalAttempts: number;
   correctAttempts: number;
+  partialCreditAttempts: number;
   successRate: number;
   averageTimeSeconds: number | null;
   optionDistribution: Array<{
@@ -90,6 +141,48 @@ export interface QuestionStatistics {
   }>;
 }
 
+// ============================================
+// Database Row Interfaces (internal)
+// ============================================
+
+interface QuestionRow {
+  id: string;
+  instructor_id: string;
+  question_type: string | null;
+  scoring_mode: string | null;
+  question_text: string;
+  category: string | null;
+  difficulty: string;
+  points: number;
+  time_limit_seconds: number | null;
+  numeric_answer: number | null;
+  numeric_tolerance: number | null;
+  created_at: string;
+  updated_at: string;
+  deleted_at?: string | null;
+}
+
+interface OptionRow {
+  id: string;
+  question_id: string;
+  option_text: string;
+  is_correct: number;
+  option_order: number;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+export const MIN_QUESTION_TIME_LIMIT_SECONDS = 5;
+export const MAX_QUESTION_TIME_LIMIT_SECONDS = 3600;
+
+export const MAX_ACCEPTED_ANSWERS = 20;
+export const MAX_ACCEPTED_ANSWER_LENGTH = 200;
+
+/** Days a question stays in the trash before it can be purged */
+export const QUESTION_TRASH_RETENTION_DAYS = 30;
+
 // ============================================
 // Question Service Class
 // ============================================
@@ -104,8 +197,47 @@ export class QuestionService {
   ): Promise<Question> {
     console.log('📝 Creating new question...');
 
+    this.validateCreateInput(input);
+    console.log('✓ Input validation passed');
+
+    // Generate question ID
+    const questionId = generateId();
+    const now = new Date().toISOString();
+
+    const [questionStatement, ...answerStatements] = this.buildCreateStatements(
+      questionId,
+      instructorId,
+      input,
+      now
+    );
+
+    // Insert question
+    await executeMutation(questionStatement.sql, questionStatement.params);
+    console.log('✓ Question inserted with ID:', questionId);
+
+    // Insert options or accepted answers using batch
+    if (answerStatements.length > 0) {
+      await executeBatch(answerStatements);
+      console.log('✓ Answers inserted:', answerStatements.length);
+    }
+
+    // Return the created question with options
+    const question = await this.getQuestionById(questionId, instructorId);
+    if (!question) {
+      throw new Error('Failed to retrieve created question');
+    }
+
+    console.log('✅ Question created successfully');
+    return question;
+  }
+
+  /**
+   * Validate a new question with every createQuestion rule, without writing anything
+   * Shared with bulk import so both paths accept exactly the same questions
+   */
+  static validateCreateInput(input: CreateQuestionInput): void {
     // Validate question text
-    if (!input.questionText || input.questionText.trim().length < 10) {
+    if (typeof input.questionText !== 'string' || input.questionText.trim().length < 10) {
       throw new Error('Question text must be at least 10 characters');
     }
     if (input.questionText.length > 1000) {
@@ -117,24 +249,17 @@ export class QuestionService {
       throw new Error('Difficulty must be easy, medium, or hard');
     }
 
-    // Validate options
-    if (!input.options || (input.options.length !== 4 && input.options.length !== 6)) {
-      throw new Error('Question must have exactly 4 or 6 options');
-    }
-
-    const correctOptions = input.options.filter((opt) => opt.isCorrect);
-    if (correctOptions.length !== 1) {
-      throw new Error('Question must have exactly one correct answer');
-    }
-
-    // Validate each option text
-    for (const opt of input.options) {
-      if (!opt.optionText || opt.optionText.trim().length < 1) {
-        throw new Error('Option text cannot be empty');
-      }
-      if (opt.optionText.length > 500) {
-        throw new Error('Option text must not exceed 500 characters');
-      }
+    // Validate type and scoring
+    const questionType = input.questionType ?? 'single_choice';
+    this.validateQuestionType(questionType, input.scoringMode ?? 'all_or_nothing');
+
+    // Validate the answer key for the question type
+    if (isChoiceQuestionType(questionType)) {
+      this.validateOptions(questionType, input.options);
+    } else if (questionType === 'numeric') {
+      this.validateNumericAnswer(input.numericAnswer, input.numericTolerance ?? 0);
+    } else {
+      this.validateAcceptedAnswers(input.acceptedAnswers);
     }
 
     // Validate points
@@ -143,54 +268,82 @@ export class QuestionService {
       throw new Error('Points must be at least 1');
     }
 
-    console.log('✓ Input validation passed');
+    this.validateTimeLimit(input.timeLimitSeconds ?? null);
+  }
 
-    // Generate question ID
-    const questionId = generateId();
-    const now = new Date().toISOString();
+  /**
+   * Build the insert statements for a validated question: the question row first,
+   * followed by its options or accepted answers and its first version
+   */
+  static buildCreateStatements(
+    questionId: string,
+    instructorId: string,
+    input: CreateQuestionInput,
+    now: string
+  ): Array<{ sql: string; params: unknown[] }> {
+    const questionType = input.questionType ?? 'single_choice';
+    const isNumeric = questionType === 'numeric';
+    const options: QuestionOption[] =
+      isChoiceQuestionType(questionType) && input.options
+        ? input.options.map((opt, index) => ({
+            id: generateId(),
+            optionText: opt.optionText.trim(),
+            isCorrect: opt.isCorrect,
+            optionOrder: index + 1,
+          }))
+        : [];
+    const acceptedAnswers =
+      questionType === 'short_text' && input.acceptedAnswers
+        ? input.acceptedAnswers.map((answer) => answer.trim())
+        : [];
+
+    const statements: Array<{ sql: string; params: unknown[] }> = [
+      {
+        sql: `INSERT INTO questions (id, instructor_id, question_type, scoring_mode, question_text, category, difficulty, points, time_limit_seconds, numeric_answer, numeric_tolerance, created_at, updated_at)
+              VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        params: [
+          questionId,
+          instructorId,
+          questionType,
+          input.scoringMode ?? 'all_or_nothing',
+          input.questionText.trim(),
+          input.category?.trim() || null,
+          input.difficulty,
+          input.points ?? 1,
+          input.timeLimitSeconds ?? null,
+          isNumeric ? input.numericAnswer : null,
+          isNumeric ? input.numericTolerance ?? 0 : null,
+          now,
+          now,
+        ],
+      },
+    ];
 
-    // Insert question
-    await executeMutation(
-      `INSERT INTO questions (id, instructor_id, question_text, category, difficulty, points, created_at, updated_at)
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
-      [
+    statements.push(
+      ...this.buildOptionStatements(questionId, options),
+      ...this.buildAcceptedAnswerStatements(questionId, acceptedAnswers),
+      ...QuestionVersionService.buildCreateStatements({
         questionId,
-        instructorId,
-        input.questionText.trim(),
-        input.category?.trim() || null,
-        input.difficulty,
-        points,
+        versionNumber: 1,
+        snapshot: {
+          questionType,
+          scoringMode: input.scoringMode ?? 'all_or_nothing',
+          questionText: input.questionText.trim(),
+          category: input.category?.trim() || null,
+          difficulty: input.difficulty,
+          points: input.points ?? 1,
+          timeLimitSeconds: input.timeLimitSeconds ?? null,
+          options,
+          numericAnswer: isNumeric ? input.numericAnswer ?? null : null,
+          numericTolerance: isNumeric ? input.numericTolerance ?? 0 : null,
+          acceptedAnswers,
+        },
+        createdBy: instructorId,
         now,
-        now,
-      ]
+      })
     );
 
-    console.log('✓ Question inserted with ID:', questionId);
-
-    // Insert options using batch
-    const optionStatements = input.options.map((opt, index) => ({
-      sql: `INSERT INTO options (id, question_id, option_text, is_correct, option_order)
-            VALUES (?, ?, ?, ?, ?)`,
-      params: [
-        generateId(),
-        questionId,
-        opt.optionText.trim(),
-        fromBoolean(opt.isCorrect),
-        index + 1,
-      ],
-    }));
-
-    await executeBatch(optionStatements);
-    console.log('✓ Options inserted:', input.options.length);
-
-    // Return the created question with options
-    const question = await this.getQuestionById(questionId, instructorId);
-    if (!question) {
-      throw new Error('Failed to retrieve created question');
-    }
-
-    console.log('✅ Question created successfully');
-    return question;
+    return statements;
   }
 
   /**
@@ -204,7 +357,8 @@ export class QuestionService {
     console.log('🔍 Fetching question:', questionId);
 
     const questionRow = await executeQueryFirst<any>(
-      `SELECT id, instructor_id, question_text, category, difficulty, points, created_at, updated_at
+      `SELECT id, instructor_id, question_type, scoring_mode, question_text, category, difficulty, points,
+              time_limit_seconds, numeric_answer, numeric_tolerance, created_at, updated_at, deleted_at
        FROM questions WHERE id = ?`,
       [questionId]
     );
@@ -217,7 +371,7 @@ export class QuestionService {
     // Fetch options
     const optionRows = await executeQuery<any>(
       `SELECT id, option_text, is_correct, option_order
-       FROM options WHERE question_id = ? ORDER BY option_order`,
+       FROM options WHERE question_id = ? AND retired_at IS NULL ORDER BY option_order`,
       [questionId]
     );
 
@@ -233,15 +387,29 @@ export class QuestionService {
     const question: Question = {
       id: questionRow.id as string,
       instructorId: questionRow.instructor_id as string,
+      questionType: (questionRow.question_type as QuestionType) ?? 'single_choice',
+      scoringMode: (questionRow.scoring_mode as ScoringMode) ?? 'all_or_nothing',
       questionText: questionRow.question_text as string,
       category: questionRow.category as string | null,
       difficulty: questionRow.difficulty as 'easy' | 'medium' | 'hard',
       points: questionRow.points as number,
+      timeLimitSeconds: (questionRow.time_limit_seconds as number | null) ?? null,
       createdAt: questionRow.created_at as string,
       updatedAt: questionRow.updated_at as string,
+      ...this.mapDeletion(questionRow.deleted_at ?? null),
       options,
     };
 
+    // Answer keys of typed-answer questions are only shown to instructors
+    if (!hideCorrectAnswer) {
+      if (question.questionType === 'numeric') {
+        question.numericAnswer = (questionRow.numeric_answer as number | null) ?? null;
+        question.numericTolerance = (questionRow.numeric_tolerance as number | null) ?? 0;
+      } else if (question.questionType === 'short_text') {
+        question.acceptedAnswers = await this.getAcceptedAnswers(questionId);
+      }
+    }
+
     console.log('✓ Question fetched with', options.length, 'options');
     return question;
   }
@@ -258,26 +426,7 @@ export class QuestionService {
     const limit = Math.min(params.limit ?? 20, 100); // Max 100 per page
     const offset = (page - 1) * limit;
 
-    // Build WHERE clause
-    const conditions: string[] = ['q.instructor_id = ?'];
-    const queryParams: any[] = [params.instructorId];
-
-    if (params.search) {
-      conditions.push('q.question_text LIKE ?');
-      queryParams.push(`%${params.search}%`);
-    }
-
-    if (params.category) {
-      conditions.push('q.category = ?');
-      queryParams.push(params.category);
-    }
-
-    if (params.difficulty) {
-      conditions.push('q.difficulty = ?');
-      queryParams.push(params.difficulty);
-    }
-
-    const whereClause = conditions.join(' AND ');
+    const { whereClause, queryParams } = this.buildListFilter(params);
 
     // Get total count
     const countResult = await executeQueryFirst<{ count: number }>(
@@ -288,12 +437,12 @@ export class QuestionService {
 
     // Get paginated questions
     const questions = await executeQuery<any>(
-      `SELECT q.id, q.instructor_id, q.question_text, q.category, q.difficulty, 
-              q.points, q.created_at, q.updated_at,
-              (SELECT COUNT(*) FROM options WHERE question_id = q.id) as option_count
+      `SELECT q.id, q.instructor_id, q.question_type, q.scoring_mode, q.question_text, q.category, q.difficulty, 
+              q.points, q.time_limit_seconds, q.created_at, q.updated_at, q.deleted_at,
+              (SELECT COUNT(*) FROM options WHERE question_id = q.id AND retired_at IS NULL) as option_count
        FROM questions q
        WHERE ${whereClause}
-       ORDER BY q.created_at DESC
+       ORDER BY ${params.deleted ? 'q.deleted_at' : 'q.created_at'} DESC
        LIMIT ? OFFSET ?`,
       [...queryParams, limit, offset]
     );
@@ -302,12 +451,16 @@ export class QuestionService {
     const data: Question[] = questions.map((row) => ({
       id: row.id as string,
       instructorId: row.instructor_id as string,
+      questionType: (row.question_type as QuestionType) ?? 'single_choice',
+      scoringMode: (row.scoring_mode as ScoringMode) ?? 'all_or_nothing',
       questionText: row.question_text as string,
       category: row.category as string | null,
       difficulty: row.difficulty as 'easy' | 'medium' | 'hard',
       points: row.points as number,
+      timeLimitSeconds: (row.time_limit_seconds as number | null) ?? null,
       createdAt: row.created_at as string,
       updatedAt: row.updated_at as string,
+      ...this.mapDeletion(row.deleted_at ?? null),
     }));
 
     console.log('✓ Found', total, 'questions, returning page', page);
@@ -321,33 +474,145 @@ export class QuestionService {
     };
   }
 
+  /**
+   * Get every question matching the list filters, with options and answer keys
+   * Used for exports; pagination parameters are ignored
+   */
+  static async listQuestionsWithAnswers(params: ListQuestionsParams): Promise<Question[]> {
+    console.log('📦 Loading questions with answers for instructor:', params.instructorId);
+
+    const { whereClause, queryParams } = this.buildListFilter(params);
+
+    const questionRows = await executeQuery<QuestionRow>(
+      `SELECT q.id, q.instructor_id, q.question_type, q.scoring_mode, q.question_text, q.category, q.difficulty,
+              q.points, q.time_limit_seconds, q.numeric_answer, q.numeric_tolerance, q.created_at, q.updated_at
+       FROM questions q
+       WHERE ${whereClause}
+       ORDER BY q.category, q.created_at`,
+      queryParams
+    );
+
+    // Load answers with subqueries rather than IN lists, which would exceed D1's bound parameter limit
+    const optionRows = await executeQuery<OptionRow>(
+      `SELECT id, question_id, option_text, is_correct, option_order
+       FROM options
+       WHERE question_id IN (SELECT q.id FROM questions q WHERE ${whereClause}) AND retired_at IS NULL
+       ORDER BY option_order`,
+      queryParams
+    );
+    const acceptedRows = await executeQuery<{ question_id: string; answer_text: string }>(
+      `SELECT question_id, answer_text
+       FROM question_accepted_answers
+       WHERE question_id IN (SELECT q.id FROM questions q WHERE ${whereClause})
+       ORDER BY answer_order`,
+      queryParams
+    );
+
+    const optionsByQuestion = new Map<string, QuestionOption[]>();
+    for (const row of optionRows) {
+      const options = optionsByQuestion.get(row.question_id) ?? [];
+      options.push({
+        id: row.id,
+        optionText: row.option_text,
+        isCorrect: toBoolean(row.is_correct),
+        optionOrder: row.option_order,
+      });
+      optionsByQuestion.set(row.question_id, options);
+    }
+
+    const acceptedByQuestion = new Map<string, string[]>();
+    for (const row of acceptedRows) {
+      const answers = acceptedByQuestion.get(row.question_id) ?? [];
+      answers.push(row.answer_text);
+      acceptedByQuestion.set(row.question_id, answers);
+    }
+
+    const questions: Question[] = questionRows.map((row) => {
+      const questionType = (row.question_type as QuestionType | null) ?? 'single_choice';
+      return {
+        id: row.id,
+        instructorId: row.instructor_id,
+        questionType,
+        scoringMode: (row.scoring_mode as ScoringMode | null) ?? 'all_or_nothing',
+        questionText: row.question_text,
+        category: row.category,
+        difficulty: row.difficulty as 'easy' | 'medium' | 'hard',
+        points: row.points,
+        timeLimitSeconds: row.time_limit_seconds ?? null,
+        createdAt: row.created_at,
+        updatedAt: row.updated_at,
+        options: optionsByQuestion.get(row.id) ?? [],
+        numericAnswer: questionType === 'numeric' ? row.numeric_answer : null,
+        numericTolerance: questionType === 'numeric' ? row.numeric_tolerance ?? 0 : null,
+        acceptedAnswers: acceptedByQuestion.get(row.id) ?? [],
+      };
+    });
+
+    console.log('✓ Loaded', questions.length, 'questions with answers');
+    return questions;
+  }
+
   /**
    * Update a question (with ownership verification)
+   * An edit that changes anything stores a new version; the fields that changed
+   * are written to the audit log
    */
   static async updateQuestion(
     questionId: string,
     instructorId: string,
-    input: UpdateQuestionInput
+    input: UpdateQuestionInput,
+    context: SessionContext = {},
+    restoredFrom: QuestionVersion | null = null
   ): Promise<Question> {
     console.log('✏️ Updating question:', questionId);
 
-    // Verify ownership
-    const existing = await executeQueryFirst<any>(
-      'SELECT id, instructor_id FROM questions WHERE id = ?',
-      [questionId]
-    );
+    // Verify ownership; the stored question is the audit "before" and supplies whatever the edit keeps
+    const current = await this.getQuestionById(questionId, instructorId);
 
-    if (!existing) {
+    if (!current) {
       throw new Error('Question not found');
     }
 
-    if (existing.instructor_id !== instructorId) {
+    if (current.instructorId !== instructorId) {
       throw new Error('You do not have permission to update this question');
     }
 
+    if (current.deletedAt) {
+      throw new Error('Restore the question from the trash before editing it');
+    }
+
+    const questionType: QuestionType = input.questionType ?? current.questionType;
+    const scoringMode: ScoringMode = input.scoringMode ?? current.scoringMode;
+    this.validateQuestionType(questionType, scoringMode);
+
+    // Validate the answer key up front; a type change must also fit the answers being kept
+    const typeChanged =
+      input.questionType !== undefined && input.questionType !== current.questionType;
+    const isChoice = isChoiceQuestionType(questionType);
+
+    if (isChoice && input.options !== undefined) {
+      this.validateOptions(questionType, input.options);
+    } else if (isChoice && typeChanged) {
+      this.validateOptions(questionType, current.options);
+    }
+
+    const updatesNumeric =
+      questionType === 'numeric' &&
+      (typeChanged || input.numericAnswer !== undefined || input.numericTolerance !== undefined);
+    const numericAnswer = input.numericAnswer ?? (typeChanged ? undefined : current.numericAnswer);
+    const numericTolerance = input.numericTolerance ?? current.numericTolerance ?? 0;
+    if (updatesNumeric) {
+      this.validateNumericAnswer(numericAnswer, numericTolerance);
+    }
+
+    let acceptedAnswers: string[] | null = null;
+    if (questionType === 'short_text' && (typeChanged || input.acceptedAnswers !== undefined)) {
+      acceptedAnswers = this.validateAcceptedAnswers(input.acceptedAnswers);
+    }
+
     // Build update fields
     const updates: string[] = [];
-    const updateParams: any[] = [];
+    const updateParams: unknown[] = [];
 
     if (input.questionText !== undefined) {
       if (input.questionText.trim().length < 10) {
@@ -381,136 +646,338 @@ export class QuestionService {
       updateParams.push(input.points);
     }
 
+    if (input.timeLimitSeconds !== undefined) {
+      this.validateTimeLimit(input.timeLimitSeconds);
+      updates.push('time_limit_seconds = ?');
+      updateParams.push(input.timeLimitSeconds);
+    }
+
+    if (input.questionType !== undefined) {
+      updates.push('question_type = ?');
+      updateParams.push(questionType);
+    }
+
+    if (input.scoringMode !== undefined) {
+      updates.push('scoring_mode = ?');
+      updateParams.push(scoringMode);
+    }
+
+    if (updatesNumeric) {
+      updates.push('numeric_answer = ?', 'numeric_tolerance = ?');
+      updateParams.push(numericAnswer, numericTolerance);
+    } else if (typeChanged && questionType !== 'numeric') {
+      updates.push('numeric_answer = NULL', 'numeric_tolerance = NULL');
+    }
+
     // Always update the updated_at timestamp
+    const now = new Date().toISOString();
     updates.push('updated_at = ?');
-    updateParams.push(new Date().toISOString());
+    updateParams.push(now);
+
+    // Every write goes into one batch, so an edit is never stored without its version and audit record
+    const statements: Array<{ sql: string; params: unknown[] }> = [
+      {
+        sql: `UPDATE questions SET ${updates.join(', ')} WHERE id = ?`,
+        params: [...updateParams, questionId],
+      },
+    ];
+
+    // Replace options if provided (validated above); other types keep no options.
+    // Replaced options are retired rather than deleted, so past attempts keep their selections
+    let options = isChoice ? current.options ?? [] : [];
+    if ((typeChanged && !isChoice) || (isChoice && input.options !== undefined)) {
+      statements.push({
+        sql: 'UPDATE options SET retired_at = ? WHERE question_id = ? AND retired_at IS NULL',
+        params: [now, questionId],
+      });
+    }
 
-    // Update question if there are changes
-    if (updates.length > 0) {
-      await executeMutation(
-        `UPDATE questions SET ${updates.join(', ')} WHERE id = ?`,
-        [...updateParams, questionId]
+    if (isChoice && input.options !== undefined) {
+      options = input.options.map((opt, index) => ({
+        id: generateId(),
+        optionText: opt.optionText.trim(),
+        isCorrect: opt.isCorrect,
+        optionOrder: index + 1,
+      }));
+      statements.push(...this.buildOptionStatements(questionId, options));
+    }
+
+    // Replace accepted answers of short-text questions, or drop them when the type changes
+    if (acceptedAnswers !== null || (typeChanged && questionType !== 'short_text')) {
+      statements.push(
+        { sql: 'DELETE FROM question_accepted_answers WHERE question_id = ?', params: [questionId] },
+        ...this.buildAcceptedAnswerStatements(questionId, acceptedAnswers ?? [])
       );
-      console.log('✓ Question fields updated');
     }
 
-    // Update options if provided
-    if (input.options !== undefined) {
-      // Validate options
-      if (input.options.length !== 4 && input.options.length !== 6) {
-        throw new Error('Question must have exactly 4 or 6 options');
-      }
+    // The question as it reads once the batch is applied
+    const updated: Question = {
+      ...current,
+      questionType,
+      scoringMode,
+      questionText: input.questionText?.trim() ?? current.questionText,
+      category: input.category !== undefined ? input.category?.trim() || null : current.category,
+      difficulty: input.difficulty ?? current.difficulty,
+      points: input.points ?? current.points,
+      timeLimitSeconds:
+        input.timeLimitSeconds !== undefined ? input.timeLimitSeconds : current.timeLimitSeconds,
+      updatedAt: now,
+      options,
+      numericAnswer: questionType === 'numeric' ? numericAnswer ?? null : undefined,
+      numericTolerance: questionType === 'numeric' ? numericTolerance : undefined,
+      acceptedAnswers:
+        questionType === 'short_text' ? acceptedAnswers ?? current.acceptedAnswers ?? [] : undefined,
+    };
 
-      const correctOptions = input.options.filter((opt) => opt.isCorrect);
-      if (correctOptions.length !== 1) {
-        throw new Error('Question must have exactly one correct answer');
-      }
+    // Store the new version together with its audit record
+    const changes = AuditService.diff(this.toAuditSnapshot(current), this.toAuditSnapshot(updated));
+    let versionNumber: number | null = null;
 
-      for (const opt of input.options) {
-        if (!opt.optionText || opt.optionText.trim().length < 1) {
-          throw new Error('Option text cannot be empty');
-        }
-        if (opt.optionText.length > 500) {
-          throw new Error('Option text must not exceed 500 characters');
-        }
-      }
+    if (Object.keys(changes).length > 0) {
+      versionNumber = await QuestionVersionService.getNextVersionNumber(questionId);
+      statements.push(
+        ...QuestionVersionService.buildCreateStatements({
+          questionId,
+          versionNumber,
+          snapshot: this.toVersionSnapshot(updated),
+          createdBy: instructorId,
+          restoredFrom: restoredFrom?.versionNumber ?? null,
+          now,
+        })
+      );
+    }
 
-      // Delete existing options
-      await executeMutation('DELETE FROM options WHERE question_id = ?', [questionId]);
-      console.log('✓ Existing options deleted');
+    statements.push(
+      AuditService.buildRecordStatement({
+        actorId: instructorId,
+        action: restoredFrom ? 'question.restore' : 'question.update',
+        targetType: 'question',
+        targetId: questionId,
+        ownerId: current.instructorId,
+        metadata: restoredFrom
+          ? { restoredFrom: restoredFrom.versionNumber, versionNumber }
+          : { versionNumber },
+        changes,
+        ipAddress: context.ipAddress,
+      })
+    );
+    await executeBatch(statements);
 
-      // Insert new options
-      const optionStatements = input.options.map((opt, index) => ({
-        sql: `INSERT INTO options (id, question_id, option_text, is_correct, option_order)
-              VALUES (?, ?, ?, ?, ?)`,
-        params: [
-          generateId(),
-          questionId,
-          opt.optionText.trim(),
-          fromBoolean(opt.isCorrect),
-          index + 1,
-        ],
-      }));
+    console.log('✅ Question updated successfully', versionNumber ? `(version ${versionNumber})` : '');
+    return updated;
+  }
+
+  /**
+   * Roll a question back to an earlier version
+   * The rollback is stored as a new version, so the versions in between stay in the history
+   */
+  static async restoreVersion(
+    questionId: string,
+    versionId: string,
+    instructorId: string,
+    context: SessionContext = {}
+  ): Promise<Question> {
+    console.log('⏪ Restoring question', questionId, 'to version:', versionId);
 
-      await executeBatch(optionStatements);
-      console.log('✓ New options inserted:', input.options.length);
+    const version = await QuestionVersionService.getVersion(versionId);
+    if (!version || version.questionId !== questionId) {
+      throw new Error('Version not found');
     }
 
-    // Return updated question
-    const updated = await this.getQuestionById(questionId, instructorId);
-    if (!updated) {
-      throw new Error('Failed to retrieve updated question');
+    if (version.isCurrent) {
+      throw new Error('This version is already the current version');
     }
 
-    console.log('✅ Question updated successfully');
-    return updated;
+    const { snapshot } = version;
+    return this.updateQuestion(
+      questionId,
+      instructorId,
+      {
+        questionType: snapshot.questionType,
+        scoringMode: snapshot.scoringMode,
+        questionText: snapshot.questionText,
+        category: snapshot.category ?? '',
+        difficulty: snapshot.difficulty,
+        points: snapshot.points,
+        timeLimitSeconds: snapshot.timeLimitSeconds,
+        options: isChoiceQuestionType(snapshot.questionType)
+          ? snapshot.options.map((option) => ({
+              optionText: option.optionText,
+              isCorrect: option.isCorrect,
+            }))
+          : undefined,
+        numericAnswer: snapshot.numericAnswer ?? undefined,
+        numericTolerance: snapshot.numericTolerance ?? undefined,
+        acceptedAnswers:
+          snapshot.questionType === 'short_text' ? snapshot.acceptedAnswers : undefined,
+      },
+      context,
+      version
+    );
   }
 
   /**
-   * Delete a question (with ownership verification)
+   * Move a question to the trash (with ownership verification)
+   * The question and its attempts are kept; it is hidden from students and lists
+   * until restored, and can be purged after the retention window
    */
   static async deleteQuestion(
     questionId: string,
     instructorId: string,
-    force: boolean = false
-  ): Promise<{ deleted: boolean; message: string }> {
-    console.log('🗑️ Deleting question:', questionId);
+    context: SessionContext = {}
+  ): Promise<{ deleted: boolean; message: string; purgeableAt: string }> {
+    console.log('🗑️ Moving question to the trash:', questionId);
 
-    // Verify ownership
-    const existing = await executeQueryFirst<any>(
-      'SELECT id, instructor_id FROM questions WHERE id = ?',
+    const existing = await this.requireOwnedQuestion(questionId, instructorId, 'delete');
+
+    if (existing.deleted_at) {
+      throw new Error('Question is already in the trash');
+    }
+
+    const attemptCount = await executeQueryFirst<{ count: number }>(
+      'SELECT COUNT(*) as count FROM quiz_attempts WHERE question_id = ?',
       [questionId]
     );
 
-    if (!existing) {
-      throw new Error('Question not found');
+    const deletedAt = new Date().toISOString();
+    await executeBatch([
+      {
+        sql: 'UPDATE questions SET deleted_at = ? WHERE id = ? AND deleted_at IS NULL',
+        params: [deletedAt, questionId],
+      },
+      AuditService.buildRecordStatement({
+        actorId: instructorId,
+        action: 'question.delete',
+        targetType: 'question',
+        targetId: questionId,
+        ownerId: existing.instructor_id,
+        metadata: { attemptCount: attemptCount?.count ?? 0 },
+        changes: { deletedAt: { before: null, after: deletedAt } },
+        ipAddress: context.ipAddress,
+      }),
+    ]);
+
+    console.log('✅ Question moved to the trash');
+    return {
+      deleted: true,
+      message: 'Question moved to the trash',
+      purgeableAt: this.getPurgeableAt(deletedAt),
+    };
+  }
+
+  /**
+   * Restore a question from the trash (with ownership verification)
+   */
+  static async restoreQuestion(
+    questionId: string,
+    instructorId: string,
+    context: SessionContext = {}
+  ): Promise<Question> {
+    console.log('♻️ Restoring question from the trash:', questionId);
+
+    const existing = await this.requireOwnedQuestion(questionId, instructorId, 'restore');
+
+    if (!existing.deleted_at) {
+      throw new Error('Question is not in the trash');
     }
 
-    if (existing.instructor_id !== instructorId) {
-      throw new Error('You do not have permission to delete this question');
+    await executeBatch([
+      {
+        sql: 'UPDATE questions SET deleted_at = NULL WHERE id = ?',
+        params: [questionId],
+      },
+      AuditService.buildRecordStatement({
+        actorId: instructorId,
+        action: 'question.undelete',
+        targetType: 'question',
+        targetId: questionId,
+        ownerId: existing.instructor_id,
+        changes: { deletedAt: { before: existing.deleted_at, after: null } },
+        ipAddress: context.ipAddress,
+      }),
+    ]);
+
+    const restored = await this.getQuestionById(questionId, instructorId);
+    if (!restored) {
+      throw new Error('Failed to retrieve restored question');
     }
 
-    // Check for quiz attempts
-    if (!force) {
-      const attemptCount = await executeQueryFirst<{ count: number }>(
-        'SELECT COUNT(*) as count FROM quiz_attempts WHERE question_id = ?',
-        [questionId]
-      );
+    console.log('✅ Question restored');
+    return restored;
+  }
 
-      if (attemptCount && attemptCount.count > 0) {
-        throw new Error(
-          `Cannot delete question with ${attemptCount.count} quiz attempts. ` +
-          'Use force=true to delete anyway (this will also delete all attempts).'
-        );
-      }
+  /**
+   * Permanently delete a trashed question (with ownership verification)
+   * Only allowed once the retention window has passed, and never for questions
+   * students have answered, since their attempts would be deleted with it
+   */
+  static async purgeQuestion(
+    questionId: string,
+    instructorId: string,
+    context: SessionContext = {}
+  ): Promise<{ purged: boolean; message: string }> {
+    console.log('🔥 Purging question:', questionId);
+
+    const existing = await this.requireOwnedQuestion(questionId, instructorId, 'purge');
+
+    if (!existing.deleted_at) {
+      throw new Error('Only questions in the trash can be purged');
     }
 
-    // Delete question (CASCADE will handle options and attempts)
-    await executeMutation('DELETE FROM questions WHERE id = ?', [questionId]);
+    const purgeableAt = this.getPurgeableAt(existing.deleted_at);
+    if (new Date(purgeableAt).getTime() > Date.now()) {
+      throw new Error(
+        `Questions can be purged ${QUESTION_TRASH_RETENTION_DAYS} days after deletion (from ${purgeableAt})`
+      );
+    }
 
-    console.log('✅ Question deleted successfully');
-    return {
-      deleted: true,
-      message: force
-        ? 'Question and associated data deleted successfully'
-        : 'Question deleted successfully',
-    };
+    const attemptCount = await executeQueryFirst<{ count: number }>(
+      'SELECT COUNT(*) as count FROM quiz_attempts WHERE question_id = ?',
+      [questionId]
+    );
+    if ((attemptCount?.count ?? 0) > 0) {
+      throw new Error(
+        `Cannot purge a question with ${attemptCount?.count} quiz attempts; it is kept for their history`
+      );
+    }
+
+    const before = await this.getAuditSnapshot(existing);
+
+    // Delete question (CASCADE will handle options and versions)
+    await executeBatch([
+      { sql: 'DELETE FROM questions WHERE id = ?', params: [questionId] },
+      AuditService.buildRecordStatement({
+        actorId: instructorId,
+        action: 'question.purge',
+        targetType: 'question',
+        targetId: questionId,
+        ownerId: existing.instructor_id,
+        changes: AuditService.diff(before, null),
+        ipAddress: context.ipAddress,
+      }),
+    ]);
+
+    console.log('✅ Question purged');
+    return { purged: true, message: 'Question permanently deleted' };
   }
 
   /**
    * Get a random question for quiz (optionally excluding already attempted)
+   * The issue time is stamped so the answer can be timed server-side
    */
   static async getRandomQuestion(
     studentId: string,
     excludeAttempted: boolean = false,
     category?: string,
-    difficulty?: 'easy' | 'medium' | 'hard'
+    difficulty?: 'easy' | 'medium' | 'hard',
+    courseId?: string
   ): Promise<Question | null> {
     console.log('🎲 Getting random question for student:', studentId);
 
-    // Build WHERE clause
-    const conditions: string[] = ['1=1'];
-    const queryParams: any[] = [];
+    // Build WHERE clause; only questions of the student's courses are served, never trashed ones
+    const courseFilter = CourseService.buildStudentQuestionFilter(studentId, courseId);
+    const conditions: string[] = ['q.deleted_at IS NULL', courseFilter.sql];
+    const queryParams: any[] = [...courseFilter.params];
 
     if (excludeAttempted) {
       conditions.push(
@@ -533,8 +1000,8 @@ export class QuestionService {
 
     // Get random question
     const questionRow = await executeQueryFirst<any>(
-      `SELECT q.id, q.instructor_id, q.question_text, q.category, q.difficulty, 
-              q.points, q.created_at, q.updated_at
+      `SELECT q.id, q.instructor_id, q.question_type, q.scoring_mode, q.question_text, q.category, q.difficulty, 
+              q.points, q.time_limit_seconds, q.created_at, q.updated_at
        FROM questions q
        WHERE ${whereClause}
        ORDER BY RANDOM()
@@ -550,7 +1017,7 @@ export class QuestionService {
     // Get options (hiding correct answer from student)
     const optionRows = await executeQuery<any>(
       `SELECT id, option_text, is_correct, option_order
-       FROM options WHERE question_id = ? ORDER BY option_order`,
+       FROM options WHERE question_id = ? AND retired_at IS NULL ORDER BY option_order`,
       [questionRow.id]
     );
 
@@ -564,15 +1031,24 @@ export class QuestionService {
     const question: Question = {
       id: questionRow.id as string,
       instructorId: questionRow.instructor_id as string,
+      questionType: (questionRow.question_type as QuestionType) ?? 'single_choice',
+      scoringMode: (questionRow.scoring_mode as ScoringMode) ?? 'all_or_nothing',
       questionText: questionRow.question_text as string,
       category: questionRow.category as string | null,
       difficulty: questionRow.difficulty as 'easy' | 'medium' | 'hard',
       points: questionRow.points as number,
+      timeLimitSeconds: (questionRow.time_limit_seconds as number | null) ?? null,
       createdAt: questionRow.created_at as string,
       updatedAt: questionRow.updated_at as string,
       options,
     };
 
+    const issue = await QuizService.issueQuestion(studentId, question.id, {
+      timeLimitSeconds: question.timeLimitSeconds,
+    });
+    question.issuedAt = issue.issuedAt;
+    question.deadlineAt = issue.deadlineAt;
+
     console.log('✓ Random question selected:', question.id);
     return question;
   }
@@ -588,7 +1064,7 @@ export class QuestionService {
 
     // Verify ownership
     const question = await executeQueryFirst<any>(
-      'SELECT id, instructor_id FROM questions WHERE id = ?',
+      'SELECT id, instructor_id, question_type FROM questions WHERE id = ?',
       [questionId]
     );
 
@@ -605,29 +1081,40 @@ export class QuestionService {
       `SELECT 
          COUNT(*) as total_attempts,
          SUM(CASE WHEN is_correct = 1 THEN 1 ELSE 0 END) as correct_attempts,
+         SUM(CASE WHEN is_correct = 0 AND score > 0 THEN 1 ELSE 0 END) as partial_attempts,
          AVG(time_taken_seconds) as avg_time
        FROM quiz_attempts
        WHERE question_id = ?`,
       [questionId]
     );
 
-    // Get option distribution
+    // Get option distribution; multi-select attempts count towards every option they selected
     const optionStats = await executeQuery<any>(
       `SELECT 
          o.id as option_id,
          o.option_text,
          o.is_correct,
-         COUNT(qa.id) as selection_count
+         COUNT(s.attempt_id) as selection_count
        FROM options o
-       LEFT JOIN quiz_attempts qa ON qa.selected_option_id = o.id
-       WHERE o.question_id = ?
+       LEFT JOIN quiz_attempt_selections s ON s.option_id = o.id
+       WHERE o.question_id = ? AND o.retired_at IS NULL
        GROUP BY o.id
        ORDER BY o.option_order`,
       [questionId]
     );
 
+    // Only attempts answered with the current options count towards their percentages
+    const optionAttempts = await executeQueryFirst<{ count: number }>(
+      `SELECT COUNT(DISTINCT s.attempt_id) as count
+       FROM quiz_attempt_selections s
+       JOIN options o ON o.id = s.option_id
+       WHERE o.question_id = ? AND o.retired_at IS NULL`,
+      [questionId]
+    );
+
     const totalAttempts = (stats?.total_attempts as number) || 0;
     const correctAttempts = (stats?.correct_attempts as number) || 0;
+    const currentOptionAttempts = optionAttempts?.count ?? 0;
 
     const optionDistribution = optionStats.map((row) => ({
       optionId: row.option_id as string,
@@ -635,8 +1122,8 @@ export class QuestionService {
       isCorrect: toBoolean(row.is_correct),
       selectionCount: (row.selection_count as number) || 0,
       selectionPercentage:
-        totalAttempts > 0
-          ? Math.round(((row.selection_count as number) / totalAttempts) * 100)
+        currentOptionAttempts > 0
+          ? Math.round(((row.selection_count as number) / currentOptionAttempts) * 100)
           : 0,
     }));
 
@@ -644,14 +1131,47 @@ export class QuestionService {
 
     return {
       questionId,
+      questionType: (question.question_type as QuestionType) ?? 'single_choice',
       totalAttempts,
       correctAttempts,
+      partialCreditAttempts: (stats?.partial_attempts as number) || 0,
       successRate: totalAttempts > 0 ? Math.round((correctAttempts / totalAttempts) * 100) : 0,
       averageTimeSeconds: stats?.avg_time ? Math.round(stats.avg_time as number) : null,
       optionDistribution,
     };
   }
 
+  /**
+   * Verify that every question exists and belongs to the instructor
+   * Used when other entities (e.g. quizzes) reference an instructor's questions
+   */
+  static async assertQuestionsOwned(
+    questionIds: string[],
+    instructorId: string
+  ): Promise<void> {
+    if (questionIds.length === 0) {
+      return;
+    }
+
+    const placeholders = questionIds.map(() => '?').join(', ');
+    const rows = await executeQuery<{ id: string; instructor_id: string }>(
+      `SELECT id, instructor_id FROM questions WHERE id IN (${placeholders}) AND deleted_at IS NULL`,
+      questionIds
+    );
+
+    const ownerById = new Map(rows.map((row) => [row.id, row.instructor_id]));
+
+    for (const questionId of questionIds) {
+      const ownerId = ownerById.get(questionId);
+      if (!ownerId) {
+        throw new Error(`Question not found: ${questionId}`);
+      }
+      if (ownerId !== instructorId) {
+        throw new Error(`You do not have permission to use question ${questionId}`);
+      }
+    }
+  }
+
   /**
    * Get all categories used by an instructor
    */
@@ -660,7 +1180,7 @@ export class QuestionService {
 
     const rows = await executeQuery<{ category: string }>(
       `SELECT DISTINCT category FROM questions 
-       WHERE instructor_id = ? AND category IS NOT NULL
+       WHERE instructor_id = ? AND category IS NOT NULL AND deleted_at IS NULL
        ORDER BY category`,
       [instructorId]
     );
@@ -669,5 +1189,322 @@ export class QuestionService {
     console.log('✓ Found', categories.length, 'categories');
     return categories;
   }
-}
 
+  /**
+   * Build the WHERE clause shared by listQuestions and listQuestionsWithAnswers
+   */
+  private static buildListFilter(params: ListQuestionsParams): {
+    whereClause: string;
+    queryParams: unknown[];
+  } {
+    const conditions: string[] = [
+      'q.instructor_id = ?',
+      params.deleted ? 'q.deleted_at IS NOT NULL' : 'q.deleted_at IS NULL',
+    ];
+    const queryParams: unknown[] = [params.instructorId];
+
+    if (params.search) {
+      conditions.push('q.question_text LIKE ?');
+      queryParams.push(`%${params.search}%`);
+    }
+
+    if (params.category) {
+      conditions.push('q.category = ?');
+      queryParams.push(params.category);
+    }
+
+    if (params.difficulty) {
+      conditions.push('q.difficulty = ?');
+      queryParams.push(params.difficulty);
+    }
+
+    if (params.courseId) {
+      conditions.push('q.id IN (SELECT question_id FROM course_questions WHERE course_id = ?)');
+      queryParams.push(params.courseId);
+    }
+
+    return { whereClause: conditions.join(' AND '), queryParams };
+  }
+
+  /**
+   * Validate the question type and its scoring mode
+   */
+  private static validateQuestionType(questionType: QuestionType, scoringMode: ScoringMode): void {
+    if (!QUESTION_TYPES.includes(questionType)) {
+      throw new Error(`Question type must be one of: ${QUESTION_TYPES.join(', ')}`);
+    }
+    if (!SCORING_MODES.includes(scoringMode)) {
+      throw new Error(`Scoring mode must be one of: ${SCORING_MODES.join(', ')}`);
+    }
+  }
+
+  /**
+   * Validate the answer options for a question type
+   */
+  private static validateOptions(
+    questionType: QuestionType,
+    options: Array<{ optionText: string; isCorrect: boolean }> | undefined
+  ): void {
+    if (questionType === 'true_false') {
+      if (!options || options.length !== 2) {
+        throw new Error('True/false question must have exactly 2 options');
+      }
+    } else if (!options || (options.length !== 4 && options.length !== 6)) {
+      throw new Error('Question must have exactly 4 or 6 options');
+    }
+
+    const correctCount = options.filter((opt) => opt.isCorrect).length;
+    if (questionType === 'multi_select') {
+      if (correctCount < 1) {
+        throw new Error('Multi-select question must have at least one correct answer');
+      }
+    } else if (correctCount !== 1) {
+      throw new Error('Question must have exactly one correct answer');
+    }
+
+    // Validate each option text
+    for (const opt of options) {
+      if (!opt.optionText || opt.optionText.trim().length < 1) {
+        throw new Error('Option text cannot be empty');
+      }
+      if (opt.optionText.length > 500) {
+        throw new Error('Option text must not exceed 500 characters');
+      }
+    }
+  }
+
+  /**
+   * Validate the correct value and tolerance of a numeric question
+   */
+  private static validateNumericAnswer(
+    numericAnswer: number | null | undefined,
+    numericTolerance: number | null | undefined
+  ): void {
+    if (typeof numericAnswer !== 'number' || !Number.isFinite(numericAnswer)) {
+      throw new Error('Numeric question must have a numeric answer');
+    }
+    if (
+      typeof numericTolerance !== 'number' ||
+      !Number.isFinite(numericTolerance) ||
+      numericTolerance < 0
+    ) {
+      throw new Error('Tolerance must be zero or a positive number');
+    }
+  }
+
+  /**
+   * Validate the accepted answers of a short-text question and return them trimmed
+   */
+  private static validateAcceptedAnswers(acceptedAnswers: string[] | undefined): string[] {
+    if (!acceptedAnswers || acceptedAnswers.length === 0) {
+      throw new Error('Short-text question must have at least one accepted answer');
+    }
+    if (acceptedAnswers.length > MAX_ACCEPTED_ANSWERS) {
+      throw new Error(`Short-text question can have at most ${MAX_ACCEPTED_ANSWERS} accepted answers`);
+    }
+
+    const seen = new Set<string>();
+    const trimmed: string[] = [];
+    for (const answer of acceptedAnswers) {
+      if (typeof answer !== 'string' || answer.trim().length < 1) {
+        throw new Error('Accepted answer cannot be empty');
+      }
+      if (answer.length > MAX_ACCEPTED_ANSWER_LENGTH) {
+        throw new Error(`Accepted answer must not exceed ${MAX_ACCEPTED_ANSWER_LENGTH} characters`);
+      }
+
+      const normalized = normalizeTextAnswer(answer);
+      if (seen.has(normalized)) {
+        throw new Error('Accepted answers must be unique (ignoring case and spacing)');
+      }
+      seen.add(normalized);
+      trimmed.push(answer.trim());
+    }
+
+    return trimmed;
+  }
+
+  /**
+   * Load the accepted answers of a short-text question in order
+   */
+  private static async getAcceptedAnswers(questionId: string): Promise<string[]> {
+    const rows = await executeQuery<{ answer_text: string }>(
+      `SELECT answer_text FROM question_accepted_answers
+       WHERE question_id = ? ORDER BY answer_order`,
+      [questionId]
+    );
+    return rows.map((row) => row.answer_text);
+  }
+
+  /**
+   * Snapshot of a stored question's editable fields and answer key, for audit diffs
+   */
+  private static async getAuditSnapshot(
+    questionRow: Omit<QuestionRow, 'created_at' | 'updated_at'>
+  ): Promise<Record<string, unknown>> {
+    const optionRows = await executeQuery<OptionRow>(
+      `SELECT id, question_id, option_text, is_correct, option_order
+       FROM options WHERE question_id = ? AND retired_at IS NULL ORDER BY option_order`,
+      [questionRow.id]
+    );
+
+    return this.toAuditSnapshot({
+      questionType: (questionRow.question_type as QuestionType | null) ?? 'single_choice',
+      scoringMode: (questionRow.scoring_mode as ScoringMode | null) ?? 'all_or_nothing',
+      questionText: questionRow.question_text,
+      category: questionRow.category,
+      difficulty: questionRow.difficulty as 'easy' | 'medium' | 'hard',
+      points: questionRow.points,
+      timeLimitSeconds: questionRow.time_limit_seconds ?? null,
+      options: optionRows.map((row) => ({
+        id: row.id,
+        optionText: row.option_text,
+        isCorrect: toBoolean(row.is_correct),
+        optionOrder: row.option_order,
+      })),
+      numericAnswer: questionRow.numeric_answer ?? null,
+      numericTolerance: questionRow.numeric_tolerance ?? null,
+      acceptedAnswers:
+        questionRow.question_type === 'short_text' ? await this.getAcceptedAnswers(questionRow.id) : [],
+    });
+  }
+
+  /**
+   * Editable fields and answer key of a question, for audit diffs
+   * Option ids are left out since options are replaced on every edit
+   */
+  private static toAuditSnapshot(
+    question: Omit<Question, 'id' | 'instructorId' | 'createdAt' | 'updatedAt'>
+  ): Record<string, unknown> {
+    return {
+      questionType: question.questionType,
+      scoringMode: question.scoringMode,
+      questionText: question.questionText,
+      category: question.category,
+      difficulty: question.difficulty,
+      points: question.points,
+      timeLimitSeconds: question.timeLimitSeconds,
+      options: (question.options ?? []).map((option) => ({
+        optionText: option.optionText,
+        isCorrect: option.isCorrect,
+      })),
+      numericAnswer: question.numericAnswer ?? null,
+      numericTolerance: question.numericTolerance ?? null,
+      acceptedAnswers: question.acceptedAnswers ?? [],
+    };
+  }
+
+  /**
+   * Load a question for a trash operation and verify the instructor owns it
+   */
+  private static async requireOwnedQuestion(
+    questionId: string,
+    instructorId: string,
+    action: string
+  ): Promise<Omit<QuestionRow, 'created_at' | 'updated_at'>> {
+    const existing = await executeQueryFirst<Omit<QuestionRow, 'created_at' | 'updated_at'>>(
+      `SELECT id, instructor_id, question_type, scoring_mode, question_text, category, difficulty, points,
+              time_limit_seconds, numeric_answer, numeric_tolerance, deleted_at
+       FROM questions WHERE id = ?`,
+      [questionId]
+    );
+
+    if (!existing) {
+      throw new Error('Question not found');
+    }
+
+    if (existing.instructor_id !== instructorId) {
+      throw new Error(`You do not have permission to ${action} this question`);
+    }
+
+    return existing;
+  }
+
+  /**
+   * Earliest time a question deleted at the given time can be purged
+   */
+  private static getPurgeableAt(deletedAt: string): string {
+    return new Date(
+      new Date(deletedAt).getTime() + QUESTION_TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000
+    ).toISOString();
+  }
+
+  /**
+   * Trash fields of a question row, left out for active questions
+   */
+  private static mapDeletion(deletedAt: string | null): Pick<Question, 'deletedAt' | 'purgeableAt'> {
+    return deletedAt ? { deletedAt, purgeableAt: this.getPurgeableAt(deletedAt) } : {};
+  }
+
+  /**
+   * Version snapshot of a question as returned to its instructor
+   */
+  private static toVersionSnapshot(question: Question): QuestionVersionSnapshot {
+    return {
+      questionType: question.questionType,
+      scoringMode: question.scoringMode,
+      questionText: question.questionText,
+      category: question.category,
+      difficulty: question.difficulty,
+      points: question.points,
+      timeLimitSeconds: question.timeLimitSeconds,
+      options: question.options ?? [],
+      numericAnswer: question.numericAnswer ?? null,
+      numericTolerance: question.numericTolerance ?? null,
+      acceptedAnswers: question.acceptedAnswers ?? [],
+    };
+  }
+
+  /**
+   * Build insert statements for a question's options
+   */
+  private static buildOptionStatements(
+    questionId: string,
+    options: QuestionOption[]
+  ): Array<{ sql: string; params: unknown[] }> {
+    return options.map((option) => ({
+      sql: `INSERT INTO options (id, question_id, option_text, is_correct, option_order)
+            VALUES (?, ?, ?, ?, ?)`,
+      params: [
+        option.id,
+        questionId,
+        option.optionText,
+        fromBoolean(option.isCorrect),
+        option.optionOrder,
+      ],
+    }));
+  }
+
+  /**
+   * Build insert statements for a question's accepted answers
+   */
+  private static buildAcceptedAnswerStatements(
+    questionId: string,
+    acceptedAnswers: string[]
+  ): Array<{ sql: string; params: unknown[] }> {
+    return acceptedAnswers.map((answer, index) => ({
+      sql: `INSERT INTO question_accepted_answers (id, question_id, answer_text, answer_order)
+            VALUES (?, ?, ?, ?)`,
+      params: [generateId(), questionId, answer, index + 1],
+    }));
+  }
+
+  /**
+   * Validate an optional per-question time limit (null means untimed)
+   */
+  private static validateTimeLimit(timeLimitSeconds: number | null): void {
+    if (timeLimitSeconds === null) {
+      return;
+    }
+
+    if (
+      !Number.isInteger(timeLimitSeconds) ||
+      timeLimitSeconds < MIN_QUESTION_TIME_LIMIT_SECONDS ||
+      timeLimitSeconds > MAX_QUESTION_TIME_LIMIT_SECONDS
+    ) {
+      throw new Error(
+        `Time limit must be between ${MIN_QUESTION_TIME_LIMIT_SECONDS} and ${MAX_QUESTION_TIME_LIMIT_SECONDS} seconds`
+      );
+    }
+  }
+}
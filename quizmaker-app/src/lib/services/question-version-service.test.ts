@@ -0,0 +1,148 @@
+/**
+ * Question Version Service Unit Tests
+ *
+ * Tests version statements, numbering and the version history with its diffs.
+ *
+ * @fileoverview Unit tests for src/lib/services/question-version-service.ts
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { QuestionVersionService } from './question-version-service';
+
+// ============================================
+// Mock Setup for D1 Client
+// ============================================
+
+vi.mock('@/lib/d1-client', () => ({
+  executeQuery: vi.fn(),
+  executeQueryFirst: vi.fn(),
+  executeMutation: vi.fn(),
+  executeBatch: vi.fn(),
+  generateId: vi.fn(() => 'mock-uuid-12345'),
+  toBoolean: vi.fn((value: unknown) => value === 1 || value === true),
+  fromBoolean: vi.fn((value: boolean) => (value ? 1 : 0)),
+}));
+
+import { executeQuery, executeQueryFirst } from '@/lib/d1-client';
+
+// ============================================
+// Test Fixtures
+// ============================================
+
+function createSnapshot(overrides: Record<string, unknown> = {}) {
+  return {
+    questionType: 'single_choice',
+    scoringMode: 'all_or_nothing',
+    questionText: 'What is the capital of France?',
+    category: null,
+    difficulty: 'easy',
+    points: 1,
+    timeLimitSeconds: null,
+    options: [
+      { id: 'option-1', optionText: 'Paris', isCorrect: true, optionOrder: 1 },
+      { id: 'option-2', optionText: 'London', isCorrect: false, optionOrder: 2 },
+    ],
+    numericAnswer: null,
+    numericTolerance: null,
+    acceptedAnswers: [],
+    ...overrides,
+  };
+}
+
+function createVersionRow(versionNumber: number, snapshot: Record<string, unknown>, isCurrent = false) {
+  return {
+    id: `version-${versionNumber}`,
+    question_id: 'question-1',
+    version_number: versionNumber,
+    snapshot: JSON.stringify(snapshot),
+    created_by: 'instructor-1',
+    created_by_name: 'Test Instructor',
+    restored_from: null,
+    created_at: '2026-01-07T10:00:00.000Z',
+    is_current: isCurrent ? 1 : 0,
+  };
+}
+
+// ============================================
+// Test Suite
+// ============================================
+
+describe('QuestionVersionService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('buildCreateStatements', () => {
+    it('should insert the version and make it current', () => {
+      const [insert, setCurrent] = QuestionVersionService.buildCreateStatements({
+        questionId: 'question-1',
+        versionNumber: 2,
+        snapshot: createSnapshot() as never,
+        createdBy: 'instructor-1',
+        restoredFrom: 1,
+        now: '2026-01-07T10:00:00.000Z',
+      });
+
+      expect(insert.params).toEqual([
+        'mock-uuid-12345',
+        'question-1',
+        2,
+        JSON.stringify(createSnapshot()),
+        'instructor-1',
+        1,
+        '2026-01-07T10:00:00.000Z',
+      ]);
+      expect(setCurrent.params).toEqual(['mock-uuid-12345', 'question-1']);
+    });
+  });
+
+  describe('getNextVersionNumber', () => {
+    it('should number the first version 1', async () => {
+      vi.mocked(executeQueryFirst).mockResolvedValue({ latest: null });
+
+      expect(await QuestionVersionService.getNextVersionNumber('question-1')).toBe(1);
+    });
+  });
+
+  describe('listVersions', () => {
+    it('should list versions newest first with their diff from the previous version', async () => {
+      vi.mocked(executeQueryFirst).mockResolvedValue({ instructor_id: 'instructor-1' });
+      vi.mocked(executeQuery).mockResolvedValue([
+        createVersionRow(1, createSnapshot()),
+        createVersionRow(
+          2,
+          createSnapshot({
+            points: 2,
+            // Replaced options with the same content are not a change
+            options: [
+              { id: 'option-3', optionText: 'Paris', isCorrect: true, optionOrder: 1 },
+              { id: 'option-4', optionText: 'London', isCorrect: false, optionOrder: 2 },
+            ],
+          }),
+          true
+        ),
+      ]);
+
+      const versions = await QuestionVersionService.listVersions('question-1', 'instructor-1');
+
+      expect(versions.map((version) => version.versionNumber)).toEqual([2, 1]);
+      expect(versions[0].isCurrent).toBe(true);
+      expect(versions[0].changes).toEqual({ points: { before: 1, after: 2 } });
+      expect(versions[1].changes).toHaveProperty('questionText');
+    });
+
+    it('should refuse instructors who do not own the question', async () => {
+      vi.mocked(executeQueryFirst).mockResolvedValue({ instructor_id: 'instructor-2' });
+
+      await expect(
+        QuestionVersionService.listVersions('question-1', 'instructor-1')
+      ).rejects.toThrow('You do not have permission to view this question\'s versions');
+      expect(executeQuery).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,215 @@
+/**
+ * Question Version Service
+ * Immutable snapshots of a question, one per create, edit and rollback
+ */
+
+import { executeQuery, executeQueryFirst, generateId } from '@/lib/d1-client';
+import { AuditChanges, AuditService } from '@/lib/services/audit-service';
+import type { QuestionOption } from '@/lib/services/question-service';
+import { QuestionType, ScoringMode } from '@/lib/question-types';
+
+// ============================================
+// Types & Interfaces
+// ============================================
+
+// The question as it was answered: its fields, options (with ids) and answer key
+export interface QuestionVersionSnapshot {
+  questionType: QuestionType;
+  scoringMode: ScoringMode;
+  questionText: string;
+  category: string | null;
+  difficulty: 'easy' | 'medium' | 'hard';
+  points: number;
+  timeLimitSeconds: number | null;
+  options: QuestionOption[];
+  numericAnswer: number | null;
+  numericTolerance: number | null;
+  acceptedAnswers: string[];
+}
+
+export interface QuestionVersion {
+  id: string;
+  questionId: string;
+  versionNumber: number;
+  snapshot: QuestionVersionSnapshot;
+  createdBy: string | null;
+  createdByName: string | null;
+  // Version number this version rolled back to
+  restoredFrom: number | null;
+  createdAt: string;
+  isCurrent: boolean;
+}
+
+export interface QuestionVersionHistoryEntry extends QuestionVersion {
+  // Fields that differ from the previous version (every field for version 1)
+  changes: AuditChanges;
+}
+
+export interface CreateVersionInput {
+  questionId: string;
+  versionNumber: number;
+  snapshot: QuestionVersionSnapshot;
+  createdBy: string;
+  restoredFrom?: number | null;
+  now: string;
+}
+
+// ============================================
+// Database Row Interfaces (internal)
+// ============================================
+
+interface QuestionVersionRow {
+  id: string;
+  question_id: string;
+  version_number: number;
+  snapshot: string;
+  created_by: string | null;
+  created_by_name: string | null;
+  restored_from: number | null;
+  created_at: string;
+  is_current: number;
+}
+
+// ============================================
+// Question Version Service Class
+// ============================================
+
+export class QuestionVersionService {
+  /**
+   * Build the statements storing a new version and making it the question's current version
+   */
+  static buildCreateStatements(input: CreateVersionInput): Array<{ sql: string; params: unknown[] }> {
+    const versionId = generateId();
+
+    return [
+      {
+        sql: `INSERT INTO question_versions (id, question_id, version_number, snapshot, created_by, restored_from, created_at)
+              VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        params: [
+          versionId,
+          input.questionId,
+          input.versionNumber,
+          JSON.stringify(input.snapshot),
+          input.createdBy,
+          input.restoredFrom ?? null,
+          input.now,
+        ],
+      },
+      {
+        sql: 'UPDATE questions SET current_version_id = ? WHERE id = ?',
+        params: [versionId, input.questionId],
+      },
+    ];
+  }
+
+  /**
+   * Number for the next version of a question
+   * The unique (question_id, version_number) index rejects a concurrent edit taking the same number
+   */
+  static async getNextVersionNumber(questionId: string): Promise<number> {
+    const result = await executeQueryFirst<{ latest: number | null }>(
+      'SELECT MAX(version_number) as latest FROM question_versions WHERE question_id = ?',
+      [questionId]
+    );
+    return (result?.latest ?? 0) + 1;
+  }
+
+  /**
+   * Get a single version by ID
+   */
+  static async getVersion(versionId: string): Promise<QuestionVersion | null> {
+    const row = await executeQueryFirst<QuestionVersionRow>(
+      `SELECT v.id, v.question_id, v.version_number, v.snapshot, v.created_by, u.name as created_by_name,
+              v.restored_from, v.created_at,
+              (SELECT COUNT(*) FROM questions q WHERE q.current_version_id = v.id) as is_current
+       FROM question_versions v
+       LEFT JOIN users u ON u.id = v.created_by
+       WHERE v.id = ?`,
+      [versionId]
+    );
+
+    return row ? this.mapVersionRow(row) : null;
+  }
+
+  /**
+   * List a question's versions, newest first, each with its diff from the previous version
+   */
+  static async listVersions(
+    questionId: string,
+    instructorId: string
+  ): Promise<QuestionVersionHistoryEntry[]> {
+    console.log('🕘 Listing versions of question:', questionId);
+
+    const question = await executeQueryFirst<{ instructor_id: string }>(
+      'SELECT instructor_id FROM questions WHERE id = ?',
+      [questionId]
+    );
+
+    if (!question) {
+      throw new Error('Question not found');
+    }
+
+    if (question.instructor_id !== instructorId) {
+      throw new Error('You do not have permission to view this question\'s versions');
+    }
+
+    const rows = await executeQuery<QuestionVersionRow>(
+      `SELECT v.id, v.question_id, v.version_number, v.snapshot, v.created_by, u.name as created_by_name,
+              v.restored_from, v.created_at,
+              (SELECT COUNT(*) FROM questions q WHERE q.current_version_id = v.id) as is_current
+       FROM question_versions v
+       LEFT JOIN users u ON u.id = v.created_by
+       WHERE v.question_id = ?
+       ORDER BY v.version_number ASC`,
+      [questionId]
+    );
+
+    const versions: QuestionVersionHistoryEntry[] = [];
+    let previous: QuestionVersionSnapshot | null = null;
+    for (const row of rows) {
+      const version = this.mapVersionRow(row);
+      versions.push({
+        ...version,
+        changes: AuditService.diff(
+          previous ? this.toComparable(previous) : null,
+          this.toComparable(version.snapshot)
+        ),
+      });
+      previous = version.snapshot;
+    }
+
+    console.log('✓ Found', versions.length, 'versions');
+    return versions.reverse();
+  }
+
+  /**
+   * Snapshot fields compared between versions
+   * Option ids are left out since every edit inserts new option rows
+   */
+  private static toComparable(snapshot: QuestionVersionSnapshot): Record<string, unknown> {
+    return {
+      ...snapshot,
+      options: snapshot.options.map((option) => ({
+        optionText: option.optionText,
+        isCorrect: option.isCorrect,
+      })),
+    };
+  }
+
+  /**
+   * Convert a database row to a QuestionVersion
+   */
+  private static mapVersionRow(row: QuestionVersionRow): QuestionVersion {
+    return {
+      id: row.id,
+      questionId: row.question_id,
+      versionNumber: row.version_number,
+      snapshot: JSON.parse(row.snapshot) as QuestionVersionSnapshot,
+      createdBy: row.created_by,
+      createdByName: row.created_by_name,
+      restoredFrom: row.restored_from,
+      createdAt: row.created_at,
+      isCurrent: row.is_current > 0,
+    };
+  }
+}
@@ -0,0 +1,286 @@
+/**
+ * Quiz Authoring Service Unit Tests
+ *
+ * Tests creating draft quizzes, validating their question lists, publishing and
+ * unpublishing, and delivering a published quiz to enrolled students.
+ *
+ * @fileoverview Unit tests for src/lib/services/quiz-authoring-service.ts
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { QuizAuthoringService, CreateQuizInput } from './quiz-authoring-service';
+
+// ============================================
+// Mock Setup for D1 Client
+// ============================================
+
+vi.mock('@/lib/d1-client', () => ({
+  executeQuery: vi.fn(),
+  executeQueryFirst: vi.fn(),
+  executeMutation: vi.fn(),
+  executeBatch: vi.fn(),
+  generateId: vi.fn(() => 'mock-uuid-12345'),
+  toBoolean: vi.fn((value: unknown) => value === 1 || value === true),
+  fromBoolean: vi.fn((value: boolean) => (value ? 1 : 0)),
+}));
+
+import { executeQuery, executeQueryFirst, executeMutation, executeBatch } from '@/lib/d1-client';
+
+// ============================================
+// Test Fixtures
+// ============================================
+
+function createQuizInput(overrides: Partial<CreateQuizInput> = {}): CreateQuizInput {
+  return {
+    title: 'Week 1 Review',
+    courseId: 'course-1',
+    description: 'Covers the first lectures',
+    timeLimitSeconds: 600,
+    questionIds: ['question-1', 'question-2'],
+    ...overrides,
+  };
+}
+
+function createQuizRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'mock-uuid-12345',
+    instructor_id: 'instructor-1',
+    course_id: 'course-1',
+    course_name: 'Biology 101',
+    title: 'Week 1 Review',
+    description: 'Covers the first lectures',
+    status: 'draft',
+    time_limit_seconds: 600,
+    published_at: null,
+    created_at: '2026-10-18T10:00:00.000Z',
+    updated_at: '2026-10-18T10:00:00.000Z',
+    question_count: 2,
+    ...overrides,
+  };
+}
+
+const OWNED_QUESTIONS = [
+  { id: 'question-1', instructor_id: 'instructor-1' },
+  { id: 'question-2', instructor_id: 'instructor-1' },
+];
+
+// ============================================
+// Test Suite
+// ============================================
+
+describe('QuizAuthoringService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('createQuiz', () => {
+    it('should insert a draft quiz with its questions in order', async () => {
+      vi.mocked(executeQuery)
+        .mockResolvedValueOnce(OWNED_QUESTIONS)
+        .mockResolvedValueOnce([]);
+      vi.mocked(executeQueryFirst)
+        .mockResolvedValueOnce({ instructor_id: 'instructor-1' })
+        .mockResolvedValueOnce(createQuizRow());
+      vi.mocked(executeBatch).mockResolvedValue([]);
+
+      const quiz = await QuizAuthoringService.createQuiz('instructor-1', createQuizInput({ title: '  Week 1 Review  ' }));
+
+      const statements = vi.mocked(executeBatch).mock.calls[0][0];
+      expect(statements).toHaveLength(3);
+      expect(statements[0].sql).toContain("'draft'");
+      expect(statements[0].params.slice(0, 6)).toEqual([
+        'mock-uuid-12345',
+        'instructor-1',
+        'course-1',
+        'Week 1 Review',
+        'Covers the first lectures',
+        600,
+      ]);
+      expect(statements[1].params).toEqual(['mock-uuid-12345', 'question-1', 1]);
+      expect(statements[2].params).toEqual(['mock-uuid-12345', 'question-2', 2]);
+      expect(quiz).toMatchObject({ status: 'draft', courseName: 'Biology 101', questionCount: 2 });
+    });
+
+    it('should reject a short title', async () => {
+      await expect(
+        QuizAuthoringService.createQuiz('instructor-1', createQuizInput({ title: 'Q1' }))
+      ).rejects.toThrow('Quiz title must be at least 3 characters');
+    });
+
+    it('should reject a time limit outside the allowed range', async () => {
+      await expect(
+        QuizAuthoringService.createQuiz('instructor-1', createQuizInput({ timeLimitSeconds: 30 }))
+      ).rejects.toThrow('Quiz time limit must be between 60 and 14400 seconds');
+    });
+  });
+
+  describe('question membership', () => {
+    it('should reject the same question twice', async () => {
+      await expect(
+        QuizAuthoringService.createQuiz(
+          'instructor-1',
+          createQuizInput({ questionIds: ['question-1', 'question-1'] })
+        )
+      ).rejects.toThrow('Quiz cannot contain the same question twice');
+      expect(executeBatch).not.toHaveBeenCalled();
+    });
+
+    it('should reject more than the maximum number of questions', async () => {
+      const questionIds = Array.from({ length: 101 }, (_, index) => `question-${index}`);
+
+      await expect(
+        QuizAuthoringService.createQuiz('instructor-1', createQuizInput({ questionIds }))
+      ).rejects.toThrow('Quiz must not exceed 100 questions');
+    });
+
+    it('should reject a question owned by another instructor', async () => {
+      vi.mocked(executeQuery).mockResolvedValueOnce([
+        OWNED_QUESTIONS[0],
+        { id: 'question-2', instructor_id: 'instructor-2' },
+      ]);
+
+      await expect(
+        QuizAuthoringService.createQuiz('instructor-1', createQuizInput())
+      ).rejects.toThrow('You do not have permission to use question question-2');
+      expect(executeBatch).not.toHaveBeenCalled();
+    });
+
+    it('should reject a missing or trashed question', async () => {
+      vi.mocked(executeQuery).mockResolvedValueOnce([OWNED_QUESTIONS[0]]);
+
+      await expect(
+        QuizAuthoringService.createQuiz('instructor-1', createQuizInput())
+      ).rejects.toThrow('Question not found: question-2');
+    });
+
+    it('should replace the question list of an existing quiz in one batch', async () => {
+      vi.mocked(executeQueryFirst)
+        .mockResolvedValueOnce(createQuizRow())
+        .mockResolvedValueOnce(createQuizRow({ question_count: 1 }));
+      vi.mocked(executeQuery)
+        .mockResolvedValueOnce([OWNED_QUESTIONS[1]])
+        .mockResolvedValueOnce([]);
+      vi.mocked(executeBatch).mockResolvedValue([]);
+
+      await QuizAuthoringService.updateQuiz('mock-uuid-12345', 'instructor-1', {
+        questionIds: ['question-2'],
+      });
+
+      const statements = vi.mocked(executeBatch).mock.calls[0][0];
+      expect(statements.map((statement) => statement.sql.split(' ')[0])).toEqual(['UPDATE', 'DELETE', 'INSERT']);
+      expect(statements[2].params).toEqual(['mock-uuid-12345', 'question-2', 1]);
+    });
+
+    it('should not empty the question list of a published quiz', async () => {
+      vi.mocked(executeQueryFirst).mockResolvedValueOnce(createQuizRow({ status: 'published' }));
+
+      await expect(
+        QuizAuthoringService.updateQuiz('mock-uuid-12345', 'instructor-1', { questionIds: [] })
+      ).rejects.toThrow('Published quiz must have at least one question');
+      expect(executeBatch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('setPublished', () => {
+    it('should publish a quiz with questions and a course', async () => {
+      vi.mocked(executeQueryFirst)
+        .mockResolvedValueOnce(createQuizRow())
+        .mockResolvedValueOnce(createQuizRow({ status: 'published', published_at: '2026-10-18T11:00:00.000Z' }));
+      vi.mocked(executeQuery).mockResolvedValue([]);
+      vi.mocked(executeMutation).mockResolvedValue({ success: true, meta: { changes: 1 } });
+
+      const quiz = await QuizAuthoringService.setPublished('mock-uuid-12345', 'instructor-1', true);
+
+      const params = vi.mocked(executeMutation).mock.calls[0][1] as unknown[];
+      expect(params[0]).toBe('published');
+      expect(params[1]).toEqual(expect.any(String));
+      expect(quiz.status).toBe('published');
+    });
+
+    it('should not publish a quiz without questions', async () => {
+      vi.mocked(executeQueryFirst).mockResolvedValueOnce(createQuizRow({ question_count: 0 }));
+
+      await expect(
+        QuizAuthoringService.setPublished('mock-uuid-12345', 'instructor-1', true)
+      ).rejects.toThrow('Cannot publish a quiz without questions');
+      expect(executeMutation).not.toHaveBeenCalled();
+    });
+
+    it('should not publish a quiz without a course', async () => {
+      vi.mocked(executeQueryFirst).mockResolvedValueOnce(createQuizRow({ course_id: null, course_name: null }));
+
+      await expect(
+        QuizAuthoringService.setPublished('mock-uuid-12345', 'instructor-1', true)
+      ).rejects.toThrow('Choose a course before publishing the quiz');
+    });
+
+    it('should not let another instructor publish the quiz', async () => {
+      vi.mocked(executeQueryFirst).mockResolvedValueOnce(createQuizRow());
+
+      await expect(
+        QuizAuthoringService.setPublished('mock-uuid-12345', 'instructor-2', true)
+      ).rejects.toThrow('You do not have permission to publish this quiz');
+    });
+  });
+
+  describe('getPublishedQuizDelivery', () => {
+    it('should deliver the ordered questions and time limit to an enrolled student', async () => {
+      vi.mocked(executeQueryFirst).mockResolvedValueOnce({
+        id: 'quiz-1',
+        status: 'published',
+        time_limit_seconds: 600,
+        course_id: 'course-1',
+        is_enrolled: 1,
+      });
+      vi.mocked(executeQuery).mockResolvedValueOnce([
+        { question_id: 'question-2' },
+        { question_id: 'question-1' },
+      ]);
+
+      const delivery = await QuizAuthoringService.getPublishedQuizDelivery('quiz-1', 'student-1');
+
+      expect(delivery).toEqual({
+        questionIds: ['question-2', 'question-1'],
+        timeLimitSeconds: 600,
+        courseId: 'course-1',
+      });
+      const [sql] = vi.mocked(executeQuery).mock.calls[0];
+      expect(sql).toContain('q.deleted_at IS NULL');
+      expect(sql).toContain('ORDER BY zq.position');
+    });
+
+    it('should hide a draft quiz', async () => {
+      vi.mocked(executeQueryFirst).mockResolvedValueOnce({
+        id: 'quiz-1',
+        status: 'draft',
+        time_limit_seconds: null,
+        course_id: 'course-1',
+        is_enrolled: 1,
+      });
+
+      await expect(
+        QuizAuthoringService.getPublishedQuizDelivery('quiz-1', 'student-1')
+      ).rejects.toThrow('Quiz not found');
+    });
+
+    it('should hide a quiz from students outside its course', async () => {
+      vi.mocked(executeQueryFirst).mockResolvedValueOnce({
+        id: 'quiz-1',
+        status: 'published',
+        time_limit_seconds: null,
+        course_id: 'course-1',
+        is_enrolled: 0,
+      });
+
+      await expect(
+        QuizAuthoringService.getPublishedQuizDelivery('quiz-1', 'student-2')
+      ).rejects.toThrow('Quiz not found');
+      expect(executeQuery).not.toHaveBeenCalled();
+    });
+  });
+});
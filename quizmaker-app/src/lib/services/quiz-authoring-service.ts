@@ -0,0 +1,615 @@
+/**
+ * Quiz Authoring Service
+ * Handles instructor-authored quizzes: named, ordered question sets
+ * with a draft/published lifecycle
+ */
+
+import {
+  executeQuery,
+  executeQueryFirst,
+  executeMutation,
+  executeBatch,
+  generateId,
+} from '@/lib/d1-client';
+import { QuestionService } from '@/lib/services/question-service';
+import { CourseService } from '@/lib/services/course-service';
+
+// ============================================
+// Types & Interfaces
+// ============================================
+
+export type QuizStatus = 'draft' | 'published';
+
+export interface QuizQuestionSummary {
+  id: string;
+  questionText: string;
+  category: string | null;
+  difficulty: 'easy' | 'medium' | 'hard';
+  points: number;
+  position: number;
+}
+
+export interface Quiz {
+  id: string;
+  instructorId: string;
+  // Course whose students can take the quiz once published
+  courseId: string | null;
+  courseName: string | null;
+  title: string;
+  description: string | null;
+  status: QuizStatus;
+  timeLimitSeconds: number | null;
+  publishedAt: string | null;
+  questionCount: number;
+  createdAt: string;
+  updatedAt: string;
+  questions?: QuizQuestionSummary[];
+}
+
+export interface PublishedQuiz {
+  id: string;
+  title: string;
+  description: string | null;
+  instructorName: string;
+  courseId: string;
+  courseName: string;
+  questionCount: number;
+  totalPoints: number;
+  timeLimitSeconds: number | null;
+  publishedAt: string;
+}
+
+export interface QuizDelivery {
+  questionIds: string[];
+  timeLimitSeconds: number | null;
+  courseId: string | null;
+}
+
+export interface CreateQuizInput {
+  title: string;
+  courseId?: string | null;
+  description?: string;
+  timeLimitSeconds?: number | null;
+  questionIds: string[];
+}
+
+export interface UpdateQuizInput {
+  title?: string;
+  courseId?: string | null;
+  description?: string;
+  timeLimitSeconds?: number | null;
+  questionIds?: string[];
+}
+
+export interface ListQuizzesParams {
+  instructorId: string;
+  page?: number;
+  limit?: number;
+  status?: QuizStatus;
+}
+
+export interface PaginatedQuizzes {
+  data: Quiz[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+// ============================================
+// Database Row Interfaces (internal)
+// ============================================
+
+interface QuizRow {
+  id: string;
+  instructor_id: string;
+  course_id: string | null;
+  course_name: string | null;
+  title: string;
+  description: string | null;
+  status: string;
+  time_limit_seconds: number | null;
+  published_at: string | null;
+  created_at: string;
+  updated_at: string;
+  question_count: number;
+}
+
+interface QuizQuestionRow {
+  id: string;
+  question_text: string;
+  category: string | null;
+  difficulty: string;
+  points: number;
+  position: number;
+}
+
+interface PublishedQuizRow {
+  id: string;
+  title: string;
+  description: string | null;
+  instructor_name: string;
+  course_id: string;
+  course_name: string;
+  question_count: number;
+  total_points: number | null;
+  time_limit_seconds: number | null;
+  published_at: string;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+export const MAX_QUIZ_QUESTIONS = 100;
+export const MIN_QUIZ_TIME_LIMIT_SECONDS = 60;
+export const MAX_QUIZ_TIME_LIMIT_SECONDS = 4 * 60 * 60;
+
+const QUIZ_SELECT = `SELECT z.id, z.instructor_id, z.course_id, c.name as course_name, z.title, z.description, z.status,
+         z.time_limit_seconds, z.published_at, z.created_at, z.updated_at,
+         (SELECT COUNT(*) FROM quiz_questions zq JOIN questions q ON q.id = zq.question_id
+          WHERE zq.quiz_id = z.id AND q.deleted_at IS NULL) as question_count
+       FROM quizzes z
+       LEFT JOIN courses c ON c.id = z.course_id`;
+
+// ============================================
+// Quiz Authoring Service Class
+// ============================================
+
+export class QuizAuthoringService {
+  /**
+   * Create a new draft quiz from the instructor's questions
+   */
+  static async createQuiz(instructorId: string, input: CreateQuizInput): Promise<Quiz> {
+    console.log('📝 Creating new quiz...');
+
+    this.validateTitle(input.title);
+    this.validateDescription(input.description);
+    const timeLimitSeconds = input.timeLimitSeconds ?? null;
+    this.validateTimeLimit(timeLimitSeconds);
+    const questionIds = this.validateQuestionIds(input.questionIds);
+
+    await QuestionService.assertQuestionsOwned(questionIds, instructorId);
+    if (input.courseId) {
+      await CourseService.assertCourseOwned(input.courseId, instructorId);
+    }
+
+    console.log('✓ Input validation passed');
+
+    const quizId = generateId();
+    const now = new Date().toISOString();
+
+    await executeBatch([
+      {
+        sql: `INSERT INTO quizzes (id, instructor_id, course_id, title, description, status, time_limit_seconds, created_at, updated_at)
+              VALUES (?, ?, ?, ?, ?, 'draft', ?, ?, ?)`,
+        params: [
+          quizId,
+          instructorId,
+          input.courseId || null,
+          input.title.trim(),
+          input.description?.trim() || null,
+          timeLimitSeconds,
+          now,
+          now,
+        ],
+      },
+      ...this.buildMembershipStatements(quizId, questionIds),
+    ]);
+
+    const quiz = await this.getQuizById(quizId, instructorId);
+    if (!quiz) {
+      throw new Error('Failed to retrieve created quiz');
+    }
+
+    console.log('✅ Quiz created with', questionIds.length, 'questions');
+    return quiz;
+  }
+
+  /**
+   * Get a quiz with its ordered questions (owner only)
+   */
+  static async getQuizById(quizId: string, instructorId: string): Promise<Quiz | null> {
+    console.log('🔍 Fetching quiz:', quizId);
+
+    const row = await executeQueryFirst<QuizRow>(
+      `${QUIZ_SELECT}
+       WHERE z.id = ?`,
+      [quizId]
+    );
+
+    if (!row) {
+      console.log('❌ Quiz not found');
+      return null;
+    }
+
+    if (row.instructor_id !== instructorId) {
+      throw new Error('You do not have permission to view this quiz');
+    }
+
+    const questionRows = await executeQuery<QuizQuestionRow>(
+      `SELECT q.id, q.question_text, q.category, q.difficulty, q.points, zq.position
+       FROM quiz_questions zq
+       JOIN questions q ON q.id = zq.question_id
+       WHERE zq.quiz_id = ? AND q.deleted_at IS NULL
+       ORDER BY zq.position`,
+      [quizId]
+    );
+
+    return {
+      ...this.mapQuizRow(row),
+      questions: questionRows.map((q) => ({
+        id: q.id,
+        questionText: q.question_text,
+        category: q.category,
+        difficulty: q.difficulty as 'easy' | 'medium' | 'hard',
+        points: q.points,
+        position: q.position,
+      })),
+    };
+  }
+
+  /**
+   * List an instructor's quizzes with pagination and optional status filter
+   */
+  static async listQuizzes(params: ListQuizzesParams): Promise<PaginatedQuizzes> {
+    console.log('📋 Listing quizzes for instructor:', params.instructorId);
+
+    const page = params.page ?? 1;
+    const limit = Math.min(params.limit ?? 20, 100);
+    const offset = (page - 1) * limit;
+
+    const conditions: string[] = ['z.instructor_id = ?'];
+    const queryParams: string[] = [params.instructorId];
+
+    if (params.status) {
+      conditions.push('z.status = ?');
+      queryParams.push(params.status);
+    }
+
+    const whereClause = conditions.join(' AND ');
+
+    const countResult = await executeQueryFirst<{ count: number }>(
+      `SELECT COUNT(*) as count FROM quizzes z WHERE ${whereClause}`,
+      queryParams
+    );
+    const total = countResult?.count ?? 0;
+
+    const rows = await executeQuery<QuizRow>(
+      `${QUIZ_SELECT}
+       WHERE ${whereClause}
+       ORDER BY z.updated_at DESC
+       LIMIT ? OFFSET ?`,
+      [...queryParams, limit, offset]
+    );
+
+    console.log('✓ Found', total, 'quizzes');
+
+    return {
+      data: rows.map((row) => this.mapQuizRow(row)),
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  /**
+   * Update a quiz's details and/or question list (owner only)
+   */
+  static async updateQuiz(
+    quizId: string,
+    instructorId: string,
+    input: UpdateQuizInput
+  ): Promise<Quiz> {
+    console.log('✏️ Updating quiz:', quizId);
+
+    const existing = await this.requireOwnedQuiz(quizId, instructorId, 'update');
+
+    const updates: string[] = [];
+    const updateParams: (string | number | null)[] = [];
+
+    if (input.title !== undefined) {
+      this.validateTitle(input.title);
+      updates.push('title = ?');
+      updateParams.push(input.title.trim());
+    }
+
+    if (input.description !== undefined) {
+      this.validateDescription(input.description);
+      updates.push('description = ?');
+      updateParams.push(input.description?.trim() || null);
+    }
+
+    if (input.timeLimitSeconds !== undefined) {
+      this.validateTimeLimit(input.timeLimitSeconds);
+      updates.push('time_limit_seconds = ?');
+      updateParams.push(input.timeLimitSeconds);
+    }
+
+    if (input.courseId !== undefined) {
+      if (input.courseId) {
+        await CourseService.assertCourseOwned(input.courseId, instructorId);
+      } else if (existing.status === 'published') {
+        throw new Error('Published quiz must belong to a course');
+      }
+      updates.push('course_id = ?');
+      updateParams.push(input.courseId || null);
+    }
+
+    let questionIds: string[] | undefined;
+    if (input.questionIds !== undefined) {
+      questionIds = this.validateQuestionIds(input.questionIds);
+      if (existing.status === 'published' && questionIds.length === 0) {
+        throw new Error('Published quiz must have at least one question');
+      }
+      await QuestionService.assertQuestionsOwned(questionIds, instructorId);
+    }
+
+    // Always update the updated_at timestamp
+    updates.push('updated_at = ?');
+    updateParams.push(new Date().toISOString());
+
+    const statements: Array<{ sql: string; params: unknown[] }> = [
+      {
+        sql: `UPDATE quizzes SET ${updates.join(', ')} WHERE id = ?`,
+        params: [...updateParams, quizId],
+      },
+    ];
+
+    // Replace the ordered question list atomically with the field updates
+    if (questionIds) {
+      statements.push(
+        { sql: 'DELETE FROM quiz_questions WHERE quiz_id = ?', params: [quizId] },
+        ...this.buildMembershipStatements(quizId, questionIds)
+      );
+    }
+
+    await executeBatch(statements);
+
+    const updated = await this.getQuizById(quizId, instructorId);
+    if (!updated) {
+      throw new Error('Failed to retrieve updated quiz');
+    }
+
+    console.log('✅ Quiz updated successfully');
+    return updated;
+  }
+
+  /**
+   * Publish or unpublish a quiz (owner only)
+   */
+  static async setPublished(
+    quizId: string,
+    instructorId: string,
+    published: boolean
+  ): Promise<Quiz> {
+    console.log(published ? '📢 Publishing quiz:' : '🙈 Unpublishing quiz:', quizId);
+
+    const existing = await this.requireOwnedQuiz(quizId, instructorId, 'publish');
+
+    if (published && existing.questionCount === 0) {
+      throw new Error('Cannot publish a quiz without questions');
+    }
+
+    if (published && !existing.courseId) {
+      throw new Error('Choose a course before publishing the quiz');
+    }
+
+    const now = new Date().toISOString();
+    await executeMutation(
+      `UPDATE quizzes SET status = ?, published_at = ?, updated_at = ? WHERE id = ?`,
+      [
+        published ? 'published' : 'draft',
+        published ? existing.publishedAt ?? now : null,
+        now,
+        quizId,
+      ]
+    );
+
+    const quiz = await this.getQuizById(quizId, instructorId);
+    if (!quiz) {
+      throw new Error('Failed to retrieve quiz');
+    }
+
+    console.log('✅ Quiz status is now', quiz.status);
+    return quiz;
+  }
+
+  /**
+   * Delete a quiz (owner only)
+   * Questions are kept; past sessions keep their attempts
+   */
+  static async deleteQuiz(
+    quizId: string,
+    instructorId: string
+  ): Promise<{ deleted: boolean; message: string }> {
+    console.log('🗑️ Deleting quiz:', quizId);
+
+    await this.requireOwnedQuiz(quizId, instructorId, 'delete');
+
+    await executeMutation('DELETE FROM quizzes WHERE id = ?', [quizId]);
+
+    console.log('✅ Quiz deleted successfully');
+    return { deleted: true, message: 'Quiz deleted successfully' };
+  }
+
+  /**
+   * List the published quizzes of the courses a student is enrolled in
+   */
+  static async listPublishedQuizzes(studentId: string): Promise<PublishedQuiz[]> {
+    console.log('📚 Listing published quizzes for student:', studentId);
+
+    const rows = await executeQuery<PublishedQuizRow>(
+      `SELECT z.id, z.title, z.description, z.time_limit_seconds, z.published_at,
+              u.name as instructor_name,
+              c.id as course_id,
+              c.name as course_name,
+              COUNT(q.id) as question_count,
+              SUM(q.points) as total_points
+       FROM quizzes z
+       JOIN users u ON u.id = z.instructor_id
+       JOIN courses c ON c.id = z.course_id
+       JOIN course_enrollments e ON e.course_id = c.id AND e.student_id = ?
+       JOIN quiz_questions zq ON zq.quiz_id = z.id
+       JOIN questions q ON q.id = zq.question_id AND q.deleted_at IS NULL
+       WHERE z.status = 'published'
+       GROUP BY z.id
+       ORDER BY z.published_at DESC`,
+      [studentId]
+    );
+
+    console.log('✓ Found', rows.length, 'published quizzes');
+
+    return rows.map((row) => ({
+      id: row.id,
+      title: row.title,
+      description: row.description,
+      instructorName: row.instructor_name,
+      courseId: row.course_id,
+      courseName: row.course_name,
+      questionCount: row.question_count,
+      totalPoints: row.total_points ?? 0,
+      timeLimitSeconds: row.time_limit_seconds,
+      publishedAt: row.published_at,
+    }));
+  }
+
+  /**
+   * Get the ordered question ids and time limit of a published quiz (for starting a session)
+   * Only students enrolled in the quiz's course can take it
+   */
+  static async getPublishedQuizDelivery(quizId: string, studentId: string): Promise<QuizDelivery> {
+    const quiz = await executeQueryFirst<{
+      id: string;
+      status: string;
+      time_limit_seconds: number | null;
+      course_id: string | null;
+      is_enrolled: number;
+    }>(
+      `SELECT z.id, z.status, z.time_limit_seconds, z.course_id,
+              (SELECT COUNT(*) FROM course_enrollments e
+               WHERE e.course_id = z.course_id AND e.student_id = ?) as is_enrolled
+       FROM quizzes z WHERE z.id = ?`,
+      [studentId, quizId]
+    );
+
+    if (!quiz || quiz.status !== 'published' || !quiz.is_enrolled) {
+      throw new Error('Quiz not found');
+    }
+
+    // Trashed questions are skipped until they are restored
+    const rows = await executeQuery<{ question_id: string }>(
+      `SELECT zq.question_id FROM quiz_questions zq
+       JOIN questions q ON q.id = zq.question_id
+       WHERE zq.quiz_id = ? AND q.deleted_at IS NULL
+       ORDER BY zq.position`,
+      [quizId]
+    );
+
+    return {
+      questionIds: rows.map((row) => row.question_id),
+      timeLimitSeconds: quiz.time_limit_seconds,
+      courseId: quiz.course_id,
+    };
+  }
+
+  /**
+   * Load a quiz and verify the instructor owns it
+   */
+  private static async requireOwnedQuiz(
+    quizId: string,
+    instructorId: string,
+    action: string
+  ): Promise<Quiz> {
+    const row = await executeQueryFirst<QuizRow>(
+      `${QUIZ_SELECT}
+       WHERE z.id = ?`,
+      [quizId]
+    );
+
+    if (!row) {
+      throw new Error('Quiz not found');
+    }
+
+    if (row.instructor_id !== instructorId) {
+      throw new Error(`You do not have permission to ${action} this quiz`);
+    }
+
+    return this.mapQuizRow(row);
+  }
+
+  /**
+   * Build INSERT statements for a quiz's ordered question list
+   */
+  private static buildMembershipStatements(quizId: string, questionIds: string[]) {
+    return questionIds.map((questionId, index) => ({
+      sql: `INSERT INTO quiz_questions (quiz_id, question_id, position)
+            VALUES (?, ?, ?)`,
+      params: [quizId, questionId, index + 1],
+    }));
+  }
+
+  private static validateTitle(title: string): void {
+    if (!title || title.trim().length < 3) {
+      throw new Error('Quiz title must be at least 3 characters');
+    }
+    if (title.length > 200) {
+      throw new Error('Quiz title must not exceed 200 characters');
+    }
+  }
+
+  private static validateDescription(description?: string): void {
+    if (description && description.length > 1000) {
+      throw new Error('Quiz description must not exceed 1000 characters');
+    }
+  }
+
+  private static validateTimeLimit(timeLimitSeconds: number | null): void {
+    if (timeLimitSeconds === null) {
+      return;
+    }
+    if (
+      !Number.isInteger(timeLimitSeconds) ||
+      timeLimitSeconds < MIN_QUIZ_TIME_LIMIT_SECONDS ||
+      timeLimitSeconds > MAX_QUIZ_TIME_LIMIT_SECONDS
+    ) {
+      throw new Error(
+        `Quiz time limit must be between ${MIN_QUIZ_TIME_LIMIT_SECONDS} and ${MAX_QUIZ_TIME_LIMIT_SECONDS} seconds`
+      );
+    }
+  }
+
+  private static validateQuestionIds(questionIds: string[]): string[] {
+    if (!Array.isArray(questionIds)) {
+      throw new Error('Question list is required');
+    }
+    if (questionIds.length > MAX_QUIZ_QUESTIONS) {
+      throw new Error(`Quiz must not exceed ${MAX_QUIZ_QUESTIONS} questions`);
+    }
+    if (new Set(questionIds).size !== questionIds.length) {
+      throw new Error('Quiz cannot contain the same question twice');
+    }
+    return questionIds;
+  }
+
+  /**
+   * Map a database row to a Quiz (without questions)
+   */
+  private static mapQuizRow(row: QuizRow): Quiz {
+    return {
+      id: row.id,
+      instructorId: row.instructor_id,
+      courseId: row.course_id ?? null,
+      courseName: row.course_name ?? null,
+      title: row.title,
+      description: row.description,
+      status: row.status as QuizStatus,
+      timeLimitSeconds: row.time_limit_seconds ?? null,
+      publishedAt: row.published_at,
+      questionCount: row.question_count ?? 0,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+}
@@ -0,0 +1,318 @@
+/**
+ * Quiz Service Unit Tests
+ *
+ * Tests recording answers (including a concurrent second answer in a session) and
+ * the leaderboard: tie ranking, the requesting student's own rank outside the top N,
+ * the course, category, difficulty and date window filters, and pseudonymous and
+ * hidden students.
+ *
+ * @fileoverview Unit tests for src/lib/services/quiz-service.ts
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { QuizService } from './quiz-service';
+import { AuthService } from './auth-service';
+import { ScoringService } from './scoring-service';
+import { leaderboardPseudonym } from '@/lib/leaderboard-pseudonym';
+
+// ============================================
+// Mock Setup for D1 Client
+// ============================================
+
+vi.mock('@/lib/d1-client', () => ({
+  executeQuery: vi.fn(),
+  executeQueryFirst: vi.fn(),
+  executeMutation: vi.fn(),
+  executeBatch: vi.fn(),
+  generateId: vi.fn(() => 'mock-uuid-12345'),
+  toBoolean: vi.fn((value: unknown) => value === 1 || value === true),
+  fromBoolean: vi.fn((value: boolean) => (value ? 1 : 0)),
+}));
+
+import { executeQuery, executeQueryFirst, executeMutation, executeBatch } from '@/lib/d1-client';
+
+// ============================================
+// Test Fixtures
+// ============================================
+
+function createLeaderboardRow(overrides: Record<string, unknown> = {}) {
+  return {
+    student_id: 'student-1',
+    student_name: 'Alice',
+    total_score: 10,
+    total_attempts: 5,
+    correct_attempts: 4,
+    competition_rank: 1,
+    dense_rank: 1,
+    position: 1,
+    ranked_count: 4,
+    privacy_level: 0,
+    ...overrides,
+  };
+}
+
+const NUMERIC_QUESTION = {
+  id: 'question-1',
+  points: 2,
+  question_type: 'numeric',
+  scoring_mode: 'all_or_nothing',
+  numeric_answer: 42,
+  numeric_tolerance: 0,
+  current_version_id: 'version-1',
+};
+
+const OPEN_ISSUE = { id: 'issue-1', issued_at: new Date().toISOString(), deadline_at: null };
+
+// Alice leads, Bob and Cara tie for second, Dan is fourth
+const RANKED_ROWS = [
+  createLeaderboardRow(),
+  createLeaderboardRow({ student_id: 'student-2', student_name: 'Bob', total_score: 8, competition_rank: 2, dense_rank: 2, position: 2 }),
+  createLeaderboardRow({ student_id: 'student-3', student_name: 'Cara', total_score: 8, competition_rank: 2, dense_rank: 2, position: 3 }),
+  createLeaderboardRow({ student_id: 'student-4', student_name: 'Dan', total_score: 3, competition_rank: 4, dense_rank: 3, position: 4 }),
+];
+
+// ============================================
+// Test Suite
+// ============================================
+
+describe('QuizService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  describe('submitAnswer', () => {
+    beforeEach(() => {
+      vi.spyOn(AuthService, 'isEmailVerified').mockResolvedValue(true);
+      vi.spyOn(ScoringService, 'getSettings').mockResolvedValue({ policy: 'every_attempt', updatedBy: null, updatedAt: null });
+      vi.spyOn(ScoringService, 'getPreviousAttempts').mockResolvedValue({ count: 0, bestScore: null });
+    });
+
+    it('should consume a standalone issue before recording the attempt', async () => {
+      vi.mocked(executeQueryFirst)
+        .mockResolvedValueOnce(NUMERIC_QUESTION)
+        .mockResolvedValueOnce(OPEN_ISSUE);
+      vi.mocked(executeMutation).mockResolvedValue({ success: true, meta: { changes: 1 } });
+      vi.mocked(executeBatch).mockResolvedValue([]);
+
+      const result = await QuizService.submitAnswer('student-1', { questionId: 'question-1', responseText: '42' });
+
+      expect(vi.mocked(executeMutation).mock.calls[0][0]).toContain('consumed_at IS NULL');
+      expect(vi.mocked(executeBatch).mock.calls[0][0]).toHaveLength(1);
+      expect(result).toMatchObject({ isCorrect: true, score: 2, awardedScore: 2 });
+    });
+
+    it('should record a session answer, consume its issue and claim the session question in one batch', async () => {
+      vi.mocked(executeQueryFirst)
+        .mockResolvedValueOnce(NUMERIC_QUESTION)
+        .mockResolvedValueOnce(OPEN_ISSUE);
+      vi.mocked(executeBatch).mockResolvedValue([]);
+
+      await QuizService.submitAnswer('student-1', {
+        questionId: 'question-1',
+        responseText: '42',
+        sessionId: 'session-1',
+      });
+
+      expect(executeMutation).not.toHaveBeenCalled();
+      const statements = vi.mocked(executeBatch).mock.calls[0][0];
+      expect(statements.map((statement) => statement.sql.trim().split(/\s+/).slice(0, 2).join(' '))).toEqual([
+        'INSERT INTO',
+        'UPDATE question_issues',
+        'UPDATE quiz_session_questions',
+      ]);
+      expect(statements[2].params).toEqual(['mock-uuid-12345', 'session-1', 'question-1']);
+    });
+
+    it('should reject a concurrent second answer in a session without recording it', async () => {
+      vi.mocked(executeQueryFirst)
+        .mockResolvedValueOnce(NUMERIC_QUESTION)
+        .mockResolvedValueOnce(OPEN_ISSUE);
+      vi.mocked(executeBatch).mockRejectedValue(
+        new Error('Database batch failed: UNIQUE constraint failed: quiz_attempts.session_id, quiz_attempts.question_id')
+      );
+
+      await expect(
+        QuizService.submitAnswer('student-1', { questionId: 'question-1', responseText: '42', sessionId: 'session-1' })
+      ).rejects.toThrow('Question has already been answered in this quiz session');
+      expect(executeMutation).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getLeaderboard', () => {
+    it('should give tied students the same competition rank', async () => {
+      vi.mocked(executeQuery).mockResolvedValue(RANKED_ROWS);
+
+      const result = await QuizService.getLeaderboard();
+
+      expect(result.entries.map((entry) => entry.rank)).toEqual([1, 2, 2, 4]);
+      expect(result.totalRanked).toBe(4);
+      expect(result.ranking).toBe('competition');
+      expect(result.entries[0].successRate).toBe(80);
+    });
+
+    it('should number ranks densely when asked', async () => {
+      vi.mocked(executeQuery).mockResolvedValue(RANKED_ROWS);
+
+      const result = await QuizService.getLeaderboard({ ranking: 'dense' });
+
+      expect(result.entries.map((entry) => entry.rank)).toEqual([1, 2, 2, 3]);
+    });
+
+    it('should return the student\'s own rank outside the top N', async () => {
+      vi.mocked(executeQuery).mockResolvedValue([RANKED_ROWS[0], RANKED_ROWS[1], RANKED_ROWS[3]]);
+
+      const result = await QuizService.getLeaderboard({ limit: 2, studentId: 'student-4' });
+
+      expect(result.entries.map((entry) => entry.studentId)).toEqual(['student-1', 'student-2']);
+      expect(result.currentStudent).toMatchObject({ studentId: 'student-4', rank: 4 });
+      const params = vi.mocked(executeQuery).mock.calls[0][1] as unknown[];
+      expect(params.slice(-2)).toEqual([2, 'student-4']);
+    });
+
+    it('should return no own rank for a student without ranked attempts', async () => {
+      vi.mocked(executeQuery).mockResolvedValue(RANKED_ROWS);
+
+      const result = await QuizService.getLeaderboard({ studentId: 'student-9' });
+
+      expect(result.currentStudent).toBeNull();
+    });
+
+    it('should filter by course, category and difficulty', async () => {
+      vi.mocked(executeQuery).mockResolvedValue([]);
+
+      const result = await QuizService.getLeaderboard({
+        courseIds: ['course-1'],
+        category: 'Biology',
+        difficulty: 'hard',
+      });
+
+      const [sql, params] = vi.mocked(executeQuery).mock.calls[0];
+      expect(sql).toContain('cq.course_id IN (?)');
+      expect(sql).toContain('q.category = ?');
+      expect(sql).toContain('q.difficulty = ?');
+      expect(sql).toContain('SUM(qa.awarded_score)');
+      expect(params).toEqual(['course-1', 'Biology', 'hard', 'course-1', null, 10, null]);
+      expect(result.totalRanked).toBe(0);
+    });
+
+    it('should count this week\'s attempts from Monday', async () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date('2026-10-15T12:00:00.000Z')); // a Thursday
+      vi.mocked(executeQuery).mockResolvedValue([]);
+
+      const result = await QuizService.getLeaderboard({ period: 'week' });
+
+      expect(result.from).toBe('2026-10-12T00:00:00.000Z');
+      expect(result.to).toBeNull();
+      expect(vi.mocked(executeQuery).mock.calls[0][0]).toContain('qa.attempt_date >= ?');
+    });
+
+    it('should count this month\'s attempts from the first', async () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date('2026-10-15T12:00:00.000Z'));
+      vi.mocked(executeQuery).mockResolvedValue([]);
+
+      const result = await QuizService.getLeaderboard({ period: 'month' });
+
+      expect(result.from).toBe('2026-10-01T00:00:00.000Z');
+    });
+
+    it('should include the whole last day of a custom range', async () => {
+      vi.mocked(executeQuery).mockResolvedValue([]);
+
+      const result = await QuizService.getLeaderboard({
+        period: 'custom',
+        from: '2026-10-01',
+        to: '2026-10-07',
+      });
+
+      expect(result.from).toBe('2026-10-01T00:00:00.000Z');
+      expect(result.to).toBe('2026-10-08T00:00:00.000Z');
+      const params = vi.mocked(executeQuery).mock.calls[0][1] as unknown[];
+      expect(params.slice(0, 2)).toEqual(['2026-10-01T00:00:00.000Z', '2026-10-08T00:00:00.000Z']);
+    });
+
+    it('should reject a custom range that ends before it starts', async () => {
+      await expect(
+        QuizService.getLeaderboard({ period: 'custom', from: '2026-10-07', to: '2026-10-01' })
+      ).rejects.toThrow('The from date must be before the to date');
+      expect(executeQuery).not.toHaveBeenCalled();
+    });
+
+    it('should reject a custom period without dates', async () => {
+      await expect(QuizService.getLeaderboard({ period: 'custom' })).rejects.toThrow(
+        'A custom period needs a from or to date'
+      );
+    });
+
+    it('should reject an unknown period', async () => {
+      await expect(
+        QuizService.getLeaderboard({ period: 'year' as 'week' })
+      ).rejects.toThrow('Period must be one of: all, week, month, custom');
+    });
+
+    it('should show pseudonymous students under their pseudonym without an id', async () => {
+      vi.mocked(executeQuery).mockResolvedValue([
+        RANKED_ROWS[0],
+        { ...RANKED_ROWS[1], privacy_level: 1 },
+      ]);
+
+      const result = await QuizService.getLeaderboard({ studentId: 'student-1' });
+
+      expect(result.entries[1]).toMatchObject({
+        studentId: null,
+        studentName: await leaderboardPseudonym('student-2'),
+        isCurrentStudent: false,
+      });
+      expect(result.entries[0]).toMatchObject({ studentName: 'Alice', isCurrentStudent: true });
+      expect(result.currentVisibility).toBe('shown');
+    });
+
+    it('should show a student their own name and rank when they are hidden', async () => {
+      vi.mocked(executeQuery).mockResolvedValue([{ ...RANKED_ROWS[3], privacy_level: 2 }]);
+
+      const result = await QuizService.getLeaderboard({ limit: 2, studentId: 'student-4' });
+
+      expect(result.currentStudent).toMatchObject({ studentId: 'student-4', studentName: 'Dan', rank: 4 });
+      expect(result.currentVisibility).toBe('hidden');
+      const [sql, params] = vi.mocked(executeQuery).mock.calls[0];
+      expect(sql).toContain('privacy_level < 2 OR student_id = ?');
+      expect(params).toEqual(['student-4', 2, 'student-4']);
+    });
+
+    it('should apply only the leaderboard policies of the courses in scope', async () => {
+      vi.mocked(executeQuery).mockResolvedValue([]);
+
+      await QuizService.getLeaderboard({ courseIds: ['course-1', 'course-2'] });
+
+      const [sql, params] = vi.mocked(executeQuery).mock.calls[0];
+      expect(sql).toContain('c.leaderboard_policy');
+      expect(sql).toContain('AND c.id IN (?, ?)');
+      expect(params).toEqual(['course-1', 'course-2', 'course-1', 'course-2', null, 10, null]);
+    });
+  });
+
+  describe('updateLeaderboardVisibility', () => {
+    it('should save the setting and return the pseudonym', async () => {
+      vi.mocked(executeMutation).mockResolvedValue({ success: true, meta: { changes: 1 } });
+
+      const privacy = await QuizService.updateLeaderboardVisibility('student-1', 'pseudonym');
+
+      expect(privacy).toEqual({ visibility: 'pseudonym', pseudonym: await leaderboardPseudonym('student-1') });
+      expect(vi.mocked(executeMutation).mock.calls[0][1]).toEqual(['pseudonym', expect.any(String), 'student-1']);
+    });
+
+    it('should reject an unknown setting', async () => {
+      await expect(
+        QuizService.updateLeaderboardVisibility('student-1', 'public' as 'shown')
+      ).rejects.toThrow('Visibility must be one of: shown, pseudonym, hidden');
+      expect(executeMutation).not.toHaveBeenCalled();
+    });
+  });
+});
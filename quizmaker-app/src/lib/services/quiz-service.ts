@@ -7,9 +7,32 @@ import {
   executeQuery,
   executeQueryFirst,
   executeMutation,
+  executeBatch,
   generateId,
   toBoolean,
 } from '@/lib/d1-client';
+import {
+  AnswerGrade,
+  QuestionType,
+  ScoringMode,
+  gradeChoiceAnswer,
+  gradeNumericAnswer,
+  gradeTextAnswer,
+  isChoiceQuestionType,
+} from '@/lib/question-types';
+import {
+  LeaderboardVisibility,
+  LEADERBOARD_VISIBILITIES,
+  isLeaderboardVisibility,
+} from '@/lib/leaderboard-privacy';
+import { leaderboardPseudonym } from '@/lib/leaderboard-pseudonym';
+import { AuthService } from '@/lib/services/auth-service';
+import { CourseService } from '@/lib/services/course-service';
+import { ScoringService } from '@/lib/services/scoring-service';
+import {
+  QuestionVersionService,
+  QuestionVersionSnapshot,
+} from '@/lib/services/question-version-service';
 
 // ============================================
 // Types & Interfaces
@@ -20,16 +43,29 @@ export interface QuizAttempt {
   studentId: string;
   questionId: string;
   selectedOptionId: string | null;
+  selectedOptionIds: string[];
+  // Typed response of numeric and short-text questions
+  responseText: string | null;
   isCorrect: boolean;
+  // What the answer earned
   score: number;
+  // What it adds to the student's totals under the scoring policy
+  awardedScore: number;
+  // 1 for the student's first answer to the question, 2 for the second, ...
+  attemptNumber: number;
   timeTakenSeconds: number | null;
+  isLate: boolean;
   attemptDate: string;
+  sessionId: string | null;
+  // Version of the question that was answered
+  versionId: string | null;
 }
 
 export interface AttemptWithDetails extends QuizAttempt {
   questionText: string;
   category: string | null;
   difficulty: 'easy' | 'medium' | 'hard';
+  questionType: QuestionType;
   selectedOptionText: string | null;
   correctOptionText: string;
   options: Array<{
@@ -42,16 +78,39 @@ export interface AttemptWithDetails extends QuizAttempt {
 
 export interface SubmitAnswerInput {
   questionId: string;
-  selectedOptionId: string;
-  timeTakenSeconds?: number;
+  // Single-choice and true/false questions take one option; multi-select questions take selectedOptionIds
+  selectedOptionId?: string;
+  selectedOptionIds?: string[];
+  // Numeric and short-text questions take a typed response
+  responseText?: string;
+  sessionId?: string;
 }
 
 export interface SubmitAnswerResult {
   attemptId: string;
   isCorrect: boolean;
   score: number;
-  correctOptionId: string;
+  // Points added to the student's totals; less than score for repeated answers
+  awardedScore: number;
+  attemptNumber: number;
+  correctOptionId: string | null;
+  // Correct option text(s), or the expected answer of numeric and short-text questions
   correctOptionText: string;
+  correctOptionIds: string[];
+  timeTakenSeconds: number;
+  isLate: boolean;
+}
+
+export interface QuestionIssue {
+  id: string;
+  issuedAt: string;
+  deadlineAt: string | null;
+}
+
+export interface IssueQuestionOptions {
+  sessionId?: string;
+  timeLimitSeconds?: number | null;
+  sessionDeadline?: string | null;
 }
 
 export interface StudentStatistics {
@@ -72,18 +131,72 @@ export interface StudentStatistics {
     correct: number;
     successRate: number;
   }>;
+  quizzesCompleted: number;
+  averageQuizPercentage: number;
+  recentQuizzes: Array<{
+    sessionId: string;
+    questionCount: number;
+    correctCount: number;
+    score: number;
+    maxScore: number;
+    percentage: number;
+    completedAt: string;
+  }>;
 }
 
+export type LeaderboardPeriod = 'all' | 'week' | 'month' | 'custom';
+
+// competition: 1, 2, 2, 4 — dense: 1, 2, 2, 3
+export type LeaderboardRanking = 'competition' | 'dense';
+
 export interface LeaderboardEntry {
   rank: number;
-  studentId: string;
+  // Null for other students shown under a pseudonym, so the entry does not identify them
+  studentId: string | null;
+  // Real name or pseudonym; the requesting student always sees their own name
   studentName: string;
+  isCurrentStudent: boolean;
   totalScore: number;
   totalAttempts: number;
   correctAttempts: number;
   successRate: number;
 }
 
+export interface LeaderboardQuery {
+  limit?: number;
+  // Courses whose attempts count; null ranks every attempt (see CourseService.resolveCourseScope)
+  courseIds?: string[] | null;
+  category?: string;
+  difficulty?: 'easy' | 'medium' | 'hard';
+  period?: LeaderboardPeriod;
+  // Custom range; a date without a time includes that whole day in `to`
+  from?: string;
+  to?: string;
+  ranking?: LeaderboardRanking;
+  // Student whose own rank is returned even outside the top N, and even when hidden
+  studentId?: string;
+}
+
+export interface LeaderboardResult {
+  entries: LeaderboardEntry[];
+  currentStudent: LeaderboardEntry | null;
+  // Number of students ranked under the filters
+  totalRanked: number;
+  period: LeaderboardPeriod;
+  ranking: LeaderboardRanking;
+  // Attempt date window applied, as ISO 8601 (to is exclusive)
+  from: string | null;
+  to: string | null;
+  // How the requesting student appears to others here; null when they are not ranked
+  currentVisibility: LeaderboardVisibility | null;
+}
+
+export interface LeaderboardPrivacy {
+  visibility: LeaderboardVisibility;
+  // Name shown to others under the pseudonym setting or a course's pseudonym policy
+  pseudonym: string;
+}
+
 export interface PaginatedAttempts {
   data: QuizAttempt[];
   total: number;
@@ -99,6 +212,11 @@ export interface PaginatedAttempts {
 interface QuestionRow {
   id: string;
   points: number;
+  question_type: string;
+  scoring_mode: string;
+  numeric_answer: number | null;
+  numeric_tolerance: number | null;
+  current_version_id?: string | null;
   instructor_id?: string;
 }
 
@@ -116,13 +234,35 @@ interface AttemptRow {
   selected_option_id: string | null;
   is_correct: number;
   score: number;
+  awarded_score: number;
+  attempt_number: number;
   time_taken_seconds: number | null;
+  is_late: number;
   attempt_date: string;
+  session_id: string | null;
+  version_id: string | null;
+  selected_option_ids: string | null;
+  response_text: string | null;
+  question_type?: string;
   question_text?: string;
   category?: string | null;
   difficulty?: string;
 }
 
+interface GradedAnswer {
+  grade: AnswerGrade;
+  selectedOptionIds: string[];
+  responseText: string | null;
+  correctOptionIds: string[];
+  correctOptionText: string;
+}
+
+interface QuestionIssueRow {
+  id: string;
+  issued_at: string;
+  deadline_at: string | null;
+}
+
 interface OverallStatsRow {
   total_attempts: number;
   correct_attempts: number;
@@ -142,12 +282,27 @@ interface DifficultyStatsRow {
   correct: number;
 }
 
+interface QuizSummaryRow {
+  id: string;
+  question_count: number;
+  correct_count: number;
+  score: number;
+  max_score: number;
+  completed_at: string;
+}
+
 interface LeaderboardRow {
   student_id: string;
   student_name: string;
   total_score: number;
   total_attempts: number;
   correct_attempts: number;
+  competition_rank: number;
+  dense_rank: number;
+  position: number;
+  ranked_count: number;
+  // Index into LEADERBOARD_VISIBILITIES of the student's own setting or a stricter course policy
+  privacy_level: number;
 }
 
 interface QuestionAttemptRow {
@@ -156,6 +311,21 @@ interface QuestionAttemptRow {
   attempt_date: string;
 }
 
+// ============================================
+// Constants
+// ============================================
+
+/** Allowance for network latency between the deadline and the answer arriving */
+export const LATE_SUBMISSION_GRACE_SECONDS = 2;
+
+export const MAX_RESPONSE_TEXT_LENGTH = 500;
+
+export const LEADERBOARD_PERIODS: LeaderboardPeriod[] = ['all', 'week', 'month', 'custom'];
+
+export const LEADERBOARD_RANKINGS: LeaderboardRanking[] = ['competition', 'dense'];
+
+const HIDDEN_PRIVACY_LEVEL = LEADERBOARD_VISIBILITIES.indexOf('hidden');
+
 // ============================================
 // Quiz Service Class
 // ============================================
@@ -163,6 +333,7 @@ interface QuestionAttemptRow {
 export class QuizService {
   /**
    * Submit an answer for a question
+   * Students must have verified their email address (see AuthService.isEmailVerificationRequired)
    */
   static async submitAnswer(
     studentId: string,
@@ -170,14 +341,18 @@ export class QuizService {
   ): Promise<SubmitAnswerResult> {
     console.log('📝 Submitting answer for question:', input.questionId);
 
-    // Validate input
-    if (!input.questionId || !input.selectedOptionId) {
-      throw new Error('Question ID and selected option are required');
+    if (!input.questionId) {
+      throw new Error('Question ID is required');
+    }
+
+    if (AuthService.isEmailVerificationRequired() && !(await AuthService.isEmailVerified(studentId))) {
+      throw new Error('Please verify your email address before answering questions');
     }
 
     // Verify question exists
     const question = await executeQueryFirst<QuestionRow>(
-      'SELECT id, points FROM questions WHERE id = ?',
+      `SELECT id, points, question_type, scoring_mode, numeric_answer, numeric_tolerance, current_version_id
+       FROM questions WHERE id = ?`,
       [input.questionId]
     );
 
@@ -185,61 +360,160 @@ export class QuizService {
       throw new Error('Question not found');
     }
 
-    // Verify option belongs to question and get correct answer
-    const selectedOption = await executeQueryFirst<OptionRow>(
-      'SELECT id, is_correct FROM options WHERE id = ? AND question_id = ?',
-      [input.selectedOptionId, input.questionId]
+    const questionType = (question.question_type ?? 'single_choice') as QuestionType;
+    const answer = await this.gradeAnswer(question, questionType, input);
+
+    // Timing comes from when the server issued the question, never from the client.
+    // A session answer consumes its issue in the batch that records it (see below)
+    const now = new Date();
+    const issue = input.sessionId
+      ? await this.findOpenIssue(studentId, input.questionId, input.sessionId)
+      : await this.consumeIssue(studentId, input.questionId, now);
+    const timeTakenSeconds = Math.max(
+      0,
+      Math.round((now.getTime() - new Date(issue.issuedAt).getTime()) / 1000)
     );
+    const isLate =
+      issue.deadlineAt !== null &&
+      now.getTime() > new Date(issue.deadlineAt).getTime() + LATE_SUBMISSION_GRACE_SECONDS * 1000;
 
-    if (!selectedOption) {
-      throw new Error('Selected option not found for this question');
-    }
+    // Late answers are recorded but score zero
+    const isCorrect = !isLate && answer.grade.isCorrect;
+    const score = isLate ? 0 : answer.grade.score;
 
-    // Get correct option
-    const correctOption = await executeQueryFirst<OptionRow>(
-      'SELECT id, option_text FROM options WHERE question_id = ? AND is_correct = 1',
-      [input.questionId]
-    );
+    // Repeated answers to the question add to totals as the scoring policy allows
+    const { policy } = await ScoringService.getSettings();
+    const previous = await ScoringService.getPreviousAttempts(studentId, input.questionId);
+    const { attemptNumber, awardedScore } = ScoringService.awardScore(policy, score, previous);
 
-    if (!correctOption) {
-      throw new Error('Correct answer not found for this question');
+    // Record the attempt against the answered version, and every selected option
+    const attemptId = generateId();
+    const statements = [
+      {
+        sql: `INSERT INTO quiz_attempts 
+              (id, student_id, question_id, selected_option_id, response_text, is_correct, score, awarded_score, attempt_number, time_taken_seconds, is_late, attempt_date, session_id, version_id)
+              VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        params: [
+          attemptId,
+          studentId,
+          input.questionId,
+          answer.selectedOptionIds.length === 1 && questionType !== 'multi_select'
+            ? answer.selectedOptionIds[0]
+            : null,
+          answer.responseText,
+          isCorrect ? 1 : 0,
+          score,
+          awardedScore,
+          attemptNumber,
+          timeTakenSeconds,
+          isLate ? 1 : 0,
+          now.toISOString(),
+          input.sessionId ?? null,
+          question.current_version_id ?? null,
+        ],
+      },
+      ...answer.selectedOptionIds.map((optionId) => ({
+        sql: 'INSERT INTO quiz_attempt_selections (attempt_id, option_id) VALUES (?, ?)',
+        params: [attemptId, optionId],
+      })),
+    ];
+
+    // A session answer also consumes its issue and claims the session question. The
+    // unique (session_id, question_id) index on quiz_attempts fails a concurrent second
+    // answer, which rolls its whole batch back
+    if (input.sessionId) {
+      statements.push(
+        {
+          sql: 'UPDATE question_issues SET consumed_at = ? WHERE id = ?',
+          params: [now.toISOString(), issue.id],
+        },
+        {
+          sql: 'UPDATE quiz_session_questions SET attempt_id = ? WHERE session_id = ? AND question_id = ?',
+          params: [attemptId, input.sessionId, input.questionId],
+        }
+      );
     }
 
-    // Calculate if answer is correct
-    const isCorrect = toBoolean(selectedOption.is_correct);
-    const score = isCorrect ? (question.points as number) : 0;
-
-    // Record the attempt
-    const attemptId = generateId();
-    await executeMutation(
-      `INSERT INTO quiz_attempts 
-       (id, student_id, question_id, selected_option_id, is_correct, score, time_taken_seconds, attempt_date)
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
-      [
-        attemptId,
-        studentId,
-        input.questionId,
-        input.selectedOptionId,
-        isCorrect ? 1 : 0,
-        score,
-        input.timeTakenSeconds ?? null,
-        new Date().toISOString(),
-      ]
-    );
+    try {
+      await executeBatch(statements);
+    } catch (error) {
+      if (input.sessionId && error instanceof Error && error.message.includes('UNIQUE constraint failed')) {
+        throw new Error('Question has already been answered in this quiz session');
+      }
+      throw error;
+    }
 
-    console.log('✅ Answer submitted:', { isCorrect, score });
+    console.log('✅ Answer submitted:', { isCorrect, score, awardedScore, attemptNumber, timeTakenSeconds, isLate });
 
     return {
       attemptId,
       isCorrect,
       score,
-      correctOptionId: correctOption.id as string,
-      correctOptionText: correctOption.option_text as string,
+      awardedScore,
+      attemptNumber,
+      correctOptionId: answer.correctOptionIds[0] ?? null,
+      correctOptionText: answer.correctOptionText,
+      correctOptionIds: answer.correctOptionIds,
+      timeTakenSeconds,
+      isLate,
     };
   }
 
+  /**
+   * Stamp the time a question is served to a student
+   * The deadline is the earlier of the question's own limit and the session deadline.
+   * Within a session an open issue is reused, so reloading does not restart the clock
+   */
+  static async issueQuestion(
+    studentId: string,
+    questionId: string,
+    options: IssueQuestionOptions = {}
+  ): Promise<QuestionIssue> {
+    if (options.sessionId) {
+      const open = await executeQueryFirst<QuestionIssueRow>(
+        `SELECT id, issued_at, deadline_at FROM question_issues
+         WHERE student_id = ? AND question_id = ? AND session_id = ? AND consumed_at IS NULL
+         ORDER BY issued_at DESC
+         LIMIT 1`,
+        [studentId, questionId, options.sessionId]
+      );
+
+      if (open) {
+        return { id: open.id, issuedAt: open.issued_at, deadlineAt: open.deadline_at };
+      }
+    }
+
+    const issuedAt = new Date();
+    const deadlines: number[] = [];
+    if (options.timeLimitSeconds) {
+      deadlines.push(issuedAt.getTime() + options.timeLimitSeconds * 1000);
+    }
+    if (options.sessionDeadline) {
+      deadlines.push(new Date(options.sessionDeadline).getTime());
+    }
+    const deadlineAt = deadlines.length > 0
+      ? new Date(Math.min(...deadlines)).toISOString()
+      : null;
+
+    const issue: QuestionIssue = {
+      id: generateId(),
+      issuedAt: issuedAt.toISOString(),
+      deadlineAt,
+    };
+
+    await executeMutation(
+      `INSERT INTO question_issues (id, student_id, question_id, session_id, issued_at, deadline_at)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      [issue.id, studentId, questionId, options.sessionId ?? null, issue.issuedAt, issue.deadlineAt]
+    );
+
+    console.log('⏱️ Question issued:', questionId, deadlineAt ? `deadline ${deadlineAt}` : 'untimed');
+    return issue;
+  }
+
   /**
    * Get student's attempt history with pagination
+   * Each attempt has its own score and the awarded score it added to the student's totals
    */
   static async getStudentAttempts(
     studentId: string,
@@ -261,8 +535,10 @@ export class QuizService {
     // Get paginated attempts
     const attempts = await executeQuery<AttemptRow>(
       `SELECT qa.id, qa.student_id, qa.question_id, qa.selected_option_id,
-              qa.is_correct, qa.score, qa.time_taken_seconds, qa.attempt_date,
-              q.question_text, q.category, q.difficulty
+              qa.is_correct, qa.score, qa.awarded_score, qa.attempt_number, qa.time_taken_seconds, qa.is_late, qa.attempt_date, qa.session_id,
+              qa.version_id, qa.response_text,
+              (SELECT GROUP_CONCAT(option_id) FROM quiz_attempt_selections WHERE attempt_id = qa.id) as selected_option_ids,
+              q.question_type, q.question_text, q.category, q.difficulty
        FROM quiz_attempts qa
        JOIN questions q ON q.id = qa.question_id
        WHERE qa.student_id = ?
@@ -276,10 +552,17 @@ export class QuizService {
       studentId: row.student_id as string,
       questionId: row.question_id as string,
       selectedOptionId: row.selected_option_id as string | null,
+      selectedOptionIds: row.selected_option_ids ? row.selected_option_ids.split(',') : [],
+      responseText: row.response_text ?? null,
       isCorrect: toBoolean(row.is_correct),
       score: row.score as number,
+      awardedScore: row.awarded_score ?? 0,
+      attemptNumber: row.attempt_number ?? 1,
       timeTakenSeconds: row.time_taken_seconds as number | null,
+      isLate: toBoolean(row.is_late),
       attemptDate: row.attempt_date as string,
+      sessionId: row.session_id as string | null,
+      versionId: row.version_id ?? null,
     }));
 
     console.log('✓ Found', total, 'attempts');
@@ -295,6 +578,7 @@ export class QuizService {
 
   /**
    * Get a specific attempt with full details
+   * The question is shown as it was when answered, from the attempt's version
    */
   static async getAttemptById(
     attemptId: string,
@@ -305,10 +589,10 @@ export class QuizService {
     // Get attempt with question info
     const attempt = await executeQueryFirst<AttemptRow>(
       `SELECT qa.id, qa.student_id, qa.question_id, qa.selected_option_id,
-              qa.is_correct, qa.score, qa.time_taken_seconds, qa.attempt_date,
-              q.question_text, q.category, q.difficulty
+              qa.is_correct, qa.score, qa.awarded_score, qa.attempt_number, qa.time_taken_seconds, qa.is_late, qa.attempt_date, qa.session_id,
+              qa.version_id, qa.response_text,
+              (SELECT GROUP_CONCAT(option_id) FROM quiz_attempt_selections WHERE attempt_id = qa.id) as selected_option_ids
        FROM quiz_attempts qa
-       JOIN questions q ON q.id = qa.question_id
        WHERE qa.id = ? AND qa.student_id = ?`,
       [attemptId, studentId]
     );
@@ -318,22 +602,25 @@ export class QuizService {
       return null;
     }
 
-    // Get all options for the question
-    const optionRows = await executeQuery<OptionRow>(
-      `SELECT id, option_text, is_correct, option_order
-       FROM options WHERE question_id = ? ORDER BY option_order`,
-      [attempt.question_id]
-    );
+    const version = attempt.version_id
+      ? await QuestionVersionService.getVersion(attempt.version_id)
+      : null;
+    const question = version?.snapshot ?? (await this.getCurrentSnapshot(attempt.question_id));
 
-    const options = optionRows.map((row) => ({
-      id: row.id as string,
-      optionText: row.option_text as string,
-      isCorrect: toBoolean(row.is_correct),
-      wasSelected: row.id === attempt.selected_option_id,
+    const selectedOptionIds = attempt.selected_option_ids
+      ? attempt.selected_option_ids.split(',')
+      : [];
+
+    const options = question.options.map((option) => ({
+      id: option.id,
+      optionText: option.optionText,
+      isCorrect: option.isCorrect,
+      wasSelected: selectedOptionIds.includes(option.id),
     }));
 
-    const correctOption = options.find((o) => o.isCorrect);
-    const selectedOption = options.find((o) => o.wasSelected);
+    const correctOptions = options.filter((o) => o.isCorrect);
+    const selectedOptions = options.filter((o) => o.wasSelected);
+    const isChoice = isChoiceQuestionType(question.questionType);
 
     console.log('✓ Attempt details retrieved');
 
@@ -342,35 +629,62 @@ export class QuizService {
       studentId: attempt.student_id as string,
       questionId: attempt.question_id as string,
       selectedOptionId: attempt.selected_option_id as string | null,
+      selectedOptionIds,
+      responseText: attempt.response_text ?? null,
       isCorrect: toBoolean(attempt.is_correct),
       score: attempt.score as number,
+      awardedScore: attempt.awarded_score ?? 0,
+      attemptNumber: attempt.attempt_number ?? 1,
       timeTakenSeconds: attempt.time_taken_seconds as number | null,
+      isLate: toBoolean(attempt.is_late),
       attemptDate: attempt.attempt_date as string,
-      questionText: attempt.question_text as string,
-      category: attempt.category as string | null,
-      difficulty: attempt.difficulty as 'easy' | 'medium' | 'hard',
-      selectedOptionText: selectedOption?.optionText ?? null,
-      correctOptionText: correctOption?.optionText ?? '',
+      sessionId: attempt.session_id as string | null,
+      versionId: attempt.version_id ?? null,
+      questionType: question.questionType,
+      questionText: question.questionText,
+      category: question.category,
+      difficulty: question.difficulty,
+      selectedOptionText: !isChoice
+        ? attempt.response_text ?? null
+        : selectedOptions.length > 0
+          ? selectedOptions.map((o) => o.optionText).join(', ')
+          : null,
+      correctOptionText: isChoice
+        ? correctOptions.map((o) => o.optionText).join(', ')
+        : this.formatExpectedAnswer(
+            question.questionType,
+            question.numericAnswer,
+            question.numericTolerance,
+            question.acceptedAnswers
+          ),
       options,
     };
   }
 
   /**
    * Get comprehensive statistics for a student
+   * With a courseId only attempts on that course's questions and quizzes taken in it count.
+   * Score totals add up awarded scores, so repeated answers count as the scoring
+   * policy allows; completed quizzes keep the scores they were graded with
    */
-  static async getStudentStatistics(studentId: string): Promise<StudentStatistics> {
+  static async getStudentStatistics(studentId: string, courseId?: string): Promise<StudentStatistics> {
     console.log('📊 Getting statistics for student:', studentId);
 
+    const courseFilter = courseId
+      ? CourseService.buildAttemptFilter([courseId])
+      : { sql: '1 = 1', params: [] };
+    const attemptParams = [studentId, ...courseFilter.params];
+
     // Overall statistics
     const overall = await executeQueryFirst<OverallStatsRow>(
       `SELECT 
          COUNT(*) as total_attempts,
-         SUM(CASE WHEN is_correct = 1 THEN 1 ELSE 0 END) as correct_attempts,
-         SUM(score) as total_score,
-         AVG(score) as avg_score
-       FROM quiz_attempts
-       WHERE student_id = ?`,
-      [studentId]
+         SUM(CASE WHEN qa.is_correct = 1 THEN 1 ELSE 0 END) as correct_attempts,
+         SUM(qa.awarded_score) as total_score,
+         AVG(qa.awarded_score) as avg_score
+       FROM quiz_attempts qa
+       WHERE qa.student_id = ? AND ${courseFilter.sql}`,
+      attemptParams
     );
 
     // Category breakdown
@@ -381,10 +695,10 @@ export class QuizService {
          SUM(CASE WHEN qa.is_correct = 1 THEN 1 ELSE 0 END) as correct
        FROM quiz_attempts qa
        JOIN questions q ON q.id = qa.question_id
-       WHERE qa.student_id = ?
+       WHERE qa.student_id = ? AND ${courseFilter.sql}
        GROUP BY q.category
        ORDER BY attempts DESC`,
-      [studentId]
+      attemptParams
     );
 
     // Difficulty breakdown
@@ -395,7 +709,7 @@ export class QuizService {
          SUM(CASE WHEN qa.is_correct = 1 THEN 1 ELSE 0 END) as correct
        FROM quiz_attempts qa
        JOIN questions q ON q.id = qa.question_id
-       WHERE qa.student_id = ?
+       WHERE qa.student_id = ? AND ${courseFilter.sql}
        GROUP BY q.difficulty
        ORDER BY 
          CASE q.difficulty 
@@ -403,11 +717,23 @@ export class QuizService {
            WHEN 'medium' THEN 2 
            WHEN 'hard' THEN 3 
          END`,
-      [studentId]
+      attemptParams
+    );
+
+    // Completed quiz sessions, most recent first
+    const quizRows = await executeQuery<QuizSummaryRow>(
+      `SELECT id, question_count, correct_count, score, max_score, completed_at
+       FROM quiz_sessions
+       WHERE student_id = ? AND status = 'completed'${courseId ? ' AND course_id = ?' : ''}
+       ORDER BY completed_at DESC`,
+      courseId ? [studentId, courseId] : [studentId]
     );
 
     const totalAttempts = (overall?.total_attempts as number) || 0;
     const correctAttempts = (overall?.correct_attempts as number) || 0;
+    const quizPercentages = quizRows.map((row) =>
+      row.max_score > 0 ? Math.round((row.score / row.max_score) * 100) : 0
+    );
 
     console.log('✓ Statistics calculated');
 
@@ -431,48 +757,231 @@ export class QuizService {
         successRate:
           row.attempts > 0 ? Math.round(((row.correct as number) / (row.attempts as number)) * 100) : 0,
       })),
+      quizzesCompleted: quizRows.length,
+      averageQuizPercentage:
+        quizPercentages.length > 0
+          ? Math.round(quizPercentages.reduce((sum, pct) => sum + pct, 0) / quizPercentages.length)
+          : 0,
+      recentQuizzes: quizRows.slice(0, 10).map((row, index) => ({
+        sessionId: row.id,
+        questionCount: row.question_count,
+        correctCount: row.correct_count,
+        score: row.score,
+        maxScore: row.max_score,
+        percentage: quizPercentages[index],
+        completedAt: row.completed_at,
+      })),
     };
   }
 
   /**
-   * Get the leaderboard of top students
+   * Get the leaderboard of top students, optionally by course, category,
+   * difficulty and attempt date window
+   * Total scores add up awarded scores under the scoring policy, so answering the
+   * same question again does not count in full.
+   * Students with the same total score share a rank; within a rank they are listed
+   * by correct answers, then name. Students who have not verified their email
+   * address are not ranked.
+   * Each student appears as the most private of their own visibility setting and
+   * the leaderboard policies of the courses in scope they are enrolled in. Hidden
+   * students are left out of the ranking, except in their own view, where they are
+   * ranked as if they were shown
    */
-  static async getLeaderboard(limit: number = 10): Promise<LeaderboardEntry[]> {
-    console.log('🏆 Getting leaderboard, top', limit);
+  static async getLeaderboard(query: LeaderboardQuery = {}): Promise<LeaderboardResult> {
+    const safeLimit = Math.min(Math.max(query.limit || 10, 1), 100);
+    const period = query.period ?? 'all';
+    const ranking = query.ranking ?? 'competition';
+    console.log('🏆 Getting leaderboard, top', safeLimit, 'for period', period);
+
+    if (!LEADERBOARD_PERIODS.includes(period)) {
+      throw new Error(`Period must be one of: ${LEADERBOARD_PERIODS.join(', ')}`);
+    }
+    if (!LEADERBOARD_RANKINGS.includes(ranking)) {
+      throw new Error(`Ranking must be one of: ${LEADERBOARD_RANKINGS.join(', ')}`);
+    }
 
-    const safeLimit = Math.min(limit, 100);
+    const range = this.resolveLeaderboardWindow(period, query.from, query.to);
+
+    const conditions: string[] = ["u.role = 'student'"];
+    const params: unknown[] = [];
+
+    if (AuthService.isEmailVerificationRequired()) {
+      conditions.push('u.email_verified_at IS NOT NULL');
+    }
 
+    if (query.courseIds) {
+      const courseFilter = CourseService.buildAttemptFilter(query.courseIds);
+      conditions.push(courseFilter.sql);
+      params.push(...courseFilter.params);
+    }
+
+    if (query.category) {
+      conditions.push('q.category = ?');
+      params.push(query.category);
+    }
+
+    if (query.difficulty) {
+      conditions.push('q.difficulty = ?');
+      params.push(query.difficulty);
+    }
+
+    if (range.from) {
+      conditions.push('qa.attempt_date >= ?');
+      params.push(range.from);
+    }
+
+    if (range.to) {
+      conditions.push('qa.attempt_date < ?');
+      params.push(range.to);
+    }
+
+    // Course policies only apply to the leaderboards of their own course
+    const policyCourses = query.courseIds?.length
+      ? `AND c.id IN (${query.courseIds.map(() => '?').join(', ')})`
+      : '';
+    const policyParams = query.courseIds?.length ? query.courseIds : [];
+    const viewerId = query.studentId ?? null;
+
+    // Top N plus the requesting student's own row, ranked over everyone who qualifies
     const rows = await executeQuery<LeaderboardRow>(
-      `SELECT 
-         u.id as student_id,
-         u.name as student_name,
-         SUM(qa.score) as total_score,
-         COUNT(*) as total_attempts,
-         SUM(CASE WHEN qa.is_correct = 1 THEN 1 ELSE 0 END) as correct_attempts
-       FROM quiz_attempts qa
-       JOIN users u ON u.id = qa.student_id
-       WHERE u.role = 'student'
-       GROUP BY u.id
-       ORDER BY total_score DESC, correct_attempts DESC
-       LIMIT ?`,
-      [safeLimit]
+      `WITH totals AS (
+         SELECT
+           u.id as student_id,
+           u.name as student_name,
+           u.leaderboard_visibility as visibility,
+           SUM(qa.awarded_score) as total_score,
+           COUNT(*) as total_attempts,
+           SUM(CASE WHEN qa.is_correct = 1 THEN 1 ELSE 0 END) as correct_attempts
+         FROM quiz_attempts qa
+         JOIN users u ON u.id = qa.student_id
+         JOIN questions q ON q.id = qa.question_id
+         WHERE ${conditions.join(' AND ')}
+         GROUP BY u.id
+       ),
+       privacy AS (
+         SELECT totals.*,
+           MAX(${this.privacyLevelSql('totals.visibility')},
+             COALESCE((SELECT MAX(${this.privacyLevelSql('c.leaderboard_policy')})
+                       FROM course_enrollments ce
+                       JOIN courses c ON c.id = ce.course_id
+                       WHERE ce.student_id = totals.student_id ${policyCourses}), 0)) as privacy_level
+         FROM totals
+       ),
+       ranked AS (
+         SELECT privacy.*,
+           RANK() OVER (ORDER BY total_score DESC) as competition_rank,
+           DENSE_RANK() OVER (ORDER BY total_score DESC) as dense_rank,
+           ROW_NUMBER() OVER (ORDER BY total_score DESC, correct_attempts DESC, student_name) as position,
+           COUNT(*) OVER () as ranked_count
+         FROM privacy
+         WHERE privacy_level < ${HIDDEN_PRIVACY_LEVEL} OR student_id = ?
+       )
+       SELECT * FROM ranked
+       WHERE position <= ? OR student_id = ?
+       ORDER BY position`,
+      [...params, ...policyParams, viewerId, safeLimit, viewerId]
     );
 
-    const leaderboard: LeaderboardEntry[] = rows.map((row, index) => ({
-      rank: index + 1,
-      studentId: row.student_id as string,
-      studentName: row.student_name as string,
-      totalScore: (row.total_score as number) || 0,
-      totalAttempts: row.total_attempts as number,
-      correctAttempts: (row.correct_attempts as number) || 0,
-      successRate:
-        row.total_attempts > 0
-          ? Math.round(((row.correct_attempts as number) / (row.total_attempts as number)) * 100)
-          : 0,
-    }));
+    const toEntry = async (row: LeaderboardRow): Promise<LeaderboardEntry> => {
+      const isCurrentStudent = row.student_id === viewerId;
+      const pseudonymous = !isCurrentStudent && row.privacy_level > 0;
+      return {
+        rank: ranking === 'dense' ? row.dense_rank : row.competition_rank,
+        studentId: pseudonymous ? null : row.student_id,
+        studentName: pseudonymous ? await leaderboardPseudonym(row.student_id) : row.student_name,
+        isCurrentStudent,
+        totalScore: row.total_score || 0,
+        totalAttempts: row.total_attempts,
+        correctAttempts: row.correct_attempts || 0,
+        successRate:
+          row.total_attempts > 0
+            ? Math.round((row.correct_attempts / row.total_attempts) * 100)
+            : 0,
+      };
+    };
+
+    const entries = await Promise.all(rows.filter((row) => row.position <= safeLimit).map(toEntry));
+    const ownRow = viewerId ? rows.find((row) => row.student_id === viewerId) : undefined;
+
+    console.log('✓ Leaderboard retrieved with', entries.length, 'entries');
+    return {
+      entries,
+      currentStudent: ownRow ? await toEntry(ownRow) : null,
+      totalRanked: rows[0]?.ranked_count ?? 0,
+      period,
+      ranking,
+      from: range.from,
+      to: range.to,
+      currentVisibility: ownRow ? LEADERBOARD_VISIBILITIES[ownRow.privacy_level] ?? 'hidden' : null,
+    };
+  }
+
+  /**
+   * A student's own leaderboard visibility setting and the pseudonym it uses
+   */
+  static async getLeaderboardPrivacy(studentId: string): Promise<LeaderboardPrivacy> {
+    const row = await executeQueryFirst<{ leaderboard_visibility: LeaderboardVisibility }>(
+      'SELECT leaderboard_visibility FROM users WHERE id = ?',
+      [studentId]
+    );
+
+    if (!row) {
+      throw new Error('User not found');
+    }
+
+    return {
+      visibility: row.leaderboard_visibility ?? 'shown',
+      pseudonym: await leaderboardPseudonym(studentId),
+    };
+  }
+
+  /**
+   * Change how a student appears on leaderboards
+   * A course's policy can still require more privacy than this setting
+   */
+  static async updateLeaderboardVisibility(
+    studentId: string,
+    visibility: LeaderboardVisibility
+  ): Promise<LeaderboardPrivacy> {
+    console.log('🕶️ Updating leaderboard visibility for:', studentId, visibility);
+
+    if (!isLeaderboardVisibility(visibility)) {
+      throw new Error(`Visibility must be one of: ${LEADERBOARD_VISIBILITIES.join(', ')}`);
+    }
 
-    console.log('✓ Leaderboard retrieved with', leaderboard.length, 'entries');
-    return leaderboard;
+    const result = await executeMutation(
+      'UPDATE users SET leaderboard_visibility = ?, updated_at = ? WHERE id = ?',
+      [visibility, new Date().toISOString(), studentId]
+    );
+
+    if (result.meta?.changes === 0) {
+      throw new Error('User not found');
+    }
+
+    return { visibility, pseudonym: await leaderboardPseudonym(studentId) };
+  }
+
+  /**
+   * Categories of the questions in the given courses' pools (every question for null),
+   * offered as leaderboard filters
+   */
+  static async getLeaderboardCategories(courseIds: string[] | null): Promise<string[]> {
+    if (courseIds && courseIds.length === 0) {
+      return [];
+    }
+
+    const courseCondition = courseIds
+      ? `AND q.id IN (SELECT question_id FROM course_questions
+           WHERE course_id IN (${courseIds.map(() => '?').join(', ')}))`
+      : '';
+    const rows = await executeQuery<{ category: string }>(
+      `SELECT DISTINCT q.category FROM questions q
+       WHERE q.category IS NOT NULL AND q.deleted_at IS NULL ${courseCondition}
+       ORDER BY q.category`,
+      courseIds ?? []
+    );
+
+    return rows.map((row) => row.category);
   }
 
   /**
@@ -536,16 +1045,18 @@ export class QuizService {
   }
 
   /**
-   * Get count of available questions for a student
+   * Get count of available questions for a student (from their courses' pools)
    */
   static async getAvailableQuestionCount(
     studentId: string,
     excludeAttempted: boolean = false,
     category?: string,
-    difficulty?: 'easy' | 'medium' | 'hard'
+    difficulty?: 'easy' | 'medium' | 'hard',
+    courseId?: string
   ): Promise<number> {
-    const conditions: string[] = ['1=1'];
-    const params: (string | number)[] = [];
+    const courseFilter = CourseService.buildStudentQuestionFilter(studentId, courseId);
+    const conditions: string[] = ['q.deleted_at IS NULL', courseFilter.sql];
+    const params: unknown[] = [...courseFilter.params];
 
     if (excludeAttempted) {
       conditions.push(
@@ -571,5 +1082,285 @@ export class QuizService {
 
     return result?.count ?? 0;
   }
-}
 
+  /**
+   * Validate a submitted answer against the question type and grade it
+   */
+  private static async gradeAnswer(
+    question: QuestionRow,
+    questionType: QuestionType,
+    input: SubmitAnswerInput
+  ): Promise<GradedAnswer> {
+    if (!isChoiceQuestionType(questionType)) {
+      const responseText = (input.responseText ?? '').trim();
+      if (!responseText) {
+        throw new Error('An answer is required for this question');
+      }
+      if (responseText.length > MAX_RESPONSE_TEXT_LENGTH) {
+        throw new Error(`Answer must not exceed ${MAX_RESPONSE_TEXT_LENGTH} characters`);
+      }
+
+      let grade: AnswerGrade;
+      let acceptedAnswers: string[] = [];
+      if (questionType === 'numeric') {
+        if (question.numeric_answer === null) {
+          throw new Error('Correct answer not found for this question');
+        }
+        grade = gradeNumericAnswer({
+          correctAnswer: question.numeric_answer,
+          tolerance: question.numeric_tolerance ?? 0,
+          response: responseText,
+          points: question.points,
+        });
+      } else {
+        acceptedAnswers = await this.getAcceptedAnswers(question.id);
+        if (acceptedAnswers.length === 0) {
+          throw new Error('Correct answer not found for this question');
+        }
+        grade = gradeTextAnswer({ acceptedAnswers, response: responseText, points: question.points });
+      }
+
+      return {
+        grade,
+        selectedOptionIds: [],
+        responseText,
+        correctOptionIds: [],
+        correctOptionText: this.formatExpectedAnswer(
+          questionType,
+          question.numeric_answer,
+          question.numeric_tolerance,
+          acceptedAnswers
+        ),
+      };
+    }
+
+    const selectedOptionIds = Array.from(
+      new Set(input.selectedOptionIds ?? (input.selectedOptionId ? [input.selectedOptionId] : []))
+    );
+
+    if (selectedOptionIds.length === 0) {
+      throw new Error('Question ID and selected option are required');
+    }
+    if (questionType !== 'multi_select' && selectedOptionIds.length > 1) {
+      throw new Error('Only one option can be selected for this question');
+    }
+
+    // Verify the options belong to the question and get the correct answers
+    const optionRows = await executeQuery<OptionRow>(
+      'SELECT id, is_correct, option_text FROM options WHERE question_id = ? AND retired_at IS NULL ORDER BY option_order',
+      [question.id]
+    );
+    const optionIds = new Set(optionRows.map((row) => row.id));
+
+    if (selectedOptionIds.some((optionId) => !optionIds.has(optionId))) {
+      throw new Error('Selected option not found for this question');
+    }
+
+    const correctOptions = optionRows.filter((row) => toBoolean(row.is_correct));
+    if (correctOptions.length === 0) {
+      throw new Error('Correct answer not found for this question');
+    }
+
+    const grade = gradeChoiceAnswer({
+      correctOptionIds: correctOptions.map((row) => row.id),
+      selectedOptionIds,
+      points: question.points,
+      scoringMode: (question.scoring_mode ?? 'all_or_nothing') as ScoringMode,
+    });
+
+    return {
+      grade,
+      selectedOptionIds,
+      responseText: null,
+      correctOptionIds: correctOptions.map((row) => row.id),
+      correctOptionText: correctOptions.map((row) => row.option_text).join(', '),
+    };
+  }
+
+  /**
+   * Describe the expected answer of a numeric or short-text question for feedback
+   */
+  private static formatExpectedAnswer(
+    questionType: QuestionType,
+    numericAnswer: number | null,
+    numericTolerance: number | null,
+    acceptedAnswers: string[]
+  ): string {
+    if (questionType === 'numeric') {
+      if (numericAnswer === null) {
+        return '';
+      }
+      return numericTolerance ? `${numericAnswer} (± ${numericTolerance})` : `${numericAnswer}`;
+    }
+
+    return acceptedAnswers.join(' / ');
+  }
+
+  /**
+   * Snapshot of a question's current state, for attempts with no recorded version
+   */
+  private static async getCurrentSnapshot(questionId: string): Promise<QuestionVersionSnapshot> {
+    const question = await executeQueryFirst<QuestionRow & {
+      question_text: string;
+      category: string | null;
+      difficulty: string;
+      time_limit_seconds: number | null;
+    }>(
+      `SELECT id, points, question_type, scoring_mode, question_text, category, difficulty,
+              time_limit_seconds, numeric_answer, numeric_tolerance
+       FROM questions WHERE id = ?`,
+      [questionId]
+    );
+
+    if (!question) {
+      throw new Error('Question not found');
+    }
+
+    const optionRows = await executeQuery<OptionRow>(
+      `SELECT id, option_text, is_correct, option_order
+       FROM options WHERE question_id = ? AND retired_at IS NULL ORDER BY option_order`,
+      [questionId]
+    );
+
+    return {
+      questionType: (question.question_type ?? 'single_choice') as QuestionType,
+      scoringMode: (question.scoring_mode ?? 'all_or_nothing') as ScoringMode,
+      questionText: question.question_text,
+      category: question.category,
+      difficulty: question.difficulty as 'easy' | 'medium' | 'hard',
+      points: question.points,
+      timeLimitSeconds: question.time_limit_seconds,
+      options: optionRows.map((row) => ({
+        id: row.id,
+        optionText: row.option_text,
+        isCorrect: toBoolean(row.is_correct),
+        optionOrder: row.option_order ?? 0,
+      })),
+      numericAnswer: question.numeric_answer,
+      numericTolerance: question.numeric_tolerance,
+      acceptedAnswers: await this.getAcceptedAnswers(questionId),
+    };
+  }
+
+  /**
+   * Load the accepted answers of a short-text question in order
+   */
+  private static async getAcceptedAnswers(questionId: string): Promise<string[]> {
+    const rows = await executeQuery<{ answer_text: string }>(
+      `SELECT answer_text FROM question_accepted_answers
+       WHERE question_id = ? ORDER BY answer_order`,
+      [questionId]
+    );
+    return rows.map((row) => row.answer_text);
+  }
+
+  /**
+   * Mark the student's most recent open standalone issue of a question as answered
+   * Answers for questions the server never served are rejected
+   */
+  private static async consumeIssue(
+    studentId: string,
+    questionId: string,
+    now: Date
+  ): Promise<QuestionIssue> {
+    const issue = await this.findOpenIssue(studentId, questionId, null);
+
+    const result = await executeMutation(
+      'UPDATE question_issues SET consumed_at = ? WHERE id = ? AND consumed_at IS NULL',
+      [now.toISOString(), issue.id]
+    );
+
+    // A concurrent submission already used this issue
+    if (result.meta?.changes === 0) {
+      throw new Error('Question has already been answered');
+    }
+
+    return issue;
+  }
+
+  /**
+   * The student's most recent unanswered issue of a question, in a session or standalone
+   */
+  private static async findOpenIssue(
+    studentId: string,
+    questionId: string,
+    sessionId: string | null
+  ): Promise<QuestionIssue> {
+    const issue = await executeQueryFirst<QuestionIssueRow>(
+      `SELECT id, issued_at, deadline_at FROM question_issues
+       WHERE student_id = ? AND question_id = ? AND session_id IS ? AND consumed_at IS NULL
+       ORDER BY issued_at DESC
+       LIMIT 1`,
+      [studentId, questionId, sessionId]
+    );
+
+    if (!issue) {
+      throw new Error('Question has not been issued to this student');
+    }
+
+    return { id: issue.id, issuedAt: issue.issued_at, deadlineAt: issue.deadline_at };
+  }
+
+  /**
+   * Attempt date window of a leaderboard period, in ISO 8601 (to is exclusive)
+   * Weeks start on Monday and, like months, follow UTC
+   */
+  private static resolveLeaderboardWindow(
+    period: LeaderboardPeriod,
+    from?: string,
+    to?: string,
+    now: Date = new Date()
+  ): { from: string | null; to: string | null } {
+    if (period === 'week') {
+      const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+      start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+      return { from: start.toISOString(), to: null };
+    }
+
+    if (period === 'month') {
+      return { from: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)).toISOString(), to: null };
+    }
+
+    if (period === 'custom') {
+      if (!from && !to) {
+        throw new Error('A custom period needs a from or to date');
+      }
+
+      const range = {
+        from: from ? this.parseLeaderboardDate('from', from) : null,
+        to: to ? this.parseLeaderboardDate('to', to) : null,
+      };
+
+      // A plain date as the end of the range includes that whole day
+      if (range.to && to && /^\d{4}-\d{2}-\d{2}$/.test(to.trim())) {
+        range.to = new Date(Date.parse(range.to) + 24 * 60 * 60 * 1000).toISOString();
+      }
+
+      if (range.from && range.to && range.from >= range.to) {
+        throw new Error('The from date must be before the to date');
+      }
+      return range;
+    }
+
+    return { from: null, to: null };
+  }
+
+  /**
+   * SQL expression mapping a visibility setting or course policy column to its index
+   * in LEADERBOARD_VISIBILITIES (student_choice, like shown, is 0)
+   */
+  private static privacyLevelSql(column: string): string {
+    return `CASE ${column} ${LEADERBOARD_VISIBILITIES.map((v, level) => `WHEN '${v}' THEN ${level}`).join(' ')} ELSE 0 END`;
+  }
+
+  /**
+   * Validate a leaderboard date and normalise it to ISO 8601, the format attempt_date uses
+   */
+  private static parseLeaderboardDate(name: string, value: string): string {
+    const time = Date.parse(value);
+    if (Number.isNaN(time)) {
+      throw new Error(`Filter ${name} must be a date`);
+    }
+    return new Date(time).toISOString();
+  }
+}
@@ -0,0 +1,296 @@
+/**
+ * Quiz Session Service Unit Tests
+ *
+ * Tests starting random and authored quiz sessions, serving questions until the
+ * session deadline, recording answers (including a concurrent second answer to
+ * the same question) and scoring a finished session.
+ *
+ * @fileoverview Unit tests for src/lib/services/quiz-session-service.ts
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { QuizSessionService } from './quiz-session-service';
+import { QuizService, SubmitAnswerResult } from './quiz-service';
+import { QuestionService, Question } from './question-service';
+import { QuizAuthoringService } from './quiz-authoring-service';
+
+// ============================================
+// Mock Setup for D1 Client
+// ============================================
+
+vi.mock('@/lib/d1-client', () => ({
+  executeQuery: vi.fn(),
+  executeQueryFirst: vi.fn(),
+  executeMutation: vi.fn(),
+  executeBatch: vi.fn(),
+  generateId: vi.fn(() => 'mock-uuid-12345'),
+  toBoolean: vi.fn((value: unknown) => value === 1 || value === true),
+  fromBoolean: vi.fn((value: boolean) => (value ? 1 : 0)),
+}));
+
+import { executeQuery, executeQueryFirst, executeMutation, executeBatch } from '@/lib/d1-client';
+
+// ============================================
+// Test Fixtures
+// ============================================
+
+function createSessionRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'session-1',
+    student_id: 'student-1',
+    quiz_id: null,
+    quiz_title: null,
+    course_id: null,
+    status: 'in_progress',
+    question_count: 2,
+    category: null,
+    difficulty: null,
+    deadline_at: null,
+    correct_count: 0,
+    score: 0,
+    max_score: 0,
+    started_at: '2026-10-18T10:00:00.000Z',
+    completed_at: null,
+    answered_count: 0,
+    ...overrides,
+  };
+}
+
+function createSubmitResult(overrides: Partial<SubmitAnswerResult> = {}): SubmitAnswerResult {
+  return {
+    attemptId: 'attempt-1',
+    isCorrect: true,
+    score: 2,
+    awardedScore: 2,
+    attemptNumber: 1,
+    correctOptionId: 'option-1',
+    correctOptionText: 'Paris',
+    correctOptionIds: ['option-1'],
+    timeTakenSeconds: 12,
+    isLate: false,
+    ...overrides,
+  };
+}
+
+// ============================================
+// Test Suite
+// ============================================
+
+describe('QuizSessionService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  describe('startSession', () => {
+    it('should draw random questions from the student\'s courses and insert them in order', async () => {
+      vi.mocked(executeQuery).mockResolvedValue([{ id: 'question-1' }, { id: 'question-2' }]);
+      vi.mocked(executeBatch).mockResolvedValue([]);
+      vi.mocked(executeQueryFirst).mockResolvedValue(createSessionRow());
+
+      const session = await QuizSessionService.startSession('student-1', {
+        questionCount: 5,
+        difficulty: 'easy',
+      });
+
+      const [drawSql, drawParams] = vi.mocked(executeQuery).mock.calls[0];
+      expect(drawSql).toContain('q.deleted_at IS NULL');
+      expect(drawSql).toContain('q.difficulty = ?');
+      expect(drawParams).toEqual(['student-1', 'easy', 5]);
+
+      const statements = vi.mocked(executeBatch).mock.calls[0][0];
+      expect(statements).toHaveLength(3);
+      expect(statements[0].params).toContain(2);
+      expect(statements[1].params).toEqual(['mock-uuid-12345', 'question-1', 1]);
+      expect(statements[2].params).toEqual(['mock-uuid-12345', 'question-2', 2]);
+      expect(session).toMatchObject({ status: 'in_progress', questionCount: 2, deadlineAt: null });
+    });
+
+    it('should use a published quiz\'s questions and fix the deadline from its time limit', async () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date('2026-10-18T10:00:00.000Z'));
+      const delivery = vi.spyOn(QuizAuthoringService, 'getPublishedQuizDelivery').mockResolvedValue({
+        questionIds: ['question-3'],
+        timeLimitSeconds: 600,
+        courseId: 'course-1',
+      });
+      vi.mocked(executeBatch).mockResolvedValue([]);
+      vi.mocked(executeQueryFirst).mockResolvedValue(
+        createSessionRow({ quiz_id: 'quiz-1', course_id: 'course-1', question_count: 1 })
+      );
+
+      await QuizSessionService.startSession('student-1', { quizId: 'quiz-1', questionCount: 0 });
+
+      expect(delivery).toHaveBeenCalledWith('quiz-1', 'student-1');
+      expect(executeQuery).not.toHaveBeenCalled();
+      const sessionParams = vi.mocked(executeBatch).mock.calls[0][0][0].params;
+      expect(sessionParams).toEqual([
+        'mock-uuid-12345',
+        'student-1',
+        'quiz-1',
+        'course-1',
+        1,
+        null,
+        null,
+        '2026-10-18T10:10:00.000Z',
+        '2026-10-18T10:00:00.000Z',
+      ]);
+    });
+
+    it('should reject a question count outside the allowed range', async () => {
+      await expect(
+        QuizSessionService.startSession('student-1', { questionCount: 51 })
+      ).rejects.toThrow('Question count must be between 1 and 50');
+      expect(executeBatch).not.toHaveBeenCalled();
+    });
+
+    it('should reject a quiz without available questions', async () => {
+      vi.mocked(executeQuery).mockResolvedValue([]);
+
+      await expect(
+        QuizSessionService.startSession('student-1', { questionCount: 5 })
+      ).rejects.toThrow('No questions available');
+      expect(executeBatch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getNextQuestion', () => {
+    it('should serve the next unanswered question and stamp its issue time', async () => {
+      vi.mocked(executeQueryFirst)
+        .mockResolvedValueOnce(createSessionRow({ deadline_at: '2999-01-01T00:00:00.000Z' }))
+        .mockResolvedValueOnce({ question_id: 'question-2', position: 2, attempt_id: null });
+      vi.spyOn(QuestionService, 'getQuestionById').mockResolvedValue({
+        id: 'question-2',
+        timeLimitSeconds: 30,
+      } as Question);
+      const issue = vi.spyOn(QuizService, 'issueQuestion').mockResolvedValue({
+        id: 'issue-1',
+        issuedAt: '2026-10-18T10:00:00.000Z',
+        deadlineAt: '2026-10-18T10:00:30.000Z',
+      });
+
+      const next = await QuizSessionService.getNextQuestion('session-1', 'student-1');
+
+      expect(issue).toHaveBeenCalledWith('student-1', 'question-2', {
+        sessionId: 'session-1',
+        timeLimitSeconds: 30,
+        sessionDeadline: '2999-01-01T00:00:00.000Z',
+      });
+      expect(next?.position).toBe(2);
+      expect(next?.totalQuestions).toBe(2);
+      expect(next?.question.deadlineAt).toBe('2026-10-18T10:00:30.000Z');
+    });
+
+    it('should serve no more questions once the session deadline has passed', async () => {
+      vi.mocked(executeQueryFirst).mockResolvedValueOnce(
+        createSessionRow({ deadline_at: '2026-01-01T00:00:00.000Z' })
+      );
+      const issue = vi.spyOn(QuizService, 'issueQuestion');
+
+      const next = await QuizSessionService.getNextQuestion('session-1', 'student-1');
+
+      expect(next).toBeNull();
+      expect(issue).not.toHaveBeenCalled();
+    });
+
+    it('should reject a completed session', async () => {
+      vi.mocked(executeQueryFirst).mockResolvedValueOnce(createSessionRow({ status: 'completed' }));
+
+      await expect(
+        QuizSessionService.getNextQuestion('session-1', 'student-1')
+      ).rejects.toThrow('Quiz session is already completed');
+    });
+  });
+
+  describe('submitAnswer', () => {
+    it('should record the answer through the quiz service with the session', async () => {
+      vi.mocked(executeQueryFirst)
+        .mockResolvedValueOnce(createSessionRow({ answered_count: 1 }))
+        .mockResolvedValueOnce({ question_id: 'question-2', position: 2, attempt_id: null });
+      const submit = vi.spyOn(QuizService, 'submitAnswer').mockResolvedValue(createSubmitResult());
+
+      const result = await QuizSessionService.submitAnswer('session-1', 'student-1', {
+        questionId: 'question-2',
+        selectedOptionId: 'option-1',
+      });
+
+      expect(submit).toHaveBeenCalledWith('student-1', expect.objectContaining({
+        questionId: 'question-2',
+        sessionId: 'session-1',
+      }));
+      expect(executeMutation).not.toHaveBeenCalled();
+      expect(result).toMatchObject({ answeredCount: 2, questionCount: 2, isLastQuestion: true });
+    });
+
+    it('should reject a question that is not part of the session', async () => {
+      vi.mocked(executeQueryFirst)
+        .mockResolvedValueOnce(createSessionRow())
+        .mockResolvedValueOnce(null);
+      const submit = vi.spyOn(QuizService, 'submitAnswer');
+
+      await expect(
+        QuizSessionService.submitAnswer('session-1', 'student-1', { questionId: 'question-9' })
+      ).rejects.toThrow('Question not found in this quiz session');
+      expect(submit).not.toHaveBeenCalled();
+    });
+
+    it('should reject a question that was already answered', async () => {
+      vi.mocked(executeQueryFirst)
+        .mockResolvedValueOnce(createSessionRow())
+        .mockResolvedValueOnce({ question_id: 'question-1', position: 1, attempt_id: 'attempt-0' });
+      const submit = vi.spyOn(QuizService, 'submitAnswer');
+
+      await expect(
+        QuizSessionService.submitAnswer('session-1', 'student-1', { questionId: 'question-1' })
+      ).rejects.toThrow('Question has already been answered in this quiz session');
+      expect(submit).not.toHaveBeenCalled();
+    });
+
+    it('should reject a concurrent second answer to the same question', async () => {
+      vi.mocked(executeQueryFirst)
+        .mockResolvedValueOnce(createSessionRow())
+        .mockResolvedValueOnce({ question_id: 'question-1', position: 1, attempt_id: null });
+      vi.spyOn(QuizService, 'submitAnswer').mockRejectedValue(
+        new Error('Question has already been answered in this quiz session')
+      );
+
+      await expect(
+        QuizSessionService.submitAnswer('session-1', 'student-1', { questionId: 'question-1' })
+      ).rejects.toThrow('Question has already been answered in this quiz session');
+      expect(executeMutation).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('finishSession', () => {
+    it('should store the totals of the answered questions', async () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date('2026-10-18T10:30:00.000Z'));
+      vi.mocked(executeQueryFirst)
+        .mockResolvedValueOnce(createSessionRow({ answered_count: 1 }))
+        .mockResolvedValueOnce({ correct_count: 1, score: 2, max_score: 5 })
+        .mockResolvedValueOnce(createSessionRow({ status: 'completed', correct_count: 1, score: 2, max_score: 5 }));
+      vi.mocked(executeMutation).mockResolvedValue({ success: true, meta: { changes: 1 } });
+
+      const session = await QuizSessionService.finishSession('session-1', 'student-1');
+
+      const [sql, params] = vi.mocked(executeMutation).mock.calls[0];
+      expect(sql).toContain("status = 'completed'");
+      expect(params).toEqual([1, 2, 5, '2026-10-18T10:30:00.000Z', 'session-1']);
+      expect(session).toMatchObject({ status: 'completed', score: 2, maxScore: 5 });
+    });
+
+    it('should reject a session of another student', async () => {
+      vi.mocked(executeQueryFirst).mockResolvedValueOnce(null);
+
+      await expect(
+        QuizSessionService.finishSession('session-1', 'student-2')
+      ).rejects.toThrow('Quiz session not found');
+      expect(executeMutation).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,493 @@
+/**
+ * Quiz Session Service
+ * Handles multi-question quiz sessions: drawing questions up front,
+ * serving them in order, grouping attempts and scoring the finished quiz
+ */
+
+import {
+  executeQuery,
+  executeQueryFirst,
+  executeMutation,
+  executeBatch,
+  generateId,
+} from '@/lib/d1-client';
+import { QuestionService, Question } from '@/lib/services/question-service';
+import { QuizService, SubmitAnswerResult } from '@/lib/services/quiz-service';
+import { QuizAuthoringService } from '@/lib/services/quiz-authoring-service';
+import { CourseService } from '@/lib/services/course-service';
+
+// ============================================
+// Types & Interfaces
+// ============================================
+
+export type QuizSessionStatus = 'in_progress' | 'completed';
+
+export interface QuizSession {
+  id: string;
+  studentId: string;
+  quizId: string | null;
+  quizTitle: string | null;
+  // Course the questions were drawn from; null for random quizzes across all of the student's courses
+  courseId: string | null;
+  status: QuizSessionStatus;
+  questionCount: number;
+  answeredCount: number;
+  correctCount: number;
+  score: number;
+  maxScore: number;
+  category: string | null;
+  difficulty: 'easy' | 'medium' | 'hard' | null;
+  deadlineAt: string | null;
+  startedAt: string;
+  completedAt: string | null;
+}
+
+export interface StartSessionInput {
+  quizId?: string;
+  // Draw random questions from this course only (must be enrolled)
+  courseId?: string;
+  questionCount: number;
+  category?: string;
+  difficulty?: 'easy' | 'medium' | 'hard';
+  excludeAttempted?: boolean;
+}
+
+export interface SessionQuestion {
+  position: number;
+  totalQuestions: number;
+  question: Question;
+}
+
+export interface SubmitSessionAnswerInput {
+  questionId: string;
+  selectedOptionId?: string;
+  selectedOptionIds?: string[];
+  responseText?: string;
+}
+
+export interface SubmitSessionAnswerResult extends SubmitAnswerResult {
+  answeredCount: number;
+  questionCount: number;
+  isLastQuestion: boolean;
+}
+
+export interface PaginatedSessions {
+  data: QuizSession[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+// ============================================
+// Database Row Interfaces (internal)
+// ============================================
+
+interface SessionRow {
+  id: string;
+  student_id: string;
+  quiz_id: string | null;
+  quiz_title: string | null;
+  course_id: string | null;
+  status: string;
+  question_count: number;
+  category: string | null;
+  difficulty: string | null;
+  deadline_at: string | null;
+  correct_count: number;
+  score: number;
+  max_score: number;
+  started_at: string;
+  completed_at: string | null;
+  answered_count: number;
+}
+
+interface SessionQuestionRow {
+  question_id: string;
+  position: number;
+  attempt_id: string | null;
+}
+
+interface SessionTotalsRow {
+  correct_count: number | null;
+  score: number | null;
+  max_score: number | null;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+export const MIN_SESSION_QUESTIONS = 1;
+export const MAX_SESSION_QUESTIONS = 50;
+
+const SESSION_SELECT = `SELECT s.id, s.student_id, s.quiz_id, z.title as quiz_title, s.course_id, s.status,
+         s.question_count, s.category, s.difficulty, s.deadline_at, s.correct_count, s.score, s.max_score, s.started_at, s.completed_at,
+         (SELECT COUNT(*) FROM quiz_session_questions sq
+          WHERE sq.session_id = s.id AND sq.attempt_id IS NOT NULL) as answered_count
+       FROM quiz_sessions s
+       LEFT JOIN quizzes z ON z.id = s.quiz_id`;
+
+// ============================================
+// Quiz Session Service Class
+// ============================================
+
+export class QuizSessionService {
+  /**
+   * Start a new quiz session, drawing all of its questions up front
+   * With a quizId the published quiz's questions are used in authored order;
+   * otherwise questionCount questions are drawn at random from the student's courses.
+   * A quiz time limit fixes the session deadline at start
+   */
+  static async startSession(
+    studentId: string,
+    input: StartSessionInput
+  ): Promise<QuizSession> {
+    console.log('🎬 Starting quiz session for student:', studentId);
+
+    const delivery = input.quizId
+      ? await QuizAuthoringService.getPublishedQuizDelivery(input.quizId, studentId)
+      : {
+          questionIds: await this.drawRandomQuestionIds(studentId, input),
+          timeLimitSeconds: null,
+          courseId: input.courseId ?? null,
+        };
+    const { questionIds } = delivery;
+
+    if (questionIds.length === 0) {
+      throw new Error('No questions available');
+    }
+
+    const sessionId = generateId();
+    const startedAt = new Date();
+    const deadlineAt = delivery.timeLimitSeconds
+      ? new Date(startedAt.getTime() + delivery.timeLimitSeconds * 1000).toISOString()
+      : null;
+
+    await executeBatch([
+      {
+        sql: `INSERT INTO quiz_sessions (id, student_id, quiz_id, course_id, status, question_count, category, difficulty, deadline_at, started_at)
+              VALUES (?, ?, ?, ?, 'in_progress', ?, ?, ?, ?, ?)`,
+        params: [
+          sessionId,
+          studentId,
+          input.quizId ?? null,
+          delivery.courseId,
+          questionIds.length,
+          input.quizId ? null : input.category ?? null,
+          input.quizId ? null : input.difficulty ?? null,
+          deadlineAt,
+          startedAt.toISOString(),
+        ],
+      },
+      ...questionIds.map((questionId, index) => ({
+        sql: `INSERT INTO quiz_session_questions (session_id, question_id, position)
+              VALUES (?, ?, ?)`,
+        params: [sessionId, questionId, index + 1],
+      })),
+    ]);
+
+    console.log('✅ Quiz session started with', questionIds.length, 'questions');
+
+    const session = await this.getSession(sessionId, studentId);
+    if (!session) {
+      throw new Error('Failed to retrieve created quiz session');
+    }
+    return session;
+  }
+
+  /**
+   * Get a quiz session owned by the student
+   */
+  static async getSession(sessionId: string, studentId: string): Promise<QuizSession | null> {
+    const row = await executeQueryFirst<SessionRow>(
+      `${SESSION_SELECT}
+       WHERE s.id = ? AND s.student_id = ?`,
+      [sessionId, studentId]
+    );
+
+    return row ? this.mapSessionRow(row) : null;
+  }
+
+  /**
+   * Get the next unanswered question of an in-progress session
+   * Serving a question stamps its issue time for server-side timing.
+   * Returns null once every question has been answered or the session deadline has passed
+   */
+  static async getNextQuestion(
+    sessionId: string,
+    studentId: string
+  ): Promise<SessionQuestion | null> {
+    console.log('➡️ Getting next question for session:', sessionId);
+
+    const session = await this.requireInProgressSession(sessionId, studentId);
+
+    if (session.deadlineAt && Date.now() >= new Date(session.deadlineAt).getTime()) {
+      console.log('⌛ Quiz session time is up');
+      return null;
+    }
+
+    const next = await executeQueryFirst<SessionQuestionRow>(
+      `SELECT question_id, position, attempt_id
+       FROM quiz_session_questions
+       WHERE session_id = ? AND attempt_id IS NULL
+       ORDER BY position
+       LIMIT 1`,
+      [sessionId]
+    );
+
+    if (!next) {
+      console.log('✓ All session questions answered');
+      return null;
+    }
+
+    const question = await QuestionService.getQuestionById(next.question_id, studentId, 'student');
+    if (!question) {
+      throw new Error('Question not found');
+    }
+
+    const issue = await QuizService.issueQuestion(studentId, question.id, {
+      sessionId,
+      timeLimitSeconds: question.timeLimitSeconds,
+      sessionDeadline: session.deadlineAt,
+    });
+    question.issuedAt = issue.issuedAt;
+    question.deadlineAt = issue.deadlineAt;
+
+    return {
+      position: next.position,
+      totalQuestions: session.questionCount,
+      question,
+    };
+  }
+
+  /**
+   * Submit an answer for one of the session's unanswered questions
+   */
+  static async submitAnswer(
+    sessionId: string,
+    studentId: string,
+    input: SubmitSessionAnswerInput
+  ): Promise<SubmitSessionAnswerResult> {
+    console.log('📝 Submitting session answer:', sessionId);
+
+    const session = await this.requireInProgressSession(sessionId, studentId);
+
+    const sessionQuestion = await executeQueryFirst<SessionQuestionRow>(
+      `SELECT question_id, position, attempt_id
+       FROM quiz_session_questions
+       WHERE session_id = ? AND question_id = ?`,
+      [sessionId, input.questionId]
+    );
+
+    if (!sessionQuestion) {
+      throw new Error('Question not found in this quiz session');
+    }
+
+    if (sessionQuestion.attempt_id) {
+      throw new Error('Question has already been answered in this quiz session');
+    }
+
+    // Records the attempt and claims the session question together; a concurrent
+    // second answer is rejected without leaving anything behind
+    const result = await QuizService.submitAnswer(studentId, {
+      questionId: input.questionId,
+      selectedOptionId: input.selectedOptionId,
+      selectedOptionIds: input.selectedOptionIds,
+      responseText: input.responseText,
+      sessionId,
+    });
+
+    const answeredCount = session.answeredCount + 1;
+
+    console.log('✅ Session answer recorded:', answeredCount, '/', session.questionCount);
+
+    return {
+      ...result,
+      answeredCount,
+      questionCount: session.questionCount,
+      isLastQuestion: answeredCount >= session.questionCount,
+    };
+  }
+
+  /**
+   * Finish a session and store its final score
+   * Unanswered questions count as incorrect
+   */
+  static async finishSession(sessionId: string, studentId: string): Promise<QuizSession> {
+    console.log('🏁 Finishing quiz session:', sessionId);
+
+    await this.requireInProgressSession(sessionId, studentId);
+
+    const totals = await executeQueryFirst<SessionTotalsRow>(
+      `SELECT
+         SUM(CASE WHEN qa.is_correct = 1 THEN 1 ELSE 0 END) as correct_count,
+         SUM(COALESCE(qa.score, 0)) as score,
+         SUM(q.points) as max_score
+       FROM quiz_session_questions sq
+       JOIN questions q ON q.id = sq.question_id
+       LEFT JOIN quiz_attempts qa ON qa.id = sq.attempt_id
+       WHERE sq.session_id = ?`,
+      [sessionId]
+    );
+
+    await executeMutation(
+      `UPDATE quiz_sessions
+       SET status = 'completed', correct_count = ?, score = ?, max_score = ?, completed_at = ?
+       WHERE id = ?`,
+      [
+        totals?.correct_count ?? 0,
+        totals?.score ?? 0,
+        totals?.max_score ?? 0,
+        new Date().toISOString(),
+        sessionId,
+      ]
+    );
+
+    const session = await this.getSession(sessionId, studentId);
+    if (!session) {
+      throw new Error('Failed to retrieve finished quiz session');
+    }
+
+    console.log('✅ Quiz session finished:', session.score, '/', session.maxScore);
+    return session;
+  }
+
+  /**
+   * List a student's quiz sessions with pagination (most recent first)
+   */
+  static async listSessions(
+    studentId: string,
+    page: number = 1,
+    limit: number = 20
+  ): Promise<PaginatedSessions> {
+    console.log('📋 Listing quiz sessions for student:', studentId);
+
+    const safeLimit = Math.min(limit, 100);
+    const offset = (page - 1) * safeLimit;
+
+    const countResult = await executeQueryFirst<{ count: number }>(
+      'SELECT COUNT(*) as count FROM quiz_sessions WHERE student_id = ?',
+      [studentId]
+    );
+    const total = countResult?.count ?? 0;
+
+    const rows = await executeQuery<SessionRow>(
+      `${SESSION_SELECT}
+       WHERE s.student_id = ?
+       ORDER BY s.started_at DESC
+       LIMIT ? OFFSET ?`,
+      [studentId, safeLimit, offset]
+    );
+
+    console.log('✓ Found', total, 'quiz sessions');
+
+    return {
+      data: rows.map((row) => this.mapSessionRow(row)),
+      total,
+      page,
+      limit: safeLimit,
+      totalPages: Math.ceil(total / safeLimit),
+    };
+  }
+
+  /**
+   * Draw random question ids for a quiz that is not based on an authored quiz
+   */
+  private static async drawRandomQuestionIds(
+    studentId: string,
+    input: StartSessionInput
+  ): Promise<string[]> {
+    const questionCount = Math.floor(input.questionCount);
+    if (
+      !Number.isFinite(questionCount) ||
+      questionCount < MIN_SESSION_QUESTIONS ||
+      questionCount > MAX_SESSION_QUESTIONS
+    ) {
+      throw new Error(
+        `Question count must be between ${MIN_SESSION_QUESTIONS} and ${MAX_SESSION_QUESTIONS}`
+      );
+    }
+
+    if (input.difficulty && !['easy', 'medium', 'hard'].includes(input.difficulty)) {
+      throw new Error('Difficulty must be easy, medium, or hard');
+    }
+
+    // Build WHERE clause (mirrors QuestionService.getRandomQuestion)
+    const courseFilter = CourseService.buildStudentQuestionFilter(studentId, input.courseId);
+    const conditions: string[] = ['q.deleted_at IS NULL', courseFilter.sql];
+    const queryParams: unknown[] = [...courseFilter.params];
+
+    if (input.excludeAttempted) {
+      conditions.push(
+        'q.id NOT IN (SELECT DISTINCT question_id FROM quiz_attempts WHERE student_id = ?)'
+      );
+      queryParams.push(studentId);
+    }
+
+    if (input.category) {
+      conditions.push('q.category = ?');
+      queryParams.push(input.category);
+    }
+
+    if (input.difficulty) {
+      conditions.push('q.difficulty = ?');
+      queryParams.push(input.difficulty);
+    }
+
+    const drawn = await executeQuery<{ id: string }>(
+      `SELECT q.id FROM questions q
+       WHERE ${conditions.join(' AND ')}
+       ORDER BY RANDOM()
+       LIMIT ?`,
+      [...queryParams, questionCount]
+    );
+
+    // The quiz is shortened when fewer questions match than were requested
+    return drawn.map((row) => row.id);
+  }
+
+  /**
+   * Load a session and make sure it can still accept answers
+   */
+  private static async requireInProgressSession(
+    sessionId: string,
+    studentId: string
+  ): Promise<QuizSession> {
+    const session = await this.getSession(sessionId, studentId);
+
+    if (!session) {
+      throw new Error('Quiz session not found');
+    }
+
+    if (session.status !== 'in_progress') {
+      throw new Error('Quiz session is already completed');
+    }
+
+    return session;
+  }
+
+  /**
+   * Map a database row to a QuizSession
+   */
+  private static mapSessionRow(row: SessionRow): QuizSession {
+    return {
+      id: row.id,
+      studentId: row.student_id,
+      quizId: row.quiz_id,
+      quizTitle: row.quiz_title,
+      courseId: row.course_id ?? null,
+      status: row.status as QuizSessionStatus,
+      questionCount: row.question_count,
+      answeredCount: row.answered_count ?? 0,
+      correctCount: row.correct_count,
+      score: row.score,
+      maxScore: row.max_score,
+      category: row.category,
+      difficulty: row.difficulty as 'easy' | 'medium' | 'hard' | null,
+      deadlineAt: row.deadline_at,
+      startedAt: row.started_at,
+      completedAt: row.completed_at,
+    };
+  }
+}
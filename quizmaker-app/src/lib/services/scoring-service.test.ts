@@ -0,0 +1,122 @@
+/**
+ * Scoring Service Unit Tests
+ *
+ * Tests the points repeated answers earn under each scoring policy, and that
+ * changing the policy recomputes every attempt in the same batch as the audit event.
+ *
+ * @fileoverview Unit tests for src/lib/services/scoring-service.ts
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ScoringService } from './scoring-service';
+
+// ============================================
+// Mock Setup for D1 Client
+// ============================================
+
+vi.mock('@/lib/d1-client', () => ({
+  executeQuery: vi.fn(),
+  executeQueryFirst: vi.fn(),
+  executeMutation: vi.fn(),
+  executeBatch: vi.fn(),
+  generateId: vi.fn(() => 'mock-uuid-12345'),
+  toBoolean: vi.fn((value: unknown) => value === 1 || value === true),
+  fromBoolean: vi.fn((value: boolean) => (value ? 1 : 0)),
+}));
+
+import { executeQueryFirst, executeMutation, executeBatch } from '@/lib/d1-client';
+
+// ============================================
+// Test Suite
+// ============================================
+
+describe('ScoringService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('awardScore', () => {
+    const first = { count: 0, bestScore: null };
+
+    it('should count every answer in full under every_attempt', () => {
+      expect(ScoringService.awardScore('every_attempt', 5, { count: 3, bestScore: 5 })).toEqual({
+        attemptNumber: 4,
+        awardedScore: 5,
+      });
+    });
+
+    it('should only count the first answer under first_attempt', () => {
+      expect(ScoringService.awardScore('first_attempt', 2, first).awardedScore).toBe(2);
+      expect(ScoringService.awardScore('first_attempt', 5, { count: 1, bestScore: 2 }).awardedScore).toBe(0);
+    });
+
+    it('should only award improvements on the best score under best_attempt', () => {
+      expect(ScoringService.awardScore('best_attempt', 2, first).awardedScore).toBe(2);
+      expect(ScoringService.awardScore('best_attempt', 5, { count: 1, bestScore: 2 }).awardedScore).toBe(3);
+      expect(ScoringService.awardScore('best_attempt', 1, { count: 2, bestScore: 5 }).awardedScore).toBe(0);
+    });
+
+    it('should halve each repeat under diminishing, then award nothing', () => {
+      const awarded = [0, 1, 2, 3].map(
+        (count) => ScoringService.awardScore('diminishing', 4, { count, bestScore: count ? 4 : null }).awardedScore
+      );
+
+      expect(awarded).toEqual([4, 2, 1, 0]);
+    });
+  });
+
+  describe('getSettings', () => {
+    it('should fall back to best_attempt without a settings row', async () => {
+      vi.mocked(executeQueryFirst).mockResolvedValue(null);
+
+      const settings = await ScoringService.getSettings();
+
+      expect(settings.policy).toBe('best_attempt');
+    });
+  });
+
+  describe('updatePolicy', () => {
+    it('should save the policy, recompute attempts and audit the change together', async () => {
+      vi.mocked(executeQueryFirst)
+        .mockResolvedValueOnce({ policy: 'best_attempt', updated_by: null, updated_at: null })
+        .mockResolvedValueOnce({ policy: 'first_attempt', updated_by: 'admin-1', updated_at: '2026-10-18T10:00:00.000Z' });
+      vi.mocked(executeBatch).mockResolvedValue([]);
+
+      const settings = await ScoringService.updatePolicy('admin-1', 'first_attempt');
+
+      const statements = vi.mocked(executeBatch).mock.calls[0][0];
+      expect(statements).toHaveLength(3);
+      expect(statements[0].params).toEqual(['first_attempt', 'admin-1', expect.any(String)]);
+      expect(statements[1].sql).toContain('UPDATE quiz_attempts');
+      expect(statements[1].sql).toContain('CASE WHEN ordered.attempt_number = 1 THEN ordered.score ELSE 0 END');
+      expect(statements[2].params).toContain('scoring.policy_change');
+      expect(settings.policy).toBe('first_attempt');
+    });
+
+    it('should reject an unknown policy', async () => {
+      await expect(
+        ScoringService.updatePolicy('admin-1', 'latest_attempt' as 'best_attempt')
+      ).rejects.toThrow('Scoring policy must be one of: every_attempt, first_attempt, best_attempt, diminishing');
+      expect(executeBatch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('recompute', () => {
+    it('should apply the current policy to every attempt', async () => {
+      vi.mocked(executeQueryFirst).mockResolvedValue({ policy: 'diminishing', updated_by: null, updated_at: null });
+      vi.mocked(executeMutation).mockResolvedValue({ success: true, meta: { changes: 42 } });
+
+      const result = await ScoringService.recompute();
+
+      expect(result).toEqual({ policy: 'diminishing', updated: 42 });
+      expect(vi.mocked(executeMutation).mock.calls[0][0]).toContain(
+        'CASE ordered.attempt_number WHEN 1 THEN 1 WHEN 2 THEN 0.5 WHEN 3 THEN 0.25 ELSE 0 END'
+      );
+    });
+  });
+});
@@ -0,0 +1,217 @@
+/**
+ * Scoring Service
+ * The application-wide scoring policy that decides how many points repeated answers
+ * to the same question add to a student's totals. Each attempt stores its awarded
+ * score, so statistics and leaderboards only need to sum it; changing the policy
+ * recomputes the awarded score of every attempt
+ */
+
+import { executeQueryFirst, executeMutation, executeBatch } from '@/lib/d1-client';
+import { AuditService } from '@/lib/services/audit-service';
+import { SessionContext } from '@/lib/services/session-service';
+
+// ============================================
+// Types & Interfaces
+// ============================================
+
+export type ScoringPolicy = 'every_attempt' | 'first_attempt' | 'best_attempt' | 'diminishing';
+
+export interface ScoringSettings {
+  policy: ScoringPolicy;
+  updatedBy: string | null;
+  updatedAt: string | null;
+}
+
+// A student's earlier answers to the question being scored
+export interface PreviousAttempts {
+  count: number;
+  // Highest score among them; null without earlier answers
+  bestScore: number | null;
+}
+
+export interface AwardedScore {
+  attemptNumber: number;
+  awardedScore: number;
+}
+
+// ============================================
+// Database Row Interfaces (internal)
+// ============================================
+
+interface ScoringSettingsRow {
+  policy: ScoringPolicy;
+  updated_by: string | null;
+  updated_at: string | null;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+export const SCORING_POLICIES: ScoringPolicy[] = ['every_attempt', 'first_attempt', 'best_attempt', 'diminishing'];
+
+export const DEFAULT_SCORING_POLICY: ScoringPolicy = 'best_attempt';
+
+/**
+ * Share of the score each answer to a question earns under the diminishing policy,
+ * by attempt number; answers beyond the list earn nothing
+ */
+export const DIMINISHING_MULTIPLIERS = [1, 0.5, 0.25];
+
+// ============================================
+// Scoring Service Class
+// ============================================
+
+export class ScoringService {
+  /**
+   * Get the current scoring policy
+   */
+  static async getSettings(): Promise<ScoringSettings> {
+    const row = await executeQueryFirst<ScoringSettingsRow>(
+      'SELECT policy, updated_by, updated_at FROM scoring_settings WHERE id = 1'
+    );
+
+    return {
+      policy: row?.policy ?? DEFAULT_SCORING_POLICY,
+      updatedBy: row?.updated_by ?? null,
+      updatedAt: row?.updated_at ?? null,
+    };
+  }
+
+  /**
+   * Points an answer adds to the student's totals under a policy
+   * The score is what the answer itself earned; scores are whole points, so
+   * diminishing shares round down like partial credit does
+   */
+  static awardScore(policy: ScoringPolicy, score: number, previous: PreviousAttempts): AwardedScore {
+    const attemptNumber = previous.count + 1;
+
+    switch (policy) {
+      case 'first_attempt':
+        return { attemptNumber, awardedScore: previous.count === 0 ? score : 0 };
+      case 'best_attempt':
+        return { attemptNumber, awardedScore: Math.max(0, score - (previous.bestScore ?? 0)) };
+      case 'diminishing':
+        return {
+          attemptNumber,
+          awardedScore: Math.floor(score * (DIMINISHING_MULTIPLIERS[previous.count] ?? 0)),
+        };
+      default:
+        return { attemptNumber, awardedScore: score };
+    }
+  }
+
+  /**
+   * A student's earlier answers to a question, for awardScore
+   */
+  static async getPreviousAttempts(studentId: string, questionId: string): Promise<PreviousAttempts> {
+    const row = await executeQueryFirst<{ count: number; best_score: number | null }>(
+      `SELECT COUNT(*) as count, MAX(score) as best_score
+       FROM quiz_attempts
+       WHERE student_id = ? AND question_id = ?`,
+      [studentId, questionId]
+    );
+
+    return { count: row?.count ?? 0, bestScore: row?.best_score ?? null };
+  }
+
+  /**
+   * Switch the scoring policy (admin only) and recompute every attempt's awarded score
+   */
+  static async updatePolicy(
+    adminId: string,
+    policy: ScoringPolicy,
+    context: SessionContext = {}
+  ): Promise<ScoringSettings> {
+    console.log('⚖️ Changing scoring policy to:', policy);
+
+    if (!SCORING_POLICIES.includes(policy)) {
+      throw new Error(`Scoring policy must be one of: ${SCORING_POLICIES.join(', ')}`);
+    }
+
+    const current = await this.getSettings();
+
+    await executeBatch([
+      {
+        sql: `INSERT INTO scoring_settings (id, policy, updated_by, updated_at) VALUES (1, ?, ?, ?)
+              ON CONFLICT(id) DO UPDATE SET policy = excluded.policy,
+                updated_by = excluded.updated_by, updated_at = excluded.updated_at`,
+        params: [policy, adminId, new Date().toISOString()],
+      },
+      this.buildRecomputeStatement(policy),
+      AuditService.buildRecordStatement({
+        actorId: adminId,
+        action: 'scoring.policy_change',
+        targetType: 'scoring_settings',
+        changes: AuditService.diff({ policy: current.policy }, { policy }),
+        ipAddress: context.ipAddress,
+      }),
+    ]);
+
+    console.log('✅ Scoring policy changed and attempts recomputed');
+    return this.getSettings();
+  }
+
+  /**
+   * Renumber every attempt and recompute its awarded score under the current policy
+   * For repairing totals after attempts were imported or edited outside the app
+   */
+  static async recompute(): Promise<{ policy: ScoringPolicy; updated: number }> {
+    const { policy } = await this.getSettings();
+    console.log('🔁 Recomputing awarded scores for policy:', policy);
+
+    const statement = this.buildRecomputeStatement(policy);
+    const result = await executeMutation(statement.sql, statement.params);
+    const updated = result.meta?.changes ?? 0;
+
+    console.log('✅ Recomputed', updated, 'attempts');
+    return { policy, updated };
+  }
+
+  /**
+   * UPDATE statement applying a policy to every attempt, matching awardScore:
+   * attempts are numbered per student and question in answer order
+   */
+  private static buildRecomputeStatement(policy: ScoringPolicy): { sql: string; params: unknown[] } {
+    return {
+      sql: `WITH ordered AS (
+              SELECT
+                id,
+                score,
+                ROW_NUMBER() OVER (PARTITION BY student_id, question_id ORDER BY attempt_date, id) as attempt_number,
+                MAX(score) OVER (
+                  PARTITION BY student_id, question_id ORDER BY attempt_date, id
+                  ROWS BETWEEN UNBOUNDED PRECEDING AND 1 PRECEDING
+                ) as previous_best
+              FROM quiz_attempts
+            )
+            UPDATE quiz_attempts
+            SET attempt_number = ordered.attempt_number,
+                awarded_score = ${this.awardedScoreSql(policy)}
+            FROM ordered
+            WHERE ordered.id = quiz_attempts.id`,
+      params: [],
+    };
+  }
+
+  /**
+   * SQL expression for an attempt's awarded score over the ordered CTE
+   */
+  private static awardedScoreSql(policy: ScoringPolicy): string {
+    switch (policy) {
+      case 'first_attempt':
+        return 'CASE WHEN ordered.attempt_number = 1 THEN ordered.score ELSE 0 END';
+      case 'best_attempt':
+        return 'MAX(0, ordered.score - COALESCE(ordered.previous_best, 0))';
+      case 'diminishing': {
+        const shares = DIMINISHING_MULTIPLIERS
+          .map((multiplier, index) => `WHEN ${index + 1} THEN ${multiplier}`)
+          .join(' ');
+        // CAST truncates, which is Math.floor for the non-negative scores
+        return `CAST(ordered.score * (CASE ordered.attempt_number ${shares} ELSE 0 END) AS INTEGER)`;
+      }
+      default:
+        return 'ordered.score';
+    }
+  }
+}
@@ -0,0 +1,222 @@
+/**
+ * Session Service Unit Tests
+ *
+ * Tests session validation (including the short-lived cache), refresh token rotation
+ * and reuse detection, listing and revocation.
+ *
+ * @fileoverview Unit tests for src/lib/services/session-service.ts
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { SessionService, SESSION_CACHE_TTL_MS } from './session-service';
+
+// ============================================
+// Mock Setup for D1 Client
+// ============================================
+
+vi.mock('@/lib/d1-client', () => ({
+  executeQuery: vi.fn(),
+  executeQueryFirst: vi.fn(),
+  executeMutation: vi.fn(),
+  executeBatch: vi.fn(),
+  generateId: vi.fn(() => 'mock-uuid-12345'),
+  toBoolean: vi.fn((value: unknown) => value === 1 || value === true),
+  fromBoolean: vi.fn((value: boolean) => (value ? 1 : 0)),
+}));
+
+import { hashToken } from '@/lib/crypto-edge';
+import { executeQuery, executeQueryFirst, executeMutation, executeBatch } from '@/lib/d1-client';
+
+// ============================================
+// Test Fixtures
+// ============================================
+
+function createSessionRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'session-1',
+    user_id: 'user-123',
+    user_agent: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 14_0) AppleWebKit/605.1.15 Version/17.0 Safari/605.1.15',
+    ip_address: '203.0.113.7',
+    created_at: '2026-01-07T10:00:00.000Z',
+    last_seen_at: new Date().toISOString(),
+    expires_at: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+    revoked_at: null,
+    ...overrides,
+  };
+}
+
+function createRefreshTokenRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'refresh-1',
+    session_id: 'session-1',
+    used_at: null,
+    user_id: 'user-123',
+    expires_at: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+    revoked_at: null,
+    ...overrides,
+  };
+}
+
+// ============================================
+// Test Suite
+// ============================================
+
+describe('SessionService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    SessionService.clearCache();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  describe('validateSession', () => {
+    it('should cache results until the TTL passes', async () => {
+      vi.useFakeTimers();
+      vi.mocked(executeQueryFirst).mockResolvedValue(createSessionRow());
+
+      expect(await SessionService.validateSession('session-1', 'user-123')).toBe(true);
+      expect(await SessionService.validateSession('session-1', 'user-123')).toBe(true);
+      expect(executeQueryFirst).toHaveBeenCalledTimes(1);
+
+      vi.advanceTimersByTime(SESSION_CACHE_TTL_MS + 1);
+      vi.mocked(executeQueryFirst).mockResolvedValue(createSessionRow({ revoked_at: new Date().toISOString() }));
+
+      expect(await SessionService.validateSession('session-1', 'user-123')).toBe(false);
+      expect(executeQueryFirst).toHaveBeenCalledTimes(2);
+    });
+
+    it('should reject expired, unknown and foreign sessions', async () => {
+      vi.mocked(executeQueryFirst).mockResolvedValueOnce(
+        createSessionRow({ expires_at: new Date(Date.now() - 1000).toISOString() })
+      );
+      expect(await SessionService.validateSession('session-1', 'user-123')).toBe(false);
+
+      vi.mocked(executeQueryFirst).mockResolvedValueOnce(null);
+      expect(await SessionService.validateSession('session-2', 'user-123')).toBe(false);
+
+      vi.mocked(executeQueryFirst).mockResolvedValueOnce(createSessionRow({ id: 'session-3' }));
+      expect(await SessionService.validateSession('session-3', 'user-456')).toBe(false);
+    });
+
+    it('should refresh last seen only when it is stale', async () => {
+      vi.mocked(executeQueryFirst).mockResolvedValueOnce(createSessionRow());
+      await SessionService.validateSession('session-1', 'user-123', { ipAddress: '198.51.100.1' });
+      expect(executeMutation).not.toHaveBeenCalled();
+
+      vi.mocked(executeQueryFirst).mockResolvedValueOnce(
+        createSessionRow({ id: 'session-2', last_seen_at: '2026-01-07T10:00:00.000Z' })
+      );
+      await SessionService.validateSession('session-2', 'user-123', { ipAddress: '198.51.100.1' });
+      expect(executeMutation).toHaveBeenCalledWith(
+        expect.stringContaining('UPDATE sessions SET last_seen_at = ?'),
+        [expect.any(String), '198.51.100.1', 'session-2']
+      );
+    });
+  });
+
+  describe('rotateRefreshToken', () => {
+    it('should replace the token and extend the session', async () => {
+      vi.mocked(executeQueryFirst).mockResolvedValue(createRefreshTokenRow());
+      vi.mocked(executeMutation).mockResolvedValue({ success: true, meta: { changes: 1 } });
+      vi.mocked(executeBatch).mockResolvedValue([]);
+
+      const rotated = await SessionService.rotateRefreshToken('old-token');
+
+      expect(rotated).toMatchObject({ sessionId: 'session-1', userId: 'user-123' });
+      expect(executeMutation).toHaveBeenCalledWith(
+        expect.stringContaining('UPDATE refresh_tokens SET used_at = ?'),
+        [expect.any(String), 'refresh-1']
+      );
+      const [insert, extend] = vi.mocked(executeBatch).mock.calls[0][0];
+      expect(insert.params).toContain(await hashToken(rotated.refreshToken!));
+      expect(extend.sql).toContain('UPDATE sessions SET expires_at = ?');
+    });
+
+    it('should revoke the session when a rotated token is reused', async () => {
+      vi.mocked(executeQueryFirst).mockResolvedValue(
+        createRefreshTokenRow({ used_at: new Date(Date.now() - 5 * 60 * 1000).toISOString() })
+      );
+      vi.mocked(executeMutation).mockResolvedValue({ success: true, meta: { changes: 1 } });
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      await expect(SessionService.rotateRefreshToken('old-token')).rejects.toThrow(
+        'Invalid or expired refresh token'
+      );
+      expect(executeMutation).toHaveBeenCalledWith(
+        expect.stringContaining('UPDATE sessions SET revoked_at = ?'),
+        [expect.any(String), 'session-1', 'user-123']
+      );
+      expect(executeBatch).not.toHaveBeenCalled();
+    });
+
+    it('should tolerate a token rotated moments ago by a parallel request', async () => {
+      vi.mocked(executeQueryFirst).mockResolvedValue(
+        createRefreshTokenRow({ used_at: new Date(Date.now() - 1000).toISOString() })
+      );
+
+      const rotated = await SessionService.rotateRefreshToken('old-token');
+
+      expect(rotated).toEqual({ sessionId: 'session-1', userId: 'user-123', refreshToken: null });
+      expect(executeMutation).not.toHaveBeenCalled();
+    });
+
+    it('should reject tokens of revoked sessions', async () => {
+      vi.mocked(executeQueryFirst).mockResolvedValue(createRefreshTokenRow({ revoked_at: '2026-01-07T10:00:00Z' }));
+
+      await expect(SessionService.rotateRefreshToken('old-token')).rejects.toThrow(
+        'Invalid or expired refresh token'
+      );
+    });
+  });
+
+  describe('listSessions', () => {
+    it('should label devices and mark the current session', async () => {
+      vi.mocked(executeQuery).mockResolvedValue([
+        createSessionRow(),
+        createSessionRow({ id: 'session-2', user_agent: null, ip_address: null }),
+      ]);
+
+      const sessions = await SessionService.listSessions('user-123', 'session-2');
+
+      expect(sessions.map((s) => [s.device, s.current])).toEqual([
+        ['Safari on macOS', false],
+        ['Unknown device', true],
+      ]);
+    });
+  });
+
+  describe('revocation', () => {
+    it('should stop accepting a revoked session immediately on this instance', async () => {
+      vi.mocked(executeQueryFirst).mockResolvedValue(createSessionRow());
+      vi.mocked(executeMutation).mockResolvedValue({ success: true, meta: { changes: 1 } });
+      await SessionService.validateSession('session-1', 'user-123');
+
+      await SessionService.revokeSession('user-123', 'session-1');
+
+      vi.mocked(executeQueryFirst).mockResolvedValue(createSessionRow({ revoked_at: new Date().toISOString() }));
+      expect(await SessionService.validateSession('session-1', 'user-123')).toBe(false);
+    });
+
+    it('should not revoke another user\'s session', async () => {
+      vi.mocked(executeMutation).mockResolvedValue({ success: true, meta: { changes: 0 } });
+
+      await expect(SessionService.revokeSession('user-456', 'session-1')).rejects.toThrow('Session not found');
+    });
+
+    it('should keep the excepted session when revoking all', async () => {
+      vi.mocked(executeMutation).mockResolvedValue({ success: true, meta: { changes: 2 } });
+
+      const revoked = await SessionService.revokeAllSessions('user-123', 'session-1');
+
+      expect(revoked).toBe(2);
+      expect(executeMutation).toHaveBeenCalledWith(
+        expect.stringContaining('AND id != ?'),
+        [expect.any(String), 'user-123', 'session-1']
+      );
+    });
+  });
+});
@@ -0,0 +1,395 @@
+/**
+ * Session Service
+ * Server-side registry of login sessions, keyed by the JWT jti claim
+ */
+
+import { executeQuery, executeQueryFirst, executeMutation, executeBatch, generateId } from '@/lib/d1-client';
+import { generateToken, hashToken } from '@/lib/crypto-edge';
+
+// ============================================
+// Types & Interfaces
+// ============================================
+
+export interface Session {
+  id: string;
+  device: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastSeenAt: string;
+  expiresAt: string;
+  // True for the session making the request
+  current: boolean;
+}
+
+export interface SessionContext {
+  userAgent?: string | null;
+  ipAddress?: string | null;
+}
+
+export interface RotatedSession {
+  sessionId: string;
+  userId: string;
+  // Null when the presented token was rotated moments ago by a concurrent request;
+  // the client already holds (or is about to receive) its replacement
+  refreshToken: string | null;
+}
+
+// ============================================
+// Database Row Interfaces (internal)
+// ============================================
+
+interface SessionRow {
+  id: string;
+  user_id: string;
+  user_agent: string | null;
+  ip_address: string | null;
+  created_at: string;
+  last_seen_at: string;
+  expires_at: string;
+  revoked_at: string | null;
+}
+
+interface RefreshTokenRow {
+  id: string;
+  session_id: string;
+  used_at: string | null;
+  user_id: string;
+  expires_at: string;
+  revoked_at: string | null;
+}
+
+interface CachedSession {
+  userId: string;
+  valid: boolean;
+  checkedAt: number;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+// Sessions expire after a week without a refresh; every refresh extends them
+export const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// A rotated refresh token presented again within this window is treated as a race
+// between parallel requests rather than reuse
+const REFRESH_REUSE_GRACE_MS = 30 * 1000;
+
+// How long a validation result is reused before the database is asked again.
+// A revoked session may keep working this long on other worker instances
+export const SESSION_CACHE_TTL_MS = 30 * 1000;
+
+const MAX_CACHED_SESSIONS = 1000;
+
+// last_seen_at is only written when it is older than this
+const LAST_SEEN_UPDATE_INTERVAL_MS = 5 * 60 * 1000;
+
+const MAX_USER_AGENT_LENGTH = 500;
+
+// Per-instance cache of validation results
+const sessionCache = new Map<string, CachedSession>();
+
+// ============================================
+// Session Service Class
+// ============================================
+
+export class SessionService {
+  /**
+   * Record a new session with its first refresh token
+   * The session id is used as the access token's jti
+   */
+  static async createSession(
+    userId: string,
+    context: SessionContext
+  ): Promise<{ sessionId: string; refreshToken: string }> {
+    const sessionId = generateId();
+    const refreshToken = generateToken();
+    const now = new Date();
+
+    await executeBatch([
+      {
+        sql: `INSERT INTO sessions (id, user_id, user_agent, ip_address, created_at, last_seen_at, expires_at)
+              VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        params: [
+          sessionId,
+          userId,
+          context.userAgent?.slice(0, MAX_USER_AGENT_LENGTH) ?? null,
+          context.ipAddress ?? null,
+          now.toISOString(),
+          now.toISOString(),
+          new Date(now.getTime() + SESSION_TTL_MS).toISOString(),
+        ],
+      },
+      await this.buildInsertRefreshToken(sessionId, refreshToken, now.toISOString()),
+    ]);
+
+    console.log('✅ Session created for user:', userId);
+    return { sessionId, refreshToken };
+  }
+
+  /**
+   * Exchange a refresh token for its replacement and extend the session
+   * Presenting a token that was already rotated revokes the whole session (token family),
+   * since either the client or an attacker is holding a stolen copy
+   */
+  static async rotateRefreshToken(refreshToken: string, context: SessionContext = {}): Promise<RotatedSession> {
+    const row = await executeQueryFirst<RefreshTokenRow>(
+      `SELECT rt.id, rt.session_id, rt.used_at, s.user_id, s.expires_at, s.revoked_at
+       FROM refresh_tokens rt
+       JOIN sessions s ON s.id = rt.session_id
+       WHERE rt.token_hash = ?`,
+      [await hashToken(refreshToken)]
+    );
+
+    const now = new Date();
+    if (!row || row.revoked_at || row.expires_at <= now.toISOString()) {
+      throw new Error('Invalid or expired refresh token');
+    }
+
+    const rotated = { sessionId: row.session_id, userId: row.user_id };
+
+    if (row.used_at) {
+      if (now.getTime() - Date.parse(row.used_at) < REFRESH_REUSE_GRACE_MS) {
+        return { ...rotated, refreshToken: null };
+      }
+
+      console.warn('⚠️ Refresh token reuse detected; revoking session:', row.session_id);
+      await this.revokeSession(row.user_id, row.session_id).catch(() => {});
+      throw new Error('Invalid or expired refresh token');
+    }
+
+    // Claim the token so only one request rotates it
+    const claim = await executeMutation(
+      'UPDATE refresh_tokens SET used_at = ? WHERE id = ? AND used_at IS NULL',
+      [now.toISOString(), row.id]
+    );
+    if (claim.meta?.changes === 0) {
+      return { ...rotated, refreshToken: null };
+    }
+
+    const nextToken = generateToken();
+    await executeBatch([
+      await this.buildInsertRefreshToken(row.session_id, nextToken, now.toISOString()),
+      {
+        sql: `UPDATE sessions SET expires_at = ?, last_seen_at = ?, ip_address = COALESCE(?, ip_address)
+              WHERE id = ?`,
+        params: [
+          new Date(now.getTime() + SESSION_TTL_MS).toISOString(),
+          now.toISOString(),
+          context.ipAddress ?? null,
+          row.session_id,
+        ],
+      },
+    ]);
+
+    console.log('🔄 Refresh token rotated for session:', row.session_id);
+    return { ...rotated, refreshToken: nextToken };
+  }
+
+  /**
+   * Whether a session exists for this user and is neither expired nor revoked
+   * Results are cached for SESSION_CACHE_TTL_MS; last seen time and IP are refreshed
+   * at most every few minutes
+   */
+  static async validateSession(
+    sessionId: string,
+    userId: string,
+    context: SessionContext = {}
+  ): Promise<boolean> {
+    const cached = sessionCache.get(sessionId);
+    if (cached && Date.now() - cached.checkedAt < SESSION_CACHE_TTL_MS) {
+      return cached.valid && cached.userId === userId;
+    }
+
+    const row = await executeQueryFirst<SessionRow>(
+      'SELECT id, user_id, expires_at, last_seen_at, revoked_at FROM sessions WHERE id = ?',
+      [sessionId]
+    );
+
+    const now = new Date();
+    const valid = !!row && row.user_id === userId && !row.revoked_at && row.expires_at > now.toISOString();
+
+    if (row && valid && Date.parse(row.last_seen_at) < now.getTime() - LAST_SEEN_UPDATE_INTERVAL_MS) {
+      await executeMutation(
+        'UPDATE sessions SET last_seen_at = ?, ip_address = COALESCE(?, ip_address) WHERE id = ?',
+        [now.toISOString(), context.ipAddress ?? null, sessionId]
+      );
+    }
+
+    this.cacheResult(sessionId, { userId: row?.user_id ?? userId, valid, checkedAt: Date.now() });
+    return valid;
+  }
+
+  /**
+   * List a user's active sessions, most recently used first
+   */
+  static async listSessions(userId: string, currentSessionId?: string): Promise<Session[]> {
+    const rows = await executeQuery<SessionRow>(
+      `SELECT id, user_id, user_agent, ip_address, created_at, last_seen_at, expires_at, revoked_at
+       FROM sessions
+       WHERE user_id = ? AND revoked_at IS NULL AND expires_at > ?
+       ORDER BY last_seen_at DESC`,
+      [userId, new Date().toISOString()]
+    );
+
+    return rows.map((row) => ({
+      id: row.id,
+      device: this.describeDevice(row.user_agent),
+      userAgent: row.user_agent,
+      ipAddress: row.ip_address,
+      createdAt: row.created_at,
+      lastSeenAt: row.last_seen_at,
+      expiresAt: row.expires_at,
+      current: row.id === currentSessionId,
+    }));
+  }
+
+  /**
+   * Revoke one of the user's sessions
+   */
+  static async revokeSession(userId: string, sessionId: string): Promise<void> {
+    const result = await executeMutation(
+      'UPDATE sessions SET revoked_at = ? WHERE id = ? AND user_id = ? AND revoked_at IS NULL',
+      [new Date().toISOString(), sessionId, userId]
+    );
+
+    if (result.meta?.changes === 0) {
+      throw new Error('Session not found');
+    }
+
+    sessionCache.delete(sessionId);
+    console.log('✅ Session revoked:', sessionId);
+  }
+
+  /**
+   * Revoke the session a refresh token belongs to (used on logout)
+   * Returns the session's user, or null for unknown tokens, which are ignored
+   */
+  static async revokeSessionByRefreshToken(refreshToken: string): Promise<string | null> {
+    const row = await executeQueryFirst<{ session_id: string; user_id: string }>(
+      `SELECT rt.session_id, s.user_id
+       FROM refresh_tokens rt
+       JOIN sessions s ON s.id = rt.session_id
+       WHERE rt.token_hash = ?`,
+      [await hashToken(refreshToken)]
+    );
+    if (!row) {
+      return null;
+    }
+
+    await executeMutation(
+      'UPDATE sessions SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL',
+      [new Date().toISOString(), row.session_id]
+    );
+    sessionCache.delete(row.session_id);
+    console.log('✅ Session revoked:', row.session_id);
+    return row.user_id;
+  }
+
+  /**
+   * Revoke all of the user's sessions, optionally keeping one (e.g. the current one)
+   * Returns the number of sessions revoked
+   */
+  static async revokeAllSessions(userId: string, exceptSessionId?: string): Promise<number> {
+    const statement = this.buildRevokeAllStatement(userId, new Date().toISOString(), exceptSessionId);
+    const result = await executeMutation(statement.sql, statement.params);
+
+    this.forgetUser(userId, exceptSessionId);
+    console.log('✅ Sessions revoked for user:', userId);
+    return result.meta?.changes ?? 0;
+  }
+
+  /**
+   * Statement revoking all of a user's sessions, for use inside a larger batch
+   * Callers must call forgetUser() once the batch has run
+   */
+  static buildRevokeAllStatement(
+    userId: string,
+    now: string,
+    exceptSessionId?: string
+  ): { sql: string; params: unknown[] } {
+    return exceptSessionId
+      ? {
+          sql: 'UPDATE sessions SET revoked_at = ? WHERE user_id = ? AND revoked_at IS NULL AND id != ?',
+          params: [now, userId, exceptSessionId],
+        }
+      : {
+          sql: 'UPDATE sessions SET revoked_at = ? WHERE user_id = ? AND revoked_at IS NULL',
+          params: [now, userId],
+        };
+  }
+
+  /**
+   * Drop cached validation results for a user's sessions on this instance
+   */
+  static forgetUser(userId: string, exceptSessionId?: string): void {
+    for (const [sessionId, cached] of sessionCache) {
+      if (cached.userId === userId && sessionId !== exceptSessionId) {
+        sessionCache.delete(sessionId);
+      }
+    }
+  }
+
+  /**
+   * Empty the validation cache (used by tests)
+   */
+  static clearCache(): void {
+    sessionCache.clear();
+  }
+
+  /**
+   * Statement storing the hash of a new refresh token for a session
+   */
+  private static async buildInsertRefreshToken(
+    sessionId: string,
+    refreshToken: string,
+    now: string
+  ): Promise<{ sql: string; params: unknown[] }> {
+    return {
+      sql: 'INSERT INTO refresh_tokens (id, session_id, token_hash, created_at) VALUES (?, ?, ?, ?)',
+      params: [generateId(), sessionId, await hashToken(refreshToken), now],
+    };
+  }
+
+  /**
+   * Store a validation result, evicting the oldest entry when the cache is full
+   */
+  private static cacheResult(sessionId: string, entry: CachedSession): void {
+    sessionCache.delete(sessionId);
+    if (sessionCache.size >= MAX_CACHED_SESSIONS) {
+      const oldest = sessionCache.keys().next().value;
+      if (oldest !== undefined) {
+        sessionCache.delete(oldest);
+      }
+    }
+    sessionCache.set(sessionId, entry);
+  }
+
+  /**
+   * Short "Browser on OS" label from a user agent string
+   */
+  private static describeDevice(userAgent: string | null): string {
+    if (!userAgent) {
+      return 'Unknown device';
+    }
+
+    const browser =
+      /Edg\//.test(userAgent) ? 'Edge'
+        : /OPR\/|Opera/.test(userAgent) ? 'Opera'
+          : /Firefox\//.test(userAgent) ? 'Firefox'
+            : /Chrome\/|CriOS\//.test(userAgent) ? 'Chrome'
+              : /Safari\//.test(userAgent) ? 'Safari'
+                : null;
+    const os =
+      /iPhone|iPad|iPod/.test(userAgent) ? 'iOS'
+        : /Android/.test(userAgent) ? 'Android'
+          : /Windows/.test(userAgent) ? 'Windows'
+            : /Mac OS X|Macintosh/.test(userAgent) ? 'macOS'
+              : /Linux/.test(userAgent) ? 'Linux'
+                : null;
+
+    if (browser && os) return `${browser} on ${os}`;
+    return browser ?? os ?? 'Unknown device';
+  }
+}
@@ -0,0 +1,190 @@
+/**
+ * XML Utilities
+ * Minimal XML reader for question bank files (no DOMParser in the Workers runtime).
+ * Handles elements, attributes, text, CDATA, comments, processing instructions and
+ * the predefined and numeric character entities; DTDs are not supported
+ */
+
+// ============================================
+// Types & Interfaces
+// ============================================
+
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: Array<XmlElement | string>;
+}
+
+// ============================================
+// Parsing
+// ============================================
+
+/**
+ * Decode the predefined and numeric character entities
+ */
+export function decodeXmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|amp|lt|gt|quot|apos);/g, (match, entity: string) => {
+    switch (entity) {
+      case 'amp':
+        return '&';
+      case 'lt':
+        return '<';
+      case 'gt':
+        return '>';
+      case 'quot':
+        return '"';
+      case 'apos':
+        return "'";
+      default: {
+        const code = entity.startsWith('#x')
+          ? parseInt(entity.slice(2), 16)
+          : parseInt(entity.slice(1), 10);
+        return Number.isFinite(code) && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+      }
+    }
+  });
+}
+
+/**
+ * Parse an XML document and return its root element
+ */
+export function parseXml(text: string): XmlElement {
+  const root: XmlElement = { name: '#document', attributes: {}, children: [] };
+  const stack: XmlElement[] = [root];
+  let i = 0;
+
+  const current = () => stack[stack.length - 1];
+
+  while (i < text.length) {
+    if (text[i] !== '<') {
+      const next = text.indexOf('<', i);
+      const end = next === -1 ? text.length : next;
+      const content = decodeXmlEntities(text.slice(i, end));
+      if (content.trim() !== '') {
+        current().children.push(content);
+      }
+      i = end;
+      continue;
+    }
+
+    if (text.startsWith('<!--', i)) {
+      const end = text.indexOf('-->', i + 4);
+      if (end === -1) throw new Error('XML has an unterminated comment');
+      i = end + 3;
+    } else if (text.startsWith('<![CDATA[', i)) {
+      const end = text.indexOf(']]>', i + 9);
+      if (end === -1) throw new Error('XML has an unterminated CDATA section');
+      current().children.push(text.slice(i + 9, end));
+      i = end + 3;
+    } else if (text.startsWith('<?', i)) {
+      const end = text.indexOf('?>', i + 2);
+      if (end === -1) throw new Error('XML has an unterminated processing instruction');
+      i = end + 2;
+    } else if (text.startsWith('<!', i)) {
+      throw new Error('XML document type declarations are not supported');
+    } else if (text.startsWith('</', i)) {
+      const end = text.indexOf('>', i);
+      if (end === -1) throw new Error('XML has an unterminated closing tag');
+      const name = text.slice(i + 2, end).trim();
+      const element = stack.pop();
+      if (!element || element === root || element.name !== name) {
+        throw new Error(`XML closing tag </${name}> does not match`);
+      }
+      i = end + 1;
+    } else {
+      const end = findTagEnd(text, i);
+      const selfClosing = text[end - 1] === '/';
+      const body = text.slice(i + 1, selfClosing ? end - 1 : end);
+      const nameMatch = body.match(/^[^\s/>]+/);
+      if (!nameMatch) throw new Error('XML has an element without a name');
+
+      const element: XmlElement = {
+        name: nameMatch[0],
+        attributes: parseAttributes(body.slice(nameMatch[0].length)),
+        children: [],
+      };
+      current().children.push(element);
+      if (!selfClosing) {
+        stack.push(element);
+      }
+      i = end + 1;
+    }
+  }
+
+  if (stack.length > 1) {
+    throw new Error(`XML element <${current().name}> is not closed`);
+  }
+
+  const rootElement = root.children.find((child): child is XmlElement => typeof child !== 'string');
+  if (!rootElement) {
+    throw new Error('XML document has no root element');
+  }
+  return rootElement;
+}
+
+// ============================================
+// Navigation Helpers
+// ============================================
+
+/**
+ * Direct child elements, optionally filtered by name
+ */
+export function childElements(element: XmlElement, name?: string): XmlElement[] {
+  return element.children.filter(
+    (child): child is XmlElement => typeof child !== 'string' && (!name || child.name === name)
+  );
+}
+
+/**
+ * First direct child element with the given name
+ */
+export function childElement(element: XmlElement, name: string): XmlElement | undefined {
+  return childElements(element, name)[0];
+}
+
+/**
+ * Concatenated text content of an element and its descendants
+ */
+export function textContent(element: XmlElement | undefined): string {
+  if (!element) {
+    return '';
+  }
+  return element.children
+    .map((child) => (typeof child === 'string' ? child : textContent(child)))
+    .join('');
+}
+
+// ============================================
+// Internal Helpers
+// ============================================
+
+/**
+ * Find the closing '>' of a start tag, skipping quoted attribute values
+ */
+function findTagEnd(text: string, start: number): number {
+  let quote: string | null = null;
+  for (let i = start + 1; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '>') {
+      return i;
+    }
+  }
+  throw new Error('XML has an unterminated start tag');
+}
+
+/**
+ * Parse name="value" pairs from the inside of a start tag
+ */
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const pattern = /([^\s=]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(source)) !== null) {
+    attributes[match[1]] = decodeXmlEntities(match[3] ?? match[4] ?? '');
+  }
+  return attributes;
+}
@@ -1,5 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { verifyToken } from '@/lib/jwt-edge';
+import { AuthService } from '@/lib/services/auth-service';
+import {
+  ACCESS_TOKEN_COOKIE,
+  REFRESH_TOKEN_COOKIE,
+  getClientContext,
+  setAuthCookies,
+  clearAuthCookies,
+} from '@/lib/auth-utils';
+import { UserRole, hasRole, getHomePath } from '@/lib/roles';
 
 export const config = {
   matcher: [
@@ -25,34 +33,41 @@ export async function middleware(request: NextRequest) {
   }
 
   // Public routes that don't require authentication
-  const publicRoutes = ['/', '/login', '/signup'];
+  const publicRoutes = ['/', '/login', '/signup', '/forgot-password', '/reset-password', '/verify-email'];
   const isPublicRoute = publicRoutes.includes(pathname);
 
   // API routes (except auth) require authentication
   const isApiRoute = pathname.startsWith('/api/');
 
-  // Get token from cookie
-  const token = request.cookies.get('auth_token')?.value;
+  // Get tokens from cookies
+  const token = request.cookies.get(ACCESS_TOKEN_COOKIE)?.value;
+  const refreshToken = request.cookies.get(REFRESH_TOKEN_COOKIE)?.value;
+  const hasCredentials = !!(token || refreshToken);
 
-  // If it's a public route and user has token, allow
-  if (isPublicRoute && !token) {
+  // If it's a public route and user has no tokens, allow
+  if (isPublicRoute && !hasCredentials) {
     return NextResponse.next();
   }
 
   // If user is authenticated and tries to access login/signup, redirect to dashboard
-  if (isPublicRoute && token && (pathname === '/login' || pathname === '/signup')) {
+  if (isPublicRoute && hasCredentials && (pathname === '/login' || pathname === '/signup')) {
     try {
-      const decoded = await verifyToken(token);
-      const redirectUrl = decoded.role === 'instructor' ? '/instructor/dashboard' : '/student/quiz';
-      return NextResponse.redirect(new URL(redirectUrl, request.url));
+      const { payload, tokens } = await AuthService.authenticate(token, refreshToken, getClientContext(request));
+      const response = NextResponse.redirect(new URL(getHomePath(payload.role), request.url));
+      if (tokens) {
+        setAuthCookies(response, tokens);
+      }
+      return response;
     } catch {
-      // Invalid token, allow access to login/signup
-      return NextResponse.next();
+      // Invalid tokens, allow access to login/signup
+      const response = NextResponse.next();
+      clearAuthCookies(response);
+      return response;
     }
   }
 
-  // If no token and trying to access protected route, redirect to login
-  if (!token && !isPublicRoute) {
+  // If no tokens and trying to access protected route, redirect to login
+  if (!hasCredentials && !isPublicRoute) {
     if (isApiRoute) {
       return NextResponse.json(
         { success: false, message: 'Not authenticated' },
@@ -62,30 +77,43 @@ export async function middleware(request: NextRequest) {
     return NextResponse.redirect(new URL('/login', request.url));
   }
 
-  // Verify token
-  if (token) {
+  // Verify the access token, refreshing it transparently when it has expired
+  if (hasCredentials) {
     try {
-      const decoded = await verifyToken(token);
+      const { payload: decoded, tokens } = await AuthService.authenticate(
+        token,
+        refreshToken,
+        getClientContext(request)
+      );
+
+      // Let route handlers that read the cookie see the renewed access token
+      if (tokens) {
+        request.cookies.set(ACCESS_TOKEN_COOKIE, tokens.accessToken);
+      }
 
       // Add user info to request headers for use in API routes
       const requestHeaders = new Headers(request.headers);
       requestHeaders.set('x-user-id', decoded.userId);
       requestHeaders.set('x-user-role', decoded.role);
-
-      // Role-based route protection
-      if (pathname.startsWith('/instructor') && decoded.role !== 'instructor') {
-        return NextResponse.redirect(new URL('/student/quiz', request.url));
+      requestHeaders.set('x-session-id', decoded.jti ?? '');
+
+      // Role-based route protection; higher roles may use lower roles' pages
+      const requiredRole = getRequiredRole(pathname);
+      let response: NextResponse;
+      if (requiredRole && !hasRole(decoded.role, requiredRole)) {
+        response = NextResponse.redirect(new URL(getHomePath(decoded.role), request.url));
+      } else {
+        response = NextResponse.next({
+          request: {
+            headers: requestHeaders,
+          },
+        });
       }
 
-      if (pathname.startsWith('/student') && decoded.role !== 'student') {
-        return NextResponse.redirect(new URL('/instructor/dashboard', request.url));
+      if (tokens) {
+        setAuthCookies(response, tokens);
       }
-
-      return NextResponse.next({
-        request: {
-          headers: requestHeaders,
-        },
-      });
+      return response;
     } catch (error) {
       // Invalid token
       const response = isApiRoute
@@ -95,8 +123,8 @@ export async function middleware(request: NextRequest) {
           )
         : NextResponse.redirect(new URL('/login', request.url));
 
-      // Clear invalid token
-      response.cookies.delete('auth_token');
+      // Clear invalid tokens
+      clearAuthCookies(response);
       return response;
     }
   }
@@ -104,3 +132,18 @@ export async function middleware(request: NextRequest) {
   return NextResponse.next();
 }
 
+/**
+ * Role needed for a page section, or null when any signed-in user may see it
+ */
+function getRequiredRole(pathname: string): UserRole | null {
+  if (pathname.startsWith('/admin')) {
+    return 'admin';
+  }
+  if (pathname.startsWith('/instructor')) {
+    return 'instructor';
+  }
+  if (pathname.startsWith('/student')) {
+    return 'student';
+  }
+  return null;
+}